@@ -7,6 +7,7 @@ import { AlbumDetailClient } from '@/components/admin/album-detail-client'
 import { ShareLinkButton } from '@/components/admin/share-link-button'
 import { PackageDownloadButton } from '@/components/admin/package-download-button'
 import { ScanSyncButtonWrapper } from '@/components/admin/scan-sync-button-wrapper'
+import { getAlbumAccessLevel, getCurrentUserWithRoleFromCookies, hasAlbumPermission } from '@/lib/auth/album-access'
 import type { Database } from '@/types/database'
 
 type Album = Database['public']['Tables']['albums']['Row']
@@ -21,6 +22,15 @@ interface AlbumDetailPageProps {
  */
 export default async function AlbumDetailPage({ params }: AlbumDetailPageProps) {
   const { id } = await params
+
+  // 摄影师只能访问自己创建或被邀请协作的相册
+  const currentUser = await getCurrentUserWithRoleFromCookies()
+  const access = currentUser ? await getAlbumAccessLevel(currentUser, id) : null
+  if (!access) {
+    notFound()
+  }
+  const canEdit = hasAlbumPermission(access, 'edit')
+
   const db = await createClient()
 
   // 获取相册信息
@@ -128,7 +138,7 @@ export default async function AlbumDetailPage({ params }: AlbumDetailPageProps)
         </div>
         <div className="flex items-center gap-2 sm:gap-3 flex-wrap">
           {/* 扫描同步 */}
-          <ScanSyncButtonWrapper albumId={id} />
+          {canEdit && <ScanSyncButtonWrapper albumId={id} />}
           {/* 打包下载 */}
           <PackageDownloadButton
             albumId={id}
@@ -138,17 +148,20 @@ export default async function AlbumDetailPage({ params }: AlbumDetailPageProps)
           {/* 分享链接 */}
           <ShareLinkButton 
             url={shareUrl} 
+            albumId={id}
             albumTitle={album.title}
             albumDescription={album.description}
             backgroundImageUrl={backgroundImageUrl}
           />
-          <Link
-            href={`/admin/albums/${id}/settings`}
-            className="btn-secondary min-h-[44px] px-3 sm:px-4"
-          >
-            <Settings className="w-4 h-4" />
-            <span className="hidden sm:inline">设置</span>
-          </Link>
+          {canEdit && (
+            <Link
+              href={`/admin/albums/${id}/settings`}
+              className="btn-secondary min-h-[44px] px-3 sm:px-4"
+            >
+              <Settings className="w-4 h-4" />
+              <span className="hidden sm:inline">设置</span>
+            </Link>
+          )}
         </div>
       </div>
 
@@ -4,6 +4,8 @@ import { ArrowLeft } from 'lucide-react'
 import { createClient } from '@/lib/database'
 import type { Database } from '@/types/database'
 import { AlbumSettingsForm } from '@/components/admin/album-settings-form'
+import { AlbumCollaboratorManager } from '@/components/admin/album-collaborator-manager'
+import { getAlbumAccessLevel, getCurrentUserWithRoleFromCookies, hasAlbumPermission } from '@/lib/auth/album-access'
 
 type Album = Database['public']['Tables']['albums']['Row']
 
@@ -18,6 +20,14 @@ export default async function AlbumSettingsPage({
   params,
 }: AlbumSettingsPageProps) {
   const { id } = await params
+
+  // 修改设置需要编辑权限（只读协作者和无关摄影师看不到此页面）
+  const currentUser = await getCurrentUserWithRoleFromCookies()
+  const access = currentUser ? await getAlbumAccessLevel(currentUser, id) : null
+  if (!hasAlbumPermission(access, 'edit')) {
+    notFound()
+  }
+
   const db = await createClient()
 
   // 获取相册信息
@@ -34,20 +44,6 @@ export default async function AlbumSettingsPage({
 
   const album = albumResult.data as Album
 
-  // 获取封面照片的原图 key（用于风格预设预览）
-  let coverOriginalKey: string | null = null
-  if (album.cover_photo_id) {
-    const coverPhotoResult = await db
-      .from('photos')
-      .select('original_key')
-      .eq('id', album.cover_photo_id)
-      .single()
-    
-    if (coverPhotoResult.data) {
-      coverOriginalKey = (coverPhotoResult.data as { original_key: string | null }).original_key
-    }
-  }
-
   return (
     <div className="max-w-4xl lg:max-w-6xl">
       {/* 面包屑导航 */}
@@ -65,7 +61,15 @@ export default async function AlbumSettingsPage({
       <h1 className="text-2xl font-serif font-bold mb-8">相册设置</h1>
 
       {/* 设置表单组件 */}
-      <AlbumSettingsForm album={album} coverOriginalKey={coverOriginalKey} />
+      <AlbumSettingsForm
+        album={{ ...album, password: null }}
+        hasPassword={!!album.password}
+      />
+
+      {/* 协作者管理 */}
+      <div className="card mt-8">
+        <AlbumCollaboratorManager albumId={id} canManage={hasAlbumPermission(access, 'manage')} />
+      </div>
     </div>
   )
 }
@@ -0,0 +1,72 @@
+import { Suspense } from 'react'
+import { getCurrentUser } from '@/lib/auth'
+import { createAdminClient } from '@/lib/database'
+import { redirect } from 'next/navigation'
+import { AnalyticsDashboard } from '@/components/admin/analytics-dashboard'
+
+/**
+ * 访问统计页
+ */
+export default async function AnalyticsPage() {
+  // 检查登录状态
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect('/admin/login')
+  }
+
+  // 检查管理员权限（直接查询数据库）
+  const db = await createAdminClient()
+  const userResult = await db
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .is('deleted_at', null)
+    .single()
+
+  if (userResult.error || !userResult.data) {
+    redirect('/admin/login')
+  }
+
+  const role = (userResult.data as { role: string }).role
+  if (role !== 'admin') {
+    redirect('/admin')
+  }
+
+  // 相册筛选下拉框
+  const albumsResult = await db
+    .from<{ id: string; title: string }>('albums')
+    .select('id, title')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+
+  return (
+    <Suspense fallback={<AnalyticsSkeleton />}>
+      <AnalyticsDashboard albums={albumsResult.data || []} />
+    </Suspense>
+  )
+}
+
+function AnalyticsSkeleton() {
+  return (
+    <div className="space-y-6">
+      {/* 标题骨架 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <div className="h-8 w-32 bg-surface rounded-lg animate-pulse mb-2" />
+          <div className="h-4 w-64 bg-surface rounded-lg animate-pulse" />
+        </div>
+        <div className="h-10 w-28 bg-surface rounded-lg animate-pulse" />
+      </div>
+
+      {/* 指标卡片骨架 */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="h-24 bg-surface rounded-lg animate-pulse" />
+        ))}
+      </div>
+
+      {/* 趋势图骨架 */}
+      <div className="h-64 bg-surface rounded-lg animate-pulse" />
+    </div>
+  )
+}
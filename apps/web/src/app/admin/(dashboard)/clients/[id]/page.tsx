@@ -0,0 +1,39 @@
+import { notFound, redirect } from 'next/navigation'
+import { getAccessibleAlbums, getCurrentUserWithRoleFromCookies } from '@/lib/auth/album-access'
+import { getClient, getClientActivity } from '@/lib/clients'
+import { clientIdSchema } from '@/lib/validation/schemas'
+import { ClientDetailClient } from '@/components/admin/client-detail-client'
+
+interface ClientDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 客户详情页：客户资料及其相册、访客选片和下载记录
+ * 摄影师只能看到自己可访问的相册及其记录
+ */
+export default async function ClientDetailPage({ params }: ClientDetailPageProps) {
+  const user = await getCurrentUserWithRoleFromCookies()
+  if (!user) {
+    redirect('/admin/login')
+  }
+
+  if (user.role !== 'admin' && user.role !== 'photographer') {
+    redirect('/admin')
+  }
+
+  const { id } = await params
+  if (!clientIdSchema.safeParse({ id }).success) {
+    notFound()
+  }
+
+  const client = await getClient(id)
+  if (!client) {
+    notFound()
+  }
+
+  const accessMap = await getAccessibleAlbums(user)
+  const activity = await getClientActivity(id, accessMap)
+
+  return <ClientDetailClient client={client} activity={activity} canDelete={user.role === 'admin'} />
+}
@@ -0,0 +1,48 @@
+import { Suspense } from 'react'
+import { redirect } from 'next/navigation'
+import { getCurrentUserWithRoleFromCookies } from '@/lib/auth/album-access'
+import { ClientList } from '@/components/admin/client-list'
+
+/**
+ * 客户列表页（管理员和摄影师可访问）
+ */
+export default async function ClientsPage() {
+  const user = await getCurrentUserWithRoleFromCookies()
+  if (!user) {
+    redirect('/admin/login')
+  }
+
+  if (user.role !== 'admin' && user.role !== 'photographer') {
+    redirect('/admin')
+  }
+
+  return (
+    <Suspense fallback={<ClientListSkeleton />}>
+      <ClientList canDelete={user.role === 'admin'} />
+    </Suspense>
+  )
+}
+
+function ClientListSkeleton() {
+  return (
+    <div className="space-y-6">
+      {/* 标题骨架 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <div className="h-8 w-32 bg-surface rounded-lg animate-pulse mb-2" />
+          <div className="h-4 w-64 bg-surface rounded-lg animate-pulse" />
+        </div>
+        <div className="h-10 w-28 bg-surface rounded-lg animate-pulse" />
+      </div>
+
+      {/* 表格骨架 */}
+      <div className="bg-surface rounded-lg border border-border p-4">
+        <div className="space-y-4">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <div key={i} className="h-16 bg-background rounded-lg animate-pulse" />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
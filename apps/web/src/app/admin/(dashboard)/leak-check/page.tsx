@@ -0,0 +1,39 @@
+import { getCurrentUser } from '@/lib/auth'
+import { createAdminClient } from '@/lib/database'
+import { redirect } from 'next/navigation'
+import { LeakIdentifier } from '@/components/admin/leak-identifier'
+
+export const metadata = {
+  title: '泄露溯源 - PIS Admin',
+}
+
+/**
+ * 泄露溯源页（管理员和摄影师）
+ */
+export default async function LeakCheckPage() {
+  // 检查登录状态
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect('/admin/login')
+  }
+
+  // 检查角色（直接查询数据库）
+  const db = await createAdminClient()
+  const userResult = await db
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .is('deleted_at', null)
+    .single()
+
+  if (userResult.error || !userResult.data) {
+    redirect('/admin/login')
+  }
+
+  const role = (userResult.data as { role: string }).role
+  if (role !== 'admin' && role !== 'photographer') {
+    redirect('/admin')
+  }
+
+  return <LeakIdentifier />
+}
@@ -2,6 +2,7 @@ import { Suspense } from 'react'
 import { createClient } from '@/lib/database'
 import { AlbumList } from '@/components/admin/album-list'
 import { AlbumCardSkeleton } from '@/components/ui/skeleton'
+import { getAccessibleAlbums, getCurrentUserWithRoleFromCookies, type AlbumAccessLevel } from '@/lib/auth/album-access'
 import type { Album, Photo } from '@/types/database'
 
 // 强制动态渲染，确保每次请求都获取最新数据
@@ -11,20 +12,46 @@ export const dynamic = 'force-dynamic'
 /**
  * 相册列表页 (管理后台首页)
  * 
- * 注意：此页面只显示未删除的相册（deleted_at IS NULL）
- * 已删除的相册会移至回收站，不在此页面显示
+ * 注意：此页面只显示未删除的相册（deleted_at IS NULL），以及过期后被生命周期任务
+ * 软删除的相册（lifecycle_state = 'deleted'，可在「已过期删除」筛选中延期恢复）
+ * 摄影师只显示自己创建或被邀请协作的相册
+ * 手动删除的相册会移至回收站，不在此页面显示
  */
 export default async function AdminPage() {
   const db = await createClient()
 
+  // 摄影师只能看到自己创建或被邀请协作的相册（管理员为 null，可查看全部）
+  const currentUser = await getCurrentUserWithRoleFromCookies()
+  const accessMap = currentUser ? await getAccessibleAlbums(currentUser) : new Map<string, AlbumAccessLevel>()
+
   // 获取相册列表（只获取未删除的相册，已删除的相册在回收站）
-  const albumsResult = await db
-    .from('albums')
-    .select('*')
-    .is('deleted_at', null) // 只查询未删除的相册
-    .order('created_at', { ascending: false })
+  let albumsData: Album[] = []
+  if (!accessMap || accessMap.size > 0) {
+    let albumsQuery = db
+      .from('albums')
+      .select('*')
+      .is('deleted_at', null) // 只查询未删除的相册
+      .order('created_at', { ascending: false })
+
+    if (accessMap) {
+      albumsQuery = albumsQuery.in('id', Array.from(accessMap.keys()))
+    }
+
+    // 过期后被自动删除的相册
+    let expiredDeletedQuery = db
+      .from('albums')
+      .select('*')
+      .eq('lifecycle_state', 'deleted')
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
 
-  const albumsData = (albumsResult.data || []) as Album[]
+    if (accessMap) {
+      expiredDeletedQuery = expiredDeletedQuery.in('id', Array.from(accessMap.keys()))
+    }
+
+    const [albumsResult, expiredDeletedResult] = await Promise.all([albumsQuery, expiredDeletedQuery])
+    albumsData = [...(albumsResult.data || []), ...(expiredDeletedResult.data || [])] as Album[]
+  }
 
   // 获取封面图的 key（只获取已处理完成的照片）
   const coverPhotoIds = albumsData
@@ -76,11 +103,12 @@ export default async function AdminPage() {
     ...album,
     photo_count: photoCountMap[album.id] ?? album.photo_count ?? 0,
     cover_thumb_key: album.cover_photo_id ? coverPhotosMap[album.cover_photo_id] : null,
+    access: accessMap ? accessMap.get(album.id) : 'admin',
   }))
 
   return (
     <Suspense fallback={<AlbumListSkeleton />}>
-      <AlbumList initialAlbums={albums || []} />
+      <AlbumList initialAlbums={albums || []} showOwnershipFilter={!!accessMap} />
     </Suspense>
   )
 }
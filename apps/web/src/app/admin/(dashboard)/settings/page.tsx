@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/database";
+import { createClient, createAdminClient } from "@/lib/database";
 import { getCurrentUser } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import {
@@ -14,12 +14,21 @@ import {
   CheckCircle2,
   Download,
   Sparkles,
+  ShieldCheck,
+  Palette,
+  MailCheck,
 } from "lucide-react";
 import { ChangePasswordForm } from "@/components/admin/change-password-form";
+import { TwoFactorSettings } from "@/components/admin/two-factor-settings";
 import { TemplateManager } from "@/components/admin/template-manager";
 import { ConsistencyChecker } from "@/components/admin/consistency-checker";
 import { UpgradeManager } from "@/components/admin/upgrade-manager";
 import { AIRetouchSettings } from "@/components/admin/ai-retouch-settings";
+import { SystemSettingsForm } from "@/components/admin/system-settings-form";
+import { NotificationTemplateManager } from "@/components/admin/notification-template-manager";
+import { getSystemSettings } from "@/lib/system-settings";
+import { getAlbumStorageUsage, getTotalStorage, sumStorageUsage } from "@/lib/storage-usage";
+import { formatFileSize } from "@/lib/utils";
 
 export default async function SettingsPage() {
   const db = await createClient();
@@ -30,6 +39,17 @@ export default async function SettingsPage() {
     redirect("/admin/login");
   }
 
+  // 站点设置（品牌、相册默认选项、功能开关）仅管理员可修改
+  const adminClient = await createAdminClient();
+  const roleResult = await adminClient
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .is("deleted_at", null)
+    .single();
+  const isAdmin = (roleResult.data as { role: string } | null)?.role === "admin";
+  const systemSettings = isAdmin ? await getSystemSettings() : null;
+
   // 获取相册统计
   const albumCountResult = await db
     .from("albums")
@@ -82,6 +102,9 @@ export default async function SettingsPage() {
   const allAlbumIds =
     (allAlbumsResult.data as Array<{ id: string }> | null)?.map((a) => a.id) || [];
 
+  // 存储用量（数据库记录的原图、缩略图、预览图和打包下载大小）
+  const storageUsed = getTotalStorage(sumStorageUsage(await getAlbumStorageUsage(null)));
+
   // 获取最近创建的相册
   const recentAlbumsResult = await db
     .from("albums")
@@ -102,6 +125,34 @@ export default async function SettingsPage() {
         <p className="text-text-secondary mt-1">管理您的账户和系统配置</p>
       </div>
 
+      {/* 站点设置 */}
+      {systemSettings && (
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+            <Palette className="w-5 h-5 text-accent" />
+            站点设置
+          </h2>
+          <p className="text-sm text-text-muted mb-4">
+            品牌、备案信息和功能开关保存在数据库中，修改后无需编辑 .env 或重新部署
+          </p>
+          <SystemSettingsForm initialSettings={systemSettings} />
+        </div>
+      )}
+
+      {/* 客户通知模板 */}
+      {isAdmin && (
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
+            <MailCheck className="w-5 h-5 text-accent" />
+            客户通知模板
+          </h2>
+          <p className="text-sm text-text-muted mb-4">
+            相册开启「邮件通知客户」后发送的邮件内容，按客户的通知语言选择模板（需要在 Worker 配置 SMTP）
+          </p>
+          <NotificationTemplateManager />
+        </div>
+      )}
+
       {/* 账户信息 */}
       <div className="card">
         <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -152,6 +203,15 @@ export default async function SettingsPage() {
         <ChangePasswordForm />
       </div>
 
+      {/* 两步验证 */}
+      <div className="card">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-accent" />
+          两步验证
+        </h2>
+        <TwoFactorSettings />
+      </div>
+
       {/* 系统统计 */}
       <div className="card">
         <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -173,10 +233,14 @@ export default async function SettingsPage() {
           </div>
           <div className="p-4 bg-surface rounded-lg">
             <p className="text-sm text-text-muted mb-1">存储使用</p>
-            <p className="text-2xl font-bold">
-              {photoCount ? ((photoCount * 5) / 1024).toFixed(1) : "0"} GB
-            </p>
-            <p className="text-xs text-text-muted mt-1">估算值</p>
+            <p className="text-2xl font-bold">{formatFileSize(storageUsed)}</p>
+            {isAdmin ? (
+              <a href="/admin/storage" className="text-xs text-accent hover:underline mt-1 inline-block">
+                查看存储用量明细
+              </a>
+            ) : (
+              <p className="text-xs text-text-muted mt-1">含缩略图、预览图和打包下载</p>
+            )}
           </div>
         </div>
       </div>
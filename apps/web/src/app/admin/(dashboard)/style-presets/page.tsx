@@ -0,0 +1,66 @@
+import { Suspense } from 'react'
+import { getCurrentUser } from '@/lib/auth'
+import { createAdminClient } from '@/lib/database'
+import { redirect } from 'next/navigation'
+import { StylePresetManager } from '@/components/admin/style-preset-manager'
+
+export const metadata = {
+  title: '风格预设 - PIS Admin',
+}
+
+/**
+ * 自定义风格预设管理页（管理员和修图师）
+ */
+export default async function StylePresetsPage() {
+  // 检查登录状态
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect('/admin/login')
+  }
+
+  // 检查角色（直接查询数据库）
+  const db = await createAdminClient()
+  const userResult = await db
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .is('deleted_at', null)
+    .single()
+
+  if (userResult.error || !userResult.data) {
+    redirect('/admin/login')
+  }
+
+  const role = (userResult.data as { role: string }).role
+  if (role !== 'admin' && role !== 'retoucher') {
+    redirect('/admin')
+  }
+
+  return (
+    <Suspense fallback={<StylePresetSkeleton />}>
+      <StylePresetManager />
+    </Suspense>
+  )
+}
+
+function StylePresetSkeleton() {
+  return (
+    <div className="space-y-6">
+      {/* 标题骨架 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <div className="h-8 w-32 bg-surface rounded-lg animate-pulse mb-2" />
+          <div className="h-4 w-64 bg-surface rounded-lg animate-pulse" />
+        </div>
+        <div className="h-10 w-28 bg-surface rounded-lg animate-pulse" />
+      </div>
+
+      {/* 列表骨架 */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="aspect-square bg-surface rounded-lg animate-pulse" />
+        ))}
+      </div>
+    </div>
+  )
+}
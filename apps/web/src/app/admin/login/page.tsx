@@ -4,6 +4,7 @@ import { useState, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { Camera, Loader2, Eye, EyeOff, Lock } from 'lucide-react'
 import { Turnstile } from '@/components/auth/turnstile'
+import { TwoFactorChallenge } from '@/components/auth/two-factor-challenge'
 
 /**
  * 管理员登录页
@@ -36,6 +37,11 @@ export default function LoginPage() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
   const [setupLoading, setSetupLoading] = useState(false)
   const [checkingStatus, setCheckingStatus] = useState(true)
+  // 两步验证挑战（密码验证通过后由登录接口返回）
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{
+    token: string
+    purpose: 'verify' | 'setup'
+  } | null>(null)
 
   // 检查是否配置了 Turnstile（只在客户端检查，避免 Hydration 错误）
   useEffect(() => {
@@ -276,6 +282,14 @@ export default function LoginPage() {
         return
       }
 
+      // 需要两步验证：切换到验证码步骤，验证通过后再创建会话
+      if (data.data?.requiresTwoFactor) {
+        console.log('[Login] Two-factor authentication required:', data.data.twoFactorPurpose)
+        setPassword('')
+        setTwoFactorChallenge({ token: data.data.challengeToken, purpose: data.data.twoFactorPurpose })
+        return
+      }
+
       // 登录成功，使用 window.location 强制刷新页面以确保 cookie 生效
       console.log('[Login] Login successful, redirecting to admin')
       console.log('[Login] ====== LOGIN SUCCESS ======')
@@ -403,7 +417,12 @@ export default function LoginPage() {
         const loginData = await loginResponse.json()
         console.log('[SetupPassword] Login response data:', loginData)
 
-        if (loginResponse.ok) {
+        if (loginResponse.ok && loginData.data?.requiresTwoFactor) {
+          // 管理员需要绑定验证器后才能完成登录
+          console.log('[SetupPassword] Two-factor authentication required:', loginData.data.twoFactorPurpose)
+          setNeedsPasswordSetup(false)
+          setTwoFactorChallenge({ token: loginData.data.challengeToken, purpose: loginData.data.twoFactorPurpose })
+        } else if (loginResponse.ok) {
           // 登录成功，先更新状态，然后重定向
           console.log('[SetupPassword] Login successful after password setup, redirecting to admin')
           console.log('[SetupPassword] ====== AUTO-LOGIN SUCCESS ======')
@@ -513,6 +532,19 @@ export default function LoginPage() {
             <Loader2 className="w-8 h-8 animate-spin mx-auto text-text-muted" />
             <p className="text-text-secondary">正在检查账户状态...</p>
           </div>
+        ) : twoFactorChallenge ? (
+          /* 两步验证 */
+          <TwoFactorChallenge
+            challengeToken={twoFactorChallenge.token}
+            purpose={twoFactorChallenge.purpose}
+            onComplete={() => {
+              window.location.href = '/admin'
+            }}
+            onCancel={() => {
+              setTwoFactorChallenge(null)
+              setError('')
+            }}
+          />
         ) : needsPasswordSetup ? (
           /* 首次登录设置密码表单 */
           <form onSubmit={handleSetupPassword} className="card space-y-6 p-6 sm:p-8">
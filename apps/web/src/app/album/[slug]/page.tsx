@@ -1,4 +1,5 @@
 import { notFound } from 'next/navigation'
+import { cookies } from 'next/headers'
 import type { Metadata } from 'next'
 import { getLocale, getMessages } from 'next-intl/server'
 import { createClient } from '@/lib/database'
@@ -8,10 +9,13 @@ import { AlbumInfoBar } from '@/components/album/album-info-bar'
 import { AlbumStickyNav } from '@/components/album/album-sticky-nav'
 import { AlbumSplashScreen } from '@/components/album/album-splash-screen'
 import { PhotoGroupFilter } from '@/components/album/photo-group-filter'
+import { PersonFilter } from '@/components/album/person-filter'
 import { FloatingActions } from '@/components/album/floating-actions'
 import { SortToggle, type SortRule } from '@/components/album/sort-toggle'
 import { LayoutToggle, type LayoutMode } from '@/components/album/layout-toggle'
 import { getAlbumShareUrl, getAppBaseUrl, getSafeMediaUrl } from '@/lib/utils'
+import { getAlbumSessionCookieName } from '@/lib/album-session'
+import { getShareLinkAccess, resolveAlbumVisitorPermissions } from '@/lib/middleware/album-auth'
 import type { Database } from '@/types/database'
 
 type Album = Database['public']['Tables']['albums']['Row']
@@ -20,7 +24,22 @@ type PhotoGroup = Database['public']['Tables']['photo_groups']['Row']
 
 interface AlbumPageProps {
   params: Promise<{ slug: string }>
-  searchParams: Promise<{ sort?: string; layout?: string; group?: string; from?: string; skip_splash?: string }>
+  searchParams: Promise<{
+    sort?: string
+    layout?: string
+    group?: string
+    person?: string
+    from?: string
+    skip_splash?: string
+    share_error?: string
+  }>
+}
+
+/** 分享链接无法使用时的提示（/s/[token] 跳转时附带 share_error 参数） */
+const SHARE_ERROR_MESSAGES: Record<string, string> = {
+  revoked: '该分享链接已失效，当前按相册默认权限浏览',
+  expired: '该分享链接已过期，当前按相册默认权限浏览',
+  exhausted: '该分享链接的使用次数已满，当前按相册默认权限浏览',
 }
 
 /**
@@ -156,7 +175,7 @@ export async function generateMetadata({ params }: AlbumPageProps): Promise<Meta
  */
 export default async function AlbumPage({ params, searchParams }: AlbumPageProps) {
   const { slug } = await params
-  const { sort, layout, group, from, skip_splash } = await searchParams
+  const { sort, layout, group, person, from, skip_splash, share_error } = await searchParams
   const db = await createClient()
 
   // 获取相册信息（包含密码和过期时间检查）
@@ -184,9 +203,16 @@ export default async function AlbumPage({ params, searchParams }: AlbumPageProps
 
   const actualPhotoCount = photoCountResult.count || photoCountResult.data?.length || 0
 
+  // 通过分享链接进入的访客以链接权限为准（下载按钮、选片入口随之显示或隐藏）
+  const cookieStore = await cookies()
+  const shareLink = await getShareLinkAccess(cookieStore.get(getAlbumSessionCookieName(slug))?.value, albumData.id)
+  const permissions = resolveAlbumVisitorPermissions(albumData, shareLink)
+
   const album = {
     ...albumData,
     photo_count: actualPhotoCount ?? albumData.photo_count,
+    allow_download: permissions.canDownload,
+    password: null, // 密码哈希不下发到浏览器
   } as Album
 
   // 检查相册是否过期
@@ -329,6 +355,13 @@ export default async function AlbumPage({ params, searchParams }: AlbumPageProps
 
       {/* 照片网格 - 移动端优化 */}
       <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-6 py-4 sm:py-6 md:py-8">
+        {/* 分享链接失效提示 */}
+        {share_error && SHARE_ERROR_MESSAGES[share_error] && (
+          <div className="mb-4 sm:mb-6 rounded-lg border border-border bg-surface px-4 py-3 text-sm text-text-secondary">
+            {SHARE_ERROR_MESSAGES[share_error]}
+          </div>
+        )}
+
         {/* 分组筛选器 */}
         {groups.length > 0 && (
           <div className="mb-4 sm:mb-6">
@@ -340,10 +373,15 @@ export default async function AlbumPage({ params, searchParams }: AlbumPageProps
           </div>
         )}
 
+        {/* 人物筛选器（没有聚类出的人物时不显示） */}
+        <div className="mb-4 sm:mb-6 empty:hidden">
+          <PersonFilter albumSlug={album.slug} selectedPersonId={person || null} />
+        </div>
+
         {/* 照片统计栏和布局切换 - 同一行 */}
         <div className="flex items-center justify-between mb-4 sm:mb-6 pb-3 sm:pb-4 border-b border-border">
           <h2 className="text-base sm:text-lg font-medium">
-            {group ? '分组照片' : '全部照片'} <span className="text-text-muted text-sm sm:text-base">({album.photo_count})</span>
+            {person ? '人物照片' : group ? '分组照片' : '全部照片'} <span className="text-text-muted text-sm sm:text-base">({album.photo_count})</span>
           </h2>
           
           {/* 布局切换和排序切换 - 始终显示在右侧 */}
@@ -354,7 +392,12 @@ export default async function AlbumPage({ params, searchParams }: AlbumPageProps
         </div>
 
         {/* 照片列表 */}
-        <AlbumClient album={album} initialPhotos={photos || []} layout={currentLayout} />
+        <AlbumClient
+          album={album}
+          initialPhotos={photos || []}
+          layout={currentLayout}
+          allowSelect={permissions.canSelect}
+        />
       </div>
 
       {/* 浮动操作按钮组 */}
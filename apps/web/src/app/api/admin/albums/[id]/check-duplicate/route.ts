@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
 import { checkDuplicateSchema, albumIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
 
@@ -38,10 +38,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     const db = await createClient()
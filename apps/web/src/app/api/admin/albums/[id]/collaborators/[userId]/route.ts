@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { albumCollaboratorParamsSchema, updateAlbumCollaboratorSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string; userId: string }>
+}
+
+/**
+ * 单个协作者 API（仅所有者和管理员）
+ * - PATCH: 修改协作角色
+ * - DELETE: 移除协作者
+ */
+
+/**
+ * 校验协作者管理权限并确认协作关系存在
+ * @internal
+ */
+async function loadCollaborator(request: NextRequest, albumId: string, userId: string) {
+  const user = await getCurrentUser(request)
+  if (!user) {
+    return { error: ApiError.unauthorized('需要登录才能执行此操作') }
+  }
+
+  const access = await requireAlbumPermission(request, albumId, 'manage')
+  if (!access) {
+    return { error: ApiError.forbidden('只有相册所有者可以管理协作者') }
+  }
+
+  const db = await createAdminClient()
+  const collaboratorResult = await db
+    .from<{ id: string; role: string }>('album_collaborators')
+    .select('id, role')
+    .eq('album_id', albumId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!collaboratorResult.data) {
+    return { error: ApiError.notFound('协作者不存在') }
+  }
+
+  return { db, access, collaborator: collaboratorResult.data }
+}
+
+// PATCH /api/admin/albums/[id]/collaborators/[userId] - 修改协作角色
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const paramsValidation = safeValidate(albumCollaboratorParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的路径参数')
+    }
+
+    const { id: albumId, userId } = paramsValidation.data
+    const loaded = await loadCollaborator(request, albumId, userId)
+    if ('error' in loaded) {
+      return loaded.error
+    }
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return handleError(new Error('请求格式错误'), '请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updateAlbumCollaboratorSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { role } = validation.data
+    const updateResult = await loaded.db.update('album_collaborators', { role }, { id: loaded.collaborator.id })
+
+    if (updateResult.error) {
+      return handleError(updateResult.error, '更新协作者失败')
+    }
+
+    await recordAuditLog(request, loaded.access, {
+      action: 'album.collaborator_update',
+      targetType: 'album',
+      targetId: albumId,
+      changes: { role: { before: loaded.collaborator.role, after: role } },
+      metadata: { user_id: userId },
+    })
+
+    return createSuccessResponse({ user_id: userId, role })
+  } catch (error) {
+    return handleError(error, '更新协作者失败')
+  }
+}
+
+// DELETE /api/admin/albums/[id]/collaborators/[userId] - 移除协作者
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const paramsValidation = safeValidate(albumCollaboratorParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的路径参数')
+    }
+
+    const { id: albumId, userId } = paramsValidation.data
+    const loaded = await loadCollaborator(request, albumId, userId)
+    if ('error' in loaded) {
+      return loaded.error
+    }
+
+    const deleteResult = await loaded.db.delete('album_collaborators', { id: loaded.collaborator.id })
+
+    if (deleteResult.error) {
+      return handleError(deleteResult.error, '移除协作者失败')
+    }
+
+    await recordAuditLog(request, loaded.access, {
+      action: 'album.collaborator_remove',
+      targetType: 'album',
+      targetId: albumId,
+      metadata: { user_id: userId, role: loaded.collaborator.role },
+    })
+
+    return createSuccessResponse({ success: true })
+  } catch (error) {
+    return handleError(error, '移除协作者失败')
+  }
+}
@@ -0,0 +1,211 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import type { AlbumCollaborator, AlbumCollaboratorInsert } from '@/types/database'
+import { albumIdSchema, addAlbumCollaboratorSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 相册协作者 API
+ * - GET: 获取相册所有者和协作者列表
+ * - POST: 按邮箱邀请摄影师协作（仅所有者和管理员）
+ */
+
+// GET /api/admin/albums/[id]/collaborators - 获取协作者列表
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    const db = await createAdminClient()
+
+    const albumResult = await db
+      .from<{ id: string; owner_id: string | null }>('albums')
+      .select('id, owner_id')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const ownerId = albumResult.data.owner_id
+
+    const collaboratorsResult = await db
+      .from<AlbumCollaborator>('album_collaborators')
+      .select('*')
+      .eq('album_id', albumId)
+      .order('created_at', { ascending: true })
+
+    if (collaboratorsResult.error) {
+      return handleError(collaboratorsResult.error, '查询协作者失败')
+    }
+
+    const collaborators = collaboratorsResult.data || []
+
+    // 补充用户邮箱
+    const userIds = [...collaborators.map((c) => c.user_id), ...(ownerId ? [ownerId] : [])]
+    const emailMap = new Map<string, string>()
+    if (userIds.length > 0) {
+      const usersResult = await db
+        .from<{ id: string; email: string }>('users')
+        .select('id, email')
+        .in('id', userIds)
+
+      for (const row of usersResult.data || []) {
+        emailMap.set(row.id, row.email)
+      }
+    }
+
+    return createSuccessResponse({
+      owner: ownerId ? { id: ownerId, email: emailMap.get(ownerId) ?? null } : null,
+      collaborators: collaborators.map((c) => ({
+        user_id: c.user_id,
+        email: emailMap.get(c.user_id) ?? null,
+        role: c.role,
+        created_at: c.created_at,
+      })),
+      access: access.access,
+    })
+  } catch (error) {
+    return handleError(error, '获取协作者列表失败')
+  }
+}
+
+// POST /api/admin/albums/[id]/collaborators - 邀请协作者
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 管理协作者仅限所有者和管理员
+    const access = await requireAlbumPermission(request, albumId, 'manage')
+    if (!access) {
+      return ApiError.forbidden('只有相册所有者可以管理协作者')
+    }
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return handleError(new Error('请求格式错误'), '请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(addAlbumCollaboratorSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { email, role } = validation.data
+    const db = await createAdminClient()
+
+    const albumResult = await db
+      .from<{ id: string; owner_id: string | null }>('albums')
+      .select('id, owner_id')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const userResult = await db
+      .from<{ id: string; email: string; role: string | null; is_active: boolean }>('users')
+      .select('id, email, role, is_active')
+      .eq('email', email.trim().toLowerCase())
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (!userResult.data || !userResult.data.is_active) {
+      return ApiError.notFound('用户不存在或已停用')
+    }
+
+    const invitee = userResult.data
+    // 管理员本就可以访问所有相册，只需要邀请摄影师
+    if (invitee.role !== 'photographer') {
+      return ApiError.badRequest('只能邀请摄影师协作')
+    }
+    if (invitee.id === albumResult.data.owner_id) {
+      return ApiError.badRequest('该用户已是相册所有者')
+    }
+
+    const existingResult = await db
+      .from('album_collaborators')
+      .select('id')
+      .eq('album_id', albumId)
+      .eq('user_id', invitee.id)
+      .maybeSingle()
+
+    if (existingResult.data) {
+      return ApiError.conflict('该用户已是相册协作者')
+    }
+
+    const insertData: AlbumCollaboratorInsert = {
+      album_id: albumId,
+      user_id: invitee.id,
+      role,
+      invited_by: access.id,
+    }
+    const insertResult = await db.insert('album_collaborators', insertData)
+
+    if (insertResult.error) {
+      return handleError(insertResult.error, '邀请协作者失败')
+    }
+
+    await recordAuditLog(request, access, {
+      action: 'album.collaborator_add',
+      targetType: 'album',
+      targetId: albumId,
+      metadata: { user_id: invitee.id, email: invitee.email, role },
+    })
+
+    return createSuccessResponse({
+      user_id: invitee.id,
+      email: invitee.email,
+      role,
+    })
+  } catch (error) {
+    return handleError(error, '邀请协作者失败')
+  }
+}
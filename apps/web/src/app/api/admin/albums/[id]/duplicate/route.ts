@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
 import { getAlbumShareUrl, generateAlbumSlug, getAppBaseUrl } from '@/lib/utils'
 import type { AlbumInsert, Database } from '@/types/database'
 import { albumIdSchema } from '@/lib/validation/schemas'
@@ -39,11 +40,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 获取原相册信息
@@ -84,6 +84,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       photo_count: 0,
       selected_count: 0,
       view_count: 0,
+      // 副本归复制者所有，不继承协作者
+      owner_id: access.id,
     }
 
     // 创建新相册
@@ -99,6 +101,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.internal('创建相册失败')
     }
 
+    await recordAuditLog(request, access, {
+      action: 'album.duplicate',
+      targetType: 'album',
+      targetId: newAlbum.id,
+      metadata: { source_album_id: id, title: newAlbum.title },
+    })
+
     // 生成分享URL（添加错误处理）
     let shareUrl: string
     try {
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { createPhotoEventStream } from '@/lib/photo-events'
+import { albumIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError, createErrorResponse, ErrorCode } from '@/lib/validation/error-handler'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 管理端照片实时事件 API（Server-Sent Events）
+ *
+ * @route GET /api/admin/albums/[id]/events
+ * @description 推送相册内照片的状态变化（处理中、完成、失败、删除、恢复），用于显示处理进度
+ *
+ * 推送数据（默认 message 事件）：`{ type, photo_id, status }`
+ *
+ * @auth 需要相册查看权限
+ *
+ * @returns {Stream} 200 - text/event-stream
+ * @returns {Object} 401 - 未登录
+ * @returns {Object} 403 - 无权查看该相册
+ * @returns {Object} 503 - 实时推送未启用（客户端应回退到轮询）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id } = idValidation.data
+
+    // 先检查用户是否已登录
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    const response = await createPhotoEventStream(request, id, (event) => ({
+      type: event.type,
+      photo_id: event.photo_id,
+      status: event.status,
+    }))
+
+    if (!response) {
+      return createErrorResponse(ErrorCode.INTERNAL_ERROR, '实时推送未启用', undefined, 503)
+    }
+
+    return response
+  } catch (error) {
+    return handleError(error, '订阅相册更新失败')
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
 import { getCurrentUser } from '@/lib/auth/api-helpers'
 import { albumGroupParamsSchema, assignPhotosToGroupSchema, removePhotosFromGroupSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
@@ -34,9 +34,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const { id: albumId, groupId } = paramsValidation.data
     const db = await createClient()
 
-    // 验证登录状态（管理员）或公开访问（访客）
+    // 验证登录状态（管理员或相册成员）或公开访问（访客）
     const user = await getCurrentUser(request)
-    const admin = await requireAdmin(request)
+    const access = user ? await requireAlbumPermission(request, albumId, 'view') : null
 
     // 验证相册存在
     const albumResult = await db
@@ -51,9 +51,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     const album = albumResult.data as { id: string; user_id: string; is_public: boolean }
 
-    // 验证权限：管理员或公开相册的访客
-    if (admin) {
-      // 管理员可以访问
+    // 验证权限：管理员、相册成员或公开相册的访客
+    if (access) {
+      // 管理员和相册成员可以访问
     } else if (album.is_public) {
       // 公开相册的访客可以访问
     } else {
@@ -111,10 +111,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 验证相册存在
@@ -222,10 +222,10 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 验证相册存在
@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server'
 import { createClient, createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
 import { getCurrentUser } from '@/lib/auth/api-helpers'
 import type { PhotoGroupUpdate } from '@/types/database'
 import { albumGroupParamsSchema, updateGroupSchema } from '@/lib/validation/schemas'
@@ -37,10 +37,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
     }
 
     // 验证相册存在
@@ -108,10 +108,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 验证相册存在
@@ -226,10 +226,10 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 验证相册存在
@@ -0,0 +1,138 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { guestSessionParamsSchema, updateGuestSessionSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { GuestSession } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string; sessionId: string }>
+}
+
+/**
+ * 单个访客选片会话管理 API
+ * - PATCH: 解除提交锁定，允许访客继续修改选片
+ * - DELETE: 删除访客会话及其选片记录
+ */
+
+/**
+ * 校验相册编辑权限并查询访客会话
+ * @internal
+ */
+async function loadSession(request: NextRequest, albumId: string, sessionId: string) {
+  const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+  const user = await getCurrentUser(request)
+  if (!user) {
+    return { error: ApiError.unauthorized('需要登录才能执行此操作') }
+  }
+
+  const access = await requireAlbumPermission(request, albumId, 'edit')
+  if (!access) {
+    return { error: ApiError.forbidden('无权编辑该相册') }
+  }
+
+  const db = await createAdminClient()
+  const sessionResult = await db
+    .from<GuestSession>('guest_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('album_id', albumId)
+    .single()
+
+  if (sessionResult.error || !sessionResult.data) {
+    return { error: ApiError.notFound('访客会话不存在') }
+  }
+
+  return { session: sessionResult.data }
+}
+
+// PATCH /api/admin/albums/[id]/guest-sessions/[sessionId] - 解除提交锁定
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    const paramsValidation = safeValidate(guestSessionParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的参数')
+    }
+
+    const { id: albumId, sessionId } = paramsValidation.data
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updateGuestSessionSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { session, error } = await loadSession(request, albumId, sessionId)
+    if (error) {
+      return error
+    }
+
+    const db = await createAdminClient()
+    const updateResult = await db.update<GuestSession>(
+      'guest_sessions',
+      { submitted_at: null },
+      { id: session.id }
+    )
+
+    if (updateResult.error) {
+      return handleError(updateResult.error, '解除锁定失败')
+    }
+
+    return createSuccessResponse({ id: session.id, submittedAt: null })
+  } catch (error) {
+    return handleError(error, '解除锁定失败')
+  }
+}
+
+// DELETE /api/admin/albums/[id]/guest-sessions/[sessionId] - 删除访客会话
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    const paramsValidation = safeValidate(guestSessionParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的参数')
+    }
+
+    const { id: albumId, sessionId } = paramsValidation.data
+
+    const { session, error } = await loadSession(request, albumId, sessionId)
+    if (error) {
+      return error
+    }
+
+    const db = await createAdminClient()
+
+    // 记录受影响的照片，删除后重新计算聚合选中状态
+    const selectionsResult = await db
+      .from<{ photo_id: string }>('guest_selections')
+      .select('photo_id')
+      .eq('session_id', session.id)
+    const photoIds = (selectionsResult.data || []).map((row) => row.photo_id)
+
+    // guest_selections 通过外键级联删除
+    const deleteResult = await db.delete('guest_sessions', { id: session.id })
+    if (deleteResult.error) {
+      return handleError(deleteResult.error, '删除访客会话失败')
+    }
+
+    for (const photoId of photoIds) {
+      const refreshResult = await db.rpc('refresh_photo_selection', { photo_id: photoId })
+      if (refreshResult.error) {
+        console.error('[Guest Sessions API] Failed to refresh photo selection:', refreshResult.error)
+      }
+    }
+
+    return createSuccessResponse({ id: session.id, removedSelections: photoIds.length })
+  } catch (error) {
+    return handleError(error, '删除访客会话失败')
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { albumIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+import { listAlbumGuestSelections, buildGuestSelectionsCsv } from '@/lib/guest-selections'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 导出访客选片 API
+ *
+ * @route GET /api/admin/albums/[id]/guest-sessions/export
+ * @description 将相册内所有访客的选片列表导出为 CSV（每行一张照片）
+ *
+ * @auth 需要管理员权限
+ *
+ * @query {string} [sessionId] - 仅导出指定访客的选片
+ *
+ * @returns {string} 200 - CSV 文件（text/csv）
+ * @returns {Object} 401 - 未登录
+ * @returns {Object} 403 - 非管理员
+ * @returns {Object} 404 - 相册不存在
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+    const db = await createClient()
+
+    // 先检查用户是否已登录
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    const albumResult = await db
+      .from<{ id: string; slug: string }>('albums')
+      .select('id, slug')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId')
+    let sessions = await listAlbumGuestSelections(albumId)
+    if (sessionId) {
+      sessions = sessions.filter((session) => session.id === sessionId)
+    }
+
+    const csv = buildGuestSelectionsCsv(sessions)
+    const filename = `${albumResult.data.slug}-selections.csv`
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleError(error, '导出访客选片失败')
+  }
+}
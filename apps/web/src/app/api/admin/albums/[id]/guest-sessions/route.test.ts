@@ -0,0 +1,131 @@
+/**
+ * 访客选片列表 API 路由测试
+ *
+ * 测试 GET 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from './route'
+import { createMockRequest, createMockDatabaseClient } from '@/test/test-utils'
+
+// Mock dependencies
+vi.mock('@/lib/database', () => ({
+  createClient: vi.fn(),
+  createAdminClient: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/api-helpers', () => ({
+  getCurrentUser: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumPermission: vi.fn(),
+}))
+
+vi.mock('@/lib/guest-selections', () => ({
+  listAlbumGuestSelections: vi.fn(),
+}))
+
+const albumId = '550e8400-e29b-41d4-a716-446655440000'
+
+describe('GET /api/admin/albums/[id]/guest-sessions', () => {
+  let mockDb: any
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+
+    const { createClient } = await import('@/lib/database')
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+
+    mockDb = createMockDatabaseClient()
+    vi.mocked(createClient).mockResolvedValue(mockDb)
+
+    // 默认管理员已登录
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: 'user-123', email: 'admin@example.com' })
+    vi.mocked(requireAlbumPermission).mockResolvedValue({ id: 'user-123', email: 'admin@example.com', role: 'admin', access: 'admin' } as any)
+  })
+
+  describe('authentication', () => {
+    it('should return 401 if user is not authenticated', async () => {
+      const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+      vi.mocked(getCurrentUser).mockResolvedValue(null)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/albums/${albumId}/guest-sessions`)
+      const response = await GET(request, { params: Promise.resolve({ id: albumId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.error.code).toBe('UNAUTHORIZED')
+    })
+
+    it('should return 403 if user cannot view the album', async () => {
+      const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+      vi.mocked(requireAlbumPermission).mockResolvedValue(null)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/albums/${albumId}/guest-sessions`)
+      const response = await GET(request, { params: Promise.resolve({ id: albumId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data.error.code).toBe('FORBIDDEN')
+    })
+  })
+
+  describe('validation', () => {
+    it('should return 400 for invalid album ID', async () => {
+      const request = createMockRequest('http://localhost:3000/api/admin/albums/invalid-id/guest-sessions')
+      const response = await GET(request, { params: Promise.resolve({ id: 'invalid-id' }) })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 if album does not exist', async () => {
+      mockDb.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { message: 'Not found' } }),
+      })
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/albums/${albumId}/guest-sessions`)
+      const response = await GET(request, { params: Promise.resolve({ id: albumId }) })
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('successful retrieval', () => {
+    it('should return guest sessions with max selection', async () => {
+      mockDb.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { id: albumId, max_selection: 30 }, error: null }),
+      })
+
+      const sessions = [
+        {
+          id: 'session-1',
+          guest_name: '张三',
+          guest_phone: null,
+          submitted_at: null,
+          last_active_at: '2024-01-01T00:00:00Z',
+          created_at: '2024-01-01T00:00:00Z',
+          photos: [{ id: 'photo-1', filename: 'a.jpg', thumb_key: 'thumb/a.jpg', selected_at: '2024-01-01T00:00:00Z' }],
+        },
+      ]
+      const { listAlbumGuestSelections } = await import('@/lib/guest-selections')
+      vi.mocked(listAlbumGuestSelections).mockResolvedValue(sessions)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/albums/${albumId}/guest-sessions`)
+      const response = await GET(request, { params: Promise.resolve({ id: albumId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.maxSelection).toBe(30)
+      expect(data.data.sessions).toEqual(sessions)
+      expect(listAlbumGuestSelections).toHaveBeenCalledWith(albumId)
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { albumIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import { listAlbumGuestSelections } from '@/lib/guest-selections'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 访客选片管理 API
+ *
+ * @route GET /api/admin/albums/[id]/guest-sessions
+ * @description 获取相册内每位访客的选片列表，用于并排对比
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {number|null} 200.data.maxSelection - 每位访客最多可选数量
+ * @returns {Object[]} 200.data.sessions - 访客选片汇总（含已选照片）
+ *
+ * @returns {Object} 401 - 未登录
+ * @returns {Object} 403 - 非管理员
+ * @returns {Object} 404 - 相册不存在
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+    const db = await createClient()
+
+    // 先检查用户是否已登录
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    // 验证相册存在
+    const albumResult = await db
+      .from<{ id: string; max_selection: number | null }>('albums')
+      .select('id, max_selection')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const sessions = await listAlbumGuestSelections(albumId)
+
+    return createSuccessResponse({
+      maxSelection: albumResult.data.max_selection,
+      sessions,
+    })
+  } catch (error) {
+    return handleError(error, '获取访客选片失败')
+  }
+}
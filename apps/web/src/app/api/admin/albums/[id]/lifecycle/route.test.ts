@@ -0,0 +1,176 @@
+/**
+ * 相册延期 / 恢复 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+      update: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumPermission: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audit-log')>()),
+  recordAuditLog: vi.fn(),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+const albumId = '550e8400-e29b-41d4-a716-446655440000'
+const owner = { id: 'photographer-1', email: 'photographer@example.com', role: 'photographer', access: 'owner' }
+const url = `http://localhost:3000/api/admin/albums/${albumId}/lifecycle`
+const newExpiry = '2099-01-01T00:00:00.000Z'
+
+/**
+ * 构造查询链 mock
+ */
+function mockQuery(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {}
+  for (const method of ['select', 'eq']) {
+    builder[method] = vi.fn().mockReturnValue(builder)
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue(result)
+  return builder
+}
+
+function mockAlbum(album: Record<string, unknown>) {
+  mockAdminClient.from.mockReturnValue(
+    mockQuery({
+      data: { id: albumId, title: '婚礼', expires_at: '2026-01-01T00:00:00Z', deleted_at: null, ...album },
+      error: null,
+    })
+  )
+}
+
+function routeParams() {
+  return { params: Promise.resolve({ id: albumId }) }
+}
+
+describe('/api/admin/albums/[id]/lifecycle', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumPermission).mockResolvedValue(owner as never)
+    mockAdminClient.update.mockResolvedValue({ data: [], error: null })
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) })
+  })
+
+  it('should reject an expiry in the past', async () => {
+    mockAlbum({ lifecycle_state: 'hidden' })
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { expires_at: '2020-01-01T00:00:00.000Z' } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockAdminClient.update).not.toHaveBeenCalled()
+  })
+
+  it('should reactivate hidden albums without the worker', async () => {
+    mockAlbum({ lifecycle_state: 'hidden' })
+
+    const request = createMockRequest(url, { method: 'POST', body: { expires_at: newExpiry } })
+    const response = await POST(request, routeParams())
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.lifecycle_state).toBe('active')
+    expect(mockAdminClient.update).toHaveBeenCalledWith(
+      'albums',
+      expect.objectContaining({ expires_at: newExpiry, lifecycle_state: 'active' }),
+      { id: albumId }
+    )
+    expect(global.fetch).not.toHaveBeenCalled()
+
+    const { recordAuditLog } = await import('@/lib/audit-log')
+    expect(recordAuditLog).toHaveBeenCalledWith(request, owner, {
+      action: 'album.lifecycle_restore',
+      targetType: 'album',
+      targetId: albumId,
+      changes: {
+        expires_at: { before: '2026-01-01T00:00:00Z', after: newExpiry },
+        lifecycle_state: { before: 'hidden', after: 'active' },
+      },
+      metadata: { title: '婚礼' },
+    })
+  })
+
+  it('should undelete expired albums and queue a storage restore', async () => {
+    mockAlbum({ lifecycle_state: 'deleted', deleted_at: '2026-04-01T00:00:00Z' })
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { expires_at: null } }),
+      routeParams()
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.lifecycle_state).toBe('restoring')
+    expect(mockAdminClient.update).toHaveBeenCalledWith(
+      'albums',
+      expect.objectContaining({ expires_at: null, lifecycle_state: 'restoring', deleted_at: null }),
+      { id: albumId }
+    )
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/worker/album-lifecycle/restore'),
+      expect.objectContaining({ body: JSON.stringify({ albumId }) })
+    )
+  })
+
+  it('should require manage permission to restore deleted albums', async () => {
+    const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumPermission).mockResolvedValue({ ...owner, access: 'editor' } as never)
+    mockAlbum({ lifecycle_state: 'deleted', deleted_at: '2026-04-01T00:00:00Z' })
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { expires_at: newExpiry } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(403)
+    expect(mockAdminClient.update).not.toHaveBeenCalled()
+  })
+
+  it('should not restore albums that were deleted manually', async () => {
+    mockAlbum({ lifecycle_state: 'active', deleted_at: '2026-04-01T00:00:00Z' })
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { expires_at: newExpiry } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should return 502 when the restore job cannot be queued', async () => {
+    mockAlbum({ lifecycle_state: 'archived' })
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, json: async () => ({}) })
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { expires_at: newExpiry } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(502)
+  })
+})
@@ -0,0 +1,166 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { hasAlbumPermission } from '@/lib/auth/album-permissions'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { needsStorageRestore } from '@/lib/album-lifecycle'
+import { getInternalApiUrl } from '@/lib/utils'
+import { albumIdSchema, albumLifecycleRestoreSchema } from '@/lib/validation/schemas'
+import {
+  safeValidate,
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+import type { AlbumLifecycleState } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 延期 / 恢复过期相册
+ *
+ * @route POST /api/admin/albums/[id]/lifecycle
+ * @description 设置新的过期时间并恢复相册：已过期隐藏的相册立即恢复正常；
+ * 已归档或已过期删除的相册改为「恢复中」，由 Worker 把归档的原图移回并重新生成衍生图，
+ * 完成后恢复正常
+ *
+ * @auth 需要相册编辑权限；恢复已过期删除的相册需要相册管理权限
+ *
+ * @param {string} id - 相册ID（UUID格式）
+ *
+ * @body {Object} requestBody
+ * @body {string|null} requestBody.expires_at - 新的过期时间（ISO 8601，须晚于当前时间），null 表示永不过期
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {string} 200.data.lifecycle_state - 恢复后的状态（active 或 restoring）
+ *
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 403 - 无权操作该相册
+ * @returns {Object} 404 - 相册不存在（手动删除的相册不能在这里恢复）
+ * @returns {Object} 502 - 恢复任务未能加入 Worker 队列
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = safeValidate(albumIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id } = idValidation.data
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(albumLifecycleRestoreSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const db = await createAdminClient()
+    const albumResult = await db
+      .from<{
+        id: string
+        title: string
+        expires_at: string | null
+        lifecycle_state: AlbumLifecycleState
+        deleted_at: string | null
+      }>('albums')
+      .select('id, title, expires_at, lifecycle_state, deleted_at')
+      .eq('id', id)
+      .maybeSingle()
+
+    const album = albumResult.data
+    // 手动删除的相册（不是生命周期删除的）不在这里恢复
+    if (!album || (album.deleted_at && album.lifecycle_state !== 'deleted')) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    if (album.lifecycle_state === 'deleted' && !hasAlbumPermission(access.access, 'manage')) {
+      return ApiError.forbidden('恢复已删除的相册需要相册管理权限')
+    }
+
+    const expiresAt = validation.data.expires_at
+    const nextState: AlbumLifecycleState = needsStorageRestore(album.lifecycle_state) ? 'restoring' : 'active'
+
+    const updateResult = await db.update(
+      'albums',
+      {
+        expires_at: expiresAt,
+        lifecycle_state: nextState,
+        lifecycle_changed_at: new Date().toISOString(),
+        ...(album.deleted_at ? { deleted_at: null } : {}),
+      },
+      { id }
+    )
+    if (updateResult.error) {
+      return handleError(updateResult.error, '更新相册失败')
+    }
+
+    await recordAuditLog(request, access, {
+      action: 'album.lifecycle_restore',
+      targetType: 'album',
+      targetId: id,
+      changes: diffAuditChanges(
+        { expires_at: album.expires_at, lifecycle_state: album.lifecycle_state },
+        { expires_at: expiresAt, lifecycle_state: nextState }
+      ),
+      metadata: { title: album.title },
+    })
+
+    if (nextState === 'restoring') {
+      // 通过代理路由调用 Worker，加入恢复队列
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json',
+      }
+      const cookieHeader = request.headers.get('cookie')
+      if (cookieHeader) {
+        headers['cookie'] = cookieHeader
+      }
+
+      const workerResponse = await fetch(getInternalApiUrl('/api/worker/album-lifecycle/restore'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ albumId: id }),
+      }).catch(() => null)
+
+      if (!workerResponse?.ok) {
+        // 相册保持「恢复中」，可以再次点击恢复；开启定时生命周期检查时 Worker 也会重新入队
+        return createErrorResponse(
+          ErrorCode.INTERNAL_ERROR,
+          '有效期已更新，但恢复任务未能加入队列，请检查 Worker 服务后重试',
+          undefined,
+          502
+        )
+      }
+    }
+
+    try {
+      const { revalidatePath } = await import('next/cache')
+      revalidatePath('/admin')
+      revalidatePath('/')
+    } catch (revalidateError) {
+      console.warn('[Lifecycle] Failed to revalidate paths:', revalidateError)
+    }
+
+    return createSuccessResponse({
+      id,
+      expires_at: expiresAt,
+      lifecycle_state: nextState,
+      message: nextState === 'restoring' ? '正在恢复归档的照片，完成后相册恢复正常' : '相册已恢复',
+    })
+  } catch (error) {
+    return handleError(error, '恢复相册失败')
+  }
+}
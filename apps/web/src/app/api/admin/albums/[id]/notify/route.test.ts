@@ -0,0 +1,148 @@
+/**
+ * 相册客户通知 API 路由测试
+ *
+ * 测试 GET 和 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET, POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumPermission: vi.fn(),
+}))
+
+vi.mock('@/lib/clients', () => ({
+  getClient: vi.fn(),
+}))
+
+vi.mock('@/lib/client-notifications', () => ({
+  listAlbumNotifications: vi.fn(),
+  sendClientNotification: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audit-log')>()),
+  recordAuditLog: vi.fn(),
+}))
+
+const albumId = '550e8400-e29b-41d4-a716-446655440000'
+const clientId = '550e8400-e29b-41d4-a716-446655440010'
+const editor = { id: 'photographer-1', email: 'photographer@example.com', role: 'photographer', access: 'owner' }
+const url = `http://localhost:3000/api/admin/albums/${albumId}/notify`
+
+/**
+ * 构造查询链 mock
+ */
+function mockQuery(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'is']) {
+    builder[method] = vi.fn().mockReturnValue(builder)
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue(result)
+  return builder
+}
+
+function routeParams() {
+  return { params: Promise.resolve({ id: albumId }) }
+}
+
+describe('/api/admin/albums/[id]/notify', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumPermission).mockResolvedValue(editor as never)
+    const { getClient } = await import('@/lib/clients')
+    vi.mocked(getClient).mockResolvedValue({ id: clientId, name: 'Alice', email: 'alice@example.com' } as never)
+    mockAdminClient.from.mockReturnValue(
+      mockQuery({ data: { id: albumId, client_id: clientId, notify_client: true }, error: null })
+    )
+  })
+
+  describe('GET', () => {
+    it('should return recent notifications', async () => {
+      const { listAlbumNotifications } = await import('@/lib/client-notifications')
+      vi.mocked(listAlbumNotifications).mockResolvedValue([{ id: 'n-1', status: 'sent' }] as never)
+
+      const response = await GET(createMockRequest(url), routeParams())
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.notifications).toHaveLength(1)
+      expect(listAlbumNotifications).toHaveBeenCalledWith(albumId)
+    })
+  })
+
+  describe('POST', () => {
+    it('should require edit permission', async () => {
+      const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+      vi.mocked(requireAlbumPermission).mockResolvedValue(null)
+
+      const response = await POST(createMockRequest(url, { method: 'POST' }), routeParams())
+
+      expect(response.status).toBe(403)
+      expect(requireAlbumPermission).toHaveBeenCalledWith(expect.anything(), albumId, 'edit')
+    })
+
+    it('should reject albums without notifications enabled', async () => {
+      const { sendClientNotification } = await import('@/lib/client-notifications')
+      mockAdminClient.from.mockReturnValue(
+        mockQuery({ data: { id: albumId, client_id: clientId, notify_client: false }, error: null })
+      )
+
+      const response = await POST(createMockRequest(url, { method: 'POST' }), routeParams())
+
+      expect(response.status).toBe(400)
+      expect(sendClientNotification).not.toHaveBeenCalled()
+    })
+
+    it('should reject clients without an email', async () => {
+      const { getClient } = await import('@/lib/clients')
+      vi.mocked(getClient).mockResolvedValue({ id: clientId, name: 'Alice', email: null } as never)
+
+      const response = await POST(createMockRequest(url, { method: 'POST' }), routeParams())
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error.message).toBe('客户没有填写邮箱')
+    })
+
+    it('should queue the album_ready notification', async () => {
+      const { sendClientNotification } = await import('@/lib/client-notifications')
+      const { recordAuditLog } = await import('@/lib/audit-log')
+      vi.mocked(sendClientNotification).mockResolvedValue(true)
+
+      const response = await POST(createMockRequest(url, { method: 'POST' }), routeParams())
+
+      expect(response.status).toBe(200)
+      expect(sendClientNotification).toHaveBeenCalledWith('album_ready', albumId)
+      expect(recordAuditLog).toHaveBeenCalledWith(
+        expect.anything(),
+        editor,
+        expect.objectContaining({ action: 'album.notify_client', targetId: albumId })
+      )
+    })
+
+    it('should return 502 when the worker is unavailable', async () => {
+      const { sendClientNotification } = await import('@/lib/client-notifications')
+      vi.mocked(sendClientNotification).mockRejectedValue(new Error('SMTP is not configured'))
+
+      const response = await POST(createMockRequest(url, { method: 'POST' }), routeParams())
+
+      expect(response.status).toBe(502)
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { getClient } from '@/lib/clients'
+import { listAlbumNotifications, sendClientNotification } from '@/lib/client-notifications'
+import { albumIdSchema } from '@/lib/validation/schemas'
+import {
+  safeValidate,
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 相册客户通知 API
+ *
+ * @route GET /api/admin/albums/[id]/notify
+ * @route POST /api/admin/albums/[id]/notify
+ * @description 客户通知记录查询和手动发送「相册已就绪」通知
+ */
+
+/**
+ * 获取相册的客户通知记录
+ *
+ * @route GET /api/admin/albums/[id]/notify
+ * @description 返回最近 20 条通知（含发送状态和失败原因）
+ *
+ * @auth 需要相册查看权限
+ *
+ * @param {string} id - 相册ID（UUID格式）
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {Object[]} 200.data.notifications - 通知记录
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的相册ID）
+ * @returns {Object} 403 - 无权查看该相册
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = safeValidate(albumIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id } = idValidation.data
+    const access = await requireAlbumPermission(request, id, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    const notifications = await listAlbumNotifications(id)
+    return createSuccessResponse({ notifications })
+  } catch (error) {
+    return handleError(error, '获取通知记录失败')
+  }
+}
+
+/**
+ * 通知客户相册已就绪
+ *
+ * @route POST /api/admin/albums/[id]/notify
+ * @description 给相册关联的客户发送「相册已就绪」邮件。公开相册在发布时会自动发送，
+ * 私密相册（通过密码或分享链接访问）在这里手动发送
+ *
+ * @auth 需要相册编辑权限
+ *
+ * @param {string} id - 相册ID（UUID格式）
+ *
+ * @returns {Object} 200 - 通知已加入发送队列
+ *
+ * @returns {Object} 400 - 相册未开启客户通知、未关联客户或客户没有邮箱
+ * @returns {Object} 403 - 无权编辑该相册
+ * @returns {Object} 404 - 相册不存在
+ * @returns {Object} 502 - Worker 服务不可用或未配置 SMTP
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = safeValidate(albumIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id } = idValidation.data
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
+    const db = await createAdminClient()
+    const albumResult = await db
+      .from<{ id: string; client_id: string | null; notify_client: boolean }>('albums')
+      .select('id, client_id, notify_client')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (!albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const album = albumResult.data
+    if (!album.notify_client) {
+      return ApiError.badRequest('相册未开启客户通知')
+    }
+
+    const client = album.client_id ? await getClient(album.client_id) : null
+    if (!client) {
+      return ApiError.badRequest('相册未关联客户')
+    }
+    if (!client.email) {
+      return ApiError.badRequest('客户没有填写邮箱')
+    }
+
+    try {
+      await sendClientNotification('album_ready', id)
+    } catch (error) {
+      console.error('[ClientNotify] Failed to send album_ready:', error)
+      return createErrorResponse(
+        ErrorCode.INTERNAL_ERROR,
+        '通知未发送，请检查 Worker 服务和 SMTP 配置',
+        undefined,
+        502
+      )
+    }
+
+    await recordAuditLog(request, access, {
+      action: 'album.notify_client',
+      targetType: 'album',
+      targetId: id,
+      metadata: { type: 'album_ready', client_id: client.id, recipient: client.email },
+    })
+
+    return createSuccessResponse({ message: `已通知 ${client.email}` })
+  } catch (error) {
+    return handleError(error, '通知客户失败')
+  }
+}
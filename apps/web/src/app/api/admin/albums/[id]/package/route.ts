@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
 import { packageDownloadSchema, packageIdQuerySchema, albumIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+import { recordAnalyticsEvent } from '@/lib/analytics'
+import { createDownloadFingerprint, isDownloadFingerprintEnabled } from '@/lib/download-fingerprints'
 import type { PackageDownload } from '@/types/database'
 
 interface RouteParams {
@@ -11,6 +13,21 @@ interface RouteParams {
 
 interface PhotoWithId {
   id: string
+  sort_order?: number | null
+  captured_at?: string | null
+}
+
+/**
+ * 按相册排序（手动排序值，其次拍摄时间）排列照片 ID，决定包内序号
+ */
+function sortedPhotoIds(photos: PhotoWithId[]): string[] {
+  return [...photos]
+    .sort(
+      (a, b) =>
+        (a.sort_order ?? 0) - (b.sort_order ?? 0) ||
+        (a.captured_at ?? '').localeCompare(b.captured_at ?? '')
+    )
+    .map((p) => p.id)
 }
 
 /**
@@ -40,11 +57,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 解析和验证请求体
@@ -65,6 +81,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       photoSelection = 'all',
       includeWatermarked = true,
       includeOriginal = true,
+      guestSessionId,
+      groupFolders = false,
+      filenameTemplate,
+      includeManifest = false,
     } = bodyValidation.data
 
     // 验证相册存在
@@ -88,29 +108,50 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // 确定要打包的照片
     let finalPhotoIds: string[] = []
 
-    if (photoSelection === 'selected') {
-      // 获取已选照片（排除已删除的）
+    if (photoSelection === 'selected' && guestSessionId) {
+      // 仅打包指定访客的选片
+      const selectionsResult = await db
+        .from('guest_selections')
+        .select('photo_id')
+        .eq('session_id', guestSessionId)
+        .eq('album_id', id)
+
+      const guestPhotoIds = ((selectionsResult.data || []) as { photo_id: string }[]).map((s) => s.photo_id)
+
+      if (guestPhotoIds.length > 0) {
+        const guestPhotosResult = await db
+          .from('photos')
+          .select('id, sort_order, captured_at')
+          .eq('album_id', id)
+          .in('id', guestPhotoIds)
+          .eq('status', 'completed')
+          .is('deleted_at', null)
+
+        finalPhotoIds = sortedPhotoIds((guestPhotosResult.data || []) as PhotoWithId[])
+      }
+    } else if (photoSelection === 'selected') {
+      // 获取已选照片（任一访客选中，排除已删除的）
       const selectedPhotosResult = await db
         .from('photos')
-        .select('id')
+        .select('id, sort_order, captured_at')
         .eq('album_id', id)
         .eq('is_selected', true)
         .eq('status', 'completed')
         .is('deleted_at', null)
 
-      finalPhotoIds = ((selectedPhotosResult.data || []) as PhotoWithId[]).map((p) => p.id)
+      finalPhotoIds = sortedPhotoIds((selectedPhotosResult.data || []) as PhotoWithId[])
     } else if (photoSelection === 'custom' && Array.isArray(photoIds)) {
       finalPhotoIds = photoIds
     } else {
       // 获取所有照片（排除已删除的）
       const allPhotosResult = await db
         .from('photos')
-        .select('id')
+        .select('id, sort_order, captured_at')
         .eq('album_id', id)
         .eq('status', 'completed')
         .is('deleted_at', null)
 
-      finalPhotoIds = ((allPhotosResult.data || []) as PhotoWithId[]).map((p) => p.id)
+      finalPhotoIds = sortedPhotoIds((allPhotosResult.data || []) as PhotoWithId[])
     }
 
         if (finalPhotoIds.length === 0) {
@@ -143,6 +184,24 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
         const typedPackageData = packageData as PackageDownload
 
+    // 开启下载指纹时登记本次交付，Worker 打包时把编号嵌入每张照片
+    let fingerprint: string | null = null
+    if (await isDownloadFingerprintEnabled()) {
+      try {
+        fingerprint = await createDownloadFingerprint(request, {
+          source: 'package',
+          albumId: id,
+          packageId: typedPackageData.id,
+          guestSessionId: photoSelection === 'selected' ? guestSessionId ?? null : null,
+          createdBy: user.id,
+        })
+      } catch (error) {
+        // 任务不会交给 Worker，标记失败，避免客户端一直轮询 pending 状态
+        await db.update('package_downloads', { status: 'failed' }, { id: typedPackageData.id })
+        throw error
+      }
+    }
+
     // 触发 Worker 处理
     const workerUrl = process.env.NEXT_PUBLIC_WORKER_URL || 'http://localhost:3001'
     const headers: HeadersInit = { 'Content-Type': 'application/json' }
@@ -160,6 +219,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           photoIds: finalPhotoIds,
           includeWatermarked,
           includeOriginal,
+          groupFolders,
+          filenameTemplate: filenameTemplate || null,
+          includeManifest,
+          fingerprint,
         }),
       })
     } catch {
@@ -167,6 +230,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       // 即使 Worker 调用失败，也返回成功，因为任务已创建
     }
 
+    await recordAnalyticsEvent(request, {
+      event: 'package_download',
+      albumId: id,
+      metadata: {
+        package_id: typedPackageData.id,
+        photo_selection: photoSelection,
+        photo_count: finalPhotoIds.length,
+        group_folders: groupFolders,
+        include_manifest: includeManifest,
+      },
+    })
+
     return NextResponse.json({
       packageId: typedPackageData.id,
       status: 'pending',
@@ -207,11 +282,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
     }
 
     // 获取打包任务信息
@@ -0,0 +1,143 @@
+import { NextRequest } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { listPersonFaces } from '@/lib/face-persons'
+import type { FacePersonUpdate } from '@/types/database'
+import { albumPersonParamsSchema, updatePersonSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string; personId: string }>
+}
+
+/**
+ * 人物操作 API
+ * - GET: 获取人物的所有人脸（用于拆分）
+ * - PATCH: 命名 / 隐藏人物
+ */
+
+// GET /api/admin/albums/[id]/persons/[personId] - 获取人物的人脸
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const paramsValidation = safeValidate(albumPersonParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的路径参数')
+    }
+
+    const { id: albumId, personId } = paramsValidation.data
+    const db = await createClient()
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    // 验证人物存在且属于该相册
+    const personResult = await db
+      .from('face_persons')
+      .select('*')
+      .eq('id', personId)
+      .eq('album_id', albumId)
+      .single()
+
+    if (personResult.error || !personResult.data) {
+      return ApiError.notFound('人物不存在')
+    }
+
+    const faces = await listPersonFaces(personId)
+
+    return createSuccessResponse({
+      person: personResult.data,
+      faces,
+    })
+  } catch (error) {
+    return handleError(error, '获取人物详情失败')
+  }
+}
+
+// PATCH /api/admin/albums/[id]/persons/[personId] - 更新人物
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const paramsValidation = safeValidate(albumPersonParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的路径参数')
+    }
+
+    const { id: albumId, personId } = paramsValidation.data
+    const db = await createClient()
+    const dbAdmin = await createAdminClient()
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
+    // 验证人物存在且属于该相册
+    const personResult = await db
+      .from('face_persons')
+      .select('id')
+      .eq('id', personId)
+      .eq('album_id', albumId)
+      .single()
+
+    if (!personResult.data) {
+      return ApiError.notFound('人物不存在')
+    }
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return handleError(new Error('请求格式错误'), '请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updatePersonSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { name, is_hidden } = validation.data
+    const updateData: FacePersonUpdate = {}
+    if (name !== undefined) {
+      // 空名称表示取消命名
+      updateData.name = name?.trim() || null
+    }
+    if (is_hidden !== undefined) {
+      updateData.is_hidden = is_hidden
+    }
+
+    const updateResult = await dbAdmin.update('face_persons', updateData, { id: personId })
+
+    if (updateResult.error) {
+      return handleError(updateResult.error, '更新人物失败')
+    }
+
+    return createSuccessResponse({
+      person: updateResult.data && updateResult.data.length > 0 ? updateResult.data[0] : null,
+    })
+  } catch (error) {
+    return handleError(error, '更新人物失败')
+  }
+}
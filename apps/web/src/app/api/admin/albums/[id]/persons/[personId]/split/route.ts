@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { splitPerson } from '@/lib/face-persons'
+import { albumPersonParamsSchema, splitPersonSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string; personId: string }>
+}
+
+/**
+ * 拆分人物 API
+ * - POST: 将选中的人脸拆分为新的人物（聚类把不同的人归到一起时使用）
+ */
+
+// POST /api/admin/albums/[id]/persons/[personId]/split - 拆分人物
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const paramsValidation = safeValidate(albumPersonParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的路径参数')
+    }
+
+    const { id: albumId, personId } = paramsValidation.data
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return handleError(new Error('请求格式错误'), '请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(splitPersonSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { face_ids, name } = validation.data
+
+    let newPersonId: string
+    try {
+      newPersonId = await splitPerson(albumId, personId, face_ids, name)
+    } catch (error) {
+      if (error instanceof Error && error.message === '人脸不存在或不属于该人物') {
+        return ApiError.badRequest(error.message)
+      }
+      throw error
+    }
+
+    return createSuccessResponse({ person_id: newPersonId })
+  } catch (error) {
+    return handleError(error, '拆分人物失败')
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { mergePersons } from '@/lib/face-persons'
+import { albumIdSchema, mergePersonsSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 合并人物 API
+ * - POST: 将多个人物合并到目标人物（同一个人被聚成多个人物时使用）
+ */
+
+// POST /api/admin/albums/[id]/persons/merge - 合并人物
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return handleError(new Error('请求格式错误'), '请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(mergePersonsSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { target_id, source_ids } = validation.data
+
+    try {
+      await mergePersons(albumId, target_id, source_ids)
+    } catch (error) {
+      if (error instanceof Error && error.message === '人物不存在或不属于该相册') {
+        return ApiError.notFound(error.message)
+      }
+      throw error
+    }
+
+    return createSuccessResponse({ person_id: target_id })
+  } catch (error) {
+    return handleError(error, '合并人物失败')
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { listAlbumPersons } from '@/lib/face-persons'
+import { getInternalApiUrl } from '@/lib/utils'
+import { albumIdSchema, clusterFacesSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 人物管理 API
+ * - GET: 获取相册的人物列表（包含隐藏的人物）
+ * - POST: 触发人脸聚类（full=true 时解散未命名的人物后重新聚类）
+ */
+
+// GET /api/admin/albums/[id]/persons - 获取人物列表
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+    const db = await createClient()
+
+    // 先检查用户是否已登录
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    // 验证相册存在
+    const albumResult = await db
+      .from('albums')
+      .select('id')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const persons = await listAlbumPersons(albumId, { includeHidden: true })
+
+    return createSuccessResponse({ persons })
+  } catch (error) {
+    return handleError(error, '获取人物列表失败')
+  }
+}
+
+// POST /api/admin/albums/[id]/persons - 触发人脸聚类
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+    const db = await createClient()
+
+    // 先检查用户是否已登录
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
+    // 验证相册存在
+    const albumResult = await db
+      .from('albums')
+      .select('id')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    // 解析和验证请求体（允许空请求体）
+    let body: unknown = {}
+    try {
+      const text = await request.text()
+      body = text ? JSON.parse(text) : {}
+    } catch {
+      return handleError(new Error('请求格式错误'), '请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(clusterFacesSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    // 通过代理路由调用 Worker，加入聚类队列
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    }
+    const cookieHeader = request.headers.get('cookie')
+    if (cookieHeader) {
+      headers['cookie'] = cookieHeader
+    }
+
+    const workerResponse = await fetch(getInternalApiUrl('/api/worker/cluster-faces'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ albumId, full: validation.data.full }),
+    })
+
+    if (!workerResponse.ok) {
+      const errorData = await workerResponse.json().catch(() => ({}))
+      return ApiError.internal(errorData.error?.message || '触发人脸聚类失败')
+    }
+
+    return createSuccessResponse({ queued: true })
+  } catch (error) {
+    return handleError(error, '触发人脸聚类失败')
+  }
+}
@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { revalidatePath } from 'next/cache'
 import { getInternalApiUrl } from '@/lib/utils'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
 import { purgePhotoCache } from '@/lib/cloudflare-purge'
+import { publishPhotoEvents } from '@/lib/photo-events'
 import { albumIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
@@ -59,10 +61,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能访问照片列表')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
     }
 
     const { searchParams } = new URL(request.url)
@@ -218,10 +220,10 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能删除照片')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     const db = await createClient()
@@ -322,6 +324,21 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       )
     }
 
+    await recordAuditLog(
+      request,
+      access,
+      validPhotoIds.map((photoId) => ({
+        action: 'photo.delete' as const,
+        targetType: 'photo' as const,
+        targetId: photoId,
+        changes: { deleted_at: { before: null, after: now } },
+        metadata: { album_id: id },
+      }))
+    )
+
+    // 通知正在查看相册的访客和管理端
+    await publishPhotoEvents(id, validPhotoIds, 'delete')
+
     // 2. 清除 Cloudflare CDN 缓存（如果配置了）
     // 注意：即使清除失败也不阻止删除操作，但会等待清除完成以确保执行
     const mediaUrl = process.env.NEXT_PUBLIC_MEDIA_URL
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
 import { reprocessAlbumSchema, albumIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+import { listDerivativeKeys } from '@/lib/image-derivatives'
+import type { DerivativeSet } from '@/types/database'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -15,7 +17,8 @@ interface RouteParams {
  * 
  * @requestBody
  * {
- *   "apply_color_grading": true  // 可选，默认 true，是否应用调色配置
+ *   "apply_color_grading": true,  // 可选，默认 true，是否应用调色配置
+ *   "missing_derivatives_only": false  // 可选，只处理尚未生成响应式衍生图的照片（回填旧相册）
  * }
  * 
  * @returns
@@ -53,11 +56,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 解析和验证请求体（允许空请求体）
@@ -80,6 +82,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // apply_color_grading 参数保留用于未来扩展，当前总是应用调色配置
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const _apply_color_grading = bodyValidation.data.apply_color_grading ?? true
+    const missingDerivativesOnly = bodyValidation.data.missing_derivatives_only ?? false
 
     // 验证相册存在
     const albumResult = await db
@@ -96,7 +99,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // 获取需要重新处理的照片
     const photosResult = await db
       .from('photos')
-      .select('id, album_id, original_key, status')
+      .select('id, album_id, original_key, status, derivatives')
       .eq('album_id', id)
       .in('status', ['completed', 'failed'])
       .not('original_key', 'is', null)
@@ -106,7 +109,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.internal(`数据库错误: ${photosResult.error.message}`)
     }
 
-    const photos = (photosResult.data || []) as Array<{ id: string; album_id: string; original_key: string; status: string }>
+    const albumPhotos = (photosResult.data || []) as Array<{
+      id: string
+      album_id: string
+      original_key: string
+      status: string
+      derivatives?: DerivativeSet | null
+    }>
+    const photos = missingDerivativesOnly
+      ? albumPhotos.filter((photo) => listDerivativeKeys(photo.derivatives).length === 0)
+      : albumPhotos
 
     if (!photos || photos.length === 0) {
       return ApiError.badRequest('相册中没有需要重新处理的照片')
@@ -1,7 +1,12 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
-import { generateUploadToken } from '@/lib/utils'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { triggerClientNotification } from '@/lib/client-notifications'
+import { getClient } from '@/lib/clients'
+import { hashAlbumPassword, omitAlbumPassword } from '@/lib/album-password'
+import { generateUploadToken, getAlbumShareUrl } from '@/lib/utils'
 import type { AlbumUpdate, Json } from '@/types/database'
 import { updateAlbumSchema, albumIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
@@ -25,7 +30,7 @@ interface RouteParams {
  * @route GET /api/admin/albums/[id]
  * @description 获取指定相册的详细信息
  * 
- * @auth 需要管理员登录
+ * @auth 需要管理员登录，或相册所有者/协作者
  * 
  * @param {string} id - 相册ID（UUID格式）
  * 
@@ -38,6 +43,7 @@ interface RouteParams {
  * 
  * @returns {Object} 400 - 请求参数错误（无效的相册ID）
  * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 403 - 无权访问该相册
  * @returns {Object} 404 - 相册不存在
  * @returns {Object} 500 - 服务器内部错误
  */
@@ -60,10 +66,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能查看相册详情')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
     }
 
     const db = await createClient()
@@ -80,7 +86,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return ApiError.notFound('相册不存在')
     }
 
-    return createSuccessResponse(result.data)
+    // 访问密码只返回是否已设置
+    return createSuccessResponse(omitAlbumPassword(result.data as { password?: string | null }))
   } catch (error) {
     return handleError(error, '查询相册详情失败')
   }
@@ -92,7 +99,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * @route PATCH /api/admin/albums/[id]
  * @description 更新相册的设置信息（支持部分更新）
  * 
- * @auth 需要管理员登录
+ * @auth 需要管理员登录，或相册所有者/编辑协作者
  * 
  * @param {string} id - 相册ID（UUID格式）
  * 
@@ -104,6 +111,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * @body {string} [requestBody.sort_rule] - 排序规则
  * @body {boolean} [requestBody.allow_download] - 允许下载
  * @body {boolean} [requestBody.show_exif] - 显示EXIF信息
+ * @body {number|null} [requestBody.max_selection] - 每位访客最多可选照片数（null 表示不限制）
+ * @body {string|null} [requestBody.owner_id] - 相册所有者（仅管理员可修改）
+ * @body {string|null} [requestBody.client_id] - 关联客户（null 表示解除关联）
+ * @body {boolean} [requestBody.notify_client] - 向客户发送邮件通知（相册就绪、新增照片等）
  * @body {Object} [requestBody.settings] - 其他设置
  * 
  * @returns {Object} 200 - 更新成功
@@ -111,6 +122,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * 
  * @returns {Object} 400 - 请求参数错误（验证失败）
  * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 403 - 无权访问该相册
  * @returns {Object} 404 - 相册不存在
  * @returns {Object} 500 - 服务器内部错误
  */
@@ -133,10 +145,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能查看相册详情')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     const db = await createClient()
@@ -204,8 +216,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updateData.color_grading = validatedData.color_grading as Json | null
     }
     if (validatedData.password !== undefined) {
-      // 密码字段：空字符串转换为 null
-      updateData.password = validatedData.password || null
+      // 密码字段：哈希后存储，空字符串或 null 表示移除密码
+      updateData.password = await hashAlbumPassword(validatedData.password)
     }
     if (validatedData.upload_token !== undefined) {
       // upload_token 字段：
@@ -240,11 +252,31 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (validatedData.location !== undefined) {
       updateData.location = validatedData.location?.trim() || null
     }
+    if (validatedData.max_selection !== undefined) {
+      updateData.max_selection = validatedData.max_selection ?? null
+    }
+    if (validatedData.owner_id !== undefined) {
+      // 转移所有权属于管理员的越权操作，所有者和协作者都不能修改
+      if (access.access !== 'admin') {
+        return ApiError.forbidden('只有管理员可以转移相册所有权')
+      }
+      updateData.owner_id = validatedData.owner_id || null
+    }
+    if (validatedData.client_id !== undefined) {
+      if (validatedData.client_id && !(await getClient(validatedData.client_id))) {
+        return ApiError.notFound('客户不存在')
+      }
+      updateData.client_id = validatedData.client_id || null
+    }
+    if (validatedData.notify_client !== undefined) {
+      updateData.notify_client = validatedData.notify_client
+    }
 
     // 先检查相册是否存在（避免 deleted_at: null 在 update 方法中无法正确处理）
+    // 同时取出变更前的值，用于审计日志
     const existingAlbum = await db
-      .from('albums')
-      .select('id')
+      .from<Record<string, unknown>>('albums')
+      .select('*')
       .eq('id', id)
       .is('deleted_at', null)
       .single()
@@ -253,6 +285,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return ApiError.notFound('相册不存在')
     }
 
+    // 照片计数同步不是用户操作，不计入审计差异
+    const changes = diffAuditChanges(existingAlbum.data, { ...updateData })
+
     // 同步照片计数（确保计数准确，排除已删除的）
     // 获取实际照片数量
     const photoCountResult = await db
@@ -284,12 +319,34 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return ApiError.notFound('相册不存在')
     }
 
+    if (changes) {
+      await recordAuditLog(request, access, {
+        action: 'album.update',
+        targetType: 'album',
+        targetId: id,
+        changes,
+      })
+    }
+
+    // Webhook：相册由私密变为公开
+    if (updateData.is_public === true && existingAlbum.data.is_public !== true) {
+      const slug = existingAlbum.data.slug as string | null
+      await triggerWebhookEvent('album.published', id, {
+        album_id: id,
+        title: (updateData.title ?? existingAlbum.data.title) as string,
+        slug,
+        share_url: slug ? getAlbumShareUrl(slug) : null,
+      })
+      // 客户通知：相册已就绪（相册开启通知时由 Worker 发送）
+      await triggerClientNotification('album_ready', id)
+    }
+
     // 注意：水印配置变更后，只对新上传的照片生效
     // 已上传的照片不会被重新处理，避免数据库错误和性能问题
     // 水印配置会在照片上传时由 Worker 读取并应用（见 services/worker/src/index.ts）
 
     return createSuccessResponse({
-      ...album,
+      ...omitAlbumPassword(album as { password?: string | null }),
       message: '设置已更新。水印配置将应用于之后上传的新照片。'
     })
   } catch (error) {
@@ -303,7 +360,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
  * @route DELETE /api/admin/albums/[id]
  * @description 软删除相册（将相册移至回收站，不立即删除数据）
  * 
- * @auth 需要管理员登录
+ * @auth 需要管理员登录，或相册所有者
  * 
  * @param {string} id - 相册ID（UUID格式）
  * 
@@ -313,6 +370,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
  * 
  * @returns {Object} 400 - 请求参数错误（无效的相册ID）
  * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 403 - 无权访问该相册
  * @returns {Object} 404 - 相册不存在
  * @returns {Object} 500 - 服务器内部错误
  * 
@@ -337,10 +395,10 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能查看相册详情')
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const access = await requireAlbumPermission(request, id, 'manage')
+    if (!access) {
+      return ApiError.forbidden('无权管理该相册')
     }
 
     const db = await createClient()
@@ -366,6 +424,13 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return handleError(result.error, '删除相册失败')
     }
 
+    await recordAuditLog(request, access, {
+      action: 'album.delete',
+      targetType: 'album',
+      targetId: id,
+      metadata: { title: album.title, slug: album.slug ?? null },
+    })
+
     // 清除 Next.js 路由缓存，确保前端立即看到更新
     try {
       const { revalidatePath } = await import('next/cache')
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import type { AlbumShareLink } from '@/types/database'
+import { albumShareLinkParamsSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string; linkId: string }>
+}
+
+/**
+ * 吊销分享链接
+ *
+ * @route DELETE /api/admin/albums/[id]/share-links/[linkId]
+ * @description 吊销后链接无法再打开，已通过该链接进入的访客同时失去链接权限（回退为相册默认权限）。
+ * 链接记录保留，用于查看访客来源。
+ *
+ * @auth 需要相册编辑权限
+ *
+ * @returns {Object} 200 - 吊销成功
+ * @returns {Object} 401 - 未登录
+ * @returns {Object} 403 - 无权管理该相册
+ * @returns {Object} 404 - 分享链接不存在
+ * @returns {Object} 409 - 分享链接已吊销
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const paramsValidation = safeValidate(albumShareLinkParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的路径参数')
+    }
+
+    const { id: albumId, linkId } = paramsValidation.data
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权管理该相册的分享链接')
+    }
+
+    const db = await createAdminClient()
+    const linkResult = await db
+      .from<Pick<AlbumShareLink, 'id' | 'label' | 'permission' | 'revoked_at'>>('album_share_links')
+      .select('id, label, permission, revoked_at')
+      .eq('id', linkId)
+      .eq('album_id', albumId)
+      .maybeSingle()
+
+    if (!linkResult.data) {
+      return ApiError.notFound('分享链接不存在')
+    }
+
+    if (linkResult.data.revoked_at) {
+      return ApiError.conflict('分享链接已吊销')
+    }
+
+    const updateResult = await db.update(
+      'album_share_links',
+      { revoked_at: new Date().toISOString() },
+      { id: linkId }
+    )
+
+    if (updateResult.error) {
+      return handleError(updateResult.error, '吊销分享链接失败')
+    }
+
+    await recordAuditLog(request, access, {
+      action: 'album.share_link_revoke',
+      targetType: 'album',
+      targetId: albumId,
+      metadata: { link_id: linkId, label: linkResult.data.label, permission: linkResult.data.permission },
+    })
+
+    return createSuccessResponse({ success: true })
+  } catch (error) {
+    return handleError(error, '吊销分享链接失败')
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { generateShareLinkToken } from '@/lib/album-session'
+import { getShareLinkUrl } from '@/lib/utils'
+import type { AlbumShareLink, AlbumShareLinkInsert } from '@/types/database'
+import { albumIdSchema, createAlbumShareLinkSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 相册分享链接 API
+ * - GET: 获取相册的分享链接列表
+ * - POST: 创建分享链接（需要编辑权限）
+ */
+
+/**
+ * 将分享链接转换为响应结构（附带重新签发的链接 URL）
+ * @internal
+ */
+function serializeShareLink(link: AlbumShareLink) {
+  const expired = !!link.expires_at && new Date(link.expires_at) < new Date()
+  const exhausted = link.max_uses !== null && link.use_count >= link.max_uses
+  return {
+    ...link,
+    status: link.revoked_at ? 'revoked' : expired ? 'expired' : exhausted ? 'exhausted' : 'active',
+    url: link.revoked_at
+      ? null
+      : getShareLinkUrl(
+          generateShareLinkToken(link.id, link.album_id, link.expires_at ? new Date(link.expires_at) : null)
+        ),
+  }
+}
+
+// GET /api/admin/albums/[id]/share-links - 获取分享链接列表
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    const access = await requireAlbumPermission(request, albumId, 'view')
+    if (!access) {
+      return ApiError.forbidden('无权查看该相册')
+    }
+
+    const db = await createAdminClient()
+    const linksResult = await db
+      .from<AlbumShareLink>('album_share_links')
+      .select('*')
+      .eq('album_id', albumId)
+      .order('created_at', { ascending: false })
+
+    if (linksResult.error) {
+      return handleError(linksResult.error, '查询分享链接失败')
+    }
+
+    return createSuccessResponse({
+      links: (linksResult.data || []).map(serializeShareLink),
+      access: access.access,
+    })
+  } catch (error) {
+    return handleError(error, '获取分享链接失败')
+  }
+}
+
+// POST /api/admin/albums/[id]/share-links - 创建分享链接
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(albumIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id: albumId } = idValidation.data
+
+    // 先检查用户是否已登录
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    const access = await requireAlbumPermission(request, albumId, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权管理该相册的分享链接')
+    }
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return handleError(new Error('请求格式错误'), '请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(createAlbumShareLinkSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { label, permission, expiresAt, maxUses } = validation.data
+    const db = await createAdminClient()
+
+    const albumResult = await db
+      .from<{ id: string }>('albums')
+      .select('id')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const insertData: AlbumShareLinkInsert = {
+      album_id: albumId,
+      label: label || null,
+      permission,
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+      max_uses: maxUses ?? null,
+      created_by: access.id,
+    }
+    const insertResult = await db.insert('album_share_links', insertData)
+
+    if (insertResult.error) {
+      return handleError(insertResult.error, '创建分享链接失败')
+    }
+
+    const link = insertResult.data?.[0] as AlbumShareLink | undefined
+    if (!link) {
+      return ApiError.internal('创建分享链接失败')
+    }
+
+    await recordAuditLog(request, access, {
+      action: 'album.share_link_create',
+      targetType: 'album',
+      targetId: albumId,
+      metadata: {
+        link_id: link.id,
+        label: link.label,
+        permission: link.permission,
+        expires_at: link.expires_at,
+        max_uses: link.max_uses,
+      },
+    })
+
+    return createSuccessResponse(serializeShareLink(link), 201)
+  } catch (error) {
+    return handleError(error, '创建分享链接失败')
+  }
+}
@@ -9,6 +9,7 @@ import { checkRateLimit } from '@/middleware-rate-limit'
 import { NextRequest } from 'next/server'
 import { getCurrentUser } from '@/lib/auth/api-helpers'
 import { createClient, createAdminClient } from '@/lib/database'
+import { checkUploadQuota } from '@/lib/storage-usage'
 
 // Mock dependencies
 const { mockAuth, mockSupabaseClient, mockAdminClient } = vi.hoisted(() => {
@@ -50,6 +51,10 @@ vi.mock('@/middleware-rate-limit', () => ({
   checkRateLimit: vi.fn(),
 }))
 
+vi.mock('@/lib/storage-usage', () => ({
+  checkUploadQuota: vi.fn(),
+}))
+
 vi.mock('uuid', () => ({
   v4: vi.fn(() => '123e4567-e89b-12d3-a456-426614174002'),
 }))
@@ -135,6 +140,9 @@ describe('POST /api/admin/albums/[id]/upload', () => {
       single: mockSingle,
     })
     
+    // 默认未超出存储配额
+    vi.mocked(checkUploadQuota).mockResolvedValue({ allowed: true, message: null, warning: null })
+
     // 默认照片插入成功
     mockAdminClient.insert.mockResolvedValue({ error: null })
     mockAdminClient.delete.mockResolvedValue({ error: null })
@@ -401,6 +409,93 @@ describe('POST /api/admin/albums/[id]/upload', () => {
       expect(response.status).toBe(200)
       expect(data.photoId).toBeDefined()
     })
+
+    it('should accept video/quicktime and record media type', async () => {
+      const request = createMockRequest('http://localhost:3000/api/admin/albums/123e4567-e89b-12d3-a456-426614174000/upload', {
+        method: 'POST',
+        body: {
+          filename: 'clip.mov',
+          contentType: 'video/quicktime',
+          fileSize: 300 * 1024 * 1024, // 视频允许超过图片的 100MB 限制
+        },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.originalKey).toMatch(/\.mov$/)
+      expect(mockAdminClient.insert).toHaveBeenCalledWith('photos', expect.objectContaining({
+        mime_type: 'video/quicktime',
+        media_type: 'video',
+      }))
+    })
+
+    it('should reject video larger than 500MB', async () => {
+      const request = createMockRequest('http://localhost:3000/api/admin/albums/123e4567-e89b-12d3-a456-426614174000/upload', {
+        method: 'POST',
+        body: {
+          filename: 'clip.mp4',
+          contentType: 'video/mp4',
+          fileSize: 501 * 1024 * 1024,
+        },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }) })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('storage quota', () => {
+    it('should return 413 without creating a photo when the quota is exceeded', async () => {
+      vi.mocked(checkUploadQuota).mockResolvedValue({
+        allowed: false,
+        message: '相册存储空间不足（已用 5 GB / 配额 5 GB），请清理照片或联系管理员提高配额',
+        warning: null,
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/admin/albums/123e4567-e89b-12d3-a456-426614174000/upload', {
+        method: 'POST',
+        body: {
+          filename: 'test.jpg',
+          contentType: 'image/jpeg',
+          fileSize: 1024000,
+        },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data.error.code).toBe('STORAGE_QUOTA_EXCEEDED')
+      expect(data.error.message).toContain('相册存储空间不足')
+      expect(checkUploadQuota).toHaveBeenCalledWith(VALID_ALBUM_ID, 1024000)
+      expect(mockAdminClient.insert).not.toHaveBeenCalled()
+    })
+
+    it('should include a warning when usage is near the quota', async () => {
+      vi.mocked(checkUploadQuota).mockResolvedValue({
+        allowed: true,
+        message: null,
+        warning: '相册存储空间已使用 85%（4.25 GB / 5 GB）',
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/admin/albums/123e4567-e89b-12d3-a456-426614174000/upload', {
+        method: 'POST',
+        body: {
+          filename: 'test.jpg',
+          contentType: 'image/jpeg',
+        },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.storageWarning).toBe('相册存储空间已使用 85%（4.25 GB / 5 GB）')
+      expect(checkUploadQuota).toHaveBeenCalledWith(VALID_ALBUM_ID, 0)
+    })
   })
 
   describe('database operations', () => {
@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
 import { v4 as uuidv4 } from 'uuid'
 import { checkRateLimit } from '@/middleware-rate-limit'
 import { uploadPhotoSchema, albumIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
 import { getInternalApiUrl } from '@/lib/utils'
+import { checkUploadQuota } from '@/lib/storage-usage'
+import {
+  ALLOWED_UPLOAD_MIME_TYPES,
+  ALLOWED_UPLOAD_EXTENSIONS,
+  getExtensionsForMime,
+  getMaxFileSize,
+  getMediaTypeFromMime,
+} from '@/lib/media-types'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -21,14 +29,15 @@ interface RouteParams {
  * 
  * @security
  * - 速率限制：每个用户每分钟最多 20 次请求
- * - 文件类型限制：仅支持 image/jpeg, image/png, image/heic, image/webp, image/gif, image/tiff
- * - 文件大小限制：最大 100MB
+ * - 文件类型限制：图片支持 image/jpeg, image/png, image/heic, image/webp, image/gif, image/tiff；视频支持 video/mp4, video/quicktime
+ * - 文件大小限制：图片最大 100MB，视频最大 500MB
+ * - 存储配额：超出相册配额或相册所有者配额时拒绝（系统设置中配置，0 表示不限制）
  * 
  * @param {string} id - 相册ID（UUID格式）
  * 
  * @body {Object} requestBody - 上传请求体
  * @body {string} requestBody.filename - 文件名（必填）
- * @body {string} requestBody.contentType - MIME 类型（必填，必须是支持的图片类型）
+ * @body {string} requestBody.contentType - MIME 类型（必填，必须是支持的图片或视频类型）
  * @body {number} [requestBody.fileSize] - 文件大小（字节，可选，用于验证）
  * 
  * @returns {Object} 200 - 成功返回上传凭证
@@ -36,10 +45,12 @@ interface RouteParams {
  * @returns {string} 200.data.uploadUrl - Presigned URL（用于上传文件）
  * @returns {string} 200.data.originalKey - 原始文件在存储中的键名
  * @returns {string} 200.data.albumId - 相册ID
+ * @returns {string} [200.data.storageWarning] - 存储用量达到提醒阈值时的提示
  * 
  * @returns {Object} 400 - 请求参数错误（验证失败或文件类型不支持）
  * @returns {Object} 401 - 未授权（需要登录）
  * @returns {Object} 404 - 相册不存在
+ * @returns {Object} 413 - 存储空间超出配额（STORAGE_QUOTA_EXCEEDED）
  * @returns {Object} 429 - 请求过于频繁（速率限制）
  * @returns {Object} 500 - 服务器内部错误
  * 
@@ -96,11 +107,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
+    // 再检查用户对该相册的权限（管理员可访问全部相册）
+    const admin = await requireAlbumPermission(request, albumId, 'edit')
     if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+      return ApiError.forbidden('无权编辑该相册')
     }
 
     // 速率限制：每个用户每分钟最多 300 次上传请求（支持批量并发上传）
@@ -183,11 +193,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // 验证文件类型（双重验证：MIME 类型 + 文件扩展名）
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'image/gif', 'image/tiff']
-    const allowedExtensions = ['.jpg', '.jpeg', '.png', '.heic', '.webp', '.gif', '.tiff', '.tif']
-    
     // 1. 验证 MIME 类型
-    if (!allowedTypes.includes(contentType)) {
+    if (!ALLOWED_UPLOAD_MIME_TYPES.includes(contentType)) {
       return NextResponse.json(
         { error: { code: 'INVALID_FILE_TYPE', message: '不支持的文件格式' } },
         { 
@@ -200,7 +207,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // 2. 验证文件扩展名（防止伪造 MIME 类型）
     const ext = sanitizedFilename.split('.').pop()?.toLowerCase() || ''
     const fileExtension = ext ? `.${ext}` : ''
-    if (!allowedExtensions.includes(fileExtension)) {
+    if (!ALLOWED_UPLOAD_EXTENSIONS.includes(fileExtension)) {
       return NextResponse.json(
         { error: { code: 'INVALID_FILE_TYPE', message: '不支持的文件扩展名' } },
         { 
@@ -211,15 +218,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
     
     // 3. 验证 MIME 类型与扩展名是否匹配（防止类型伪造）
-    const mimeToExtMap: Record<string, string[]> = {
-      'image/jpeg': ['.jpg', '.jpeg'],
-      'image/png': ['.png'],
-      'image/heic': ['.heic'],
-      'image/webp': ['.webp'],
-      'image/gif': ['.gif'],
-      'image/tiff': ['.tiff', '.tif'],
-    }
-    const validExtensions = mimeToExtMap[contentType] || []
+    const validExtensions = getExtensionsForMime(contentType)
     if (!validExtensions.includes(fileExtension)) {
       return NextResponse.json(
         { error: { code: 'INVALID_FILE_TYPE', message: '文件类型与扩展名不匹配' } },
@@ -230,10 +229,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    // 验证文件大小 (100MB)
-    if (fileSize && fileSize > 100 * 1024 * 1024) {
+    // 验证文件大小（图片 100MB，视频 500MB）
+    const mediaType = getMediaTypeFromMime(contentType) ?? 'image'
+    const maxFileSize = getMaxFileSize(contentType)
+    if (fileSize && fileSize > maxFileSize) {
       return NextResponse.json(
-        { error: { code: 'FILE_TOO_LARGE', message: '文件大小不能超过 100MB' } },
+        { error: { code: 'FILE_TOO_LARGE', message: `文件大小不能超过 ${maxFileSize / 1024 / 1024}MB` } },
         { 
           status: 400,
           headers: response.headers,
@@ -241,6 +242,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       )
     }
 
+    // 检查存储配额（相册配额和相册所有者名下全部相册的配额）
+    const quota = await checkUploadQuota(albumId, fileSize ?? 0)
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { error: { code: 'STORAGE_QUOTA_EXCEEDED', message: quota.message } },
+        {
+          status: 413,
+          headers: response.headers,
+        }
+      )
+    }
+
     // 生成照片 ID 和存储路径
     photoId = uuidv4()
     const originalKey = `raw/${albumId}/${photoId}.${ext}`
@@ -254,6 +267,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       filename: sanitizedFilename, // 使用清理后的文件名
       file_size: fileSize,
       mime_type: contentType,
+      media_type: mediaType,
       hash: hash, // hash 字段在 schema 中已定义
       status: 'pending',
     })
@@ -449,6 +463,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           uploadUrl: presignedUrl,
           originalKey,
           albumId,
+          ...(quota.warning ? { storageWarning: quota.warning } : {}),
         },
         {
           headers: response ? response.headers : {},
@@ -0,0 +1,168 @@
+/**
+ * 水印预览 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumPermission: vi.fn(),
+}))
+
+const albumId = '550e8400-e29b-41d4-a716-446655440000'
+const coverPhotoId = '660e8400-e29b-41d4-a716-446655440000'
+const owner = { id: 'photographer-1', email: 'photographer@example.com', role: 'photographer', access: 'owner' }
+const url = `http://localhost:3000/api/admin/albums/${albumId}/watermark-preview`
+
+const tiledWatermark = {
+  id: 'watermark-1',
+  type: 'text',
+  text: '© Studio {date}',
+  opacity: 0.3,
+  position: 'center',
+  mode: 'tiled',
+  angle: -30,
+  density: 4,
+  fontFamily: 'playfair',
+  strokeWidth: 5,
+  shadow: true,
+}
+
+/**
+ * 构造查询链 mock
+ */
+function mockQuery(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'is', 'order', 'limit']) {
+    builder[method] = vi.fn().mockReturnValue(builder)
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue(result)
+  return builder
+}
+
+function mockTables(album: unknown, photo: unknown) {
+  const photoQuery = mockQuery({ data: photo, error: null })
+  mockAdminClient.from.mockImplementation((table: string) =>
+    table === 'albums' ? mockQuery({ data: album, error: null }) : photoQuery
+  )
+  return photoQuery
+}
+
+function routeParams() {
+  return { params: Promise.resolve({ id: albumId }) }
+}
+
+describe('POST /api/admin/albums/[id]/watermark-preview', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumPermission).mockResolvedValue(owner as never)
+    global.fetch = mockFetch
+    mockFetch.mockResolvedValue(new Response(new Uint8Array([0xff, 0xd8, 0xff]), { status: 200 }))
+  })
+
+  it('should return 403 without edit permission', async () => {
+    const { requireAlbumPermission } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumPermission).mockResolvedValue(null)
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { watermarks: [tiledWatermark] } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(403)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject invalid tiled settings', async () => {
+    const response = await POST(
+      createMockRequest(url, {
+        method: 'POST',
+        body: { watermarks: [{ ...tiledWatermark, density: 50, color: 'red' }] },
+      }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(400)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 when album does not exist', async () => {
+    mockTables(null, null)
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { watermarks: [tiledWatermark] } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should render on the album cover with the worker', async () => {
+    const photoQuery = mockTables(
+      { id: albumId, cover_photo_id: coverPhotoId },
+      { original_key: `raw/${albumId}/cover.jpg` }
+    )
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { watermarks: [tiledWatermark] } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('image/jpeg')
+    expect(photoQuery.eq).toHaveBeenCalledWith('id', coverPhotoId)
+
+    const [workerUrl, init] = mockFetch.mock.calls[0]
+    expect(workerUrl).toContain('/api/watermark/preview')
+    expect(JSON.parse(init.body)).toEqual({
+      watermarks: [tiledWatermark],
+      sourceKey: `raw/${albumId}/cover.jpg`,
+    })
+  })
+
+  it('should use the sample image when album has no photos', async () => {
+    const photoQuery = mockTables({ id: albumId, cover_photo_id: null }, null)
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { watermarks: [tiledWatermark] } }),
+      routeParams()
+    )
+
+    expect(response.status).toBe(200)
+    expect(photoQuery.order).toHaveBeenCalledWith('sort_order', { ascending: true })
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).sourceKey).toBeNull()
+  })
+
+  it('should return 500 when worker fails', async () => {
+    mockTables({ id: albumId, cover_photo_id: null }, null)
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ error: 'boom' }), { status: 500 }))
+
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', body: { watermarks: [tiledWatermark] } }),
+      routeParams()
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(data.error.message).toContain('boom')
+  })
+})
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumPermission } from '@/lib/auth/album-access'
+import { fetchWatermarkPreview } from '@/lib/watermark-preview'
+import { albumIdSchema, watermarkPreviewSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+import type { Album, Photo } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 水印预览图 API
+ *
+ * @route POST /api/admin/albums/[id]/watermark-preview
+ * @description 由 Worker 使用与照片处理相同的代码渲染水印（平铺、字体、描边投影、EXIF 变量），
+ * 以相册封面（没有封面时用第一张照片）为底图并使用其 EXIF；相册还没有照片时使用示例图和示例 EXIF。
+ * 水印配置不必先保存，设置表单中修改后即可预览
+ *
+ * @auth 需要相册编辑权限
+ *
+ * @param {string} id - 相册ID（UUID格式）
+ *
+ * @body {Object} requestBody
+ * @body {Array} requestBody.watermarks - 水印配置（与相册 watermark_config.watermarks 相同，最多 6 个）
+ *
+ * @returns {Blob} 200 - JPEG 预览图（最长边 960px）
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 403 - 无权编辑该相册
+ * @returns {Object} 404 - 相册不存在
+ * @returns {Object} 500 - Worker 渲染失败
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = safeValidate(albumIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的相册ID')
+    }
+
+    const { id } = idValidation.data
+    const access = await requireAlbumPermission(request, id, 'edit')
+    if (!access) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return handleError(new Error('请求体格式错误'), '请求体格式错误')
+    }
+
+    const bodyValidation = safeValidate(watermarkPreviewSchema, body)
+    if (!bodyValidation.success) {
+      return handleError(bodyValidation.error, '水印配置验证失败')
+    }
+
+    const db = await createAdminClient()
+    const albumResult = await db
+      .from<Pick<Album, 'id' | 'cover_photo_id'>>('albums')
+      .select('id, cover_photo_id')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .maybeSingle()
+    if (!albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const photoQuery = db
+      .from<Pick<Photo, 'original_key'>>('photos')
+      .select('original_key')
+      .eq('album_id', id)
+      .eq('status', 'completed')
+      .eq('media_type', 'image')
+      .is('deleted_at', null)
+    const photoResult = albumResult.data.cover_photo_id
+      ? await photoQuery.eq('id', albumResult.data.cover_photo_id).maybeSingle()
+      : await photoQuery.order('sort_order', { ascending: true }).limit(1).maybeSingle()
+
+    const workerResponse = await fetchWatermarkPreview(
+      bodyValidation.data.watermarks,
+      photoResult.data?.original_key ?? null
+    )
+    if (!workerResponse.ok) {
+      const result = await workerResponse.json().catch(() => ({}))
+      return ApiError.internal(`生成预览失败: ${result.error || workerResponse.status}`)
+    }
+
+    return new NextResponse(await workerResponse.arrayBuffer(), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleError(error, '生成预览失败')
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasAlbumsPermission } from '@/lib/auth/album-access'
 import { batchOperationSchema, batchUpdateSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
-import { getInternalApiUrl } from '@/lib/utils'
+import { getInternalApiUrl, getAlbumShareUrl } from '@/lib/utils'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { triggerClientNotification } from '@/lib/client-notifications'
 
 /**
  * 相册批量操作 API
@@ -21,11 +24,10 @@ export async function DELETE(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能执行此操作')
     }
 
     // 解析和验证请求体
@@ -49,6 +51,11 @@ export async function DELETE(request: NextRequest) {
       return ApiError.badRequest(`不支持的操作类型: ${operation}`)
     }
 
+    // 删除相册仅限所有者（管理员可删除全部相册）
+    if (!(await hasAlbumsPermission(staff, albumIds, 'manage'))) {
+      return ApiError.forbidden('无权删除选中的部分相册')
+    }
+
     // 验证相册存在且未删除
     const albumsResult = await db
       .from('albums')
@@ -79,6 +86,17 @@ export async function DELETE(request: NextRequest) {
       return handleError(deleteError, '批量删除相册失败')
     }
 
+    await recordAuditLog(
+      request,
+      staff,
+      (validAlbums || []).map((album) => ({
+        action: 'album.batch_delete' as const,
+        targetType: 'album' as const,
+        targetId: album.id,
+        metadata: { title: album.title },
+      }))
+    )
+
     return createSuccessResponse({
       success: true,
       deletedCount: validAlbumIds.length,
@@ -101,11 +119,10 @@ export async function PATCH(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能执行此操作')
     }
 
     // 解析和验证请求体
@@ -124,6 +141,10 @@ export async function PATCH(request: NextRequest) {
 
     const { albumIds, updates } = validation.data
 
+    if (!(await hasAlbumsPermission(staff, albumIds, 'edit'))) {
+      return ApiError.forbidden('无权编辑选中的部分相册')
+    }
+
     // 构建更新数据（只允许更新特定字段）
     const updateData: Record<string, boolean | string> = {}
     
@@ -134,6 +155,14 @@ export async function PATCH(request: NextRequest) {
     if (updates.show_exif !== undefined) updateData.show_exif = updates.show_exif
     if (updates.enable_ai_retouch !== undefined) updateData.enable_ai_retouch = updates.enable_ai_retouch
 
+    // 记录更新前的值，用于审计日志和发布事件
+    const beforeResult = await db
+      .from<Record<string, unknown> & { id: string; title: string; slug: string }>('albums')
+      .select(['id', 'title', 'slug', ...Object.keys(updateData)].join(', '))
+      .in('id', albumIds)
+      .is('deleted_at', null)
+    const beforeAlbums = beforeResult.data || []
+
     // 执行批量更新
     // 优化：使用单次更新操作（使用 WHERE IN）
     // 通过将 ID 数组传递给 filters，利用 PostgreSQL 的 = ANY($1) 语法
@@ -147,6 +176,30 @@ export async function PATCH(request: NextRequest) {
       return handleError(updateResult.error, '批量更新相册失败')
     }
 
+    await recordAuditLog(
+      request,
+      staff,
+      beforeAlbums.map((album) => ({
+        action: 'album.batch_update' as const,
+        targetType: 'album' as const,
+        targetId: album.id,
+        changes: diffAuditChanges(album, updateData),
+      }))
+    )
+
+    // Webhook：由私密变为公开的相册
+    if (updates.is_public === true) {
+      for (const album of beforeAlbums.filter((a) => a.is_public !== true)) {
+        await triggerWebhookEvent('album.published', album.id, {
+          album_id: album.id,
+          title: album.title,
+          slug: album.slug,
+          share_url: album.slug ? getAlbumShareUrl(album.slug) : null,
+        })
+        await triggerClientNotification('album_ready', album.id)
+      }
+    }
+
     // 如果更新了 enable_ai_retouch，清除相关相册的 worker 缓存
     // 确保 worker 使用最新的相册配置
     if (updates.enable_ai_retouch !== undefined) {
@@ -30,6 +30,17 @@ vi.mock('@/lib/database', () => ({
   createAdminClient: vi.fn(),
 }))
 
+// Mock system settings
+vi.mock('@/lib/system-settings', async () => {
+  const { DEFAULT_SYSTEM_SETTINGS } = await import('@/lib/system-settings-defaults')
+  return { getSystemSettings: vi.fn().mockResolvedValue(DEFAULT_SYSTEM_SETTINGS) }
+})
+
+// Mock clients
+vi.mock('@/lib/clients', () => ({
+  getClient: vi.fn(),
+}))
+
 // Mock global fetch
 global.fetch = vi.fn()
 
@@ -124,8 +135,8 @@ describe('GET /api/admin/albums', () => {
   describe('pagination', () => {
     it('should return albums with default pagination', async () => {
       const mockAlbums = [
-        { id: 'album-1', title: 'Album 1' },
-        { id: 'album-2', title: 'Album 2' },
+        { id: 'album-1', title: 'Album 1', password: 'hashed' },
+        { id: 'album-2', title: 'Album 2', password: null },
       ]
 
       const mockSelect = vi.fn().mockReturnThis()
@@ -153,7 +164,11 @@ describe('GET /api/admin/albums', () => {
       const data = await response.json()
 
       expect(response.status).toBe(200)
-      expect(data.albums).toEqual(mockAlbums)
+      // 访问密码只返回是否已设置
+      expect(data.albums).toEqual([
+        { id: 'album-1', title: 'Album 1', has_password: true },
+        { id: 'album-2', title: 'Album 2', has_password: false },
+      ])
       expect(data.pagination.page).toBe(1)
       expect(data.pagination.limit).toBe(50)
       expect(data.pagination.total).toBe(2)
@@ -650,6 +665,111 @@ describe('POST /api/admin/albums', () => {
       expect(data.data.is_public).toBe(true)
     })
 
+    it('should fill omitted options from album defaults in system settings', async () => {
+      const { getSystemSettings } = await import('@/lib/system-settings')
+      const { DEFAULT_SYSTEM_SETTINGS } = await import('@/lib/system-settings-defaults')
+      vi.mocked(getSystemSettings).mockResolvedValueOnce({
+        ...DEFAULT_SYSTEM_SETTINGS,
+        album_defaults: {
+          is_public: true,
+          layout: 'grid',
+          sort_rule: 'capture_asc',
+          allow_download: false,
+          allow_batch_download: true,
+          show_exif: false,
+          watermark_enabled: true,
+        },
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/admin/albums', {
+        method: 'POST',
+        body: { title: 'Test Album', layout: 'masonry', allow_download: true },
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(200)
+      expect(mockSupabaseClient.insert.mock.calls[0][1]).toMatchObject({
+        is_public: true,
+        layout: 'masonry',
+        sort_rule: 'capture_asc',
+        allow_download: true,
+        allow_batch_download: true,
+        show_exif: false,
+        watermark_enabled: true,
+      })
+    })
+
+    it('should store a hashed access password', async () => {
+      const request = createMockRequest('http://localhost:3000/api/admin/albums', {
+        method: 'POST',
+        body: { title: 'Test Album', password: ' secret ' },
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(200)
+      const insertData = mockSupabaseClient.insert.mock.calls[0][1]
+      expect(insertData.password).toMatch(/^[0-9a-f]{64}:100000:[0-9a-f]{128}$/)
+    })
+
+    it('should copy the template password hash when no password is given', async () => {
+      const mockMaybeSingle = vi.fn().mockResolvedValue({ data: { password: 'template-hash' }, error: null })
+      mockSupabaseClient.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: mockMaybeSingle,
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/admin/albums', {
+        method: 'POST',
+        body: { title: 'Test Album', templateId: '550e8400-e29b-41d4-a716-446655440000' },
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(200)
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('album_templates')
+      expect(mockSupabaseClient.insert.mock.calls[0][1].password).toBe('template-hash')
+    })
+
+    it('should link the template client when no client is given', async () => {
+      const clientId = '550e8400-e29b-41d4-a716-446655440010'
+      const { getClient } = await import('@/lib/clients')
+      vi.mocked(getClient).mockResolvedValue({ id: clientId } as any)
+      mockSupabaseClient.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockResolvedValue({ data: { password: null, client_id: clientId }, error: null }),
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/admin/albums', {
+        method: 'POST',
+        body: { title: 'Test Album', templateId: '550e8400-e29b-41d4-a716-446655440000' },
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(200)
+      expect(getClient).toHaveBeenCalledWith(clientId)
+      expect(mockSupabaseClient.insert.mock.calls[0][1].client_id).toBe(clientId)
+    })
+
+    it('should return 404 when the client does not exist', async () => {
+      const { getClient } = await import('@/lib/clients')
+      vi.mocked(getClient).mockResolvedValue(null)
+
+      const request = createMockRequest('http://localhost:3000/api/admin/albums', {
+        method: 'POST',
+        body: { title: 'Test Album', client_id: '550e8400-e29b-41d4-a716-446655440010' },
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(404)
+      expect(mockSupabaseClient.insert).not.toHaveBeenCalled()
+    })
+
     it('should handle shareUrl generation error gracefully', async () => {
       const { getAlbumShareUrl } = await import('@/lib/utils')
       vi.mocked(getAlbumShareUrl).mockImplementation(() => {
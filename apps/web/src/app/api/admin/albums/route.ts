@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, getAccessibleAlbums } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { hashAlbumPassword, omitAlbumPassword } from '@/lib/album-password'
+import { getSystemSettings } from '@/lib/system-settings'
+import { getClient } from '@/lib/clients'
 import { getAlbumShareUrl, generateAlbumSlug, getAppBaseUrl, generateUploadToken } from '@/lib/utils'
 import type { AlbumInsert, Json } from '@/types/database'
 import { createAlbumSchema } from '@/lib/validation/schemas'
@@ -18,9 +23,10 @@ import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/li
  * 获取相册列表
  * 
  * @route GET /api/admin/albums
- * @description 获取所有相册（支持分页和筛选）
+ * @description 获取相册列表（支持分页和筛选）。管理员可查看全部相册，
+ * 摄影师只能查看自己创建或被邀请协作的相册（附带 access 字段）
  * 
- * @auth 需要管理员登录
+ * @auth 需要管理员或摄影师登录
  * 
  * @query {number} [page=1] - 页码（从1开始）
  * @query {number} [limit=50] - 每页数量
@@ -46,13 +52,14 @@ export async function GET(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能访问相册列表')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能访问相册列表')
     }
 
-    const db = await createClient()
+    // 摄影师只能看到自己创建或被邀请协作的相册（管理员返回 null，可查看全部）
+    const accessMap = await getAccessibleAlbums(staff)
     const { searchParams } = new URL(request.url)
 
     // 分页参数
@@ -65,6 +72,15 @@ export async function GET(request: NextRequest) {
     // 筛选参数
     const isPublic = searchParams.get('is_public')
 
+    if (accessMap && accessMap.size === 0) {
+      return NextResponse.json({
+        albums: [],
+        pagination: { page, limit, total: 0, totalPages: 0 },
+      })
+    }
+
+    const db = await createClient()
+
     // 构建查询
     let query = db
       .from('albums')
@@ -73,6 +89,10 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .offset(offset)
 
+    if (accessMap) {
+      query = query.in('id', Array.from(accessMap.keys()))
+    }
+
     // 可选：按公开状态筛选
     if (isPublic === 'true') {
       query = query.eq('is_public', true)
@@ -89,8 +109,13 @@ export async function GET(request: NextRequest) {
     // 从查询结果获取 count（如果支持）
     const total = result.count || result.data?.length || 0
 
+    // 非管理员附带访问级别，便于前端区分自己的相册和协作相册
+    const albums = ((result.data || []) as Array<{ id: string; password?: string | null }>).map((album) =>
+      accessMap ? { ...omitAlbumPassword(album), access: accessMap.get(album.id) } : omitAlbumPassword(album)
+    )
+
     return NextResponse.json({
-      albums: result.data || [],
+      albums,
       pagination: {
         page,
         limit,
@@ -107,9 +132,9 @@ export async function GET(request: NextRequest) {
  * 创建新相册
  * 
  * @route POST /api/admin/albums
- * @description 创建新的相册
+ * @description 创建新的相册，创建者成为相册所有者
  * 
- * @auth 需要管理员登录
+ * @auth 需要管理员或摄影师登录
  * 
  * @body {Object} requestBody - 相册数据
  * @body {string} requestBody.title - 相册标题（必填，1-200字符）
@@ -117,16 +142,21 @@ export async function GET(request: NextRequest) {
  * @body {string} [requestBody.slug] - 相册标识（可选，自动生成）
  * @body {string} [requestBody.event_date] - 活动日期（可选，ISO 8601格式）
  * @body {string} [requestBody.location] - 活动地点（可选，最多200字符）
- * @body {boolean} [requestBody.is_public=false] - 是否公开（可选，默认false）
- * @body {string} [requestBody.password] - 访问密码（可选）
+ * @body {boolean} [requestBody.is_public] - 是否公开（可选）
+ * @body {string} [requestBody.password] - 访问密码（可选，哈希后存储）
+ * @body {string} [requestBody.templateId] - 相册模板ID（可选，未提供密码或客户时沿用模板的访问密码和客户）
+ * @body {string|null} [requestBody.client_id] - 关联客户ID（可选）
  * @body {string} [requestBody.expires_at] - 过期时间（可选，ISO 8601格式）
- * @body {string} [requestBody.layout='masonry'] - 布局类型（可选，masonry/grid/carousel）
- * @body {string} [requestBody.sort_rule='capture_desc'] - 排序规则（可选）
- * @body {boolean} [requestBody.allow_download=false] - 允许下载（可选）
- * @body {boolean} [requestBody.allow_batch_download=true] - 允许批量下载（可选）
- * @body {boolean} [requestBody.show_exif=true] - 显示EXIF信息（可选）
+ * @body {string} [requestBody.layout] - 布局类型（可选，masonry/grid/carousel）
+ * @body {string} [requestBody.sort_rule] - 排序规则（可选）
+ * @body {boolean} [requestBody.allow_download] - 允许下载（可选）
+ * @body {boolean} [requestBody.allow_batch_download] - 允许批量下载（可选）
+ * @body {boolean} [requestBody.show_exif] - 显示EXIF信息（可选）
+ * @body {boolean} [requestBody.watermark_enabled] - 启用水印（可选）
  * @body {boolean} [requestBody.allow_share=true] - 允许分享（可选）
  * @body {Object} [requestBody.settings] - 其他设置（可选）
+ *
+ * @note 未提供的公开、布局、排序、下载、EXIF 和水印选项使用系统设置中的相册默认选项
  * 
  * @returns {Object} 200 - 创建成功
  * @returns {Object} 200.data - 创建的相册数据
@@ -161,10 +191,10 @@ export async function POST(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能创建相册')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能创建相册')
     }
 
     const db = await createClient()
@@ -205,16 +235,41 @@ export async function POST(request: NextRequest) {
       upload_token,
       expires_at,
       expiresAt,
+      templateId,
+      client_id,
     } = validation.data
 
+    // 未提供的选项使用系统设置中的相册默认选项
+    const { album_defaults: defaults } = await getSystemSettings()
+
     // 处理兼容性（支持两种命名方式）
-    const finalIsPublic = is_public ?? isPublic ?? false
-    const finalAllowBatchDownload = allow_batch_download ?? allowBatchDownload ?? false
+    const finalIsPublic = is_public ?? isPublic ?? defaults.is_public
+    const finalAllowBatchDownload = allow_batch_download ?? allowBatchDownload ?? defaults.allow_batch_download
     const finalExpiresAt = expires_at ?? expiresAt ?? null
 
     // 生成唯一的 slug
     const slug = generateAlbumSlug()
 
+    // 访问密码哈希后存储；未填写时沿用模板的密码（模板中已是哈希，直接复制）
+    // 未指定客户时沿用模板关联的客户
+    let passwordHash = await hashAlbumPassword(password)
+    let finalClientId = client_id
+    if (templateId && (!passwordHash || finalClientId === undefined)) {
+      const templateResult = await db
+        .from<{ password: string | null; client_id: string | null }>('album_templates')
+        .select('password, client_id')
+        .eq('id', templateId)
+        .maybeSingle()
+      passwordHash = passwordHash || templateResult.data?.password || null
+      if (finalClientId === undefined) {
+        finalClientId = templateResult.data?.client_id ?? null
+      }
+    }
+
+    if (finalClientId && !(await getClient(finalClientId))) {
+      return ApiError.notFound('客户不存在')
+    }
+
     // 如果没有提供 upload_token，自动生成一个
     const finalUploadToken = upload_token?.trim() || generateUploadToken()
 
@@ -227,19 +282,21 @@ export async function POST(request: NextRequest) {
       location: location?.trim() || null,
       poster_image_url: poster_image_url || null,
       is_public: finalIsPublic,
-      password: password?.trim() || null,
+      password: passwordHash,
       upload_token: finalUploadToken, // 自动生成或使用提供的令牌
       expires_at: finalExpiresAt,
-      layout: layout || 'masonry',
-      sort_rule: sort_rule || 'capture_desc',
-      allow_download: allow_download ?? true,
-      allow_batch_download: finalAllowBatchDownload, // 默认关闭，需要管理员明确开启
-      show_exif: show_exif ?? true,
+      layout: layout || defaults.layout,
+      sort_rule: sort_rule || defaults.sort_rule,
+      allow_download: allow_download ?? defaults.allow_download,
+      allow_batch_download: finalAllowBatchDownload,
+      show_exif: show_exif ?? defaults.show_exif,
       allow_share: true, // 默认允许分享
-      watermark_enabled: watermark_enabled ?? false,
+      watermark_enabled: watermark_enabled ?? defaults.watermark_enabled,
       watermark_type: watermark_type || null,
       watermark_config: (watermark_config || {}) as Json,
       color_grading: color_grading as Json | null,  // 新增：调色配置
+      owner_id: staff.id, // 创建者即所有者
+      client_id: finalClientId ?? null,
     }
 
     // 创建相册
@@ -259,6 +316,13 @@ export async function POST(request: NextRequest) {
       return ApiError.internal('创建相册失败')
     }
 
+    await recordAuditLog(request, staff, {
+      action: 'album.create',
+      targetType: 'album',
+      targetId: data.id,
+      metadata: { title: data.title, slug: data.slug },
+    })
+
     // 生成分享URL（添加错误处理）
     let shareUrl: string
     try {
@@ -273,6 +337,13 @@ export async function POST(request: NextRequest) {
       shareUrl = `${appUrl}/album/${encodeURIComponent(data.slug || '')}`
     }
 
+    // Webhook：相册创建（创建时即公开的相册同时推送发布事件）
+    const webhookData = { album_id: data.id, title: data.title, slug: data.slug, share_url: shareUrl }
+    await triggerWebhookEvent('album.created', data.id ?? null, { ...webhookData, is_public: data.is_public })
+    if (data.is_public) {
+      await triggerWebhookEvent('album.published', data.id ?? null, webhookData)
+    }
+
     // 返回创建结果（包含 upload_token 用于 FTP 配置）
     return createSuccessResponse({
       id: data.id,
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import {
+  listAnalyticsEvents,
+  buildAnalyticsCsv,
+  resolveAnalyticsRange,
+  ANALYTICS_MAX_RANGE_DAYS,
+} from '@/lib/analytics'
+import { analyticsQuerySchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 导出访问统计 API
+ *
+ * @route GET /api/admin/analytics/export
+ * @description 将时间范围内的统计事件明细导出为 CSV（按时间倒序，最多 50000 条）
+ *
+ * @auth 需要管理员权限
+ *
+ * @query 与 GET /api/admin/analytics 相同的筛选参数
+ *
+ * @returns {string} 200 - CSV 文件（text/csv）
+ * @returns {Object} 400 - 查询参数验证失败或时间范围无效
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能导出访问统计')
+    }
+
+    const queryParams = Object.fromEntries(request.nextUrl.searchParams.entries())
+    const validation = safeValidate(analyticsQuerySchema, queryParams)
+    if (!validation.success) {
+      return handleError(validation.error, '查询参数验证失败')
+    }
+
+    const { album_id, from, to } = validation.data
+    const range = resolveAnalyticsRange(from, to)
+    if (!range) {
+      return ApiError.badRequest(`时间范围无效，开始时间需早于结束时间且跨度不超过 ${ANALYTICS_MAX_RANGE_DAYS} 天`)
+    }
+
+    const events = await listAnalyticsEvents({ albumId: album_id, ...range })
+
+    const csv = buildAnalyticsCsv(events)
+    const filename = `analytics-${range.from.slice(0, 10)}-${range.to.slice(0, 10)}.csv`
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleError(error, '导出访问统计失败')
+  }
+}
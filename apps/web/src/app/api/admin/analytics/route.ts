@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { getAnalyticsSummary, resolveAnalyticsRange, ANALYTICS_MAX_RANGE_DAYS } from '@/lib/analytics'
+import { analyticsQuerySchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 访问统计 API
+ *
+ * @route GET /api/admin/analytics
+ * @description 汇总指定时间范围内的访问统计：各类事件总数、独立访客、按天趋势、
+ * 设备/来源/国家分布，以及热门照片和热门相册
+ *
+ * @auth 需要管理员权限
+ *
+ * @query {string} [album_id] - 相册ID（省略表示全部相册）
+ * @query {string} [from] - 开始时间（ISO 8601，默认 30 天前）
+ * @query {string} [to] - 结束时间（ISO 8601，默认当前时间）
+ *
+ * @returns {Object} 200 - 成功返回统计汇总
+ * @returns {Object} 400 - 查询参数验证失败或时间范围无效（最长 366 天）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能查看访问统计')
+    }
+
+    const queryParams = Object.fromEntries(request.nextUrl.searchParams.entries())
+    const validation = safeValidate(analyticsQuerySchema, queryParams)
+    if (!validation.success) {
+      return handleError(validation.error, '查询参数验证失败')
+    }
+
+    const { album_id, from, to } = validation.data
+    const range = resolveAnalyticsRange(from, to)
+    if (!range) {
+      return ApiError.badRequest(`时间范围无效，开始时间需早于结束时间且跨度不超过 ${ANALYTICS_MAX_RANGE_DAYS} 天`)
+    }
+
+    const summary = await getAnalyticsSummary({ albumId: album_id, ...range })
+    return createSuccessResponse(summary)
+  } catch (error) {
+    return handleError(error, '查询访问统计失败')
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { listAuditLogs, buildAuditLogsCsv } from '@/lib/audit-log'
+import { auditLogQuerySchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 导出审计日志 API
+ *
+ * @route GET /api/admin/audit-logs/export
+ * @description 将符合筛选条件的全部审计日志导出为 CSV（忽略分页参数）
+ *
+ * @auth 需要管理员权限
+ *
+ * @query 与 GET /api/admin/audit-logs 相同的筛选参数
+ *
+ * @returns {string} 200 - CSV 文件（text/csv）
+ * @returns {Object} 400 - 查询参数验证失败
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能导出审计日志')
+    }
+
+    const queryParams = Object.fromEntries(request.nextUrl.searchParams.entries())
+    const validation = safeValidate(auditLogQuerySchema, queryParams)
+    if (!validation.success) {
+      return handleError(validation.error, '查询参数验证失败')
+    }
+
+    const { action, target_type, target_id, actor, from, to } = validation.data
+    const { logs } = await listAuditLogs({ action, target_type, target_id, actor, from, to })
+
+    const csv = buildAuditLogsCsv(logs)
+    const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleError(error, '导出审计日志失败')
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { listAuditLogs } from '@/lib/audit-log'
+import { auditLogQuerySchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 审计日志 API
+ *
+ * @route GET /api/admin/audit-logs
+ * @description 按条件分页查询审计日志（按时间倒序）
+ *
+ * @auth 需要管理员权限
+ *
+ * @query {number} [page=1] - 页码（从1开始）
+ * @query {number} [limit=50] - 每页数量（最大100）
+ * @query {string} [action] - 操作类型，如 photo.permanent_delete
+ * @query {string} [target_type] - 对象类型（album, photo, user, webhook, system）
+ * @query {string} [target_id] - 对象 ID
+ * @query {string} [actor] - 操作者邮箱（模糊匹配）
+ * @query {string} [from] - 开始时间（ISO 8601）
+ * @query {string} [to] - 结束时间（ISO 8601）
+ *
+ * @returns {Object} 200 - 成功返回审计日志列表
+ * @returns {Object[]} 200.data.logs - 审计日志数组
+ * @returns {Object} 200.data.pagination - 分页信息
+ *
+ * @returns {Object} 400 - 查询参数验证失败
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能查看审计日志')
+    }
+
+    const queryParams = Object.fromEntries(request.nextUrl.searchParams.entries())
+    const validation = safeValidate(auditLogQuerySchema, queryParams)
+    if (!validation.success) {
+      return handleError(validation.error, '查询参数验证失败')
+    }
+
+    const { page, limit, ...filters } = validation.data
+    const { logs, total } = await listAuditLogs(filters, { limit, offset: (page - 1) * limit })
+
+    return createSuccessResponse({
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    return handleError(error, '查询审计日志失败')
+  }
+}
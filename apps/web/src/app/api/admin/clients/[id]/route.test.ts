@@ -0,0 +1,153 @@
+/**
+ * 单个客户管理 API 路由测试
+ *
+ * 测试 GET、PATCH 和 DELETE 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET, PATCH, DELETE } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+      rpc: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumStaff: vi.fn(),
+  getAccessibleAlbums: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireAdmin: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audit-log')>()),
+  recordAuditLog: vi.fn(),
+}))
+
+const clientId = '550e8400-e29b-41d4-a716-446655440010'
+const photographer = { id: 'photographer-1', email: 'photographer@example.com', role: 'photographer' }
+const client = {
+  id: clientId,
+  name: '张先生',
+  phone: '13800000000',
+  email: null,
+  notes: null,
+  tags: ['婚礼'],
+  created_by: 'admin-1',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+}
+
+/**
+ * 构造查询链 mock
+ */
+function mockQuery(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {}
+  for (const method of ['select', 'eq']) {
+    builder[method] = vi.fn().mockReturnValue(builder)
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue(result)
+  return builder
+}
+
+function routeParams() {
+  return { params: Promise.resolve({ id: clientId }) }
+}
+
+describe('/api/admin/clients/[id]', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAlbumStaff } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumStaff).mockResolvedValue(photographer as never)
+    mockAdminClient.from.mockReturnValue(mockQuery({ data: client, error: null }))
+  })
+
+  describe('GET', () => {
+    it('should return 404 when the client does not exist', async () => {
+      mockAdminClient.from.mockReturnValue(mockQuery({ data: null, error: null }))
+
+      const response = await GET(createMockRequest(`http://localhost:3000/api/admin/clients/${clientId}`), routeParams())
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should only return activity for albums the photographer can access', async () => {
+      const { getAccessibleAlbums } = await import('@/lib/auth/album-access')
+      vi.mocked(getAccessibleAlbums).mockResolvedValue(new Map([['album-own', 'owner']]))
+      mockAdminClient.rpc.mockResolvedValue({
+        data: {
+          albums: [{ id: 'album-own' }, { id: 'album-other' }],
+          selections: [{ id: 'session-1', album_id: 'album-own' }, { id: 'session-2', album_id: 'album-other' }],
+          downloads: [{ id: 'download-1', album_id: 'album-other' }],
+        },
+        error: null,
+      })
+
+      const response = await GET(createMockRequest(`http://localhost:3000/api/admin/clients/${clientId}`), routeParams())
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(mockAdminClient.rpc).toHaveBeenCalledWith('get_client_activity', { p_client_id: clientId })
+      expect(data.data.client.name).toBe('张先生')
+      expect(data.data.albums.map((album: { id: string }) => album.id)).toEqual(['album-own'])
+      expect(data.data.selections.map((session: { id: string }) => session.id)).toEqual(['session-1'])
+      expect(data.data.downloads).toEqual([])
+    })
+  })
+
+  describe('PATCH', () => {
+    it('should update changed fields and record an audit log', async () => {
+      mockAdminClient.update.mockResolvedValue({ data: [{ ...client, tags: ['婚礼', '回头客'] }], error: null })
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/clients/${clientId}`, {
+        method: 'PATCH',
+        body: { name: '张先生', tags: ['婚礼', '回头客'] },
+      })
+      const response = await PATCH(request, routeParams())
+
+      expect(response.status).toBe(200)
+      expect(mockAdminClient.update).toHaveBeenCalledWith(
+        'clients',
+        { name: '张先生', tags: ['婚礼', '回头客'] },
+        { id: clientId }
+      )
+
+      const { recordAuditLog } = await import('@/lib/audit-log')
+      expect(recordAuditLog).toHaveBeenCalledWith(request, photographer, {
+        action: 'client.update',
+        targetType: 'client',
+        targetId: clientId,
+        changes: { tags: { before: ['婚礼'], after: ['婚礼', '回头客'] } },
+      })
+    })
+  })
+
+  describe('DELETE', () => {
+    it('should only allow admins to delete clients', async () => {
+      const { requireAdmin } = await import('@/lib/auth/role-helpers')
+      vi.mocked(requireAdmin).mockResolvedValue(null)
+
+      const response = await DELETE(
+        createMockRequest(`http://localhost:3000/api/admin/clients/${clientId}`, { method: 'DELETE' }),
+        routeParams()
+      )
+
+      expect(response.status).toBe(403)
+      expect(mockAdminClient.delete).not.toHaveBeenCalled()
+    })
+  })
+})
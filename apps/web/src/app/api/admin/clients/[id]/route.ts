@@ -0,0 +1,216 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumStaff, getAccessibleAlbums } from '@/lib/auth/album-access'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { getClient, getClientActivity } from '@/lib/clients'
+import { clientIdSchema, updateClientSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { ClientUpdate } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 单个客户管理 API
+ *
+ * @route GET /api/admin/clients/[id]
+ * @route PATCH /api/admin/clients/[id]
+ * @route DELETE /api/admin/clients/[id]
+ * @description 客户详情、更新和删除接口
+ */
+
+/**
+ * 获取客户详情
+ *
+ * @route GET /api/admin/clients/[id]
+ * @description 返回客户信息，以及该客户的相册、访客选片和打包下载记录。
+ * 摄影师只能看到自己创建或被邀请协作的相册及其记录
+ *
+ * @auth 需要管理员或摄影师登录
+ *
+ * @param {string} id - 客户ID（UUID格式）
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {Object} 200.data.client - 客户信息
+ * @returns {Object[]} 200.data.albums - 相册汇总（选片人数、已选照片数、下载次数）
+ * @returns {Object[]} 200.data.selections - 访客选片会话
+ * @returns {Object[]} 200.data.downloads - 打包下载任务
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的客户ID）
+ * @returns {Object} 403 - 权限不足（需要管理员或摄影师权限）
+ * @returns {Object} 404 - 客户不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能查看客户')
+    }
+
+    const idValidation = safeValidate(clientIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的客户ID')
+    }
+
+    const { id } = idValidation.data
+    const client = await getClient(id)
+    if (!client) {
+      return ApiError.notFound('客户不存在')
+    }
+
+    const accessMap = await getAccessibleAlbums(staff)
+    const activity = await getClientActivity(id, accessMap)
+
+    return createSuccessResponse({ client, ...activity })
+  } catch (error) {
+    return handleError(error, '获取客户详情失败')
+  }
+}
+
+/**
+ * 更新客户
+ *
+ * @route PATCH /api/admin/clients/[id]
+ * @description 修改客户资料（支持部分更新）
+ *
+ * @auth 需要管理员或摄影师登录
+ *
+ * @param {string} id - 客户ID（UUID格式）
+ *
+ * @body {Object} requestBody - 要更新的字段
+ * @body {string} [requestBody.name] - 客户名称
+ * @body {string|null} [requestBody.phone] - 电话
+ * @body {string|null} [requestBody.email] - 邮箱
+ * @body {string|null} [requestBody.notes] - 备注
+ * @body {string[]} [requestBody.tags] - 标签（整体替换）
+ * @body {string} [requestBody.locale] - 通知邮件语言（zh-CN / en）
+ *
+ * @returns {Object} 200 - 更新成功
+ * @returns {Object} 200.data - 更新后的客户
+ *
+ * @returns {Object} 400 - 请求参数错误（验证失败）
+ * @returns {Object} 403 - 权限不足（需要管理员或摄影师权限）
+ * @returns {Object} 404 - 客户不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能修改客户')
+    }
+
+    const idValidation = safeValidate(clientIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的客户ID')
+    }
+
+    const { id } = idValidation.data
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updateClientSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const existing = await getClient(id)
+    if (!existing) {
+      return ApiError.notFound('客户不存在')
+    }
+
+    const fields = validation.data
+    const updateData: ClientUpdate = {}
+    if (fields.name !== undefined) updateData.name = fields.name
+    if (fields.phone !== undefined) updateData.phone = fields.phone || null
+    if (fields.email !== undefined) updateData.email = fields.email ? fields.email.toLowerCase() : null
+    if (fields.notes !== undefined) updateData.notes = fields.notes?.trim() || null
+    if (fields.tags !== undefined) updateData.tags = fields.tags
+    if (fields.locale !== undefined) updateData.locale = fields.locale
+
+    const changes = diffAuditChanges(existing, { ...updateData })
+    if (!changes) {
+      return createSuccessResponse(existing)
+    }
+
+    const db = await createAdminClient()
+    const result = await db.update('clients', updateData, { id })
+    if (result.error) {
+      return handleError(result.error, '更新客户失败')
+    }
+
+    await recordAuditLog(request, staff, {
+      action: 'client.update',
+      targetType: 'client',
+      targetId: id,
+      changes,
+    })
+
+    return createSuccessResponse(result.data?.[0] ?? { ...existing, ...updateData })
+  } catch (error) {
+    return handleError(error, '更新客户失败')
+  }
+}
+
+/**
+ * 删除客户
+ *
+ * @route DELETE /api/admin/clients/[id]
+ * @description 删除客户。关联的相册和模板保留，只解除与客户的关联
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 客户ID（UUID格式）
+ *
+ * @returns {Object} 200 - 删除成功
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的客户ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 客户不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 删除会解除其他摄影师相册的关联，仅管理员可操作
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能删除客户')
+    }
+
+    const idValidation = safeValidate(clientIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的客户ID')
+    }
+
+    const { id } = idValidation.data
+    const existing = await getClient(id)
+    if (!existing) {
+      return ApiError.notFound('客户不存在')
+    }
+
+    const db = await createAdminClient()
+    const result = await db.delete('clients', { id })
+    if (result.error) {
+      return handleError(result.error, '删除客户失败')
+    }
+
+    await recordAuditLog(request, admin, {
+      action: 'client.delete',
+      targetType: 'client',
+      targetId: id,
+      metadata: { name: existing.name, phone: existing.phone, email: existing.email },
+    })
+
+    return createSuccessResponse({ success: true })
+  } catch (error) {
+    return handleError(error, '删除客户失败')
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * 客户管理 API 路由测试
+ *
+ * 测试 GET 和 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET, POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      insert: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumStaff: vi.fn(),
+}))
+
+vi.mock('@/lib/clients', () => ({
+  searchClients: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', () => ({
+  recordAuditLog: vi.fn(),
+}))
+
+const photographer = { id: 'photographer-1', email: 'photographer@example.com', role: 'photographer' }
+
+describe('/api/admin/clients', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAlbumStaff } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumStaff).mockResolvedValue(photographer as never)
+  })
+
+  describe('GET', () => {
+    it('should return 403 for users who are not album staff', async () => {
+      const { requireAlbumStaff } = await import('@/lib/auth/album-access')
+      vi.mocked(requireAlbumStaff).mockResolvedValue(null)
+
+      const response = await GET(createMockRequest('http://localhost:3000/api/admin/clients'))
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should pass search and tag filters and return pagination', async () => {
+      const { searchClients } = await import('@/lib/clients')
+      vi.mocked(searchClients).mockResolvedValue({
+        clients: [{ id: 'client-1', name: '张先生', album_count: 2 }] as never,
+        total: 21,
+      })
+
+      const response = await GET(
+        createMockRequest('http://localhost:3000/api/admin/clients?search=张&tag=婚礼&limit=10&page=2')
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(searchClients).toHaveBeenCalledWith({ search: '张', tag: '婚礼', page: 2, limit: 10 })
+      expect(data.data.clients).toHaveLength(1)
+      expect(data.data.pagination).toEqual({ page: 2, limit: 10, total: 21, totalPages: 3 })
+    })
+  })
+
+  describe('POST', () => {
+    it('should reject an invalid email', async () => {
+      const response = await POST(
+        createMockRequest('http://localhost:3000/api/admin/clients', {
+          method: 'POST',
+          body: { name: '张先生', email: 'not-an-email' },
+        })
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockAdminClient.insert).not.toHaveBeenCalled()
+    })
+
+    it('should create a client with normalized fields and record an audit log', async () => {
+      mockAdminClient.insert.mockImplementation(async (_table: string, row: Record<string, unknown>) => ({
+        data: [{ id: 'client-1', ...row }],
+        error: null,
+      }))
+
+      const request = createMockRequest('http://localhost:3000/api/admin/clients', {
+        method: 'POST',
+        body: { name: ' 张先生 ', email: 'Zhang@Example.com', tags: ['婚礼', ' VIP ', '婚礼', ''] },
+      })
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(mockAdminClient.insert).toHaveBeenCalledWith('clients', {
+        name: '张先生',
+        phone: null,
+        email: 'zhang@example.com',
+        notes: null,
+        tags: ['婚礼', 'VIP'],
+        locale: 'zh-CN',
+        created_by: 'photographer-1',
+      })
+      expect(data.data.id).toBe('client-1')
+
+      const { recordAuditLog } = await import('@/lib/audit-log')
+      expect(recordAuditLog).toHaveBeenCalledWith(request, photographer, {
+        action: 'client.create',
+        targetType: 'client',
+        targetId: 'client-1',
+        metadata: { name: '张先生' },
+      })
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAlbumStaff } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { searchClients } from '@/lib/clients'
+import { createClientSchema, clientListQuerySchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { Client, ClientInsert } from '@/types/database'
+
+/**
+ * 客户管理 API
+ *
+ * @route GET /api/admin/clients
+ * @route POST /api/admin/clients
+ * @description 客户列表和创建接口。客户资料由管理员和摄影师共同维护
+ */
+
+/**
+ * 获取客户列表
+ *
+ * @route GET /api/admin/clients
+ * @description 按名称排序返回客户，支持搜索和按标签筛选
+ *
+ * @auth 需要管理员或摄影师登录
+ *
+ * @query {number} [page=1] - 页码（从1开始）
+ * @query {number} [limit=50] - 每页数量（最大100）
+ * @query {string} [search] - 搜索姓名、电话或邮箱
+ * @query {string} [tag] - 筛选标签
+ *
+ * @returns {Object} 200 - 成功返回客户列表
+ * @returns {Object[]} 200.data.clients - 客户数组（附带 album_count）
+ * @returns {Object} 200.data.pagination - 分页信息
+ *
+ * @returns {Object} 400 - 查询参数错误
+ * @returns {Object} 403 - 权限不足（需要管理员或摄影师权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能访问客户列表')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const queryParams: Record<string, unknown> = {}
+    if (searchParams.get('page')) queryParams.page = searchParams.get('page')
+    if (searchParams.get('limit')) queryParams.limit = searchParams.get('limit')
+    if (searchParams.get('search')) queryParams.search = searchParams.get('search')
+    if (searchParams.get('tag')) queryParams.tag = searchParams.get('tag')
+
+    const validation = safeValidate(clientListQuerySchema, queryParams)
+    if (!validation.success) {
+      return handleError(validation.error, '查询参数验证失败')
+    }
+
+    const { page, limit, search, tag } = validation.data
+    const { clients, total } = await searchClients({ search, tag, page, limit })
+
+    return createSuccessResponse({
+      clients,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    return handleError(error, '查询客户列表失败')
+  }
+}
+
+/**
+ * 创建客户
+ *
+ * @route POST /api/admin/clients
+ * @description 创建新客户
+ *
+ * @auth 需要管理员或摄影师登录
+ *
+ * @body {Object} requestBody - 客户数据
+ * @body {string} requestBody.name - 客户名称（必填，最多100字符）
+ * @body {string} [requestBody.phone] - 电话
+ * @body {string} [requestBody.email] - 邮箱
+ * @body {string} [requestBody.notes] - 备注
+ * @body {string[]} [requestBody.tags] - 标签
+ * @body {string} [requestBody.locale] - 通知邮件语言（zh-CN / en，默认 zh-CN）
+ *
+ * @returns {Object} 200 - 创建成功
+ * @returns {Object} 200.data - 创建的客户
+ *
+ * @returns {Object} 400 - 请求参数错误（验证失败）
+ * @returns {Object} 403 - 权限不足（需要管理员或摄影师权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能创建客户')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(createClientSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { name, phone, email, notes, tags, locale } = validation.data
+    const insertData: ClientInsert = {
+      name,
+      phone: phone || null,
+      email: email ? email.toLowerCase() : null,
+      notes: notes?.trim() || null,
+      tags: tags || [],
+      locale: locale || 'zh-CN',
+      created_by: staff.id,
+    }
+
+    const db = await createAdminClient()
+    const insertResult = await db.insert('clients', insertData)
+
+    if (insertResult.error) {
+      return handleError(insertResult.error, '创建客户失败')
+    }
+
+    const client = insertResult.data?.[0] as Client | undefined
+    if (!client) {
+      return ApiError.internal('创建客户失败')
+    }
+
+    await recordAuditLog(request, staff, {
+      action: 'client.create',
+      targetType: 'client',
+      targetId: client.id,
+      metadata: { name: client.name },
+    })
+
+    return createSuccessResponse(client)
+  } catch (error) {
+    return handleError(error, '创建客户失败')
+  }
+}
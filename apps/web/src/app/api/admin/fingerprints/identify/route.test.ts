@@ -0,0 +1,178 @@
+/** @vitest-environment node */
+/**
+ * 泄露溯源 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from './route'
+
+// Mock dependencies
+const { mockAdminClient, mockDetectFingerprint } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+    },
+    mockDetectFingerprint: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/album-access', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth/album-access')>()),
+  requireAlbumStaff: vi.fn(),
+  getAlbumAccessLevel: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', () => ({
+  recordAuditLog: vi.fn(),
+}))
+
+vi.mock('@/lib/download-fingerprints', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/download-fingerprints')>()),
+  detectFingerprint: mockDetectFingerprint,
+}))
+
+const albumId = '550e8400-e29b-41d4-a716-446655440000'
+const photographer = { id: 'photographer-1', email: 'p@example.com', role: 'photographer' }
+
+const fingerprint = {
+  id: 'fp-1',
+  code: '3f2a9c01b7e4',
+  source: 'download',
+  album_id: albumId,
+  photo_id: 'photo-1',
+  package_id: null,
+  share_link_id: null,
+  guest_session_id: 'session-1',
+  visitor_hash: 'hash',
+  ip_address: '203.0.113.7',
+  user_agent: 'Mozilla/5.0',
+  created_by: null,
+  created_at: '2026-05-01T10:00:00Z',
+}
+
+const rows: Record<string, unknown> = {
+  download_fingerprints: fingerprint,
+  albums: { id: albumId, title: '婚礼', slug: 'wedding' },
+  photos: { id: 'photo-1', filename: 'DSC_0001.jpg' },
+  guest_sessions: { id: 'session-1', guest_name: '张三', guest_phone: '13800000000', share_link_id: 'link-1' },
+  album_share_links: { id: 'link-1', label: '亲友', permission: 'download' },
+}
+
+/**
+ * 按表名返回查询链 mock
+ */
+function mockTables(overrides: Record<string, unknown> = {}) {
+  const data = { ...rows, ...overrides }
+  mockAdminClient.from.mockImplementation((table: string) => {
+    const builder: Record<string, unknown> = {}
+    builder.select = vi.fn().mockReturnValue(builder)
+    builder.eq = vi.fn().mockReturnValue(builder)
+    builder.maybeSingle = vi.fn().mockResolvedValue({ data: data[table] ?? null, error: null })
+    return builder
+  })
+}
+
+function upload(file?: File) {
+  const formData = new FormData()
+  if (file) formData.append('file', file)
+  return new NextRequest('http://localhost:3000/api/admin/fingerprints/identify', { method: 'POST', body: formData })
+}
+
+const image = () => new File([new Uint8Array([0xff, 0xd8, 0xff])], 'leaked.jpg', { type: 'image/jpeg' })
+
+describe('POST /api/admin/fingerprints/identify', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAlbumStaff, getAlbumAccessLevel } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumStaff).mockResolvedValue(photographer as never)
+    vi.mocked(getAlbumAccessLevel).mockResolvedValue('owner')
+    mockDetectFingerprint.mockResolvedValue({ code: fingerprint.code, confidence: 12.4 })
+    mockTables()
+  })
+
+  it('should return 403 for non-staff users', async () => {
+    const { requireAlbumStaff } = await import('@/lib/auth/album-access')
+    vi.mocked(requireAlbumStaff).mockResolvedValue(null)
+
+    const response = await POST(upload(image()))
+
+    expect(response.status).toBe(403)
+    expect(mockDetectFingerprint).not.toHaveBeenCalled()
+  })
+
+  it('should reject missing files and non-images', async () => {
+    expect((await POST(upload())).status).toBe(400)
+    expect((await POST(upload(new File(['text'], 'a.txt', { type: 'text/plain' })))).status).toBe(400)
+    expect(mockDetectFingerprint).not.toHaveBeenCalled()
+  })
+
+  it('should return no match when no fingerprint is detected', async () => {
+    mockDetectFingerprint.mockResolvedValue({ code: null, confidence: 0.8 })
+
+    const response = await POST(upload(image()))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data).toEqual({ detection: { code: null, confidence: 0.8 }, match: null })
+    expect(mockAdminClient.from).not.toHaveBeenCalled()
+  })
+
+  it('should trace the download back to album, guest session and share link', async () => {
+    const response = await POST(upload(image()))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.match).toMatchObject({
+      code: fingerprint.code,
+      source: 'download',
+      downloadedAt: fingerprint.created_at,
+      album: { id: albumId, title: '婚礼', slug: 'wedding' },
+      photo: { id: 'photo-1', filename: 'DSC_0001.jpg' },
+      guestSession: { id: 'session-1', guestName: '张三', guestPhone: '13800000000' },
+      shareLink: { id: 'link-1', label: '亲友' },
+      ipAddress: '203.0.113.7',
+    })
+
+    const { recordAuditLog } = await import('@/lib/audit-log')
+    expect(recordAuditLog).toHaveBeenCalledWith(expect.anything(), photographer, expect.objectContaining({
+      action: 'album.leak_identify',
+      targetType: 'album',
+      targetId: albumId,
+    }))
+  })
+
+  it('should return 403 when the photographer cannot view the album', async () => {
+    const { getAlbumAccessLevel } = await import('@/lib/auth/album-access')
+    vi.mocked(getAlbumAccessLevel).mockResolvedValue(null)
+
+    const response = await POST(upload(image()))
+
+    expect(response.status).toBe(403)
+    const { recordAuditLog } = await import('@/lib/audit-log')
+    expect(recordAuditLog).not.toHaveBeenCalled()
+  })
+
+  it('should return no match for unknown codes', async () => {
+    mockTables({ download_fingerprints: null })
+
+    const response = await POST(upload(image()))
+    const data = await response.json()
+
+    expect(data.data.match).toBeNull()
+  })
+
+  it('should return 500 when worker detection fails', async () => {
+    mockDetectFingerprint.mockRejectedValue(new Error('指纹检测失败: boom'))
+
+    const response = await POST(upload(image()))
+
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,147 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { getAlbumAccessLevel, hasAlbumPermission, requireAlbumStaff } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { MAX_FINGERPRINT_IMAGE_SIZE, detectFingerprint } from '@/lib/download-fingerprints'
+import { handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { Album, AlbumShareLink, DownloadFingerprint, GuestSession, Photo } from '@/types/database'
+
+/**
+ * 泄露溯源 API
+ *
+ * @route POST /api/admin/fingerprints/identify
+ * @description 上传外泄的图片，由 Worker 解出下载指纹，再按编号查出对应的相册、照片、分享链接、
+ * 访客会话和下载时间。图片经过缩放、重新压缩或轻度调色后仍可识别，大幅裁剪或旋转后无法识别
+ *
+ * @auth 需要管理员或摄影师权限；摄影师只能查看自己可访问相册的下载记录
+ *
+ * @body {File} file - 可疑图片（最大 50MB），multipart/form-data
+ *
+ * @returns {Object} 200 - 检测结果
+ * @returns {Object} 200.data.detection - 指纹编号和置信度（未检测到时编号为 null）
+ * @returns {Object|null} 200.data.match - 下载记录，编号不存在时为 null
+ * @returns {Object} 400 - 缺少文件、文件过大或不是图片
+ * @returns {Object} 403 - 权限不足，或无权查看该相册
+ * @returns {Object} 500 - Worker 检测失败
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAlbumStaff(request)
+    if (!user) {
+      return ApiError.forbidden('需要管理员或摄影师权限')
+    }
+
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch {
+      return ApiError.badRequest('请使用 multipart/form-data 上传文件')
+    }
+
+    const file = formData.get('file')
+    if (!(file instanceof File) || file.size === 0) {
+      return ApiError.badRequest('请选择要检测的图片')
+    }
+    if (file.type && !file.type.startsWith('image/')) {
+      return ApiError.badRequest('只能检测图片文件')
+    }
+    if (file.size > MAX_FINGERPRINT_IMAGE_SIZE) {
+      return ApiError.badRequest('图片不能超过 50MB')
+    }
+
+    const detection = await detectFingerprint(await file.arrayBuffer())
+    if (!detection.code) {
+      return createSuccessResponse({ detection, match: null })
+    }
+
+    const db = await createAdminClient()
+    const fingerprintResult = await db
+      .from<DownloadFingerprint>('download_fingerprints')
+      .select('*')
+      .eq('code', detection.code)
+      .maybeSingle()
+
+    const fingerprint = fingerprintResult.data
+    if (!fingerprint) {
+      return createSuccessResponse({ detection, match: null })
+    }
+
+    const access = await getAlbumAccessLevel(user, fingerprint.album_id)
+    if (!hasAlbumPermission(access, 'view')) {
+      return ApiError.forbidden('无权查看该相册的下载记录')
+    }
+
+    const [albumResult, photoResult, guestSessionResult, creatorResult] = await Promise.all([
+      db
+        .from<Pick<Album, 'id' | 'title' | 'slug'>>('albums')
+        .select('id, title, slug')
+        .eq('id', fingerprint.album_id)
+        .maybeSingle(),
+      fingerprint.photo_id
+        ? db
+            .from<Pick<Photo, 'id' | 'filename'>>('photos')
+            .select('id, filename')
+            .eq('id', fingerprint.photo_id)
+            .maybeSingle()
+        : null,
+      fingerprint.guest_session_id
+        ? db
+            .from<Pick<GuestSession, 'id' | 'guest_name' | 'guest_phone' | 'share_link_id'>>('guest_sessions')
+            .select('id, guest_name, guest_phone, share_link_id')
+            .eq('id', fingerprint.guest_session_id)
+            .maybeSingle()
+        : null,
+      fingerprint.created_by
+        ? db
+            .from<{ id: string; email: string }>('users')
+            .select('id, email')
+            .eq('id', fingerprint.created_by)
+            .maybeSingle()
+        : null,
+    ])
+
+    // 访客通过分享链接建立会话后，直接访问相册下载时记录里没有链接，从会话补上
+    const guestSession = guestSessionResult?.data ?? null
+    const shareLinkId = fingerprint.share_link_id ?? guestSession?.share_link_id ?? null
+    const shareLinkResult = shareLinkId
+      ? await db
+          .from<Pick<AlbumShareLink, 'id' | 'label' | 'permission'>>('album_share_links')
+          .select('id, label, permission')
+          .eq('id', shareLinkId)
+          .maybeSingle()
+      : null
+
+    await recordAuditLog(request, user, {
+      action: 'album.leak_identify',
+      targetType: 'album',
+      targetId: fingerprint.album_id,
+      metadata: {
+        code: fingerprint.code,
+        source: fingerprint.source,
+        confidence: detection.confidence,
+        filename: file.name,
+      },
+    })
+
+    return createSuccessResponse({
+      detection,
+      match: {
+        code: fingerprint.code,
+        source: fingerprint.source,
+        downloadedAt: fingerprint.created_at,
+        album: albumResult.data ?? null,
+        photo: photoResult?.data ?? null,
+        packageId: fingerprint.package_id,
+        shareLink: shareLinkResult?.data ?? null,
+        guestSession: guestSession
+          ? { id: guestSession.id, guestName: guestSession.guest_name, guestPhone: guestSession.guest_phone }
+          : null,
+        createdBy: creatorResult?.data ?? null,
+        ipAddress: fingerprint.ip_address,
+        userAgent: fingerprint.user_agent,
+      },
+    })
+  } catch (error) {
+    return handleError(error, '泄露溯源失败')
+  }
+}
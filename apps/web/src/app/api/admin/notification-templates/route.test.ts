@@ -0,0 +1,112 @@
+/**
+ * 客户通知邮件模板 API 路由测试
+ *
+ * 测试 GET 和 PATCH 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET, PATCH } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireAdmin: vi.fn(),
+}))
+
+vi.mock('@/lib/client-notifications', () => ({
+  listNotificationTemplates: vi.fn(),
+  saveNotificationTemplate: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audit-log')>()),
+  recordAuditLog: vi.fn(),
+}))
+
+const admin = { id: 'admin-1', email: 'admin@example.com', role: 'admin' }
+const template = {
+  id: 'template-1',
+  type: 'album_ready',
+  locale: 'en',
+  subject: 'Your album "{{album_title}}" is ready',
+  body: 'Hi {{client_name}}',
+  updated_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+}
+
+const url = 'http://localhost:3000/api/admin/notification-templates'
+
+describe('/api/admin/notification-templates', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireAdmin).mockResolvedValue(admin as never)
+  })
+
+  describe('GET', () => {
+    it('should require admin', async () => {
+      const { requireAdmin } = await import('@/lib/auth/role-helpers')
+      vi.mocked(requireAdmin).mockResolvedValue(null)
+
+      const response = await GET(createMockRequest(url))
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should return all templates', async () => {
+      const { listNotificationTemplates } = await import('@/lib/client-notifications')
+      vi.mocked(listNotificationTemplates).mockResolvedValue([template] as never)
+
+      const response = await GET(createMockRequest(url))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.templates).toHaveLength(1)
+    })
+  })
+
+  describe('PATCH', () => {
+    it('should reject unknown types and locales', async () => {
+      const response = await PATCH(
+        createMockRequest(url, {
+          method: 'PATCH',
+          body: { type: 'album.published', locale: 'fr', subject: 'x', body: 'y' },
+        })
+      )
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should save the template and record changed fields', async () => {
+      const { saveNotificationTemplate } = await import('@/lib/client-notifications')
+      const { recordAuditLog } = await import('@/lib/audit-log')
+      vi.mocked(saveNotificationTemplate).mockResolvedValue({
+        before: template,
+        template: { ...template, subject: 'Ready: {{album_title}}' },
+      } as never)
+
+      const response = await PATCH(
+        createMockRequest(url, {
+          method: 'PATCH',
+          body: { type: 'album_ready', locale: 'en', subject: ' Ready: {{album_title}} ', body: 'Hi {{client_name}}' },
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.subject).toBe('Ready: {{album_title}}')
+      expect(saveNotificationTemplate).toHaveBeenCalledWith(
+        { type: 'album_ready', locale: 'en', subject: 'Ready: {{album_title}}', body: 'Hi {{client_name}}' },
+        'admin-1'
+      )
+      expect(recordAuditLog).toHaveBeenCalledWith(
+        expect.anything(),
+        admin,
+        expect.objectContaining({
+          action: 'system.notification_template_update',
+          changes: { subject: { before: template.subject, after: 'Ready: {{album_title}}' } },
+        })
+      )
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { listNotificationTemplates, saveNotificationTemplate } from '@/lib/client-notifications'
+import { updateNotificationTemplateSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 客户通知邮件模板 API
+ *
+ * @route GET /api/admin/notification-templates
+ * @route PATCH /api/admin/notification-templates
+ * @description 通知邮件模板的查询和修改接口
+ */
+
+/**
+ * 获取邮件模板
+ *
+ * @route GET /api/admin/notification-templates
+ * @description 获取全部通知类型、全部语言的邮件模板
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {Object[]} 200.data.templates - 模板数组
+ *
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理通知模板')
+    }
+
+    const templates = await listNotificationTemplates()
+    return createSuccessResponse({ templates })
+  } catch (error) {
+    return handleError(error, '获取通知模板失败')
+  }
+}
+
+/**
+ * 修改邮件模板
+ *
+ * @route PATCH /api/admin/notification-templates
+ * @description 修改某种通知类型某种语言的邮件模板，模板不存在时新建。
+ * 主题和正文支持 `{{变量名}}` 占位符，正文为纯文本（发送时自动转换为 HTML）
+ *
+ * @auth 需要管理员权限
+ *
+ * @body {Object} requestBody - 模板内容
+ * @body {string} requestBody.type - 通知类型
+ * @body {string} requestBody.locale - 语言（zh-CN / en）
+ * @body {string} requestBody.subject - 邮件主题（最多200字符）
+ * @body {string} requestBody.body - 邮件正文
+ *
+ * @returns {Object} 200 - 保存成功
+ * @returns {Object} 200.data - 保存后的模板
+ *
+ * @returns {Object} 400 - 请求参数错误（验证失败）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理通知模板')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updateNotificationTemplateSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { type, locale, subject, body: templateBody } = validation.data
+    const { before, template } = await saveNotificationTemplate(
+      { type, locale, subject, body: templateBody },
+      admin.id
+    )
+
+    const changes = diffAuditChanges(before, { subject, body: templateBody })
+    if (changes) {
+      await recordAuditLog(request, admin, {
+        action: 'system.notification_template_update',
+        targetType: 'system',
+        targetId: template.id,
+        changes,
+        metadata: { type, locale },
+      })
+    }
+
+    return createSuccessResponse(template)
+  } catch (error) {
+    return handleError(error, '保存通知模板失败')
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server'
 import { createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasPhotosPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
 import { photoIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 import { getInternalApiUrl } from '@/lib/utils'
@@ -37,11 +38,10 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对照片所属相册的权限（管理员可访问全部相册）
+    const staff = await requireAlbumStaff(request)
+    if (!staff || !(await hasPhotosPermission(staff, [photoId], 'edit'))) {
+      return ApiError.forbidden('无权编辑该照片')
     }
 
     // 查询照片记录（获取 original_key 用于清理 MinIO 文件）
@@ -110,6 +110,13 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return handleError(deleteResult.error, '删除照片记录失败')
     }
 
+    await recordAuditLog(request, staff, {
+      action: 'photo.cleanup',
+      targetType: 'photo',
+      targetId: photoId,
+      metadata: { album_id: photo.album_id, status: photo.status, original_key: photo.original_key },
+    })
+
     return createSuccessResponse({
       success: true,
       message: '照片记录和文件已清理',
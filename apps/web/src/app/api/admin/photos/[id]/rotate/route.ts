@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasPhotosPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
 import { rotatePhotoSchema, photoIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
@@ -53,11 +54,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户对照片所属相册的权限（管理员可访问全部相册）
+    const staff = await requireAlbumStaff(request)
+    if (!staff || !(await hasPhotosPermission(staff, [id], 'edit'))) {
+      return ApiError.forbidden('无权编辑该照片')
     }
 
     // 解析和验证请求体
@@ -79,8 +79,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     // 验证照片存在且用户有权限访问（排除已删除的照片）
     // 查询照片（包含相册信息验证）
     const photoResult = await db
-      .from<{ id: string; album_id: string; deleted_at: string | null }>('photos')
-      .select('id, album_id, deleted_at')
+      .from<{ id: string; album_id: string; rotation: number | null; deleted_at: string | null }>('photos')
+      .select('id, album_id, rotation, deleted_at')
       .eq('id', id)
       .is('deleted_at', null)
       .single()
@@ -129,6 +129,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     const updatedPhoto = updateResult.data && updateResult.data.length > 0 ? updateResult.data[0] : null
 
+    await recordAuditLog(request, staff, {
+      action: 'photo.rotate',
+      targetType: 'photo',
+      targetId: id,
+      changes: { rotation: { before: photo.rotation ?? null, after: rotation ?? null } },
+      metadata: { album_id: photo.album_id },
+    })
+
     // 如果照片状态是 completed，需要重新处理图片以应用新的旋转角度
     // 注意：只处理未删除的照片
     const photoStatusResult = await dbAdmin
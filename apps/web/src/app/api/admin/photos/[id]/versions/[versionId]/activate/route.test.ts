@@ -0,0 +1,222 @@
+/**
+ * 切换照片版本 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+      update: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/api-helpers', () => ({
+  getCurrentUser: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireRetoucherOrAdmin: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumStaff: vi.fn().mockResolvedValue(null),
+  hasPhotosPermission: vi.fn(),
+}))
+
+const photoId = '550e8400-e29b-41d4-a716-446655440000'
+const albumId = '550e8400-e29b-41d4-a716-446655440001'
+const versionId = '550e8400-e29b-41d4-a716-446655440002'
+
+const retouchVersion = {
+  id: versionId,
+  photo_id: photoId,
+  album_id: albumId,
+  version_number: 2,
+  source: 'retouch',
+  storage_key: `retouched/${albumId}/${photoId}_1700000000000.jpg`,
+  file_size: 2048,
+  mime_type: 'image/jpeg',
+  hash: null,
+  created_by: 'user-123',
+  created_at: '2024-01-01T00:00:00Z',
+}
+
+/**
+ * 构造照片与版本查询 mock
+ */
+function mockQueries(
+  photo: Record<string, unknown> | null,
+  version: Record<string, unknown> | null
+) {
+  mockAdminClient.from.mockImplementation((table: string) => {
+    const data = table === 'photo_versions' ? version : photo
+    return {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({
+        data,
+        error: data ? null : { message: 'Not found' },
+      }),
+    }
+  })
+}
+
+function createActivateRequest(id = photoId, vid = versionId) {
+  return {
+    request: createMockRequest(
+      `http://localhost:3000/api/admin/photos/${id}/versions/${vid}/activate`,
+      { method: 'POST' }
+    ),
+    context: { params: Promise.resolve({ id, versionId: vid }) },
+  }
+}
+
+describe('POST /api/admin/photos/[id]/versions/[versionId]/activate', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const { requireRetoucherOrAdmin } = await import('@/lib/auth/role-helpers')
+
+    // 默认修图师已登录
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: 'user-123', email: 'retoucher@example.com' })
+    vi.mocked(requireRetoucherOrAdmin).mockResolvedValue({
+      id: 'user-123',
+      email: 'retoucher@example.com',
+      role: 'retoucher',
+    } as any)
+
+    mockAdminClient.update.mockResolvedValue({ data: [], error: null })
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 })
+  })
+
+  describe('authentication', () => {
+    it('should return 401 if user is not authenticated', async () => {
+      const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+      vi.mocked(getCurrentUser).mockResolvedValue(null)
+
+      const { request, context } = createActivateRequest()
+      const response = await POST(request, context)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should return 403 if user is neither retoucher nor album collaborator', async () => {
+      const { requireRetoucherOrAdmin } = await import('@/lib/auth/role-helpers')
+      vi.mocked(requireRetoucherOrAdmin).mockResolvedValue(null)
+
+      const { request, context } = createActivateRequest()
+      const response = await POST(request, context)
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('validation', () => {
+    it('should return 400 for invalid version ID', async () => {
+      const { request, context } = createActivateRequest(photoId, 'invalid-id')
+      const response = await POST(request, context)
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 if photo does not exist', async () => {
+      mockQueries(null, retouchVersion)
+
+      const { request, context } = createActivateRequest()
+      const response = await POST(request, context)
+
+      expect(response.status).toBe(404)
+      expect(mockAdminClient.update).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 if version does not belong to photo', async () => {
+      mockQueries({ id: photoId, album_id: albumId }, null)
+
+      const { request, context } = createActivateRequest()
+      const response = await POST(request, context)
+
+      expect(response.status).toBe(404)
+      expect(mockAdminClient.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('activation', () => {
+    it('should make retouched version current and trigger processing', async () => {
+      mockQueries({ id: photoId, album_id: albumId }, retouchVersion)
+
+      const { request, context } = createActivateRequest()
+      const response = await POST(request, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.version.id).toBe(versionId)
+      expect(mockAdminClient.update).toHaveBeenCalledWith(
+        'photos',
+        expect.objectContaining({
+          original_key: retouchVersion.storage_key,
+          current_version_id: versionId,
+          status: 'pending',
+          retoucher_id: 'user-123',
+        }),
+        { id: photoId }
+      )
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0]
+      expect(String(url)).toContain('/api/worker/process')
+      expect(JSON.parse((init as RequestInit).body as string)).toEqual({
+        photoId,
+        albumId,
+        originalKey: retouchVersion.storage_key,
+        isRetouch: true,
+      })
+    })
+
+    it('should revert to original without marking as retouch', async () => {
+      const originalVersion = {
+        ...retouchVersion,
+        version_number: 1,
+        source: 'original',
+        storage_key: `raw/${albumId}/${photoId}.jpg`,
+      }
+      mockQueries({ id: photoId, album_id: albumId }, originalVersion)
+
+      const { request, context } = createActivateRequest()
+      const response = await POST(request, context)
+
+      expect(response.status).toBe(200)
+      const update = mockAdminClient.update.mock.calls[0][1]
+      expect(update.original_key).toBe(originalVersion.storage_key)
+      expect(update).not.toHaveProperty('retoucher_id')
+
+      const init = vi.mocked(global.fetch).mock.calls[0][1] as RequestInit
+      expect(JSON.parse(init.body as string).isRetouch).toBe(false)
+    })
+
+    it('should return 202 if worker is unavailable', async () => {
+      mockQueries({ id: photoId, album_id: albumId }, retouchVersion)
+      global.fetch = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+
+      const { request, context } = createActivateRequest()
+      const response = await POST(request, context)
+      const data = await response.json()
+
+      expect(response.status).toBe(202)
+      expect(data.warning.code).toBe('WORKER_UNAVAILABLE')
+      expect(mockAdminClient.update).toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasPhotosPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { photoVersionParamsSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import { getInternalApiUrl } from '@/lib/utils'
+import type { PhotoVersion } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string; versionId: string }>
+}
+
+/**
+ * 切换照片当前版本 API
+ *
+ * @route POST /api/admin/photos/[id]/versions/[versionId]/activate
+ * @description 将指定版本设为照片的当前版本并触发 Worker 重新生成缩略图和预览图。
+ * 精修图上传完成后调用以使新版本生效，也可用于回退到原图或更早的精修版本。
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @param {string} id - 照片ID（UUID格式）
+ * @param {string} versionId - 版本ID（UUID格式）
+ *
+ * @returns {Object} 200 - 切换成功
+ * @returns {Object} 200.data.version - 当前生效的版本
+ *
+ * @returns {Object} 202 - 版本已切换，但 Worker 服务暂时不可用
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 404 - 照片或版本不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    const paramsValidation = safeValidate(photoVersionParamsSchema, paramsData)
+    if (!paramsValidation.success) {
+      return handleError(paramsValidation.error, '无效的照片或版本ID')
+    }
+
+    const { id, versionId } = paramsValidation.data
+
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 修图师和管理员可访问全部照片，摄影师需要对照片所属相册有权限
+    let actor = await requireRetoucherOrAdmin(request)
+    if (!actor) {
+      actor = await requireAlbumStaff(request)
+      if (!actor || !(await hasPhotosPermission(actor, [id], 'edit'))) {
+        return ApiError.forbidden('无权切换该照片的版本')
+      }
+    }
+
+    const db = await createAdminClient()
+
+    const photoResult = await db
+      .from<{ id: string; album_id: string; current_version_id: string | null }>('photos')
+      .select('id, album_id, current_version_id')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .single()
+
+    if (photoResult.error || !photoResult.data) {
+      return ApiError.notFound('照片不存在')
+    }
+
+    const versionResult = await db
+      .from<PhotoVersion>('photo_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('photo_id', id)
+      .single()
+
+    if (versionResult.error || !versionResult.data) {
+      return ApiError.notFound('版本不存在')
+    }
+
+    const photo = photoResult.data
+    const version = versionResult.data
+    const isRetouch = version.source !== 'original'
+
+    // original_key 始终与当前版本保持一致，其他读取原图的功能无需感知版本
+    const photoUpdate: Record<string, unknown> = {
+      original_key: version.storage_key,
+      current_version_id: version.id,
+      status: 'pending',
+    }
+    if (version.file_size !== null) photoUpdate.file_size = version.file_size
+    if (version.mime_type !== null) photoUpdate.mime_type = version.mime_type
+    if (version.hash !== null) photoUpdate.hash = version.hash
+    if (isRetouch) photoUpdate.retoucher_id = user.id
+
+    const updateResult = await db.update('photos', photoUpdate, { id })
+    if (updateResult.error) {
+      return ApiError.internal(`切换版本失败：${updateResult.error.message}`)
+    }
+
+    await recordAuditLog(request, actor, {
+      action: 'photo.version_activate',
+      targetType: 'photo',
+      targetId: photo.id,
+      changes: { current_version_id: { before: photo.current_version_id, after: version.id } },
+      metadata: { album_id: photo.album_id, version_number: version.version_number, source: version.source },
+    })
+
+    // 触发 Worker 处理当前版本
+    let workerError: string | null = null
+    try {
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json',
+      }
+      const cookieHeader = request.headers.get('cookie')
+      if (cookieHeader) {
+        headers['cookie'] = cookieHeader
+      }
+
+      const processRes = await fetch(getInternalApiUrl('/api/worker/process'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          photoId: photo.id,
+          albumId: photo.album_id,
+          originalKey: version.storage_key,
+          isRetouch,
+        }),
+      })
+
+      if (!processRes.ok) {
+        workerError = `Worker 返回错误: ${processRes.status}`
+      }
+    } catch (err) {
+      console.error('Failed to call worker:', err)
+      workerError = err instanceof Error ? err.message : '无法连接到 Worker 服务'
+    }
+
+    if (workerError) {
+      return NextResponse.json(
+        {
+          success: true,
+          data: { version },
+          warning: {
+            code: 'WORKER_UNAVAILABLE',
+            message: '版本已切换，照片处理服务暂时不可用，照片将在后台异步处理',
+            details: workerError,
+          },
+        },
+        { status: 202 }
+      )
+    }
+
+    return createSuccessResponse({ version })
+  } catch (error) {
+    return handleError(error, '切换照片版本失败')
+  }
+}
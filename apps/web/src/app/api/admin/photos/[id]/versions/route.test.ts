@@ -0,0 +1,188 @@
+/**
+ * 照片版本历史 API 路由测试
+ *
+ * 测试 GET 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/api-helpers', () => ({
+  getCurrentUser: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireRetoucherOrAdmin: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/album-access', () => ({
+  requireAlbumStaff: vi.fn().mockResolvedValue(null),
+  hasPhotosPermission: vi.fn(),
+}))
+
+vi.mock('@/lib/photo-versions', () => ({
+  ensureOriginalVersion: vi.fn(),
+}))
+
+const photoId = '550e8400-e29b-41d4-a716-446655440000'
+const albumId = '550e8400-e29b-41d4-a716-446655440001'
+
+const mockPhoto = {
+  id: photoId,
+  album_id: albumId,
+  original_key: `raw/${albumId}/${photoId}.jpg`,
+  file_size: 1024,
+  mime_type: 'image/jpeg',
+  hash: null,
+  current_version_id: 'version-2',
+}
+
+/**
+ * 构造照片查询 mock
+ */
+function mockPhotoQuery(photo: Record<string, unknown> | null) {
+  mockAdminClient.from.mockReturnValue({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: photo,
+      error: photo ? null : { message: 'Not found' },
+    }),
+  })
+}
+
+describe('GET /api/admin/photos/[id]/versions', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const { requireRetoucherOrAdmin } = await import('@/lib/auth/role-helpers')
+
+    // 默认修图师已登录
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: 'user-123', email: 'retoucher@example.com' })
+    vi.mocked(requireRetoucherOrAdmin).mockResolvedValue({
+      id: 'user-123',
+      email: 'retoucher@example.com',
+      role: 'retoucher',
+    } as any)
+  })
+
+  describe('authentication', () => {
+    it('should return 401 if user is not authenticated', async () => {
+      const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+      vi.mocked(getCurrentUser).mockResolvedValue(null)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/photos/${photoId}/versions`)
+      const response = await GET(request, { params: Promise.resolve({ id: photoId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.error.code).toBe('UNAUTHORIZED')
+    })
+
+    it('should return 403 if user is neither retoucher nor album collaborator', async () => {
+      const { requireRetoucherOrAdmin } = await import('@/lib/auth/role-helpers')
+      vi.mocked(requireRetoucherOrAdmin).mockResolvedValue(null)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/photos/${photoId}/versions`)
+      const response = await GET(request, { params: Promise.resolve({ id: photoId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data.error.code).toBe('FORBIDDEN')
+    })
+
+    it('should allow photographers who can view the photo album', async () => {
+      const { requireRetoucherOrAdmin } = await import('@/lib/auth/role-helpers')
+      const { requireAlbumStaff, hasPhotosPermission } = await import('@/lib/auth/album-access')
+      vi.mocked(requireRetoucherOrAdmin).mockResolvedValue(null)
+      vi.mocked(requireAlbumStaff).mockResolvedValueOnce({
+        id: 'user-456',
+        email: 'photographer@example.com',
+        role: 'photographer',
+      })
+      vi.mocked(hasPhotosPermission).mockResolvedValue(true)
+      mockPhotoQuery(mockPhoto)
+
+      const { ensureOriginalVersion } = await import('@/lib/photo-versions')
+      vi.mocked(ensureOriginalVersion).mockResolvedValue([] as any)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/photos/${photoId}/versions`)
+      const response = await GET(request, { params: Promise.resolve({ id: photoId }) })
+
+      expect(response.status).toBe(200)
+      expect(hasPhotosPermission).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-456' }), [photoId], 'view')
+    })
+  })
+
+  describe('validation', () => {
+    it('should return 400 for invalid photo ID', async () => {
+      const request = createMockRequest('http://localhost:3000/api/admin/photos/invalid-id/versions')
+      const response = await GET(request, { params: Promise.resolve({ id: 'invalid-id' }) })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 if photo does not exist', async () => {
+      mockPhotoQuery(null)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/photos/${photoId}/versions`)
+      const response = await GET(request, { params: Promise.resolve({ id: photoId }) })
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('successful retrieval', () => {
+    it('should return versions and current version ID', async () => {
+      mockPhotoQuery(mockPhoto)
+
+      const versions = [
+        { id: 'version-1', photo_id: photoId, version_number: 1, source: 'original' },
+        { id: 'version-2', photo_id: photoId, version_number: 2, source: 'retouch' },
+      ]
+      const { ensureOriginalVersion } = await import('@/lib/photo-versions')
+      vi.mocked(ensureOriginalVersion).mockResolvedValue(versions as any)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/photos/${photoId}/versions`)
+      const response = await GET(request, { params: Promise.resolve({ id: photoId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.versions).toEqual(versions)
+      expect(data.data.currentVersionId).toBe('version-2')
+      expect(ensureOriginalVersion).toHaveBeenCalledWith(mockPhoto)
+    })
+
+    it('should treat backfilled original as current version for legacy photos', async () => {
+      mockPhotoQuery({ ...mockPhoto, current_version_id: null })
+
+      const { ensureOriginalVersion } = await import('@/lib/photo-versions')
+      vi.mocked(ensureOriginalVersion).mockResolvedValue([
+        { id: 'version-1', photo_id: photoId, version_number: 1, source: 'original' },
+      ] as any)
+
+      const request = createMockRequest(`http://localhost:3000/api/admin/photos/${photoId}/versions`)
+      const response = await GET(request, { params: Promise.resolve({ id: photoId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.currentVersionId).toBe('version-1')
+    })
+  })
+})
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasPhotosPermission } from '@/lib/auth/album-access'
+import { photoIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import { ensureOriginalVersion, type VersionedPhoto } from '@/lib/photo-versions'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 照片版本历史 API
+ *
+ * @route GET /api/admin/photos/[id]/versions
+ * @description 获取照片的全部版本（原图、AI 修图、人工精修），用于前后对比和回退
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @param {string} id - 照片ID（UUID格式）
+ *
+ * @returns {Object} 200 - 查询成功
+ * @returns {Array} 200.data.versions - 按版本号升序排列的版本列表
+ * @returns {string|null} 200.data.currentVersionId - 当前生效的版本ID
+ *
+ * @returns {Object} 400 - 无效的照片ID
+ * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 404 - 照片不存在
+ * @returns {Object} 500 - 服务器内部错误
+ *
+ * @note 尚无版本记录的历史照片会在首次查询时以当前原图补建 v1
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    const idValidation = safeValidate(photoIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的照片ID')
+    }
+
+    const { id } = idValidation.data
+
+    const { getCurrentUser } = await import('@/lib/auth/api-helpers')
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('需要登录才能执行此操作')
+    }
+
+    // 修图师和管理员可访问全部照片，摄影师需要对照片所属相册有权限
+    const retoucher = await requireRetoucherOrAdmin(request)
+    if (!retoucher) {
+      const staff = await requireAlbumStaff(request)
+      if (!staff || !(await hasPhotosPermission(staff, [id], 'view'))) {
+        return ApiError.forbidden('无权查看该照片的版本')
+      }
+    }
+
+    const db = await createAdminClient()
+    const photoResult = await db
+      .from<VersionedPhoto>('photos')
+      .select('id, album_id, original_key, file_size, mime_type, hash, current_version_id')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .single()
+
+    if (photoResult.error || !photoResult.data) {
+      return ApiError.notFound('照片不存在')
+    }
+
+    const photo = photoResult.data
+    const versions = await ensureOriginalVersion(photo)
+
+    // 补建原图版本时 current_version_id 会被同步更新
+    const currentVersionId =
+      photo.current_version_id ?? (versions.length === 1 ? versions[0].id : null)
+
+    return createSuccessResponse({ versions, currentVersionId })
+  } catch (error) {
+    return handleError(error, '获取照片版本失败')
+  }
+}
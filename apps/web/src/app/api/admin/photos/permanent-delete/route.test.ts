@@ -34,6 +34,10 @@ vi.mock('@/lib/auth/api-helpers', () => ({
   getCurrentUser: vi.fn(),
 }))
 
+vi.mock('@/lib/photo-versions', () => ({
+  listPhotoVersionKeys: vi.fn().mockResolvedValue([]),
+}))
+
 vi.mock('@/lib/database', () => ({
   createClient: vi.fn().mockResolvedValue(mockSupabaseClient),
   createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
@@ -507,6 +511,122 @@ describe('POST /api/admin/photos/permanent-delete', () => {
       expect(body.keys).toContain('previews/123e4567-e89b-12d3-a456-426614174001/123e4567-e89b-12d3-a456-426614174000.jpg')
     })
 
+    it('should also delete files of all photo versions', async () => {
+      const { listPhotoVersionKeys } = await import('@/lib/photo-versions')
+      vi.mocked(listPhotoVersionKeys).mockResolvedValueOnce([
+        'raw/123e4567-e89b-12d3-a456-426614174001/123e4567-e89b-12d3-a456-426614174000.jpg',
+        'retouched/123e4567-e89b-12d3-a456-426614174001/123e4567-e89b-12d3-a456-426614174000_1.jpg',
+      ])
+
+      const mockPhotos = [
+        {
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          album_id: '123e4567-e89b-12d3-a456-426614174001',
+          original_key: 'raw/123e4567-e89b-12d3-a456-426614174001/123e4567-e89b-12d3-a456-426614174000.jpg',
+          thumb_key: 'thumbs/123e4567-e89b-12d3-a456-426614174001/123e4567-e89b-12d3-a456-426614174000.jpg',
+          preview_key: 'previews/123e4567-e89b-12d3-a456-426614174001/123e4567-e89b-12d3-a456-426614174000.jpg',
+        },
+      ]
+
+      const mockSelect = vi.fn().mockReturnThis()
+      const mockIn = vi.fn().mockReturnThis()
+      const mockNot = vi.fn().mockResolvedValue({
+        data: mockPhotos,
+        error: null,
+      })
+
+      const mockAlbumsSelect = vi.fn().mockReturnThis()
+      const mockAlbumsIn = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: '123e4567-e89b-12d3-a456-426614174001',
+            slug: 'test-album',
+            cover_photo_id: null,
+          },
+        ],
+        error: null,
+      })
+
+      const mockCountSelect = vi.fn().mockReturnThis()
+      const mockCountEq = vi.fn().mockReturnThis()
+      const mockCountIs = vi.fn().mockResolvedValue({
+        count: 5,
+      })
+
+      const mockUpdate = vi.fn().mockReturnThis()
+      const mockUpdateEq = vi.fn().mockResolvedValue({
+        data: null,
+        error: null,
+      })
+
+      let callCount = 0
+      mockAdminClient.from.mockImplementation((table: string) => {
+        if (table === 'users') {
+          return originalMockImplementation(table)
+        }
+        callCount++
+        if (callCount === 1) {
+          return {
+            select: mockSelect,
+            in: mockIn,
+            not: mockNot,
+          }
+        } else if (callCount === 2) {
+          return {
+            select: mockAlbumsSelect,
+            in: mockAlbumsIn,
+          }
+        } else if (callCount === 3) {
+          return {
+            select: mockCountSelect,
+            eq: mockCountEq,
+            is: mockCountIs,
+          }
+        } else {
+          return {
+            update: mockUpdate,
+            eq: mockUpdateEq,
+          }
+        }
+      })
+
+      mockCountSelect.mockReturnThis()
+      mockCountEq.mockReturnThis()
+      mockUpdate.mockReturnThis()
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/admin/photos/permanent-delete', {
+        method: 'POST',
+        body: {
+          photoIds: ['123e4567-e89b-12d3-a456-426614174000'],
+        },
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.success).toBe(true)
+      
+      // 验证调用了 Worker API 删除所有文件
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      
+      const fetchCalls = (global.fetch as any).mock.calls
+      const cleanupFileCalls = fetchCalls.filter((call: any[]) => 
+        call[0].includes('/api/worker/cleanup-file')
+      )
+      expect(cleanupFileCalls.length).toBe(1)
+      
+      const body = JSON.parse(cleanupFileCalls[0][1].body)
+      expect(listPhotoVersionKeys).toHaveBeenCalledWith(['123e4567-e89b-12d3-a456-426614174000'])
+      expect(body.keys).toHaveLength(4)
+      expect(body.keys).toContain('retouched/123e4567-e89b-12d3-a456-426614174001/123e4567-e89b-12d3-a456-426614174000_1.jpg')
+    })
+
     it('should skip null file keys', async () => {
       const mockPhotos = [
         {
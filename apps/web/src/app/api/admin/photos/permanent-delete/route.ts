@@ -1,11 +1,15 @@
 import { NextRequest } from 'next/server'
 import { createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasPhotosPermission } from '@/lib/auth/album-access'
 import { purgePhotoCache } from '@/lib/cloudflare-purge'
 import { getInternalApiUrl } from '@/lib/utils'
+import { listPhotoVersionKeys } from '@/lib/photo-versions'
+import { listDerivativeKeys } from '@/lib/image-derivatives'
+import { recordAuditLog } from '@/lib/audit-log'
 import { revalidatePath } from 'next/cache'
 import { permanentDeleteSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { DerivativeSet } from '@/types/database'
 
 /**
  * 永久删除照片（从回收站删除）
@@ -26,11 +30,10 @@ export async function POST(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能执行此操作')
     }
 
     // 解析和验证请求体
@@ -49,12 +52,16 @@ export async function POST(request: NextRequest) {
 
     const { photoIds } = validation.data
 
+    if (!(await hasPhotosPermission(staff, photoIds, 'edit'))) {
+      return ApiError.forbidden('无权删除选中的部分照片')
+    }
+
     const adminClient = await createAdminClient()
 
     // 查询照片记录（获取文件路径和相册信息）
     const photosResult = await adminClient
       .from('photos')
-      .select('id, album_id, original_key, thumb_key, preview_key')
+      .select('id, album_id, original_key, raw_key, thumb_key, preview_key, video_key, derivatives')
       .in('id', photoIds)
       .not('deleted_at', 'is', null) // 只允许删除已在回收站的照片
 
@@ -68,6 +75,9 @@ export async function POST(request: NextRequest) {
       original_key: string
       thumb_key: string | null
       preview_key: string | null
+      video_key?: string | null
+      raw_key?: string | null
+      derivatives?: DerivativeSet | null
     }> | null
 
     if (!validPhotos || validPhotos.length === 0) {
@@ -109,6 +119,19 @@ export async function POST(request: NextRequest) {
       if (photo.original_key) filesToDelete.push(photo.original_key)
       if (photo.thumb_key) filesToDelete.push(photo.thumb_key)
       if (photo.preview_key) filesToDelete.push(photo.preview_key)
+      if (photo.video_key) filesToDelete.push(photo.video_key)
+      if (photo.raw_key && photo.raw_key !== photo.original_key) filesToDelete.push(photo.raw_key)
+      filesToDelete.push(...listDerivativeKeys(photo.derivatives))
+    }
+
+    // 照片的历史版本（原图、精修图）同样需要删除，版本记录随照片级联删除
+    try {
+      const versionKeys = await listPhotoVersionKeys(validPhotoIds)
+      for (const key of versionKeys) {
+        if (!filesToDelete.includes(key)) filesToDelete.push(key)
+      }
+    } catch (error) {
+      console.warn('[Permanent Delete] Failed to list photo version files:', error)
     }
 
     // 批量删除文件（调用 Worker 批量接口）
@@ -183,6 +206,17 @@ export async function POST(request: NextRequest) {
       return handleError(deleteResult.error, '删除照片记录失败')
     }
 
+    await recordAuditLog(
+      request,
+      staff,
+      validPhotos.map((photo) => ({
+        action: 'photo.permanent_delete' as const,
+        targetType: 'photo' as const,
+        targetId: photo.id,
+        metadata: { album_id: photo.album_id, original_key: photo.original_key },
+      }))
+    )
+
     // 4. 更新相册封面（如果封面照片被删除）
     const albumsToUpdateCover = Array.from(albumsMap.values())
       .filter(album => album.cover_photo_id && validPhotoIds.includes(album.cover_photo_id))
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasAlbumsPermission } from '@/lib/auth/album-access'
 import { processPhotoSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 import { getInternalApiUrl } from '@/lib/utils'
@@ -40,10 +40,10 @@ export async function POST(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能处理照片')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能执行此操作')
     }
 
     // 解析和验证请求体
@@ -62,6 +62,10 @@ export async function POST(request: NextRequest) {
 
     const { photoId, albumId, originalKey, isRetouch } = validation.data
 
+    if (!(await hasAlbumsPermission(staff, [albumId], 'edit'))) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
     // 使用代理路由调用 Worker API 触发处理
     // 代理路由会自动处理 Worker URL 配置和认证
     const proxyUrl = getInternalApiUrl('/api/worker/process')
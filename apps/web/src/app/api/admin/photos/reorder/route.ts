@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasAlbumsPermission } from '@/lib/auth/album-access'
 import { reorderPhotosSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
@@ -53,11 +53,10 @@ export async function PATCH(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能执行此操作')
     }
 
     // 解析和验证请求体
@@ -76,6 +75,10 @@ export async function PATCH(request: NextRequest) {
 
     const { albumId, orders } = validation.data
 
+    if (!(await hasAlbumsPermission(staff, [albumId], 'edit'))) {
+      return ApiError.forbidden('无权编辑该相册')
+    }
+
     // 验证相册存在
     const albumResult = await db
       .from('albums')
@@ -496,6 +496,49 @@ describe('POST /api/admin/photos/reprocess', () => {
       expect(fetchCall[0]).toContain('/api/worker/process')
     })
 
+    it('should only reprocess photos without derivatives when missingDerivativesOnly is set', async () => {
+      const albumId = '11111111-1111-1111-1111-111111111111'
+      const mockPhotos = [
+        {
+          id: '22222222-2222-2222-2222-222222222222',
+          album_id: albumId,
+          original_key: `raw/${albumId}/22222222-2222-2222-2222-222222222222.jpg`,
+          status: 'completed',
+          derivatives: null,
+        },
+        {
+          id: '33333333-3333-3333-3333-333333333333',
+          album_id: albumId,
+          original_key: `raw/${albumId}/33333333-3333-3333-3333-333333333333.jpg`,
+          status: 'completed',
+          derivatives: { jpeg: [{ width: 400, height: 300, key: 'processed/derivatives/a/b/400.jpg' }] },
+        },
+      ]
+
+      const finalQueryResult = createQueryResult(mockPhotos, null)
+      const mockNot = vi.fn().mockReturnValue({
+        is: vi.fn().mockReturnValue(finalQueryResult),
+      })
+      mockSupabaseClient.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnValue({
+          in: vi.fn().mockReturnValue({ not: mockNot }),
+        }),
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/admin/photos/reprocess', {
+        method: 'POST',
+        body: { albumId, missingDerivativesOnly: true },
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.total).toBe(1)
+      expect(mockSupabaseClient.update).toHaveBeenCalledTimes(1)
+      expect(mockSupabaseClient.update).toHaveBeenCalledWith('photos', { status: 'pending' }, { id: '22222222-2222-2222-2222-222222222222' })
+    })
+
     it('should handle batch processing with concurrency limit', async () => {
       // 创建 25 张照片（超过 batchSize=10）
       const mockPhotos = Array.from({ length: 25 }, (_, i) => ({
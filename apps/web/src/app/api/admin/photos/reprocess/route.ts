@@ -1,9 +1,12 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasAlbumsPermission, hasPhotosPermission } from '@/lib/auth/album-access'
 import { reprocessPhotoSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 import { getInternalApiUrl } from '@/lib/utils'
+import { listDerivativeKeys } from '@/lib/image-derivatives'
+import { recordAuditLog } from '@/lib/audit-log'
+import type { DerivativeSet } from '@/types/database'
 
 /**
  * 批量重新生成预览图 API
@@ -12,6 +15,7 @@ import { getInternalApiUrl } from '@/lib/utils'
  * 用途：
  * - 当预览图标准修改后，重新生成已上传照片的预览图
  * - 确保所有照片都使用最新的预览图标准
+ * - missingDerivativesOnly 为 true 时只处理尚未生成响应式衍生图的照片（回填旧相册）
  */
 export async function POST(request: NextRequest) {
   try {
@@ -24,11 +28,10 @@ export async function POST(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能执行此操作')
     }
 
     // 解析和验证请求体
@@ -45,13 +48,23 @@ export async function POST(request: NextRequest) {
       return handleError(validation.error, '输入验证失败')
     }
 
-    const { photoIds, albumId } = validation.data
+    const { photoIds, albumId, missingDerivativesOnly } = validation.data
+
+    // 非管理员必须指定有编辑权限的相册或照片（不能重新处理全部照片）
+    if (staff.role !== 'admin') {
+      const allowed = albumId
+        ? await hasAlbumsPermission(staff, [albumId], 'edit')
+        : !!photoIds?.length && (await hasPhotosPermission(staff, photoIds, 'edit'))
+      if (!allowed) {
+        return ApiError.forbidden('无权重新处理这些照片')
+      }
+    }
 
     // 构建查询：获取需要重新处理的照片（排除已删除的）
     // 支持处理 completed 和 failed 状态的照片
     let query = db
       .from('photos')
-      .select('id, album_id, original_key, status')
+      .select('id, album_id, original_key, status, derivatives')
       .in('status', ['completed', 'failed']) // 支持处理已完成和失败状态的照片
       .not('original_key', 'is', null) // 必须有原图
       .is('deleted_at', null) // 排除已删除的照片
@@ -72,12 +85,16 @@ export async function POST(request: NextRequest) {
       return handleError(result.error, '查询照片失败')
     }
 
-    const photos = result.data as Array<{
+    const allPhotos = result.data as Array<{
       id: string
       album_id: string
       original_key: string
       status: string
+      derivatives?: DerivativeSet | null
     }>
+    const photos = missingDerivativesOnly
+      ? allPhotos?.filter((photo) => listDerivativeKeys(photo.derivatives).length === 0)
+      : allPhotos
 
     if (!photos || photos.length === 0) {
       return createSuccessResponse({
@@ -148,6 +165,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // 按相册重新处理时记录在相册上，否则记录在照片上（多张照片时 ID 列表见 metadata）
+    await recordAuditLog(request, staff, {
+      action: 'photo.reprocess',
+      targetType: albumId ? 'album' : 'photo',
+      targetId: albumId || (photos.length === 1 ? photos[0].id : null),
+      metadata: {
+        photo_ids: albumId || photos.length === 1 ? undefined : photos.map((photo) => photo.id),
+        queued: queuedCount,
+        failed: failedCount,
+        missing_derivatives_only: missingDerivativesOnly || undefined,
+      },
+    })
+
     return createSuccessResponse({
       success: true,
       message: `已排队 ${queuedCount} 张照片重新处理`,
@@ -1,9 +1,12 @@
 import { NextRequest } from 'next/server'
 import { revalidatePath } from 'next/cache'
 import { createAdminClient } from '@/lib/database'
-import { requireAdmin } from '@/lib/auth/role-helpers'
+import { requireAlbumStaff, hasPhotosPermission } from '@/lib/auth/album-access'
+import { recordAuditLog } from '@/lib/audit-log'
+import { publishPhotoEvents } from '@/lib/photo-events'
 import { restoreSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { Photo } from '@/types/database'
 
 /**
  * 恢复已删除的照片
@@ -25,11 +28,10 @@ export async function POST(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
-
-    if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+    // 再检查用户是否可以进入相册管理（管理员或摄影师）
+    const staff = await requireAlbumStaff(request)
+    if (!staff) {
+      return ApiError.forbidden('需要管理员或摄影师权限才能执行此操作')
     }
 
     // 解析和验证请求体
@@ -48,10 +50,14 @@ export async function POST(request: NextRequest) {
 
     const { photoIds } = validation.data
 
+    if (!(await hasPhotosPermission(staff, photoIds, 'edit'))) {
+      return ApiError.forbidden('无权恢复选中的部分照片')
+    }
+
     // 验证照片存在且已删除
     const deletedPhotosResult = await adminClient
-      .from<{ id: string; album_id: string; deleted_at: string | null }>('photos')
-      .select('id, album_id, deleted_at')
+      .from<{ id: string; album_id: string; status: Photo['status']; deleted_at: string | null }>('photos')
+      .select('id, album_id, status, deleted_at')
       .in('id', photoIds)
       .not('deleted_at', 'is', null)
 
@@ -75,6 +81,23 @@ export async function POST(request: NextRequest) {
       return ApiError.internal(`数据库更新失败: ${restoreResult.error.message}`)
     }
 
+    await recordAuditLog(
+      request,
+      staff,
+      deletedPhotos.map((photo) => ({
+        action: 'photo.restore' as const,
+        targetType: 'photo' as const,
+        targetId: photo.id,
+        changes: { deleted_at: { before: photo.deleted_at, after: null } },
+        metadata: { album_id: photo.album_id },
+      }))
+    )
+
+    // 通知正在查看相册的访客和管理端（已完成的照片重新对访客可见）
+    for (const photo of deletedPhotos) {
+      await publishPhotoEvents(photo.album_id, [photo.id], photo.status === 'completed' ? 'insert' : 'update', photo.status)
+    }
+
     // 更新相册照片计数（重新统计 completed 状态且未删除的照片）
     interface PhotoWithAlbumId {
       album_id: string
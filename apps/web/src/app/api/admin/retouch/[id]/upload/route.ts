@@ -2,14 +2,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/database'
 import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
-import { uploadPhotoSchema } from '@/lib/validation/schemas'
+import { uploadPhotoVersionSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
 import { getInternalApiUrl } from '@/lib/utils'
+import { createPhotoVersion, type VersionedPhoto } from '@/lib/photo-versions'
 
 interface RouteParams {
   params: Promise<{ id: string }> // photoId
 }
 
+/**
+ * 精修图上传 API
+ *
+ * @route POST /api/admin/retouch/[id]/upload
+ * @description 为照片创建新的精修版本并返回上传地址，原图及历史版本均保留
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @body {string} filename - 文件名
+ * @body {string} contentType - 文件 MIME 类型
+ * @body {number} [fileSize] - 文件大小
+ * @body {string} [hash] - 文件哈希
+ * @body {string} [source] - 版本来源：retouch（人工精修，默认）或 ai_retouch
+ *
+ * @returns {Object} 200 - { uploadUrl, key, versionId, photoId, albumId }
+ *
+ * @note 上传完成后需调用 POST /api/admin/photos/[id]/versions/[versionId]/activate 使新版本生效
+ */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   const paramsData = await params
   const photoId = paramsData.id
@@ -24,13 +43,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   const adminClient = await createAdminClient()
   const { data: photoData, error } = await adminClient
     .from('photos')
-    .select('id, album_id, filename')
+    .select('id, album_id, original_key, file_size, mime_type, hash, current_version_id')
     .eq('id', photoId)
     .single()
     
   if (error || !photoData) return ApiError.notFound('照片不存在')
   
-  const photo = photoData as { id: string; album_id: string; filename: string }
+  const photo = photoData as VersionedPhoto
   
   // 3. 解析请求体
   let body: unknown
@@ -40,26 +59,30 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return handleError(new Error('Format Error'), 'Invalid JSON')
   }
   
-  const validation = safeValidate(uploadPhotoSchema, body)
+  const validation = safeValidate(uploadPhotoVersionSchema, body)
   if (!validation.success) return handleError(validation.error, 'Invalid Input')
   
-  const { filename, contentType, fileSize, hash } = validation.data
+  const { filename, contentType, fileSize, hash, source } = validation.data
   
   // 4. 生成新路径 (retouched/...)
   const ext = filename.split('.').pop()?.toLowerCase() || 'jpg'
   const newKey = `retouched/${photo.album_id}/${photo.id}_${Date.now()}.${ext}`
   
-  // 5. 更新数据库
-  const { error: updateError } = await adminClient.update('photos', {
-      original_key: newKey,
-      status: 'pending', // 触发 Worker
-      file_size: fileSize,
-      mime_type: contentType,
-      hash: hash,
-      retoucher_id: user.id, // 记录修图师
-    }, { id: photoId })
-    
-  if (updateError) return ApiError.internal(updateError.message)
+  // 5. 记录新版本（原图保留为 v1，上传完成后通过 activate 接口切换为当前版本）
+  let versionId: string
+  try {
+    const version = await createPhotoVersion(photo, {
+      source,
+      storageKey: newKey,
+      fileSize,
+      mimeType: contentType,
+      hash,
+      createdBy: user.id,
+    })
+    versionId = version.id
+  } catch (err) {
+    return ApiError.internal(err instanceof Error ? err.message : '创建照片版本失败')
+  }
   
   // 6. 获取 presigned URL
   try {
@@ -82,6 +105,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({ 
       uploadUrl, 
       key: newKey,
+      versionId,
       photoId: photo.id,
       albumId: photo.album_id
     })
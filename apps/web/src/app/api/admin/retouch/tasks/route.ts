@@ -3,6 +3,18 @@ import { createClient } from '@/lib/database'
 import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
 import { ApiError, handleError, createSuccessResponse } from '@/lib/validation/error-handler'
 
+/**
+ * 修图任务列表 API
+ *
+ * @route GET /api/admin/retouch/tasks
+ * @description 获取待修图照片，或最近已精修的照片（用于对比和回退）
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @query {string} [view] - pending（待修图，默认）或 retouched（已精修）
+ *
+ * @returns {Object} 200 - 任务列表
+ */
 export async function GET(request: NextRequest) {
   try {
     // 检查用户角色：只允许管理员或修图师访问
@@ -13,13 +25,23 @@ export async function GET(request: NextRequest) {
 
     const db = await createClient()
     
-    // 获取待修图的照片
-    const { data: photos, error } = await db
+    const view = request.nextUrl.searchParams.get('view') === 'retouched' ? 'retouched' : 'pending'
+
+    // 获取待修图的照片，或已有精修版本的照片
+    const query = db
       .from('photos')
-      .select('id, filename, original_key, status, created_at, album_id')
-      .in('status', ['pending_retouch', 'retouching'])
-      .order('created_at', { ascending: false })
-      .limit(100)
+      .select('id, filename, original_key, thumb_key, preview_key, status, created_at, updated_at, album_id')
+      .is('deleted_at', null)
+
+    const { data: photos, error } = view === 'retouched'
+      ? await query
+          .not('retoucher_id', 'is', null)
+          .order('updated_at', { ascending: false })
+          .limit(100)
+      : await query
+          .in('status', ['pending_retouch', 'retouching'])
+          .order('created_at', { ascending: false })
+          .limit(100)
 
     if (error) {
       console.error('Database error fetching retouch tasks:', error)
@@ -49,13 +71,26 @@ export async function GET(request: NextRequest) {
 
     // 合并照片和相册信息
     const tasks = photos.map((photo) => {
-      const typedPhoto = photo as { id: string; filename: string; original_key: string; status: string; created_at: string; album_id: string }
+      const typedPhoto = photo as {
+        id: string
+        filename: string
+        original_key: string
+        thumb_key: string | null
+        preview_key: string | null
+        status: string
+        created_at: string
+        updated_at: string
+        album_id: string
+      }
       return {
         id: typedPhoto.id,
         filename: typedPhoto.filename,
         original_key: typedPhoto.original_key,
+        thumb_key: typedPhoto.thumb_key,
+        preview_key: typedPhoto.preview_key,
         status: typedPhoto.status,
         created_at: typedPhoto.created_at,
+        updated_at: typedPhoto.updated_at,
         albums: albumsMap.get(typedPhoto.album_id) || { id: typedPhoto.album_id, title: '未知相册' },
       }
     })
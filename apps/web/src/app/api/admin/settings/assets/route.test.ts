@@ -0,0 +1,64 @@
+/** @vitest-environment node */
+/**
+ * 品牌图片上传 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from './route'
+
+// Mock dependencies
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireAdmin: vi.fn(),
+}))
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+function upload(type: string, file?: File) {
+  const formData = new FormData()
+  formData.append('type', type)
+  if (file) formData.append('file', file)
+  return new NextRequest('http://localhost:3000/api/admin/settings/assets', { method: 'POST', body: formData })
+}
+
+describe('POST /api/admin/settings/assets', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireAdmin).mockResolvedValue({ id: 'admin-1', email: 'admin@example.com' } as never)
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ success: true }) })
+  })
+
+  it('should return 403 for non-admin users', async () => {
+    const { requireAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireAdmin).mockResolvedValue(null)
+
+    const response = await POST(upload('logo', new File(['png'], 'logo.png', { type: 'image/png' })))
+
+    expect(response.status).toBe(403)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject svg files', async () => {
+    const response = await POST(upload('logo', new File(['<svg/>'], 'logo.svg', { type: 'image/svg+xml' })))
+
+    expect(response.status).toBe(400)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should upload the image to storage through the worker', async () => {
+    const response = await POST(upload('favicon', new File(['ico'], 'favicon.ico', { type: 'image/x-icon' })))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.key).toMatch(/^branding\/favicon-\d+\.ico$/)
+    expect(data.data.url).toMatch(/\/branding\/favicon-\d+\.ico$/)
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining(`/api/upload?key=${encodeURIComponent(data.data.key)}`),
+      expect.objectContaining({ method: 'PUT' })
+    )
+  })
+})
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { settingsAssetTypeSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+/** 品牌图片大小上限：2MB */
+const MAX_ASSET_SIZE = 2 * 1024 * 1024
+
+/**
+ * 允许的图片类型及扩展名
+ *
+ * @description 不接受 SVG：/media 与站点同源，SVG 中的脚本可能被直接打开执行
+ */
+const ASSET_MIME_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+}
+
+/**
+ * 品牌图片上传 API
+ *
+ * @route POST /api/admin/settings/assets
+ * @description 上传 Logo 或 Favicon 到对象存储，返回可直接填入设置的访问地址。
+ * 上传只保存文件，需再调用 PATCH /api/admin/settings 保存地址后才会生效
+ *
+ * @auth 需要管理员权限
+ *
+ * @body {File} file - 图片文件（PNG / JPEG / WebP / ICO，最大 2MB），multipart/form-data
+ * @body {string} type - 图片用途：logo 或 favicon
+ *
+ * @returns {Object} 200 - { key, url }
+ * @returns {Object} 400 - 缺少文件、类型不支持或文件过大
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 上传到存储失败
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能上传品牌图片')
+    }
+
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch {
+      return ApiError.badRequest('请使用 multipart/form-data 上传文件')
+    }
+
+    const typeValidation = safeValidate(settingsAssetTypeSchema, formData.get('type'))
+    if (!typeValidation.success) {
+      return handleError(typeValidation.error, '输入验证失败')
+    }
+
+    const file = formData.get('file')
+    if (!(file instanceof File) || file.size === 0) {
+      return ApiError.badRequest('请选择要上传的图片')
+    }
+
+    const ext = ASSET_MIME_TYPES[file.type]
+    if (!ext) {
+      return ApiError.badRequest('只支持 PNG、JPEG、WebP 或 ICO 格式的图片')
+    }
+
+    if (file.size > MAX_ASSET_SIZE) {
+      return ApiError.badRequest('图片不能超过 2MB')
+    }
+
+    // 每次上传使用新文件名，避免浏览器和 CDN 缓存旧图片
+    const key = `branding/${typeValidation.data}-${Date.now()}.${ext}`
+
+    const workerUrl =
+      process.env.WORKER_API_URL ||
+      process.env.NEXT_PUBLIC_WORKER_URL ||
+      'http://localhost:3001'
+    const headers: HeadersInit = { 'Content-Type': file.type }
+    const workerApiKey = process.env.WORKER_API_KEY
+    if (workerApiKey) {
+      headers['X-API-Key'] = workerApiKey
+    }
+
+    const workerResponse = await fetch(`${workerUrl}/api/upload?key=${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers,
+      body: Buffer.from(await file.arrayBuffer()),
+    })
+
+    if (!workerResponse.ok) {
+      console.error('[Settings] Branding asset upload failed:', workerResponse.status, await workerResponse.text())
+      return ApiError.internal(`上传失败: ${workerResponse.status}`)
+    }
+
+    const mediaUrl = (process.env.NEXT_PUBLIC_MEDIA_URL || '/media').replace(/\/$/, '')
+    return createSuccessResponse({ key, url: `${mediaUrl}/${key}` })
+  } catch (error) {
+    return handleError(error, '上传品牌图片失败')
+  }
+}
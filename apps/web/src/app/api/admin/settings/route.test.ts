@@ -0,0 +1,106 @@
+/**
+ * 系统设置 API 路由测试
+ *
+ * 测试 GET 和 PATCH 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET, PATCH } from './route'
+import { createMockRequest } from '@/test/test-utils'
+import { DEFAULT_SYSTEM_SETTINGS } from '@/lib/system-settings-defaults'
+
+// Mock dependencies
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireAdmin: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audit-log')>()),
+  recordAuditLog: vi.fn(),
+}))
+
+vi.mock('@/lib/system-settings', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/system-settings')>()),
+  getSystemSettings: vi.fn(),
+  updateSystemSettings: vi.fn(),
+}))
+
+const admin = { id: 'admin-1', email: 'admin@example.com' }
+
+function patch(body: unknown) {
+  return createMockRequest('http://localhost:3000/api/admin/settings', { method: 'PATCH', body })
+}
+
+describe('/api/admin/settings', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireAdmin).mockResolvedValue(admin as never)
+    const { getSystemSettings } = await import('@/lib/system-settings')
+    vi.mocked(getSystemSettings).mockResolvedValue(DEFAULT_SYSTEM_SETTINGS)
+  })
+
+  describe('GET', () => {
+    it('should return 403 for non-admin users', async () => {
+      const { requireAdmin } = await import('@/lib/auth/role-helpers')
+      vi.mocked(requireAdmin).mockResolvedValue(null)
+
+      const response = await GET(createMockRequest('http://localhost:3000/api/admin/settings'))
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should return all settings', async () => {
+      const response = await GET(createMockRequest('http://localhost:3000/api/admin/settings'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data).toEqual(DEFAULT_SYSTEM_SETTINGS)
+    })
+  })
+
+  describe('PATCH', () => {
+    it('should reject unknown fields and invalid logo urls', async () => {
+      const { updateSystemSettings } = await import('@/lib/system-settings')
+
+      const unknown = await PATCH(patch({ branding: { theme: 'dark' } }))
+      expect(unknown.status).toBe(400)
+
+      const script = await PATCH(patch({ branding: { logo_url: 'javascript:alert(1)' } }))
+      expect(script.status).toBe(400)
+
+      expect(updateSystemSettings).not.toHaveBeenCalled()
+    })
+
+    it('should save settings and audit only changed fields', async () => {
+      const { updateSystemSettings } = await import('@/lib/system-settings')
+      const updated = {
+        ...DEFAULT_SYSTEM_SETTINGS,
+        branding: { ...DEFAULT_SYSTEM_SETTINGS.branding, icp_number: '京ICP备12345678号' },
+      }
+      vi.mocked(updateSystemSettings).mockResolvedValue(updated)
+
+      const request = patch({
+        branding: { icp_number: ' 京ICP备12345678号 ', studio_name: DEFAULT_SYSTEM_SETTINGS.branding.studio_name },
+      })
+      const response = await PATCH(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.branding.icp_number).toBe('京ICP备12345678号')
+      expect(updateSystemSettings).toHaveBeenCalledWith(
+        { branding: { icp_number: '京ICP备12345678号', studio_name: DEFAULT_SYSTEM_SETTINGS.branding.studio_name } },
+        'admin-1'
+      )
+
+      const { recordAuditLog } = await import('@/lib/audit-log')
+      expect(recordAuditLog).toHaveBeenCalledWith(request, admin, {
+        action: 'system.settings_update',
+        targetType: 'system',
+        changes: {
+          'branding.icp_number': { before: DEFAULT_SYSTEM_SETTINGS.branding.icp_number, after: '京ICP备12345678号' },
+        },
+      })
+    })
+  })
+})
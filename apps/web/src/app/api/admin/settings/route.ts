@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { getSystemSettings, updateSystemSettings, flattenSystemSettings } from '@/lib/system-settings'
+import { updateSystemSettingsSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 系统设置 API
+ *
+ * @route GET /api/admin/settings
+ * @route PATCH /api/admin/settings
+ * @description 品牌、相册默认选项和功能开关的读取与修改
+ */
+
+/**
+ * 获取系统设置
+ *
+ * @route GET /api/admin/settings
+ * @description 返回全部设置，数据库中未保存的设置项为默认值
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - { branding, album_defaults, features, storage }
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能查看系统设置')
+    }
+
+    const settings = await getSystemSettings()
+    return createSuccessResponse(settings)
+  } catch (error) {
+    return handleError(error, '获取系统设置失败')
+  }
+}
+
+/**
+ * 更新系统设置
+ *
+ * @route PATCH /api/admin/settings
+ * @description 按分类提交需要修改的字段，未提交的字段保持不变。保存后缓存立即失效，
+ * 页脚、Logo、Favicon 等无需重新部署即可更新
+ *
+ * @auth 需要管理员权限
+ *
+ * @body {Object} [branding] - 品牌设置（studio_name、tagline、logo_url、favicon_url、copyright_text、icp_number、police_number）
+ * @body {Object} [album_defaults] - 新建相册默认选项（is_public、layout、sort_rule、allow_download、allow_batch_download、show_exif、watermark_enabled）
+ * @body {Object} [features] - 功能开关（home_gallery、face_search、analytics）
+ * @body {Object} [storage] - 存储配额（album_quota_gb、user_quota_gb，单位 GB，0 表示不限制；warning_percent 提醒阈值）
+ *
+ * @returns {Object} 200 - 更新后的全部设置
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能修改系统设置')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updateSystemSettingsSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const before = await getSystemSettings()
+    const settings = await updateSystemSettings(validation.data, admin.id)
+
+    const changes = diffAuditChanges(flattenSystemSettings(before), flattenSystemSettings(validation.data))
+    if (changes) {
+      await recordAuditLog(request, admin, {
+        action: 'system.settings_update',
+        targetType: 'system',
+        changes,
+      })
+    }
+
+    return createSuccessResponse(settings)
+  } catch (error) {
+    return handleError(error, '更新系统设置失败')
+  }
+}
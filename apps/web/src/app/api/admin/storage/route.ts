@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { getStorageReport } from '@/lib/storage-usage'
+import { handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 存储用量 API
+ *
+ * @route GET /api/admin/storage
+ * @description 按相册和用户（相册所有者）汇总数据库记录的存储用量：原图（含历史版本）、
+ * 缩略图、预览图（含视频预览和衍生图）、打包下载，并附带配额使用情况
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - { settings, usage, total, photo_count, albums, owners }
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能查看存储用量')
+    }
+
+    const report = await getStorageReport()
+    return createSuccessResponse(report)
+  } catch (error) {
+    return handleError(error, '查询存储用量失败')
+  }
+}
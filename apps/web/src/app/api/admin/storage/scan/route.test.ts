@@ -0,0 +1,73 @@
+/**
+ * 磁盘用量扫描 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireAdmin: vi.fn(),
+}))
+
+const admin = { id: 'admin-1', email: 'admin@example.com' }
+const url = 'http://localhost:3000/api/admin/storage/scan'
+
+const summary = {
+  success: true,
+  totalBytes: 3115,
+  totalObjects: 5,
+  categories: { originals: { bytes: 1000, count: 1 } },
+  albums: { a1: { bytes: 1110, count: 3 } },
+  scannedAt: '2026-06-01T00:00:00.000Z',
+  durationMs: 12,
+}
+
+describe('/api/admin/storage/scan', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireAdmin).mockResolvedValue(admin as never)
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => summary })
+  })
+
+  it('should return 403 for non-admin users', async () => {
+    const { requireAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireAdmin).mockResolvedValue(null)
+
+    const response = await POST(createMockRequest(url, { method: 'POST' }))
+
+    expect(response.status).toBe(403)
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('should return the worker scan summary', async () => {
+    const response = await POST(
+      createMockRequest(url, { method: 'POST', headers: { cookie: 'session=abc' } })
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.totalBytes).toBe(3115)
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/worker/storage/usage'),
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ cookie: 'session=abc' }),
+      })
+    )
+  })
+
+  it('should return 502 when the worker scan fails', async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, json: async () => ({ error: 'listObjects failed' }) })
+
+    const response = await POST(createMockRequest(url, { method: 'POST' }))
+    const data = await response.json()
+
+    expect(response.status).toBe(502)
+    expect(data.error.details).toBe('listObjects failed')
+  })
+})
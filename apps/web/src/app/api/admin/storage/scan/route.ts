@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { scanDiskUsage } from '@/lib/storage-usage'
+import {
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+
+/**
+ * 扫描实例磁盘用量
+ *
+ * @route POST /api/admin/storage/scan
+ * @description 由 Worker 遍历存储桶全部对象（StorageAdapter.listObjects），按分类
+ * （原图、缩略图、预览图、打包下载、归档、其他）和相册汇总实际占用的空间。
+ * 对象较多时耗时较长，只在管理员手动触发时执行
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - { totalBytes, totalObjects, categories, albums, scannedAt, durationMs }
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 502 - Worker 不可用或扫描失败
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能扫描存储')
+    }
+
+    try {
+      const summary = await scanDiskUsage(request.headers.get('cookie'))
+      return createSuccessResponse(summary)
+    } catch (scanError) {
+      console.error('[Storage] Disk usage scan failed:', scanError)
+      return createErrorResponse(
+        ErrorCode.INTERNAL_ERROR,
+        '存储扫描失败，请检查 Worker 服务后重试',
+        scanError instanceof Error ? scanError.message : undefined,
+        502
+      )
+    }
+  } catch (error) {
+    return handleError(error, '扫描存储失败')
+  }
+}
@@ -0,0 +1,183 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { stylePresetIdSchema, updateStylePresetSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { CustomStylePreset, CustomStylePresetUpdate, StyleLut } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 单个自定义风格预设管理 API
+ *
+ * @route PATCH /api/admin/style-presets/[id]
+ * @route DELETE /api/admin/style-presets/[id]
+ * @description 自定义风格预设更新和删除接口（内置预设不可修改）
+ */
+
+/**
+ * 更新自定义风格预设
+ *
+ * @route PATCH /api/admin/style-presets/[id]
+ * @description 修改名称、分类、描述、调色参数或 LUT。
+ * 已处理的照片不会自动更新，需要在相册中重新处理
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @param {string} id - 预设ID（UUID格式）
+ *
+ * @body {Object} requestBody - 要更新的字段（同创建接口，均为可选）
+ *
+ * @returns {Object} 200 - 更新成功，返回更新后的预设
+ * @returns {Object} 400 - 请求参数错误（验证失败）
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 404 - 预设或 LUT 不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireRetoucherOrAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员或修图师权限才能管理风格预设')
+    }
+
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(stylePresetIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的预设ID')
+    }
+
+    const { id } = idValidation.data
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updateStylePresetSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const db = await createAdminClient()
+    const existing = await db
+      .from<CustomStylePreset>('style_presets')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!existing.data) {
+      return ApiError.notFound('风格预设不存在')
+    }
+
+    const fields = validation.data
+    if (fields.lut_id) {
+      const lutResult = await db.from<StyleLut>('style_luts').select('id').eq('id', fields.lut_id).maybeSingle()
+      if (!lutResult.data) {
+        return ApiError.notFound('LUT 不存在')
+      }
+    }
+
+    const updateData: CustomStylePresetUpdate = {}
+    if (fields.name !== undefined) updateData.name = fields.name
+    if (fields.category !== undefined) updateData.category = fields.category
+    if (fields.description !== undefined) updateData.description = fields.description
+    if (fields.config !== undefined) updateData.config = fields.config
+    if (fields.lut_id !== undefined) updateData.lut_id = fields.lut_id
+
+    if (Object.keys(updateData).length === 0) {
+      return createSuccessResponse(existing.data)
+    }
+
+    const changes = diffAuditChanges(existing.data, { ...updateData })
+
+    const result = await db.update<CustomStylePreset>('style_presets', updateData, { id })
+    if (result.error) {
+      return handleError(result.error, '更新风格预设失败')
+    }
+
+    if (changes) {
+      await recordAuditLog(request, admin, {
+        action: 'style_preset.update',
+        targetType: 'style_preset',
+        targetId: id,
+        changes,
+      })
+    }
+
+    // 返回数据库中的记录，updated_at 用于刷新风格选择器中的预览图
+    return createSuccessResponse(result.data?.[0] ?? { ...existing.data, ...updateData })
+  } catch (error) {
+    return handleError(error, '更新风格预设失败')
+  }
+}
+
+/**
+ * 删除自定义风格预设
+ *
+ * @route DELETE /api/admin/style-presets/[id]
+ * @description 删除预设。仍选用该预设的相册之后处理的照片将不再应用风格，已处理的照片不受影响
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @param {string} id - 预设ID（UUID格式）
+ *
+ * @returns {Object} 200 - 删除成功
+ * @returns {Object} 400 - 无效的预设ID
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 404 - 预设不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireRetoucherOrAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员或修图师权限才能管理风格预设')
+    }
+
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(stylePresetIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的预设ID')
+    }
+
+    const { id } = idValidation.data
+    const db = await createAdminClient()
+
+    const existing = await db
+      .from<Pick<CustomStylePreset, 'id' | 'name'>>('style_presets')
+      .select('id, name')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!existing.data) {
+      return ApiError.notFound('风格预设不存在')
+    }
+
+    const result = await db.delete('style_presets', { id })
+    if (result.error) {
+      return handleError(result.error, '删除风格预设失败')
+    }
+
+    await recordAuditLog(request, admin, {
+      action: 'style_preset.delete',
+      targetType: 'style_preset',
+      targetId: id,
+      metadata: { name: existing.data.name },
+    })
+
+    return createSuccessResponse({ success: true })
+  } catch (error) {
+    return handleError(error, '删除风格预设失败')
+  }
+}
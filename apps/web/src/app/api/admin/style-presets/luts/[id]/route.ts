@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog } from '@/lib/audit-log'
+import { deleteStyleLutFile } from '@/lib/custom-style-presets'
+import { stylePresetIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { StyleLut } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 删除 LUT
+ *
+ * @route DELETE /api/admin/style-presets/luts/[id]
+ * @description 删除 LUT 记录和存储中的文件，引用它的自定义预设保留其余调色参数（lut_id 置空）
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @param {string} id - LUT ID（UUID格式）
+ *
+ * @returns {Object} 200 - 删除成功
+ * @returns {Object} 400 - 无效的 LUT ID
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 404 - LUT 不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireRetoucherOrAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员或修图师权限才能管理风格预设')
+    }
+
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(stylePresetIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的 LUT ID')
+    }
+
+    const { id } = idValidation.data
+    const db = await createAdminClient()
+
+    const existing = await db
+      .from<Pick<StyleLut, 'id' | 'name' | 'storage_key'>>('style_luts')
+      .select('id, name, storage_key')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!existing.data) {
+      return ApiError.notFound('LUT 不存在')
+    }
+
+    const result = await db.delete('style_luts', { id })
+    if (result.error) {
+      return handleError(result.error, '删除 LUT 失败')
+    }
+
+    await deleteStyleLutFile(existing.data.storage_key)
+
+    await recordAuditLog(request, admin, {
+      action: 'style_preset.lut_delete',
+      targetType: 'style_preset',
+      targetId: id,
+      metadata: { name: existing.data.name },
+    })
+
+    return createSuccessResponse({ success: true })
+  } catch (error) {
+    return handleError(error, '删除 LUT 失败')
+  }
+}
@@ -0,0 +1,133 @@
+/** @vitest-environment node */
+/**
+ * LUT 管理 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from './route'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+      insert: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireRetoucherOrAdmin: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', () => ({
+  recordAuditLog: vi.fn(),
+}))
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+/**
+ * 生成 2³ 恒等 LUT
+ */
+function identityCube(title = 'Studio Warm'): string {
+  const lines = [`TITLE "${title}"`, 'LUT_3D_SIZE 2']
+  for (let b = 0; b < 2; b++) {
+    for (let g = 0; g < 2; g++) {
+      for (let r = 0; r < 2; r++) {
+        lines.push(`${r} ${g} ${b}`)
+      }
+    }
+  }
+  return lines.join('\n')
+}
+
+function upload(file?: File, name?: string) {
+  const formData = new FormData()
+  if (file) formData.append('file', file)
+  if (name) formData.append('name', name)
+  return new NextRequest('http://localhost:3000/api/admin/style-presets/luts', { method: 'POST', body: formData })
+}
+
+describe('POST /api/admin/style-presets/luts', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireRetoucherOrAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireRetoucherOrAdmin).mockResolvedValue({ id: 'retoucher-1', email: 'r@example.com' } as never)
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ success: true }) })
+    mockAdminClient.insert.mockImplementation(async (_table: string, row: Record<string, unknown>) => ({
+      data: [{ ...row, created_at: '2026-01-01T00:00:00Z' }],
+      error: null,
+    }))
+  })
+
+  it('should return 403 for users without retouch permission', async () => {
+    const { requireRetoucherOrAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireRetoucherOrAdmin).mockResolvedValue(null)
+
+    const response = await POST(upload(new File([identityCube()], 'warm.cube')))
+
+    expect(response.status).toBe(403)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject files that are not .cube', async () => {
+    const response = await POST(upload(new File([identityCube()], 'warm.3dl')))
+
+    expect(response.status).toBe(400)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject malformed LUTs before uploading', async () => {
+    const truncated = identityCube().split('\n').slice(0, -1).join('\n')
+
+    const response = await POST(upload(new File([truncated], 'warm.cube')))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error.message).toContain('数据行数应为 8')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should upload the LUT through the worker and record it', async () => {
+    const file = new File([identityCube()], 'warm.cube')
+
+    const response = await POST(upload(file))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data).toMatchObject({ name: 'Studio Warm', lut_size: 2, file_size: file.size })
+    expect(data.data.storage_key).toBe(`style-luts/${data.data.id}.cube`)
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining(`/api/upload?key=${encodeURIComponent(data.data.storage_key)}`),
+      expect.objectContaining({ method: 'PUT' })
+    )
+    expect(mockAdminClient.insert).toHaveBeenCalledWith(
+      'style_luts',
+      expect.objectContaining({ created_by: 'retoucher-1' })
+    )
+  })
+
+  it('should prefer the provided name', async () => {
+    const response = await POST(upload(new File([identityCube()], 'warm.cube'), '客片暖调'))
+    const data = await response.json()
+
+    expect(data.data.name).toBe('客片暖调')
+  })
+
+  it('should not record the LUT when the worker upload fails', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500 })
+
+    const response = await POST(upload(new File([identityCube()], 'warm.cube')))
+
+    expect(response.status).toBe(500)
+    expect(mockAdminClient.insert).not.toHaveBeenCalled()
+  })
+})
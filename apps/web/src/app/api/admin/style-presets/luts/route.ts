@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto'
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog } from '@/lib/audit-log'
+import { MAX_LUT_FILE_SIZE, inspectCubeLut, uploadStyleLut } from '@/lib/custom-style-presets'
+import { handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { StyleLut } from '@/types/database'
+
+/**
+ * 3D LUT 管理 API
+ *
+ * @route GET /api/admin/style-presets/luts
+ * @route POST /api/admin/style-presets/luts
+ * @description 自定义风格预设可引用的 .cube 文件列表和上传接口
+ */
+
+/**
+ * 获取 LUT 列表
+ *
+ * @route GET /api/admin/style-presets/luts
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @returns {Object} 200 - 成功返回 LUT 列表（最新上传的在前）
+ * @returns {Object[]} 200.data.luts - LUT 数组
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireRetoucherOrAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员或修图师权限才能管理风格预设')
+    }
+
+    const db = await createAdminClient()
+    const result = await db
+      .from<StyleLut>('style_luts')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (result.error) {
+      return handleError(result.error, '查询 LUT 列表失败')
+    }
+
+    return createSuccessResponse({ luts: result.data || [] })
+  } catch (error) {
+    return handleError(error, '查询 LUT 列表失败')
+  }
+}
+
+/**
+ * 上传 LUT
+ *
+ * @route POST /api/admin/style-presets/luts
+ * @description 校验 .cube 格式后保存到对象存储（style-luts/ 目录）并登记到 style_luts 表
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @body {File} file - .cube 文件（3D LUT，最大 16MB），multipart/form-data
+ * @body {string} [name] - 显示名称，默认使用文件中的 TITLE 或文件名
+ *
+ * @returns {Object} 200 - 上传成功，返回 LUT 记录
+ * @returns {Object} 400 - 缺少文件、文件过大或格式错误
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 500 - 上传到存储失败
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireRetoucherOrAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员或修图师权限才能管理风格预设')
+    }
+
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch {
+      return ApiError.badRequest('请使用 multipart/form-data 上传文件')
+    }
+
+    const file = formData.get('file')
+    if (!(file instanceof File) || file.size === 0) {
+      return ApiError.badRequest('请选择要上传的 .cube 文件')
+    }
+
+    if (!file.name.toLowerCase().endsWith('.cube')) {
+      return ApiError.badRequest('只支持 .cube 格式的 LUT 文件')
+    }
+
+    if (file.size > MAX_LUT_FILE_SIZE) {
+      return ApiError.badRequest('LUT 文件不能超过 16MB')
+    }
+
+    const content = Buffer.from(await file.arrayBuffer())
+    let lutInfo: { title: string | null; size: number }
+    try {
+      lutInfo = inspectCubeLut(content.toString('utf8'))
+    } catch (error) {
+      return ApiError.badRequest(`LUT 文件格式错误：${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    const nameField = formData.get('name')
+    const name = (
+      (typeof nameField === 'string' && nameField.trim()) ||
+      lutInfo.title ||
+      file.name.replace(/\.cube$/i, '')
+    ).slice(0, 100)
+
+    const id = randomUUID()
+    const key = `style-luts/${id}.cube`
+
+    try {
+      await uploadStyleLut(key, content)
+    } catch (error) {
+      console.error('[StylePreset] LUT upload failed:', error)
+      return ApiError.internal(`上传失败: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    const db = await createAdminClient()
+    const insertResult = await db.insert('style_luts', {
+      id,
+      name,
+      storage_key: key,
+      lut_size: lutInfo.size,
+      file_size: file.size,
+      created_by: admin.id,
+    })
+
+    if (insertResult.error) {
+      return handleError(insertResult.error, '保存 LUT 失败')
+    }
+
+    const lut = insertResult.data?.[0] as StyleLut | undefined
+    if (!lut) {
+      return ApiError.internal('保存 LUT 失败')
+    }
+
+    await recordAuditLog(request, admin, {
+      action: 'style_preset.lut_upload',
+      targetType: 'style_preset',
+      targetId: lut.id,
+      metadata: { name, lut_size: lutInfo.size, file_size: file.size },
+    })
+
+    return createSuccessResponse(lut)
+  } catch (error) {
+    return handleError(error, '上传 LUT 失败')
+  }
+}
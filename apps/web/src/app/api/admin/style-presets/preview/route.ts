@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
+import { fetchStylePreview } from '@/lib/custom-style-presets'
+import { stylePresetPreviewQuerySchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+import type { Album, Photo } from '@/types/database'
+
+/**
+ * 风格预设预览图 API
+ *
+ * @route GET /api/admin/style-presets/preview
+ * @description 由 Worker 使用与照片处理相同的管线（含 LUT、白平衡、曲线等）渲染预览缩略图。
+ * 指定相册时以相册封面（没有封面时用第一张照片）为底图，否则使用示例图
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @query {string} preset - 内置预设 ID 或自定义预设 UUID，"none" 表示原图
+ * @query {string} [albumId] - 相册ID（UUID格式）
+ *
+ * @returns {Blob} 200 - JPEG 预览图（最长边 480px）
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 404 - 预设不存在
+ * @returns {Object} 500 - Worker 渲染失败
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireRetoucherOrAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员或修图师权限才能预览风格预设')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const queryValidation = safeValidate(stylePresetPreviewQuerySchema, {
+      preset: searchParams.get('preset') ?? undefined,
+      albumId: searchParams.get('albumId') ?? undefined,
+    })
+    if (!queryValidation.success) {
+      return handleError(queryValidation.error, '查询参数验证失败')
+    }
+
+    const { preset, albumId } = queryValidation.data
+
+    let sourceKey: string | null = null
+    if (albumId) {
+      const db = await createAdminClient()
+      const albumResult = await db
+        .from<Pick<Album, 'id' | 'cover_photo_id'>>('albums')
+        .select('id, cover_photo_id')
+        .eq('id', albumId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      if (albumResult.data) {
+        const photoQuery = db
+          .from<Pick<Photo, 'original_key'>>('photos')
+          .select('original_key')
+          .eq('album_id', albumId)
+          .eq('status', 'completed')
+          .eq('media_type', 'image')
+          .is('deleted_at', null)
+        const photoResult = albumResult.data.cover_photo_id
+          ? await photoQuery.eq('id', albumResult.data.cover_photo_id).maybeSingle()
+          : await photoQuery.order('sort_order', { ascending: true }).limit(1).maybeSingle()
+        sourceKey = photoResult.data?.original_key ?? null
+      }
+    }
+
+    const workerResponse = await fetchStylePreview(preset, sourceKey)
+    if (workerResponse.status === 404) {
+      return ApiError.notFound('风格预设不存在')
+    }
+    if (!workerResponse.ok) {
+      const result = await workerResponse.json().catch(() => ({}))
+      return ApiError.internal(`生成预览失败: ${result.error || workerResponse.status}`)
+    }
+
+    return new NextResponse(await workerResponse.arrayBuffer(), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        // 自定义预设修改后 URL 中的版本号会变化，可以放心缓存
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    return handleError(error, '生成预览失败')
+  }
+}
@@ -1,11 +1,11 @@
 /**
  * 风格预设 API 路由测试
  * 
- * 测试 GET 方法
+ * 测试 GET 和 POST 方法
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { GET } from './route'
+import { GET, POST, type StylePresetListItem } from './route'
 import { createMockRequest } from '@/test/test-utils'
 
 // Mock dependencies
@@ -18,6 +18,26 @@ vi.mock('@/lib/database', () => ({
   createAdminClient: vi.fn(),
 }))
 
+vi.mock('@/lib/audit-log', () => ({
+  recordAuditLog: vi.fn(),
+}))
+
+const customPreset = {
+  id: '550e8400-e29b-41d4-a716-446655440010',
+  name: '工作室暖调',
+  category: 'portrait',
+  description: null,
+  config: { whiteBalance: { temperature: 20 }, vignette: -30 },
+  lut_id: '550e8400-e29b-41d4-a716-446655440020',
+  created_by: 'user-123',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-02T00:00:00Z',
+}
+
+let customPresetRows: unknown[] = []
+let lutRow: unknown = null
+const mockInsert = vi.fn()
+
 describe('GET /api/admin/style-presets', () => {
   let mockGetCurrentUser: any
 
@@ -29,8 +49,11 @@ describe('GET /api/admin/style-presets', () => {
     mockGetCurrentUser = vi.mocked(getCurrentUser)
     
     // Mock admin client for role queries
+    customPresetRows = []
+    lutRow = null
     const mockAdminClient = {
       from: vi.fn(),
+      insert: mockInsert,
     }
     // Mock admin role query for requireAdmin
     const mockRoleSelect = vi.fn().mockReturnThis()
@@ -52,13 +75,21 @@ describe('GET /api/admin/style-presets', () => {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
         is: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({
+          data: table === 'style_presets' ? customPresetRows : [],
+          error: null,
+        }),
+        maybeSingle: vi.fn().mockResolvedValue({
+          data: table === 'style_luts' ? lutRow : null,
+          error: null,
+        }),
         single: vi.fn().mockResolvedValue({
           data: null,
           error: null,
         }),
       }
     })
-    vi.mocked(createAdminClient).mockResolvedValue(mockAdminClient)
+    vi.mocked(createAdminClient).mockResolvedValue(mockAdminClient as never)
     
     // 默认用户已登录
     mockGetCurrentUser.mockResolvedValue({
@@ -197,4 +228,93 @@ describe('GET /api/admin/style-presets', () => {
       }
     })
   })
+
+  describe('custom presets', () => {
+    it('should include custom presets from the database', async () => {
+      customPresetRows = [customPreset]
+
+      const response = await GET(createMockRequest('http://localhost:3000/api/admin/style-presets'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      const custom = data.data.presets.find((preset: StylePresetListItem) => preset.id === customPreset.id)
+      expect(custom).toMatchObject({
+        name: '工作室暖调',
+        category: 'portrait',
+        description: '',
+        custom: true,
+        config: customPreset.config,
+        lutId: customPreset.lut_id,
+        updatedAt: customPreset.updated_at,
+      })
+      expect(data.data.presets.find((preset: StylePresetListItem) => preset.id === 'japanese-fresh').custom).toBe(false)
+    })
+
+    it('should filter custom presets by category', async () => {
+      customPresetRows = [customPreset]
+
+      const response = await GET(createMockRequest('http://localhost:3000/api/admin/style-presets?category=general'))
+      const data = await response.json()
+
+      expect(data.data.presets.some((preset: StylePresetListItem) => preset.id === customPreset.id)).toBe(false)
+    })
+  })
+
+  describe('POST', () => {
+    const post = (body: unknown) =>
+      createMockRequest('http://localhost:3000/api/admin/style-presets', { method: 'POST', body })
+
+    it('should create a custom preset', async () => {
+      lutRow = { id: customPreset.lut_id }
+      mockInsert.mockResolvedValue({ data: [customPreset], error: null })
+
+      const response = await POST(
+        post({
+          name: '工作室暖调',
+          category: 'portrait',
+          config: customPreset.config,
+          lut_id: customPreset.lut_id,
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.id).toBe(customPreset.id)
+      expect(mockInsert).toHaveBeenCalledWith(
+        'style_presets',
+        expect.objectContaining({
+          name: '工作室暖调',
+          config: customPreset.config,
+          lut_id: customPreset.lut_id,
+          created_by: 'user-123',
+        })
+      )
+      const { recordAuditLog } = await import('@/lib/audit-log')
+      expect(recordAuditLog).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ action: 'style_preset.create', targetId: customPreset.id })
+      )
+    })
+
+    it('should return 404 when the LUT does not exist', async () => {
+      const response = await POST(post({ name: '暖调', lut_id: customPreset.lut_id }))
+
+      expect(response.status).toBe(404)
+      expect(mockInsert).not.toHaveBeenCalled()
+    })
+
+    it('should reject out-of-range config values', async () => {
+      const response = await POST(post({ name: '暖调', config: { grain: 200 } }))
+
+      expect(response.status).toBe(400)
+      expect(mockInsert).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown config fields', async () => {
+      const response = await POST(post({ name: '暖调', config: { sharpen: 10 } }))
+
+      expect(response.status).toBe(400)
+    })
+  })
 })
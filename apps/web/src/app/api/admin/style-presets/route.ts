@@ -1,6 +1,10 @@
 import { NextRequest } from 'next/server'
-import { requireAdmin } from '@/lib/auth/role-helpers'
-import { handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import { createAdminClient } from '@/lib/database'
+import { requireRetoucherOrAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog } from '@/lib/audit-log'
+import { createStylePresetSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { CustomStylePreset, StyleLut, StylePresetCategory } from '@/types/database'
 
 /**
  * 预设定义（与 worker 中的定义保持一致）
@@ -161,24 +165,34 @@ const STYLE_PRESETS: Record<string, StylePreset> = {
   }
 }
 
-function getPresetsByCategory(category: 'portrait' | 'landscape' | 'general'): StylePreset[] {
-  return Object.values(STYLE_PRESETS).filter(preset => preset.category === category)
+const CATEGORY_ORDER: StylePresetCategory[] = ['portrait', 'landscape', 'general']
+
+/**
+ * 风格选择器中的预设条目（内置预设 + 自定义预设）
+ */
+export interface StylePresetListItem {
+  id: string
+  name: string
+  category: StylePresetCategory
+  description: string
+  cssFilter?: string
+  custom: boolean
+  config?: CustomStylePreset['config']
+  lutId?: string | null
+  updatedAt?: string
 }
 
-function getAllPresets(): StylePreset[] {
-  const order = ['portrait', 'landscape', 'general']
-  return Object.values(STYLE_PRESETS).sort((a, b) => {
-    return order.indexOf(a.category) - order.indexOf(b.category)
-  })
+function sortByCategory<T extends { category: StylePresetCategory }>(presets: T[]): T[] {
+  return [...presets].sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category))
 }
 
 /**
  * 获取风格预设列表 API
  * 
  * @route GET /api/admin/style-presets
- * @description 获取照片风格预设列表，用于照片调色
+ * @description 获取照片风格预设列表（内置预设在前，自定义预设在后，再按分类排序），用于照片调色
  * 
- * @auth 需要管理员登录
+ * @auth 需要管理员或修图师权限
  * 
  * @query {string} [category] - 分类筛选（可选：portrait/landscape/general）
  * 
@@ -188,7 +202,11 @@ function getAllPresets(): StylePreset[] {
  * @returns {string} 200.data.presets[].name - 预设名称
  * @returns {string} 200.data.presets[].category - 预设分类（portrait/landscape/general）
  * @returns {string} 200.data.presets[].description - 预设描述
- * @returns {string} [200.data.presets[].cssFilter] - CSS滤镜字符串（可选）
+ * @returns {string} [200.data.presets[].cssFilter] - CSS滤镜字符串（仅内置预设）
+ * @returns {boolean} 200.data.presets[].custom - 是否为自定义预设
+ * @returns {Object} [200.data.presets[].config] - 调色参数（仅自定义预设）
+ * @returns {string|null} [200.data.presets[].lutId] - 使用的 LUT ID（仅自定义预设）
+ * @returns {string} [200.data.presets[].updatedAt] - 最后修改时间（仅自定义预设，用于刷新预览图）
  * 
  * @returns {Object} 401 - 未授权（需要登录）
  * @returns {Object} 500 - 服务器内部错误
@@ -211,32 +229,52 @@ export async function GET(request: NextRequest) {
       return ApiError.unauthorized('需要登录才能执行此操作')
     }
 
-    // 再检查用户是否为管理员
-    const admin = await requireAdmin(request)
+    // 再检查用户是否为管理员或修图师
+    const admin = await requireRetoucherOrAdmin(request)
     if (!admin) {
-      return ApiError.forbidden('需要管理员权限才能执行此操作')
+      return ApiError.forbidden('需要管理员或修图师权限才能执行此操作')
     }
 
     // 获取查询参数（可选分类筛选）
     const { searchParams } = new URL(request.url)
-    const category = searchParams.get('category') as 'portrait' | 'landscape' | 'general' | null
-
-    // 获取预设列表
-    let presets
-    if (category && ['portrait', 'landscape', 'general'].includes(category)) {
-      presets = getPresetsByCategory(category)
-    } else {
-      presets = getAllPresets()
+    const category = searchParams.get('category') as StylePresetCategory | null
+
+    const db = await createAdminClient()
+    const customResult = await db
+      .from<CustomStylePreset>('style_presets')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (customResult.error) {
+      return handleError(customResult.error, '获取风格预设列表失败')
     }
 
-    // 返回预设列表（不包含内部 config，只返回前端需要的字段）
-    const presetList = presets.map(preset => ({
-      id: preset.id,
-      name: preset.name,
-      category: preset.category,
-      description: preset.description,
-      cssFilter: preset.cssFilter,
-    }))
+    // 内置预设不返回内部 config，只返回前端需要的字段
+    const presets: StylePresetListItem[] = [
+      ...Object.values(STYLE_PRESETS).map((preset) => ({
+        id: preset.id,
+        name: preset.name,
+        category: preset.category,
+        description: preset.description,
+        cssFilter: preset.cssFilter,
+        custom: false,
+      })),
+      ...(customResult.data || []).map((preset) => ({
+        id: preset.id,
+        name: preset.name,
+        category: preset.category,
+        description: preset.description || '',
+        custom: true,
+        config: preset.config,
+        lutId: preset.lut_id,
+        updatedAt: preset.updated_at,
+      })),
+    ]
+
+    const presetList =
+      category && CATEGORY_ORDER.includes(category)
+        ? presets.filter((preset) => preset.category === category)
+        : sortByCategory(presets)
 
     const response = createSuccessResponse({
       presets: presetList,
@@ -252,3 +290,84 @@ export async function GET(request: NextRequest) {
     return handleError(error, '获取风格预设列表失败')
   }
 }
+
+/**
+ * 创建自定义风格预设
+ *
+ * @route POST /api/admin/style-presets
+ * @description 保存调色参数，可引用已上传的 LUT。创建后即可在相册的风格选择器中使用
+ *
+ * @auth 需要管理员或修图师权限
+ *
+ * @body {Object} requestBody - 预设配置
+ * @body {string} requestBody.name - 预设名称
+ * @body {string} [requestBody.category=general] - 分类（portrait/landscape/general）
+ * @body {string} [requestBody.description] - 描述
+ * @body {Object} [requestBody.config] - 调色参数（亮度、对比度、白平衡、自然饱和度、暗角、颗粒、曲线、LUT 强度等）
+ * @body {string|null} [requestBody.lut_id] - 使用的 LUT ID
+ *
+ * @returns {Object} 200 - 创建成功，返回预设
+ * @returns {Object} 400 - 请求参数错误（验证失败）
+ * @returns {Object} 403 - 权限不足
+ * @returns {Object} 404 - LUT 不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireRetoucherOrAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员或修图师权限才能管理风格预设')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(createStylePresetSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { name, category, description, config, lut_id } = validation.data
+    const db = await createAdminClient()
+
+    if (lut_id) {
+      const lutResult = await db.from<StyleLut>('style_luts').select('id').eq('id', lut_id).maybeSingle()
+      if (!lutResult.data) {
+        return ApiError.notFound('LUT 不存在')
+      }
+    }
+
+    const insertResult = await db.insert('style_presets', {
+      name,
+      category,
+      description: description ?? null,
+      config,
+      lut_id: lut_id ?? null,
+      created_by: admin.id,
+    })
+
+    if (insertResult.error) {
+      return handleError(insertResult.error, '创建风格预设失败')
+    }
+
+    const preset = insertResult.data?.[0] as CustomStylePreset | undefined
+    if (!preset) {
+      return ApiError.internal('创建风格预设失败')
+    }
+
+    await recordAuditLog(request, admin, {
+      action: 'style_preset.create',
+      targetType: 'style_preset',
+      targetId: preset.id,
+      metadata: { name, category, lut_id: lut_id ?? null },
+    })
+
+    return createSuccessResponse(preset)
+  } catch (error) {
+    return handleError(error, '创建风格预设失败')
+  }
+}
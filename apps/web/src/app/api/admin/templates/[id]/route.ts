@@ -1,7 +1,9 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
 import { requireAdmin } from '@/lib/auth/role-helpers'
-import { templateIdSchema, updateTemplateSchema } from '@/lib/validation/schemas'
+import { hashAlbumPassword, omitAlbumPassword } from '@/lib/album-password'
+import { getClient } from '@/lib/clients'
+import { templateIdSchema, updateTemplateSchema, clientIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
 interface RouteParams {
@@ -53,7 +55,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return ApiError.notFound('模板不存在')
     }
 
-    return createSuccessResponse(result.data)
+    // 访问密码只返回是否已设置
+    return createSuccessResponse(omitAlbumPassword(result.data as { password?: string | null }))
   } catch (error) {
     return handleError(error, '获取模板详情失败')
   }
@@ -110,6 +113,23 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (settings !== undefined) {
       // 将 settings 中的字段合并到 updateData
       Object.assign(updateData, settings)
+      // 访问密码哈希后存储
+      if ('password' in settings) {
+        updateData.password = typeof settings.password === 'string' ? await hashAlbumPassword(settings.password) : null
+      }
+      // 关联客户：空值表示解除关联
+      if ('client_id' in settings) {
+        if (settings.client_id) {
+          const clientValidation = safeValidate(clientIdSchema, { id: settings.client_id })
+          if (!clientValidation.success) {
+            return handleError(clientValidation.error, '无效的客户ID')
+          }
+          if (!(await getClient(clientValidation.data.id))) {
+            return ApiError.notFound('客户不存在')
+          }
+        }
+        updateData.client_id = settings.client_id || null
+      }
     }
 
     const updateResult = await db.update('album_templates', updateData, { id })
@@ -118,7 +138,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return handleError(updateResult.error, '更新模板失败')
     }
 
-    return createSuccessResponse(updateResult.data && updateResult.data.length > 0 ? updateResult.data[0] : null)
+    const template = updateResult.data && updateResult.data.length > 0 ? updateResult.data[0] : null
+    return createSuccessResponse(template ? omitAlbumPassword(template as { password?: string | null }) : null)
   } catch (error) {
     return handleError(error, '更新模板失败')
   }
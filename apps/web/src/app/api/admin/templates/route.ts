@@ -2,7 +2,9 @@ import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
 import { requireAdmin } from '@/lib/auth/role-helpers'
 import type { AlbumTemplateInsert, Json } from '@/types/database'
-import { createTemplateSchema } from '@/lib/validation/schemas'
+import { hashAlbumPassword, omitAlbumPassword } from '@/lib/album-password'
+import { getClient } from '@/lib/clients'
+import { createTemplateSchema, clientIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
 /**
@@ -57,7 +59,10 @@ export async function GET(request: NextRequest) {
       return handleError(result.error, '查询模板列表失败')
     }
 
-    return createSuccessResponse({ templates: result.data || [] })
+    // 访问密码只返回是否已设置
+    const templates = ((result.data || []) as Array<{ password?: string | null }>).map(omitAlbumPassword)
+
+    return createSuccessResponse({ templates })
   } catch (error) {
     return handleError(error, '查询模板列表失败')
   }
@@ -80,6 +85,7 @@ export async function GET(request: NextRequest) {
  * @body {string} [requestBody.settings.sort_rule] - 排序规则
  * @body {boolean} [requestBody.settings.allow_download] - 允许下载
  * @body {boolean} [requestBody.settings.show_exif] - 显示EXIF信息
+ * @body {string} [requestBody.settings.client_id] - 关联客户ID（用该模板创建相册时预填客户）
  * 
  * @returns {Object} 200 - 创建成功
  * @returns {Object} 200.data - 创建的模板数据
@@ -88,6 +94,7 @@ export async function GET(request: NextRequest) {
  * 
  * @returns {Object} 400 - 请求参数错误（验证失败）
  * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 404 - 关联的客户不存在
  * @returns {Object} 500 - 服务器内部错误
  */
 export async function POST(request: NextRequest) {
@@ -139,6 +146,17 @@ export async function POST(request: NextRequest) {
     const watermark_enabled = (settings as Record<string, unknown>)?.watermark_enabled as boolean | undefined
     const watermark_type = (settings as Record<string, unknown>)?.watermark_type as 'text' | 'logo' | null | undefined
     const watermark_config = (settings as Record<string, unknown>)?.watermark_config as Json | undefined
+    const client_id = (settings as Record<string, unknown>)?.client_id as string | null | undefined
+
+    if (client_id) {
+      const clientValidation = safeValidate(clientIdSchema, { id: client_id })
+      if (!clientValidation.success) {
+        return handleError(clientValidation.error, '无效的客户ID')
+      }
+      if (!(await getClient(client_id))) {
+        return ApiError.notFound('客户不存在')
+      }
+    }
 
     // 构建插入数据
     const insertData: AlbumTemplateInsert = {
@@ -150,11 +168,12 @@ export async function POST(request: NextRequest) {
       allow_download: allow_download ?? false,
       allow_batch_download: allow_batch_download ?? true,
       show_exif: show_exif ?? true,
-      password: password || null,
+      password: typeof password === 'string' ? await hashAlbumPassword(password) : null,
       expires_at: expires_at || null,
       watermark_enabled: watermark_enabled ?? false,
       watermark_type: watermark_type || null,
       watermark_config: (watermark_config || {}) as Json,
+      client_id: client_id || null,
     }
 
     const insertResult = await db.insert('album_templates', insertData)
@@ -163,7 +182,8 @@ export async function POST(request: NextRequest) {
       return handleError(insertResult.error, '创建模板失败')
     }
 
-    return createSuccessResponse(insertResult.data && insertResult.data.length > 0 ? insertResult.data[0] : null)
+    const template = insertResult.data && insertResult.data.length > 0 ? insertResult.data[0] : null
+    return createSuccessResponse(template ? omitAlbumPassword(template as { password?: string | null }) : null)
   } catch (error) {
     return handleError(error, '创建模板失败')
   }
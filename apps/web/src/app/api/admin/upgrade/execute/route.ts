@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAdmin } from '@/lib/auth/role-helpers'
 import { ApiError } from '@/lib/validation/error-handler'
+import { recordAuditLog } from '@/lib/audit-log'
 import { spawn } from 'child_process'
 import { resolve } from 'path'
 import { existsSync } from 'fs'
@@ -92,6 +93,13 @@ export async function POST(request: NextRequest) {
       args.push('--rebuild')
     }
 
+    // 升级过程可能重启服务，在执行脚本前记录
+    await recordAuditLog(request, admin, {
+      action: 'system.upgrade',
+      targetType: 'system',
+      metadata: { skip_restart: !!body.skipRestart, rebuild_images: !!body.rebuildImages },
+    })
+
     // 创建流式响应
     const stream = new ReadableStream({
       async start(controller) {
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { listLoginHistory } from '@/lib/auth/sessions'
+import { userIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 用户登录历史 API
+ *
+ * @route GET /api/admin/users/[id]/login-history
+ * @description 获取用户最近 50 条登录记录（包括失败的尝试）
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 用户ID（UUID格式）
+ *
+ * @returns {Object} 200 - 成功返回登录记录
+ * @returns {Object[]} 200.data.entries - 登录记录（按时间倒序）
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的用户ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能查看登录历史')
+    }
+
+    const idValidation = safeValidate(userIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的用户ID')
+    }
+
+    const entries = await listLoginHistory(idValidation.data.id)
+
+    return createSuccessResponse({ entries })
+  } catch (error) {
+    return handleError(error, '获取登录历史失败')
+  }
+}
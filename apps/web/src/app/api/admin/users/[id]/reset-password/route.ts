@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server'
 import { createAdminClient } from '@/lib/database'
 import { requireAdmin } from '@/lib/auth/role-helpers'
+import { revokeUserSessions } from '@/lib/auth/sessions'
+import { recordAuditLog } from '@/lib/audit-log'
 import { userIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
@@ -12,7 +14,7 @@ interface RouteParams {
  * 重置用户密码 API
  * 
  * @route POST /api/admin/users/[id]/reset-password
- * @description 管理员重置用户密码（将密码设置为 NULL，用户首次登录时需要设置新密码）
+ * @description 管理员重置用户密码（将密码设置为 NULL，用户首次登录时需要设置新密码），并吊销该用户的全部登录会话
  * 
  * @auth 需要管理员权限
  * 
@@ -49,7 +51,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // 检查用户是否存在
     const existingUser = await db
       .from('users')
-      .select('id')
+      .select('id, email')
       .eq('id', id)
       .is('deleted_at', null)
       .single()
@@ -72,6 +74,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return handleError(result.error, '重置密码失败')
     }
 
+    // 旧密码签发的会话全部失效
+    await revokeUserSessions(id, 'password_changed')
+
+    await recordAuditLog(request, admin, {
+      action: 'user.reset_password',
+      targetType: 'user',
+      targetId: id,
+      metadata: { email: (existingUser.data as { email: string }).email },
+    })
+
     return createSuccessResponse({ 
       message: '密码已重置，用户首次登录时需要设置新密码'
     })
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server'
 import { createAdminClient } from '@/lib/database'
 import { requireAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
 import { userIdSchema, updateUserSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
@@ -135,7 +136,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     // 检查用户是否存在
     const existingUser = await db
       .from('users')
-      .select('id, email, role')
+      .select('id, email, role, is_active')
       .eq('id', id)
       .is('deleted_at', null)
       .single()
@@ -144,7 +145,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return ApiError.notFound('用户不存在')
     }
 
-    const user = existingUser.data as { id: string; email: string; role: string }
+    const user = existingUser.data as { id: string; email: string; role: string; is_active: boolean }
 
     // 构建更新数据
     const updateData: Record<string, unknown> = {}
@@ -216,6 +217,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return createSuccessResponse(currentUser.data)
     }
 
+    const changes = diffAuditChanges(user, updateData)
+
     // 执行更新
     updateData.updated_at = new Date().toISOString()
     const result = await db.update('users', updateData, { id, deleted_at: null })
@@ -224,6 +227,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return handleError(result.error, '更新用户失败')
     }
 
+    if (changes) {
+      await recordAuditLog(request, admin, {
+        action: 'user.update',
+        targetType: 'user',
+        targetId: id,
+        changes,
+      })
+    }
+
     // 返回更新后的用户信息
     const updatedUser = await db
       .from('users')
@@ -282,7 +294,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // 检查用户是否存在
     const existingUser = await db
       .from('users')
-      .select('id, role')
+      .select('id, email, role')
       .eq('id', id)
       .is('deleted_at', null)
       .single()
@@ -291,7 +303,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return ApiError.notFound('用户不存在')
     }
 
-    const user = existingUser.data as { id: string; role: string }
+    const user = existingUser.data as { id: string; email: string; role: string }
 
     // 防止删除最后一个管理员账户
     if (user.role === 'admin') {
@@ -318,6 +330,13 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return handleError(result.error, '删除用户失败')
     }
 
+    await recordAuditLog(request, admin, {
+      action: 'user.delete',
+      targetType: 'user',
+      targetId: id,
+      metadata: { email: user.email, role: user.role },
+    })
+
     return createSuccessResponse({ message: '用户已删除' })
   } catch (error) {
     return handleError(error, '删除用户失败')
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { listUserSessions, revokeSession } from '@/lib/auth/sessions'
+import { recordAuditLog } from '@/lib/audit-log'
+import { userSessionParamsSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string; sessionId: string }>
+}
+
+/**
+ * 吊销单个登录会话 API
+ *
+ * @route DELETE /api/admin/users/[id]/sessions/[sessionId]
+ * @description 吊销用户的指定登录会话，该设备下次请求时需要重新登录
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 用户ID（UUID格式）
+ * @param {string} sessionId - 会话ID（UUID格式）
+ *
+ * @returns {Object} 200 - 吊销成功
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 会话不存在或已失效
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能吊销登录会话')
+    }
+
+    const validation = safeValidate(userSessionParamsSchema, await params)
+    if (!validation.success) {
+      return handleError(validation.error, '无效的参数')
+    }
+
+    const { id, sessionId } = validation.data
+
+    // 确认会话属于该用户且仍有效
+    const sessions = await listUserSessions(id)
+    if (!sessions.some((session) => session.id === sessionId)) {
+      return ApiError.notFound('会话不存在或已失效')
+    }
+
+    await revokeSession(sessionId, 'revoked')
+
+    await recordAuditLog(request, admin, {
+      action: 'user.revoke_sessions',
+      targetType: 'user',
+      targetId: id,
+      metadata: { session_id: sessionId },
+    })
+
+    return createSuccessResponse({ message: '会话已吊销' })
+  } catch (error) {
+    return handleError(error, '吊销登录会话失败')
+  }
+}
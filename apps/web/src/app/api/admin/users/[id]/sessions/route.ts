@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { listUserSessions, revokeUserSessions } from '@/lib/auth/sessions'
+import { recordAuditLog } from '@/lib/audit-log'
+import { userIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 用户登录会话 API
+ *
+ * @route GET /api/admin/users/[id]/sessions
+ * @description 列出用户当前有效的登录会话（按最近活动时间倒序）
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 用户ID（UUID格式）
+ *
+ * @returns {Object} 200 - 成功返回会话列表
+ * @returns {Object[]} 200.data.sessions - 会话（不包含令牌标识）
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的用户ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能查看登录会话')
+    }
+
+    const idValidation = safeValidate(userIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的用户ID')
+    }
+
+    const sessions = await listUserSessions(idValidation.data.id)
+
+    return createSuccessResponse({
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        ip_address: session.ip_address,
+        user_agent: session.user_agent,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        expires_at: session.expires_at,
+        current: session.id === admin.sessionId,
+      })),
+    })
+  } catch (error) {
+    return handleError(error, '获取登录会话失败')
+  }
+}
+
+/**
+ * 吊销用户全部登录会话 API
+ *
+ * @route DELETE /api/admin/users/[id]/sessions
+ * @description 强制用户在所有设备上重新登录（管理员吊销自己时保留当前会话）
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {number} 200.data.revoked - 吊销的会话数量
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的用户ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能吊销登录会话')
+    }
+
+    const idValidation = safeValidate(userIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的用户ID')
+    }
+
+    const { id } = idValidation.data
+    const revoked = await revokeUserSessions(
+      id,
+      'revoked',
+      id === admin.id ? admin.sessionId : undefined
+    )
+
+    await recordAuditLog(request, admin, {
+      action: 'user.revoke_sessions',
+      targetType: 'user',
+      targetId: id,
+      metadata: { revoked },
+    })
+
+    return createSuccessResponse({ revoked })
+  } catch (error) {
+    return handleError(error, '吊销登录会话失败')
+  }
+}
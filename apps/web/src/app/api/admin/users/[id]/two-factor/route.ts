@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { initAuthDatabase } from '@/lib/auth/database'
+import { revokeUserSessions } from '@/lib/auth/sessions'
+import { disableTwoFactor, getTwoFactorStatus } from '@/lib/auth/two-factor'
+import { recordAuditLog } from '@/lib/audit-log'
+import { userIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+// 初始化认证数据库（如果尚未初始化）
+try {
+  initAuthDatabase()
+} catch {
+  // 可能已经初始化，忽略错误
+}
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 用户两步验证状态 API
+ *
+ * @route GET /api/admin/users/[id]/two-factor
+ * @description 获取用户的两步验证状态
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - 成功返回状态（enabled / required / recoveryCodesRemaining）
+ * @returns {Object} 400 - 请求参数错误（无效的用户ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 用户不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能查看两步验证状态')
+    }
+
+    const idValidation = safeValidate(userIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的用户ID')
+    }
+
+    const status = await getTwoFactorStatus(idValidation.data.id)
+    if (!status) {
+      return ApiError.notFound('用户不存在')
+    }
+
+    return createSuccessResponse(status)
+  } catch (error) {
+    return handleError(error, '获取两步验证状态失败')
+  }
+}
+
+/**
+ * 重置用户两步验证 API
+ *
+ * @route DELETE /api/admin/users/[id]/two-factor
+ * @description 清除用户的验证器绑定和恢复码（用户丢失设备时使用），并吊销其全部登录会话。
+ * 强制启用两步验证的用户下次登录时需要重新绑定
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - 重置成功
+ * @returns {Object} 400 - 请求参数错误（无效的用户ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 用户不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能重置两步验证')
+    }
+
+    const idValidation = safeValidate(userIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的用户ID')
+    }
+
+    const { id } = idValidation.data
+    const status = await getTwoFactorStatus(id)
+    if (!status) {
+      return ApiError.notFound('用户不存在')
+    }
+
+    await disableTwoFactor(id)
+    const revoked = await revokeUserSessions(id, 'two_factor_reset')
+
+    await recordAuditLog(request, admin, {
+      action: 'user.reset_two_factor',
+      targetType: 'user',
+      targetId: id,
+      metadata: { was_enabled: status.enabled, revoked_sessions: revoked },
+    })
+
+    return createSuccessResponse({ message: '两步验证已重置，用户需要重新登录' })
+  } catch (error) {
+    return handleError(error, '重置两步验证失败')
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/database'
 import { requireAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog } from '@/lib/audit-log'
 import { createUserSchema, userListQuerySchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 import { hashPassword } from '@/lib/auth/password'
@@ -178,6 +179,13 @@ export async function POST(request: NextRequest) {
     const authDb = getAuthDatabase()
     const newUser = await authDb.createUser(normalizedEmail, passwordHash, role)
 
+    await recordAuditLog(request, admin, {
+      action: 'user.create',
+      targetType: 'user',
+      targetId: newUser.id,
+      metadata: { email: normalizedEmail, role, password_set: !!passwordHash },
+    })
+
     // 返回用户信息（不包含密码哈希）
     const userResult = await db
       .from('users')
@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { webhookIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { WebhookDelivery } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/** 返回的最近投递记录数量 */
+const RECENT_DELIVERY_LIMIT = 50
+
+/**
+ * 获取投递记录
+ *
+ * @route GET /api/admin/webhooks/[id]/deliveries
+ * @description 获取端点最近的投递记录（按时间倒序）
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 端点ID（UUID格式）
+ *
+ * @returns {Object} 200 - 成功返回投递记录
+ * @returns {Object[]} 200.data.deliveries - 投递记录数组
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的端点ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理 Webhook')
+    }
+
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(webhookIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的 Webhook ID')
+    }
+
+    const { id } = idValidation.data
+    const db = await createAdminClient()
+
+    const result = await db
+      .from<WebhookDelivery>('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', id)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_DELIVERY_LIMIT)
+
+    if (result.error) {
+      return handleError(result.error, '查询投递记录失败')
+    }
+
+    return createSuccessResponse({ deliveries: result.data || [] })
+  } catch (error) {
+    return handleError(error, '查询投递记录失败')
+  }
+}
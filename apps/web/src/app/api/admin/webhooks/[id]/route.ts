@@ -0,0 +1,185 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog, diffAuditChanges } from '@/lib/audit-log'
+import { generateWebhookSecret } from '@/lib/webhooks'
+import { webhookIdSchema, updateWebhookSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { WebhookEndpoint, WebhookEndpointUpdate } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 单个 Webhook 端点管理 API
+ *
+ * @route PATCH /api/admin/webhooks/[id]
+ * @route DELETE /api/admin/webhooks/[id]
+ * @description Webhook 端点更新和删除接口
+ */
+
+/**
+ * 更新 Webhook 端点
+ *
+ * @route PATCH /api/admin/webhooks/[id]
+ * @description 修改地址、订阅事件、描述、启用状态，或重新生成签名密钥
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 端点ID（UUID格式）
+ *
+ * @body {Object} requestBody - 要更新的字段
+ * @body {string} [requestBody.url] - 接收地址
+ * @body {string[]} [requestBody.events] - 订阅的事件，为空表示全部事件
+ * @body {string} [requestBody.description] - 描述
+ * @body {boolean} [requestBody.is_active] - 是否启用
+ * @body {boolean} [requestBody.rotate_secret] - 是否重新生成签名密钥
+ *
+ * @returns {Object} 200 - 更新成功
+ * @returns {Object} 200.data - 更新后的端点
+ *
+ * @returns {Object} 400 - 请求参数错误（验证失败）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 端点不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理 Webhook')
+    }
+
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(webhookIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的 Webhook ID')
+    }
+
+    const { id } = idValidation.data
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(updateWebhookSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const db = await createAdminClient()
+    const existing = await db
+      .from<WebhookEndpoint>('webhook_endpoints')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!existing.data) {
+      return ApiError.notFound('Webhook 不存在')
+    }
+
+    const { rotate_secret, ...fields } = validation.data
+    const updateData: WebhookEndpointUpdate = {}
+    if (fields.url !== undefined) updateData.url = fields.url
+    if (fields.events !== undefined) updateData.events = fields.events
+    if (fields.description !== undefined) updateData.description = fields.description
+    if (fields.is_active !== undefined) updateData.is_active = fields.is_active
+    if (rotate_secret) updateData.secret = generateWebhookSecret()
+
+    if (Object.keys(updateData).length === 0) {
+      return createSuccessResponse(existing.data)
+    }
+
+    const changes = diffAuditChanges(existing.data, { ...updateData })
+
+    const result = await db.update('webhook_endpoints', updateData, { id })
+    if (result.error) {
+      return handleError(result.error, '更新 Webhook 失败')
+    }
+
+    if (changes) {
+      await recordAuditLog(request, admin, {
+        action: 'webhook.update',
+        targetType: 'webhook',
+        targetId: id,
+        changes,
+      })
+    }
+
+    return createSuccessResponse({ ...existing.data, ...updateData })
+  } catch (error) {
+    return handleError(error, '更新 Webhook 失败')
+  }
+}
+
+/**
+ * 删除 Webhook 端点
+ *
+ * @route DELETE /api/admin/webhooks/[id]
+ * @description 删除端点及其投递记录，队列中未完成的投递会自动放弃
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 端点ID（UUID格式）
+ *
+ * @returns {Object} 200 - 删除成功
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的端点ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 端点不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理 Webhook')
+    }
+
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(webhookIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的 Webhook ID')
+    }
+
+    const { id } = idValidation.data
+    const db = await createAdminClient()
+
+    const existing = await db
+      .from<Pick<WebhookEndpoint, 'id' | 'url' | 'album_id'>>('webhook_endpoints')
+      .select('id, url, album_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!existing.data) {
+      return ApiError.notFound('Webhook 不存在')
+    }
+
+    const result = await db.delete('webhook_endpoints', { id })
+    if (result.error) {
+      return handleError(result.error, '删除 Webhook 失败')
+    }
+
+    await recordAuditLog(request, admin, {
+      action: 'webhook.delete',
+      targetType: 'webhook',
+      targetId: id,
+      metadata: { url: existing.data.url, album_id: existing.data.album_id },
+    })
+
+    return createSuccessResponse({ success: true })
+  } catch (error) {
+    return handleError(error, '删除 Webhook 失败')
+  }
+}
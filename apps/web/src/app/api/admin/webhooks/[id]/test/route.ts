@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { sendWebhookTestEvent } from '@/lib/webhooks'
+import { webhookIdSchema } from '@/lib/validation/schemas'
+import {
+  safeValidate,
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 发送测试事件
+ *
+ * @route POST /api/admin/webhooks/[id]/test
+ * @description 向端点发送一条 webhook.test 事件（即使端点已停用），结果可在投递记录中查看
+ *
+ * @auth 需要管理员权限
+ *
+ * @param {string} id - 端点ID（UUID格式）
+ *
+ * @returns {Object} 200 - 测试事件已加入投递队列
+ *
+ * @returns {Object} 400 - 请求参数错误（无效的端点ID）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 端点不存在
+ * @returns {Object} 502 - Worker 服务不可用
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理 Webhook')
+    }
+
+    const paramsData = await params
+
+    // 验证路径参数
+    const idValidation = safeValidate(webhookIdSchema, paramsData)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的 Webhook ID')
+    }
+
+    const { id } = idValidation.data
+    const db = await createAdminClient()
+
+    const existing = await db.from('webhook_endpoints').select('id').eq('id', id).maybeSingle()
+    if (!existing.data) {
+      return ApiError.notFound('Webhook 不存在')
+    }
+
+    try {
+      await sendWebhookTestEvent(id, {
+        message: '这是一条来自 PIS 的测试事件',
+        triggered_by: admin.email,
+      })
+    } catch (error) {
+      console.error('[Webhook] Failed to send test event:', error)
+      return createErrorResponse(ErrorCode.INTERNAL_ERROR, '无法连接到 Worker 服务，测试事件未发送', undefined, 502)
+    }
+
+    return createSuccessResponse({ message: '测试事件已发送，请查看投递记录' })
+  } catch (error) {
+    return handleError(error, '发送测试事件失败')
+  }
+}
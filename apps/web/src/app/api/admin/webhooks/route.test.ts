@@ -0,0 +1,141 @@
+/**
+ * Webhook 端点管理 API 路由测试
+ *
+ * 测试 GET 和 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET, POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+      insert: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/auth/role-helpers', () => ({
+  requireAdmin: vi.fn(),
+}))
+
+vi.mock('@/lib/audit-log', () => ({
+  recordAuditLog: vi.fn(),
+}))
+
+const admin = { id: 'admin-1', email: 'admin@example.com' }
+const albumId = '550e8400-e29b-41d4-a716-446655440001'
+
+/**
+ * 构造查询链 mock（链上任意位置 await 都返回 result）
+ */
+function mockQuery(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'is', 'in', 'order']) {
+    builder[method] = vi.fn().mockReturnValue(builder)
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue(result)
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve)
+  return builder
+}
+
+describe('/api/admin/webhooks', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { requireAdmin } = await import('@/lib/auth/role-helpers')
+    vi.mocked(requireAdmin).mockResolvedValue(admin as never)
+  })
+
+  describe('GET', () => {
+    it('should return 403 for non-admin users', async () => {
+      const { requireAdmin } = await import('@/lib/auth/role-helpers')
+      vi.mocked(requireAdmin).mockResolvedValue(null)
+
+      const response = await GET(createMockRequest('http://localhost:3000/api/admin/webhooks'))
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should list global endpoints first with album titles', async () => {
+      const endpoints = [
+        { id: 'album-endpoint', album_id: albumId, url: 'https://a.example.com' },
+        { id: 'global-endpoint', album_id: null, url: 'https://b.example.com' },
+      ]
+      mockAdminClient.from.mockImplementation((table: string) =>
+        table === 'webhook_endpoints'
+          ? mockQuery({ data: endpoints, error: null })
+          : mockQuery({ data: [{ id: albumId, title: '婚礼' }], error: null })
+      )
+
+      const response = await GET(createMockRequest('http://localhost:3000/api/admin/webhooks'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.webhooks.map((w: { id: string }) => w.id)).toEqual(['global-endpoint', 'album-endpoint'])
+      expect(data.data.webhooks[1].album_title).toBe('婚礼')
+    })
+  })
+
+  describe('POST', () => {
+    it('should reject non-http urls', async () => {
+      const response = await POST(
+        createMockRequest('http://localhost:3000/api/admin/webhooks', {
+          method: 'POST',
+          body: { url: 'ftp://example.com/hook' },
+        })
+      )
+
+      expect(response.status).toBe(400)
+      expect(mockAdminClient.insert).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 when the album does not exist', async () => {
+      mockAdminClient.from.mockReturnValue(mockQuery({ data: null, error: null }))
+
+      const response = await POST(
+        createMockRequest('http://localhost:3000/api/admin/webhooks', {
+          method: 'POST',
+          body: { url: 'https://crm.example.com/hook', album_id: albumId },
+        })
+      )
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should create an endpoint with a generated secret and record an audit log', async () => {
+      mockAdminClient.insert.mockImplementation(async (_table: string, row: Record<string, unknown>) => ({
+        data: [{ id: 'endpoint-1', ...row }],
+        error: null,
+      }))
+
+      const response = await POST(
+        createMockRequest('http://localhost:3000/api/admin/webhooks', {
+          method: 'POST',
+          body: { url: 'https://crm.example.com/hook', events: ['photo.completed'] },
+        })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.secret).toMatch(/^whsec_[0-9a-f]{48}$/)
+      expect(mockAdminClient.insert).toHaveBeenCalledWith(
+        'webhook_endpoints',
+        expect.objectContaining({ album_id: null, events: ['photo.completed'], created_by: 'admin-1' })
+      )
+
+      const { recordAuditLog } = await import('@/lib/audit-log')
+      expect(recordAuditLog).toHaveBeenCalledWith(
+        expect.anything(),
+        admin,
+        expect.objectContaining({ action: 'webhook.create', targetId: 'endpoint-1' })
+      )
+    })
+  })
+})
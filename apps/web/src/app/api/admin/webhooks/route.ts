@@ -0,0 +1,169 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { requireAdmin } from '@/lib/auth/role-helpers'
+import { recordAuditLog } from '@/lib/audit-log'
+import { generateWebhookSecret } from '@/lib/webhooks'
+import { createWebhookSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import type { WebhookEndpoint } from '@/types/database'
+
+/**
+ * Webhook 端点管理 API
+ *
+ * @route GET /api/admin/webhooks
+ * @route POST /api/admin/webhooks
+ * @description Webhook 端点列表和创建接口
+ */
+
+/**
+ * 获取 Webhook 端点列表
+ *
+ * @route GET /api/admin/webhooks
+ * @description 获取所有端点（全局端点在前），附带相册标题
+ *
+ * @auth 需要管理员权限
+ *
+ * @returns {Object} 200 - 成功返回端点列表
+ * @returns {Object[]} 200.data.webhooks - 端点数组（包含 album_title）
+ *
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理 Webhook')
+    }
+
+    const db = await createAdminClient()
+    const result = await db
+      .from<WebhookEndpoint>('webhook_endpoints')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (result.error) {
+      return handleError(result.error, '查询 Webhook 列表失败')
+    }
+
+    const endpoints = result.data || []
+
+    // 查询相册端点的相册标题
+    const albumIds = [...new Set(endpoints.map((e) => e.album_id).filter((id): id is string => !!id))]
+    const albumTitles = new Map<string, string>()
+    if (albumIds.length > 0) {
+      const albumsResult = await db
+        .from<{ id: string; title: string }>('albums')
+        .select('id, title')
+        .in('id', albumIds)
+      for (const album of albumsResult.data || []) {
+        albumTitles.set(album.id, album.title)
+      }
+    }
+
+    const webhooks = endpoints
+      .map((endpoint) => ({
+        ...endpoint,
+        album_title: endpoint.album_id ? albumTitles.get(endpoint.album_id) ?? null : null,
+      }))
+      .sort((a, b) => Number(a.album_id !== null) - Number(b.album_id !== null))
+
+    return createSuccessResponse({ webhooks })
+  } catch (error) {
+    return handleError(error, '查询 Webhook 列表失败')
+  }
+}
+
+/**
+ * 创建 Webhook 端点
+ *
+ * @route POST /api/admin/webhooks
+ * @description 创建端点并自动生成签名密钥
+ *
+ * @auth 需要管理员权限
+ *
+ * @body {Object} requestBody - 端点配置
+ * @body {string} requestBody.url - 接收地址（http/https）
+ * @body {string|null} [requestBody.album_id] - 相册 ID，为空表示全局端点
+ * @body {string[]} [requestBody.events] - 订阅的事件，为空表示全部事件
+ * @body {string} [requestBody.description] - 描述
+ * @body {boolean} [requestBody.is_active=true] - 是否启用
+ *
+ * @returns {Object} 200 - 创建成功
+ * @returns {Object} 200.data - 创建的端点（包含签名密钥）
+ *
+ * @returns {Object} 400 - 请求参数错误（验证失败）
+ * @returns {Object} 403 - 权限不足（需要管理员权限）
+ * @returns {Object} 404 - 相册不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 验证管理员权限
+    const admin = await requireAdmin(request)
+    if (!admin) {
+      return ApiError.forbidden('需要管理员权限才能管理 Webhook')
+    }
+
+    // 解析和验证请求体
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(createWebhookSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { url, album_id, events, description, is_active } = validation.data
+    const db = await createAdminClient()
+
+    // 验证相册存在
+    if (album_id) {
+      const albumResult = await db
+        .from('albums')
+        .select('id')
+        .eq('id', album_id)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      if (!albumResult.data) {
+        return ApiError.notFound('相册不存在')
+      }
+    }
+
+    const insertResult = await db.insert('webhook_endpoints', {
+      url,
+      album_id: album_id ?? null,
+      events,
+      description: description ?? null,
+      is_active,
+      secret: generateWebhookSecret(),
+      created_by: admin.id,
+    })
+
+    if (insertResult.error) {
+      return handleError(insertResult.error, '创建 Webhook 失败')
+    }
+
+    const endpoint = insertResult.data?.[0] as WebhookEndpoint | undefined
+    if (!endpoint) {
+      return ApiError.internal('创建 Webhook 失败')
+    }
+
+    await recordAuditLog(request, admin, {
+      action: 'webhook.create',
+      targetType: 'webhook',
+      targetId: endpoint.id,
+      metadata: { url, album_id: album_id ?? null, events },
+    })
+
+    return createSuccessResponse(endpoint)
+  } catch (error) {
+    return handleError(error, '创建 Webhook 失败')
+  }
+}
@@ -3,6 +3,7 @@ import { getCurrentUser } from '@/lib/auth/api-helpers'
 import { getAuthDatabase } from '@/lib/auth'
 import { hashPassword, verifyPassword } from '@/lib/auth/password'
 import { initAuthDatabase } from '@/lib/auth/database'
+import { revokeUserSessions } from '@/lib/auth/sessions'
 import { changePasswordSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
@@ -17,7 +18,7 @@ try {
  * 修改密码 API
  * 
  * @route POST /api/auth/change-password
- * @description 修改当前登录用户的密码
+ * @description 修改当前登录用户的密码，成功后注销该用户在其他设备上的登录会话
  * 
  * @auth 需要用户登录
  * 
@@ -101,6 +102,9 @@ export async function POST(request: NextRequest) {
     // 更新密码
     await authDb.updateUserPassword(user.id, newPasswordHash)
 
+    // 注销该用户在其他设备上的会话（保留当前会话）
+    await revokeUserSessions(user.id, 'password_changed', user.sessionId)
+
     return createSuccessResponse({
       success: true,
       message: '密码修改成功',
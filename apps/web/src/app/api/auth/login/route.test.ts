@@ -38,6 +38,7 @@ vi.mock('@/lib/auth', () => ({
 vi.mock('@/lib/auth/jwt', () => ({
   createAccessToken: vi.fn().mockResolvedValue('mock-access-token'),
   createRefreshToken: vi.fn().mockResolvedValue('mock-refresh-token'),
+  createTwoFactorToken: vi.fn().mockResolvedValue('mock-challenge-token'),
   COOKIE_NAME: 'pis-auth-token',
   REFRESH_COOKIE_NAME: 'pis-refresh-token',
 }))
@@ -355,4 +356,71 @@ describe('POST /api/auth/login', () => {
     expect(data.data.user.id).toBe('user-123')
     expect(data.data.user.email).toBe('test@example.com')
   })
+
+  it('should require two-factor code when totp is enabled', async () => {
+    const { getAuthDatabase } = await import('@/lib/auth')
+    const { verifyPassword } = await import('@/lib/auth/password')
+    const { createTwoFactorToken } = await import('@/lib/auth/jwt')
+    const { cookies } = await import('next/headers')
+    vi.mocked(getAuthDatabase).mockReturnValue({
+      findUserByEmail: vi.fn().mockResolvedValue({
+        id: 'user-123',
+        email: 'test@example.com',
+        password_hash: 'hashed-password',
+        role: 'photographer',
+        totp_enabled: true,
+      }),
+    } as any)
+    vi.mocked(verifyPassword).mockResolvedValue(true)
+
+    const request = createMockRequest('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      body: {
+        email: 'test@example.com',
+        password: 'password123',
+      },
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.success).toBe(false)
+    expect(data.data.requiresTwoFactor).toBe(true)
+    expect(data.data.twoFactorPurpose).toBe('verify')
+    expect(data.data.challengeToken).toBe('mock-challenge-token')
+    expect(createTwoFactorToken).toHaveBeenCalledWith({ id: 'user-123', email: 'test@example.com' }, 'verify')
+    // 未完成两步验证前不写入会话 Cookie
+    expect(cookies).not.toHaveBeenCalled()
+  })
+
+  it('should require admins without two-factor to set it up', async () => {
+    const { getAuthDatabase } = await import('@/lib/auth')
+    const { verifyPassword } = await import('@/lib/auth/password')
+    vi.mocked(getAuthDatabase).mockReturnValue({
+      findUserByEmail: vi.fn().mockResolvedValue({
+        id: 'admin-1',
+        email: 'admin@example.com',
+        password_hash: 'hashed-password',
+        role: 'admin',
+        totp_enabled: false,
+      }),
+    } as any)
+    vi.mocked(verifyPassword).mockResolvedValue(true)
+
+    const request = createMockRequest('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      body: {
+        email: 'admin@example.com',
+        password: 'password123',
+      },
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.requiresTwoFactor).toBe(true)
+    expect(data.data.twoFactorPurpose).toBe('setup')
+  })
 })
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { cookies } from 'next/headers'
 import { checkRateLimit } from '@/middleware-rate-limit'
 import { 
   getAuthDatabase 
 } from '@/lib/auth'
-import { createAccessToken, createRefreshToken, COOKIE_NAME, REFRESH_COOKIE_NAME } from '@/lib/auth/jwt'
+import { createTwoFactorToken } from '@/lib/auth/jwt'
 import { verifyPassword } from '@/lib/auth/password'
 import { initAuthDatabase } from '@/lib/auth/database'
+import { getClientInfo, recordLoginAttempt, startLoginSession } from '@/lib/auth/sessions'
+import { isTwoFactorRequired } from '@/lib/auth/two-factor'
 import { loginSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError } from '@/lib/validation/error-handler'
 import { createAdminClient } from '@/lib/database'
@@ -29,6 +30,8 @@ try {
  * - 基于邮箱的速率限制（防止针对特定账户的攻击）
  * - 统一错误消息（不暴露具体错误原因）
  * - 服务端执行登录（客户端无法绕过）
+ * - 已启用两步验证的用户（以及强制两步验证的管理员）需通过 /api/auth/two-factor/* 完成登录
+ * - 记录登录历史（成功和失败）
  * 
  * @body {Object} requestBody - 登录请求体
  * @body {string} requestBody.email - 用户邮箱（必填）
@@ -38,6 +41,9 @@ try {
  * @returns {Object} 200.data.user - 用户信息
  * @returns {string} 200.data.user.id - 用户ID
  * @returns {string} 200.data.user.email - 用户邮箱
+ * @returns {boolean} 200.data.requiresTwoFactor - 需要两步验证（此时未创建会话）
+ * @returns {string} 200.data.twoFactorPurpose - verify 输入验证码 / setup 需要先绑定验证器
+ * @returns {string} 200.data.challengeToken - 两步验证挑战令牌（5 分钟有效）
  * 
  * @returns {Object} 400 - 请求参数错误
  * @returns {Object} 401 - 认证失败（邮箱或密码错误）
@@ -273,10 +279,19 @@ export async function POST(request: NextRequest) {
     try {
       const authDb = getAuthDatabase()
       
+      const { ipAddress, userAgent } = getClientInfo(request)
+      const loginClient = { ip_address: ipAddress, user_agent: userAgent }
+
       // 查找用户
       const user = await authDb.findUserByEmail(normalizedEmail)
       
       if (!user) {
+        await recordLoginAttempt({
+          email: normalizedEmail,
+          success: false,
+          failure_reason: 'unknown_user',
+          ...loginClient,
+        })
         // 用户不存在，返回统一错误消息（防止用户枚举）
         return NextResponse.json(
           {
@@ -344,6 +359,13 @@ export async function POST(request: NextRequest) {
       }
       
       if (!isValidPassword) {
+        await recordLoginAttempt({
+          user_id: user.id,
+          email: user.email,
+          success: false,
+          failure_reason: 'invalid_password',
+          ...loginClient,
+        })
         // 密码错误，返回统一错误消息
         return NextResponse.json(
           {
@@ -363,55 +385,33 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // 登录成功，创建会话
-      // 使用 cookies().set() 设置 cookie，它会自动添加到响应中
-      const accessToken = await createAccessToken({ id: user.id, email: user.email })
-      const refreshToken = await createRefreshToken({ id: user.id, email: user.email })
-      
-      // 使用 cookies() API 设置 cookie（这会自动添加到响应中）
-      const cookieStore = await cookies()
-      
-      // 根据实际请求协议设置 secure 标志
-      // 如果请求是 HTTPS，设置 secure: true；如果是 HTTP，设置 secure: false
-      // 这样可以支持生产环境使用 HTTP（内网部署）的情况
-      const protocol = request.headers.get('x-forwarded-proto') || 
-                      (request.url.startsWith('https://') ? 'https' : 'http')
-      const isHttps = protocol === 'https' || request.url.startsWith('https://')
-      
-      // 设置访问令牌 cookie
-      cookieStore.set(COOKIE_NAME, accessToken, {
-        httpOnly: true,
-        secure: isHttps, // 根据实际协议设置，支持 HTTP 内网部署
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 60 * 60, // 1 小时
-      })
-
-      // 设置刷新令牌 cookie
-      cookieStore.set(REFRESH_COOKIE_NAME, refreshToken, {
-        httpOnly: true,
-        secure: isHttps, // 根据实际协议设置，支持 HTTP 内网部署
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 60 * 60 * 24 * 7, // 7 天
-      })
-
-      // 调试日志（仅在开发环境）
-      if (process.env.NODE_ENV === 'development') {
-        console.log('[Login] Cookies set via cookies().set():', {
-          accessTokenSet: !!accessToken,
-          refreshTokenSet: !!refreshToken,
-          accessTokenLength: accessToken.length,
-          refreshTokenLength: refreshToken.length,
-          secure: isHttps,
-          protocol,
-          sameSite: 'lax',
-          path: '/',
-        })
+      // 已启用两步验证，或管理员尚未绑定验证器（强制启用）：只返回挑战令牌，完成两步验证后再创建会话
+      const requiresTwoFactorSetup = !user.totp_enabled && isTwoFactorRequired(user.role)
+      if (user.totp_enabled || requiresTwoFactorSetup) {
+        const purpose = user.totp_enabled ? 'verify' : 'setup'
+        const challengeToken = await createTwoFactorToken({ id: user.id, email: user.email }, purpose)
+        return NextResponse.json(
+          {
+            success: true,
+            data: {
+              success: false,
+              requiresTwoFactor: true,
+              twoFactorPurpose: purpose,
+              challengeToken,
+              user: {
+                id: user.id,
+                email: user.email,
+              },
+            },
+          },
+          { status: 200 }
+        )
       }
 
-      // 创建响应对象（cookie 已通过 cookies().set() 设置，会自动包含在响应中）
-      const response = NextResponse.json(
+      // 登录成功，创建会话并写入 Cookie（根据实际请求协议设置 secure，支持 HTTP 内网部署）
+      await startLoginSession(request, { id: user.id, email: user.email }, 'password')
+
+      return NextResponse.json(
         {
           success: true,
           data: {
@@ -424,15 +424,6 @@ export async function POST(request: NextRequest) {
         },
         { status: 200 }
       )
-
-      // 更新最后登录时间（异步，不阻塞响应）
-      if ('updateLastLogin' in authDb && typeof authDb.updateLastLogin === 'function') {
-        authDb.updateLastLogin(user.id).catch((err) => {
-          console.error('Failed to update last login time:', err)
-        })
-      }
-
-      return response
     } catch (error) {
       // 数据库错误或其他内部错误
       console.error('Login error:', error)
@@ -0,0 +1,136 @@
+/**
+ * @vitest-environment node
+ */
+/**
+ * 刷新登录会话 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import type { UserSession } from '@/types/database'
+
+// 内存中的会话表
+const { sessions, mockDb, mockCookieStore } = vi.hoisted(() => {
+  const sessions = new Map<string, UserSession>()
+  const mockDb = {
+    findUserSession: async (id: string) => sessions.get(id) ?? null,
+    createUserSession: async (data: Partial<UserSession>) => {
+      const session = {
+        id: `session-${sessions.size + 1}`,
+        previous_refresh_jti: null,
+        rotated_at: null,
+        created_at: new Date().toISOString(),
+        last_used_at: new Date().toISOString(),
+        revoked_at: null,
+        revoked_reason: null,
+        ip_address: null,
+        user_agent: null,
+        ...data,
+      } as UserSession
+      sessions.set(session.id, session)
+      return session
+    },
+    rotateUserSession: async (id: string, currentJti: string, nextJti: string, expiresAt: string) => {
+      const session = sessions.get(id)
+      if (!session || session.refresh_jti !== currentJti || session.revoked_at) {
+        return false
+      }
+      sessions.set(id, {
+        ...session,
+        refresh_jti: nextJti,
+        previous_refresh_jti: currentJti,
+        rotated_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      })
+      return true
+    },
+    revokeUserSessions: async (filter: { sessionIds?: string[] }, reason: string) => {
+      let count = 0
+      for (const id of filter.sessionIds ?? []) {
+        const session = sessions.get(id)
+        if (session && !session.revoked_at) {
+          sessions.set(id, { ...session, revoked_at: new Date().toISOString(), revoked_reason: reason })
+          count++
+        }
+      }
+      return count
+    },
+  }
+  return { sessions, mockDb, mockCookieStore: { set: vi.fn() } }
+})
+
+vi.mock('@/lib/auth/index', () => ({
+  getAuthDatabase: () => mockDb,
+}))
+
+vi.mock('@/lib/auth/database', () => ({
+  initAuthDatabase: vi.fn(),
+}))
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn().mockResolvedValue(mockCookieStore),
+}))
+
+import { POST } from './route'
+import { issueSession } from '@/lib/auth/sessions'
+import { REFRESH_COOKIE_NAME } from '@/lib/auth/jwt'
+
+const user = { id: 'user-1', email: 'user@example.com' }
+const client = { ipAddress: '127.0.0.1', userAgent: 'vitest' }
+
+function refresh(refreshToken?: string) {
+  return POST(new NextRequest('http://localhost:3000/api/auth/refresh', {
+    method: 'POST',
+    headers: refreshToken ? { cookie: `${REFRESH_COOKIE_NAME}=${refreshToken}` } : {},
+  }))
+}
+
+/** 取出本次请求写入 Cookie 的新刷新令牌 */
+function lastRefreshToken() {
+  const call = mockCookieStore.set.mock.calls.findLast(([name]) => name === REFRESH_COOKIE_NAME)
+  return call?.[1] as string
+}
+
+describe('POST /api/auth/refresh', () => {
+  beforeEach(() => {
+    sessions.clear()
+    vi.clearAllMocks()
+  })
+
+  it('should return 401 without refresh token', async () => {
+    const response = await refresh()
+
+    expect(response.status).toBe(401)
+    expect(mockCookieStore.set).not.toHaveBeenCalled()
+  })
+
+  it('should rotate the refresh token and set new cookies', async () => {
+    const issued = await issueSession(user, client)
+
+    const response = await refresh(issued.refreshToken)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.user).toMatchObject({ id: user.id, email: user.email, sessionId: issued.sessionId })
+    expect(lastRefreshToken()).toBeTruthy()
+    expect(lastRefreshToken()).not.toBe(issued.refreshToken)
+    expect(sessions.get(issued.sessionId!)?.previous_refresh_jti).toBeTruthy()
+  })
+
+  it('should reject a reused rotated refresh token and revoke the session', async () => {
+    const issued = await issueSession(user, client)
+    expect((await refresh(issued.refreshToken)).status).toBe(200)
+    const latest = lastRefreshToken()
+    expect((await refresh(latest)).status).toBe(200)
+
+    // 已经轮换两次的令牌不在宽限期内，视为令牌泄露
+    const reused = await refresh(issued.refreshToken)
+
+    expect(reused.status).toBe(401)
+    expect(sessions.get(issued.sessionId!)?.revoked_reason).toBe('refresh_reuse')
+    // 会话被吊销后，合法持有者的最新令牌也一并失效
+    expect((await refresh(lastRefreshToken())).status).toBe(401)
+  })
+})
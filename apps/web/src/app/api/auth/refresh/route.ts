@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server'
+import { REFRESH_COOKIE_NAME } from '@/lib/auth/jwt'
+import { getClientInfo, isSecureRequest, rotateRefreshToken, setSessionCookies } from '@/lib/auth/sessions'
+import { ApiError, createSuccessResponse, handleError } from '@/lib/validation/error-handler'
+
+/**
+ * 刷新登录会话 API
+ *
+ * @route POST /api/auth/refresh
+ * @description 使用刷新令牌换取新的访问令牌并轮换刷新令牌，新令牌写入 Cookie。
+ * 中间件运行在 Edge Runtime，访问令牌过期时调用本接口完成轮换和重复使用检测（见 lib/auth/sessions.ts），
+ * 已轮换掉的刷新令牌在宽限期外再次使用时会吊销整个会话
+ *
+ * @auth 需要刷新令牌 Cookie
+ *
+ * @returns {Object} 200 - 刷新成功
+ * @returns {Object} 200.data.user - 当前用户（id、email、sessionId）
+ * @returns {Object} 401 - 没有刷新令牌、令牌无效、会话已吊销或检测到令牌重复使用
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE_NAME)?.value
+    if (!refreshToken) {
+      return ApiError.unauthorized('未登录')
+    }
+
+    const refreshed = await rotateRefreshToken(refreshToken, getClientInfo(request))
+    if (!refreshed) {
+      return ApiError.unauthorized('登录已失效，请重新登录')
+    }
+
+    await setSessionCookies(refreshed, isSecureRequest(request))
+    return createSuccessResponse({ user: refreshed.user })
+  } catch (error) {
+    return handleError(error, '刷新登录状态失败')
+  }
+}
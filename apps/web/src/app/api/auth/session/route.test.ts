@@ -0,0 +1,47 @@
+/**
+ * 检查登录会话状态 API 路由测试
+ *
+ * 测试 GET 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from './route'
+import { getCurrentUser } from '@/lib/auth'
+
+vi.mock('@/lib/auth', () => ({
+  getCurrentUser: vi.fn(),
+}))
+
+describe('GET /api/auth/session', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should report an active session', async () => {
+    vi.mocked(getCurrentUser).mockResolvedValue({ id: 'user-123', email: 'test@example.com', sessionId: 'session-1' })
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.active).toBe(true)
+  })
+
+  it('should report a revoked session as inactive', async () => {
+    vi.mocked(getCurrentUser).mockResolvedValue(null)
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.active).toBe(false)
+  })
+
+  it('should return 500 when the session check fails', async () => {
+    vi.mocked(getCurrentUser).mockRejectedValue(new Error('Database error'))
+
+    const response = await GET()
+
+    expect(response.status).toBe(500)
+  })
+})
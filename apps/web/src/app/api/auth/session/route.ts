@@ -0,0 +1,25 @@
+import { getCurrentUser } from '@/lib/auth'
+import { createSuccessResponse, handleError } from '@/lib/validation/error-handler'
+
+/**
+ * 检查登录会话状态 API
+ *
+ * @route GET /api/auth/session
+ * @description 检查当前登录会话是否仍然有效（未被吊销、未过期）。
+ * 中间件运行在 Edge Runtime，无法查询会话表，管理后台页面请求时调用本接口，
+ * 使通过会话管理吊销的会话立即失效，而不是等到访问令牌过期
+ *
+ * @auth 可选（未登录时 active 为 false）
+ *
+ * @returns {Object} 200 - 检查成功
+ * @returns {boolean} 200.data.active - 会话是否有效
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    return createSuccessResponse({ active: !!user })
+  } catch (error) {
+    return handleError(error, '检查登录状态失败')
+  }
+}
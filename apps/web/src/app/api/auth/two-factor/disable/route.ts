@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { getAuthDatabase } from '@/lib/auth'
+import { verifyPassword } from '@/lib/auth/password'
+import { initAuthDatabase } from '@/lib/auth/database'
+import { disableTwoFactor, isTwoFactorRequired, verifyTwoFactorCode } from '@/lib/auth/two-factor'
+import { twoFactorDisableSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+// 初始化认证数据库（如果尚未初始化）
+try {
+  initAuthDatabase()
+} catch {
+  // 可能已经初始化，忽略错误
+}
+
+/**
+ * 关闭两步验证 API
+ *
+ * @route POST /api/auth/two-factor/disable
+ * @description 关闭当前用户的两步验证，需要同时验证密码和验证码（或恢复码）
+ *
+ * @auth 需要用户登录
+ *
+ * @body {Object} requestBody
+ * @body {string} requestBody.password - 当前密码
+ * @body {string} requestBody.code - 验证码或恢复码
+ *
+ * @returns {Object} 200 - 关闭成功
+ * @returns {Object} 400 - 密码或验证码错误
+ * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 403 - 当前角色强制要求两步验证
+ * @returns {Object} 404 - 用户不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('请先登录')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误')
+    }
+
+    const validation = safeValidate(twoFactorDisableSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { password, code } = validation.data
+
+    const userRecord = await getAuthDatabase().findUserByEmail(user.email)
+    if (!userRecord) {
+      return ApiError.notFound('用户不存在')
+    }
+
+    if (isTwoFactorRequired(userRecord.role)) {
+      return ApiError.forbidden('管理员账户必须启用两步验证')
+    }
+
+    if (!userRecord.password_hash || !(await verifyPassword(password, userRecord.password_hash))) {
+      return ApiError.validation('当前密码错误')
+    }
+
+    if (!(await verifyTwoFactorCode(user.id, code))) {
+      return ApiError.validation('验证码错误')
+    }
+
+    await disableTwoFactor(user.id)
+
+    return createSuccessResponse({
+      success: true,
+      message: '两步验证已关闭',
+    })
+  } catch (error) {
+    return handleError(error, '关闭两步验证失败')
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * 启用两步验证 API 路由测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+import { checkRateLimit } from '@/middleware-rate-limit'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { enableTwoFactor, verifyTwoFactorChallenge } from '@/lib/auth/two-factor'
+import { startLoginSession } from '@/lib/auth/sessions'
+
+vi.mock('@/middleware-rate-limit', () => ({
+  checkRateLimit: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/api-helpers', () => ({
+  getCurrentUser: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/database', () => ({
+  initAuthDatabase: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/sessions', () => ({
+  getClientInfo: vi.fn().mockReturnValue({ ipAddress: '203.0.113.7', userAgent: 'vitest' }),
+  startLoginSession: vi.fn(),
+}))
+
+vi.mock('@/lib/auth/two-factor', () => ({
+  enableTwoFactor: vi.fn(),
+  verifyTwoFactorChallenge: vi.fn(),
+}))
+
+const user = { id: 'user-1', email: 'admin@example.com' }
+
+function enable(body: Record<string, unknown>) {
+  return POST(createMockRequest('http://localhost:3000/api/auth/two-factor/enable', {
+    method: 'POST',
+    body,
+  }))
+}
+
+describe('POST /api/auth/two-factor/enable', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(checkRateLimit).mockResolvedValue({
+      allowed: true,
+      remaining: 4,
+      resetAt: Date.now() + 60000,
+    })
+    vi.mocked(getCurrentUser).mockResolvedValue(user)
+    vi.mocked(enableTwoFactor).mockResolvedValue(['AAAA-BBBB'])
+  })
+
+  it('should enable two-factor and return recovery codes', async () => {
+    const response = await enable({ code: '123456' })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data).toEqual({ recoveryCodes: ['AAAA-BBBB'], loggedIn: false })
+    expect(enableTwoFactor).toHaveBeenCalledWith(user.id, '123456')
+  })
+
+  it('should rate limit setup attempts by user and IP', async () => {
+    vi.mocked(checkRateLimit).mockResolvedValue({
+      allowed: false,
+      remaining: 0,
+      resetAt: Date.now() + 30000,
+    })
+
+    const response = await enable({ code: '123456' })
+    const data = await response.json()
+
+    expect(response.status).toBe(429)
+    expect(data.error.code).toBe('RATE_LIMIT_EXCEEDED')
+    expect(response.headers.get('Retry-After')).toBeTruthy()
+    expect(checkRateLimit).toHaveBeenCalledWith('two-factor-setup:user-1:203.0.113.7', 5, 60000)
+    expect(enableTwoFactor).not.toHaveBeenCalled()
+  })
+
+  it('should rate limit attempts made with a setup challenge token', async () => {
+    vi.mocked(verifyTwoFactorChallenge).mockResolvedValue(user)
+    vi.mocked(checkRateLimit).mockResolvedValue({
+      allowed: false,
+      remaining: 0,
+      resetAt: Date.now() + 30000,
+    })
+
+    const response = await enable({ code: '123456', challengeToken: 'challenge' })
+
+    expect(response.status).toBe(429)
+    expect(verifyTwoFactorChallenge).toHaveBeenCalledWith('challenge', 'setup')
+    expect(startLoginSession).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 for a wrong code', async () => {
+    vi.mocked(enableTwoFactor).mockResolvedValue(null)
+
+    const response = await enable({ code: '000000' })
+
+    expect(response.status).toBe(400)
+  })
+})
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/middleware-rate-limit'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { initAuthDatabase } from '@/lib/auth/database'
+import { getClientInfo, startLoginSession } from '@/lib/auth/sessions'
+import { enableTwoFactor, verifyTwoFactorChallenge } from '@/lib/auth/two-factor'
+import { twoFactorEnableSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+// 初始化认证数据库（如果尚未初始化）
+try {
+  initAuthDatabase()
+} catch {
+  // 可能已经初始化，忽略错误
+}
+
+/**
+ * 启用两步验证 API
+ *
+ * @route POST /api/auth/two-factor/enable
+ * @description 提交验证器显示的验证码确认绑定，成功后返回一组恢复码（仅返回一次）。
+ * 通过绑定挑战令牌调用时（管理员首次登录强制绑定），启用后同时完成登录
+ *
+ * @auth 需要用户登录，或提供登录接口签发的绑定挑战令牌
+ *
+ * @security
+ * - 基于用户和 IP 的速率限制（5 次/分钟），防止暴力枚举绑定验证码
+ *
+ * @body {Object} requestBody
+ * @body {string} requestBody.code - 6 位验证码
+ * @body {string} [requestBody.challengeToken] - 绑定挑战令牌（未登录时必填）
+ *
+ * @returns {Object} 200 - 启用成功
+ * @returns {string[]} 200.data.recoveryCodes - 恢复码
+ * @returns {boolean} 200.data.loggedIn - 是否同时完成了登录
+ *
+ * @returns {Object} 400 - 验证码错误或尚未开始绑定
+ * @returns {Object} 401 - 未授权
+ * @returns {Object} 429 - 请求过于频繁
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误')
+    }
+
+    const validation = safeValidate(twoFactorEnableSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { code, challengeToken } = validation.data
+    const user = challengeToken
+      ? await verifyTwoFactorChallenge(challengeToken, 'setup')
+      : await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized(challengeToken ? '登录已过期，请重新登录' : '请先登录')
+    }
+
+    const { ipAddress } = getClientInfo(request)
+    const rateLimit = await checkRateLimit(`two-factor-setup:${user.id}:${ipAddress || 'unknown'}`, 5, 60 * 1000)
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.ceil((rateLimit.resetAt - Date.now()) / 1000)
+      return NextResponse.json(
+        {
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: `验证尝试过于频繁，请 ${retryAfter} 秒后再试`,
+          },
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': retryAfter.toString() },
+        }
+      )
+    }
+
+    const recoveryCodes = await enableTwoFactor(user.id, code)
+    if (!recoveryCodes) {
+      return ApiError.validation('验证码错误，请确认验证器时间正确后重试')
+    }
+
+    if (challengeToken) {
+      await startLoginSession(request, user, 'totp')
+    }
+
+    return createSuccessResponse({
+      recoveryCodes,
+      loggedIn: !!challengeToken,
+    })
+  } catch (error) {
+    return handleError(error, '启用两步验证失败')
+  }
+}
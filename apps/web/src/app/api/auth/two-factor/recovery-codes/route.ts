@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { initAuthDatabase } from '@/lib/auth/database'
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from '@/lib/auth/two-factor'
+import { twoFactorCodeSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+// 初始化认证数据库（如果尚未初始化）
+try {
+  initAuthDatabase()
+} catch {
+  // 可能已经初始化，忽略错误
+}
+
+/**
+ * 重新生成恢复码 API
+ *
+ * @route POST /api/auth/two-factor/recovery-codes
+ * @description 验证当前验证码后生成一组新的恢复码，旧恢复码全部作废
+ *
+ * @auth 需要用户登录且已启用两步验证
+ *
+ * @body {Object} requestBody
+ * @body {string} requestBody.code - 6 位验证码
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {string[]} 200.data.recoveryCodes - 新恢复码（仅返回一次）
+ *
+ * @returns {Object} 400 - 验证码错误或未启用两步验证
+ * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('请先登录')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误')
+    }
+
+    const validation = safeValidate(twoFactorCodeSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    // 只接受验证器验证码，避免用恢复码换取新恢复码
+    if ((await verifyTwoFactorCode(user.id, validation.data.code)) !== 'totp') {
+      return ApiError.validation('验证码错误')
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id)
+
+    return createSuccessResponse({ recoveryCodes })
+  } catch (error) {
+    return handleError(error, '生成恢复码失败')
+  }
+}
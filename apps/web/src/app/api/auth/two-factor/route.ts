@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { initAuthDatabase } from '@/lib/auth/database'
+import { getTwoFactorStatus } from '@/lib/auth/two-factor'
+import { handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+// 初始化认证数据库（如果尚未初始化）
+try {
+  initAuthDatabase()
+} catch {
+  // 可能已经初始化，忽略错误
+}
+
+/**
+ * 两步验证状态 API
+ *
+ * @route GET /api/auth/two-factor
+ * @description 获取当前用户的两步验证状态
+ *
+ * @auth 需要用户登录
+ *
+ * @returns {Object} 200 - 成功返回状态
+ * @returns {boolean} 200.data.enabled - 是否已启用
+ * @returns {boolean} 200.data.required - 当前角色是否强制启用
+ * @returns {number} 200.data.recoveryCodesRemaining - 剩余恢复码数量
+ *
+ * @returns {Object} 401 - 未授权（需要登录）
+ * @returns {Object} 404 - 用户不存在
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized('请先登录')
+    }
+
+    const status = await getTwoFactorStatus(user.id)
+    if (!status) {
+      return ApiError.notFound('用户不存在')
+    }
+
+    return createSuccessResponse(status)
+  } catch (error) {
+    return handleError(error, '获取两步验证状态失败')
+  }
+}
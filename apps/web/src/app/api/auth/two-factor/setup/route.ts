@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { initAuthDatabase } from '@/lib/auth/database'
+import {
+  beginTwoFactorSetup,
+  getTwoFactorStatus,
+  verifyTwoFactorChallenge,
+} from '@/lib/auth/two-factor'
+import { twoFactorSetupSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+// 初始化认证数据库（如果尚未初始化）
+try {
+  initAuthDatabase()
+} catch {
+  // 可能已经初始化，忽略错误
+}
+
+/**
+ * 开始绑定验证器 API
+ *
+ * @route POST /api/auth/two-factor/setup
+ * @description 生成新的 TOTP 密钥，返回给前端展示二维码。密钥在 /enable 确认前不会生效
+ *
+ * @auth 需要用户登录，或提供登录接口签发的绑定挑战令牌（强制启用两步验证的管理员首次登录）
+ *
+ * @body {Object} requestBody
+ * @body {string} [requestBody.challengeToken] - 绑定挑战令牌（未登录时必填）
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {string} 200.data.secret - Base32 密钥（用于手动输入）
+ * @returns {string} 200.data.otpauthUrl - 扫码链接
+ *
+ * @returns {Object} 401 - 未授权
+ * @returns {Object} 404 - 用户不存在
+ * @returns {Object} 409 - 已启用两步验证
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown = {}
+    try {
+      body = await request.json()
+    } catch {
+      // 允许空请求体（已登录用户）
+    }
+
+    const validation = safeValidate(twoFactorSetupSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { challengeToken } = validation.data
+    const user = challengeToken
+      ? await verifyTwoFactorChallenge(challengeToken, 'setup')
+      : await getCurrentUser(request)
+    if (!user) {
+      return ApiError.unauthorized(challengeToken ? '登录已过期，请重新登录' : '请先登录')
+    }
+
+    const status = await getTwoFactorStatus(user.id)
+    if (!status) {
+      return ApiError.notFound('用户不存在')
+    }
+    if (status.enabled) {
+      return ApiError.conflict('已启用两步验证，请先关闭后再重新绑定')
+    }
+
+    const setup = await beginTwoFactorSetup(user.id)
+    if (!setup) {
+      return ApiError.notFound('用户不存在')
+    }
+
+    return createSuccessResponse(setup)
+  } catch (error) {
+    return handleError(error, '绑定验证器失败')
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/middleware-rate-limit'
+import { initAuthDatabase } from '@/lib/auth/database'
+import { getClientInfo, recordLoginAttempt, startLoginSession } from '@/lib/auth/sessions'
+import { verifyTwoFactorChallenge, verifyTwoFactorCode } from '@/lib/auth/two-factor'
+import { twoFactorLoginSchema } from '@/lib/validation/schemas'
+import {
+  safeValidate,
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+
+// 初始化认证数据库（如果尚未初始化）
+try {
+  initAuthDatabase()
+} catch {
+  // 可能已经初始化，忽略错误
+}
+
+/**
+ * 两步验证登录 API
+ *
+ * @route POST /api/auth/two-factor/verify
+ * @description 密码验证通过后，提交验证器验证码或恢复码完成登录
+ *
+ * @security
+ * - 挑战令牌 5 分钟有效，只能由 /api/auth/login 签发
+ * - 基于用户的速率限制（5 次/分钟），防止暴力枚举验证码
+ * - 同一验证码不能重复使用，恢复码使用后立即作废
+ *
+ * @body {Object} requestBody
+ * @body {string} requestBody.challengeToken - 登录接口返回的挑战令牌
+ * @body {string} requestBody.code - 6 位验证码或恢复码
+ *
+ * @returns {Object} 200 - 登录成功（已设置会话 Cookie）
+ * @returns {Object} 200.data.user - 用户信息
+ * @returns {string} 200.data.method - totp / recovery_code
+ *
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 401 - 挑战令牌无效或已过期、验证码错误
+ * @returns {Object} 429 - 请求过于频繁
+ * @returns {Object} 500 - 服务器内部错误
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误')
+    }
+
+    const validation = safeValidate(twoFactorLoginSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const { challengeToken, code } = validation.data
+
+    const user = await verifyTwoFactorChallenge(challengeToken, 'verify')
+    if (!user) {
+      return ApiError.unauthorized('登录已过期，请重新登录')
+    }
+
+    const rateLimit = await checkRateLimit(`two-factor:user:${user.id}`, 5, 60 * 1000)
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.ceil((rateLimit.resetAt - Date.now()) / 1000)
+      return NextResponse.json(
+        {
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: `验证尝试过于频繁，请 ${retryAfter} 秒后再试`,
+          },
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': retryAfter.toString() },
+        }
+      )
+    }
+
+    const method = await verifyTwoFactorCode(user.id, code)
+    if (!method) {
+      const { ipAddress, userAgent } = getClientInfo(request)
+      await recordLoginAttempt({
+        user_id: user.id,
+        email: user.email,
+        success: false,
+        method: 'totp',
+        failure_reason: 'invalid_two_factor_code',
+        ip_address: ipAddress,
+        user_agent: userAgent,
+      })
+      return createErrorResponse(ErrorCode.INVALID_CREDENTIALS, '验证码错误', undefined, 401)
+    }
+
+    await startLoginSession(request, user, method)
+
+    return createSuccessResponse({
+      success: true,
+      user,
+      method,
+    })
+  } catch (error) {
+    return handleError(error, '两步验证失败')
+  }
+}
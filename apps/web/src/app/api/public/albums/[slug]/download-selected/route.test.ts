@@ -20,6 +20,21 @@ vi.mock('@/lib/database', () => {
   }
 })
 
+vi.mock('@/lib/middleware/guest-auth', () => ({
+  getGuestSession: vi.fn(),
+  getGuestSelectedPhotoIds: vi.fn(),
+}))
+
+vi.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/download-fingerprints', () => ({
+  isDownloadFingerprintEnabled: vi.fn(),
+  createDownloadFingerprint: vi.fn(),
+  getFingerprintedDownloadUrl: (photoId: string, code: string) => `/api/public/download/${photoId}/file?code=${code}`,
+}))
+
 // Mock global fetch for Worker API calls
 const originalFetch = global.fetch
 let mockFetch: ReturnType<typeof vi.fn>
@@ -36,6 +51,13 @@ describe('GET /api/public/albums/[slug]/download-selected', () => {
     
     const { createAdminClient } = await import('@/lib/database')
     mockAdminClient = await createAdminClient()
+
+    const { getGuestSession, getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+    vi.mocked(getGuestSession).mockResolvedValue({ id: 'session-1', submitted_at: null } as any)
+    vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['photo-1', 'photo-2'])
+
+    const { isDownloadFingerprintEnabled } = await import('@/lib/download-fingerprints')
+    vi.mocked(isDownloadFingerprintEnabled).mockResolvedValue(false)
   })
 
   afterEach(() => {
@@ -163,10 +185,12 @@ describe('GET /api/public/albums/[slug]/download-selected', () => {
         error: null,
       })
 
-      // Mock photos query - 需要链式调用：select().eq().eq().eq().order()
+      // Mock photos query - 需要链式调用：select().eq().in().eq().is().order()
       const mockQuery2 = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockReturnThis(),
       }
       mockQuery2.order.mockResolvedValue({
@@ -227,6 +251,15 @@ describe('GET /api/public/albums/[slug]/download-selected', () => {
       expect(data.data.photos[1].filename).toBe('photo2.jpg')
       expect(data.data.photos[1].url).toBe('https://presigned-url-2.com/photo-2.jpg')
       
+      expect(mockQuery2.in).toHaveBeenCalledWith('id', ['photo-1', 'photo-2'])
+
+      const { recordAnalyticsEvent } = await import('@/lib/analytics')
+      expect(recordAnalyticsEvent).toHaveBeenCalledWith(request, {
+        event: 'batch_download',
+        albumId: 'album-123',
+        metadata: { photo_count: 2 },
+      })
+
       // Verify Worker API was called correctly
       expect(mockFetch).toHaveBeenCalledTimes(2)
       expect(mockFetch).toHaveBeenCalledWith(
@@ -241,6 +274,49 @@ describe('GET /api/public/albums/[slug]/download-selected', () => {
       )
     })
 
+    it('should return fingerprinted file links when download fingerprint is enabled', async () => {
+      const { isDownloadFingerprintEnabled, createDownloadFingerprint } = await import('@/lib/download-fingerprints')
+      vi.mocked(isDownloadFingerprintEnabled).mockResolvedValue(true)
+      vi.mocked(createDownloadFingerprint).mockResolvedValue('3f2a9c01b7e4')
+
+      mockAdminClient.from
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          is: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: { id: 'album-123', title: 'Test Album', allow_download: true, allow_batch_download: true },
+            error: null,
+          }),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
+          is: vi.fn().mockReturnThis(),
+          order: vi.fn().mockResolvedValue({
+            data: [{ id: 'photo-1', filename: 'photo1.jpg', original_key: 'raw/album-123/photo-1.jpg' }],
+            error: null,
+          }),
+        })
+
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-slug/download-selected')
+      const response = await GET(request, { params: Promise.resolve({ slug: 'test-slug' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.photos).toEqual([
+        { id: 'photo-1', filename: 'photo1.jpg', url: '/api/public/download/photo-1/file?code=3f2a9c01b7e4' },
+      ])
+      expect(createDownloadFingerprint).toHaveBeenCalledWith(request, {
+        source: 'batch_download',
+        albumId: 'album-123',
+        shareLinkId: null,
+        guestSessionId: 'session-1',
+      })
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
     it('should return 400 if no photos are selected', async () => {
       const mockAlbum = {
         id: 'album-123',
@@ -260,6 +336,8 @@ describe('GET /api/public/albums/[slug]/download-selected', () => {
       const mockQuery2 = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockReturnThis(),
       }
       mockQuery2.order.mockResolvedValue({
@@ -284,6 +362,50 @@ describe('GET /api/public/albums/[slug]/download-selected', () => {
       expect(data.error.code).toBe('VALIDATION_ERROR')
       expect(data.error.message).toContain('没有已选照片')
     })
+
+    it('should return 400 if guest has not selected any photo', async () => {
+      const { getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue([])
+
+      mockAdminClient.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: 'album-123', title: 'Test Album', allow_download: true, allow_batch_download: true },
+          error: null,
+        }),
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-slug/download-selected')
+      const response = await GET(request, { params: Promise.resolve({ slug: 'test-slug' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(mockAdminClient.from).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return 401 if guest session is missing', async () => {
+      const { getGuestSession } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSession).mockResolvedValue(null)
+
+      mockAdminClient.from.mockReturnValueOnce({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({
+          data: { id: 'album-123', title: 'Test Album', allow_download: true, allow_batch_download: true },
+          error: null,
+        }),
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-slug/download-selected')
+      const response = await GET(request, { params: Promise.resolve({ slug: 'test-slug' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.error.code).toBe('GUEST_SESSION_REQUIRED')
+    })
   })
 
   describe('error handling', () => {
@@ -315,6 +437,8 @@ describe('GET /api/public/albums/[slug]/download-selected', () => {
       const mockQuery2 = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
         order: vi.fn().mockReturnThis(),
       }
       mockQuery2.order.mockResolvedValue({
@@ -1,7 +1,22 @@
 import { NextRequest } from 'next/server'
 import { createAdminClient } from '@/lib/database'
 import { albumSlugSchema } from '@/lib/validation/schemas'
-import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import {
+  safeValidate,
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+import { getGuestSession, getGuestSelectedPhotoIds } from '@/lib/middleware/guest-auth'
+import { getAlbumVisitorPermissions } from '@/lib/middleware/album-auth'
+import { recordAnalyticsEvent } from '@/lib/analytics'
+import {
+  createDownloadFingerprint,
+  getFingerprintedDownloadUrl,
+  isDownloadFingerprintEnabled,
+} from '@/lib/download-fingerprints'
 
 interface RouteParams {
   params: Promise<{ slug: string }>
@@ -11,9 +26,9 @@ interface RouteParams {
  * 批量下载已选照片 API
  * 
  * @route GET /api/public/albums/[slug]/download-selected
- * @description 获取所有已选照片的下载链接列表，用于批量下载
+ * @description 获取当前访客已选照片的下载链接列表，用于批量下载
  * 
- * @auth 无需认证（公开接口，但需要相册允许批量下载）
+ * @auth 需要访客选片会话（Cookie），且相册允许批量下载（通过分享链接进入的访客还需要链接允许下载）
  * 
  * @param {string} slug - 相册标识（URL友好格式）
  * 
@@ -24,11 +39,13 @@ interface RouteParams {
  * @returns {string} 200.data.downloads[].filename - 文件名
  * @returns {number} 200.data.totalCount - 已选照片总数
  * 
+ * @returns {Object} 401 - 未建立访客身份（GUEST_SESSION_REQUIRED）
  * @returns {Object} 403 - 禁止访问（相册不允许下载或不允许批量下载）
  * @returns {Object} 404 - 相册不存在
  * @returns {Object} 500 - 服务器内部错误
  * 
- * @note 仅返回已选中的照片（is_selected=true）的下载链接
+ * @note 仅返回当前访客选片列表中的照片，其他访客的选片不会包含在内
+ * @note 后台开启下载指纹时登记本次批量下载，返回实时嵌入不可见指纹的文件链接（10 分钟内有效），不再生成 presigned URL
  */
 export async function GET(req: NextRequest, { params }: RouteParams) {
   try {
@@ -45,8 +62,8 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 
     // 1. 获取相册信息
     const albumResult = await db
-      .from<{ id: string; title: string | null; allow_download: boolean; allow_batch_download: boolean }>('albums')
-      .select('id, title, allow_download, allow_batch_download')
+      .from<{ id: string; slug: string; title: string | null; allow_download: boolean; allow_batch_download: boolean }>('albums')
+      .select('id, slug, title, allow_download, allow_batch_download')
       .eq('slug', slug)
       .is('deleted_at', null)
       .single()
@@ -58,21 +75,33 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
     const album = albumResult.data
 
     // 2. 检查是否允许下载
-    if (!album.allow_download) {
-      return ApiError.forbidden('此相册不允许下载')
+    const permissions = await getAlbumVisitorPermissions(req, album)
+    if (!permissions.canDownload) {
+      return ApiError.forbidden(permissions.shareLink ? '当前分享链接不允许下载' : '此相册不允许下载')
     }
 
     if (!album.allow_batch_download) {
       return ApiError.forbidden('此相册不允许批量下载')
     }
 
-    // 3. 获取所有已选照片
+    // 3. 获取当前访客的选片列表
+    const session = await getGuestSession(req, album.id)
+    if (!session) {
+      return createErrorResponse(ErrorCode.GUEST_SESSION_REQUIRED, '请先填写姓名再开始选片', undefined, 401)
+    }
+
+    const selectedPhotoIds = await getGuestSelectedPhotoIds(session.id)
+    if (selectedPhotoIds.length === 0) {
+      return ApiError.badRequest('没有已选照片')
+    }
+
     const photosResult = await db
       .from<{ id: string; filename: string | null; original_key: string | null }>('photos')
       .select('id, filename, original_key')
       .eq('album_id', album.id)
-      .eq('is_selected', true)
+      .in('id', selectedPhotoIds)
       .eq('status', 'completed')
+      .is('deleted_at', null)
       .order('sort_order', { ascending: true })
 
     if (photosResult.error) {
@@ -85,7 +114,33 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       return ApiError.badRequest('没有已选照片')
     }
 
-    // 4. 通过 Worker API 生成 presigned URL
+    // 4. 开启下载指纹时，所有照片共用本次批量下载的指纹编号
+    if (await isDownloadFingerprintEnabled()) {
+      const code = await createDownloadFingerprint(req, {
+        source: 'batch_download',
+        albumId: album.id,
+        shareLinkId: permissions.shareLink?.linkId ?? null,
+        guestSessionId: session.id,
+      })
+
+      await recordAnalyticsEvent(req, {
+        event: 'batch_download',
+        albumId: album.id,
+        metadata: { photo_count: photos.length },
+      })
+
+      return createSuccessResponse({
+        albumTitle: album.title,
+        count: photos.length,
+        photos: photos.map((photo) => ({
+          id: photo.id,
+          filename: photo.filename,
+          url: getFingerprintedDownloadUrl(photo.id, code),
+        })),
+      })
+    }
+
+    // 5. 通过 Worker API 生成 presigned URL
     const workerUrl = process.env.WORKER_API_URL || process.env.WORKER_URL || process.env.NEXT_PUBLIC_WORKER_URL || 'http://localhost:3001'
     const workerApiKey = process.env.WORKER_API_KEY
     
@@ -137,6 +192,12 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       return handleError(new Error('无法生成下载链接'), '无法生成下载链接')
     }
 
+    await recordAnalyticsEvent(req, {
+      event: 'batch_download',
+      albumId: album.id,
+      metadata: { photo_count: validLinks.length },
+    })
+
     return createSuccessResponse({
       albumTitle: album.title,
       count: validLinks.length,
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/database'
+import { createPhotoEventStream, type PhotoEvent } from '@/lib/photo-events'
+import { PUBLIC_PHOTO_COLUMNS, toPublicPhoto, type PublicPhotoRow } from '@/lib/public-photos'
+import { albumSlugSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError, createErrorResponse, ErrorCode } from '@/lib/validation/error-handler'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+type PublicPhoto = ReturnType<typeof toPublicPhoto>
+
+/** 同一事件在同一进程内只查询一次照片（多个访客连接共享） */
+const photoLookups = new Map<string, Promise<PublicPhoto | null>>()
+const PHOTO_LOOKUP_TTL_MS = 10000
+
+/**
+ * 查询新可见照片的访客端数据
+ */
+function lookupPublicPhoto(event: PhotoEvent): Promise<PublicPhoto | null> {
+  const key = `${event.photo_id}@${event.at}`
+  let lookup = photoLookups.get(key)
+  if (!lookup) {
+    lookup = createAdminClient()
+      .then((db) =>
+        db
+          .from<PublicPhotoRow>('photos')
+          .select(PUBLIC_PHOTO_COLUMNS)
+          .eq('id', event.photo_id)
+          .eq('album_id', event.album_id)
+          .eq('status', 'completed')
+          .is('deleted_at', null)
+          .maybeSingle()
+      )
+      .then((result) => (result.data ? toPublicPhoto(result.data, event.album_id) : null))
+    photoLookups.set(key, lookup)
+    setTimeout(() => photoLookups.delete(key), PHOTO_LOOKUP_TTL_MS)
+  }
+  return lookup
+}
+
+/**
+ * 访客端照片实时事件 API（Server-Sent Events）
+ *
+ * @route GET /api/public/albums/[slug]/events
+ * @description 直播相册的新照片和删除事件推送，替代轮询
+ *
+ * 推送数据（默认 message 事件）：
+ * - `{ type: 'insert', photo_id, photo }`：新照片可见
+ * - `{ type: 'delete', photo_id }`：照片被删除
+ *
+ * @returns {Stream} 200 - text/event-stream
+ * @returns {Object} 403 - 相册已过期或未开启直播模式
+ * @returns {Object} 404 - 相册不存在
+ * @returns {Object} 503 - 实时推送未启用（客户端应回退到轮询）
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const slugValidation = safeValidate(albumSlugSchema, paramsData)
+    if (!slugValidation.success) {
+      return handleError(slugValidation.error, '无效的相册标识')
+    }
+
+    const { slug } = slugValidation.data
+    const db = await createClient()
+
+    const albumResult = await db
+      .from<{ id: string; is_live: boolean; expires_at: string | null; allow_share: boolean }>('albums')
+      .select('id, is_live, expires_at, allow_share')
+      .eq('slug', slug)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const album = albumResult.data
+
+    if (album.allow_share === false) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    if (album.expires_at && new Date(album.expires_at) < new Date()) {
+      return ApiError.forbidden('相册已过期')
+    }
+
+    if (!album.is_live) {
+      return ApiError.forbidden('相册未开启直播模式')
+    }
+
+    const response = await createPhotoEventStream(request, album.id, async (event) => {
+      if (event.type === 'delete') {
+        return { type: 'delete' as const, photo_id: event.photo_id }
+      }
+      if (event.type !== 'insert') {
+        return null
+      }
+      const photo = await lookupPublicPhoto(event)
+      return photo ? { type: 'insert' as const, photo_id: event.photo_id, photo } : null
+    })
+
+    if (!response) {
+      return createErrorResponse(ErrorCode.INTERNAL_ERROR, '实时推送未启用', undefined, 503)
+    }
+
+    return response
+  } catch (error) {
+    return handleError(error, '订阅相册更新失败')
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * 访客选片会话 API 路由测试
+ *
+ * 测试 GET 和 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET, POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+      insert: vi.fn(),
+      update: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/middleware/guest-auth', () => ({
+  getGuestSession: vi.fn(),
+  getGuestSelectedPhotoIds: vi.fn(),
+}))
+
+vi.mock('@/middleware-rate-limit', () => ({
+  checkRateLimit: vi.fn(),
+}))
+
+vi.mock('@/lib/guest-session', () => ({
+  generateGuestSessionToken: vi.fn().mockReturnValue('guest-token'),
+  getGuestSessionCookieName: vi.fn((albumId: string) => `guest_session_${albumId}`),
+  getGuestSessionCookieOptions: vi.fn().mockReturnValue({ httpOnly: true, path: '/' }),
+}))
+
+const albumId = '550e8400-e29b-41d4-a716-446655440001'
+
+const mockSession = {
+  id: '550e8400-e29b-41d4-a716-446655440099',
+  album_id: albumId,
+  guest_name: '张三',
+  guest_phone: '13800000000',
+  share_link_id: null,
+  submitted_at: null,
+  last_active_at: '2024-01-01T00:00:00Z',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+}
+
+/**
+ * 构造相册查询 mock
+ */
+function mockAlbumQuery(album: Record<string, unknown> | null) {
+  mockAdminClient.from.mockReturnValue({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({
+      data: album,
+      error: album ? null : { message: 'Not found' },
+    }),
+  })
+}
+
+const defaultAlbum = {
+  id: albumId,
+  expires_at: null,
+  allow_share: true,
+  max_selection: 20,
+}
+
+describe('GET /api/public/albums/[slug]/guest-session', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+
+    const { getGuestSession, getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+    vi.mocked(getGuestSession).mockResolvedValue(null)
+    vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue([])
+  })
+
+  it('should return null session when guest has no identity', async () => {
+    mockAlbumQuery(defaultAlbum)
+
+    const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session')
+    const response = await GET(request, { params: Promise.resolve({ slug: 'test-album' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.maxSelection).toBe(20)
+    expect(data.data.session).toBeNull()
+    expect(response.headers.get('Cache-Control')).toContain('no-store')
+  })
+
+  it('should return current session with selected photos', async () => {
+    mockAlbumQuery(defaultAlbum)
+
+    const { getGuestSession, getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+    vi.mocked(getGuestSession).mockResolvedValue(mockSession)
+    vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['photo-1', 'photo-2'])
+
+    const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session')
+    const response = await GET(request, { params: Promise.resolve({ slug: 'test-album' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.session.id).toBe(mockSession.id)
+    expect(data.data.session.guestName).toBe('张三')
+    expect(data.data.session.selectedPhotoIds).toEqual(['photo-1', 'photo-2'])
+    expect(data.data.session.selectedCount).toBe(2)
+  })
+
+  it('should return 404 if album does not exist', async () => {
+    mockAlbumQuery(null)
+
+    const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session')
+    const response = await GET(request, { params: Promise.resolve({ slug: 'test-album' }) })
+    const data = await response.json()
+
+    expect(response.status).toBe(404)
+    expect(data.error.code).toBe('NOT_FOUND')
+  })
+
+  it('should return 403 if album is expired', async () => {
+    mockAlbumQuery({ ...defaultAlbum, expires_at: '2000-01-01T00:00:00Z' })
+
+    const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session')
+    const response = await GET(request, { params: Promise.resolve({ slug: 'test-album' }) })
+
+    expect(response.status).toBe(403)
+  })
+})
+
+describe('POST /api/public/albums/[slug]/guest-session', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+
+    const { getGuestSession, getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+    vi.mocked(getGuestSession).mockResolvedValue(null)
+    vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue([])
+
+    const { checkRateLimit } = await import('@/middleware-rate-limit')
+    vi.mocked(checkRateLimit).mockResolvedValue({ allowed: true, remaining: 9, resetAt: Date.now() + 600000 })
+  })
+
+  describe('request validation', () => {
+    it('should return 400 for invalid JSON body', async () => {
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session', {
+        method: 'POST',
+        body: 'invalid-json',
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ slug: 'test-album' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should return 400 if guest name is empty', async () => {
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session', {
+        method: 'POST',
+        body: { guestName: '   ' },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ slug: 'test-album' }) })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 400 for invalid phone number', async () => {
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session', {
+        method: 'POST',
+        body: { guestName: '张三', guestPhone: 'abc' },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ slug: 'test-album' }) })
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('session creation', () => {
+    it('should create session and set cookie', async () => {
+      mockAlbumQuery(defaultAlbum)
+      mockAdminClient.insert.mockResolvedValue({ data: [mockSession], error: null })
+
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session', {
+        method: 'POST',
+        body: { guestName: '张三', guestPhone: '13800000000' },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ slug: 'test-album' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.data.session.id).toBe(mockSession.id)
+      expect(data.data.session.selectedCount).toBe(0)
+      expect(mockAdminClient.insert).toHaveBeenCalledWith('guest_sessions', {
+        album_id: albumId,
+        guest_name: '张三',
+        guest_phone: '13800000000',
+        share_link_id: null,
+      })
+      expect(response.cookies.get(`guest_session_${albumId}`)?.value).toBe('guest-token')
+    })
+
+    it('should update existing session instead of creating a new one', async () => {
+      mockAlbumQuery(defaultAlbum)
+
+      const { getGuestSession, getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSession).mockResolvedValue(mockSession)
+      vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['photo-1'])
+      mockAdminClient.update.mockResolvedValue({
+        data: [{ ...mockSession, guest_name: '李四' }],
+        error: null,
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session', {
+        method: 'POST',
+        body: { guestName: '李四' },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ slug: 'test-album' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.session.guestName).toBe('李四')
+      expect(data.data.session.selectedCount).toBe(1)
+      expect(mockAdminClient.insert).not.toHaveBeenCalled()
+    })
+
+    it('should return 429 when rate limit is exceeded', async () => {
+      mockAlbumQuery(defaultAlbum)
+
+      const { checkRateLimit } = await import('@/middleware-rate-limit')
+      vi.mocked(checkRateLimit).mockResolvedValue({ allowed: false, remaining: 0, resetAt: Date.now() + 600000 })
+
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session', {
+        method: 'POST',
+        body: { guestName: '张三' },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ slug: 'test-album' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(data.error.code).toBe('RATE_LIMIT_EXCEEDED')
+      expect(mockAdminClient.insert).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 if album does not allow sharing', async () => {
+      mockAlbumQuery({ ...defaultAlbum, allow_share: false })
+
+      const request = createMockRequest('http://localhost:3000/api/public/albums/test-album/guest-session', {
+        method: 'POST',
+        body: { guestName: '张三' },
+      })
+
+      const response = await POST(request, { params: Promise.resolve({ slug: 'test-album' }) })
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { checkRateLimit } from '@/middleware-rate-limit'
+import { albumSlugSchema, createGuestSessionSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import {
+  generateGuestSessionToken,
+  getGuestSessionCookieName,
+  getGuestSessionCookieOptions,
+} from '@/lib/guest-session'
+import { getGuestSession, getGuestSelectedPhotoIds } from '@/lib/middleware/guest-auth'
+import { getAlbumVisitorPermissions } from '@/lib/middleware/album-auth'
+import type { GuestSession } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+interface AlbumRow {
+  id: string
+  slug: string
+  allow_download: boolean
+  expires_at: string | null
+  allow_share: boolean
+  max_selection: number | null
+}
+
+/**
+ * 访客选片会话 API
+ *
+ * 访客填写姓名/手机号后获得独立的选片身份（HTTP-only Cookie），
+ * 每位访客拥有自己的选片列表，互不影响。
+ */
+
+/**
+ * 查询相册并检查是否可访问
+ * @internal
+ */
+async function loadAlbum(slug: string) {
+  const db = await createAdminClient()
+  const albumResult = await db
+    .from<AlbumRow>('albums')
+    .select('id, slug, allow_download, expires_at, allow_share, max_selection')
+    .eq('slug', slug)
+    .is('deleted_at', null)
+    .single()
+
+  if (albumResult.error || !albumResult.data || albumResult.data.allow_share === false) {
+    return { error: ApiError.notFound('相册不存在') }
+  }
+
+  const album = albumResult.data
+  if (album.expires_at && new Date(album.expires_at) < new Date()) {
+    return { error: ApiError.forbidden('相册已过期') }
+  }
+
+  return { album }
+}
+
+/**
+ * 将会话记录转换为响应结构
+ * @internal
+ */
+function serializeSession(session: GuestSession, selectedPhotoIds: string[]) {
+  return {
+    id: session.id,
+    guestName: session.guest_name,
+    guestPhone: session.guest_phone,
+    submittedAt: session.submitted_at,
+    selectedPhotoIds,
+    selectedCount: selectedPhotoIds.length,
+  }
+}
+
+/**
+ * 获取当前访客的选片会话
+ *
+ * @route GET /api/public/albums/[slug]/guest-session
+ * @description 返回当前访客的身份、已选照片 ID 列表和相册的最多可选数量
+ *
+ * @auth 无需认证（通过访客 Cookie 识别身份）
+ *
+ * @returns {Object} 200 - 成功
+ * @returns {number|null} 200.data.maxSelection - 每位访客最多可选数量（null 表示不限制）
+ * @returns {Object|null} 200.data.session - 当前访客会话，未建立身份时为 null
+ *
+ * @returns {Object} 403 - 相册已过期
+ * @returns {Object} 404 - 相册不存在
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    const slugValidation = safeValidate(albumSlugSchema, paramsData)
+    if (!slugValidation.success) {
+      return handleError(slugValidation.error, '无效的相册标识')
+    }
+
+    const { album, error } = await loadAlbum(slugValidation.data.slug)
+    if (error) {
+      return error
+    }
+
+    const session = await getGuestSession(request, album.id)
+    const selectedPhotoIds = session ? await getGuestSelectedPhotoIds(session.id) : []
+
+    const response = createSuccessResponse({
+      maxSelection: album.max_selection,
+      session: session ? serializeSession(session, selectedPhotoIds) : null,
+    })
+    // 会话数据因访客而异，禁止缓存
+    response.headers.set('Cache-Control', 'private, no-cache, no-store, must-revalidate')
+    return response
+  } catch (error) {
+    return handleError(error, '获取选片会话失败')
+  }
+}
+
+/**
+ * 创建访客选片会话
+ *
+ * @route POST /api/public/albums/[slug]/guest-session
+ * @description 访客填写姓名和手机号后创建选片身份；已有身份时更新姓名和手机号。
+ * 通过分享链接进入的访客需要链接允许选片，新建的会话会记录所用的分享链接
+ *
+ * @auth 无需认证（公开接口）
+ *
+ * @body {Object} requestBody
+ * @body {string} requestBody.guestName - 访客姓名（必填）
+ * @body {string} [requestBody.guestPhone] - 访客手机号（可选）
+ *
+ * @returns {Object} 201 - 会话创建成功（同时写入访客 Cookie）
+ * @returns {Object} 200 - 已有会话，信息已更新
+ * @returns {Object} 400 - 输入验证失败
+ * @returns {Object} 403 - 当前分享链接不允许选片
+ * @returns {Object} 404 - 相册不存在
+ * @returns {Object} 429 - 创建过于频繁
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    const slugValidation = safeValidate(albumSlugSchema, paramsData)
+    if (!slugValidation.success) {
+      return handleError(slugValidation.error, '无效的相册标识')
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return ApiError.badRequest('请求体格式错误，请提供有效的JSON')
+    }
+
+    const validation = safeValidate(createGuestSessionSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '输入验证失败')
+    }
+
+    const guestName = validation.data.guestName
+    const guestPhone = validation.data.guestPhone || null
+
+    const { album, error } = await loadAlbum(slugValidation.data.slug)
+    if (error) {
+      return error
+    }
+
+    const permissions = await getAlbumVisitorPermissions(request, album)
+    if (!permissions.canSelect) {
+      return ApiError.forbidden('当前分享链接不允许选片')
+    }
+
+    const db = await createAdminClient()
+
+    // 已有身份：更新访客信息，保留选片记录
+    const existing = await getGuestSession(request, album.id)
+    if (existing) {
+      const updateResult = await db.update<GuestSession>(
+        'guest_sessions',
+        { guest_name: guestName, guest_phone: guestPhone, last_active_at: new Date().toISOString() },
+        { id: existing.id }
+      )
+      if (updateResult.error) {
+        return handleError(updateResult.error, '更新选片会话失败')
+      }
+
+      const session = updateResult.data?.[0] || existing
+      const selectedPhotoIds = await getGuestSelectedPhotoIds(session.id)
+      return createSuccessResponse({
+        maxSelection: album.max_selection,
+        session: serializeSession(session, selectedPhotoIds),
+      })
+    }
+
+    // 防止同一 IP 批量创建会话
+    const ip =
+      request.headers.get('cf-connecting-ip') ||
+      request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      request.headers.get('x-real-ip') ||
+      'unknown'
+    const rateLimit = await checkRateLimit(`guest-session:${album.id}:${ip}`, 10, 10 * 60 * 1000)
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: '操作过于频繁，请稍后再试',
+          },
+        },
+        { status: 429 }
+      )
+    }
+
+    const insertResult = await db.insert('guest_sessions', {
+      album_id: album.id,
+      guest_name: guestName,
+      guest_phone: guestPhone,
+      share_link_id: permissions.shareLink?.linkId ?? null,
+    })
+
+    if (insertResult.error) {
+      return handleError(insertResult.error, '创建选片会话失败')
+    }
+
+    const session = insertResult.data && insertResult.data.length > 0 ? (insertResult.data[0] as GuestSession) : null
+    if (!session) {
+      return ApiError.internal('创建选片会话失败')
+    }
+
+    const response = createSuccessResponse(
+      {
+        maxSelection: album.max_selection,
+        session: serializeSession(session, []),
+      },
+      201
+    )
+    response.cookies.set(
+      getGuestSessionCookieName(album.id),
+      generateGuestSessionToken(session.id, album.id),
+      getGuestSessionCookieOptions()
+    )
+    return response
+  } catch (error) {
+    return handleError(error, '创建选片会话失败')
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { albumSlugSchema } from '@/lib/validation/schemas'
+import {
+  safeValidate,
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+import { getGuestSession, getGuestSelectedPhotoIds } from '@/lib/middleware/guest-auth'
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { triggerClientNotification } from '@/lib/client-notifications'
+import type { GuestSession } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * 提交最终选片 API
+ *
+ * @route POST /api/public/albums/[slug]/guest-session/submit
+ * @description 访客确认最终选片，提交后选片列表被锁定，只有管理员解锁后才能再次修改
+ *
+ * @auth 需要访客选片会话（Cookie）
+ *
+ * @returns {Object} 200 - 提交成功
+ * @returns {string} 200.data.submittedAt - 提交时间
+ * @returns {number} 200.data.selectedCount - 提交的照片数量
+ *
+ * @returns {Object} 400 - 尚未选择任何照片
+ * @returns {Object} 401 - 未建立访客身份（GUEST_SESSION_REQUIRED）
+ * @returns {Object} 404 - 相册不存在
+ * @returns {Object} 409 - 已提交过（SELECTION_SUBMITTED）
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    const slugValidation = safeValidate(albumSlugSchema, paramsData)
+    if (!slugValidation.success) {
+      return handleError(slugValidation.error, '无效的相册标识')
+    }
+
+    const { slug } = slugValidation.data
+    const db = await createAdminClient()
+
+    const albumResult = await db
+      .from<{ id: string; title: string; expires_at: string | null }>('albums')
+      .select('id, title, expires_at')
+      .eq('slug', slug)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const album = albumResult.data
+
+    if (album.expires_at && new Date(album.expires_at) < new Date()) {
+      return ApiError.forbidden('相册已过期')
+    }
+
+    const session = await getGuestSession(request, album.id)
+    if (!session) {
+      return createErrorResponse(ErrorCode.GUEST_SESSION_REQUIRED, '请先填写姓名再开始选片', undefined, 401)
+    }
+
+    if (session.submitted_at) {
+      return createErrorResponse(ErrorCode.SELECTION_SUBMITTED, '选片已提交，如需修改请联系摄影师', undefined, 409)
+    }
+
+    const selectedPhotoIds = await getGuestSelectedPhotoIds(session.id)
+    if (selectedPhotoIds.length === 0) {
+      return ApiError.badRequest('请至少选择一张照片后再提交')
+    }
+
+    const now = new Date().toISOString()
+    const updateResult = await db.update<GuestSession>(
+      'guest_sessions',
+      { submitted_at: now, last_active_at: now },
+      { id: session.id }
+    )
+
+    if (updateResult.error) {
+      return handleError(updateResult.error, '提交选片失败')
+    }
+
+    // Webhook：访客提交选片
+    await triggerWebhookEvent('selection.submitted', album.id, {
+      album_id: album.id,
+      album_title: album.title,
+      session_id: session.id,
+      guest_name: session.guest_name,
+      guest_phone: session.guest_phone,
+      photo_ids: selectedPhotoIds,
+      selected_count: selectedPhotoIds.length,
+      submitted_at: now,
+    })
+
+    // 客户通知：已收到选片
+    await triggerClientNotification('selection_received', album.id, {
+      guest_name: session.guest_name,
+      selected_count: selectedPhotoIds.length,
+    })
+
+    return createSuccessResponse({
+      submittedAt: now,
+      selectedCount: selectedPhotoIds.length,
+    })
+  } catch (error) {
+    return handleError(error, '提交选片失败')
+  }
+}
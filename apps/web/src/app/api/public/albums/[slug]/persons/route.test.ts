@@ -0,0 +1,123 @@
+/**
+ * 公开相册人物列表 API 路由测试
+ *
+ * 测试 GET 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockSupabaseClient, mockListAlbumPersons } = vi.hoisted(() => {
+  return {
+    mockSupabaseClient: {
+      from: vi.fn(),
+    },
+    mockListAlbumPersons: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createClient: vi.fn().mockResolvedValue(mockSupabaseClient),
+}))
+
+vi.mock('@/lib/face-persons', () => ({
+  listAlbumPersons: mockListAlbumPersons,
+}))
+
+describe('GET /api/public/albums/[slug]/persons', () => {
+  const validAlbumId = '550e8400-e29b-41d4-a716-446655440000'
+
+  const mockAlbumQuery = (album: Record<string, unknown> | null) => {
+    mockSupabaseClient.from.mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue({
+        data: album,
+        error: album ? null : { message: 'Not found' },
+      }),
+    })
+  }
+
+  const callGET = async () => {
+    const request = createMockRequest('http://localhost:3000/api/public/albums/test-slug/persons')
+    return GET(request, { params: Promise.resolve({ slug: 'test-slug' }) })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return 404 if album does not exist', async () => {
+    mockAlbumQuery(null)
+
+    const response = await callGET()
+    const data = await response.json()
+
+    expect(response.status).toBe(404)
+    expect(data.error.code).toBe('NOT_FOUND')
+    expect(mockListAlbumPersons).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 if album is not shared', async () => {
+    mockAlbumQuery({ id: validAlbumId, deleted_at: null, expires_at: null, allow_share: false })
+
+    const response = await callGET()
+
+    expect(response.status).toBe(404)
+    expect(mockListAlbumPersons).not.toHaveBeenCalled()
+  })
+
+  it('should return 403 if album is expired', async () => {
+    mockAlbumQuery({
+      id: validAlbumId,
+      deleted_at: null,
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+      allow_share: true,
+    })
+
+    const response = await callGET()
+
+    expect(response.status).toBe(403)
+  })
+
+  it('should return visible persons with avatars only', async () => {
+    mockAlbumQuery({ id: validAlbumId, deleted_at: null, expires_at: null, allow_share: true })
+    mockListAlbumPersons.mockResolvedValue([
+      {
+        id: 'person-1',
+        name: '新娘',
+        is_hidden: false,
+        face_count: 12,
+        photo_count: 10,
+        thumb_key: 'processed/thumbs/a.jpg',
+        crop: { x: 0.1, y: 0.1, w: 0.2, h: 0.3 },
+      },
+      {
+        id: 'person-2',
+        name: null,
+        is_hidden: false,
+        face_count: 3,
+        photo_count: 3,
+        thumb_key: null,
+        crop: null,
+      },
+    ])
+
+    const response = await callGET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockListAlbumPersons).toHaveBeenCalledWith(validAlbumId, { minPhotos: 2 })
+    expect(data.data.persons).toEqual([
+      {
+        id: 'person-1',
+        name: '新娘',
+        photo_count: 10,
+        thumb_key: 'processed/thumbs/a.jpg',
+        crop: { x: 0.1, y: 0.1, w: 0.2, h: 0.3 },
+      },
+    ])
+  })
+})
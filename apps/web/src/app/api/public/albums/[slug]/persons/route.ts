@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/database'
+import { listAlbumPersons } from '@/lib/face-persons'
+import { albumSlugSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+/** 未命名人物至少出现在多少张照片中才展示给访客（过滤路人） */
+const MIN_GUEST_PERSON_PHOTOS = 2
+
+/**
+ * 公开相册人物 API
+ * - GET: 获取人物头像列表，访客点击头像即可筛选该人物的照片（无需上传自拍）
+ */
+
+// GET /api/public/albums/[slug]/persons - 获取人物列表
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const paramsData = await params
+
+    // 验证路径参数
+    const slugValidation = safeValidate(albumSlugSchema, paramsData)
+    if (!slugValidation.success) {
+      return handleError(slugValidation.error, '无效的相册标识')
+    }
+
+    const { slug } = slugValidation.data
+    const db = await createClient()
+
+    const albumResult = await db
+      .from<{ id: string; deleted_at: string | null; expires_at: string | null; allow_share: boolean }>('albums')
+      .select('id, deleted_at, expires_at, allow_share')
+      .eq('slug', slug)
+      .single()
+
+    if (albumResult.error || !albumResult.data || albumResult.data.deleted_at) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    const album = albumResult.data
+
+    // 检查相册是否允许分享
+    if (album.allow_share === false) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    // 检查相册是否过期
+    if (album.expires_at && new Date(album.expires_at) < new Date()) {
+      return ApiError.forbidden('相册已过期')
+    }
+
+    const persons = await listAlbumPersons(album.id, { minPhotos: MIN_GUEST_PERSON_PHOTOS })
+
+    return createSuccessResponse({
+      // 没有头像的人物无法展示
+      persons: persons
+        .filter((person) => person.thumb_key)
+        .map(({ id, name, photo_count, thumb_key, crop }) => ({ id, name, photo_count, thumb_key, crop })),
+    })
+  } catch (error) {
+    return handleError(error, '获取人物列表失败')
+  }
+}
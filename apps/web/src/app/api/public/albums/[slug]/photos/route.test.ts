@@ -9,11 +9,12 @@ import { GET } from './route'
 import { createMockRequest } from '@/test/test-utils'
 
 // Mock dependencies
-const { mockSupabaseClient } = vi.hoisted(() => {
+const { mockSupabaseClient, mockListPersonPhotoIds } = vi.hoisted(() => {
   return {
     mockSupabaseClient: {
       from: vi.fn(),
-    }
+    },
+    mockListPersonPhotoIds: vi.fn(),
   }
 })
 
@@ -22,6 +23,10 @@ vi.mock('@/lib/database', () => ({
   createAdminClient: vi.fn().mockResolvedValue(mockSupabaseClient),
 }))
 
+vi.mock('@/lib/face-persons', () => ({
+  listPersonPhotoIds: mockListPersonPhotoIds,
+}))
+
 describe('GET /api/public/albums/[slug]/photos', () => {
   let mockSupabaseClient: any
 
@@ -29,6 +34,7 @@ describe('GET /api/public/albums/[slug]/photos', () => {
   const validGroupId = '550e8400-e29b-41d4-a716-446655440001'
   const validPhotoId1 = '550e8400-e29b-41d4-a716-446655440002'
   const validPhotoId2 = '550e8400-e29b-41d4-a716-446655440003'
+  const validPersonId = '550e8400-e29b-41d4-a716-446655440004'
 
   beforeEach(async () => {
     vi.clearAllMocks()
@@ -472,6 +478,90 @@ describe('GET /api/public/albums/[slug]/photos', () => {
     })
   })
 
+  describe('person filtering', () => {
+    const mockAlbum = {
+      id: validAlbumId,
+      sort_rule: null,
+      allow_share: true,
+      expires_at: null,
+      is_public: true,
+    }
+
+    it('should return empty result if person is hidden or missing', async () => {
+      mockListPersonPhotoIds.mockResolvedValue(null)
+      mockSupabaseClient.from.mockImplementation((table: string) => {
+        if (table === 'albums') {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            single: vi.fn().mockResolvedValue({ data: mockAlbum, error: null }),
+          }
+        }
+        return {}
+      })
+
+      const request = createMockRequest(`http://localhost:3000/api/public/albums/test-slug/photos?person=${validPersonId}`)
+      const response = await GET(request, { params: Promise.resolve({ slug: 'test-slug' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.photos).toEqual([])
+      expect(mockListPersonPhotoIds).toHaveBeenCalledWith(validAlbumId, validPersonId)
+    })
+
+    it('should intersect person photos with group photos', async () => {
+      mockListPersonPhotoIds.mockResolvedValue([validPhotoId2])
+
+      const mockPhotosChain = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        in: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        offset: vi.fn().mockReturnThis(),
+        then: (resolve: any) => resolve({
+          data: [{ id: validPhotoId2, filename: 'photo2.jpg' }],
+          error: null,
+          count: 1,
+        }),
+      }
+
+      mockSupabaseClient.from.mockImplementation((table: string) => {
+        if (table === 'albums') {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockReturnThis(),
+            single: vi.fn().mockResolvedValue({ data: mockAlbum, error: null }),
+          }
+        }
+        if (table === 'photo_group_assignments') {
+          return {
+            select: vi.fn().mockReturnThis(),
+            eq: vi.fn().mockResolvedValue({
+              data: [{ photo_id: validPhotoId1 }, { photo_id: validPhotoId2 }],
+              error: null,
+            }),
+          }
+        }
+        if (table === 'photos') {
+          return mockPhotosChain
+        }
+        return {}
+      })
+
+      const request = createMockRequest(
+        `http://localhost:3000/api/public/albums/test-slug/photos?group=${validGroupId}&person=${validPersonId}`
+      )
+      const response = await GET(request, { params: Promise.resolve({ slug: 'test-slug' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.photos).toHaveLength(1)
+      expect(mockPhotosChain.in).toHaveBeenCalledWith('id', [validPhotoId2])
+    })
+  })
+
   describe('error handling', () => {
     it('should return 500 on params error', async () => {
       const request = createMockRequest('http://localhost:3000/api/public/albums/test-slug/photos')
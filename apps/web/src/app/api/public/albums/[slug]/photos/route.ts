@@ -1,27 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/database'
+import { listPersonPhotoIds } from '@/lib/face-persons'
 import { albumSlugSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+import { PUBLIC_PHOTO_COLUMNS, toPublicPhoto, type PublicPhotoRow } from '@/lib/public-photos'
 
 interface RouteParams {
   params: Promise<{ slug: string }>
 }
 
-interface PhotoRow {
-  id: string
-  thumb_key: string | null
-  preview_key: string | null
-  original_key: string | null
-  filename: string | null
-  width: number | null
-  height: number | null
-  exif: Record<string, unknown> | null
-  blur_data: string | null
-  captured_at: string | null
-  is_selected: boolean
-  updated_at: string | null
-}
-
 /**
  * 访客照片列表 API
  */
@@ -45,6 +32,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const page = Math.max(1, parseInt(pageRaw) || 1) // 确保页码至少为1
     const limit = Math.max(1, Math.min(100, parseInt(limitRaw) || 20)) // 限制在1-100之间
     const groupId = searchParams.get('group')
+    const personId = searchParams.get('person')
 
     const db = await createClient()
 
@@ -105,6 +93,29 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // 如果指定了人物，只查询该人物出现的照片（与分组筛选取交集）
+    if (personId) {
+      // 人物不存在或已隐藏时按没有照片处理
+      const personPhotoIds = (await listPersonPhotoIds(album.id, personId)) || []
+      const groupPhotoIds = photoIds
+      const filtered = groupPhotoIds
+        ? personPhotoIds.filter((id) => groupPhotoIds.includes(id))
+        : personPhotoIds
+
+      if (filtered.length === 0) {
+        return NextResponse.json({
+          photos: [],
+          pagination: {
+            page: 1,
+            limit,
+            total: 0,
+            totalPages: 0,
+          },
+        })
+      }
+      photoIds = filtered
+    }
+
     // 获取照片列表
     const offset = (page - 1) * limit
 
@@ -112,12 +123,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // 优化：只查询前端需要的字段，减少数据传输
     let query = db
       .from('photos')
-      .select('id, thumb_key, preview_key, original_key, filename, width, height, exif, blur_data, captured_at, is_selected, rotation, updated_at', { count: 'exact' })
+      .select(PUBLIC_PHOTO_COLUMNS, { count: 'exact' })
       .eq('album_id', album.id)
       .eq('status', 'completed')
       .is('deleted_at', null) // 排除已删除的照片
 
-    // 如果指定了分组，只查询分组中的照片
+    // 如果指定了分组或人物，只查询其中的照片
     if (photoIds) {
       query = query.in('id', photoIds)
     }
@@ -156,7 +167,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return handleError(result.error, '查询照片列表失败')
     }
 
-    const photos = result.data as PhotoRow[] | null
+    const photos = result.data as PublicPhotoRow[] | null
     const count = result.count || result.data?.length || 0
 
     // 添加缓存头：公开相册缓存5分钟，私有相册不缓存
@@ -172,26 +183,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json(
       {
-        photos: photos?.map((photo) => ({
-          id: photo.id,
-          thumb_key: photo.thumb_key,
-          preview_key: photo.preview_key,
-          original_key: photo.original_key,
-          filename: photo.filename || '',
-          width: photo.width,
-          height: photo.height,
-          exif: photo.exif,
-          blur_data: photo.blur_data,
-          captured_at: photo.captured_at,
-          is_selected: photo.is_selected,
-          album_id: album.id,
-          created_at: '',
-          updated_at: photo.updated_at,
-          status: 'completed',
-          sort_order: 0,
-          file_size: 0,
-          mime_type: null
-        })) || [],
+        photos: photos?.map((photo) => toPublicPhoto(photo, album.id)) || [],
         pagination: {
           page,
           limit,
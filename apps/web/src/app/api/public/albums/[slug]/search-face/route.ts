@@ -2,12 +2,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/database'
 import { ApiError, handleError } from '@/lib/validation/error-handler'
+import { recordAnalyticsEvent } from '@/lib/analytics'
+import { getSystemSettings } from '@/lib/system-settings'
 
 export async function POST(request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
   const paramsData = await params
   const { slug } = paramsData
   
   try {
+    const { features } = await getSystemSettings()
+    if (!features.face_search) {
+      return ApiError.forbidden('Face search is disabled')
+    }
+
     const formData = await request.formData()
     const file = formData.get('file') as File
     
@@ -28,6 +35,9 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     const albumId = (album as { id: string }).id
+
+    // 记录搜索次数（不论是否找到匹配照片）
+    await recordAnalyticsEvent(request, { event: 'face_search', albumId })
     
     // 1. 调用 AI 服务提取特征
     // 在 Docker 网络中，AI 服务地址为 http://ai:8000
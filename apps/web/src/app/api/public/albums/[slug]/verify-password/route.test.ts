@@ -7,13 +7,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { POST } from './route'
 import { createMockRequest } from '@/test/test-utils'
-import { checkRateLimit } from '@/middleware-rate-limit'
+import { checkRateLimit, peekRateLimit } from '@/middleware-rate-limit'
+import { sendAlbumPasswordGuessingAlert } from '@/lib/alerts'
+import { hashPassword } from '@/lib/auth/password'
 
 // Mock dependencies - 在顶层定义以便测试中访问
 const { mockSupabaseClient } = vi.hoisted(() => {
   return {
     mockSupabaseClient: {
       from: vi.fn(),
+      update: vi.fn(),
     }
   }
 })
@@ -24,8 +27,30 @@ vi.mock('@/lib/database', () => ({
 
 vi.mock('@/middleware-rate-limit', () => ({
   checkRateLimit: vi.fn(),
+  peekRateLimit: vi.fn(),
 }))
 
+vi.mock('@/lib/alerts', () => ({
+  sendAlbumPasswordGuessingAlert: vi.fn(),
+}))
+
+function mockAlbum(data: Record<string, unknown>) {
+  mockSupabaseClient.from.mockReturnValue({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: { id: 'album-123', deleted_at: null, ...data }, error: null }),
+  })
+}
+
+function verify(password: string) {
+  const request = createMockRequest('http://localhost:3000/api/public/albums/test-slug/verify-password', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': '8.8.8.8' },
+    body: { password },
+  })
+  return POST(request, { params: Promise.resolve({ slug: 'test-slug' }) })
+}
+
 describe('POST /api/public/albums/[slug]/verify-password', () => {
 
   beforeEach(async () => {
@@ -39,6 +64,12 @@ describe('POST /api/public/albums/[slug]/verify-password', () => {
       remaining: 4,
       resetAt: Date.now() + 60000,
     })
+    vi.mocked(peekRateLimit).mockResolvedValue({
+      allowed: true,
+      remaining: 10,
+      resetAt: Date.now(),
+    })
+    mockSupabaseClient.update.mockResolvedValue({ data: [], error: null })
   })
 
   describe('rate limiting', () => {
@@ -132,6 +163,87 @@ describe('POST /api/public/albums/[slug]/verify-password', () => {
     })
   })
 
+  describe('failure lockout', () => {
+    it('should return 429 without checking password when IP has too many failures', async () => {
+      vi.mocked(peekRateLimit).mockResolvedValueOnce({
+        allowed: false,
+        remaining: 0,
+        resetAt: Date.now() + 10 * 60000,
+      })
+
+      const response = await verify('any-password')
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(data.error.message).toContain('密码错误次数过多')
+      expect(peekRateLimit).toHaveBeenCalledWith('verify-password:failures:ip:8.8.8.8', 20)
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled()
+    })
+
+    it('should return 429 when the client has too many failures on this album', async () => {
+      vi.mocked(peekRateLimit).mockImplementation(async (identifier) => ({
+        allowed: !identifier.includes(':album:'),
+        remaining: 0,
+        resetAt: Date.now() + 10 * 60000,
+      }))
+
+      const response = await verify('any-password')
+
+      expect(response.status).toBe(429)
+      expect(peekRateLimit).toHaveBeenCalledWith('verify-password:failures:album:test-slug:ip:8.8.8.8', 10)
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled()
+    })
+
+    it('should count failures per IP and per album + IP', async () => {
+      mockAlbum({ password: 'correct-password' })
+
+      await verify('wrong-password')
+
+      expect(checkRateLimit).toHaveBeenCalledWith('verify-password:failures:ip:8.8.8.8', 20, 15 * 60 * 1000)
+      expect(checkRateLimit).toHaveBeenCalledWith('verify-password:failures:album:test-slug:ip:8.8.8.8', 10, 15 * 60 * 1000)
+      expect(sendAlbumPasswordGuessingAlert).not.toHaveBeenCalled()
+    })
+
+    it('should not lock other clients out when one client is locked on the album', async () => {
+      mockAlbum({ password: 'correct-password' })
+      // 另一个 IP（1.2.3.4）已被锁定
+      vi.mocked(peekRateLimit).mockImplementation(async (identifier) => ({
+        allowed: !identifier.endsWith(':1.2.3.4'),
+        remaining: 0,
+        resetAt: Date.now() + 10 * 60000,
+      }))
+
+      const response = await verify('correct-password')
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should alert admins once when an album sees sustained guessing', async () => {
+      mockAlbum({ title: 'Wedding', password: 'correct-password' })
+      vi.mocked(checkRateLimit).mockImplementation(async (identifier) => ({
+        allowed: true,
+        remaining: identifier.includes(':hourly:') || identifier.includes(':alerted:') ? 0 : 4,
+        resetAt: Date.now() + 60000,
+      }))
+
+      await verify('wrong-password')
+
+      expect(sendAlbumPasswordGuessingAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ albumId: 'album-123', slug: 'test-slug', title: 'Wedding', lastIp: '8.8.8.8' })
+      )
+
+      // 本小时已告警过
+      vi.mocked(checkRateLimit).mockImplementation(async (identifier) => ({
+        allowed: !identifier.includes(':alerted:'),
+        remaining: 0,
+        resetAt: Date.now() + 60000,
+      }))
+      await verify('wrong-password')
+
+      expect(sendAlbumPasswordGuessingAlert).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('request validation', () => {
     it('should return 400 for invalid JSON body', async () => {
       const request = createMockRequest('http://localhost:3000/api/public/albums/test-slug/verify-password', {
@@ -392,6 +504,37 @@ describe('POST /api/public/albums/[slug]/verify-password', () => {
       expect(data.error.code).toBe('VALIDATION_ERROR')
       expect(data.error.message).toContain('密码错误')
     })
+
+    it('should verify hashed passwords without rehashing', async () => {
+      mockAlbum({ password: await hashPassword('correct-password') })
+
+      expect((await verify('correct-password')).status).toBe(200)
+      expect((await verify('wrong-password')).status).toBe(400)
+      expect(mockSupabaseClient.update).not.toHaveBeenCalled()
+    })
+
+    it('should rehash legacy plaintext passwords after successful verification', async () => {
+      mockAlbum({ password: 'correct-password' })
+
+      const response = await verify('correct-password')
+
+      expect(response.status).toBe(200)
+      expect(mockSupabaseClient.update).toHaveBeenCalledWith(
+        'albums',
+        { password: expect.stringMatching(/^[0-9a-f]{64}:100000:[0-9a-f]{128}$/) },
+        { id: 'album-123' }
+      )
+    })
+
+    it('should still verify when rehashing fails', async () => {
+      mockAlbum({ password: 'correct-password' })
+      mockSupabaseClient.update.mockResolvedValue({ data: null, error: new Error('db down') })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const response = await verify('correct-password')
+
+      expect(response.status).toBe(200)
+    })
   })
 
   describe('IP extraction', () => {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/database'
-import { checkRateLimit } from '@/middleware-rate-limit'
+import { checkRateLimit, peekRateLimit } from '@/middleware-rate-limit'
+import { hashAlbumPassword, verifyAlbumPassword } from '@/lib/album-password'
+import { sendAlbumPasswordGuessingAlert } from '@/lib/alerts'
 import { verifyPasswordSchema, albumSlugSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
 
@@ -8,6 +10,45 @@ interface RouteParams {
   params: Promise<{ slug: string }>
 }
 
+/** 失败次数锁定窗口：15 分钟 */
+const FAILURE_WINDOW_MS = 15 * 60 * 1000
+/** 单个公网 IP 在窗口内最多失败次数 */
+const IP_FAILURE_LIMIT = 20
+/** 单个内网 IP 在窗口内最多失败次数（内网部署时多个访客共享 IP） */
+const INTERNAL_IP_FAILURE_LIMIT = 60
+/** 单个公网 IP 对同一相册在窗口内最多失败次数 */
+const ALBUM_CLIENT_FAILURE_LIMIT = 10
+/** 单个内网 IP 对同一相册在窗口内最多失败次数 */
+const INTERNAL_ALBUM_CLIENT_FAILURE_LIMIT = 30
+/** 持续猜测告警：单个相册 1 小时内失败达到该次数时通知管理员（每小时最多一次，不锁定相册） */
+const ALERT_WINDOW_MS = 60 * 60 * 1000
+const ALERT_FAILURE_THRESHOLD = 50
+
+/**
+ * 构造速率限制响应
+ * @internal
+ */
+function rateLimitResponse(limit: number, resetAt: number, message: (retryAfter: number) => string) {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+  return NextResponse.json(
+    {
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: message(retryAfter),
+      },
+    },
+    {
+      status: 429,
+      headers: {
+        'X-RateLimit-Limit': limit.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': new Date(resetAt).toISOString(),
+        'Retry-After': retryAfter.toString(),
+      },
+    }
+  )
+}
+
 /**
  * 验证相册密码 API
  * 
@@ -21,6 +62,9 @@ interface RouteParams {
  *   - 公网 IP：每分钟最多 10 次
  *   - 内网 IP：每分钟最多 30 次
  * - 基于相册的速率限制（防止针对特定相册的攻击）：每分钟最多 5 次
+ * - 失败次数锁定（15 分钟窗口）：单个公网 IP 失败 20 次（内网 IP 60 次）、或对同一相册失败 10 次（内网 IP 30 次）后暂停该 IP 的验证
+ * - 单个相册 1 小时内失败 50 次时通过 Worker 告警服务通知管理员（每小时最多一次；只告警不锁定，避免一个访客锁住所有访客）
+ * - 密码以 PBKDF2 哈希存储；历史明文密码验证成功后自动回写为哈希
  * 
  * @param {string} slug - 相册标识（URL友好格式）
  * 
@@ -33,7 +77,7 @@ interface RouteParams {
  * @returns {Object} 400 - 请求参数错误（验证失败或密码错误）
  * @returns {Object} 403 - 禁止访问（相册已过期）
  * @returns {Object} 404 - 相册不存在
- * @returns {Object} 429 - 请求过于频繁（速率限制）
+ * @returns {Object} 429 - 请求过于频繁或失败次数过多（速率限制）
  * @returns {Object} 500 - 服务器内部错误
  * 
  * @example
@@ -105,46 +149,31 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       const ipRateLimit = await checkRateLimit(`verify-password:ip:${ip}`, ipLimit, 60 * 1000)
       
       if (!ipRateLimit.allowed) {
-        const retryAfter = Math.ceil((ipRateLimit.resetAt - Date.now()) / 1000)
-        return NextResponse.json(
-          {
-            error: {
-              code: 'RATE_LIMIT_EXCEEDED',
-              message: `密码验证尝试过于频繁，请 ${retryAfter} 秒后再试`,
-            },
-          },
-          {
-            status: 429,
-            headers: {
-              'X-RateLimit-Limit': ipLimit.toString(),
-              'X-RateLimit-Remaining': '0',
-              'X-RateLimit-Reset': new Date(ipRateLimit.resetAt).toISOString(),
-              'Retry-After': retryAfter.toString(),
-            },
-          }
-        )
+        return rateLimitResponse(ipLimit, ipRateLimit.resetAt, (s) => `密码验证尝试过于频繁，请 ${s} 秒后再试`)
       }
     }
     
     if (!albumRateLimit.allowed) {
-      const retryAfter = Math.ceil((albumRateLimit.resetAt - Date.now()) / 1000)
-      return NextResponse.json(
-        {
-          error: {
-            code: 'RATE_LIMIT_EXCEEDED',
-            message: `该相册密码验证尝试过于频繁，请 ${retryAfter} 秒后再试`,
-          },
-        },
-        {
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': '5',
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(albumRateLimit.resetAt).toISOString(),
-            'Retry-After': retryAfter.toString(),
-          },
-        }
-      )
+      return rateLimitResponse(5, albumRateLimit.resetAt, (s) => `该相册密码验证尝试过于频繁，请 ${s} 秒后再试`)
+    }
+
+    // 失败次数锁定：只统计密码错误，先查询是否已锁定，验证失败后再计数
+    // 锁定按客户端 IP（及 相册 + IP）计数，不按相册整体锁定，避免单个访客的猜测锁住其他访客
+    const ipFailureLimit = isInternalNetwork ? INTERNAL_IP_FAILURE_LIMIT : IP_FAILURE_LIMIT
+    const ipFailureKey = `verify-password:failures:ip:${ip}`
+    const albumClientFailureLimit = isInternalNetwork ? INTERNAL_ALBUM_CLIENT_FAILURE_LIMIT : ALBUM_CLIENT_FAILURE_LIMIT
+    const albumClientFailureKey = `verify-password:failures:album:${slug}:ip:${ip}`
+
+    if (ipLimit > 0) {
+      const ipFailures = await peekRateLimit(ipFailureKey, ipFailureLimit)
+      if (!ipFailures.allowed) {
+        return rateLimitResponse(ipFailureLimit, ipFailures.resetAt, (s) => `密码错误次数过多，请 ${s} 秒后再试`)
+      }
+    }
+
+    const albumClientFailures = await peekRateLimit(albumClientFailureKey, albumClientFailureLimit)
+    if (!albumClientFailures.allowed) {
+      return rateLimitResponse(albumClientFailureLimit, albumClientFailures.resetAt, (s) => `该相册密码错误次数过多，请 ${s} 秒后再试`)
     }
     
     // 解析和验证请求体
@@ -165,10 +194,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const db = await createClient()
 
-    // 获取相册信息（包含密码）
+    // 获取相册信息（包含密码哈希）
     const albumResult = await db
-      .from<{ id: string; password: string | null; expires_at: string | null; deleted_at: string | null }>('albums')
-      .select('id, password, expires_at, deleted_at')
+      .from<{ id: string; title: string | null; password: string | null; expires_at: string | null; deleted_at: string | null }>('albums')
+      .select('id, title, password, expires_at, deleted_at')
       .eq('slug', slug)
       .single()
 
@@ -188,15 +217,48 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return createSuccessResponse({ verified: true })
     }
 
-    // 验证密码（明文比较）
-    // 注意：相册密码是简单的访问控制，不需要复杂的哈希加密
-    const passwordVerified = album.password === password
+    const { valid, needsRehash } = await verifyAlbumPassword(password, album.password)
 
-    if (passwordVerified) {
+    if (valid) {
+      // 历史明文密码：验证成功后回写为哈希（失败不影响本次访问）
+      if (needsRehash) {
+        try {
+          const result = await db.update('albums', { password: await hashAlbumPassword(password) }, { id: album.id })
+          if (result.error) throw result.error
+        } catch (error) {
+          console.error('[Verify Password] Failed to rehash legacy album password:', album.id, error)
+        }
+      }
       return createSuccessResponse({ verified: true })
-    } else {
-      return ApiError.validation('密码错误')
     }
+
+    // 记录失败次数
+    if (ipLimit > 0) {
+      await checkRateLimit(ipFailureKey, ipFailureLimit, FAILURE_WINDOW_MS)
+    }
+    await checkRateLimit(albumClientFailureKey, albumClientFailureLimit, FAILURE_WINDOW_MS)
+
+    // 持续猜测：按相册整体计数，只用于通知管理员（告警标记本身也用速率限制存储，保证每小时最多一次）
+    const hourlyFailures = await checkRateLimit(
+      `verify-password:failures:hourly:${album.id}`,
+      ALERT_FAILURE_THRESHOLD,
+      ALERT_WINDOW_MS
+    )
+    if (hourlyFailures.remaining === 0) {
+      const alerted = await checkRateLimit(`verify-password:alerted:${album.id}`, 1, ALERT_WINDOW_MS)
+      if (alerted.allowed) {
+        await sendAlbumPasswordGuessingAlert({
+          albumId: album.id,
+          slug,
+          title: album.title,
+          failures: ALERT_FAILURE_THRESHOLD,
+          windowMinutes: ALERT_WINDOW_MS / 60000,
+          lastIp: ip,
+        })
+      }
+    }
+
+    return ApiError.validation('密码错误')
   } catch (error) {
     return handleError(error, '密码验证失败')
   }
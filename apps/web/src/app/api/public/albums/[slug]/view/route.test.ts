@@ -13,6 +13,10 @@ vi.mock('@/lib/database', () => ({
   createClient: vi.fn(),
 }))
 
+vi.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: vi.fn(),
+}))
+
 describe('POST /api/public/albums/[slug]/view', () => {
   let mockDb: any
 
@@ -126,6 +130,7 @@ describe('POST /api/public/albums/[slug]/view', () => {
         `http://localhost:3000/api/public/albums/${slug}/view`,
         {
           method: 'POST',
+          body: { referrer: 'https://weixin.qq.com/' },
         }
       )
 
@@ -140,6 +145,13 @@ describe('POST /api/public/albums/[slug]/view', () => {
       expect(mockDb.rpc).toHaveBeenCalledWith('increment_album_view_count', {
         album_id: album.id,
       })
+
+      const { recordAnalyticsEvent } = await import('@/lib/analytics')
+      expect(recordAnalyticsEvent).toHaveBeenCalledWith(request, {
+        event: 'album_view',
+        albumId: album.id,
+        referrer: 'https://weixin.qq.com/',
+      })
     })
 
     it('should use fallback method when RPC fails', async () => {
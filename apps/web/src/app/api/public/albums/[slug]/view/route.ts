@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/database'
 import { albumSlugSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+import { recordAnalyticsEvent } from '@/lib/analytics'
 
 interface RouteParams {
   params: Promise<{ slug: string }>
@@ -10,6 +11,8 @@ interface RouteParams {
 /**
  * 增加相册浏览次数
  * POST /api/public/albums/[slug]/view
+ *
+ * 请求体可选 { referrer }（document.referrer），用于统计外部来源
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
@@ -38,6 +41,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const album = albumResult.data
 
+    // 记录浏览事件（请求由相册页发出，Referer 是相册页本身，外部来源由页面传入）
+    const body = await request.json().catch(() => null)
+    await recordAnalyticsEvent(request, {
+      event: 'album_view',
+      albumId: album.id,
+      referrer: typeof body?.referrer === 'string' ? body.referrer.slice(0, 2000) : null,
+    })
+
     // 增加浏览次数（使用原子操作避免并发问题）
     // 先尝试使用RPC函数
     const rpcResult = await db.rpc('increment_album_view_count', {
@@ -0,0 +1,96 @@
+/**
+ * 访客端事件上报 API 路由测试
+ *
+ * 测试 POST 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient, mockMaybeSingle } = vi.hoisted(() => {
+  const mockMaybeSingle = vi.fn()
+  const mockQuery = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    maybeSingle: mockMaybeSingle,
+  }
+  return { mockMaybeSingle, mockAdminClient: { from: vi.fn(() => mockQuery) } }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/middleware-rate-limit', () => ({
+  checkRateLimit: vi.fn(),
+}))
+
+vi.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: vi.fn(),
+}))
+
+const albumId = '550e8400-e29b-41d4-a716-446655440001'
+const photoId = '550e8400-e29b-41d4-a716-446655440002'
+
+function track(body: unknown) {
+  return createMockRequest('http://localhost:3000/api/public/analytics', { method: 'POST', body })
+}
+
+describe('POST /api/public/analytics', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const { checkRateLimit } = await import('@/middleware-rate-limit')
+    vi.mocked(checkRateLimit).mockResolvedValue({ allowed: true, remaining: 119, resetAt: Date.now() + 60000 })
+  })
+
+  it('should record a photo view', async () => {
+    mockMaybeSingle
+      .mockResolvedValueOnce({ data: { id: albumId }, error: null })
+      .mockResolvedValueOnce({ data: { id: photoId }, error: null })
+
+    const request = track({ event: 'photo_view', albumId, photoId, referrer: 'https://weibo.com/' })
+    const response = await POST(request)
+
+    expect(response.status).toBe(204)
+    const { recordAnalyticsEvent } = await import('@/lib/analytics')
+    expect(recordAnalyticsEvent).toHaveBeenCalledWith(request, {
+      event: 'photo_view',
+      albumId,
+      photoId,
+      referrer: 'https://weibo.com/',
+    })
+  })
+
+  it('should reject server-side events', async () => {
+    const response = await POST(track({ event: 'photo_download', albumId, photoId }))
+
+    expect(response.status).toBe(400)
+    const { recordAnalyticsEvent } = await import('@/lib/analytics')
+    expect(recordAnalyticsEvent).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 when the photo is not in the album', async () => {
+    mockMaybeSingle
+      .mockResolvedValueOnce({ data: { id: albumId }, error: null })
+      .mockResolvedValueOnce({ data: null, error: null })
+
+    const response = await POST(track({ event: 'share', albumId, photoId }))
+
+    expect(response.status).toBe(404)
+    const { recordAnalyticsEvent } = await import('@/lib/analytics')
+    expect(recordAnalyticsEvent).not.toHaveBeenCalled()
+  })
+
+  it('should return 429 when rate limited', async () => {
+    const { checkRateLimit } = await import('@/middleware-rate-limit')
+    vi.mocked(checkRateLimit).mockResolvedValue({ allowed: false, remaining: 0, resetAt: Date.now() + 60000 })
+
+    const response = await POST(track({ event: 'share', albumId }))
+
+    expect(response.status).toBe(429)
+    expect(mockAdminClient.from).not.toHaveBeenCalled()
+  })
+})
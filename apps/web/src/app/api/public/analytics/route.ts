@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { checkRateLimit } from '@/middleware-rate-limit'
+import { recordAnalyticsEvent } from '@/lib/analytics'
+import { trackAnalyticsEventSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError } from '@/lib/validation/error-handler'
+
+/**
+ * 访客端事件上报 API
+ *
+ * @route POST /api/public/analytics
+ * @description 记录只发生在浏览器中的事件：灯箱中查看照片、分享相册/照片。
+ * 相册浏览、下载和人脸搜索由对应接口在服务端记录，不接受上报。
+ *
+ * @auth 无需认证（公开接口，按 IP 限流）
+ *
+ * @body {string} event - 事件类型（photo_view / share）
+ * @body {string} albumId - 相册ID
+ * @body {string} [photoId] - 照片ID（必须属于该相册）
+ * @body {string} [referrer] - 页面来源（document.referrer）
+ *
+ * @returns 204 - 已记录
+ * @returns {Object} 400 - 请求参数错误
+ * @returns {Object} 404 - 相册或照片不存在
+ * @returns {Object} 429 - 上报过于频繁
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const validation = safeValidate(trackAnalyticsEventSchema, body)
+    if (!validation.success) {
+      return handleError(validation.error, '请求参数错误')
+    }
+
+    const { event, albumId, photoId, referrer } = validation.data
+
+    // 翻看照片会连续上报，限流只用于挡住刷量脚本
+    const ip =
+      request.headers.get('cf-connecting-ip') ||
+      request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      request.headers.get('x-real-ip') ||
+      'unknown'
+    const rateLimit = await checkRateLimit(`analytics:${ip}`, 120, 60 * 1000)
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: '操作过于频繁，请稍后再试',
+          },
+        },
+        { status: 429 }
+      )
+    }
+
+    const db = await createAdminClient()
+    const albumResult = await db
+      .from<{ id: string }>('albums')
+      .select('id')
+      .eq('id', albumId)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (albumResult.error || !albumResult.data) {
+      return ApiError.notFound('相册不存在')
+    }
+
+    if (photoId) {
+      const photoResult = await db
+        .from<{ id: string }>('photos')
+        .select('id')
+        .eq('id', photoId)
+        .eq('album_id', albumId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      if (photoResult.error || !photoResult.data) {
+        return ApiError.notFound('照片不存在')
+      }
+    }
+
+    await recordAnalyticsEvent(request, {
+      event,
+      albumId,
+      photoId: photoId ?? null,
+      referrer: referrer ?? null,
+    })
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return handleError(error, '记录统计事件失败')
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * 带指纹的原图文件 API 路由测试
+ *
+ * 测试 GET 方法
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GET } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+// Mock dependencies
+const { mockAdminClient, mockFetchFingerprintedFile } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+    },
+    mockFetchFingerprintedFile: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/download-fingerprints', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/download-fingerprints')>()),
+  fetchFingerprintedFile: mockFetchFingerprintedFile,
+}))
+
+const photoId = '123e4567-e89b-12d3-a456-426614174000'
+const albumId = '123e4567-e89b-12d3-a456-426614174001'
+const code = '3f2a9c01b7e4'
+
+/**
+ * 构造查询链 mock
+ */
+function mockQuery(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'is']) {
+    builder[method] = vi.fn().mockReturnValue(builder)
+  }
+  builder.maybeSingle = vi.fn().mockResolvedValue(result)
+  return builder
+}
+
+function mockTables(fingerprint: unknown, photo: unknown = { original_key: `raw/${albumId}/a.jpg`, filename: '照片.jpg' }) {
+  const photoQuery = mockQuery({ data: photo, error: null })
+  mockAdminClient.from.mockImplementation((table: string) =>
+    table === 'download_fingerprints' ? mockQuery({ data: fingerprint, error: null }) : photoQuery
+  )
+  return photoQuery
+}
+
+function fingerprintRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    source: 'download',
+    album_id: albumId,
+    photo_id: photoId,
+    created_at: new Date().toISOString(),
+    ...overrides,
+  }
+}
+
+function get(query = `?code=${code}`) {
+  return GET(
+    createMockRequest(`http://localhost:3000/api/public/download/${photoId}/file${query}`),
+    { params: Promise.resolve({ id: photoId }) }
+  )
+}
+
+describe('GET /api/public/download/[id]/file', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFetchFingerprintedFile.mockResolvedValue(
+      new Response(new Uint8Array([0xff, 0xd8, 0xff]), { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+    )
+  })
+
+  it('should reject malformed codes', async () => {
+    const response = await get('?code=../../etc')
+
+    expect(response.status).toBe(400)
+    expect(mockAdminClient.from).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for unknown codes', async () => {
+    mockTables(null)
+
+    const response = await get()
+
+    expect(response.status).toBe(404)
+    expect(mockFetchFingerprintedFile).not.toHaveBeenCalled()
+  })
+
+  it('should not serve files for another photo or for package codes', async () => {
+    mockTables(fingerprintRecord({ photo_id: '123e4567-e89b-12d3-a456-426614174999' }))
+    expect((await get()).status).toBe(404)
+
+    mockTables(fingerprintRecord({ source: 'package', photo_id: null }))
+    expect((await get()).status).toBe(404)
+  })
+
+  it('should return 410 when the link has expired', async () => {
+    mockTables(fingerprintRecord({ created_at: new Date(Date.now() - 11 * 60 * 1000).toISOString() }))
+
+    const response = await get()
+
+    expect(response.status).toBe(410)
+    expect(mockFetchFingerprintedFile).not.toHaveBeenCalled()
+  })
+
+  it('should stream the fingerprinted file', async () => {
+    const photoQuery = mockTables(fingerprintRecord())
+
+    const response = await get()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('image/jpeg')
+    expect(response.headers.get('Content-Disposition')).toBe(
+      `attachment; filename="__.jpg"; filename*=UTF-8''${encodeURIComponent('照片.jpg')}`
+    )
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store')
+    expect(photoQuery.eq).toHaveBeenCalledWith('album_id', albumId)
+    expect(mockFetchFingerprintedFile).toHaveBeenCalledWith(`raw/${albumId}/a.jpg`, code)
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([0xff, 0xd8, 0xff]))
+  })
+
+  it('should allow any photo of the album for batch downloads', async () => {
+    mockTables(fingerprintRecord({ source: 'batch_download', photo_id: null }))
+
+    const response = await get()
+
+    expect(response.status).toBe(200)
+  })
+
+  it('should return 500 when worker fails', async () => {
+    mockTables(fingerprintRecord())
+    mockFetchFingerprintedFile.mockResolvedValue(new Response(JSON.stringify({ error: 'boom' }), { status: 500 }))
+
+    const response = await get()
+    const data = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(data.error.message).toContain('boom')
+  })
+})
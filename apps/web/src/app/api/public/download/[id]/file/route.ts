@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { photoIdSchema } from '@/lib/validation/schemas'
+import { safeValidate, handleError, ApiError, createErrorResponse, ErrorCode } from '@/lib/validation/error-handler'
+import {
+  FINGERPRINT_CODE_PATTERN,
+  FINGERPRINT_LINK_TTL_MS,
+  fetchFingerprintedFile,
+} from '@/lib/download-fingerprints'
+import type { DownloadFingerprint, Photo } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * 带指纹的原图文件
+ *
+ * @route GET /api/public/download/[id]/file
+ * @description 由 Worker 读取原图并嵌入下载指纹后返回。链接由单张下载和批量下载接口在登记下载后生成，
+ * 编号本身即凭证：只能下载登记时所在相册的照片（单张下载只能下载登记的那一张），10 分钟后失效
+ *
+ * @auth 无需认证（凭下载接口返回的指纹编号）
+ *
+ * @param {string} id - 照片ID（UUID格式）
+ * @query {string} code - 指纹编号
+ *
+ * @returns {Blob} 200 - 嵌入指纹的原图（格式与原图相同）
+ * @returns {Object} 400 - 照片ID或编号格式错误
+ * @returns {Object} 404 - 照片不存在或编号与照片不匹配
+ * @returns {Object} 410 - 下载链接已过期
+ * @returns {Object} 500 - Worker 处理失败
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const idValidation = safeValidate(photoIdSchema, await params)
+    if (!idValidation.success) {
+      return handleError(idValidation.error, '无效的照片ID')
+    }
+
+    const { id } = idValidation.data
+    const code = request.nextUrl.searchParams.get('code') ?? ''
+    if (!FINGERPRINT_CODE_PATTERN.test(code)) {
+      return ApiError.badRequest('无效的下载链接')
+    }
+
+    const db = await createAdminClient()
+    const fingerprintResult = await db
+      .from<Pick<DownloadFingerprint, 'source' | 'album_id' | 'photo_id' | 'created_at'>>('download_fingerprints')
+      .select('source, album_id, photo_id, created_at')
+      .eq('code', code)
+      .maybeSingle()
+
+    const fingerprint = fingerprintResult.data
+    // 打包下载的指纹由 Worker 直接写入 ZIP，不能用来下载单个文件
+    if (!fingerprint || fingerprint.source === 'package' || (fingerprint.photo_id && fingerprint.photo_id !== id)) {
+      return ApiError.notFound('下载链接无效')
+    }
+    if (Date.now() - new Date(fingerprint.created_at).getTime() > FINGERPRINT_LINK_TTL_MS) {
+      return createErrorResponse(ErrorCode.FORBIDDEN, '下载链接已过期，请重新下载', undefined, 410)
+    }
+
+    const photoResult = await db
+      .from<Pick<Photo, 'original_key' | 'filename'>>('photos')
+      .select('original_key, filename')
+      .eq('id', id)
+      .eq('album_id', fingerprint.album_id)
+      .eq('status', 'completed')
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (!photoResult.data?.original_key) {
+      return ApiError.notFound('照片不存在')
+    }
+
+    const workerResponse = await fetchFingerprintedFile(photoResult.data.original_key, code)
+    if (!workerResponse.ok) {
+      const result = await workerResponse.json().catch(() => ({}))
+      return ApiError.internal(`生成下载文件失败: ${result.error || workerResponse.status}`)
+    }
+
+    // filename 为 ASCII 兜底，支持 RFC 5987 的浏览器使用 filename* 中的原始文件名（如中文）
+    const filename = photoResult.data.filename || 'photo'
+    const asciiFilename = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+    return new NextResponse(workerResponse.body, {
+      headers: {
+        'Content-Type': workerResponse.headers.get('Content-Type') || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${asciiFilename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    return handleError(error, '下载失败')
+  }
+}
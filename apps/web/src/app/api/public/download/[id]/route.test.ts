@@ -16,6 +16,26 @@ vi.mock('@/lib/database', () => ({
   createClient: vi.fn().mockResolvedValue(mockDb),
 }))
 
+const { mockRecordAnalyticsEvent } = vi.hoisted(() => ({ mockRecordAnalyticsEvent: vi.fn() }))
+vi.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: mockRecordAnalyticsEvent,
+}))
+
+const { mockFingerprints, mockGetGuestSession } = vi.hoisted(() => ({
+  mockFingerprints: {
+    isDownloadFingerprintEnabled: vi.fn(),
+    createDownloadFingerprint: vi.fn(),
+  },
+  mockGetGuestSession: vi.fn(),
+}))
+vi.mock('@/lib/download-fingerprints', () => ({
+  ...mockFingerprints,
+  getFingerprintedDownloadUrl: (photoId: string, code: string) => `/api/public/download/${photoId}/file?code=${code}`,
+}))
+vi.mock('@/lib/middleware/guest-auth', () => ({
+  getGuestSession: mockGetGuestSession,
+}))
+
 // Mock fetch for Worker API calls
 const mockFetch = vi.fn()
 
@@ -58,6 +78,9 @@ describe('GET /api/public/download/[id]', () => {
       json: async () => ({ url: 'https://minio.example.com/presigned-url' }),
     })
     
+    mockFingerprints.isDownloadFingerprintEnabled.mockResolvedValue(false)
+    mockGetGuestSession.mockResolvedValue(null)
+
     // 重新导入route模块以使用新的mock
     const routeModule = await import('./route')
     GET = routeModule.GET
@@ -308,6 +331,144 @@ describe('GET /api/public/download/[id]', () => {
     })
   })
 
+  describe('RAW download', () => {
+    /**
+     * 构造照片与相册查询 mock
+     */
+    function mockQueries(rawKey: string | null) {
+      const mockPhoto = {
+        id: validPhotoId,
+        original_key: `raw/${validAlbumId}/${validPhotoId}.jpg`,
+        raw_key: rawKey,
+        filename: 'DSC_0001.JPG',
+        album_id: validAlbumId,
+      }
+
+      mockDb.from
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({ data: mockPhoto, error: null }),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: { id: validAlbumId, allow_download: true, deleted_at: null },
+            error: null,
+          }),
+        })
+    }
+
+    it('should return RAW file when format=raw', async () => {
+      mockQueries(`raw/${validAlbumId}/${validPhotoId}.nef`)
+
+      const request = createMockRequest(`http://localhost:3000/api/public/download/${validPhotoId}?format=raw`)
+      const response = await GET(request, { params: Promise.resolve({ id: validPhotoId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.downloadUrl).toBe(`/media/raw/${validAlbumId}/${validPhotoId}.nef`)
+      expect(data.data.filename).toBe('DSC_0001.nef')
+      expect(data.data.hasRaw).toBe(true)
+      expect(mockRecordAnalyticsEvent).toHaveBeenCalledWith(request, {
+        event: 'photo_download',
+        albumId: validAlbumId,
+        photoId: validPhotoId,
+        metadata: { format: 'raw' },
+      })
+    })
+
+    it('should return 404 when photo has no RAW file', async () => {
+      mockQueries(null)
+
+      const request = createMockRequest(`http://localhost:3000/api/public/download/${validPhotoId}?format=raw`)
+      const response = await GET(request, { params: Promise.resolve({ id: validPhotoId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.error.message).toContain('RAW')
+      expect(mockRecordAnalyticsEvent).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('fingerprinted download', () => {
+    /**
+     * 构造照片与相册查询 mock
+     */
+    function mockQueries(rawKey: string | null = null) {
+      mockDb.from
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: {
+              id: validPhotoId,
+              original_key: `raw/${validAlbumId}/${validPhotoId}.jpg`,
+              raw_key: rawKey,
+              filename: 'DSC_0001.JPG',
+              album_id: validAlbumId,
+            },
+            error: null,
+          }),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          single: vi.fn().mockResolvedValue({
+            data: { id: validAlbumId, allow_download: true, deleted_at: null },
+            error: null,
+          }),
+        })
+    }
+
+    beforeEach(() => {
+      mockFingerprints.isDownloadFingerprintEnabled.mockResolvedValue(true)
+      mockFingerprints.createDownloadFingerprint.mockResolvedValue('3f2a9c01b7e4')
+    })
+
+    it('should register the download and link to the fingerprinted file', async () => {
+      mockQueries()
+      mockGetGuestSession.mockResolvedValue({ id: 'guest-session-1' })
+
+      const request = createMockRequest(`http://localhost:3000/api/public/download/${validPhotoId}`)
+      const response = await GET(request, { params: Promise.resolve({ id: validPhotoId }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.downloadUrl).toBe(`/api/public/download/${validPhotoId}/file?code=3f2a9c01b7e4`)
+      expect(mockFingerprints.createDownloadFingerprint).toHaveBeenCalledWith(request, {
+        source: 'download',
+        albumId: validAlbumId,
+        photoId: validPhotoId,
+        shareLinkId: null,
+        guestSessionId: 'guest-session-1',
+      })
+    })
+
+    it('should not fingerprint RAW files', async () => {
+      mockQueries(`raw/${validAlbumId}/${validPhotoId}.nef`)
+
+      const request = createMockRequest(`http://localhost:3000/api/public/download/${validPhotoId}?format=raw`)
+      const response = await GET(request, { params: Promise.resolve({ id: validPhotoId }) })
+      const data = await response.json()
+
+      expect(data.data.downloadUrl).toBe(`/media/raw/${validAlbumId}/${validPhotoId}.nef`)
+      expect(mockFingerprints.createDownloadFingerprint).not.toHaveBeenCalled()
+    })
+
+    it('should fail instead of serving an untraceable file', async () => {
+      mockQueries()
+      mockFingerprints.createDownloadFingerprint.mockRejectedValue(new Error('登记下载指纹失败'))
+
+      const request = createMockRequest(`http://localhost:3000/api/public/download/${validPhotoId}`)
+      const response = await GET(request, { params: Promise.resolve({ id: validPhotoId }) })
+
+      expect(response.status).toBe(500)
+      expect(mockRecordAnalyticsEvent).not.toHaveBeenCalled()
+    })
+  })
+
   describe('error handling', () => {
     it('should return 500 on params error', async () => {
       const request = createMockRequest(`http://localhost:3000/api/public/download/${validPhotoId}`)
@@ -2,6 +2,14 @@ import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/database'
 import { photoIdSchema } from '@/lib/validation/schemas'
 import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import { getAlbumVisitorPermissions } from '@/lib/middleware/album-auth'
+import { recordAnalyticsEvent } from '@/lib/analytics'
+import { getGuestSession } from '@/lib/middleware/guest-auth'
+import {
+  createDownloadFingerprint,
+  getFingerprintedDownloadUrl,
+  isDownloadFingerprintEnabled,
+} from '@/lib/download-fingerprints'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -11,18 +19,22 @@ interface RouteParams {
  * 原图下载 API
  * 
  * @route GET /api/public/download/[id]
- * @description 生成带签名的临时下载链接，仅当相册允许下载时才返回
+ * @description 生成带签名的临时下载链接，仅当相册允许下载时才返回。
+ * 后台开启下载指纹时登记本次下载（分享链接、访客会话），链接改为实时嵌入不可见指纹的文件接口
+ * （/api/public/download/[id]/file，10 分钟内有效）；RAW 原片不嵌入指纹
  * 
- * @auth 无需认证（公开接口，但需要相册允许下载）
+ * @auth 无需认证（公开接口，但需要相册允许下载；通过分享链接进入的访客以链接权限为准）
  * 
  * @param {string} id - 照片ID（UUID格式）
+ * @query {string} [format] - 传 raw 时下载相机 RAW 原片（NEF/ARW/CR3）
  * 
  * @returns {Object} 200 - 成功返回下载链接
  * @returns {string} 200.data.downloadUrl - 临时下载链接（带签名，有效期有限）
  * @returns {string} 200.data.filename - 文件名
+ * @returns {boolean} 200.data.hasRaw - 照片是否有 RAW 原片
  * 
- * @returns {Object} 403 - 禁止访问（相册不允许下载）
- * @returns {Object} 404 - 照片不存在或未完成处理
+ * @returns {Object} 403 - 禁止访问（相册或分享链接不允许下载）
+ * @returns {Object} 404 - 照片不存在或未完成处理（format=raw 时照片没有 RAW 原片）
  * @returns {Object} 500 - 服务器内部错误
  * 
  * @note 下载链接是临时的，包含签名信息，有效期有限
@@ -42,8 +54,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // 获取照片信息
     const photoResult = await db
-      .from<{ id: string; original_key: string | null; filename: string | null; album_id: string }>('photos')
-      .select('id, original_key, filename, album_id')
+      .from<{
+        id: string
+        original_key: string | null
+        raw_key: string | null
+        filename: string | null
+        album_id: string
+      }>('photos')
+      .select('id, original_key, raw_key, filename, album_id')
       .eq('id', id)
       .eq('status', 'completed')
       .single()
@@ -56,8 +74,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     // 获取相册信息，检查下载权限
     const albumResult = await db
-      .from<{ id: string; allow_download: boolean; deleted_at: string | null }>('albums')
-      .select('id, allow_download, deleted_at')
+      .from<{ id: string; slug: string; allow_download: boolean; deleted_at: string | null }>('albums')
+      .select('id, slug, allow_download, deleted_at')
       .eq('id', photo.album_id)
       .single()
 
@@ -73,18 +91,60 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     // 检查下载权限
-    if (!album.allow_download) {
-      return ApiError.forbidden('该相册不允许下载原图')
+    const permissions = await getAlbumVisitorPermissions(request, album)
+    if (!permissions.canDownload) {
+      return ApiError.forbidden(permissions.shareLink ? '当前分享链接不允许下载原图' : '该相册不允许下载原图')
     }
 
     // 直接构建公开访问 URL（不使用签名）
     // MinIO bucket 已设置为公开可读，签名反而会导致验证失败
+    const filename = photo.filename || 'photo'
+    const hasRaw = !!photo.raw_key
+
+    if (request.nextUrl.searchParams.get('format') === 'raw') {
+      if (!photo.raw_key) {
+        return ApiError.notFound('该照片没有 RAW 原片')
+      }
+      await recordAnalyticsEvent(request, {
+        event: 'photo_download',
+        albumId: album.id,
+        photoId: photo.id,
+        metadata: { format: 'raw' },
+      })
+      // RAW 与 JPEG 配对时 filename 为 JPEG 文件名，扩展名取自 RAW 存储路径
+      const rawExt = photo.raw_key.slice(photo.raw_key.lastIndexOf('.'))
+      return createSuccessResponse({
+        downloadUrl: `/media/${photo.raw_key}`,
+        filename: filename.replace(/\.[^.]+$/, '') + rawExt,
+        hasRaw,
+      })
+    }
+
     const originalKey = photo.original_key || ''
-    const downloadUrl = `/media/${originalKey}`
+    let downloadUrl = `/media/${originalKey}`
+
+    if (await isDownloadFingerprintEnabled()) {
+      const guestSession = await getGuestSession(request, album.id)
+      const code = await createDownloadFingerprint(request, {
+        source: 'download',
+        albumId: album.id,
+        photoId: photo.id,
+        shareLinkId: permissions.shareLink?.linkId ?? null,
+        guestSessionId: guestSession?.id ?? null,
+      })
+      downloadUrl = getFingerprintedDownloadUrl(photo.id, code)
+    }
+
+    await recordAnalyticsEvent(request, {
+      event: 'photo_download',
+      albumId: album.id,
+      photoId: photo.id,
+    })
 
     return createSuccessResponse({
       downloadUrl,
-      filename: photo.filename || 'photo',
+      filename,
+      hasRaw,
     })
   } catch (error: unknown) {
     return handleError(error, '获取下载链接失败')
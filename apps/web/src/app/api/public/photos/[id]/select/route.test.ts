@@ -14,6 +14,9 @@ const { mockAdminClient, mockSupabaseClient } = vi.hoisted(() => {
     mockAdminClient: {
       from: vi.fn(),
       update: vi.fn(),
+      insert: vi.fn(),
+      delete: vi.fn(),
+      rpc: vi.fn(),
     },
     mockSupabaseClient: {
       from: vi.fn(),
@@ -26,6 +29,19 @@ vi.mock('@/lib/database', () => ({
   createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
 }))
 
+vi.mock('@/lib/middleware/guest-auth', () => ({
+  getGuestSession: vi.fn(),
+  getGuestSelectedPhotoIds: vi.fn(),
+}))
+
+const mockGuestSession = {
+  id: '550e8400-e29b-41d4-a716-446655440099',
+  album_id: '550e8400-e29b-41d4-a716-446655440001',
+  guest_name: '张三',
+  guest_phone: null,
+  submitted_at: null,
+}
+
 describe('GET /api/public/photos/[id]/select', () => {
   let mockSupabaseClient: any
 
@@ -34,6 +50,10 @@ describe('GET /api/public/photos/[id]/select', () => {
     
     const { createClient } = await import('@/lib/database')
     mockSupabaseClient = await createClient()
+
+    const { getGuestSession, getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+    vi.mocked(getGuestSession).mockResolvedValue(mockGuestSession as any)
+    vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['550e8400-e29b-41d4-a716-446655440000'])
   })
 
   describe('photo retrieval', () => {
@@ -80,6 +100,35 @@ describe('GET /api/public/photos/[id]/select', () => {
       expect(data.data.isSelected).toBe(true)
     })
 
+    it('should return false when guest session is missing', async () => {
+      const { getGuestSession } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSession).mockResolvedValue(null)
+
+      const mockSingle = vi.fn()
+        .mockResolvedValueOnce({
+          data: { id: '550e8400-e29b-41d4-a716-446655440000', album_id: '550e8400-e29b-41d4-a716-446655440001' },
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: { id: '550e8400-e29b-41d4-a716-446655440001', is_public: true, expires_at: null },
+          error: null,
+        })
+
+      mockSupabaseClient.from.mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        is: vi.fn().mockReturnThis(),
+        single: mockSingle,
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select')
+      const response = await GET(request, { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.isSelected).toBe(false)
+    })
+
     it('should return 404 if photo does not exist', async () => {
       const mockSelect = vi.fn().mockReturnThis()
       const mockEq = vi.fn().mockReturnThis()
@@ -247,6 +296,36 @@ describe('GET /api/public/photos/[id]/select', () => {
   })
 })
 
+/**
+ * 构造依次返回照片和相册的查询 mock
+ */
+function createPhotoAlbumMock(albumOverrides: Record<string, unknown> = {}) {
+  return {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    single: vi.fn()
+      .mockResolvedValueOnce({
+        data: {
+          id: '550e8400-e29b-41d4-a716-446655440000',
+          album_id: '550e8400-e29b-41d4-a716-446655440001',
+          deleted_at: null,
+        },
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: {
+          id: '550e8400-e29b-41d4-a716-446655440001',
+          is_public: true,
+          expires_at: null,
+          max_selection: null,
+          ...albumOverrides,
+        },
+        error: null,
+      }),
+  }
+}
+
 describe('PATCH /api/public/photos/[id]/select', () => {
   let mockSupabaseClient: any
   let mockAdminClient: any
@@ -257,8 +336,25 @@ describe('PATCH /api/public/photos/[id]/select', () => {
     const { createClient, createAdminClient } = await import('@/lib/database')
     mockSupabaseClient = await createClient()
     mockAdminClient = await createAdminClient()
+
+    const { getGuestSession, getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+    vi.mocked(getGuestSession).mockResolvedValue(mockGuestSession as any)
+    vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue([])
+    mockAdminClient.delete.mockResolvedValue({ data: [], error: null })
+    mockAddSelection('inserted', 1)
   })
 
+  /**
+   * add_guest_selection 返回指定结果，refresh_photo_selection 返回空
+   */
+  function mockAddSelection(status: string, selectedCount: number) {
+    mockAdminClient.rpc.mockImplementation(async (name: string) =>
+      name === 'add_guest_selection'
+        ? { data: { status, selected_count: selectedCount }, error: null }
+        : { data: null, error: null }
+    )
+  }
+
   describe('request validation', () => {
     it('should return 400 for invalid JSON body', async () => {
       const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
@@ -490,11 +586,6 @@ describe('PATCH /api/public/photos/[id]/select', () => {
         expires_at: null,
       }
 
-      const mockUpdatedPhoto = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        is_selected: true,
-      }
-
       const mockSelect = vi.fn().mockReturnThis()
       const mockEq = vi.fn().mockReturnThis()
       const mockIs = vi.fn().mockReturnThis()
@@ -516,11 +607,6 @@ describe('PATCH /api/public/photos/[id]/select', () => {
         single: mockSingle,
       })
 
-      mockAdminClient.update.mockResolvedValue({
-        data: [mockUpdatedPhoto],
-        error: null,
-      })
-
       const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
         method: 'PATCH',
         body: { isSelected: true },
@@ -532,6 +618,16 @@ describe('PATCH /api/public/photos/[id]/select', () => {
       expect(response.status).toBe(200)
       expect(data.data.id).toBe('550e8400-e29b-41d4-a716-446655440000')
       expect(data.data.isSelected).toBe(true)
+      expect(data.data.selectedCount).toBe(1)
+      expect(mockAdminClient.rpc).toHaveBeenCalledWith('add_guest_selection', {
+        session_id: mockGuestSession.id,
+        photo_id: '550e8400-e29b-41d4-a716-446655440000',
+        album_id: '550e8400-e29b-41d4-a716-446655440001',
+        max_selection: undefined,
+      })
+      expect(mockAdminClient.rpc).toHaveBeenCalledWith('refresh_photo_selection', {
+        photo_id: '550e8400-e29b-41d4-a716-446655440000',
+      })
     })
 
     it('should update selection status to false', async () => {
@@ -548,11 +644,6 @@ describe('PATCH /api/public/photos/[id]/select', () => {
         expires_at: null,
       }
 
-      const mockUpdatedPhoto = {
-        id: '550e8400-e29b-41d4-a716-446655440000',
-        is_selected: false,
-      }
-
       const mockSelect = vi.fn().mockReturnThis()
       const mockEq = vi.fn().mockReturnThis()
       const mockIs = vi.fn().mockReturnThis()
@@ -573,10 +664,8 @@ describe('PATCH /api/public/photos/[id]/select', () => {
         single: mockSingle,
       })
 
-      mockAdminClient.update.mockResolvedValue({
-        data: [mockUpdatedPhoto],
-        error: null,
-      })
+      const { getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['550e8400-e29b-41d4-a716-446655440000'])
 
       const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
         method: 'PATCH',
@@ -589,6 +678,127 @@ describe('PATCH /api/public/photos/[id]/select', () => {
       expect(response.status).toBe(200)
       expect(data.data.id).toBe('550e8400-e29b-41d4-a716-446655440000')
       expect(data.data.isSelected).toBe(false)
+      expect(data.data.selectedCount).toBe(0)
+      expect(mockAdminClient.delete).toHaveBeenCalledWith('guest_selections', {
+        session_id: mockGuestSession.id,
+        photo_id: '550e8400-e29b-41d4-a716-446655440000',
+      })
+    })
+
+    it('should not write when selection state is unchanged', async () => {
+      mockSupabaseClient.from.mockReturnValue(createPhotoAlbumMock())
+
+      const { getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['550e8400-e29b-41d4-a716-446655440000'])
+
+      const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
+        method: 'PATCH',
+        body: { isSelected: true },
+      })
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }) })
+
+      expect(response.status).toBe(200)
+      expect(mockAdminClient.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should not count a photo twice when a concurrent request already selected it', async () => {
+      mockSupabaseClient.from.mockReturnValue(createPhotoAlbumMock({ max_selection: 5 }))
+      mockAddSelection('exists', 1)
+
+      const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
+        method: 'PATCH',
+        body: { isSelected: true },
+      })
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.data.selectedCount).toBe(1)
+      expect(mockAdminClient.rpc).not.toHaveBeenCalledWith('refresh_photo_selection', expect.anything())
+    })
+  })
+
+  describe('guest session', () => {
+    it('should return 401 if guest session is missing', async () => {
+      mockSupabaseClient.from.mockReturnValue(createPhotoAlbumMock())
+
+      const { getGuestSession } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSession).mockResolvedValue(null)
+
+      const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
+        method: 'PATCH',
+        body: { isSelected: true },
+      })
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.error.code).toBe('GUEST_SESSION_REQUIRED')
+      expect(mockAdminClient.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 if selection is already submitted', async () => {
+      mockSupabaseClient.from.mockReturnValue(createPhotoAlbumMock())
+
+      const { getGuestSession } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSession).mockResolvedValue({
+        ...mockGuestSession,
+        submitted_at: '2024-01-01T00:00:00Z',
+      } as any)
+
+      const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
+        method: 'PATCH',
+        body: { isSelected: true },
+      })
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.error.code).toBe('SELECTION_SUBMITTED')
+    })
+
+    it('should return 409 if max selection is reached', async () => {
+      mockSupabaseClient.from.mockReturnValue(createPhotoAlbumMock({ max_selection: 2 }))
+      // 读取时还差一张，但并发请求已经先一步选满：以数据库函数的原子检查为准
+      mockAddSelection('limit_reached', 2)
+
+      const { getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['550e8400-e29b-41d4-a716-446655440010'])
+
+      const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
+        method: 'PATCH',
+        body: { isSelected: true },
+      })
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.error.code).toBe('SELECTION_LIMIT_REACHED')
+      expect(data.error.details).toEqual({ maxSelection: 2 })
+      expect(mockAdminClient.rpc).toHaveBeenCalledWith('add_guest_selection', expect.objectContaining({ max_selection: 2 }))
+      expect(mockAdminClient.rpc).not.toHaveBeenCalledWith('refresh_photo_selection', expect.anything())
+    })
+
+    it('should allow deselecting when max selection is reached', async () => {
+      mockSupabaseClient.from.mockReturnValue(createPhotoAlbumMock({ max_selection: 1 }))
+
+      const { getGuestSelectedPhotoIds } = await import('@/lib/middleware/guest-auth')
+      vi.mocked(getGuestSelectedPhotoIds).mockResolvedValue(['550e8400-e29b-41d4-a716-446655440000'])
+
+      const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
+        method: 'PATCH',
+        body: { isSelected: false },
+      })
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }) })
+
+      expect(response.status).toBe(200)
+      expect(mockAdminClient.delete).toHaveBeenCalled()
     })
   })
 
@@ -640,9 +850,9 @@ describe('PATCH /api/public/photos/[id]/select', () => {
         single: mockSingle,
       })
 
-      mockAdminClient.update.mockResolvedValue({
+      mockAdminClient.rpc.mockResolvedValue({
         data: null,
-        error: { message: 'Update failed' },
+        error: { message: 'Insert failed' },
       })
 
       const request = createMockRequest('http://localhost:3000/api/public/photos/550e8400-e29b-41d4-a716-446655440000/select', {
@@ -1,19 +1,37 @@
 import { NextRequest } from 'next/server'
 import { createClient, createAdminClient } from '@/lib/database'
 import { selectPhotoSchema, photoIdSchema } from '@/lib/validation/schemas'
-import { safeValidate, handleError, createSuccessResponse, ApiError } from '@/lib/validation/error-handler'
+import {
+  safeValidate,
+  handleError,
+  createSuccessResponse,
+  createErrorResponse,
+  ApiError,
+  ErrorCode,
+} from '@/lib/validation/error-handler'
+import { getGuestSession, getGuestSelectedPhotoIds } from '@/lib/middleware/guest-auth'
+import { getAlbumVisitorPermissions } from '@/lib/middleware/album-auth'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
+/**
+ * 数据库函数 add_guest_selection 的返回值
+ */
+interface AddGuestSelectionResult {
+  status: 'inserted' | 'exists' | 'limit_reached'
+  /** 该访客当前已选数量 */
+  selected_count: number
+}
+
 /**
  * 访客选片 API
  * 
  * @route PATCH /api/public/photos/[id]/select
- * @description 允许匿名用户标记照片为「选中」状态，用于客户挑选喜欢的照片
+ * @description 将照片加入/移出当前访客的选片列表，每位访客的选片互相独立
  * 
- * @auth 无需认证（公开接口）
+ * @auth 需要访客选片会话（Cookie，通过 /api/public/albums/[slug]/guest-session 创建）
  * 
  * @param {string} id - 照片ID（UUID格式）
  * 
@@ -23,13 +41,18 @@ interface RouteParams {
  * @returns {Object} 200 - 选片状态更新成功
  * @returns {boolean} 200.data.success - 操作是否成功
  * @returns {boolean} 200.data.isSelected - 更新后的选中状态
+ * @returns {number} 200.data.selectedCount - 当前访客已选数量
+ * @returns {number|null} 200.data.maxSelection - 最多可选数量（null 表示不限制）
  * 
  * @returns {Object} 400 - 请求参数错误（验证失败）
- * @returns {Object} 403 - 禁止访问（相册不允许选片或已过期）
+ * @returns {Object} 401 - 未建立访客身份（GUEST_SESSION_REQUIRED）
+ * @returns {Object} 403 - 禁止访问（相册不允许选片、已过期或分享链接不允许选片）
  * @returns {Object} 404 - 照片不存在
+ * @returns {Object} 409 - 选片已提交（SELECTION_SUBMITTED）或超出最多可选数量（SELECTION_LIMIT_REACHED）
  * @returns {Object} 500 - 服务器内部错误
  * 
- * @note 此接口允许匿名访问，但会验证相册的访问权限
+ * @note photos.is_selected 由数据库函数 refresh_photo_selection 维护，表示「至少被一位访客选中」
+ * @note 选中照片通过数据库函数 add_guest_selection 原子地检查最多可选数量并写入，同一访客并发选片不会超出限制
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
@@ -80,8 +103,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     // 验证相册存在且未删除
     const albumResult = await db
-      .from<{ id: string; is_public: boolean; expires_at: string | null }>('albums')
-      .select('id, is_public, expires_at')
+      .from<{
+        id: string
+        slug: string
+        is_public: boolean
+        allow_download: boolean
+        expires_at: string | null
+        max_selection: number | null
+      }>('albums')
+      .select('id, slug, is_public, allow_download, expires_at, max_selection')
       .eq('id', photo.album_id)
       .is('deleted_at', null)
       .single()
@@ -101,29 +131,80 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return ApiError.forbidden('相册已过期')
     }
 
-    // 更新选中状态
-    // 使用 Admin Client 执行更新操作，因为我们已经移除了匿名用户的 UPDATE 权限
-    const updateResult = await dbAdmin.update<{ id: string; is_selected: boolean }>('photos', { is_selected: isSelected }, { id })
+    const permissions = await getAlbumVisitorPermissions(request, album)
+    if (!permissions.canSelect) {
+      return ApiError.forbidden('当前分享链接不允许选片')
+    }
 
-    if (updateResult.error) {
-      return handleError(updateResult.error, '更新选中状态失败')
+    // 识别当前访客
+    const session = await getGuestSession(request, album.id)
+    if (!session) {
+      return createErrorResponse(ErrorCode.GUEST_SESSION_REQUIRED, '请先填写姓名再开始选片', undefined, 401)
     }
 
-    const updatedPhoto = updateResult.data && updateResult.data.length > 0 ? updateResult.data[0] : null
-    if (!updatedPhoto) {
-      return ApiError.notFound('照片不存在')
+    if (session.submitted_at) {
+      return createErrorResponse(ErrorCode.SELECTION_SUBMITTED, '选片已提交，如需修改请联系摄影师', undefined, 409)
     }
-    
+
+    const selectedPhotoIds = await getGuestSelectedPhotoIds(session.id)
+    const alreadySelected = selectedPhotoIds.includes(id)
+    let selectedCount = selectedPhotoIds.length
+    let changed = false
+
+    // 使用 Admin Client 执行写入，因为匿名用户没有写权限
+    if (isSelected && !alreadySelected) {
+      // 数据库函数锁定访客会话后再计数和写入，避免并发选片超出最多可选数量
+      const addResult = await dbAdmin.rpc('add_guest_selection', {
+        session_id: session.id,
+        photo_id: id,
+        album_id: album.id,
+        max_selection: album.max_selection,
+      })
+      if (addResult.error || !addResult.data) {
+        return handleError(addResult.error ?? new Error('选片写入无结果'), '更新选中状态失败')
+      }
+
+      const added = addResult.data as AddGuestSelectionResult
+      if (added.status === 'limit_reached') {
+        return createErrorResponse(
+          ErrorCode.SELECTION_LIMIT_REACHED,
+          `最多只能选择 ${album.max_selection} 张照片`,
+          { maxSelection: album.max_selection },
+          409
+        )
+      }
+      // 并发的重复点击已经写入时（exists）不重复计数
+      selectedCount = added.selected_count
+      changed = added.status === 'inserted'
+    } else if (!isSelected && alreadySelected) {
+      const deleteResult = await dbAdmin.delete('guest_selections', { session_id: session.id, photo_id: id })
+      if (deleteResult.error) {
+        return handleError(deleteResult.error, '更新选中状态失败')
+      }
+      selectedCount -= 1
+      changed = true
+    }
+
+    if (changed) {
+      // 同步照片聚合选中状态和相册已选数量
+      const refreshResult = await dbAdmin.rpc('refresh_photo_selection', { photo_id: id })
+      if (refreshResult.error) {
+        console.error('[Select API] Failed to refresh photo selection:', refreshResult.error)
+      }
+    }
+
     return createSuccessResponse({
-      id: updatedPhoto.id,
-      isSelected: updatedPhoto.is_selected,
+      id,
+      isSelected,
+      selectedCount,
+      maxSelection: album.max_selection,
     })
   } catch (error) {
     return handleError(error, '更新选中状态失败')
   }
 }
 
-// GET /api/public/photos/[id]/select - 获取当前选中状态
+// GET /api/public/photos/[id]/select - 获取当前访客对该照片的选中状态
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const paramsData = await params
@@ -138,8 +219,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const db = await createClient()
 
     const photoResult = await db
-      .from<{ id: string; is_selected: boolean; album_id: string }>('photos')
-      .select('id, is_selected, album_id')
+      .from<{ id: string; album_id: string }>('photos')
+      .select('id, album_id')
       .eq('id', id)
       .eq('status', 'completed')
       .is('deleted_at', null)
@@ -173,9 +254,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return ApiError.forbidden('相册已过期')
     }
     
+    // 未建立访客身份时视为未选中
+    const session = await getGuestSession(request, album.id)
+    const selectedPhotoIds = session ? await getGuestSelectedPhotoIds(session.id) : []
+
     return createSuccessResponse({
       id: photo.id,
-      isSelected: photo.is_selected,
+      isSelected: selectedPhotoIds.includes(photo.id),
     })
   } catch (error) {
     return handleError(error, '查询选中状态失败')
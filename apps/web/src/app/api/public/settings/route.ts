@@ -0,0 +1,22 @@
+import { getPublicSettings } from '@/lib/system-settings'
+import { handleError, createSuccessResponse } from '@/lib/validation/error-handler'
+
+/**
+ * 公开设置 API
+ *
+ * @route GET /api/public/settings
+ * @description 返回访客端需要的品牌信息（名称、标语、Logo、Favicon、版权和备案号）和功能开关，
+ * 不包含相册默认选项等管理端设置
+ *
+ * @auth 无需认证（公开接口）
+ *
+ * @returns {Object} 200 - { branding, features }
+ */
+export async function GET() {
+  try {
+    const settings = await getPublicSettings()
+    return createSuccessResponse(settings)
+  } catch (error) {
+    return handleError(error, '获取设置失败')
+  }
+}
@@ -18,6 +18,7 @@
  * - /api/worker/list-files -> WORKER_URL/api/list-files
  * - /api/worker/cleanup-file -> WORKER_URL/api/cleanup-file
  * - /api/worker/clear-album-cache -> WORKER_URL/api/clear-album-cache
+ * - /api/worker/cluster-faces -> WORKER_URL/api/cluster-faces
  * - /api/worker/health -> WORKER_URL/health
  * 
  * 注意：所有端点（除了 /health）都需要用户认证，API Key 会自动添加
@@ -25,18 +26,12 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/auth/api-helpers'
+import { getWorkerHeaders, getWorkerUrl } from '@/lib/worker-client'
 
 // 配置路由超时时间（Vercel 默认 10 秒，分片上传需要更长时间）
 // 分片上传可能需要 5 分钟，设置为 300 秒
 export const maxDuration = 300
 
-// Worker 服务 URL (服务端环境变量，不暴露给客户端)
-// 支持多个变量名，确保兼容性
-// 使用函数在运行时获取，而不是模块加载时，以便测试可以修改环境变量
-function getWorkerUrl(): string {
-  return process.env.WORKER_URL || process.env.WORKER_API_URL || process.env.NEXT_PUBLIC_WORKER_URL || 'http://localhost:3001'
-}
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ path: string[] }> }
@@ -227,16 +222,8 @@ async function proxyRequest(
     
     const targetUrl = `${getWorkerUrl()}${targetPath}${queryString}`
     
-    // 准备请求头
-    const headers: HeadersInit = {
-      'Content-Type': request.headers.get('Content-Type') || 'application/json',
-    }
-    
-    // 添加 Worker API Key 认证
-    const workerApiKey = process.env.WORKER_API_KEY
-    if (workerApiKey) {
-      headers['X-API-Key'] = workerApiKey
-    }
+    // 准备请求头（含 Worker API Key 认证）
+    const headers = getWorkerHeaders(request.headers.get('Content-Type') || 'application/json')
     
     // 转发请求
     const fetchOptions: RequestInit = {
@@ -14,6 +14,8 @@ import { Providers } from "@/components/providers";
 import { PWAInstallPrompt } from "@/components/pwa-install-prompt";
 import { ServiceWorkerRegistration } from "@/components/service-worker-registration";
 import { SiteFooter } from "@/components/site-footer";
+import { SiteSettingsProvider } from "@/components/site-settings-provider";
+import { getPublicSettings } from "@/lib/system-settings";
 import { getSafeMediaUrl } from "@/lib/utils";
 
 // 使用本地字体文件（避免 Google Fonts 网络依赖）
@@ -99,6 +101,7 @@ export async function generateMetadata(): Promise<Metadata> {
   const locale = await getLocale();
   // Messages are loaded but not used in metadata (only used in layout)
   const messages = await getMessages();
+  const { branding } = await getPublicSettings();
 
   // Get translations for metadata
   const title = (messages as { home?: { title?: string } })?.home?.title || 
@@ -111,7 +114,7 @@ export async function generateMetadata(): Promise<Metadata> {
     description,
     manifest: "/manifest.json",
     icons: {
-      icon: "/favicon.ico",
+      icon: branding.favicon_url || "/favicon.ico",
       apple: "/icons/icon-192x192.png",
     },
     appleWebApp: {
@@ -124,7 +127,7 @@ export async function generateMetadata(): Promise<Metadata> {
     },
     openGraph: {
       type: "website",
-      siteName: "PIS",
+      siteName: branding.studio_name,
       title,
       description,
     },
@@ -148,6 +151,8 @@ export default async function RootLayout({
   const locale = await getLocale();
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const messages = await getMessages();
+  // 品牌信息和功能开关（后台系统设置，修改后缓存失效即可生效）
+  const settings = await getPublicSettings();
 
   // 获取媒体服务器域名用于预连接
   // 使用安全的媒体 URL（自动修复 localhost HTTPS 问题）
@@ -184,8 +189,14 @@ export default async function RootLayout({
         {/* 本地字体，无需预连接 Google Fonts */}
 
         {/* Favicon */}
-        <link rel="icon" href="/favicon.ico" sizes="any" />
-        <link rel="icon" href="/icons/icon.svg" type="image/svg+xml" />
+        {settings.branding.favicon_url ? (
+          <link rel="icon" href={settings.branding.favicon_url} />
+        ) : (
+          <>
+            <link rel="icon" href="/favicon.ico" sizes="any" />
+            <link rel="icon" href="/icons/icon.svg" type="image/svg+xml" />
+          </>
+        )}
 
         {/* PWA Apple 特定 meta */}
         <meta name="apple-mobile-web-app-capable" content="yes" />
@@ -224,11 +235,13 @@ export default async function RootLayout({
       </head>
       <body className={inter.className}>
         <NextIntlClientProvider locale={locale} messages={messages}>
-          <Providers>
-            {children}
-            <SiteFooter />
-            <PWAInstallPrompt />
-          </Providers>
+          <SiteSettingsProvider settings={settings}>
+            <Providers>
+              {children}
+              <SiteFooter />
+              <PWAInstallPrompt />
+            </Providers>
+          </SiteSettingsProvider>
         </NextIntlClientProvider>
         <ServiceWorkerRegistration />
       </body>
@@ -0,0 +1,97 @@
+/**
+ * 媒体文件代理路由测试（本地存储模式）
+ *
+ * 测试 GET、HEAD、PUT 方法
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { GET, HEAD, PUT } from './route'
+import { createMockRequest } from '@/test/test-utils'
+
+const params = (key: string) => ({ params: Promise.resolve({ path: key.split('/') }) })
+
+describe('/media/[...path] (local storage)', () => {
+  let rootDir: string
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), 'pis-media-'))
+    await mkdir(path.join(rootDir, 'pis-photos', 'processed', 'thumbs', 'a1'), { recursive: true })
+    await writeFile(path.join(rootDir, 'pis-photos', 'processed', 'thumbs', 'a1', 'p1.jpg'), 'hello world')
+  })
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    vi.stubEnv('STORAGE_TYPE', 'local')
+    vi.stubEnv('STORAGE_LOCAL_ROOT', rootDir)
+    vi.stubEnv('STORAGE_BUCKET', 'pis-photos')
+    vi.stubEnv('WORKER_URL', 'http://worker:3001')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('should serve files from the storage directory', async () => {
+    const key = 'processed/thumbs/a1/p1.jpg'
+    const response = await GET(createMockRequest(`http://localhost:3000/media/${key}`), params(key))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('image/jpeg')
+    expect(response.headers.get('content-length')).toBe('11')
+    expect(await response.text()).toBe('hello world')
+  })
+
+  it('should support range requests and HEAD', async () => {
+    const key = 'processed/thumbs/a1/p1.jpg'
+    const url = `http://localhost:3000/media/${key}`
+
+    const ranged = await GET(createMockRequest(url, { headers: { range: 'bytes=6-' } }), params(key))
+    expect(ranged.status).toBe(206)
+    expect(ranged.headers.get('content-range')).toBe('bytes 6-10/11')
+    expect(await ranged.text()).toBe('world')
+
+    const head = await HEAD(createMockRequest(url, { method: 'HEAD' }), params(key))
+    expect(head.status).toBe(200)
+    expect(head.headers.get('content-length')).toBe('11')
+  })
+
+  it('should return 404 for missing files and keys outside the storage directory', async () => {
+    for (const key of ['processed/thumbs/a1/missing.jpg', '../pis-photos/processed/thumbs/a1/p1.jpg']) {
+      const response = await GET(createMockRequest('http://localhost:3000/media/x'), params(key))
+      expect(response.status).toBe(404)
+    }
+  })
+
+  it('should forward signed uploads to the worker', async () => {
+    const fetchMock = vi.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(null, { status: 200, headers: { ETag: '"abc"' } })
+    )
+    const url = 'http://localhost:3000/media/raw/a1/p2.jpg?X-Pis-Expires=1&X-Pis-Signature=ff'
+
+    const response = await PUT(
+      createMockRequest(url, { method: 'PUT', headers: { 'Content-Type': 'image/jpeg' }, body: 'data' })
+    )
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('etag')).toBe('"abc"')
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://worker:3001/media/raw/a1/p2.jpg?X-Pis-Expires=1&X-Pis-Signature=ff',
+      expect.objectContaining({ method: 'PUT' })
+    )
+  })
+
+  it('should reject uploads when not using local storage', async () => {
+    vi.stubEnv('STORAGE_TYPE', 'minio')
+
+    const response = await PUT(createMockRequest('http://localhost:3000/media/raw/a1/p2.jpg', { method: 'PUT' }))
+
+    expect(response.status).toBe(405)
+  })
+})
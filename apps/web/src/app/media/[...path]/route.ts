@@ -1,24 +1,163 @@
 /**
  * 媒体文件代理 API
  * 
- * 将 /media/* 请求代理到 MinIO 对象存储
+ * 将 /media/* 请求代理到 MinIO 对象存储，或在本地存储模式下直接读取文件
  * 
  * @route GET /media/:path*
+ * @route PUT /media/:path*（仅本地存储：转发预签名上传到 Worker）
  * @description 代理媒体文件请求到 MinIO
  * 
  * 功能：
  * - 代理 MinIO 媒体文件
+ * - STORAGE_TYPE=local 时从 STORAGE_LOCAL_ROOT 读取文件
  * - 设置缓存头（7天）
  * - 支持 CORS（允许跨域访问）
  * - 流式传输大文件
+ * - 支持 Range 请求（视频拖动播放）
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import * as Minio from 'minio'
+import { createReadStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import {
+  getLocalStorageWorkerUrl,
+  isLocalStorage,
+  resolveLocalStoragePath,
+} from '@/lib/local-storage'
 
 // 配置超时时间（大文件可能需要更长时间）
 export const maxDuration = 300 // 5分钟
 
+/**
+ * 解析 Range 请求头（仅支持单个范围）
+ *
+ * @returns 无效或不满足的范围返回 null
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match || (!match[1] && !match[2])) {
+    return null
+  }
+
+  let start: number
+  let end: number
+  if (!match[1]) {
+    // bytes=-500：最后 500 字节
+    start = Math.max(0, size - parseInt(match[2], 10))
+    end = size - 1
+  } else {
+    start = parseInt(match[1], 10)
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1
+  }
+
+  if (start > end || start >= size) {
+    return null
+  }
+  return { start, end }
+}
+
+/**
+ * 根据文件扩展名推断 Content-Type
+ */
+function getContentType(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase()
+  const contentTypeMap: Record<string, string> = {
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'png': 'image/png',
+    'gif': 'image/gif',
+    'webp': 'image/webp',
+    'mp4': 'video/mp4',
+    'mov': 'video/quicktime',
+  }
+  return ext ? contentTypeMap[ext] || 'application/octet-stream' : 'application/octet-stream'
+}
+
+/**
+ * 媒体文件的通用响应头：Content-Type、缓存、CORS、Range 支持
+ */
+function createMediaHeaders(request: NextRequest, path: string): Headers {
+  const responseHeaders = new Headers()
+  responseHeaders.set('Content-Type', getContentType(path))
+
+  // 缓存设置（媒体文件缓存 7 天）
+  responseHeaders.set('Cache-Control', 'public, max-age=604800, immutable')
+  responseHeaders.set('Expires', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toUTCString())
+
+  // CORS 设置（允许跨域访问，便于相册分享）
+  const origin = request.headers.get('origin')
+  if (origin) {
+    responseHeaders.set('Access-Control-Allow-Origin', origin)
+  } else {
+    responseHeaders.set('Access-Control-Allow-Origin', '*')
+  }
+  responseHeaders.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS')
+  responseHeaders.set('Access-Control-Allow-Credentials', 'true')
+  responseHeaders.set('Access-Control-Expose-Headers', 'Content-Length, Content-Range')
+
+  // Accept-Ranges（支持范围请求）
+  responseHeaders.set('Accept-Ranges', 'bytes')
+  return responseHeaders
+}
+
+/**
+ * 本地存储模式：直接读取文件（支持 Range）
+ */
+async function serveLocalFile(request: NextRequest, path: string, headOnly: boolean): Promise<NextResponse> {
+  const filePath = resolveLocalStoragePath(path)
+  if (!filePath) {
+    return new NextResponse(null, { status: 404 })
+  }
+
+  let size: number
+  try {
+    const stat = await fs.stat(filePath)
+    if (!stat.isFile()) {
+      return new NextResponse(null, { status: 404 })
+    }
+    size = stat.size
+  } catch (statError: unknown) {
+    if (statError && typeof statError === 'object' && 'code' in statError && statError.code === 'ENOENT') {
+      return new NextResponse(null, { status: 404 })
+    }
+    throw statError
+  }
+
+  const responseHeaders = createMediaHeaders(request, path)
+
+  // 预签名下载 URL 可能指定下载文件名
+  const disposition = request.nextUrl.searchParams.get('response-content-disposition')
+  if (disposition && !/[\r\n]/.test(disposition)) {
+    responseHeaders.set('Content-Disposition', disposition)
+  }
+
+  if (headOnly) {
+    responseHeaders.set('Content-Length', String(size))
+    return new NextResponse(null, { status: 200, headers: responseHeaders })
+  }
+
+  const rangeHeader = request.headers.get('range')
+  const range = rangeHeader ? parseRange(rangeHeader, size) : null
+  if (rangeHeader && !range) {
+    responseHeaders.set('Content-Range', `bytes */${size}`)
+    return new NextResponse(null, { status: 416, headers: responseHeaders })
+  }
+
+  if (range) {
+    responseHeaders.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`)
+    responseHeaders.set('Content-Length', String(range.end - range.start + 1))
+  } else {
+    responseHeaders.set('Content-Length', String(size))
+  }
+
+  const stream = createReadStream(filePath, range ?? undefined)
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+    status: range ? 206 : 200,
+    headers: responseHeaders,
+  })
+}
+
 /**
  * 创建 MinIO 客户端实例
  */
@@ -49,14 +188,21 @@ export async function GET(
   try {
     const resolvedParams = await params
     const path = resolvedParams.path.join('/')
+
+    if (isLocalStorage()) {
+      return await serveLocalFile(request, path, false)
+    }
+
     const bucket = process.env.MINIO_BUCKET || 'pis-photos'
     
     // 创建 MinIO 客户端
     const minioClient = createMinioClient()
     
     // 检查文件是否存在
+    let size = 0
     try {
-      await minioClient.statObject(bucket, path)
+      const stat = await minioClient.statObject(bucket, path)
+      size = stat.size
     } catch (statError: unknown) {
       if (
         statError &&
@@ -69,47 +215,30 @@ export async function GET(
       throw statError
     }
     
-    // 获取文件流
-    const stream = await minioClient.getObject(bucket, path)
-    
     // 设置响应头
-    const responseHeaders = new Headers()
-    
-    // Content-Type（根据文件扩展名推断）
-    const ext = path.split('.').pop()?.toLowerCase()
-    const contentTypeMap: Record<string, string> = {
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'png': 'image/png',
-      'gif': 'image/gif',
-      'webp': 'image/webp',
-      'mp4': 'video/mp4',
-      'mov': 'video/quicktime',
+    const responseHeaders = createMediaHeaders(request, path)
+
+    // 解析 Range 请求（浏览器播放视频时会分段请求）
+    const rangeHeader = request.headers.get('range')
+    const range = rangeHeader ? parseRange(rangeHeader, size) : null
+    if (rangeHeader && !range) {
+      responseHeaders.set('Content-Range', `bytes */${size}`)
+      return new NextResponse(null, { status: 416, headers: responseHeaders })
     }
-    const contentType = ext ? contentTypeMap[ext] || 'application/octet-stream' : 'application/octet-stream'
-    responseHeaders.set('Content-Type', contentType)
-    
-    // 缓存设置（媒体文件缓存 7 天）
-    responseHeaders.set('Cache-Control', 'public, max-age=604800, immutable')
-    responseHeaders.set('Expires', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toUTCString())
+
+    // 获取文件流
+    const stream = range
+      ? await minioClient.getPartialObject(bucket, path, range.start, range.end - range.start + 1)
+      : await minioClient.getObject(bucket, path)
     
-    // CORS 设置（允许跨域访问，便于相册分享）
-    const origin = request.headers.get('origin')
-    if (origin) {
-      responseHeaders.set('Access-Control-Allow-Origin', origin)
-    } else {
-      responseHeaders.set('Access-Control-Allow-Origin', '*')
+    if (range) {
+      responseHeaders.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`)
+      responseHeaders.set('Content-Length', String(range.end - range.start + 1))
     }
-    responseHeaders.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS')
-    responseHeaders.set('Access-Control-Allow-Credentials', 'true')
-    responseHeaders.set('Access-Control-Expose-Headers', 'Content-Length, Content-Range')
-    
-    // Accept-Ranges（支持范围请求）
-    responseHeaders.set('Accept-Ranges', 'bytes')
-    
+
     // 流式传输响应体（避免内存占用过大）
     return new NextResponse(stream as unknown as ReadableStream, {
-      status: 200,
+      status: range ? 206 : 200,
       headers: responseHeaders,
     })
   } catch (error: unknown) {
@@ -142,6 +271,11 @@ export async function HEAD(
   try {
     const resolvedParams = await params
     const path = resolvedParams.path.join('/')
+
+    if (isLocalStorage()) {
+      return await serveLocalFile(request, path, true)
+    }
+
     const bucket = process.env.MINIO_BUCKET || 'pis-photos'
     
     // 创建 MinIO 客户端
@@ -153,18 +287,7 @@ export async function HEAD(
     const responseHeaders = new Headers()
     
     // Content-Type
-    const ext = path.split('.').pop()?.toLowerCase()
-    const contentTypeMap: Record<string, string> = {
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'png': 'image/png',
-      'gif': 'image/gif',
-      'webp': 'image/webp',
-      'mp4': 'video/mp4',
-      'mov': 'video/quicktime',
-    }
-    const contentType = ext ? contentTypeMap[ext] || 'application/octet-stream' : 'application/octet-stream'
-    responseHeaders.set('Content-Type', contentType)
+    responseHeaders.set('Content-Type', getContentType(path))
     
     // Content-Length
     if (stat.size) {
@@ -198,6 +321,68 @@ export async function HEAD(
   }
 }
 
+/**
+ * 本地存储的预签名上传
+ *
+ * @description
+ * LocalFsAdapter 生成的预签名 URL 形如 /media/{key}?X-Pis-Expires=...&X-Pis-Signature=...，
+ * 未部署 Nginx 时浏览器会请求到这里。请求体原样转发给 Worker，由 Worker 校验签名并写入文件。
+ * MinIO 模式下上传由 Nginx 直接转发到 MinIO，这里返回 405。
+ */
+export async function PUT(request: NextRequest) {
+  if (!isLocalStorage()) {
+    return new NextResponse(null, { status: 405, headers: { Allow: 'GET, HEAD, OPTIONS' } })
+  }
+
+  try {
+    const headers = new Headers()
+    const contentType = request.headers.get('content-type')
+    if (contentType) {
+      headers.set('Content-Type', contentType)
+    }
+    const contentLength = request.headers.get('content-length')
+    if (contentLength) {
+      headers.set('Content-Length', contentLength)
+    }
+
+    const workerResponse = await fetch(
+      getLocalStorageWorkerUrl(request.nextUrl.pathname, request.nextUrl.search),
+      {
+        method: 'PUT',
+        headers,
+        body: request.body,
+        // 流式转发请求体（Node fetch 需要 duplex）
+        duplex: 'half',
+      } as RequestInit & { duplex: 'half' }
+    )
+
+    const responseHeaders = new Headers()
+    for (const name of ['content-type', 'etag']) {
+      const value = workerResponse.headers.get(name)
+      if (value) {
+        responseHeaders.set(name, value)
+      }
+    }
+    responseHeaders.set('Access-Control-Expose-Headers', 'ETag')
+
+    return new NextResponse(workerResponse.body, {
+      status: workerResponse.status,
+      headers: responseHeaders,
+    })
+  } catch (error: unknown) {
+    console.error('[Media Proxy PUT] Error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'PROXY_ERROR',
+          message: '上传到本地存储失败，请检查 Worker 服务',
+        },
+      },
+      { status: 502 }
+    )
+  }
+}
+
 // 支持 OPTIONS 请求（CORS 预检）
 export async function OPTIONS(request: NextRequest) {
   const origin = request.headers.get('origin')
@@ -206,7 +391,7 @@ export async function OPTIONS(request: NextRequest) {
     status: 204,
     headers: {
       'Access-Control-Allow-Origin': origin || '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, HEAD, PUT, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization, Range',
       'Access-Control-Max-Age': '86400',
       'Access-Control-Allow-Credentials': 'true',
@@ -6,6 +6,7 @@ import { HomeHero } from '@/components/home/home-hero'
 import { AlbumGrid } from '@/components/home/album-grid'
 import type { Database } from '@/types/database'
 import { defaultLocale } from '@/i18n/config'
+import { getSystemSettings } from '@/lib/system-settings'
 
 type Album = Database['public']['Tables']['albums']['Row']
 type Photo = Database['public']['Tables']['photos']['Row']
@@ -33,14 +34,18 @@ export default async function HomePage() {
 
   try {
     const db = await createClient()
+    const { features } = await getSystemSettings()
 
-    // 获取公开相册列表
-    const albumsResult = await db
-      .from('albums')
-      .select('*')
-      .eq('is_public', true)
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false })
+    // 获取公开相册列表（后台关闭首页相册展示时不查询；已过期隐藏、归档的相册不展示）
+    const albumsResult = features.home_gallery
+      ? await db
+          .from('albums')
+          .select('*')
+          .eq('is_public', true)
+          .eq('lifecycle_state', 'active')
+          .is('deleted_at', null)
+          .order('created_at', { ascending: false })
+      : { data: [], error: null }
 
     // 如果查询失败，记录错误并返回空数组（优雅降级）
     if (albumsResult.error) {
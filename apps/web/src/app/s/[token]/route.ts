@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import {
+  generateAlbumSessionToken,
+  getAlbumSessionCookieName,
+  getSessionCookieOptions,
+  validateAlbumSessionToken,
+  validateShareLinkToken,
+} from '@/lib/album-session'
+import type { AlbumShareLink } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+/** 分享链接会话最长有效期（天），链接本身更早过期时以链接为准 */
+const SHARE_SESSION_MAX_DAYS = 30
+
+/**
+ * 分享链接入口
+ *
+ * @route GET /s/[token]
+ * @description 校验分享链接令牌，为访客写入带链接权限的相册会话 Cookie 后跳转到相册页
+ *
+ * @auth 无需认证（令牌签名即凭证）
+ *
+ * @param {string} token - 分享链接令牌
+ *
+ * @returns 302 - 跳转到 /album/[slug]；链接已吊销、过期或使用次数已满时附带 share_error 参数，
+ * 相册仍按默认权限展示
+ * @returns 302 - 令牌无效或相册不存在时跳转到首页
+ *
+ * @note 同一访客重复打开同一链接不会重复计数
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params
+  const home = new URL('/', request.url)
+
+  try {
+    const payload = validateShareLinkToken(token)
+    if (!payload) {
+      return NextResponse.redirect(home)
+    }
+
+    const db = await createAdminClient()
+
+    const albumResult = await db
+      .from<{ id: string; slug: string; expires_at: string | null; allow_share: boolean }>('albums')
+      .select('id, slug, expires_at, allow_share')
+      .eq('id', payload.albumId)
+      .is('deleted_at', null)
+      .single()
+
+    if (albumResult.error || !albumResult.data || albumResult.data.allow_share === false) {
+      return NextResponse.redirect(home)
+    }
+
+    const album = albumResult.data
+    const albumUrl = new URL(`/album/${encodeURIComponent(album.slug)}`, request.url)
+    const withError = (reason: string) => {
+      const url = new URL(albumUrl)
+      url.searchParams.set('share_error', reason)
+      return NextResponse.redirect(url)
+    }
+
+    const linkResult = await db
+      .from<AlbumShareLink>('album_share_links')
+      .select('*')
+      .eq('id', payload.linkId)
+      .eq('album_id', album.id)
+      .maybeSingle()
+
+    const link = linkResult.data
+    if (!link || link.revoked_at) {
+      return withError('revoked')
+    }
+    if (link.expires_at && new Date(link.expires_at) < new Date()) {
+      return withError('expired')
+    }
+
+    // 已经通过该链接进入过的访客直接放行，不占用使用次数
+    const cookieName = getAlbumSessionCookieName(album.slug)
+    const existing = request.cookies.get(cookieName)?.value
+    if (existing && validateAlbumSessionToken(existing)?.shareLinkId === link.id) {
+      return NextResponse.redirect(albumUrl)
+    }
+
+    const redeemed = await db.rpc('redeem_album_share_link', { link_id: link.id })
+    if (redeemed.error) {
+      throw redeemed.error
+    }
+    if (redeemed.data !== true) {
+      return withError('exhausted')
+    }
+
+    let maxAgeSeconds = SHARE_SESSION_MAX_DAYS * 24 * 60 * 60
+    if (link.expires_at) {
+      maxAgeSeconds = Math.min(maxAgeSeconds, Math.floor((new Date(link.expires_at).getTime() - Date.now()) / 1000))
+    }
+
+    const response = NextResponse.redirect(albumUrl)
+    response.cookies.set(
+      cookieName,
+      generateAlbumSessionToken(album.id, album.slug, maxAgeSeconds / 3600, {
+        id: link.id,
+        permission: link.permission,
+      }),
+      { ...getSessionCookieOptions(), maxAge: maxAgeSeconds }
+    )
+    return response
+  } catch (error) {
+    console.error('[Share Link] Redeem error:', error)
+    return NextResponse.redirect(home)
+  }
+}
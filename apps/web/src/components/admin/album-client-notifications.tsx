@@ -0,0 +1,112 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Send } from 'lucide-react'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { formatRelativeTime } from '@/lib/utils'
+import { CLIENT_NOTIFICATION_TYPES } from '@/lib/notification-templates'
+import type { ClientNotification } from '@/types/database'
+
+interface AlbumClientNotificationsProps {
+  albumId: string
+}
+
+const statusLabels: Record<ClientNotification['status'], string> = {
+  pending: '等待发送',
+  retrying: '重试中',
+  sent: '已发送',
+  failed: '发送失败',
+}
+
+const statusColors: Record<ClientNotification['status'], string> = {
+  pending: 'text-text-muted',
+  retrying: 'text-yellow-500',
+  sent: 'text-green-500',
+  failed: 'text-destructive',
+}
+
+/**
+ * 相册客户通知：手动通知客户相册已就绪，查看最近的通知记录
+ */
+export function AlbumClientNotifications({ albumId }: AlbumClientNotificationsProps) {
+  const [notifications, setNotifications] = useState<ClientNotification[]>([])
+  const [loading, setLoading] = useState(true)
+  const [sending, setSending] = useState(false)
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/notify`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '加载通知记录失败')
+      }
+      setNotifications(data.data?.notifications || [])
+    } catch (error) {
+      handleApiError(error, '加载通知记录失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [albumId])
+
+  useEffect(() => {
+    loadNotifications()
+  }, [loadNotifications])
+
+  const handleNotify = async () => {
+    setSending(true)
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/notify`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '通知客户失败')
+      }
+      showSuccess(data.data?.message || '已通知客户')
+      loadNotifications()
+    } catch (error) {
+      handleApiError(error, '通知客户失败')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-text-secondary">
+          公开相册发布时会自动通知客户；私密相册可在准备好后手动发送
+        </p>
+        <button
+          type="button"
+          onClick={handleNotify}
+          disabled={sending}
+          className="btn-secondary text-sm flex items-center gap-2 shrink-0 disabled:opacity-50"
+        >
+          {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          通知客户相册已就绪
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-text-muted">加载中...</p>
+      ) : notifications.length === 0 ? (
+        <p className="text-sm text-text-muted">暂无通知记录</p>
+      ) : (
+        <ul className="divide-y divide-border text-sm">
+          {notifications.map((notification) => (
+            <li key={notification.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-1">
+              <div className="min-w-0">
+                <span className="font-medium">{CLIENT_NOTIFICATION_TYPES[notification.type] || notification.type}</span>
+                <span className="text-text-muted ml-2 truncate">{notification.subject}</span>
+              </div>
+              <div className="shrink-0 text-text-secondary" title={notification.error || undefined}>
+                <span className={statusColors[notification.status]}>{statusLabels[notification.status]}</span>
+                {' · '}
+                {formatRelativeTime(notification.sent_at || notification.created_at)}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Crown, Loader2, Trash2, UserPlus, Users } from 'lucide-react'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import type { AlbumCollaboratorRole } from '@/types/database'
+
+interface AlbumCollaboratorManagerProps {
+  albumId: string
+  /** 是否可以邀请/移除协作者（所有者和管理员） */
+  canManage: boolean
+}
+
+interface CollaboratorItem {
+  user_id: string
+  email: string | null
+  role: AlbumCollaboratorRole
+  created_at: string
+}
+
+interface AlbumOwner {
+  id: string
+  email: string | null
+}
+
+const ROLE_LABELS: Record<AlbumCollaboratorRole, string> = {
+  viewer: '只读',
+  editor: '可编辑',
+}
+
+/**
+ * 相册协作者管理
+ * 所有者可以按邮箱邀请其他摄影师，只读协作者只能查看照片，可编辑协作者可以上传和整理照片
+ */
+export function AlbumCollaboratorManager({ albumId, canManage }: AlbumCollaboratorManagerProps) {
+  const [owner, setOwner] = useState<AlbumOwner | null>(null)
+  const [collaborators, setCollaborators] = useState<CollaboratorItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<AlbumCollaboratorRole>('viewer')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [removing, setRemoving] = useState<CollaboratorItem | null>(null)
+
+  // 加载协作者列表
+  const loadCollaborators = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/collaborators`)
+      if (response.ok) {
+        const data = await response.json()
+        const result = data.data || data
+        setOwner(result.owner || null)
+        setCollaborators(result.collaborators || [])
+      }
+    } catch (error) {
+      console.error('Failed to load collaborators:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [albumId])
+
+  useEffect(() => {
+    loadCollaborators()
+  }, [loadCollaborators])
+
+  // 通用请求
+  const request = async (url: string, method: string, body: unknown, successMessage: string) => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+
+      if (response.ok) {
+        await loadCollaborators()
+        showSuccess(successMessage)
+        return true
+      }
+      const data = await response.json()
+      handleApiError(new Error(data.error?.message || '操作失败'))
+    } catch (error) {
+      console.error('Collaborator request failed:', error)
+      handleApiError(error, '操作失败')
+    } finally {
+      setIsSubmitting(false)
+    }
+    return false
+  }
+
+  // 邀请
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+    const ok = await request(
+      `/api/admin/albums/${albumId}/collaborators`,
+      'POST',
+      { email: email.trim(), role },
+      '协作者已添加'
+    )
+    if (ok) setEmail('')
+  }
+
+  // 修改角色
+  const handleRoleChange = (collaborator: CollaboratorItem, nextRole: AlbumCollaboratorRole) => {
+    request(
+      `/api/admin/albums/${albumId}/collaborators/${collaborator.user_id}`,
+      'PATCH',
+      { role: nextRole },
+      '协作角色已更新'
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-accent" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-medium text-text-secondary flex items-center gap-2">
+        <Users className="w-4 h-4" />
+        协作者 ({collaborators.length})
+      </h3>
+
+      <ul className="divide-y divide-border rounded-lg bg-surface">
+        <li className="flex items-center justify-between gap-3 px-3 py-2.5">
+          <span className="text-sm truncate">{owner?.email || '未指定（仅管理员可见）'}</span>
+          <span className="flex items-center gap-1 text-xs text-accent flex-shrink-0">
+            <Crown className="w-3.5 h-3.5" />
+            所有者
+          </span>
+        </li>
+        {collaborators.map((collaborator) => (
+          <li key={collaborator.user_id} className="flex items-center justify-between gap-3 px-3 py-2.5">
+            <span className="text-sm truncate">{collaborator.email || collaborator.user_id}</span>
+            {canManage ? (
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <select
+                  value={collaborator.role}
+                  onChange={(e) => handleRoleChange(collaborator, e.target.value as AlbumCollaboratorRole)}
+                  disabled={isSubmitting}
+                  className="input text-sm py-1.5 min-h-[36px]"
+                >
+                  <option value="viewer">{ROLE_LABELS.viewer}</option>
+                  <option value="editor">{ROLE_LABELS.editor}</option>
+                </select>
+                <button
+                  onClick={() => setRemoving(collaborator)}
+                  disabled={isSubmitting}
+                  className="p-2 hover:bg-surface-elevated rounded transition-colors"
+                  title="移除"
+                >
+                  <Trash2 className="w-4 h-4 text-text-muted" />
+                </button>
+              </div>
+            ) : (
+              <span className="text-xs text-text-muted flex-shrink-0">{ROLE_LABELS[collaborator.role]}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canManage ? (
+        <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="摄影师登录邮箱"
+            className="input flex-1 text-base" // 移动端防止缩放
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as AlbumCollaboratorRole)}
+            className="input sm:w-32 text-base"
+          >
+            <option value="viewer">{ROLE_LABELS.viewer}</option>
+            <option value="editor">{ROLE_LABELS.editor}</option>
+          </select>
+          <button type="submit" disabled={isSubmitting || !email.trim()} className="btn-primary min-h-[44px]">
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            邀请
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-text-muted">只有相册所有者可以管理协作者。</p>
+      )}
+
+      {/* 确认对话框 */}
+      {removing && (
+        <ConfirmDialog
+          open
+          onOpenChange={(open) => !open && setRemoving(null)}
+          title="移除协作者"
+          message={`确定要移除 ${removing.email || removing.user_id} 吗？移除后对方将无法访问该相册。`}
+          onConfirm={async () => {
+            await request(`/api/admin/albums/${albumId}/collaborators/${removing.user_id}`, 'DELETE', undefined, '协作者已移除')
+            setRemoving(null)
+          }}
+        />
+      )}
+    </div>
+  )
+}
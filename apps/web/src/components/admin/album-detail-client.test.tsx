@@ -80,17 +80,25 @@ const createMockPhoto = (id: string, overrides?: Partial<Photo>): Photo => ({
   album_id: 'album-1',
   filename: `photo-${id}.jpg`,
   original_key: `photos/${id}/original.jpg`,
+  raw_key: null,
   thumb_key: `photos/${id}/thumb.jpg`,
+  derivatives: null,
+  media_type: 'image',
+  video_key: null,
+  duration: null,
   preview_key: `photos/${id}/preview.jpg`,
   blur_data: 'LGF5]+Yk^6#M@-5c,1J5@[or[Q6.',
   width: 1920,
   height: 1080,
   file_size: 1024000,
+  thumb_size: null,
+  preview_size: null,
   mime_type: 'image/jpeg',
   exif: {},
   rotation: 0,
   sort_order: 0,
   retoucher_id: null,
+  current_version_id: null,
   captured_at: null,
   status: 'completed',
   is_selected: false,
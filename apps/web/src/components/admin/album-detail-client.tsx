@@ -6,8 +6,11 @@ import dynamic from 'next/dynamic'
 import Image from 'next/image'
 import { Upload, Trash2, Check, Loader2, Heart, ImageIcon, Star, ArrowUp, ArrowDown, ChevronUp, ChevronDown, RotateCw, RotateCcw, RefreshCw, Archive, RotateCcw as RestoreIcon, AlertCircle } from 'lucide-react'
 import { PhotoGroupManager } from './photo-group-manager'
+import { GuestSelectionManager } from './guest-selection-manager'
+import { PersonManager } from './person-manager'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { showSuccess, handleApiError } from '@/lib/toast'
+import { usePhotoRealtimeAdmin } from '@/hooks/use-photo-realtime'
 import type { Album, Photo } from '@/types/database'
 import { cn, getSafeMediaUrl } from '@/lib/utils'
 
@@ -53,7 +56,7 @@ export function AlbumDetailClient({ album, initialPhotos, mediaUrl: serverMediaU
     onConfirm: () => void | Promise<void>
     variant?: 'default' | 'danger'
   } | null>(null)
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const reloadTimerRef = useRef<NodeJS.Timeout | null>(null)
 
   // 当 initialPhotos 更新时（例如 router.refresh() 后），同步更新本地 state
   // 但保留正在处理中的照片状态，避免闪烁
@@ -245,28 +248,39 @@ export function AlbumDetailClient({ album, initialPhotos, mediaUrl: serverMediaU
     })
   }, [photos, filterSelected, selectedGroupId, photoGroupMap, showDeleted])
 
-  // 轮询检查处理中的照片
-  useEffect(() => {
-    if (processingCount > 0) {
-      // 开始轮询：使用 loadPhotos 而不是 router.refresh，避免页面闪烁
-      pollIntervalRef.current = setInterval(() => {
-        loadPhotos(showDeleted, true) // 保留处理中状态，避免闪烁
-      }, 3000) // 每 3 秒刷新一次
-    } else {
-      // 停止轮询
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current)
-        pollIntervalRef.current = null
+  // 处理中的照片：通过实时推送获取处理进度，推送不可用时回退到轮询
+  // 处理完成/失败后重新加载列表以获取缩略图等结果，短时间内的多次变化合并为一次加载
+  const scheduleReload = () => {
+    if (reloadTimerRef.current) return
+    reloadTimerRef.current = setTimeout(() => {
+      reloadTimerRef.current = null
+      loadPhotos(showDeleted, true) // 保留处理中状态，避免闪烁
+    }, 500)
+  }
+
+  usePhotoRealtimeAdmin({
+    albumId: album.id,
+    enabled: processingCount > 0,
+    onStatusChange: (photoId, status) => {
+      if (status === 'pending' || status === 'processing') {
+        setPhotos((prev) => prev.map((p) => (p.id === photoId && p.status !== status ? { ...p, status } : p)))
+      } else {
+        scheduleReload()
       }
-    }
+    },
+    onDelete: (photoId) => {
+      setPhotos((prev) => prev.filter((p) => p.id !== photoId))
+    },
+    onResync: () => loadPhotos(showDeleted, true),
+  })
 
+  useEffect(() => {
     return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current)
+      if (reloadTimerRef.current) {
+        clearTimeout(reloadTimerRef.current)
       }
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [processingCount, showDeleted]) // loadPhotos 是稳定的函数，不需要添加到依赖
+  }, [])
 
   // 在客户端直接使用 getSafeMediaUrl()，避免使用服务端可能传入的 https://localhost/media
   // 这样可以确保客户端始终使用安全的媒体 URL（自动修复 localhost HTTPS 问题）
@@ -828,6 +842,16 @@ export function AlbumDetailClient({ album, initialPhotos, mediaUrl: serverMediaU
         />
       </div>
 
+      {/* 人物管理 - 人脸聚类结果的命名、合并、拆分和隐藏 */}
+      <div className="card p-3 sm:p-4">
+        <PersonManager albumId={album.id} />
+      </div>
+
+      {/* 访客选片 - 多位访客并排对比 */}
+      <div className="card p-3 sm:p-4">
+        <GuestSelectionManager albumId={album.id} mediaUrl={mediaUrl} />
+      </div>
+
       {/* 操作栏 - 移动端优化 */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
         <div className="flex items-center gap-2 sm:gap-3 flex-wrap">
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, CalendarClock } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { ALBUM_LIFECYCLE_STATES, needsStorageRestore } from '@/lib/album-lifecycle'
+import type { Album, AlbumLifecycleState } from '@/types/database'
+
+interface AlbumLifecycleDialogProps {
+  album: Pick<Album, 'id' | 'title' | 'lifecycle_state'> | null
+  onOpenChange: (open: boolean) => void
+  onSuccess?: (result: { id: string; expires_at: string | null; lifecycle_state: AlbumLifecycleState }) => void
+}
+
+/** 默认延期天数 */
+const DEFAULT_EXTEND_DAYS = 30
+
+/**
+ * 转换为 datetime-local 输入框的本地时间格式
+ */
+function toLocalInputValue(date: Date) {
+  const offset = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+/**
+ * 延期 / 恢复过期相册
+ * 已归档或已删除的相册需要 Worker 把原图移回，恢复期间显示「恢复中」
+ */
+export function AlbumLifecycleDialog({ album, onOpenChange, onSuccess }: AlbumLifecycleDialogProps) {
+  const [expiresAt, setExpiresAt] = useState('')
+  const [neverExpires, setNeverExpires] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  // 打开时默认延期 30 天
+  useEffect(() => {
+    if (!album) return
+    setExpiresAt(toLocalInputValue(new Date(Date.now() + DEFAULT_EXTEND_DAYS * 24 * 60 * 60 * 1000)))
+    setNeverExpires(false)
+  }, [album])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!album) return
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/admin/albums/${album.id}/lifecycle`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          expires_at: neverExpires ? null : new Date(expiresAt).toISOString(),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '恢复失败')
+      }
+
+      showSuccess(data.data?.message || '相册已恢复')
+      onOpenChange(false)
+      onSuccess?.(data.data)
+    } catch (error) {
+      handleApiError(error, '恢复相册失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const state = album?.lifecycle_state ?? 'active'
+
+  return (
+    <Dialog open={!!album} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>延期 / 恢复相册</DialogTitle>
+          <DialogDescription>
+            「{album?.title}」当前状态：{ALBUM_LIFECYCLE_STATES[state]}。
+            {needsStorageRestore(state)
+              ? '恢复时会把归档的原图移回，并重新生成缩略图，照片较多时需要一段时间。'
+              : '设置新的过期时间后相册立即恢复访问。'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="album-lifecycle-expires" className="block text-sm font-medium text-text-primary mb-2">
+              <CalendarClock className="w-4 h-4 inline mr-1" />
+              新的过期时间
+            </label>
+            <input
+              id="album-lifecycle-expires"
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              min={toLocalInputValue(new Date())}
+              disabled={neverExpires}
+              required={!neverExpires}
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent disabled:opacity-50"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            <input
+              type="checkbox"
+              checked={neverExpires}
+              onChange={(e) => setNeverExpires(e.target.checked)}
+              className="rounded border-border"
+            />
+            永不过期
+          </label>
+
+          <DialogFooter>
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="px-4 py-2 text-sm bg-surface border border-border rounded-lg hover:bg-background transition-colors"
+            >
+              取消
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 text-sm bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {needsStorageRestore(state) ? '恢复相册' : '延期'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -308,6 +308,30 @@ describe('AlbumList', () => {
     expect(screen.getByText('5 张照片')).toBeInTheDocument()
   })
 
+  it('应该显示生命周期状态并按状态筛选', async () => {
+    const user = userEvent.setup()
+    render(
+      <AlbumList
+        initialAlbums={[
+          { ...mockAlbums[0], lifecycle_state: 'archived' },
+          { ...mockAlbums[1], lifecycle_state: 'deleted' },
+        ] as Album[]}
+      />
+    )
+
+    // 默认不显示过期后被自动删除的相册
+    expect(screen.getByText('已归档')).toBeInTheDocument()
+    expect(screen.getByText('恢复')).toBeInTheDocument()
+    expect(screen.queryByText('测试相册2')).not.toBeInTheDocument()
+
+    await user.selectOptions(screen.getByDisplayValue('全部状态'), 'deleted')
+
+    expect(screen.queryByText('测试相册1')).not.toBeInTheDocument()
+    expect(screen.getByText('测试相册2')).toBeInTheDocument()
+    // 筛选选项和状态标签
+    expect(screen.getAllByText('已过期删除')).toHaveLength(2)
+  })
+
   it('应该显示相册公开/私有状态', () => {
     render(<AlbumList initialAlbums={mockAlbums} />)
     
@@ -3,26 +3,52 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
-import { Plus, FolderOpen, Trash2, Check, Loader2, Copy, Settings, ImageIcon, Share2, Filter, Link2 } from 'lucide-react'
+import { Plus, FolderOpen, Trash2, Check, Loader2, Copy, Settings, ImageIcon, Share2, Filter, Link2, Users, CalendarClock } from 'lucide-react'
 import { useSwipeable } from 'react-swipeable'
 import { formatRelativeTime, formatDate, getAlbumShareUrl, getSafeMediaUrl, getAppBaseUrl } from '@/lib/utils'
 import { CreateAlbumDialog } from './create-album-dialog'
+import { AlbumLifecycleDialog } from './album-lifecycle-dialog'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { PullToRefresh } from '@/components/ui/pull-to-refresh'
 import { LongPressMenu } from '@/components/ui/long-press-menu'
 import { showSuccess, handleApiError } from '@/lib/toast'
+import { hasAlbumPermission, type AlbumAccessLevel, type AlbumPermission } from '@/lib/auth/album-permissions'
+import { ALBUM_LIFECYCLE_STATES } from '@/lib/album-lifecycle'
 import type { Album } from '@/types/database'
 import { cn } from '@/lib/utils'
 
 export type AlbumWithCover = Album & {
   cover_thumb_key?: string | null
+  /** 当前用户对相册的访问级别（缺省视为管理员） */
+  access?: AlbumAccessLevel
 }
 
 interface AlbumListProps {
   initialAlbums: AlbumWithCover[]
+  /** 是否显示「我创建的 / 协作相册」筛选（摄影师） */
+  showOwnershipFilter?: boolean
 }
 
-export function AlbumList({ initialAlbums }: AlbumListProps) {
+type OwnershipFilter = 'all' | 'owned' | 'collaborating'
+
+/** 生命周期筛选：未删除 / 已过期（隐藏、归档、恢复中）/ 过期后被自动删除 */
+type LifecycleFilter = 'current' | 'expired' | 'deleted'
+
+/**
+ * 检查当前用户对相册的权限
+ */
+function canAlbum(album: AlbumWithCover, permission: AlbumPermission) {
+  return hasAlbumPermission(album.access ?? 'admin', permission)
+}
+
+/**
+ * 相册的生命周期状态（旧数据缺省视为正常）
+ */
+function lifecycleOf(album: AlbumWithCover) {
+  return album.lifecycle_state ?? 'active'
+}
+
+export function AlbumList({ initialAlbums, showOwnershipFilter = false }: AlbumListProps) {
   const router = useRouter()
   const [albums, setAlbums] = useState<AlbumWithCover[]>(initialAlbums)
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
@@ -31,6 +57,9 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
   const [isDeleting, setIsDeleting] = useState(false)
   const [duplicatingId, setDuplicatingId] = useState<string | null>(null)
   const [shareFilter, setShareFilter] = useState<'all' | 'shared' | 'not_shared'>('all')
+  const [ownershipFilter, setOwnershipFilter] = useState<OwnershipFilter>('all')
+  const [lifecycleFilter, setLifecycleFilter] = useState<LifecycleFilter>('current')
+  const [restoringAlbum, setRestoringAlbum] = useState<AlbumWithCover | null>(null)
   const [confirmDialog, setConfirmDialog] = useState<{
     open: boolean
     title: string
@@ -43,8 +72,17 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
     setAlbums(initialAlbums)
   }, [initialAlbums])
 
+  // 有过期相册时才显示生命周期筛选
+  const hasExpiredAlbums = albums.some((album) => lifecycleOf(album) !== 'active')
+
   // 筛选相册
   const filteredAlbums = albums.filter((album) => {
+    const lifecycle = lifecycleOf(album)
+    if (lifecycleFilter === 'current' && lifecycle === 'deleted') return false
+    if (lifecycleFilter === 'expired' && (lifecycle === 'active' || lifecycle === 'deleted')) return false
+    if (lifecycleFilter === 'deleted' && lifecycle !== 'deleted') return false
+    if (ownershipFilter === 'owned' && album.access !== 'owner') return false
+    if (ownershipFilter === 'collaborating' && album.access !== 'viewer' && album.access !== 'editor') return false
     if (shareFilter === 'all') return true
     if (shareFilter === 'shared') return album.allow_share !== false
     if (shareFilter === 'not_shared') return album.allow_share === false
@@ -52,6 +90,10 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
   })
 
   const toggleSelection = (albumId: string) => {
+    // 批量管理仅用于删除，只能选择有删除权限的相册
+    const album = albums.find((a) => a.id === albumId)
+    if (album && (!canAlbum(album, 'manage') || lifecycleOf(album) === 'deleted')) return
+
     const newSelected = new Set(selectedAlbums)
     if (newSelected.has(albumId)) {
       newSelected.delete(albumId)
@@ -199,6 +241,18 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
     })
   }
 
+  // 延期 / 恢复成功后更新本地状态
+  const handleRestored = (result: { id: string; expires_at: string | null; lifecycle_state: AlbumWithCover['lifecycle_state'] }) => {
+    setAlbums((prev) =>
+      prev.map((a) =>
+        a.id === result.id
+          ? { ...a, expires_at: result.expires_at, lifecycle_state: result.lifecycle_state, deleted_at: null }
+          : a
+      )
+    )
+    router.refresh()
+  }
+
   const handleRefresh = async () => {
     router.refresh()
     // 等待一下让用户看到刷新动画
@@ -221,6 +275,28 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
           {!selectionMode && (
             <div className="flex items-center gap-2 w-full sm:w-auto">
               <Filter className="w-4 h-4 text-text-muted" />
+              {showOwnershipFilter && (
+                <select
+                  value={ownershipFilter}
+                  onChange={(e) => setOwnershipFilter(e.target.value as OwnershipFilter)}
+                  className="px-3 py-2 md:py-1.5 text-sm bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent min-h-[44px] md:min-h-0"
+                >
+                  <option value="all">全部归属</option>
+                  <option value="owned">我创建的</option>
+                  <option value="collaborating">协作相册</option>
+                </select>
+              )}
+              {hasExpiredAlbums && (
+                <select
+                  value={lifecycleFilter}
+                  onChange={(e) => setLifecycleFilter(e.target.value as LifecycleFilter)}
+                  className="px-3 py-2 md:py-1.5 text-sm bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent min-h-[44px] md:min-h-0"
+                >
+                  <option value="current">全部状态</option>
+                  <option value="expired">已过期</option>
+                  <option value="deleted">已过期删除</option>
+                </select>
+              )}
               <select
                 value={shareFilter}
                 onChange={(e) => setShareFilter(e.target.value as 'all' | 'shared' | 'not_shared')}
@@ -292,8 +368,13 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
               selectionMode={selectionMode}
               isSelected={selectedAlbums.has(album.id)}
               onToggleSelection={() => toggleSelection(album.id)}
-              onDuplicate={handleDuplicate}
-              onDelete={handleDeleteAlbum}
+              onDuplicate={canAlbum(album, 'edit') && lifecycleOf(album) !== 'deleted' ? handleDuplicate : undefined}
+              onDelete={canAlbum(album, 'manage') && lifecycleOf(album) !== 'deleted' ? handleDeleteAlbum : undefined}
+              onRestore={
+                lifecycleOf(album) !== 'active' && canAlbum(album, lifecycleOf(album) === 'deleted' ? 'manage' : 'edit')
+                  ? () => setRestoringAlbum(album)
+                  : undefined
+              }
               isDuplicating={duplicatingId === album.id}
               isDeleting={isDeleting}
             />
@@ -304,7 +385,14 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
           <Filter className="w-16 h-16 text-text-muted mx-auto mb-4" />
           <h3 className="text-lg font-semibold mb-2">没有符合条件的相册</h3>
           <p className="text-text-secondary mb-6">请尝试调整筛选条件</p>
-          <button onClick={() => setShareFilter('all')} className="btn-secondary">
+          <button
+            onClick={() => {
+              setShareFilter('all')
+              setOwnershipFilter('all')
+              setLifecycleFilter('current')
+            }}
+            className="btn-secondary"
+          >
             清除筛选
           </button>
         </div>
@@ -333,6 +421,13 @@ export function AlbumList({ initialAlbums }: AlbumListProps) {
 
       {/* 创建相册对话框 */}
       <CreateAlbumDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen} />
+
+      {/* 延期 / 恢复过期相册 */}
+      <AlbumLifecycleDialog
+        album={restoringAlbum}
+        onOpenChange={(open) => !open && setRestoringAlbum(null)}
+        onSuccess={handleRestored}
+      />
       </div>
     </PullToRefresh>
   )
@@ -346,6 +441,7 @@ function AlbumCard({
   onToggleSelection,
   onDuplicate,
   onDelete,
+  onRestore,
   isDuplicating,
   isDeleting,
 }: {
@@ -356,10 +452,15 @@ function AlbumCard({
   onToggleSelection?: () => void
   onDuplicate?: (albumId: string, e: React.MouseEvent) => void
   onDelete?: (albumId: string, e: React.MouseEvent) => void
+  /** 延期 / 恢复过期相册 */
+  onRestore?: () => void
   isDuplicating?: boolean
   isDeleting?: boolean
 }) {
   const router = useRouter()
+  const lifecycle = lifecycleOf(album)
+  // 过期后被自动删除的相册只能延期恢复，不能进入详情和设置
+  const canEdit = canAlbum(album, 'edit') && lifecycle !== 'deleted'
   const [imageError, setImageError] = useState(false)
   const [swipeOffset, setSwipeOffset] = useState(0)
   const [isSwiping, setIsSwiping] = useState(false)
@@ -424,7 +525,7 @@ function AlbumCard({
     }
     // 如果点击的不是按钮，则导航到相册详情页
     const target = e.target as HTMLElement
-    if (!target.closest('button') && !target.closest('a')) {
+    if (lifecycle !== 'deleted' && !target.closest('button') && !target.closest('a')) {
       router.push(`/admin/albums/${album.id}`)
     }
   }
@@ -434,14 +535,14 @@ function AlbumCard({
     onSwiping: (e) => {
       if (selectionMode) return
       // 只允许左滑（删除）
-      if (e.dir === 'Left' && e.deltaX < 0) {
+      if (e.dir === 'Left' && e.deltaX < 0 && onDelete) {
         setIsSwiping(true)
         setSwipeOffset(Math.max(e.deltaX, -80)) // 最大滑动80px
       }
     },
     onSwipedLeft: () => {
       if (selectionMode) return
-      if (swipeOffset < -50) {
+      if (swipeOffset < -50 && onDelete) {
         // 滑动超过50px，触发删除
         onDelete?.(album.id, {} as React.MouseEvent)
       }
@@ -522,65 +623,71 @@ function AlbumCard({
       {!selectionMode && (
         <div className="absolute top-2 right-2 z-10 flex gap-2">
           {/* 移动端：始终显示，桌面端：悬停时更明显 */}
-          <button
-            type="button"
-            onClick={(e) => {
-              e.stopPropagation()
-              e.preventDefault()
-              router.push(`/admin/albums/${album.id}/settings`)
-            }}
-            className={cn(
-              'p-2 bg-black/60 hover:bg-black/80 rounded-full text-white transition-all backdrop-blur-sm',
-              'min-h-[44px] min-w-[44px] flex items-center justify-center', // 移动端触摸目标
-              'opacity-100 sm:opacity-70 sm:group-hover:opacity-100' // 移动端始终显示，桌面端悬停时更明显
-            )}
-            title="编辑相册设置"
-            aria-label="编辑相册设置"
-          >
-            <Settings className="w-4 h-4" />
-          </button>
-          <button
-            type="button"
-            onClick={(e) => {
-              e.stopPropagation()
-              onDuplicate?.(album.id, e)
-            }}
-            disabled={isDuplicating}
-            className={cn(
-              'p-2 bg-black/60 hover:bg-black/80 rounded-full text-white transition-all disabled:opacity-50 backdrop-blur-sm',
-              'min-h-[44px] min-w-[44px] flex items-center justify-center', // 移动端触摸目标
-              'opacity-100 sm:opacity-70 sm:group-hover:opacity-100' // 移动端始终显示，桌面端悬停时更明显
-            )}
-            title="复制相册配置"
-            aria-label="复制相册配置"
-          >
-            {isDuplicating ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Copy className="w-4 h-4" />
-            )}
-          </button>
-          <button
-            type="button"
-            onClick={(e) => {
-              e.stopPropagation()
-              onDelete?.(album.id, e)
-            }}
-            disabled={isDeleting}
-            className={cn(
-              'p-2 bg-red-500/80 hover:bg-red-600 rounded-full text-white transition-all disabled:opacity-50 backdrop-blur-sm',
-              'min-h-[44px] min-w-[44px] flex items-center justify-center', // 移动端触摸目标
-              'opacity-100 sm:opacity-70 sm:group-hover:opacity-100' // 移动端始终显示，桌面端悬停时更明显
-            )}
-            title="删除相册"
-            aria-label="删除相册"
-          >
-            {isDeleting ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Trash2 className="w-4 h-4" />
-            )}
-          </button>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                e.preventDefault()
+                router.push(`/admin/albums/${album.id}/settings`)
+              }}
+              className={cn(
+                'p-2 bg-black/60 hover:bg-black/80 rounded-full text-white transition-all backdrop-blur-sm',
+                'min-h-[44px] min-w-[44px] flex items-center justify-center', // 移动端触摸目标
+                'opacity-100 sm:opacity-70 sm:group-hover:opacity-100' // 移动端始终显示，桌面端悬停时更明显
+              )}
+              title="编辑相册设置"
+              aria-label="编辑相册设置"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+          )}
+          {onDuplicate && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDuplicate(album.id, e)
+              }}
+              disabled={isDuplicating}
+              className={cn(
+                'p-2 bg-black/60 hover:bg-black/80 rounded-full text-white transition-all disabled:opacity-50 backdrop-blur-sm',
+                'min-h-[44px] min-w-[44px] flex items-center justify-center', // 移动端触摸目标
+                'opacity-100 sm:opacity-70 sm:group-hover:opacity-100' // 移动端始终显示，桌面端悬停时更明显
+              )}
+              title="复制相册配置"
+              aria-label="复制相册配置"
+            >
+              {isDuplicating ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Copy className="w-4 h-4" />
+              )}
+            </button>
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDelete(album.id, e)
+              }}
+              disabled={isDeleting}
+              className={cn(
+                'p-2 bg-red-500/80 hover:bg-red-600 rounded-full text-white transition-all disabled:opacity-50 backdrop-blur-sm',
+                'min-h-[44px] min-w-[44px] flex items-center justify-center', // 移动端触摸目标
+                'opacity-100 sm:opacity-70 sm:group-hover:opacity-100' // 移动端始终显示，桌面端悬停时更明显
+              )}
+              title="删除相册"
+              aria-label="删除相册"
+            >
+              {isDeleting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4" />
+              )}
+            </button>
+          )}
         </div>
       )}
 
@@ -664,10 +771,40 @@ function AlbumCard({
                   已分享
                 </span>
               )}
+              {lifecycle !== 'active' && (
+                <span
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-amber-500/10 text-amber-400"
+                  title={album.lifecycle_changed_at ? `状态变更于 ${formatDate(album.lifecycle_changed_at)}` : undefined}
+                >
+                  <CalendarClock className="w-3 h-3" />
+                  {ALBUM_LIFECYCLE_STATES[lifecycle]}
+                </span>
+              )}
+              {(album.access === 'viewer' || album.access === 'editor') && (
+                <span
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-accent/10 text-accent"
+                  title="他人创建、邀请您协作的相册"
+                >
+                  <Users className="w-3 h-3" />
+                  {album.access === 'editor' ? '协作' : '只读'}
+                </span>
+              )}
             </div>
             <p className="text-text-muted text-xs">
               {isMounted ? formatRelativeTime(album.created_at) : formatDate(album.created_at)}
             </p>
+            {onRestore && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onRestore()
+                }}
+                className="text-xs text-accent hover:underline"
+              >
+                {lifecycle === 'hidden' ? '延期' : '恢复'}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -680,28 +817,49 @@ function AlbumCard({
 
   // 长按菜单项
   const longPressMenuItems = [
-    {
-      label: '编辑设置',
-      icon: <Settings className="w-4 h-4" />,
-      onClick: () => {
-        window.location.href = `/admin/albums/${album.id}/settings`
-      },
-    },
-    {
-      label: '复制相册',
-      icon: <Copy className="w-4 h-4" />,
-      onClick: () => {
-        onDuplicate?.(album.id, {} as React.MouseEvent)
-      },
-    },
-    {
-      label: '删除相册',
-      icon: <Trash2 className="w-4 h-4" />,
-      onClick: () => {
-        onDelete?.(album.id, {} as React.MouseEvent)
-      },
-      variant: 'danger' as const,
-    },
+    ...(canEdit
+      ? [
+          {
+            label: '编辑设置',
+            icon: <Settings className="w-4 h-4" />,
+            onClick: () => {
+              window.location.href = `/admin/albums/${album.id}/settings`
+            },
+          },
+        ]
+      : []),
+    ...(onDuplicate
+      ? [
+          {
+            label: '复制相册',
+            icon: <Copy className="w-4 h-4" />,
+            onClick: () => {
+              onDuplicate(album.id, {} as React.MouseEvent)
+            },
+          },
+        ]
+      : []),
+    ...(onRestore
+      ? [
+          {
+            label: lifecycle === 'hidden' ? '延期相册' : '恢复相册',
+            icon: <CalendarClock className="w-4 h-4" />,
+            onClick: onRestore,
+          },
+        ]
+      : []),
+    ...(onDelete
+      ? [
+          {
+            label: '删除相册',
+            icon: <Trash2 className="w-4 h-4" />,
+            onClick: () => {
+              onDelete(album.id, {} as React.MouseEvent)
+            },
+            variant: 'danger' as const,
+          },
+        ]
+      : []),
   ]
 
   // 包装在 div 中以便手势处理正常工作
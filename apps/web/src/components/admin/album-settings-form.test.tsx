@@ -44,6 +44,10 @@ vi.mock('./storage-checker', () => ({
   ),
 }))
 
+vi.mock('./client-select', () => ({
+  ClientSelect: () => <select data-testid="client-select" />,
+}))
+
 // Mock fetch
 const mockFetch = vi.fn()
 global.fetch = mockFetch
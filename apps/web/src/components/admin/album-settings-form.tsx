@@ -2,32 +2,35 @@
 
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Loader2, Save, Eye, EyeOff, Lock, Calendar, Download, Radio, Share2, Brush, Sparkles, Copy, Check, RefreshCw, Server } from 'lucide-react'
+import { Loader2, Save, Eye, EyeOff, Lock, Calendar, Download, Radio, Share2, Brush, Sparkles, Copy, Check, RefreshCw, Server, Mail } from 'lucide-react'
 import type { Database } from '@/types/database'
 import { MultiWatermarkManager, type WatermarkItem } from './multi-watermark-manager'
 import { StylePresetSelector } from './style-preset-selector'
 import { StorageChecker } from './storage-checker'
+import { ClientSelect } from './client-select'
+import { AlbumClientNotifications } from './album-client-notifications'
+import { useSiteSettings } from '@/components/site-settings-provider'
 import { showSuccess, handleApiError } from '@/lib/toast'
-import { getSafeMediaUrl, getFtpServerHost, getFtpServerPort } from '@/lib/utils'
+import { getFtpServerHost, getFtpServerPort } from '@/lib/utils'
 
 type Album = Database['public']['Tables']['albums']['Row']
 
 interface AlbumSettingsFormProps {
   album: Album
-  coverOriginalKey?: string | null  // 封面照片的原图 key（用于风格预设预览）
+  hasPassword?: boolean  // 是否已设置访问密码（密码哈希不下发到浏览器）
 }
 
-export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsFormProps) {
+export function AlbumSettingsForm({ album, hasPassword = false }: AlbumSettingsFormProps) {
   const router = useRouter()
+  const { branding } = useSiteSettings()
   const [loading, setLoading] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
+  const [clearPassword, setClearPassword] = useState(false)
   const [copiedToken, setCopiedToken] = useState(false)
   const [resettingToken, setResettingToken] = useState(false)
-  // 使用安全的媒体 URL（自动修复 localhost HTTPS 问题）
-  const mediaUrl = getSafeMediaUrl()
   // 获取默认水印配置（用于初始化）
   const getDefaultWatermarkConfig = () => {
-    const photographerName = process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'
+    const photographerName = branding.studio_name
     return {
       watermarks: [{
         id: 'watermark-1',
@@ -58,7 +61,7 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
       if (watermarkEnabled && config.watermarks.length === 0) {
         return getDefaultWatermarkConfig()
       }
-      const photographerName = process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'
+      const photographerName = branding.studio_name
       return {
         watermarks: config.watermarks.map((w: unknown, index: number) => {
           const watermark = w as Record<string, unknown>
@@ -68,6 +71,8 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
           const defaultText = `© ${photographerName}`
           
           return {
+            // 平铺、字体、描边等可选字段原样保留
+            ...(watermark as Partial<WatermarkItem>),
             id: (watermark.id as string) || `watermark-${index + 1}`,
             type: watermarkType,
             text: watermarkType === 'text' && (!watermarkText || watermarkText.trim() === '') ? defaultText : watermarkText,
@@ -109,10 +114,12 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
     description: album.description || '',
     event_date: album.event_date ? new Date(album.event_date).toISOString().slice(0, 16) : '',
     location: album.location || '',
+    client_id: album.client_id || '',
+    notify_client: album.notify_client ?? false,
     is_public: album.is_public ?? false,
     is_live: album.is_live ?? false,
-    // 访问控制
-    password: album.password || '',
+    // 访问控制（密码只能重新设置，无法回显）
+    password: '',
     upload_token: album.upload_token || '', // FTP/API 上传令牌
     expires_at: album.expires_at ? new Date(album.expires_at).toISOString().slice(0, 16) : '',
     // 布局设置
@@ -121,6 +128,7 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
     // 功能开关
     allow_download: album.allow_download ?? false,
     allow_batch_download: album.allow_batch_download ?? false,
+    max_selection: album.max_selection ? String(album.max_selection) : '', // 空字符串表示不限制
     show_exif: album.show_exif ?? true,
     allow_share: album.allow_share ?? true,
     enable_human_retouch: album.enable_human_retouch ?? false, // 开启人工修图
@@ -142,7 +150,7 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
 
   // 获取默认水印配置（单个水印对象）
   const getDefaultWatermark = (): WatermarkItem => {
-    const photographerName = process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'
+    const photographerName = branding.studio_name
     // 使用 crypto.randomUUID() 生成稳定的 ID，避免 hydration mismatch
     const generateId = () => {
       if (typeof crypto !== 'undefined' && crypto.randomUUID) {
@@ -168,7 +176,7 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
       // 如果启用水印开关，且当前没有水印配置或水印文字为空，自动添加/更新默认水印
       if (field === 'watermark_enabled' && value === true) {
         const currentWatermarks = prev.watermark_config?.watermarks || []
-        const photographerName = process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'
+        const photographerName = branding.studio_name
         const defaultText = `© ${photographerName}`
         
         if (currentWatermarks.length === 0) {
@@ -252,14 +260,23 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
         : null
       
       // 从 formData 中提取需要提交的字段，排除 upload_token（通过重置按钮单独更新）
-      const { upload_token, ...formDataWithoutToken } = formData
+      // 访问密码留空表示保持不变，显式移除时提交 null
+      const { upload_token, password, ...formDataWithoutToken } = formData
+      const passwordUpdate = password.trim()
+        ? { password: password.trim() }
+        : clearPassword || !hasPassword
+          ? { password: null }
+          : {}
       
       const submitData = {
         ...formDataWithoutToken,
+        ...passwordUpdate,
         watermark_enabled: watermarkEnabled,
         event_date: formData.event_date && formData.event_date.trim() ? formData.event_date : null,
         expires_at: formData.expires_at && formData.expires_at.trim() ? formData.expires_at : null,
         location: formData.location.trim() || null,
+        client_id: formData.client_id || null,
+        max_selection: parseInt(formData.max_selection, 10) || null,
         // 分享配置：空字符串转换为 null
         share_title: formData.share_title.trim() || null,
         share_description: formData.share_description.trim() || null,
@@ -383,6 +400,49 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
             />
             <p className="text-xs text-text-muted mt-1">活动举办地点（可选）</p>
           </div>
+
+          <div>
+            <label htmlFor="album-client" className="block text-sm font-medium text-text-secondary mb-2">
+              客户
+            </label>
+            <ClientSelect
+              id="album-client"
+              value={formData.client_id}
+              onChange={(clientId) => handleChange('client_id', clientId)}
+              className="input"
+            />
+            <p className="text-xs text-text-muted mt-1">关联客户后可在客户详情中查看其全部相册（可选）</p>
+          </div>
+
+          {/* 客户邮件通知 */}
+          {formData.client_id && (
+            <div className="sm:col-span-2 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex-1 pr-4">
+                  <p className="font-medium flex items-center gap-2">
+                    <Mail className="w-4 h-4 text-accent" />
+                    邮件通知客户
+                  </p>
+                  <p className="text-sm text-text-secondary">
+                    相册就绪、新增照片、收到选片、打包下载完成和即将过期时给客户发送邮件（客户需填写邮箱）
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleChange('notify_client', !formData.notify_client)}
+                  className={`relative rounded-full transition-colors shrink-0 min-h-[44px] min-w-[44px] md:min-h-0 md:min-w-0 flex items-center justify-center ${
+                    formData.notify_client ? 'bg-accent' : 'bg-surface-elevated'
+                  } w-12 h-7 md:w-11 md:h-6`}
+                >
+                  <div className={`absolute top-[2px] left-[2px] w-6 h-6 md:w-5 md:h-5 bg-white rounded-full transition-transform ${
+                    formData.notify_client ? 'translate-x-5 md:translate-x-5' : 'translate-x-0'
+                  }`} />
+                </button>
+              </div>
+              {/* 已保存的设置才能发送通知 */}
+              {album.notify_client && album.client_id && <AlbumClientNotifications albumId={album.id} />}
+            </div>
+          )}
         </div>
       </section>
 
@@ -402,8 +462,11 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
             <input
               type={showPassword ? 'text' : 'password'}
               value={formData.password}
-              onChange={(e) => handleChange('password', e.target.value)}
-              placeholder="留空则无需密码"
+              onChange={(e) => {
+                handleChange('password', e.target.value)
+                setClearPassword(false)
+              }}
+              placeholder={hasPassword && !clearPassword ? '已设置密码，留空保持不变' : '留空则无需密码'}
               className="input pr-10"
             />
             <button
@@ -414,7 +477,23 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
               {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
             </button>
           </div>
-          <p className="text-xs text-text-muted mt-1">设置密码后，访客需要输入密码才能查看相册</p>
+          <div className="flex items-center justify-between gap-2 mt-1">
+            <p className="text-xs text-text-muted">
+              {clearPassword ? '保存后将移除访问密码' : '设置密码后，访客需要输入密码才能查看相册'}
+            </p>
+            {hasPassword && (
+              <button
+                type="button"
+                onClick={() => {
+                  setClearPassword(!clearPassword)
+                  handleChange('password', '')
+                }}
+                className="text-xs text-accent hover:underline flex-shrink-0"
+              >
+                {clearPassword ? '保留密码' : '移除密码'}
+              </button>
+            )}
+          </div>
         </div>
 
         {/* 到期时间 */}
@@ -719,6 +798,25 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
           </button>
         </div>
 
+        {/* 选片数量限制 */}
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1">
+            每位访客最多可选
+          </label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={formData.max_selection}
+            onChange={(e) => handleChange('max_selection', e.target.value.replace(/[^0-9]/g, ''))}
+            className="input"
+            placeholder="不限制"
+          />
+          <p className="text-xs text-text-muted mt-1">
+            留空表示不限制；达到上限后访客需取消其他照片才能继续选择
+          </p>
+        </div>
+
         {/* 显示 EXIF */}
         <div className="flex items-center justify-between">
           <div className="flex-1 pr-4">
@@ -879,6 +977,7 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
         {formData.watermark_enabled && (
           <div className="pt-4 border-t border-border">
             <MultiWatermarkManager
+              albumId={album.id}
               watermarks={formData.watermark_config.watermarks || []}
               onChange={handleWatermarksChange}
             />
@@ -898,12 +997,7 @@ export function AlbumSettingsForm({ album, coverOriginalKey }: AlbumSettingsForm
         <StylePresetSelector
           value={formData.color_grading as string | null}
           onChange={(presetId) => handleChange('color_grading', presetId)}
-          previewImage={
-            // 使用封面照片的原图作为预览图片（未应用风格预设，才能正确预览不同风格效果）
-            coverOriginalKey && mediaUrl
-              ? `${mediaUrl.replace(/\/$/, '')}/${coverOriginalKey.replace(/^\//, '')}`
-              : undefined
-          }
+          albumId={album.id}
         />
         
         {album.photo_count > 0 && (
@@ -0,0 +1,271 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Ban, Copy, Link2, Loader2, Plus } from 'lucide-react'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { copyToClipboard } from '@/lib/clipboard'
+import { showSuccess, showError, handleApiError } from '@/lib/toast'
+import { cn } from '@/lib/utils'
+import { hasAlbumPermission } from '@/lib/auth/album-permissions'
+import type { ShareLinkPermission } from '@/types/database'
+
+interface AlbumShareLinksManagerProps {
+  albumId: string
+}
+
+type ShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked'
+
+interface ShareLinkItem {
+  id: string
+  label: string | null
+  permission: ShareLinkPermission
+  expires_at: string | null
+  max_uses: number | null
+  use_count: number
+  last_used_at: string | null
+  created_at: string
+  status: ShareLinkStatus
+  url: string | null
+}
+
+const PERMISSION_LABELS: Record<ShareLinkPermission, string> = {
+  view: '仅浏览',
+  download: '可下载',
+  select: '可下载和选片',
+}
+
+const STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: '有效',
+  expired: '已过期',
+  exhausted: '次数已满',
+  revoked: '已吊销',
+}
+
+/**
+ * 相册访问链接管理
+ * 每条链接有独立的权限、有效期和使用次数，例如给新人可下载和选片的链接、给亲友仅浏览的链接
+ */
+export function AlbumShareLinksManager({ albumId }: AlbumShareLinksManagerProps) {
+  const [links, setLinks] = useState<ShareLinkItem[]>([])
+  const [canEdit, setCanEdit] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [label, setLabel] = useState('')
+  const [permission, setPermission] = useState<ShareLinkPermission>('view')
+  const [expiresAt, setExpiresAt] = useState('')
+  const [maxUses, setMaxUses] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [revoking, setRevoking] = useState<ShareLinkItem | null>(null)
+
+  // 加载链接列表
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/share-links`)
+      if (response.ok) {
+        const data = await response.json()
+        const result = data.data || data
+        setLinks(result.links || [])
+        setCanEdit(hasAlbumPermission(result.access, 'edit'))
+      }
+    } catch (error) {
+      console.error('Failed to load share links:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [albumId])
+
+  useEffect(() => {
+    loadLinks()
+  }, [loadLinks])
+
+  const handleCopy = async (link: ShareLinkItem) => {
+    if (!link.url) return
+    if (await copyToClipboard(link.url)) {
+      showSuccess('链接已复制')
+    } else {
+      showError('复制失败，请手动复制')
+    }
+  }
+
+  // 创建链接
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/share-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label: label.trim() || null,
+          permission,
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+          maxUses: maxUses ? Number(maxUses) : null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        handleApiError(new Error(data.error?.message || '创建失败'))
+        return
+      }
+
+      await loadLinks()
+      setLabel('')
+      setExpiresAt('')
+      setMaxUses('')
+      const created: ShareLinkItem = data.data || data
+      if (created.url && (await copyToClipboard(created.url))) {
+        showSuccess('链接已创建并复制')
+      } else {
+        showSuccess('链接已创建')
+      }
+    } catch (error) {
+      console.error('Create share link failed:', error)
+      handleApiError(error, '创建失败')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // 吊销链接
+  const handleRevoke = async (link: ShareLinkItem) => {
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/share-links/${link.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        handleApiError(new Error(data.error?.message || '吊销失败'))
+        return
+      }
+      await loadLinks()
+      showSuccess('链接已吊销')
+    } catch (error) {
+      console.error('Revoke share link failed:', error)
+      handleApiError(error, '吊销失败')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-accent" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-secondary">
+        为不同客户生成独立链接，可单独设置权限、有效期和使用次数，随时吊销。
+      </p>
+
+      {links.length > 0 ? (
+        <ul className="divide-y divide-border rounded-lg bg-surface max-h-64 overflow-y-auto">
+          {links.map((link) => (
+            <li key={link.id} className="flex items-center justify-between gap-3 px-3 py-2.5">
+              <div className="min-w-0">
+                <p className="text-sm truncate">
+                  {link.label || '未命名链接'}
+                  <span className="ml-2 text-xs text-text-muted">{PERMISSION_LABELS[link.permission]}</span>
+                </p>
+                <p className="text-xs text-text-muted">
+                  <span className={cn(link.status === 'active' ? 'text-green-500' : 'text-text-muted')}>
+                    {STATUS_LABELS[link.status]}
+                  </span>
+                  {' · '}
+                  已使用 {link.use_count}
+                  {link.max_uses !== null && ` / ${link.max_uses}`} 次
+                  {link.expires_at && ` · ${new Date(link.expires_at).toLocaleString()} 到期`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {link.url && link.status === 'active' && (
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(link)}
+                    className="p-2 hover:bg-surface-elevated rounded transition-colors"
+                    title="复制链接"
+                  >
+                    <Copy className="w-4 h-4 text-text-muted" />
+                  </button>
+                )}
+                {canEdit && link.status !== 'revoked' && (
+                  <button
+                    type="button"
+                    onClick={() => setRevoking(link)}
+                    className="p-2 hover:bg-surface-elevated rounded transition-colors"
+                    title="吊销"
+                  >
+                    <Ban className="w-4 h-4 text-text-muted" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="flex flex-col items-center gap-2 py-6 text-sm text-text-muted">
+          <Link2 className="w-6 h-6" />
+          还没有访问链接
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="备注，如：新人、亲友"
+              maxLength={100}
+              className="input flex-1 text-base" // 移动端防止缩放
+            />
+            <select
+              value={permission}
+              onChange={(e) => setPermission(e.target.value as ShareLinkPermission)}
+              className="input sm:w-36 text-base"
+            >
+              <option value="view">{PERMISSION_LABELS.view}</option>
+              <option value="download">{PERMISSION_LABELS.download}</option>
+              <option value="select">{PERMISSION_LABELS.select}</option>
+            </select>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="input flex-1 text-base"
+              aria-label="过期时间（留空表示永不过期）"
+              title="过期时间（留空表示永不过期）"
+            />
+            <input
+              type="number"
+              min={1}
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              placeholder="最多使用次数（不限）"
+              className="input sm:w-44 text-base"
+            />
+          </div>
+          <button type="submit" disabled={isSubmitting} className="w-full btn-primary text-sm min-h-[44px]">
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            生成访问链接
+          </button>
+        </form>
+      )}
+
+      {/* 确认对话框 */}
+      {revoking && (
+        <ConfirmDialog
+          open
+          onOpenChange={(open) => !open && setRevoking(null)}
+          title="吊销访问链接"
+          message={`确定要吊销「${revoking.label || '未命名链接'}」吗？吊销后该链接无法再打开，已通过它进入的访客也将失去链接权限。`}
+          onConfirm={async () => {
+            await handleRevoke(revoking)
+            setRevoking(null)
+          }}
+        />
+      )}
+    </div>
+  )
+}
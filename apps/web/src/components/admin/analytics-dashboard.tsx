@@ -0,0 +1,371 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Download, Eye, Image as ImageIcon, Loader2, Users, ArrowDownToLine } from 'lucide-react'
+import { handleApiError } from '@/lib/toast'
+import { cn, getSafeMediaUrl } from '@/lib/utils'
+import { ANALYTICS_DEVICES, ANALYTICS_EVENTS } from '@/lib/analytics-events'
+import type { AnalyticsBreakdownItem, AnalyticsSummary } from '@/lib/analytics'
+import type { AnalyticsDeviceType, AnalyticsEventType } from '@/types/database'
+
+interface AnalyticsDashboardProps {
+  albums: Array<{ id: string; title: string }>
+}
+
+/** 时间范围（最近 N 天，按 UTC 日期统计） */
+const RANGE_OPTIONS = [7, 30, 90] as const
+type RangeDays = (typeof RANGE_OPTIONS)[number]
+
+/** 趋势图可切换的指标 */
+type TrendMetric = 'album_view' | 'photo_view' | 'downloads'
+
+const TREND_METRICS: Record<TrendMetric, string> = {
+  album_view: '相册浏览',
+  photo_view: '照片查看',
+  downloads: '下载',
+}
+
+const DOWNLOAD_EVENTS: AnalyticsEventType[] = ['photo_download', 'batch_download', 'package_download']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 构建查询参数（开始时间为 N 天前的 UTC 零点）
+ */
+function buildQueryParams(days: RangeDays, albumId: string): URLSearchParams {
+  const now = new Date()
+  const todayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const params = new URLSearchParams({
+    from: new Date(todayStart - (days - 1) * DAY_MS).toISOString(),
+    to: now.toISOString(),
+  })
+  if (albumId) params.append('album_id', albumId)
+  return params
+}
+
+/**
+ * 累加多种事件的数量
+ */
+function sumEvents(counts: Partial<Record<AnalyticsEventType, number>>, events: AnalyticsEventType[]): number {
+  return events.reduce((total, event) => total + (counts[event] ?? 0), 0)
+}
+
+/**
+ * 国家代码转中文名称（浏览器不支持时显示代码）
+ */
+function formatCountry(code: string): string {
+  try {
+    return new Intl.DisplayNames(['zh-CN'], { type: 'region' }).of(code) || code
+  } catch {
+    return code
+  }
+}
+
+/**
+ * 访问统计面板
+ * 展示浏览、下载、分享等事件的趋势和分布，支持按相册筛选并导出 CSV
+ */
+export function AnalyticsDashboard({ albums }: AnalyticsDashboardProps) {
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState<RangeDays>(30)
+  const [albumId, setAlbumId] = useState('')
+  const [metric, setMetric] = useState<TrendMetric>('album_view')
+  const mediaUrl = getSafeMediaUrl()
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/analytics?${buildQueryParams(days, albumId).toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '加载访问统计失败')
+      }
+
+      setSummary(data.data || null)
+    } catch (error) {
+      handleApiError(error, '加载访问统计失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [days, albumId])
+
+  useEffect(() => {
+    loadSummary()
+  }, [loadSummary])
+
+  const trend = useMemo(() => {
+    return (summary?.trend || []).map((point) => ({
+      date: point.date,
+      value: metric === 'downloads' ? sumEvents(point.counts, DOWNLOAD_EVENTS) : point.counts[metric] ?? 0,
+    }))
+  }, [summary, metric])
+  const trendPeak = Math.max(0, ...trend.map((point) => point.value))
+  const trendMax = Math.max(1, trendPeak)
+
+  const exportUrl = `/api/admin/analytics/export?${buildQueryParams(days, albumId).toString()}`
+  const totals = summary?.totals || {}
+
+  return (
+    <div>
+      {/* 页面标题 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <h1 className="text-xl md:text-2xl font-serif font-bold">数据统计</h1>
+          <p className="text-text-secondary text-sm md:text-base mt-1">
+            相册浏览、照片查看、下载、分享和人脸搜索的趋势与来源，设备和地区在服务器本地解析
+          </p>
+        </div>
+        <a
+          href={exportUrl}
+          className="flex items-center gap-2 px-4 py-2 bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>导出 CSV</span>
+        </a>
+      </div>
+
+      {/* 筛选 */}
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <select
+          value={albumId}
+          onChange={(e) => setAlbumId(e.target.value)}
+          className="flex-1 px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          <option value="">全部相册</option>
+          {albums.map((album) => (
+            <option key={album.id} value={album.id}>
+              {album.title}
+            </option>
+          ))}
+        </select>
+        <div className="flex rounded-lg border border-border overflow-hidden">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setDays(option)}
+              className={cn(
+                'px-4 py-2 text-sm transition-colors',
+                days === option ? 'bg-accent text-accent-foreground' : 'bg-surface text-text-secondary hover:bg-background'
+              )}
+            >
+              最近 {option} 天
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && !summary ? (
+        <div className="p-8 text-center">
+          <Loader2 className="w-6 h-6 animate-spin mx-auto text-text-muted" />
+          <p className="text-text-muted mt-2">加载中...</p>
+        </div>
+      ) : summary ? (
+        <div className={cn('space-y-6', loading && 'opacity-60 transition-opacity')}>
+          {/* 指标卡片 */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard icon={Eye} label="相册浏览" value={totals.album_view ?? 0} />
+            <StatCard icon={ImageIcon} label="照片查看" value={totals.photo_view ?? 0} />
+            <StatCard icon={ArrowDownToLine} label="下载" value={sumEvents(totals, DOWNLOAD_EVENTS)} />
+            <StatCard icon={Users} label="独立访客" value={summary.unique_visitors} />
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-text-secondary">
+            {(Object.keys(ANALYTICS_EVENTS) as AnalyticsEventType[])
+              .filter((event) => !['album_view', 'photo_view'].includes(event))
+              .map((event) => (
+                <span key={event}>
+                  {ANALYTICS_EVENTS[event]}：<span className="text-text-primary">{totals[event] ?? 0}</span>
+                </span>
+              ))}
+          </div>
+
+          {/* 趋势 */}
+          <section className="bg-surface rounded-lg border border-border p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-medium">每日趋势</h2>
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as TrendMetric)}
+                className="px-3 py-1.5 text-sm bg-background border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+              >
+                {(Object.keys(TREND_METRICS) as TrendMetric[]).map((key) => (
+                  <option key={key} value={key}>
+                    {TREND_METRICS[key]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-end gap-px h-48">
+              {trend.map((point) => (
+                <div
+                  key={point.date}
+                  className="flex-1 h-full flex items-end group relative"
+                  title={`${point.date}：${point.value}`}
+                >
+                  <div
+                    className="w-full bg-accent/70 group-hover:bg-accent rounded-t transition-colors"
+                    style={{ height: `${(point.value / trendMax) * 100}%`, minHeight: point.value > 0 ? 2 : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-2 text-xs text-text-muted">
+              <span>{trend[0]?.date}</span>
+              <span>最高 {trendPeak}</span>
+              <span>{trend[trend.length - 1]?.date}</span>
+            </div>
+          </section>
+
+          {/* 分布 */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <BreakdownList
+              title="设备"
+              items={summary.devices}
+              formatKey={(key) => ANALYTICS_DEVICES[key as AnalyticsDeviceType] ?? key}
+            />
+            <BreakdownList title="外部来源" items={summary.referrers} emptyText="暂无外部来源（直接访问或站内跳转）" />
+            <BreakdownList title="国家/地区" items={summary.countries} formatKey={formatCountry} />
+          </div>
+
+          {/* 热门照片 */}
+          <section className="bg-surface rounded-lg border border-border overflow-hidden">
+            <h2 className="font-medium px-4 py-3 border-b border-border">热门照片</h2>
+            {summary.top_photos.length === 0 ? (
+              <p className="p-8 text-center text-text-muted">暂无照片查看或下载记录</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-background border-b border-border">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">照片</th>
+                      {!albumId && <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">相册</th>}
+                      <th className="px-4 py-3 text-right text-sm font-medium text-text-primary">查看</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-text-primary">下载</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {summary.top_photos.map((photo) => (
+                      <tr key={photo.photo_id} className="hover:bg-background/50 transition-colors">
+                        <td className="px-4 py-2 text-sm text-text-primary">
+                          <div className="flex items-center gap-3">
+                            {photo.thumb_key && mediaUrl ? (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img
+                                src={`${mediaUrl.replace(/\/$/, '')}/${photo.thumb_key}`}
+                                alt={photo.filename || ''}
+                                className="w-10 h-10 rounded object-cover flex-shrink-0"
+                                loading="lazy"
+                              />
+                            ) : (
+                              <div className="w-10 h-10 rounded bg-background flex-shrink-0" />
+                            )}
+                            <span className="truncate">{photo.filename || photo.photo_id}</span>
+                          </div>
+                        </td>
+                        {!albumId && (
+                          <td className="px-4 py-2 text-sm text-text-secondary">{photo.album_title || '—'}</td>
+                        )}
+                        <td className="px-4 py-2 text-sm text-right">{photo.views}</td>
+                        <td className="px-4 py-2 text-sm text-right">{photo.downloads}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          {/* 热门相册（仅全部相册视图） */}
+          {!albumId && (
+            <section className="bg-surface rounded-lg border border-border overflow-hidden">
+              <h2 className="font-medium px-4 py-3 border-b border-border">热门相册</h2>
+              {summary.top_albums.length === 0 ? (
+                <p className="p-8 text-center text-text-muted">暂无访问记录</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {summary.top_albums.map((album) => (
+                    <li key={album.album_id}>
+                      <button
+                        type="button"
+                        onClick={() => setAlbumId(album.album_id)}
+                        className="w-full flex items-center justify-between gap-4 px-4 py-3 text-sm text-left hover:bg-background/50 transition-colors"
+                      >
+                        <span className="truncate">{album.title || album.album_id}</span>
+                        <span className="text-text-secondary whitespace-nowrap">
+                          浏览 {album.views} · 下载 {album.downloads}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+        </div>
+      ) : (
+        <div className="p-8 text-center">
+          <p className="text-text-muted">暂无统计数据</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StatCard({
+  icon: Icon,
+  label,
+  value,
+}: {
+  icon: React.ComponentType<{ className?: string }>
+  label: string
+  value: number
+}) {
+  return (
+    <div className="bg-surface rounded-lg border border-border p-4">
+      <div className="flex items-center gap-2 text-sm text-text-secondary">
+        <Icon className="w-4 h-4" />
+        {label}
+      </div>
+      <p className="text-2xl font-bold mt-2">{value.toLocaleString()}</p>
+    </div>
+  )
+}
+
+function BreakdownList({
+  title,
+  items,
+  formatKey = (key) => key,
+  emptyText = '暂无数据',
+}: {
+  title: string
+  items: AnalyticsBreakdownItem[]
+  formatKey?: (key: string) => string
+  emptyText?: string
+}) {
+  const total = items.reduce((sum, item) => sum + item.count, 0)
+
+  return (
+    <section className="bg-surface rounded-lg border border-border p-4">
+      <h2 className="font-medium mb-3">{title}</h2>
+      {items.length === 0 ? (
+        <p className="text-sm text-text-muted">{emptyText}</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.key} className="text-sm">
+              <div className="flex justify-between gap-2">
+                <span className="truncate">{formatKey(item.key)}</span>
+                <span className="text-text-secondary">{item.count}</span>
+              </div>
+              <div className="h-1.5 mt-1 bg-background rounded-full overflow-hidden">
+                <div className="h-full bg-accent/70" style={{ width: `${(item.count / total) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,325 @@
+'use client'
+
+import { useState, useEffect, useCallback, Fragment } from 'react'
+import { ChevronDown, ChevronRight, Download, Filter, Loader2, Search } from 'lucide-react'
+import { handleApiError } from '@/lib/toast'
+import { formatRelativeTime } from '@/lib/utils'
+import { AUDIT_ACTIONS, type AuditAction } from '@/lib/audit-actions'
+import type { AuditLog, AuditTargetType } from '@/types/database'
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+interface AuditLogFilterState {
+  actor: string
+  action: AuditAction | 'all'
+  targetType: AuditTargetType | 'all'
+  targetId: string
+  from: string
+  to: string
+}
+
+const targetTypeLabels: Record<AuditTargetType, string> = {
+  album: '相册',
+  photo: '照片',
+  user: '用户',
+  client: '客户',
+  webhook: 'Webhook',
+  style_preset: '风格预设',
+  system: '系统',
+}
+
+const initialFilters: AuditLogFilterState = {
+  actor: '',
+  action: 'all',
+  targetType: 'all',
+  targetId: '',
+  from: '',
+  to: '',
+}
+
+/**
+ * 将筛选条件转换为查询参数（日期按本地时区的整天范围）
+ */
+function buildFilterParams(filters: AuditLogFilterState): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.actor.trim()) params.append('actor', filters.actor.trim())
+  if (filters.action !== 'all') params.append('action', filters.action)
+  if (filters.targetType !== 'all') params.append('target_type', filters.targetType)
+  if (filters.targetId.trim()) params.append('target_id', filters.targetId.trim())
+  if (filters.from) params.append('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.append('to', new Date(`${filters.to}T23:59:59.999`).toISOString())
+  return params
+}
+
+/**
+ * 格式化变更值
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '（空）'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * 审计日志查看器
+ * 只读展示，支持按操作者、操作类型、对象和时间筛选，并导出 CSV
+ */
+export function AuditLogViewer() {
+  const [logs, setLogs] = useState<AuditLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<AuditLogFilterState>(initialFilters)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    limit: 50,
+    total: 0,
+    totalPages: 0,
+  })
+
+  const loadLogs = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = buildFilterParams(filters)
+      params.append('page', pagination.page.toString())
+      params.append('limit', pagination.limit.toString())
+
+      const response = await fetch(`/api/admin/audit-logs?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '加载审计日志失败')
+      }
+
+      setLogs(data.data?.logs || [])
+      setPagination((prev) => ({
+        ...prev,
+        total: data.data?.pagination?.total || 0,
+        totalPages: data.data?.pagination?.totalPages || 0,
+      }))
+    } catch (error) {
+      handleApiError(error, '加载审计日志失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, pagination.page, pagination.limit])
+
+  useEffect(() => {
+    loadLogs()
+  }, [loadLogs])
+
+  const updateFilter = <K extends keyof AuditLogFilterState>(key: K, value: AuditLogFilterState[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+    setPagination((prev) => ({ ...prev, page: 1 }))
+  }
+
+  const exportUrl = `/api/admin/audit-logs/export?${buildFilterParams(filters).toString()}`
+
+  return (
+    <div>
+      {/* 页面标题 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <h1 className="text-xl md:text-2xl font-serif font-bold">审计日志</h1>
+          <p className="text-text-secondary text-sm md:text-base mt-1">
+            记录照片删除恢复、相册设置、用户管理和系统升级等敏感操作，日志不可修改
+          </p>
+        </div>
+        <a
+          href={exportUrl}
+          className="flex items-center gap-2 px-4 py-2 bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>导出 CSV</span>
+        </a>
+      </div>
+
+      {/* 搜索和筛选 */}
+      <div className="flex flex-col lg:flex-row gap-4 mb-6">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-text-muted" />
+          <input
+            type="text"
+            placeholder="搜索操作者邮箱..."
+            value={filters.actor}
+            onChange={(e) => updateFilter('actor', e.target.value)}
+            className="w-full pl-10 pr-4 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Filter className="w-4 h-4 text-text-muted" />
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value as AuditAction | 'all')}
+            className="px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            <option value="all">全部操作</option>
+            {(Object.keys(AUDIT_ACTIONS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTIONS[action]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.targetType}
+            onChange={(e) => updateFilter('targetType', e.target.value as AuditTargetType | 'all')}
+            className="px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            <option value="all">全部对象</option>
+            {(Object.keys(targetTypeLabels) as AuditTargetType[]).map((type) => (
+              <option key={type} value={type}>
+                {targetTypeLabels[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <input
+          type="text"
+          placeholder="对象 ID"
+          value={filters.targetId}
+          onChange={(e) => updateFilter('targetId', e.target.value)}
+          className="lg:w-48 px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+        />
+
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className="px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            aria-label="开始日期"
+          />
+          <span className="text-text-muted">-</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className="px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            aria-label="结束日期"
+          />
+        </div>
+      </div>
+
+      {/* 日志列表 */}
+      <div className="bg-surface rounded-lg border border-border overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="w-6 h-6 animate-spin mx-auto text-text-muted" />
+            <p className="text-text-muted mt-2">加载中...</p>
+          </div>
+        ) : logs.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-text-muted">暂无审计日志</p>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-background border-b border-border">
+                  <tr>
+                    <th className="w-8" />
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">时间</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">操作者</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">操作</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">对象</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">IP</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {logs.map((log) => {
+                    const expanded = expandedId === log.id
+                    const hasDetails = !!log.changes || !!log.metadata || !!log.user_agent
+                    return (
+                      <Fragment key={log.id}>
+                        <tr
+                          onClick={() => hasDetails && setExpandedId(expanded ? null : log.id)}
+                          className={`hover:bg-background/50 transition-colors ${hasDetails ? 'cursor-pointer' : ''}`}
+                        >
+                          <td className="pl-3 text-text-muted">
+                            {hasDetails &&
+                              (expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-text-secondary whitespace-nowrap" title={log.created_at}>
+                            {formatRelativeTime(log.created_at)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-text-primary">
+                            {log.actor_email || log.actor_id || '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-text-primary">
+                            {AUDIT_ACTIONS[log.action as AuditAction] ?? log.action}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-text-secondary">
+                            {targetTypeLabels[log.target_type] ?? log.target_type}
+                            {log.target_id && <span className="ml-2 font-mono text-xs">{log.target_id}</span>}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-text-secondary font-mono">{log.ip_address || '—'}</td>
+                        </tr>
+                        {expanded && (
+                          <tr className="bg-background/50">
+                            <td />
+                            <td colSpan={5} className="px-4 py-3 text-sm space-y-2">
+                              {log.changes && (
+                                <ul className="space-y-1">
+                                  {Object.entries(log.changes).map(([field, change]) => (
+                                    <li key={field} className="break-all">
+                                      <span className="font-mono text-text-primary">{field}</span>
+                                      <span className="text-text-muted">：</span>
+                                      <span className="text-text-secondary line-through">{formatValue(change.before)}</span>
+                                      <span className="text-text-muted"> → </span>
+                                      <span className="text-text-primary">{formatValue(change.after)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                              {log.metadata && (
+                                <pre className="text-xs text-text-secondary whitespace-pre-wrap break-all">
+                                  {JSON.stringify(log.metadata, null, 2)}
+                                </pre>
+                              )}
+                              {log.user_agent && <p className="text-xs text-text-muted break-all">{log.user_agent}</p>}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* 分页 */}
+            {pagination.totalPages > 1 && (
+              <div className="px-4 py-3 border-t border-border flex items-center justify-between">
+                <div className="text-sm text-text-secondary">
+                  共 {pagination.total} 条记录，第 {pagination.page} / {pagination.totalPages} 页
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPagination((prev) => ({ ...prev, page: prev.page - 1 }))}
+                    disabled={pagination.page <= 1}
+                    className="px-3 py-1 text-sm bg-surface border border-border rounded-lg hover:bg-background disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    上一页
+                  </button>
+                  <button
+                    onClick={() => setPagination((prev) => ({ ...prev, page: prev.page + 1 }))}
+                    disabled={pagination.page >= pagination.totalPages}
+                    className="px-3 py-1 text-sm bg-surface border border-border rounded-lg hover:bg-background disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    下一页
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
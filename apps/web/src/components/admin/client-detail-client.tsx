@@ -0,0 +1,243 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Phone, Mail, Edit2, Trash2, Loader2, Images, Heart, Download } from 'lucide-react'
+import { ClientDialog } from './client-dialog'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { formatDate, formatFileSize, formatRelativeTime } from '@/lib/utils'
+import type { ClientActivity } from '@/lib/clients'
+import type { Client } from '@/types/database'
+
+interface ClientDetailClientProps {
+  client: Client
+  activity: ClientActivity
+  /** 删除客户仅管理员可用 */
+  canDelete: boolean
+}
+
+const downloadStatusLabels: Record<string, string> = {
+  pending: '排队中',
+  processing: '打包中',
+  completed: '已完成',
+  failed: '失败',
+}
+
+export function ClientDetailClient({ client: initialClient, activity, canDelete }: ClientDetailClientProps) {
+  const router = useRouter()
+  const [client, setClient] = useState<Client>(initialClient)
+  const [editDialogOpen, setEditDialogOpen] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+
+  const albumTitles = new Map(activity.albums.map((album) => [album.id, album.title]))
+
+  const handleDelete = async () => {
+    setDeleting(true)
+    try {
+      const response = await fetch(`/api/admin/clients/${client.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error?.message || '删除失败')
+      }
+
+      showSuccess('客户已删除')
+      router.push('/admin/clients')
+    } catch (error) {
+      handleApiError(error, '删除客户失败')
+    } finally {
+      setDeleting(false)
+      setConfirmOpen(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 返回按钮 */}
+      <button
+        onClick={() => router.push('/admin/clients')}
+        className="flex items-center gap-2 text-text-muted hover:text-text-primary transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>返回客户列表</span>
+      </button>
+
+      {/* 客户资料 */}
+      <div className="bg-surface rounded-lg border border-border p-6">
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-serif font-bold">{client.name}</h1>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-text-secondary">
+              {client.phone && (
+                <span className="flex items-center gap-1">
+                  <Phone className="w-4 h-4" />
+                  {client.phone}
+                </span>
+              )}
+              {client.email && (
+                <span className="flex items-center gap-1">
+                  <Mail className="w-4 h-4" />
+                  {client.email}
+                </span>
+              )}
+            </div>
+            {client.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {client.tags.map((tag) => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-accent/10 text-accent">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {client.notes && <p className="text-sm text-text-secondary whitespace-pre-wrap">{client.notes}</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setEditDialogOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-surface border border-border rounded-lg hover:bg-background transition-colors"
+            >
+              <Edit2 className="w-4 h-4" />
+              <span>编辑</span>
+            </button>
+            {canDelete && (
+              <button
+                onClick={() => setConfirmOpen(true)}
+                disabled={deleting}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-destructive bg-surface border border-border rounded-lg hover:bg-destructive/10 transition-colors disabled:opacity-50"
+              >
+                {deleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                <span>删除</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* 相册 */}
+      <div className="bg-surface rounded-lg border border-border p-6">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Images className="w-5 h-5" />
+          相册（{activity.albums.length}）
+        </h2>
+        {activity.albums.length === 0 ? (
+          <p className="text-sm text-text-muted">暂无关联相册，可在创建相册或相册设置中选择该客户</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="border-b border-border">
+                <tr>
+                  <th className="px-3 py-2 text-left text-sm font-medium text-text-primary">相册</th>
+                  <th className="px-3 py-2 text-left text-sm font-medium text-text-primary">活动日期</th>
+                  <th className="px-3 py-2 text-right text-sm font-medium text-text-primary">照片</th>
+                  <th className="px-3 py-2 text-right text-sm font-medium text-text-primary">选片访客</th>
+                  <th className="px-3 py-2 text-right text-sm font-medium text-text-primary">已选照片</th>
+                  <th className="px-3 py-2 text-right text-sm font-medium text-text-primary">下载次数</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {activity.albums.map((album) => (
+                  <tr key={album.id} className="hover:bg-background/50 transition-colors">
+                    <td className="px-3 py-2 text-sm">
+                      <Link href={`/admin/albums/${album.id}`} className="text-accent hover:underline">
+                        {album.title}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-text-secondary">
+                      {album.event_date ? formatDate(album.event_date) : '-'}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">{album.photo_count}</td>
+                    <td className="px-3 py-2 text-sm text-right">{album.guest_count}</td>
+                    <td className="px-3 py-2 text-sm text-right">{album.selected_photo_count}</td>
+                    <td className="px-3 py-2 text-sm text-right">{album.download_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* 访客选片 */}
+      <div className="bg-surface rounded-lg border border-border p-6">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Heart className="w-5 h-5" />
+          访客选片（{activity.selections.length}）
+        </h2>
+        {activity.selections.length === 0 ? (
+          <p className="text-sm text-text-muted">暂无选片记录</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {activity.selections.map((session) => (
+              <li key={session.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-1 text-sm">
+                <div>
+                  <span className="font-medium">{session.guest_name}</span>
+                  {session.guest_phone && <span className="text-text-muted ml-2">{session.guest_phone}</span>}
+                  <span className="text-text-muted ml-2">· {albumTitles.get(session.album_id) || '未知相册'}</span>
+                </div>
+                <div className="text-text-secondary">
+                  已选 {session.selected_count} 张 ·{' '}
+                  {session.submitted_at
+                    ? `${formatRelativeTime(session.submitted_at)}提交`
+                    : `未提交（${formatRelativeTime(session.last_active_at)}活跃）`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* 打包下载 */}
+      <div className="bg-surface rounded-lg border border-border p-6">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Download className="w-5 h-5" />
+          打包下载（{activity.downloads.length}）
+        </h2>
+        {activity.downloads.length === 0 ? (
+          <p className="text-sm text-text-muted">暂无打包下载记录</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {activity.downloads.map((download) => (
+              <li key={download.id} className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-1 text-sm">
+                <div>
+                  <span className="font-medium">{albumTitles.get(download.album_id) || '未知相册'}</span>
+                  <span className="text-text-muted ml-2">
+                    {download.photo_count} 张
+                    {download.file_size ? ` · ${formatFileSize(download.file_size)}` : ''}
+                  </span>
+                </div>
+                <div className="text-text-secondary">
+                  {downloadStatusLabels[download.status] || download.status} · {formatRelativeTime(download.created_at)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ClientDialog
+        open={editDialogOpen}
+        onOpenChange={setEditDialogOpen}
+        client={client}
+        onSuccess={(updated) => {
+          setClient(updated)
+          router.refresh()
+        }}
+      />
+
+      <ConfirmDialog
+        open={confirmOpen}
+        title="确认删除"
+        message={`确定要删除客户 "${client.name}" 吗？关联的相册会保留，但不再关联该客户。`}
+        variant="danger"
+        onConfirm={handleDelete}
+        onOpenChange={setConfirmOpen}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, User, Phone, Mail, Tag, Languages } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { NOTIFICATION_LOCALES, type NotificationLocale } from '@/lib/notification-templates'
+import type { Client } from '@/types/database'
+
+interface ClientDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** 编辑的客户，为空表示新建 */
+  client?: Client | null
+  onSuccess?: (client: Client) => void
+}
+
+/**
+ * 创建 / 编辑客户
+ * 标签用逗号分隔输入
+ */
+export function ClientDialog({ open, onOpenChange, client, onSuccess }: ClientDialogProps) {
+  const isEdit = !!client
+  const [name, setName] = useState('')
+  const [phone, setPhone] = useState('')
+  const [email, setEmail] = useState('')
+  const [notes, setNotes] = useState('')
+  const [tags, setTags] = useState('')
+  const [locale, setLocale] = useState<NotificationLocale>('zh-CN')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // 打开时填充表单
+  useEffect(() => {
+    if (!open) return
+    setName(client?.name || '')
+    setPhone(client?.phone || '')
+    setEmail(client?.email || '')
+    setNotes(client?.notes || '')
+    setTags((client?.tags || []).join(', '))
+    setLocale(client?.locale === 'en' ? 'en' : 'zh-CN')
+    setError('')
+  }, [open, client])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const body = {
+        name: name.trim(),
+        phone: phone.trim() || null,
+        email: email.trim() || null,
+        notes: notes.trim() || null,
+        tags: tags.split(/[,，]/).map((tag) => tag.trim()).filter(Boolean),
+        locale,
+      }
+
+      const response = await fetch(isEdit ? `/api/admin/clients/${client.id}` : '/api/admin/clients', {
+        method: isEdit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '保存失败')
+      }
+
+      showSuccess(isEdit ? '客户已更新' : '客户已创建')
+      onOpenChange(false)
+      onSuccess?.(data.data)
+    } catch (error) {
+      handleApiError(error, '保存客户失败')
+      setError(error instanceof Error ? error.message : '保存客户失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? '编辑客户' : '添加客户'}</DialogTitle>
+          <DialogDescription>客户资料可关联到多个相册，便于回头客管理</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* 名称 */}
+          <div>
+            <label htmlFor="client-name" className="block text-sm font-medium text-text-primary mb-2">
+              <User className="w-4 h-4 inline mr-1" />
+              名称 <span className="text-destructive">*</span>
+            </label>
+            <input
+              id="client-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="例如：张先生 / 某某科技有限公司"
+              maxLength={100}
+              required
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {/* 电话 */}
+            <div>
+              <label htmlFor="client-phone" className="block text-sm font-medium text-text-primary mb-2">
+                <Phone className="w-4 h-4 inline mr-1" />
+                电话
+              </label>
+              <input
+                id="client-phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                maxLength={50}
+                className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+
+            {/* 邮箱 */}
+            <div>
+              <label htmlFor="client-email" className="block text-sm font-medium text-text-primary mb-2">
+                <Mail className="w-4 h-4 inline mr-1" />
+                邮箱
+              </label>
+              <input
+                id="client-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                maxLength={255}
+                className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+          </div>
+
+          {/* 标签 */}
+          <div>
+            <label htmlFor="client-tags" className="block text-sm font-medium text-text-primary mb-2">
+              <Tag className="w-4 h-4 inline mr-1" />
+              标签 <span className="text-text-muted text-xs">(用逗号分隔)</span>
+            </label>
+            <input
+              id="client-tags"
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="例如：婚礼, 企业年会, VIP"
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+          </div>
+
+          {/* 通知语言 */}
+          <div>
+            <label htmlFor="client-locale" className="block text-sm font-medium text-text-primary mb-2">
+              <Languages className="w-4 h-4 inline mr-1" />
+              通知邮件语言
+            </label>
+            <select
+              id="client-locale"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as NotificationLocale)}
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            >
+              {Object.entries(NOTIFICATION_LOCALES).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 备注 */}
+          <div>
+            <label htmlFor="client-notes" className="block text-sm font-medium text-text-primary mb-2">
+              备注
+            </label>
+            <textarea
+              id="client-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent resize-none"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="px-4 py-2 text-sm bg-surface border border-border rounded-lg hover:bg-background transition-colors"
+            >
+              取消
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !name.trim()}
+              className="px-4 py-2 text-sm bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isEdit ? '保存' : '添加'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
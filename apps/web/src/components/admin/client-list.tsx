@@ -0,0 +1,302 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, Search, Tag, Edit2, Trash2, Loader2 } from 'lucide-react'
+import { ClientDialog } from './client-dialog'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { formatRelativeTime } from '@/lib/utils'
+import type { ClientListItem } from '@/lib/clients'
+
+interface ClientListProps {
+  /** 删除客户仅管理员可用 */
+  canDelete: boolean
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+export function ClientList({ canDelete }: ClientListProps) {
+  const router = useRouter()
+  const [clients, setClients] = useState<ClientListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [tagFilter, setTagFilter] = useState('')
+  const [pagination, setPagination] = useState<Pagination>({
+    page: 1,
+    limit: 50,
+    total: 0,
+    totalPages: 0,
+  })
+  const [isDeleting, setIsDeleting] = useState<string | null>(null)
+  const [confirmDialog, setConfirmDialog] = useState<{
+    open: boolean
+    title: string
+    message: string
+    onConfirm: () => void | Promise<void>
+    variant?: 'default' | 'danger'
+  } | null>(null)
+
+  useEffect(() => {
+    loadClients()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pagination.page, tagFilter, searchQuery])
+
+  const loadClients = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        page: pagination.page.toString(),
+        limit: pagination.limit.toString(),
+      })
+
+      if (searchQuery.trim()) {
+        params.append('search', searchQuery.trim())
+      }
+
+      if (tagFilter.trim()) {
+        params.append('tag', tagFilter.trim())
+      }
+
+      const response = await fetch(`/api/admin/clients?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '加载客户列表失败')
+      }
+
+      setClients(data.data?.clients || [])
+      setPagination((prev) => ({
+        ...prev,
+        total: data.data?.pagination?.total || 0,
+        totalPages: data.data?.pagination?.totalPages || 0,
+      }))
+    } catch (error) {
+      handleApiError(error, '加载客户列表失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = (client: ClientListItem) => {
+    setConfirmDialog({
+      open: true,
+      title: '确认删除',
+      message: `确定要删除客户 "${client.name}" 吗？关联的 ${client.album_count} 个相册会保留，但不再关联该客户。`,
+      variant: 'danger',
+      onConfirm: async () => {
+        setIsDeleting(client.id)
+        try {
+          const response = await fetch(`/api/admin/clients/${client.id}`, {
+            method: 'DELETE',
+          })
+
+          if (!response.ok) {
+            const data = await response.json()
+            throw new Error(data.error?.message || '删除失败')
+          }
+
+          showSuccess('客户已删除')
+          loadClients()
+        } catch (error) {
+          handleApiError(error, '删除客户失败')
+        } finally {
+          setIsDeleting(null)
+          setConfirmDialog(null)
+        }
+      },
+    })
+  }
+
+  const handlePageChange = (newPage: number) => {
+    setPagination((prev) => ({ ...prev, page: newPage }))
+  }
+
+  return (
+    <div>
+      {/* 页面标题 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <h1 className="text-xl md:text-2xl font-serif font-bold">客户管理</h1>
+          <p className="text-text-secondary text-sm md:text-base mt-1">
+            管理客户资料，查看每位客户的相册、选片和下载记录
+          </p>
+        </div>
+        <button
+          onClick={() => setCreateDialogOpen(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>添加客户</span>
+        </button>
+      </div>
+
+      {/* 搜索和筛选 */}
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-text-muted" />
+          <input
+            type="text"
+            placeholder="搜索姓名、电话或邮箱..."
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value)
+              setPagination((prev) => ({ ...prev, page: 1 }))
+            }}
+            className="w-full pl-10 pr-4 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        </div>
+
+        <div className="relative sm:w-48">
+          <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-text-muted" />
+          <input
+            type="text"
+            placeholder="按标签筛选"
+            value={tagFilter}
+            onChange={(e) => {
+              setTagFilter(e.target.value)
+              setPagination((prev) => ({ ...prev, page: 1 }))
+            }}
+            className="w-full pl-10 pr-4 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        </div>
+      </div>
+
+      {/* 客户列表 */}
+      <div className="bg-surface rounded-lg border border-border overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="w-6 h-6 animate-spin mx-auto text-text-muted" />
+            <p className="text-text-muted mt-2">加载中...</p>
+          </div>
+        ) : clients.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-text-muted">暂无客户</p>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-background border-b border-border">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">名称</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">电话</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">邮箱</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">标签</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">相册</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">创建时间</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-text-primary">操作</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {clients.map((client) => (
+                    <tr key={client.id} className="hover:bg-background/50 transition-colors">
+                      <td className="px-4 py-3 text-sm text-text-primary font-medium">{client.name}</td>
+                      <td className="px-4 py-3 text-sm text-text-secondary">{client.phone || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-text-secondary">{client.email || '-'}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {client.tags.map((tag) => (
+                            <button
+                              key={tag}
+                              onClick={() => {
+                                setTagFilter(tag)
+                                setPagination((prev) => ({ ...prev, page: 1 }))
+                              }}
+                              className="px-2 py-0.5 rounded-full text-xs bg-accent/10 text-accent hover:bg-accent/20"
+                            >
+                              {tag}
+                            </button>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-text-secondary">{client.album_count}</td>
+                      <td className="px-4 py-3 text-sm text-text-secondary">
+                        {formatRelativeTime(client.created_at)}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => router.push(`/admin/clients/${client.id}`)}
+                            className="p-2 text-text-muted hover:text-text-primary hover:bg-background rounded-lg transition-colors"
+                            title="查看"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          {canDelete && (
+                            <button
+                              onClick={() => handleDelete(client)}
+                              disabled={isDeleting === client.id}
+                              className="p-2 text-text-muted hover:text-destructive hover:bg-background rounded-lg transition-colors disabled:opacity-50"
+                              title="删除"
+                            >
+                              {isDeleting === client.id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="w-4 h-4" />
+                              )}
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* 分页 */}
+            {pagination.totalPages > 1 && (
+              <div className="px-4 py-3 border-t border-border flex items-center justify-between">
+                <div className="text-sm text-text-secondary">
+                  共 {pagination.total} 个客户，第 {pagination.page} / {pagination.totalPages} 页
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handlePageChange(pagination.page - 1)}
+                    disabled={pagination.page <= 1}
+                    className="px-3 py-1 text-sm bg-surface border border-border rounded-lg hover:bg-background disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    上一页
+                  </button>
+                  <button
+                    onClick={() => handlePageChange(pagination.page + 1)}
+                    disabled={pagination.page >= pagination.totalPages}
+                    className="px-3 py-1 text-sm bg-surface border border-border rounded-lg hover:bg-background disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    下一页
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* 添加客户对话框 */}
+      <ClientDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen} onSuccess={() => loadClients()} />
+
+      {/* 确认对话框 */}
+      {confirmDialog && (
+        <ConfirmDialog
+          open={confirmDialog.open}
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          variant={confirmDialog.variant || 'default'}
+          onConfirm={confirmDialog.onConfirm}
+          onOpenChange={(open) => {
+            if (!open) {
+              setConfirmDialog(null)
+            }
+          }}
+        />
+      )}
+    </div>
+  )
+}
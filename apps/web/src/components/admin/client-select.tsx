@@ -0,0 +1,52 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface ClientOption {
+  id: string
+  name: string
+  phone: string | null
+}
+
+interface ClientSelectProps {
+  id?: string
+  /** 选中的客户 ID，空字符串表示不关联 */
+  value: string
+  onChange: (clientId: string) => void
+  className?: string
+  disabled?: boolean
+}
+
+/**
+ * 客户下拉选择框
+ * 加载失败（如无权限）时只保留"不关联客户"选项
+ */
+export function ClientSelect({ id, value, onChange, className, disabled }: ClientSelectProps) {
+  const [clients, setClients] = useState<ClientOption[]>([])
+
+  useEffect(() => {
+    fetch('/api/admin/clients?limit=100')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setClients(data?.data?.clients || []))
+      .catch((err) => console.error('Failed to load clients:', err))
+  }, [])
+
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={className}
+    >
+      <option value="">不关联客户</option>
+      {/* 已关联但不在前 100 个中的客户 */}
+      {value && !clients.some((client) => client.id === value) && <option value={value}>当前客户</option>}
+      {clients.map((client) => (
+        <option key={client.id} value={client.id}>
+          {client.phone ? `${client.name}（${client.phone}）` : client.name}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -13,6 +13,7 @@ import {
 } from '@/components/ui/dialog'
 import type { AlbumTemplate } from '@/types/database'
 import { StylePresetSelector } from './style-preset-selector'
+import { ClientSelect } from './client-select'
 import { getFtpServerHost, getFtpServerPort } from '@/lib/utils'
 import { showSuccess } from '@/lib/toast'
 
@@ -28,6 +29,7 @@ export function CreateAlbumDialog({ open, onOpenChange }: CreateAlbumDialogProps
   const [eventDate, setEventDate] = useState('')
   const [location, setLocation] = useState('')
   const [templateId, setTemplateId] = useState<string>('')
+  const [clientId, setClientId] = useState('')
   const [templates, setTemplates] = useState<AlbumTemplate[]>([])
   const [stylePresetId, setStylePresetId] = useState<string | null>(null)
   const [showStyleSelector, setShowStyleSelector] = useState(false)
@@ -48,9 +50,25 @@ export function CreateAlbumDialog({ open, onOpenChange }: CreateAlbumDialogProps
     if (open) {
       loadTemplates()
       loadPresets()
+      loadAlbumDefaults()
     }
   }, [open])
 
+  // 批量下载开关的初始值取系统设置中的相册默认选项（仅管理员可读取，其他角色保持关闭）
+  const loadAlbumDefaults = async () => {
+    try {
+      const res = await fetch('/api/admin/settings')
+      if (!res.ok) return
+      const data = await res.json()
+      const defaults = data.data?.album_defaults
+      if (typeof defaults?.allow_batch_download === 'boolean') {
+        setAllowBatchDownload(defaults.allow_batch_download)
+      }
+    } catch (error) {
+      console.error('加载相册默认选项失败:', error)
+    }
+  }
+
   const loadPresets = async () => {
     try {
       const res = await fetch('/api/admin/style-presets')
@@ -102,7 +120,8 @@ export function CreateAlbumDialog({ open, onOpenChange }: CreateAlbumDialogProps
             allow_download: template.allow_download,
             allow_batch_download: template.allow_batch_download,
             show_exif: template.show_exif,
-            password: template.password,
+            // 访问密码由服务端根据 templateId 复制（接口不返回密码哈希）
+            templateId,
             expires_at: template.expires_at,
             watermark_enabled: template.watermark_enabled,
             watermark_type: template.watermark_type,
@@ -118,6 +137,7 @@ export function CreateAlbumDialog({ open, onOpenChange }: CreateAlbumDialogProps
         description: description.trim(),
         event_date: eventDate || null,
         location: location.trim() || null,
+        client_id: clientId || null,
         // 用户手动选择的风格优先于模板配置
         color_grading: stylePresetId ? { preset: stylePresetId } : null,
       }
@@ -175,6 +195,7 @@ export function CreateAlbumDialog({ open, onOpenChange }: CreateAlbumDialogProps
     setEventDate('')
     setLocation('')
     setTemplateId('')
+    setClientId('')
     setStylePresetId(null)
     setShowStyleSelector(false)
     setAllowBatchDownload(false)
@@ -277,6 +298,19 @@ export function CreateAlbumDialog({ open, onOpenChange }: CreateAlbumDialogProps
                 </div>
               </div>
 
+              <div>
+                <label
+                  htmlFor="client"
+                  className="block text-sm font-medium text-text-secondary mb-2"
+                >
+                  客户
+                </label>
+                <ClientSelect id="client" value={clientId} onChange={setClientId} className="input" />
+                <p className="text-xs text-text-muted mt-1">
+                  关联客户后可在客户详情中查看其全部相册（可选）
+                </p>
+              </div>
+
 
               {templates.length > 0 && (
                 <div>
@@ -289,7 +323,14 @@ export function CreateAlbumDialog({ open, onOpenChange }: CreateAlbumDialogProps
                   <select
                     id="template"
                     value={templateId}
-                    onChange={(e) => setTemplateId(e.target.value)}
+                    onChange={(e) => {
+                      setTemplateId(e.target.value)
+                      // 未选择客户时预填模板关联的客户
+                      const templateClientId = templates.find((template) => template.id === e.target.value)?.client_id
+                      if (!clientId && templateClientId) {
+                        setClientId(templateClientId)
+                      }
+                    }}
                     className="input"
                   >
                     <option value="">不使用模板</option>
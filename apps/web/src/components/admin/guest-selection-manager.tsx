@@ -0,0 +1,259 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Download, Loader2, Lock, Unlock, Trash2, Users, Phone, Heart } from 'lucide-react'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import type { GuestSelectionSummary } from '@/lib/guest-selections'
+
+interface GuestSelectionManagerProps {
+  albumId: string
+  mediaUrl: string
+}
+
+/**
+ * 访客选片管理
+ * 并排展示每位访客的选片结果，支持解除提交锁定、删除访客和导出 CSV
+ */
+export function GuestSelectionManager({ albumId, mediaUrl }: GuestSelectionManagerProps) {
+  const [sessions, setSessions] = useState<GuestSelectionSummary[]>([])
+  const [maxSelection, setMaxSelection] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [confirmDialog, setConfirmDialog] = useState<{
+    open: boolean
+    title: string
+    message: string
+    onConfirm: () => void | Promise<void>
+    variant?: 'default' | 'danger'
+  } | null>(null)
+
+  // 加载访客选片
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/guest-sessions`)
+      if (response.ok) {
+        const data = await response.json()
+        setSessions(data.data?.sessions || [])
+        setMaxSelection(data.data?.maxSelection ?? null)
+      }
+    } catch (error) {
+      console.error('Failed to load guest sessions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [albumId])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  // 统计每张照片被多少位访客选中，便于对比
+  const pickCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const session of sessions) {
+      for (const photo of session.photos) {
+        counts.set(photo.id, (counts.get(photo.id) || 0) + 1)
+      }
+    }
+    return counts
+  }, [sessions])
+
+  // 解除提交锁定
+  const handleUnlock = async (session: GuestSelectionSummary) => {
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/guest-sessions/${session.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ submitted: false }),
+      })
+
+      if (response.ok) {
+        await loadSessions()
+        showSuccess(`已解除 ${session.guest_name} 的提交锁定`)
+      } else {
+        const data = await response.json()
+        handleApiError(new Error(data.error?.message || '操作失败'))
+      }
+    } catch (error) {
+      console.error('Failed to unlock guest session:', error)
+      handleApiError(error, '操作失败')
+    }
+  }
+
+  // 删除访客
+  const handleDelete = (session: GuestSelectionSummary) => {
+    setConfirmDialog({
+      open: true,
+      title: '删除访客选片',
+      message: `确定要删除访客「${session.guest_name}」及其 ${session.photos.length} 张选片吗？此操作不可恢复。`,
+      variant: 'danger',
+      onConfirm: async () => {
+        try {
+          const response = await fetch(`/api/admin/albums/${albumId}/guest-sessions/${session.id}`, {
+            method: 'DELETE',
+          })
+
+          if (response.ok) {
+            await loadSessions()
+            showSuccess('访客已删除')
+          } else {
+            const data = await response.json()
+            handleApiError(new Error(data.error?.message || '删除失败'))
+          }
+        } catch (error) {
+          console.error('Failed to delete guest session:', error)
+          handleApiError(error, '删除失败')
+        }
+      },
+    })
+  }
+
+  // 导出 CSV（不传 sessionId 时导出全部访客）
+  const handleExport = (sessionId?: string) => {
+    const query = sessionId ? `?sessionId=${sessionId}` : ''
+    window.open(`/api/admin/albums/${albumId}/guest-sessions/export${query}`, '_blank')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-accent" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-text-secondary flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          访客选片
+          <span className="text-xs opacity-75">({sessions.length})</span>
+        </h3>
+        {sessions.length > 0 && (
+          <button
+            onClick={() => handleExport()}
+            className="btn-ghost text-sm flex items-center gap-2 px-3 py-2 min-h-[44px]"
+          >
+            <Download className="w-4 h-4" />
+            导出 CSV
+          </button>
+        )}
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-text-muted py-4 text-center">暂无访客选片</p>
+      ) : (
+        // 访客并排展示，移动端可横向滚动
+        <div className="flex gap-3 overflow-x-auto pb-2 -mx-1 px-1">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className="w-64 flex-shrink-0 rounded-lg border border-border bg-surface p-3 space-y-3"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{session.guest_name}</p>
+                  {session.guest_phone && (
+                    <p className="text-xs text-text-muted flex items-center gap-1 mt-0.5">
+                      <Phone className="w-3 h-3" />
+                      {session.guest_phone}
+                    </p>
+                  )}
+                </div>
+                <span className="flex items-center gap-1 px-2 py-0.5 bg-accent/10 rounded-full text-xs font-medium text-accent flex-shrink-0">
+                  <Heart className="w-3 h-3 fill-current" />
+                  {maxSelection ? `${session.photos.length} / ${maxSelection}` : session.photos.length}
+                </span>
+              </div>
+
+              <div className="flex items-center gap-1 text-xs text-text-muted">
+                {session.submitted_at ? (
+                  <>
+                    <Lock className="w-3 h-3" />
+                    已提交 · {new Date(session.submitted_at).toLocaleString('zh-CN')}
+                  </>
+                ) : (
+                  <>选片中 · 最近活跃 {new Date(session.last_active_at).toLocaleString('zh-CN')}</>
+                )}
+              </div>
+
+              {session.photos.length > 0 ? (
+                <div className="grid grid-cols-4 gap-1 max-h-48 overflow-y-auto">
+                  {session.photos.map((photo) => {
+                    const count = pickCounts.get(photo.id) || 0
+                    return (
+                      <div
+                        key={photo.id}
+                        className="aspect-square bg-surface-elevated rounded overflow-hidden relative"
+                        title={photo.filename}
+                      >
+                        {photo.thumb_key && mediaUrl && (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={`${mediaUrl}/${photo.thumb_key}`}
+                            alt={photo.filename}
+                            loading="lazy"
+                            className="w-full h-full object-cover"
+                          />
+                        )}
+                        {count > 1 && (
+                          <span
+                            className="absolute top-0.5 right-0.5 px-1 rounded bg-black/60 text-[10px] text-white"
+                            title={`${count} 位访客选中`}
+                          >
+                            {count}
+                          </span>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              ) : (
+                <p className="text-xs text-text-muted py-2">尚未选片</p>
+              )}
+
+              <div className="flex items-center gap-1 border-t border-border pt-2">
+                {session.submitted_at && (
+                  <button
+                    onClick={() => handleUnlock(session)}
+                    className="btn-ghost text-xs flex items-center gap-1 px-2 py-1.5"
+                    title="允许访客继续修改选片"
+                  >
+                    <Unlock className="w-3.5 h-3.5" />
+                    解锁
+                  </button>
+                )}
+                <button
+                  onClick={() => handleExport(session.id)}
+                  className="btn-ghost text-xs flex items-center gap-1 px-2 py-1.5"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  导出
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  className="btn-ghost text-xs flex items-center gap-1 px-2 py-1.5 ml-auto text-red-400 hover:text-red-300"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {confirmDialog && (
+        <ConfirmDialog
+          open={confirmDialog.open}
+          onOpenChange={(open) => setConfirmDialog(open ? confirmDialog : null)}
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          variant={confirmDialog.variant}
+          onConfirm={confirmDialog.onConfirm}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Upload, Loader2, Fingerprint, SearchX } from 'lucide-react'
+import { handleApiError } from '@/lib/toast'
+import type { DownloadFingerprintSource } from '@/types/database'
+
+interface LeakMatch {
+  code: string
+  source: DownloadFingerprintSource
+  downloadedAt: string
+  album: { id: string; title: string; slug: string } | null
+  photo: { id: string; filename: string } | null
+  packageId: string | null
+  shareLink: { id: string; label: string | null; permission: string } | null
+  guestSession: { id: string; guestName: string; guestPhone: string | null } | null
+  createdBy: { id: string; email: string } | null
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+interface IdentifyResult {
+  detection: { code: string | null; confidence: number }
+  match: LeakMatch | null
+}
+
+const sourceLabels: Record<DownloadFingerprintSource, string> = {
+  download: '访客下载单张原图',
+  batch_download: '访客批量下载已选照片',
+  package: '管理端打包交付',
+}
+
+/**
+ * 泄露溯源
+ * 上传外泄的图片，解出下载时嵌入的不可见指纹，查到是哪个相册、哪位访客、什么时候下载的
+ */
+export function LeakIdentifier() {
+  const [checking, setChecking] = useState(false)
+  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const [result, setResult] = useState<IdentifyResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const imageUrlRef = useRef<string | null>(null)
+
+  useEffect(() => () => {
+    if (imageUrlRef.current) URL.revokeObjectURL(imageUrlRef.current)
+  }, [])
+
+  const handleCheck = async (file: File) => {
+    if (imageUrlRef.current) URL.revokeObjectURL(imageUrlRef.current)
+    imageUrlRef.current = URL.createObjectURL(file)
+    setImageUrl(imageUrlRef.current)
+    setResult(null)
+    setChecking(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch('/api/admin/fingerprints/identify', {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '检测失败')
+      }
+      setResult(data.data)
+    } catch (error) {
+      handleApiError(error, '检测失败')
+    } finally {
+      setChecking(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const match = result?.match
+
+  return (
+    <div>
+      {/* 页面标题 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <h1 className="text-xl md:text-2xl font-serif font-bold">泄露溯源</h1>
+          <p className="text-text-secondary text-sm md:text-base mt-1">
+            上传外泄的照片，识别下载时嵌入的不可见指纹，找到对应的相册、访客和下载时间
+          </p>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={checking}
+          className="flex items-center gap-2 px-4 py-2 bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors disabled:opacity-50"
+        >
+          {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          <span>上传图片</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          aria-label="选择要检测的图片"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleCheck(file)
+          }}
+        />
+      </div>
+
+      {!imageUrl ? (
+        <div className="bg-surface rounded-lg border border-border p-8 text-center">
+          <Fingerprint className="w-8 h-8 mx-auto text-text-muted mb-2" />
+          <p className="text-text-muted">
+            请尽量上传外泄图片的原文件。缩放、重新压缩和轻度调色不影响识别，大幅裁剪、旋转或截屏局部后可能无法识别
+          </p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-[280px_1fr] gap-6">
+          <div className="bg-surface rounded-lg border border-border overflow-hidden">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={imageUrl} alt="待检测图片" className="w-full h-auto" />
+          </div>
+
+          <div className="bg-surface rounded-lg border border-border p-4">
+            {checking ? (
+              <div className="flex items-center gap-2 text-text-muted">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>正在识别指纹...</span>
+              </div>
+            ) : !result ? null : !result.detection.code ? (
+              <div className="flex items-start gap-3">
+                <SearchX className="w-5 h-5 text-text-muted flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium">未检测到下载指纹</p>
+                  <p className="text-sm text-text-muted mt-1">
+                    图片可能不是从本系统下载的、下载时未开启指纹，或被大幅裁剪、旋转过（置信度 {result.detection.confidence}）
+                  </p>
+                </div>
+              </div>
+            ) : !match ? (
+              <div>
+                <p className="font-medium">检测到指纹 {result.detection.code}，但没有对应的下载记录</p>
+                <p className="text-sm text-text-muted mt-1">记录可能已随相册一起删除</p>
+              </div>
+            ) : (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                <dt className="text-text-muted">相册</dt>
+                <dd>
+                  {match.album ? (
+                    <Link href={`/admin/albums/${match.album.id}`} className="text-accent hover:underline">
+                      {match.album.title}
+                    </Link>
+                  ) : (
+                    '已删除'
+                  )}
+                </dd>
+                <dt className="text-text-muted">下载方式</dt>
+                <dd>{sourceLabels[match.source]}</dd>
+                <dt className="text-text-muted">下载时间</dt>
+                <dd>{new Date(match.downloadedAt).toLocaleString('zh-CN')}</dd>
+                {match.photo && (
+                  <>
+                    <dt className="text-text-muted">照片</dt>
+                    <dd className="truncate">{match.photo.filename}</dd>
+                  </>
+                )}
+                <dt className="text-text-muted">访客</dt>
+                <dd>
+                  {match.guestSession
+                    ? `${match.guestSession.guestName}${match.guestSession.guestPhone ? `（${match.guestSession.guestPhone}）` : ''}`
+                    : '未登记选片身份'}
+                </dd>
+                {match.shareLink && (
+                  <>
+                    <dt className="text-text-muted">分享链接</dt>
+                    <dd>{match.shareLink.label || '未命名链接'}</dd>
+                  </>
+                )}
+                {match.createdBy && (
+                  <>
+                    <dt className="text-text-muted">打包人</dt>
+                    <dd>{match.createdBy.email}</dd>
+                  </>
+                )}
+                {match.ipAddress && (
+                  <>
+                    <dt className="text-text-muted">IP</dt>
+                    <dd>{match.ipAddress}</dd>
+                  </>
+                )}
+                {match.userAgent && (
+                  <>
+                    <dt className="text-text-muted">设备</dt>
+                    <dd className="text-text-secondary break-all">{match.userAgent}</dd>
+                  </>
+                )}
+                <dt className="text-text-muted">指纹</dt>
+                <dd className="font-mono text-text-secondary">
+                  {match.code}（置信度 {result.detection.confidence}）
+                </dd>
+              </dl>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -49,6 +49,7 @@ describe('MultiWatermarkManager', () => {
   it('应该渲染水印列表', () => {
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={mockWatermarks} 
         onChange={mockOnChange}
       />
@@ -64,6 +65,7 @@ describe('MultiWatermarkManager', () => {
     const user = userEvent.setup()
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={mockWatermarks} 
         onChange={mockOnChange}
       />
@@ -91,6 +93,7 @@ describe('MultiWatermarkManager', () => {
 
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={maxWatermarks} 
         onChange={mockOnChange}
       />
@@ -130,6 +133,7 @@ describe('MultiWatermarkManager', () => {
 
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={multipleWatermarks} 
         onChange={mockOnChange}
       />
@@ -157,6 +161,7 @@ describe('MultiWatermarkManager', () => {
     const user = userEvent.setup()
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={mockWatermarks} 
         onChange={mockOnChange}
       />
@@ -180,6 +185,7 @@ describe('MultiWatermarkManager', () => {
     const user = userEvent.setup()
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={mockWatermarks} 
         onChange={mockOnChange}
       />
@@ -201,6 +207,7 @@ describe('MultiWatermarkManager', () => {
   it('应该显示水印预览', () => {
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={mockWatermarks} 
         onChange={mockOnChange}
       />
@@ -214,6 +221,7 @@ describe('MultiWatermarkManager', () => {
     const user = userEvent.setup()
     render(
       <MultiWatermarkManager 
+        albumId="album-1"
         watermarks={mockWatermarks} 
         onChange={mockOnChange}
       />
@@ -232,4 +240,52 @@ describe('MultiWatermarkManager', () => {
       expect(true).toBe(true)
     }
   })
+
+  it('应该支持切换为平铺模式', async () => {
+    const user = userEvent.setup()
+    render(
+      <MultiWatermarkManager
+        albumId="album-1"
+        watermarks={mockWatermarks}
+        onChange={mockOnChange}
+      />
+    )
+
+    expect(screen.queryByLabelText('平铺角度')).not.toBeInTheDocument()
+    await user.selectOptions(screen.getByDisplayValue('单个'), 'tiled')
+
+    expect(mockOnChange.mock.calls[0][0][0].mode).toBe('tiled')
+  })
+
+  it('平铺模式应显示角度、密度、间距并隐藏位置', () => {
+    render(
+      <MultiWatermarkManager
+        albumId="album-1"
+        watermarks={[{ ...mockWatermarks[0], mode: 'tiled', density: 6 }]}
+        onChange={mockOnChange}
+      />
+    )
+
+    expect(screen.getByLabelText('平铺角度')).toHaveValue('-30')
+    expect(screen.getByLabelText('平铺密度')).toHaveValue('6')
+    expect(screen.getByLabelText('平铺间距')).toBeInTheDocument()
+    expect(screen.queryByDisplayValue('右下')).not.toBeInTheDocument()
+  })
+
+  it('应该能够设置字体和投影', async () => {
+    const user = userEvent.setup()
+    render(
+      <MultiWatermarkManager
+        albumId="album-1"
+        watermarks={mockWatermarks}
+        onChange={mockOnChange}
+      />
+    )
+
+    await user.selectOptions(screen.getByLabelText('字体'), 'playfair')
+    expect(mockOnChange.mock.calls[0][0][0].fontFamily).toBe('playfair')
+
+    await user.click(screen.getByLabelText('投影'))
+    expect(mockOnChange.mock.calls[1][0][0].shadow).toBe(true)
+  })
 })
@@ -3,20 +3,33 @@
 import { Plus, Trash2, Eye, EyeOff } from 'lucide-react'
 import { showInfo } from '@/lib/toast'
 import { WatermarkPreview } from './watermark-preview'
+import { useSiteSettings } from '@/components/site-settings-provider'
 
 export interface WatermarkItem {
   id: string
   type: 'text' | 'logo'
-  text?: string
+  text?: string // 支持 {date}、{camera} 等 EXIF 变量
   logoUrl?: string
   opacity: number
   position: string
   size?: number
   margin?: number // 边距（百分比，0-20，默认5）
   enabled?: boolean
+  mode?: 'single' | 'tiled' // tiled 为斜向平铺整张图片
+  angle?: number // 平铺角度（-90 ~ 90，默认 -30）
+  density?: number // 平铺密度（短边方向行数，1-12，默认 4）
+  spacing?: number // 平铺间距（水印宽度的百分比，10-300，默认 60）
+  fontFamily?: WatermarkFontId
+  color?: string
+  strokeColor?: string
+  strokeWidth?: number // 描边宽度（字号的百分比，0 表示不描边）
+  shadow?: boolean
 }
 
+export type WatermarkFontId = 'sans' | 'serif' | 'inter' | 'playfair'
+
 interface MultiWatermarkManagerProps {
+  albumId: string
   watermarks: WatermarkItem[]
   onChange: (watermarks: WatermarkItem[]) => void
 }
@@ -33,14 +46,27 @@ const POSITION_OPTIONS = [
   { value: 'bottom-right', label: '右下' },
 ]
 
-export function MultiWatermarkManager({ watermarks, onChange }: MultiWatermarkManagerProps) {
+/** 与 Worker 内置字体一致（src/app/fonts，中文字符回退到思源字体） */
+const FONT_OPTIONS: Array<{ value: WatermarkFontId; label: string }> = [
+  { value: 'sans', label: '思源黑体' },
+  { value: 'serif', label: '思源宋体' },
+  { value: 'inter', label: 'Inter' },
+  { value: 'playfair', label: 'Playfair Display' },
+]
+
+/** 水印文字可用的 EXIF 变量 */
+const TEXT_VARIABLES = ['{date}', '{time}', '{camera}', '{lens}', '{iso}', '{aperture}', '{shutter}', '{focal}']
+
+export function MultiWatermarkManager({ albumId, watermarks, onChange }: MultiWatermarkManagerProps) {
+  const { branding } = useSiteSettings()
+
   const addWatermark = () => {
     if (watermarks.length >= 6) {
       showInfo('最多支持6个水印')
       return
     }
 
-    const photographerName = process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'
+    const photographerName = branding.studio_name
     const newWatermark: WatermarkItem = {
       id: `watermark-${Date.now()}`,
       type: 'text',
@@ -74,7 +100,7 @@ export function MultiWatermarkManager({ watermarks, onChange }: MultiWatermarkMa
         <div>
           <p className="font-medium">多位置水印</p>
           <p className="text-sm text-text-muted">
-            最多支持6个水印，可在不同位置同时显示
+            最多支持6个水印，可在不同位置同时显示，或斜向平铺整张照片防止裁剪
           </p>
         </div>
         <button
@@ -96,11 +122,11 @@ export function MultiWatermarkManager({ watermarks, onChange }: MultiWatermarkMa
           </label>
           <div className="flex justify-center">
             <div className="w-full max-w-[280px]">
-              <WatermarkPreview watermarks={watermarks} width={280} height={210} />
+              <WatermarkPreview albumId={albumId} watermarks={watermarks} />
             </div>
           </div>
           <p className="text-xs text-text-muted mt-2 text-center">
-            蓝色圆点标记水印位置，调整设置可实时查看效果
+            以相册封面为底图，按照片处理的实际效果渲染（没有照片时使用示例图）
           </p>
         </div>
       )}
@@ -151,7 +177,7 @@ export function MultiWatermarkManager({ watermarks, onChange }: MultiWatermarkMa
                 )}
               </div>
 
-              <div className="flex items-end gap-3">
+              <div className="flex items-end gap-3 flex-wrap sm:flex-nowrap">
                 {/* 类型 */}
                 <div className="w-24 shrink-0">
                   <label className="block text-xs font-medium text-text-secondary mb-1">
@@ -177,49 +203,128 @@ export function MultiWatermarkManager({ watermarks, onChange }: MultiWatermarkMa
                     value={watermark.type === 'text' ? watermark.text || '' : watermark.logoUrl || ''}
                     onChange={(e) => updateWatermark(watermark.id, watermark.type === 'text' ? { text: e.target.value } : { logoUrl: e.target.value })}
                     className="input text-sm w-full h-9 px-2"
-                    placeholder={watermark.type === 'text' ? "© Name" : "https://..."}
+                    placeholder={watermark.type === 'text' ? "© Name {date}" : "https://..."}
                   />
                 </div>
 
-                {/* 位置 */}
-                <div className="w-28 shrink-0">
+                {/* 模式 */}
+                <div className="w-24 shrink-0">
                   <label className="block text-xs font-medium text-text-secondary mb-1">
-                    位置
+                    模式
                   </label>
                   <select
-                    value={watermark.position}
-                    onChange={(e) => updateWatermark(watermark.id, { position: e.target.value })}
+                    value={watermark.mode ?? 'single'}
+                    onChange={(e) => updateWatermark(watermark.id, { mode: e.target.value as 'single' | 'tiled' })}
                     className="input text-sm w-full h-9 px-2"
                   >
-                    {POSITION_OPTIONS.map(opt => (
-                      <option key={opt.value} value={opt.value}>
-                        {opt.label}
-                      </option>
-                    ))}
+                    <option value="single">单个</option>
+                    <option value="tiled">平铺</option>
                   </select>
                 </div>
+
+                {/* 位置（平铺模式铺满整张图片，不需要位置） */}
+                {watermark.mode !== 'tiled' && (
+                  <div className="w-28 shrink-0">
+                    <label className="block text-xs font-medium text-text-secondary mb-1">
+                      位置
+                    </label>
+                    <select
+                      value={watermark.position}
+                      onChange={(e) => updateWatermark(watermark.id, { position: e.target.value })}
+                      className="input text-sm w-full h-9 px-2"
+                    >
+                      {POSITION_OPTIONS.map(opt => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
               </div>
 
+              {watermark.type === 'text' && (
+                <p className="text-xs text-text-muted">
+                  可用变量：{TEXT_VARIABLES.join(' ')}，按每张照片的 EXIF 替换
+                </p>
+              )}
+
               {/* 第二行：滑块控制 */}
-              <div className="flex items-center gap-4 pt-1">
-                <div className="flex-1 flex items-center gap-2">
-                  <span className="text-xs text-text-secondary whitespace-nowrap w-12">
-                    边距 {watermark.margin ?? 5}%
-                  </span>
-                  <input
-                    type="range"
-                    min="0"
-                    max="20"
-                    step="1"
-                    value={watermark.margin ?? 5}
-                    onChange={(e) =>
-                      updateWatermark(watermark.id, { margin: parseInt(e.target.value) })
-                    }
-                    className="w-full h-1.5 accent-accent"
-                  />
-                </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 pt-1">
+                {watermark.mode === 'tiled' ? (
+                  <>
+                    <div className="flex-1 min-w-[140px] flex items-center gap-2">
+                      <span className="text-xs text-text-secondary whitespace-nowrap w-16">
+                        角度 {watermark.angle ?? -30}°
+                      </span>
+                      <input
+                        type="range"
+                        min="-90"
+                        max="90"
+                        step="5"
+                        value={watermark.angle ?? -30}
+                        onChange={(e) =>
+                          updateWatermark(watermark.id, { angle: parseInt(e.target.value) })
+                        }
+                        className="w-full h-1.5 accent-accent"
+                        aria-label="平铺角度"
+                      />
+                    </div>
+                    <div className="flex-1 min-w-[140px] flex items-center gap-2">
+                      <span className="text-xs text-text-secondary whitespace-nowrap w-16">
+                        密度 {watermark.density ?? 4} 行
+                      </span>
+                      <input
+                        type="range"
+                        min="1"
+                        max="12"
+                        step="1"
+                        value={watermark.density ?? 4}
+                        onChange={(e) =>
+                          updateWatermark(watermark.id, { density: parseInt(e.target.value) })
+                        }
+                        className="w-full h-1.5 accent-accent"
+                        aria-label="平铺密度"
+                      />
+                    </div>
+                    <div className="flex-1 min-w-[140px] flex items-center gap-2">
+                      <span className="text-xs text-text-secondary whitespace-nowrap w-16">
+                        间距 {watermark.spacing ?? 60}%
+                      </span>
+                      <input
+                        type="range"
+                        min="10"
+                        max="300"
+                        step="10"
+                        value={watermark.spacing ?? 60}
+                        onChange={(e) =>
+                          updateWatermark(watermark.id, { spacing: parseInt(e.target.value) })
+                        }
+                        className="w-full h-1.5 accent-accent"
+                        aria-label="平铺间距"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex-1 min-w-[140px] flex items-center gap-2">
+                    <span className="text-xs text-text-secondary whitespace-nowrap w-12">
+                      边距 {watermark.margin ?? 5}%
+                    </span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="20"
+                      step="1"
+                      value={watermark.margin ?? 5}
+                      onChange={(e) =>
+                        updateWatermark(watermark.id, { margin: parseInt(e.target.value) })
+                      }
+                      className="w-full h-1.5 accent-accent"
+                    />
+                  </div>
+                )}
                 
-                <div className="flex-1 flex items-center gap-2">
+                <div className="flex-1 min-w-[140px] flex items-center gap-2">
                   <span className="text-xs text-text-secondary whitespace-nowrap w-12">
                     透明 {Math.round((watermark.opacity || 0.5) * 100)}%
                   </span>
@@ -236,6 +341,67 @@ export function MultiWatermarkManager({ watermarks, onChange }: MultiWatermarkMa
                   />
                 </div>
               </div>
+
+              {/* 第三行：文字样式 */}
+              {watermark.type === 'text' && (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                  <select
+                    value={watermark.fontFamily ?? 'sans'}
+                    onChange={(e) => updateWatermark(watermark.id, { fontFamily: e.target.value as WatermarkFontId })}
+                    className="input text-sm h-8 px-2 w-40"
+                    aria-label="字体"
+                  >
+                    {FONT_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1.5 text-xs text-text-secondary">
+                    颜色
+                    <input
+                      type="color"
+                      value={watermark.color ?? '#ffffff'}
+                      onChange={(e) => updateWatermark(watermark.id, { color: e.target.value })}
+                      className="w-7 h-7 rounded border border-border bg-transparent cursor-pointer"
+                    />
+                  </label>
+                  <div className="flex-1 min-w-[160px] flex items-center gap-2">
+                    <span className="text-xs text-text-secondary whitespace-nowrap w-14">
+                      描边 {watermark.strokeWidth ?? 0}%
+                    </span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="20"
+                      step="1"
+                      value={watermark.strokeWidth ?? 0}
+                      onChange={(e) =>
+                        updateWatermark(watermark.id, { strokeWidth: parseInt(e.target.value) })
+                      }
+                      className="w-full h-1.5 accent-accent"
+                      aria-label="描边宽度"
+                    />
+                    <input
+                      type="color"
+                      value={watermark.strokeColor ?? '#000000'}
+                      onChange={(e) => updateWatermark(watermark.id, { strokeColor: e.target.value })}
+                      disabled={!watermark.strokeWidth}
+                      className="w-7 h-7 shrink-0 rounded border border-border bg-transparent cursor-pointer disabled:opacity-40"
+                      aria-label="描边颜色"
+                    />
+                  </div>
+                  <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={watermark.shadow ?? false}
+                      onChange={(e) => updateWatermark(watermark.id, { shadow: e.target.checked })}
+                      className="accent-accent"
+                    />
+                    投影
+                  </label>
+                </div>
+              )}
             </div>
           ))}
         </div>
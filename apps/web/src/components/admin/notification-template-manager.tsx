@@ -0,0 +1,179 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Save } from 'lucide-react'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import {
+  CLIENT_NOTIFICATION_TYPES,
+  NOTIFICATION_LOCALES,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  type ClientNotificationType,
+  type NotificationLocale,
+} from '@/lib/notification-templates'
+import type { NotificationTemplate } from '@/types/database'
+
+/** 模板草稿：`类型:语言` → 主题和正文 */
+type TemplateDrafts = Record<string, { subject: string; body: string }>
+
+const templateKey = (type: string, locale: string) => `${type}:${locale}`
+
+/**
+ * 客户通知邮件模板编辑
+ * 每种通知类型每种语言一个模板，正文为纯文本，支持 {{变量名}} 占位符
+ */
+export function NotificationTemplateManager() {
+  const [drafts, setDrafts] = useState<TemplateDrafts>({})
+  const [saved, setSaved] = useState<TemplateDrafts>({})
+  const [type, setType] = useState<ClientNotificationType>('album_ready')
+  const [locale, setLocale] = useState<NotificationLocale>('zh-CN')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/admin/notification-templates')
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error?.message || '加载通知模板失败')
+        }
+        const loaded: TemplateDrafts = {}
+        for (const template of (data.data?.templates || []) as NotificationTemplate[]) {
+          loaded[templateKey(template.type, template.locale)] = { subject: template.subject, body: template.body }
+        }
+        setDrafts(loaded)
+        setSaved(loaded)
+      } catch (error) {
+        handleApiError(error, '加载通知模板失败')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadTemplates()
+  }, [])
+
+  const key = templateKey(type, locale)
+  const current = drafts[key] || { subject: '', body: '' }
+  const isDirty = current.subject !== (saved[key]?.subject || '') || current.body !== (saved[key]?.body || '')
+
+  const updateDraft = (field: 'subject' | 'body', value: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: { ...current, [field]: value } }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/notification-templates', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, locale, ...current }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '保存失败')
+      }
+      const template = data.data as NotificationTemplate
+      const next = { subject: template.subject, body: template.body }
+      setDrafts((prev) => ({ ...prev, [key]: next }))
+      setSaved((prev) => ({ ...prev, [key]: next }))
+      showSuccess('通知模板已保存')
+    } catch (error) {
+      handleApiError(error, '保存通知模板失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-text-muted text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        加载中...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as ClientNotificationType)}
+          className="input sm:flex-1"
+          aria-label="通知类型"
+        >
+          {Object.entries(CLIENT_NOTIFICATION_TYPES).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <div className="flex rounded-lg border border-border overflow-hidden">
+          {Object.entries(NOTIFICATION_LOCALES).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setLocale(value as NotificationLocale)}
+              className={`px-4 py-2 text-sm transition-colors ${
+                locale === value ? 'bg-accent text-accent-foreground' : 'bg-surface hover:bg-surface-elevated'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="notification-subject" className="block text-sm font-medium text-text-secondary mb-2">
+          邮件主题
+        </label>
+        <input
+          id="notification-subject"
+          type="text"
+          value={current.subject}
+          onChange={(e) => updateDraft('subject', e.target.value)}
+          maxLength={200}
+          className="input"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="notification-body" className="block text-sm font-medium text-text-secondary mb-2">
+          邮件正文
+        </label>
+        <textarea
+          id="notification-body"
+          value={current.body}
+          onChange={(e) => updateDraft('body', e.target.value)}
+          rows={8}
+          className="input font-mono text-sm resize-y"
+        />
+        <p className="text-xs text-text-muted mt-1">纯文本，发送时链接自动转换为可点击的链接</p>
+      </div>
+
+      <div className="text-xs text-text-muted">
+        <p className="mb-1">可用变量：</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {Object.entries(NOTIFICATION_TEMPLATE_VARIABLES[type]).map(([name, description]) => (
+            <span key={name}>
+              <code className="text-accent">{`{{${name}}}`}</code> {description}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !isDirty || !current.subject.trim() || !current.body.trim()}
+          className="btn-primary flex items-center gap-2 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          保存模板
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { PackageDownloadButton } from './package-download-button'
@@ -25,6 +25,11 @@ describe('PackageDownloadButton', () => {
     vi.clearAllMocks()
   })
 
+  afterEach(() => {
+    // 清除各用例设置的 fetch 实现，避免影响后续用例
+    mockFetch.mockReset()
+  })
+
   it('应该渲染批量下载按钮', () => {
     render(<PackageDownloadButton {...props} />)
     
@@ -171,6 +176,63 @@ describe('PackageDownloadButton', () => {
     })
   })
 
+  it('应该提交目录、命名和清单选项', async () => {
+    const user = userEvent.setup()
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ packageId: 'package-1', status: 'pending' }),
+    })
+
+    render(<PackageDownloadButton {...props} />)
+    await user.click(screen.getByRole('button', { name: /打包|批量下载/i }))
+
+    await user.click(screen.getByLabelText('按分组建文件夹'))
+    await user.click(screen.getByLabelText(/附带照片清单/))
+    // user-event 中 {{ 表示输入字面量 {
+    await user.type(screen.getByPlaceholderText(/文件名模板/), '{{album}_{{seq}')
+    await user.click(screen.getByRole('button', { name: /创建打包/ }))
+
+    await waitFor(() => {
+      const call = mockFetch.mock.calls.find(
+        ([url, init]) => url === `/api/admin/albums/${props.albumId}/package` && init?.method === 'POST'
+      )
+      expect(JSON.parse(call![1].body)).toMatchObject({
+        groupFolders: true,
+        filenameTemplate: '{album}_{seq}',
+        includeManifest: true,
+      })
+    })
+  })
+
+  it('应该显示打包百分比和已处理数量', async () => {
+    const user = userEvent.setup()
+    mockFetch.mockImplementation((url: string) => {
+      if (url.includes('packageId')) {
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({ status: 'processing', progress: 42, processed_photos: 21, total_photos: 50 }),
+        } as Response)
+      }
+      if (url.endsWith('/package')) {
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({ packageId: 'package-1' }),
+        } as Response)
+      }
+      return Promise.resolve({ ok: true, json: async () => ({}) } as Response)
+    })
+
+    render(<PackageDownloadButton {...props} />)
+
+    await user.click(screen.getByRole('button', { name: /打包|批量下载/i }))
+    await user.click(await screen.findByRole('button', { name: /创建打包/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText('正在打包... 42%')).toBeInTheDocument()
+      expect(screen.getByText('21 / 50 张')).toBeInTheDocument()
+    }, { timeout: 3000 })
+  })
+
   it('应该显示下载进度', async () => {
     const user = userEvent.setup()
     
@@ -227,13 +289,18 @@ describe('PackageDownloadButton', () => {
         el.tagName === 'H2' || el.closest('[role="dialog"]')
       )
       // 或者查找"正在处理中"描述
-      const progressDesc = screen.queryByText(/正在处理中|等待处理|正在打包/i)
+      const progressDesc = screen.queryAllByText(/正在处理中|等待处理|正在打包/i)[0]
       expect(dialogTitle || progressDesc).toBeTruthy()
     }, { timeout: 3000 })
   })
 
   it('应该处理创建失败', async () => {
     const user = userEvent.setup()
+    // 打开对话框时先加载访客列表
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { sessions: [] } }),
+    })
     mockFetch.mockResolvedValueOnce({
       ok: false,
       json: async () => ({ error: { message: '创建失败' } }),
@@ -253,7 +320,7 @@ describe('PackageDownloadButton', () => {
     
     // 错误通过 toast 显示
     await waitFor(() => {
-      expect(showError).toHaveBeenCalled()
+      expect(showError).toHaveBeenCalledWith('创建失败')
     }, { timeout: 2000 })
   })
 })
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Download, Loader2, Check, Package } from 'lucide-react'
 import {
   Dialog,
@@ -12,6 +12,12 @@ import {
 } from '@/components/ui/dialog'
 import { showError, showInfo } from '@/lib/toast'
 
+interface GuestOption {
+  id: string
+  guest_name: string
+  photos: unknown[]
+}
+
 interface PackageDownloadButtonProps {
   albumId: string
   photoCount: number
@@ -28,9 +34,42 @@ export function PackageDownloadButton({
   const [packageId, setPackageId] = useState<string | null>(null)
   const [packageStatus, setPackageStatus] = useState<'pending' | 'processing' | 'completed' | 'failed'>('pending')
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{ percent: number; processed: number; total: number | null }>({
+    percent: 0,
+    processed: 0,
+    total: null,
+  })
   const [photoSelection, setPhotoSelection] = useState<'all' | 'selected' | 'custom'>('selected')
   const [includeWatermarked, setIncludeWatermarked] = useState(true)
   const [includeOriginal, setIncludeOriginal] = useState(true)
+  const [guestSessions, setGuestSessions] = useState<GuestOption[]>([])
+  const [guestSessionId, setGuestSessionId] = useState('')
+  const [groupFolders, setGroupFolders] = useState(false)
+  const [filenameTemplate, setFilenameTemplate] = useState('')
+  const [includeManifest, setIncludeManifest] = useState(false)
+  const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  // 卸载时停止轮询
+  useEffect(() => () => {
+    if (pollIntervalRef.current) clearInterval(pollIntervalRef.current)
+  }, [])
+
+  // 打开对话框时加载访客列表，用于按访客打包选片
+  useEffect(() => {
+    if (!open) return
+    const loadGuestSessions = async () => {
+      try {
+        const response = await fetch(`/api/admin/albums/${albumId}/guest-sessions`)
+        if (!response?.ok) return
+        const data = await response.json()
+        setGuestSessions(data.data?.sessions || [])
+      } catch {
+        // 加载失败时不提供按访客打包
+        setGuestSessions([])
+      }
+    }
+    loadGuestSessions()
+  }, [open, albumId])
 
   const handleCreatePackage = async () => {
     if (!includeWatermarked && !includeOriginal) {
@@ -47,6 +86,10 @@ export function PackageDownloadButton({
           photoSelection,
           includeWatermarked,
           includeOriginal,
+          ...(photoSelection === 'selected' && guestSessionId ? { guestSessionId } : {}),
+          groupFolders,
+          ...(filenameTemplate.trim() ? { filenameTemplate: filenameTemplate.trim() } : {}),
+          includeManifest,
         }),
       })
 
@@ -58,6 +101,7 @@ export function PackageDownloadButton({
       const data = await response.json()
       setPackageId(data.packageId)
       setPackageStatus('pending')
+      setProgress({ percent: 0, processed: 0, total: null })
       
       // 开始轮询状态
       pollPackageStatus(data.packageId)
@@ -71,8 +115,10 @@ export function PackageDownloadButton({
 
   const pollPackageStatus = async (id: string) => {
     let pollCount = 0
-    const maxPolls = 300 // 最多轮询10分钟（300次 × 2秒）
+    let lastProcessed = 0
+    const maxPolls = 300 // 进度停滞超过10分钟（300次 × 2秒）视为超时
 
+    if (pollIntervalRef.current) clearInterval(pollIntervalRef.current)
     const interval = setInterval(async () => {
       pollCount++
       try {
@@ -80,7 +126,17 @@ export function PackageDownloadButton({
         if (response.ok) {
           const data = await response.json()
           setPackageStatus(data.status)
-          
+          setProgress({
+            percent: data.progress ?? 0,
+            processed: data.processed_photos ?? 0,
+            total: data.total_photos ?? null,
+          })
+          // 大相册打包时间较长，有进展时重新计时
+          if ((data.processed_photos ?? 0) > lastProcessed) {
+            lastProcessed = data.processed_photos
+            pollCount = 0
+          }
+
           if (data.status === 'completed') {
             clearInterval(interval)
             setDownloadUrl(data.download_url)
@@ -99,6 +155,7 @@ export function PackageDownloadButton({
         }
       }
     }, 2000) // 每2秒轮询一次
+    pollIntervalRef.current = interval
   }
 
   const handleDownload = () => {
@@ -144,6 +201,26 @@ export function PackageDownloadButton({
                   </select>
                 </div>
 
+                {photoSelection === 'selected' && guestSessions.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-text-secondary mb-2">
+                      访客
+                    </label>
+                    <select
+                      value={guestSessionId}
+                      onChange={(e) => setGuestSessionId(e.target.value)}
+                      className="input"
+                    >
+                      <option value="">全部访客（合并）</option>
+                      {guestSessions.map((session) => (
+                        <option key={session.id} value={session.id}>
+                          {session.guest_name} ({session.photos.length} 张)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-text-secondary mb-2">
                     包含版本
@@ -170,11 +247,52 @@ export function PackageDownloadButton({
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-text-secondary mb-2">
+                    目录与命名
+                  </label>
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={groupFolders}
+                        onChange={(e) => setGroupFolders(e.target.checked)}
+                        className="rounded"
+                      />
+                      <span>按分组建文件夹</span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={includeManifest}
+                        onChange={(e) => setIncludeManifest(e.target.checked)}
+                        className="rounded"
+                      />
+                      <span>附带照片清单（manifest.csv）</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={filenameTemplate}
+                      onChange={(e) => setFilenameTemplate(e.target.value)}
+                      placeholder="文件名模板，如 {album}_{group}_{seq}_{capture_time}"
+                      maxLength={200}
+                      className="input"
+                    />
+                    <p className="text-xs text-text-muted">
+                      可用变量：{'{album}'} {'{group}'} {'{seq}'} {'{capture_time}'} {'{capture_date}'} {'{filename}'}，留空使用原文件名
+                    </p>
+                  </div>
+                </div>
+
                 <div className="bg-surface p-3 rounded-lg text-sm text-text-muted">
                   <p className="font-medium mb-1">提示：</p>
                   <ul className="list-disc list-inside space-y-1">
                     <li>打包文件将在15天内有效</li>
-                    <li>ZIP 文件包含两个文件夹：有水印 和 无水印</li>
+                    <li>
+                      {groupFolders
+                        ? '每个分组一个文件夹，分组下再分 有水印 和 无水印'
+                        : 'ZIP 文件包含两个文件夹：有水印 和 无水印'}
+                    </li>
                     <li>处理时间取决于照片数量，请耐心等待</li>
                   </ul>
                 </div>
@@ -222,8 +340,23 @@ export function PackageDownloadButton({
                   <div className="flex flex-col items-center justify-center py-8">
                     <Loader2 className="w-8 h-8 animate-spin text-accent mb-4" />
                     <span className="text-text-secondary mb-2">
-                      {packageStatus === 'pending' ? '等待处理...' : '正在打包...'}
+                      {packageStatus === 'pending' ? '等待处理...' : `正在打包... ${progress.percent}%`}
                     </span>
+                    {packageStatus === 'processing' && (
+                      <div className="w-full max-w-xs mb-3">
+                        <div className="h-2 bg-surface rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-accent transition-all duration-300 ease-out"
+                            style={{ width: `${progress.percent}%` }}
+                          />
+                        </div>
+                        {progress.total ? (
+                          <p className="text-xs text-text-muted text-center mt-1">
+                            {progress.processed} / {progress.total} 张
+                          </p>
+                        ) : null}
+                      </div>
+                    )}
                     <p className="text-xs text-text-muted text-center max-w-xs">
                       处理时间取决于照片数量，请耐心等待。完成后会自动显示下载按钮。
                     </p>
@@ -247,6 +380,7 @@ export function PackageDownloadButton({
                         setPackageId(null)
                         setPackageStatus('pending')
                         setDownloadUrl(null)
+                        setProgress({ percent: 0, processed: 0, total: null })
                       }}
                       className="btn-secondary"
                     >
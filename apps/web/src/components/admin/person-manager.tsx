@@ -0,0 +1,518 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Edit2, Eye, EyeOff, Loader2, Merge, RefreshCw, Scissors, Users, X } from 'lucide-react'
+import { FaceAvatar } from '@/components/album/face-avatar'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError, showInfo } from '@/lib/toast'
+import type { FaceCrop } from '@/lib/face-crop'
+import { cn } from '@/lib/utils'
+
+interface PersonManagerProps {
+  albumId: string
+}
+
+interface AdminPerson {
+  id: string
+  name: string | null
+  is_hidden: boolean
+  face_count: number
+  photo_count: number
+  thumb_key: string | null
+  crop: FaceCrop | null
+}
+
+interface PersonFace {
+  id: string
+  photo_id: string
+  thumb_key: string | null
+  crop: FaceCrop | null
+}
+
+/**
+ * 人物管理
+ * 人脸聚类由 Worker 在照片处理完成后自动执行，这里负责命名、合并、拆分和隐藏
+ */
+export function PersonManager({ albumId }: PersonManagerProps) {
+  const [persons, setPersons] = useState<AdminPerson[]>([])
+  const [loading, setLoading] = useState(true)
+  const [mergeMode, setMergeMode] = useState(false)
+  const [mergeSelection, setMergeSelection] = useState<string[]>([])
+  const [editingPerson, setEditingPerson] = useState<AdminPerson | null>(null)
+  const [splittingPerson, setSplittingPerson] = useState<AdminPerson | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [confirmDialog, setConfirmDialog] = useState<{
+    open: boolean
+    title: string
+    message: string
+    onConfirm: () => void | Promise<void>
+  } | null>(null)
+
+  // 加载人物列表
+  const loadPersons = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/albums/${albumId}/persons`)
+      if (response.ok) {
+        const data = await response.json()
+        setPersons(data.data?.persons || data.persons || [])
+      }
+    } catch (error) {
+      console.error('Failed to load persons:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [albumId])
+
+  useEffect(() => {
+    loadPersons()
+  }, [loadPersons])
+
+  // 通用请求
+  const request = async (url: string, method: string, body: unknown, successMessage: string) => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      if (response.ok) {
+        await loadPersons()
+        showSuccess(successMessage)
+        return true
+      }
+      const data = await response.json()
+      handleApiError(new Error(data.error?.message || '操作失败'))
+    } catch (error) {
+      console.error('Person request failed:', error)
+      handleApiError(error, '操作失败')
+    } finally {
+      setIsSubmitting(false)
+    }
+    return false
+  }
+
+  // 命名
+  const handleRename = async (person: AdminPerson, name: string) => {
+    const ok = await request(
+      `/api/admin/albums/${albumId}/persons/${person.id}`,
+      'PATCH',
+      { name: name.trim() || null },
+      '人物已更新'
+    )
+    if (ok) setEditingPerson(null)
+  }
+
+  // 隐藏 / 显示
+  const handleToggleHidden = (person: AdminPerson) => {
+    request(
+      `/api/admin/albums/${albumId}/persons/${person.id}`,
+      'PATCH',
+      { is_hidden: !person.is_hidden },
+      person.is_hidden ? '人物已对访客显示' : '人物已对访客隐藏'
+    )
+  }
+
+  // 合并：第一个选中的人物作为保留目标
+  const handleMerge = () => {
+    if (mergeSelection.length < 2) {
+      showInfo('请至少选择两个人物')
+      return
+    }
+    const [targetId, ...sourceIds] = mergeSelection
+    const target = persons.find((p) => p.id === targetId)
+    setConfirmDialog({
+      open: true,
+      title: '确认合并',
+      message: `确定要将选中的 ${mergeSelection.length} 个人物合并为「${target?.name || '未命名'}」吗？`,
+      onConfirm: async () => {
+        const ok = await request(
+          `/api/admin/albums/${albumId}/persons/merge`,
+          'POST',
+          { target_id: targetId, source_ids: sourceIds },
+          '人物已合并'
+        )
+        if (ok) {
+          setMergeMode(false)
+          setMergeSelection([])
+        }
+      },
+    })
+  }
+
+  // 重新聚类
+  const handleRecluster = () => {
+    setConfirmDialog({
+      open: true,
+      title: '重新聚类',
+      message: '将解散所有未命名且未隐藏的人物并重新聚类，已命名或隐藏的人物会保留。确定继续吗？',
+      onConfirm: async () => {
+        const ok = await request(`/api/admin/albums/${albumId}/persons`, 'POST', { full: true }, '已加入聚类队列，稍后刷新查看')
+        if (ok) setMergeSelection([])
+      },
+    })
+  }
+
+  const handlePersonClick = (person: AdminPerson) => {
+    if (!mergeMode) return
+    setMergeSelection((prev) =>
+      prev.includes(person.id) ? prev.filter((id) => id !== person.id) : [...prev, person.id]
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-accent" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <h3 className="text-sm font-medium text-text-secondary flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          人物 ({persons.length})
+        </h3>
+        <div className="flex items-center gap-2">
+          {mergeMode ? (
+            <>
+              <button
+                onClick={handleMerge}
+                disabled={isSubmitting || mergeSelection.length < 2}
+                className="btn-primary text-sm px-3 py-2 min-h-[40px]"
+              >
+                合并 ({mergeSelection.length})
+              </button>
+              <button
+                onClick={() => {
+                  setMergeMode(false)
+                  setMergeSelection([])
+                }}
+                className="btn-ghost text-sm px-3 py-2 min-h-[40px]"
+              >
+                取消
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => setMergeMode(true)}
+                disabled={persons.length < 2}
+                className="btn-ghost text-sm px-3 py-2 min-h-[40px] flex items-center gap-1.5"
+                title="选择多个人物合并为同一人（第一个选中的人物保留）"
+              >
+                <Merge className="w-4 h-4" />
+                <span className="hidden sm:inline">合并</span>
+              </button>
+              <button
+                onClick={handleRecluster}
+                disabled={isSubmitting}
+                className="btn-ghost text-sm px-3 py-2 min-h-[40px] flex items-center gap-1.5"
+                title="重新聚类"
+              >
+                <RefreshCw className="w-4 h-4" />
+                <span className="hidden sm:inline">重新聚类</span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {persons.length === 0 ? (
+        <p className="text-sm text-text-muted">暂无人物。照片处理完成后会自动识别人脸并聚类。</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-5 md:grid-cols-6 lg:grid-cols-8 gap-3">
+          {persons.map((person) => {
+            const selectedIndex = mergeSelection.indexOf(person.id)
+            return (
+              <div
+                key={person.id}
+                onClick={() => handlePersonClick(person)}
+                className={cn(
+                  'flex flex-col items-center gap-1 p-2 rounded-lg bg-surface relative',
+                  mergeMode && 'cursor-pointer',
+                  selectedIndex >= 0 && 'ring-2 ring-accent',
+                  person.is_hidden && 'opacity-50'
+                )}
+              >
+                <FaceAvatar
+                  thumbKey={person.thumb_key}
+                  crop={person.crop}
+                  alt={person.name || '未命名'}
+                  className="w-14 h-14"
+                />
+                {selectedIndex === 0 && (
+                  <span className="absolute top-1 left-1 px-1 rounded bg-accent text-background text-[10px]">保留</span>
+                )}
+                <div className="text-xs font-medium text-text-primary truncate w-full text-center">
+                  {person.name || '未命名'}
+                </div>
+                <div className="text-[11px] text-text-muted">{person.photo_count} 张</div>
+                {!mergeMode && (
+                  <div className="flex items-center gap-0.5">
+                    <button
+                      onClick={() => setEditingPerson(person)}
+                      className="p-1.5 hover:bg-surface-elevated rounded transition-colors"
+                      title="命名"
+                    >
+                      <Edit2 className="w-3.5 h-3.5 text-text-muted" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleHidden(person)}
+                      className="p-1.5 hover:bg-surface-elevated rounded transition-colors"
+                      title={person.is_hidden ? '对访客显示' : '对访客隐藏'}
+                    >
+                      {person.is_hidden ? (
+                        <EyeOff className="w-3.5 h-3.5 text-text-muted" />
+                      ) : (
+                        <Eye className="w-3.5 h-3.5 text-text-muted" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => setSplittingPerson(person)}
+                      disabled={person.face_count < 2}
+                      className="p-1.5 hover:bg-surface-elevated rounded transition-colors disabled:opacity-30"
+                      title="拆分"
+                    >
+                      <Scissors className="w-3.5 h-3.5 text-text-muted" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* 命名对话框 */}
+      {editingPerson && (
+        <RenameDialog
+          person={editingPerson}
+          onSave={(name) => handleRename(editingPerson, name)}
+          onClose={() => setEditingPerson(null)}
+          isSubmitting={isSubmitting}
+        />
+      )}
+
+      {/* 拆分对话框 */}
+      {splittingPerson && (
+        <SplitDialog
+          albumId={albumId}
+          person={splittingPerson}
+          onSplit={async (faceIds, name) => {
+            const ok = await request(
+              `/api/admin/albums/${albumId}/persons/${splittingPerson.id}/split`,
+              'POST',
+              { face_ids: faceIds, name: name || null },
+              '人物已拆分'
+            )
+            if (ok) setSplittingPerson(null)
+          }}
+          onClose={() => setSplittingPerson(null)}
+          isSubmitting={isSubmitting}
+        />
+      )}
+
+      {/* 确认对话框 */}
+      {confirmDialog && (
+        <ConfirmDialog
+          open={confirmDialog.open}
+          onOpenChange={(open) => setConfirmDialog(open ? confirmDialog : null)}
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          onConfirm={confirmDialog.onConfirm}
+        />
+      )}
+    </div>
+  )
+}
+
+// 命名对话框组件
+function RenameDialog({
+  person,
+  onSave,
+  onClose,
+  isSubmitting,
+}: {
+  person: AdminPerson
+  onSave: (name: string) => void
+  onClose: () => void
+  isSubmitting: boolean
+}) {
+  const [name, setName] = useState(person.name || '')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave(name)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="card w-full max-w-sm p-4 sm:p-6 m-0 sm:m-4 rounded-t-2xl sm:rounded-2xl safe-area-inset-bottom">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">命名人物</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-surface rounded transition-colors active:scale-95 min-h-[44px] min-w-[44px] flex items-center justify-center"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center gap-3">
+            <FaceAvatar thumbKey={person.thumb_key} crop={person.crop} alt={person.name || '未命名'} className="w-14 h-14 flex-shrink-0" />
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="如：新郎、新娘、张三（留空表示未命名）"
+              maxLength={100}
+              className="input w-full text-base" // 移动端防止缩放
+              autoFocus
+            />
+          </div>
+
+          <div className="flex flex-col-reverse sm:flex-row gap-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1 min-h-[48px] text-base" disabled={isSubmitting}>
+              取消
+            </button>
+            <button type="submit" className="btn-primary flex-1 min-h-[48px] text-base" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  保存中...
+                </>
+              ) : (
+                '保存'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+// 拆分对话框组件：选择不属于该人物的人脸，拆分为新人物
+function SplitDialog({
+  albumId,
+  person,
+  onSplit,
+  onClose,
+  isSubmitting,
+}: {
+  albumId: string
+  person: AdminPerson
+  onSplit: (faceIds: string[], name: string) => void
+  onClose: () => void
+  isSubmitting: boolean
+}) {
+  const [faces, setFaces] = useState<PersonFace[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [name, setName] = useState('')
+
+  useEffect(() => {
+    const loadFaces = async () => {
+      try {
+        const response = await fetch(`/api/admin/albums/${albumId}/persons/${person.id}`)
+        if (response.ok) {
+          const data = await response.json()
+          setFaces(data.data?.faces || data.faces || [])
+        }
+      } catch (error) {
+        console.error('Failed to load faces:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadFaces()
+  }, [albumId, person.id])
+
+  const toggleFace = (faceId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(faceId)) {
+        next.delete(faceId)
+      } else {
+        next.add(faceId)
+      }
+      return next
+    })
+  }
+
+  const canSplit = selected.size > 0 && selected.size < faces.length
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="card w-full max-w-2xl p-4 sm:p-6 m-0 sm:m-4 rounded-t-2xl sm:rounded-2xl max-h-[90vh] overflow-y-auto safe-area-inset-bottom">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">拆分「{person.name || '未命名'}」</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-surface rounded transition-colors active:scale-95 min-h-[44px] min-w-[44px] flex items-center justify-center"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-text-secondary mb-3">选择不属于该人物的人脸，它们将组成一个新的人物。</p>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-accent" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 mb-4">
+            {faces.map((face) => (
+              <button
+                key={face.id}
+                onClick={() => toggleFace(face.id)}
+                className={cn(
+                  'rounded-lg p-1 transition-colors',
+                  selected.has(face.id) ? 'bg-accent/20 ring-2 ring-accent' : 'bg-surface hover:bg-surface-elevated'
+                )}
+              >
+                <FaceAvatar thumbKey={face.thumb_key} crop={face.crop} alt="" className="w-full rounded-md" />
+              </button>
+            ))}
+          </div>
+        )}
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="新人物名称（可选）"
+          maxLength={100}
+          className="input w-full text-base mb-4" // 移动端防止缩放
+        />
+
+        <div className="flex flex-col-reverse sm:flex-row gap-3">
+          <button type="button" onClick={onClose} className="btn-secondary flex-1 min-h-[48px] text-base" disabled={isSubmitting}>
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={() => onSplit([...selected], name.trim())}
+            className="btn-primary flex-1 min-h-[48px] text-base"
+            disabled={isSubmitting || !canSplit}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                拆分中...
+              </>
+            ) : (
+              `拆分 ${selected.size} 张人脸`
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -125,8 +125,8 @@ describe('PhotoUploader', () => {
     const fileInput = screen.getByLabelText(/点击选择文件/i).closest('label')?.querySelector('input[type="file"]') as HTMLInputElement
     
     if (fileInput) {
-      // 创建不支持的文件类型（视频）
-      const file = new File(['test'], 'test.mp4', { type: 'video/mp4' })
+      // 创建不支持的文件类型（AVI 视频）
+      const file = new File(['test'], 'test.avi', { type: 'video/x-msvideo' })
       Object.defineProperty(file, 'size', { value: 1024 })
       
       const dataTransfer = new DataTransfer()
@@ -4,6 +4,8 @@ import { useState, useCallback, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { Upload, X, CheckCircle2, AlertCircle, Loader2, RefreshCw, Pause, Play } from 'lucide-react'
 import { cn, formatFileSize } from '@/lib/utils'
+import { ALLOWED_UPLOAD_MIME_TYPES, ALLOWED_UPLOAD_EXTENSIONS, getMaxFileSize } from '@/lib/media-types'
+import { showWarning } from '@/lib/toast'
 
 // 上传配置
 // 启用分片上传以绕过 Vercel 的大小限制
@@ -111,6 +113,7 @@ export function PhotoUploader({ albumId, onComplete }: PhotoUploaderProps) {
   const uploadQueueRef = useRef<string[]>([]) // 等待上传的文件 ID 队列
   const isProcessingQueueRef = useRef(false)
   const onCompleteCalledRef = useRef(false) // 跟踪 onComplete 是否已调用
+  const storageWarningShownRef = useRef(false) // 存储用量提醒只显示一次
 
   // 检测移动设备和iOS
   useEffect(() => {
@@ -241,13 +244,12 @@ export function PhotoUploader({ albumId, onComplete }: PhotoUploaderProps) {
 
   const addFiles = useCallback(async (newFiles: FileList | File[]) => {
     const fileArray = Array.from(newFiles)
-    const allowedImageTypes = ['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'image/gif', 'image/tiff']
     const invalidFiles: string[] = []
     
     const validFiles = fileArray.filter((file) => {
-      // 严格检查：必须是图片类型
-      const isValidType = allowedImageTypes.includes(file.type)
-      const isValidSize = file.size <= 100 * 1024 * 1024 // 100MB
+      // 严格检查：必须是支持的图片或视频类型（图片 100MB，视频 500MB）
+      const isValidType = ALLOWED_UPLOAD_MIME_TYPES.includes(file.type)
+      const isValidSize = file.size <= getMaxFileSize(file.type)
       
       // 如果类型不匹配，记录文件名
       if (!isValidType) {
@@ -257,12 +259,12 @@ export function PhotoUploader({ albumId, onComplete }: PhotoUploaderProps) {
       return isValidType && isValidSize
     })
 
-    // 如果有无效文件（如视频），显示错误提示
+    // 如果有无效文件，显示错误提示
     if (invalidFiles.length > 0) {
       const invalidCount = invalidFiles.length
       const fileList = invalidFiles.slice(0, 3).join('、')
       const moreText = invalidCount > 3 ? `等 ${invalidCount} 个文件` : ''
-      alert(`不支持的文件类型：${fileList}${moreText}\n\n仅支持图片格式：JPG、PNG、HEIC、WebP、GIF、TIFF`)
+      alert(`不支持的文件类型：${fileList}${moreText}\n\n仅支持图片格式：JPG、PNG、HEIC、WebP、GIF、TIFF，以及视频格式：MP4、MOV`)
     }
 
     // 检查重复文件
@@ -1356,7 +1358,13 @@ export function PhotoUploader({ albumId, onComplete }: PhotoUploaderProps) {
       }
       
       photoId = credData.photoId as string
-      const { uploadUrl, originalKey, albumId: respAlbumId } = credData
+      const { uploadUrl, originalKey, albumId: respAlbumId, storageWarning } = credData
+
+      // 存储用量接近配额时提醒（批量上传时只提醒一次）
+      if (storageWarning && !storageWarningShownRef.current) {
+        storageWarningShownRef.current = true
+        showWarning(storageWarning, 6000)
+      }
 
       if (!photoId) {
         throw new Error('获取上传凭证失败：缺少photoId')
@@ -1600,7 +1608,7 @@ export function PhotoUploader({ albumId, onComplete }: PhotoUploaderProps) {
           type="file"
           id="file-input"
           multiple
-          accept="image/jpeg,image/png,image/heic,image/webp,image/gif,image/tiff,.jpg,.jpeg,.png,.heic,.webp,.gif,.tiff,.tif"
+          accept={[...ALLOWED_UPLOAD_MIME_TYPES, ...ALLOWED_UPLOAD_EXTENSIONS].join(',')}
           onChange={(e) => {
             if (e.target.files && e.target.files.length > 0) {
               addFiles(e.target.files)
@@ -1616,7 +1624,7 @@ export function PhotoUploader({ albumId, onComplete }: PhotoUploaderProps) {
             点击选择文件<span className="hidden md:inline">，或拖拽照片到此处</span>
           </p>
           <p className="text-text-secondary text-xs md:text-sm mb-2">
-            支持 JPG、PNG、HEIC、WebP 格式，单文件最大 100MB
+            支持 JPG、PNG、HEIC、WebP 格式图片（最大 100MB）及 MP4、MOV 视频（最大 500MB）
           </p>
           {isMobile && (
             <div className="mt-3 p-3 bg-surface-elevated rounded-lg border border-border text-left">
@@ -0,0 +1,65 @@
+'use client'
+
+import { useState } from 'react'
+
+interface PhotoVersionCompareProps {
+  beforeUrl: string
+  afterUrl: string
+  beforeLabel: string
+  afterLabel: string
+}
+
+/**
+ * 前后对比滑块
+ * 左侧显示修图前版本，右侧显示修图后版本，拖动滑块调整分割位置
+ */
+export function PhotoVersionCompare({
+  beforeUrl,
+  afterUrl,
+  beforeLabel,
+  afterLabel,
+}: PhotoVersionCompareProps) {
+  const [position, setPosition] = useState(50)
+
+  return (
+    <div className="relative aspect-[3/2] bg-surface-elevated rounded-lg overflow-hidden select-none">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={afterUrl}
+        alt={afterLabel}
+        className="absolute inset-0 w-full h-full object-contain"
+        draggable={false}
+      />
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={beforeUrl}
+        alt={beforeLabel}
+        className="absolute inset-0 w-full h-full object-contain"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+
+      <div
+        className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+        style={{ left: `${position}%` }}
+      />
+
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs">
+        {beforeLabel}
+      </span>
+      <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs">
+        {afterLabel}
+      </span>
+
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="对比位置"
+      />
+    </div>
+  )
+}
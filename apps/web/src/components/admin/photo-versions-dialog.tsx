@@ -0,0 +1,215 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, RotateCcw, Check } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { PhotoVersionCompare } from '@/components/admin/photo-version-compare'
+import { getSafeMediaUrl } from '@/lib/utils'
+import { showSuccess, showError } from '@/lib/toast'
+import type { PhotoVersion, PhotoVersionSource } from '@/types/database'
+
+interface PhotoVersionsDialogProps {
+  photoId: string
+  filename: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** 切换版本后回调（用于刷新列表） */
+  onChanged?: () => void
+}
+
+const SOURCE_LABELS: Record<PhotoVersionSource, string> = {
+  original: '原图',
+  ai_retouch: 'AI 修图',
+  retouch: '人工精修',
+}
+
+function getVersionLabel(version: PhotoVersion) {
+  return `v${version.version_number} · ${SOURCE_LABELS[version.source] || version.source}`
+}
+
+/**
+ * 照片版本历史对话框
+ * 展示原图与各精修版本，支持前后对比和回退到任意版本
+ */
+export function PhotoVersionsDialog({
+  photoId,
+  filename,
+  open,
+  onOpenChange,
+  onChanged,
+}: PhotoVersionsDialogProps) {
+  const mediaUrl = getSafeMediaUrl()
+  const [versions, setVersions] = useState<PhotoVersion[]>([])
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [beforeId, setBeforeId] = useState<string | null>(null)
+  const [afterId, setAfterId] = useState<string | null>(null)
+  const [pendingVersion, setPendingVersion] = useState<PhotoVersion | null>(null)
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const res = await fetch(`/api/admin/photos/${photoId}/versions`)
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err.error?.message || '获取版本历史失败')
+      }
+
+      const json = await res.json()
+      const list: PhotoVersion[] = json.data?.versions || []
+      const currentId: string | null = json.data?.currentVersionId ?? null
+      setVersions(list)
+      setCurrentVersionId(currentId)
+
+      // 默认对比：原图 vs 当前版本（当前即原图时对比最新版本）
+      const original = list.find((v) => v.source === 'original') || list[0]
+      const current = list.find((v) => v.id === currentId)
+      const latest = list[list.length - 1]
+      setBeforeId(original?.id ?? null)
+      setAfterId(current && current.id !== original?.id ? current.id : latest?.id ?? null)
+    } catch (err) {
+      console.error(err)
+      showError(err instanceof Error ? err.message : '获取版本历史失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [photoId])
+
+  useEffect(() => {
+    if (open) {
+      loadVersions()
+    }
+  }, [open, loadVersions])
+
+  const handleActivate = async (version: PhotoVersion) => {
+    try {
+      const res = await fetch(`/api/admin/photos/${photoId}/versions/${version.id}/activate`, {
+        method: 'POST',
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err.error?.message || '切换版本失败')
+      }
+
+      setCurrentVersionId(version.id)
+      showSuccess(`已切换到 ${getVersionLabel(version)}，正在重新生成预览图`)
+      onChanged?.()
+    } catch (err) {
+      console.error(err)
+      showError(err instanceof Error ? err.message : '切换版本失败')
+    }
+  }
+
+  const beforeVersion = versions.find((v) => v.id === beforeId)
+  const afterVersion = versions.find((v) => v.id === afterId)
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="md:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>版本历史</DialogTitle>
+            <DialogDescription className="truncate">{filename}</DialogDescription>
+          </DialogHeader>
+
+          {loading && versions.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-text-secondary" />
+            </div>
+          ) : (
+            <div className="space-y-4 mt-4">
+              {beforeVersion && afterVersion && (
+                <>
+                  <PhotoVersionCompare
+                    beforeUrl={`${mediaUrl}/${beforeVersion.storage_key}`}
+                    afterUrl={`${mediaUrl}/${afterVersion.storage_key}`}
+                    beforeLabel={getVersionLabel(beforeVersion)}
+                    afterLabel={getVersionLabel(afterVersion)}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={beforeId ?? ''}
+                      onChange={(e) => setBeforeId(e.target.value)}
+                      className="input text-sm"
+                      aria-label="修图前版本"
+                    >
+                      {versions.map((v) => (
+                        <option key={v.id} value={v.id}>{getVersionLabel(v)}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={afterId ?? ''}
+                      onChange={(e) => setAfterId(e.target.value)}
+                      className="input text-sm"
+                      aria-label="修图后版本"
+                    >
+                      {versions.map((v) => (
+                        <option key={v.id} value={v.id}>{getVersionLabel(v)}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+
+              <ul className="divide-y divide-border max-h-60 overflow-y-auto">
+                {[...versions].reverse().map((version) => {
+                  const isCurrent = version.id === currentVersionId
+                  return (
+                    <li key={version.id} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium flex items-center gap-2">
+                          {getVersionLabel(version)}
+                          {isCurrent && (
+                            <span className="inline-flex items-center gap-1 text-xs text-accent">
+                              <Check className="w-3 h-3" /> 当前
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-text-secondary">
+                          {new Date(version.created_at).toLocaleString()}
+                        </div>
+                      </div>
+                      {!isCurrent && (
+                        <button
+                          type="button"
+                          onClick={() => setPendingVersion(version)}
+                          className="btn btn-secondary text-xs flex items-center gap-1 h-8"
+                        >
+                          <RotateCcw className="w-3 h-3" /> 回退到此版本
+                        </button>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {pendingVersion && (
+        <ConfirmDialog
+          open={!!pendingVersion}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) {
+              setPendingVersion(null)
+            }
+          }}
+          title="回退版本"
+          message={`确定将照片切换到 ${getVersionLabel(pendingVersion)} 吗？缩略图和预览图将重新生成，其他版本会继续保留。`}
+          onConfirm={async () => {
+            await handleActivate(pendingVersion)
+            setPendingVersion(null)
+          }}
+        />
+      )}
+    </>
+  )
+}
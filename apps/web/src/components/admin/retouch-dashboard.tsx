@@ -1,16 +1,20 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { Loader2, RefreshCw, Download, Upload } from 'lucide-react'
+import { Loader2, RefreshCw, Download, Upload, History } from 'lucide-react'
 import { getSafeMediaUrl } from '@/lib/utils'
 import { showSuccess, showError } from '@/lib/toast'
+import { PhotoVersionsDialog } from '@/components/admin/photo-versions-dialog'
 
 interface RetouchTask {
   id: string
   filename: string
   original_key: string
+  thumb_key: string | null
+  preview_key: string | null
   status: string
   created_at: string
+  updated_at: string
   albums: {
     id: string
     title: string
@@ -24,15 +28,18 @@ export function RetouchDashboard() {
   const mediaUrl = getSafeMediaUrl()
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null)
+  const [view, setView] = useState<'pending' | 'retouched'>('pending')
+  const [versionsTask, setVersionsTask] = useState<RetouchTask | null>(null)
 
   useEffect(() => {
     fetchTasks()
-  }, [])
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view])
 
   const fetchTasks = async () => {
     try {
       setLoading(true)
-      const res = await fetch('/api/admin/retouch/tasks')
+      const res = await fetch(view === 'retouched' ? '/api/admin/retouch/tasks?view=retouched' : '/api/admin/retouch/tasks')
       
       if (!res.ok) {
         // 尝试解析错误响应
@@ -77,7 +84,7 @@ export function RetouchDashboard() {
     try {
       setUploadingId(selectedTaskId)
       
-      // 1. 获取上传凭证
+      // 1. 获取上传凭证（服务端创建新版本，原图保留）
       const uploadRes = await fetch(`/api/admin/retouch/${selectedTaskId}/upload`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -93,7 +100,7 @@ export function RetouchDashboard() {
         throw new Error(err.error?.message || '获取上传凭证失败')
       }
       
-      const { uploadUrl, key, photoId, albumId } = await uploadRes.json()
+      const { uploadUrl, versionId } = await uploadRes.json()
       
       // 2. 上传文件到 MinIO (使用 PUT 方法直接上传)
       // 注意：这里使用 Worker 的代理 URL 或者直接 URL
@@ -125,17 +132,14 @@ export function RetouchDashboard() {
         xhr.send(file)
       })
       
-      // 3. 触发处理 (标记为精修图)
-      await fetch('/api/admin/photos/process', {
+      // 3. 将新版本设为当前版本并触发处理
+      const activateRes = await fetch(`/api/admin/photos/${selectedTaskId}/versions/${versionId}/activate`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          photoId, 
-          albumId, 
-          originalKey: key,
-          isRetouch: true 
-        }),
       })
+      if (!activateRes.ok) {
+        const err = await activateRes.json().catch(() => ({}))
+        throw new Error(err.error?.message || '精修版本生效失败')
+      }
       
       showSuccess('精修图已上传并开始处理')
       
@@ -157,16 +161,32 @@ export function RetouchDashboard() {
         <div>
           <h1 className="text-2xl font-bold">修图工作台</h1>
           <p className="text-text-secondary mt-1">
-            处理待修图照片 ({tasks.length})
+            {view === 'pending' ? '处理待修图照片' : '已精修照片'} ({tasks.length})
           </p>
         </div>
-        <button 
-          onClick={fetchTasks}
-          className="btn btn-secondary p-2"
-          title="刷新列表"
-        >
-          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-        </button>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg bg-surface-elevated p-1 text-sm">
+            <button
+              onClick={() => setView('pending')}
+              className={`px-3 py-1 rounded-md ${view === 'pending' ? 'bg-accent text-background' : 'text-text-secondary'}`}
+            >
+              待修图
+            </button>
+            <button
+              onClick={() => setView('retouched')}
+              className={`px-3 py-1 rounded-md ${view === 'retouched' ? 'bg-accent text-background' : 'text-text-secondary'}`}
+            >
+              已精修
+            </button>
+          </div>
+          <button 
+            onClick={fetchTasks}
+            className="btn btn-secondary p-2"
+            title="刷新列表"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
       </div>
 
       <input 
@@ -183,30 +203,27 @@ export function RetouchDashboard() {
         </div>
       ) : tasks.length === 0 ? (
         <div className="text-center py-12 text-text-secondary card">
-          暂无待修图任务
+          {view === 'pending' ? '暂无待修图任务' : '暂无已精修照片'}
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
           {tasks.map((task) => (
             <div key={task.id} className="card p-4 space-y-4">
               <div className="aspect-[3/2] bg-surface-elevated rounded-lg overflow-hidden relative group">
-                {/* 预览图（如果有） */}
-                {/* 这里的 status 是 pending_retouch，Worker 已经生成了预览图，所以可以用原逻辑访问 */}
-                {/* 但我们没有 preview_key。API 应该返回 preview_key */}
-                {/* 如果 API 没返回，我们可以猜测路径或使用 API 补充 */}
-                <div className="absolute inset-0 flex items-center justify-center text-text-secondary text-xs p-2 text-center">
-                  {task.filename}
-                  <br/>
-                  (预览图加载中...)
-                </div>
-                {/* 实际应用中应该加载图片 */}
-                {/* 
-                <img 
-                  src={`${mediaUrl}/preview/${task.albums.id}/${task.id}.jpg`} 
-                  className="absolute inset-0 w-full h-full object-cover"
-                  onError={(e) => e.currentTarget.style.display = 'none'}
-                /> 
-                */}
+                {task.preview_key ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={`${mediaUrl}/${task.preview_key}?t=${encodeURIComponent(task.updated_at)}`}
+                    alt={task.filename}
+                    className="absolute inset-0 w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="absolute inset-0 flex items-center justify-center text-text-secondary text-xs p-2 text-center">
+                    {task.filename}
+                    <br/>
+                    (预览图生成中...)
+                  </div>
+                )}
               </div>
               
               <div className="space-y-2">
@@ -238,12 +255,35 @@ export function RetouchDashboard() {
                        </>
                      )}
                    </button>
+
+                   {/* 版本历史：前后对比与回退 */}
+                   <button
+                     onClick={() => setVersionsTask(task)}
+                     className="btn btn-secondary text-xs flex items-center justify-center gap-1 h-8 px-2"
+                     title="版本历史"
+                   >
+                     <History className="w-3 h-3" />
+                   </button>
                 </div>
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {versionsTask && (
+        <PhotoVersionsDialog
+          photoId={versionsTask.id}
+          filename={versionsTask.filename}
+          open={!!versionsTask}
+          onOpenChange={(open) => {
+            if (!open) {
+              setVersionsTask(null)
+            }
+          }}
+          onChanged={fetchTasks}
+        />
+      )}
     </div>
   )
 }
@@ -1,12 +1,13 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { Share2, Copy, Check, ExternalLink, QrCode, Download, MessageCircle, Users, Image as ImageIcon } from 'lucide-react'
+import { Share2, Copy, Check, ExternalLink, QrCode, Download, MessageCircle, Users, Image as ImageIcon, KeyRound } from 'lucide-react'
 import { QRCodeSVG } from 'qrcode.react'
 import { showError, showInfo } from '@/lib/toast'
 import { cn } from '@/lib/utils'
 import { generatePoster, downloadPoster, type PosterStyle, POSTER_PRESETS, validateAndLimitStyle } from '@/lib/poster-generator'
 import { PosterConfigDialog } from './poster-config-dialog'
+import { AlbumShareLinksManager } from './album-share-links-manager'
 import {
   Dialog,
   DialogContent,
@@ -17,6 +18,8 @@ import {
 
 interface ShareLinkButtonProps {
   url: string
+  /** 传入后显示「访问链接」标签，可生成带独立权限和有效期的链接（仅管理后台） */
+  albumId?: string
   albumTitle?: string
   albumDescription?: string | null
   backgroundImageUrl?: string | null
@@ -30,13 +33,14 @@ const isWeChat = () => {
 
 export function ShareLinkButton({ 
   url, 
+  albumId,
   albumTitle = '相册',
   albumDescription,
   backgroundImageUrl,
 }: ShareLinkButtonProps) {
   const [copied, setCopied] = useState(false)
   const [open, setOpen] = useState(false)
-  const [showQR, setShowQR] = useState(false)
+  const [tab, setTab] = useState<'link' | 'qr' | 'access'>('link')
   const [isWeixin, setIsWeixin] = useState(false)
   const [generatingPoster, setGeneratingPoster] = useState(false)
   const [showPosterConfig, setShowPosterConfig] = useState(false)
@@ -402,17 +406,21 @@ export function ShareLinkButton({
             <DialogTitle>分享相册</DialogTitle>
           </DialogHeader>
           <DialogDescription>
-            {showQR ? '扫描二维码即可访问相册' : '复制链接分享给客户'}
+            {tab === 'qr'
+              ? '扫描二维码即可访问相册'
+              : tab === 'access'
+                ? '为不同客户生成独立权限的访问链接'
+                : '复制链接分享给客户'}
           </DialogDescription>
 
           {/* 标签切换 */}
           <div className="flex gap-2 mb-4">
             <button
               type="button"
-              onClick={() => setShowQR(false)}
+              onClick={() => setTab('link')}
               className={cn(
                 'flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors min-h-[44px]',
-                !showQR 
+                tab === 'link'
                   ? 'bg-accent text-background' 
                   : 'bg-surface text-text-secondary hover:text-text-primary'
               )}
@@ -421,10 +429,10 @@ export function ShareLinkButton({
             </button>
             <button
               type="button"
-              onClick={() => setShowQR(true)}
+              onClick={() => setTab('qr')}
               className={cn(
                 'flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-1 min-h-[44px]',
-                showQR 
+                tab === 'qr'
                   ? 'bg-accent text-background' 
                   : 'bg-surface text-text-secondary hover:text-text-primary'
               )}
@@ -432,9 +440,26 @@ export function ShareLinkButton({
               <QrCode className="w-4 h-4" />
               二维码
             </button>
+            {albumId && (
+              <button
+                type="button"
+                onClick={() => setTab('access')}
+                className={cn(
+                  'flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-1 min-h-[44px]',
+                  tab === 'access'
+                    ? 'bg-accent text-background'
+                    : 'bg-surface text-text-secondary hover:text-text-primary'
+                )}
+              >
+                <KeyRound className="w-4 h-4" />
+                访问链接
+              </button>
+            )}
           </div>
 
-          {!showQR ? (
+          {tab === 'access' && albumId ? (
+            <AlbumShareLinksManager albumId={albumId} />
+          ) : tab === 'link' ? (
             <>
               <p className="text-sm text-text-secondary mb-3">分享此相册给客户：</p>
               
@@ -78,6 +78,8 @@ describe('SidebarContent', () => {
     
     expect(screen.getByText('相册管理')).toBeInTheDocument()
     expect(screen.getByText('修图工作台')).toBeInTheDocument()
+    expect(screen.getByText('风格预设')).toBeInTheDocument()
+    expect(screen.queryByText('泄露溯源')).not.toBeInTheDocument()
     expect(screen.queryByText('用户管理')).not.toBeInTheDocument()
     expect(screen.queryByText('系统设置')).not.toBeInTheDocument()
   })
@@ -91,6 +93,8 @@ describe('SidebarContent', () => {
     
     expect(screen.getByText('相册管理')).toBeInTheDocument()
     expect(screen.queryByText('修图工作台')).not.toBeInTheDocument()
+    expect(screen.queryByText('风格预设')).not.toBeInTheDocument()
+    expect(screen.getByText('泄露溯源')).toBeInTheDocument()
     expect(screen.queryByText('用户管理')).not.toBeInTheDocument()
     expect(screen.queryByText('系统设置')).not.toBeInTheDocument()
   })
@@ -3,7 +3,7 @@
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import dynamic from 'next/dynamic'
-import { Camera, Images, Settings, LogOut, Home, Brush, Users } from 'lucide-react'
+import { Camera, Images, Settings, LogOut, Home, Brush, Users, ScrollText, Webhook, BarChart3, Contact, HardDrive, Palette, Fingerprint } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type { AuthUser } from '@/lib/auth'
 
@@ -26,8 +26,15 @@ const navItems: Array<{
   roles?: UserRole[] // 允许访问的角色，如果未指定则所有角色都可以访问
 }> = [
   { href: '/admin', label: '相册管理', icon: Images }, // 所有角色都可以访问
+  { href: '/admin/clients', label: '客户管理', icon: Contact, roles: ['admin', 'photographer'] }, // 仅管理员和摄影师
   { href: '/admin/retouch', label: '修图工作台', icon: Brush, roles: ['admin', 'retoucher'] }, // 仅管理员和修图师
+  { href: '/admin/style-presets', label: '风格预设', icon: Palette, roles: ['admin', 'retoucher'] }, // 仅管理员和修图师
+  { href: '/admin/leak-check', label: '泄露溯源', icon: Fingerprint, roles: ['admin', 'photographer'] }, // 仅管理员和摄影师
+  { href: '/admin/analytics', label: '数据统计', icon: BarChart3, roles: ['admin'] }, // 仅管理员
+  { href: '/admin/storage', label: '存储用量', icon: HardDrive, roles: ['admin'] }, // 仅管理员
   { href: '/admin/users', label: '用户管理', icon: Users, roles: ['admin'] }, // 仅管理员
+  { href: '/admin/audit-logs', label: '审计日志', icon: ScrollText, roles: ['admin'] }, // 仅管理员
+  { href: '/admin/webhooks', label: 'Webhook', icon: Webhook, roles: ['admin'] }, // 仅管理员
   { href: '/admin/settings', label: '系统设置', icon: Settings, roles: ['admin'] }, // 仅管理员
 ]
 
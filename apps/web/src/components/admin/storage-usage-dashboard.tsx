@@ -0,0 +1,377 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import { HardDrive, Loader2, RefreshCw, ScanSearch, AlertTriangle } from 'lucide-react'
+import { handleApiError } from '@/lib/toast'
+import { cn, formatFileSize } from '@/lib/utils'
+import {
+  DISK_USAGE_CATEGORIES,
+  STORAGE_CATEGORIES,
+  type DiskUsageCategory,
+  type DiskUsageSummary,
+  type QuotaUsage,
+  type StorageCategory,
+} from '@/lib/storage-quota'
+import type { StorageReport } from '@/lib/storage-usage'
+
+/** 默认显示的相册数量 */
+const ALBUM_PREVIEW_LIMIT = 50
+
+const CATEGORY_COLORS: Record<DiskUsageCategory, string> = {
+  originals: 'bg-accent',
+  thumbs: 'bg-sky-500',
+  previews: 'bg-emerald-500',
+  packages: 'bg-violet-500',
+  archive: 'bg-amber-500',
+  other: 'bg-text-muted',
+}
+
+/**
+ * 存储用量面板
+ * 按相册和用户展示数据库记录的用量和配额使用情况，可手动让 Worker 扫描存储桶核对实际占用
+ */
+export function StorageUsageDashboard() {
+  const [report, setReport] = useState<StorageReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [disk, setDisk] = useState<DiskUsageSummary | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [showAllAlbums, setShowAllAlbums] = useState(false)
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/storage')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '加载存储用量失败')
+      }
+
+      setReport(data.data || null)
+    } catch (error) {
+      handleApiError(error, '加载存储用量失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const handleScan = async () => {
+    try {
+      setScanning(true)
+      const response = await fetch('/api/admin/storage/scan', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '扫描存储失败')
+      }
+
+      setDisk(data.data)
+    } catch (error) {
+      handleApiError(error, '扫描存储失败')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  // 存储桶中有文件、但数据库中已不存在的相册
+  const orphanAlbums = useMemo(() => {
+    if (!disk || !report) return { count: 0, bytes: 0 }
+    const known = new Set(report.albums.map((album) => album.album_id))
+    return Object.entries(disk.albums)
+      .filter(([albumId]) => !known.has(albumId))
+      .reduce((sum, [, usage]) => ({ count: sum.count + 1, bytes: sum.bytes + usage.bytes }), { count: 0, bytes: 0 })
+  }, [disk, report])
+
+  const albums = report ? (showAllAlbums ? report.albums : report.albums.slice(0, ALBUM_PREVIEW_LIMIT)) : []
+  const settings = report?.settings
+
+  return (
+    <div>
+      {/* 页面标题 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <h1 className="text-xl md:text-2xl font-serif font-bold">存储用量</h1>
+          <p className="text-text-secondary text-sm md:text-base mt-1">
+            按相册和用户统计原图、缩略图、预览图和打包下载占用的空间，超出配额后无法继续上传
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={loadReport}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-surface border border-border rounded-lg hover:bg-background transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+            <span>刷新</span>
+          </button>
+          <button
+            type="button"
+            onClick={handleScan}
+            disabled={scanning}
+            className="flex items-center gap-2 px-4 py-2 bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors disabled:opacity-50"
+          >
+            {scanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanSearch className="w-4 h-4" />}
+            <span>扫描存储桶</span>
+          </button>
+        </div>
+      </div>
+
+      {loading && !report ? (
+        <div className="p-8 text-center">
+          <Loader2 className="w-6 h-6 animate-spin mx-auto text-text-muted" />
+          <p className="text-text-muted mt-2">加载中...</p>
+        </div>
+      ) : report && settings ? (
+        <div className={cn('space-y-6', loading && 'opacity-60 transition-opacity')}>
+          {/* 总用量 */}
+          <section className="bg-surface rounded-lg border border-border p-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm text-text-secondary">
+                <HardDrive className="w-4 h-4" />
+                数据库记录的用量
+              </div>
+              <p className="text-sm text-text-muted">
+                相册配额 {formatQuotaSetting(settings.album_quota_gb)} · 用户配额 {formatQuotaSetting(settings.user_quota_gb)} ·
+                达到 {settings.warning_percent}% 时提醒 ·{' '}
+                <Link href="/admin/settings" className="text-accent hover:underline">
+                  修改配额
+                </Link>
+              </p>
+            </div>
+            <p className="text-2xl font-bold mt-2">{formatFileSize(report.total)}</p>
+            <p className="text-xs text-text-muted mt-1">
+              {report.albums.length} 个相册，{report.photo_count.toLocaleString()} 张照片（含回收站）
+            </p>
+            <CategoryBar
+              total={report.total}
+              items={(Object.keys(STORAGE_CATEGORIES) as StorageCategory[]).map((category) => ({
+                category,
+                bytes: report.usage[category],
+              }))}
+            />
+          </section>
+
+          {/* 存储桶扫描 */}
+          {disk && (
+            <section className="bg-surface rounded-lg border border-border p-4">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="font-medium">存储桶实际占用</h2>
+                <p className="text-xs text-text-muted">
+                  {new Date(disk.scannedAt).toLocaleString('zh-CN')} 扫描，耗时 {(disk.durationMs / 1000).toFixed(1)} 秒
+                </p>
+              </div>
+              <p className="text-2xl font-bold mt-2">{formatFileSize(disk.totalBytes)}</p>
+              <p className="text-xs text-text-muted mt-1">{disk.totalObjects.toLocaleString()} 个文件</p>
+              <CategoryBar
+                total={disk.totalBytes}
+                items={(Object.keys(DISK_USAGE_CATEGORIES) as DiskUsageCategory[]).map((category) => ({
+                  category,
+                  bytes: disk.categories[category]?.bytes ?? 0,
+                  count: disk.categories[category]?.count ?? 0,
+                }))}
+              />
+              {orphanAlbums.count > 0 && (
+                <p className="mt-4 flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  {orphanAlbums.count} 个已不存在的相册仍有文件，共 {formatFileSize(orphanAlbums.bytes)}，
+                  可在系统设置的「数据一致性检查」中清理孤立文件
+                </p>
+              )}
+            </section>
+          )}
+
+          {/* 按用户 */}
+          <section className="bg-surface rounded-lg border border-border overflow-hidden">
+            <h2 className="font-medium px-4 py-3 border-b border-border">按用户</h2>
+            {report.owners.length === 0 ? (
+              <p className="p-8 text-center text-text-muted">暂无相册</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-background border-b border-border">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">用户</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-text-primary">相册</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-text-primary">已用</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-text-primary w-56">配额</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {report.owners.map((owner) => (
+                      <tr key={owner.owner_id ?? 'none'} className="hover:bg-background/50 transition-colors">
+                        <td className="px-4 py-2 text-sm text-text-primary">
+                          {owner.owner_id ? owner.email || owner.owner_id : <span className="text-text-muted">无所有者</span>}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">{owner.album_count}</td>
+                        <td className="px-4 py-2 text-sm text-right whitespace-nowrap">{formatFileSize(owner.total)}</td>
+                        <td className="px-4 py-2">
+                          <QuotaMeter quota={owner.quota} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          {/* 按相册 */}
+          <section className="bg-surface rounded-lg border border-border overflow-hidden">
+            <h2 className="font-medium px-4 py-3 border-b border-border">按相册</h2>
+            {report.albums.length === 0 ? (
+              <p className="p-8 text-center text-text-muted">暂无相册</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-background border-b border-border">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-text-primary">相册</th>
+                      {(Object.keys(STORAGE_CATEGORIES) as StorageCategory[]).map((category) => (
+                        <th key={category} className="px-4 py-3 text-right text-sm font-medium text-text-primary whitespace-nowrap">
+                          {STORAGE_CATEGORIES[category]}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-right text-sm font-medium text-text-primary">合计</th>
+                      {disk && (
+                        <th className="px-4 py-3 text-right text-sm font-medium text-text-primary whitespace-nowrap">实际占用</th>
+                      )}
+                      <th className="px-4 py-3 text-left text-sm font-medium text-text-primary w-56">配额</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {albums.map((album) => (
+                      <tr key={album.album_id} className="hover:bg-background/50 transition-colors">
+                        <td className="px-4 py-2 text-sm text-text-primary">
+                          <div className="flex items-center gap-2 min-w-0">
+                            {album.deleted ? (
+                              <span className="truncate text-text-secondary">{album.title}</span>
+                            ) : (
+                              <Link href={`/admin/albums/${album.album_id}`} className="truncate hover:text-accent">
+                                {album.title}
+                              </Link>
+                            )}
+                            {album.deleted && (
+                              <span className="px-1.5 py-0.5 text-xs rounded bg-background text-text-muted whitespace-nowrap">
+                                已删除
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-text-muted">{album.photo_count} 张照片</p>
+                        </td>
+                        {(Object.keys(STORAGE_CATEGORIES) as StorageCategory[]).map((category) => (
+                          <td key={category} className="px-4 py-2 text-sm text-right text-text-secondary whitespace-nowrap">
+                            {formatFileSize(album[category])}
+                          </td>
+                        ))}
+                        <td className="px-4 py-2 text-sm text-right whitespace-nowrap">{formatFileSize(album.total)}</td>
+                        {disk && (
+                          <td className="px-4 py-2 text-sm text-right text-text-secondary whitespace-nowrap">
+                            {formatFileSize(disk.albums[album.album_id]?.bytes ?? 0)}
+                          </td>
+                        )}
+                        <td className="px-4 py-2">
+                          <QuotaMeter quota={album.quota} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {report.albums.length > ALBUM_PREVIEW_LIMIT && (
+              <button
+                type="button"
+                onClick={() => setShowAllAlbums((value) => !value)}
+                className="w-full px-4 py-3 text-sm text-accent border-t border-border hover:bg-background/50 transition-colors"
+              >
+                {showAllAlbums ? '收起' : `显示全部 ${report.albums.length} 个相册`}
+              </button>
+            )}
+          </section>
+        </div>
+      ) : (
+        <div className="p-8 text-center">
+          <p className="text-text-muted">暂无存储数据</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * 配额设置的显示文字
+ */
+function formatQuotaSetting(quotaGb: number): string {
+  return quotaGb > 0 ? `${quotaGb} GB` : '不限'
+}
+
+function CategoryBar({
+  total,
+  items,
+}: {
+  total: number
+  items: Array<{ category: DiskUsageCategory; bytes: number; count?: number }>
+}) {
+  return (
+    <div className="mt-4">
+      <div className="flex h-2 bg-background rounded-full overflow-hidden">
+        {total > 0 &&
+          items.map(({ category, bytes }) => (
+            <div
+              key={category}
+              className={CATEGORY_COLORS[category]}
+              style={{ width: `${(bytes / total) * 100}%` }}
+            />
+          ))}
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-sm text-text-secondary">
+        {items.map(({ category, bytes, count }) => (
+          <span key={category} className="flex items-center gap-1.5">
+            <span className={cn('w-2 h-2 rounded-full', CATEGORY_COLORS[category])} />
+            {DISK_USAGE_CATEGORIES[category]}：<span className="text-text-primary">{formatFileSize(bytes)}</span>
+            {count !== undefined && <span className="text-text-muted">（{count.toLocaleString()} 个）</span>}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function QuotaMeter({ quota }: { quota: QuotaUsage }) {
+  if (quota.limit === null || quota.percent === null) {
+    return <span className="text-sm text-text-muted">不限</span>
+  }
+
+  return (
+    <div className="text-xs">
+      <div className="h-1.5 bg-background rounded-full overflow-hidden">
+        <div
+          className={cn(
+            'h-full',
+            quota.status === 'exceeded' ? 'bg-red-500' : quota.status === 'warning' ? 'bg-amber-500' : 'bg-accent/70'
+          )}
+          style={{ width: `${Math.min(100, quota.percent)}%` }}
+        />
+      </div>
+      <p
+        className={cn(
+          'mt-1 whitespace-nowrap',
+          quota.status === 'exceeded'
+            ? 'text-red-500'
+            : quota.status === 'warning'
+              ? 'text-amber-600 dark:text-amber-400'
+              : 'text-text-muted'
+        )}
+      >
+        {Math.floor(quota.percent)}% / {formatFileSize(quota.limit)}
+        {quota.status === 'exceeded' && ' · 已满'}
+      </p>
+    </div>
+  )
+}
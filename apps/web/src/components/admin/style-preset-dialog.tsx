@@ -0,0 +1,415 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import type { CustomStylePresetConfig } from '@/lib/style-preset-utils'
+import type { StyleLut, StylePresetCategory } from '@/types/database'
+
+/** 编辑中的自定义预设 */
+export interface EditableStylePreset {
+  id: string
+  name: string
+  category: StylePresetCategory
+  description: string
+  config?: CustomStylePresetConfig
+  lutId?: string | null
+}
+
+interface StylePresetDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** 编辑的预设，为空表示新建 */
+  preset?: EditableStylePreset | null
+  luts: StyleLut[]
+  onSuccess?: () => void
+}
+
+type CurveChannel = 'rgb' | 'r' | 'g' | 'b'
+
+interface SliderField {
+  key: string
+  label: string
+  min: number
+  max: number
+  step: number
+  defaultValue: number
+  get: (config: CustomStylePresetConfig) => number | undefined
+  set: (config: CustomStylePresetConfig, value: number) => CustomStylePresetConfig
+}
+
+const categoryLabels: Record<StylePresetCategory, string> = {
+  portrait: '人物',
+  landscape: '风景',
+  general: '通用',
+}
+
+const curveLabels: Record<CurveChannel, string> = {
+  rgb: '主曲线',
+  r: '红',
+  g: '绿',
+  b: '蓝',
+}
+
+const simpleField = (
+  key: 'brightness' | 'contrast' | 'saturation' | 'gamma' | 'hue' | 'vibrance' | 'vignette' | 'grain',
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  defaultValue: number
+): SliderField => ({
+  key,
+  label,
+  min,
+  max,
+  step,
+  defaultValue,
+  get: (config) => config[key],
+  set: (config, value) => ({ ...config, [key]: value }),
+})
+
+const whiteBalanceField = (key: 'temperature' | 'tint', label: string): SliderField => ({
+  key,
+  label,
+  min: -100,
+  max: 100,
+  step: 1,
+  defaultValue: 0,
+  get: (config) => config.whiteBalance?.[key],
+  set: (config, value) => ({ ...config, whiteBalance: { ...config.whiteBalance, [key]: value } }),
+})
+
+const SLIDER_FIELDS: SliderField[] = [
+  whiteBalanceField('temperature', '色温（冷 ↔ 暖）'),
+  whiteBalanceField('tint', '色调（绿 ↔ 品红）'),
+  simpleField('brightness', '亮度', 0, 2, 0.01, 1),
+  simpleField('contrast', '对比度', -1, 1, 0.01, 0),
+  simpleField('gamma', 'Gamma', 0.1, 3, 0.01, 1),
+  simpleField('saturation', '饱和度', 0, 2, 0.01, 1),
+  simpleField('vibrance', '自然饱和度', -100, 100, 1, 0),
+  simpleField('hue', '色相旋转', -180, 180, 1, 0),
+  simpleField('vignette', '暗角（压暗 ↔ 提亮）', -100, 100, 1, 0),
+  simpleField('grain', '颗粒', 0, 100, 1, 0),
+]
+
+/**
+ * 曲线控制点格式化为 "x,y x,y"
+ */
+function formatCurve(points: [number, number][] | undefined): string {
+  return (points || []).map(([x, y]) => `${x},${y}`).join(' ')
+}
+
+/**
+ * 解析 "x,y x,y" 格式的曲线控制点，空字符串表示不使用该曲线
+ *
+ * @throws {Error} 格式错误或取值超出 0-255 时抛出
+ */
+function parseCurve(text: string): [number, number][] | undefined {
+  const trimmed = text.trim()
+  if (!trimmed) return undefined
+
+  const points = trimmed.split(/\s+/).map((pair) => {
+    const [x, y] = pair.split(',').map(Number)
+    if (![x, y].every((value) => Number.isFinite(value) && value >= 0 && value <= 255)) {
+      throw new Error(`曲线控制点 "${pair}" 格式错误，应为 0-255 的 x,y`)
+    }
+    return [x, y] as [number, number]
+  })
+  if (points.length < 2) {
+    throw new Error('曲线至少需要 2 个控制点')
+  }
+  return points
+}
+
+/**
+ * 去掉与默认值相同的参数，只保存实际调整过的字段
+ */
+function compactConfig(config: CustomStylePresetConfig): CustomStylePresetConfig {
+  const result: CustomStylePresetConfig = {}
+  for (const field of SLIDER_FIELDS) {
+    const value = field.get(config)
+    if (value !== undefined && value !== field.defaultValue) {
+      Object.assign(result, field.set(result, value))
+    }
+  }
+  if (config.curves && Object.keys(config.curves).length > 0) {
+    result.curves = config.curves
+  }
+  if (config.lutStrength !== undefined && config.lutStrength !== 100) {
+    result.lutStrength = config.lutStrength
+  }
+  return result
+}
+
+/**
+ * 创建 / 编辑自定义风格预设
+ * 保存后由 Worker 渲染预览图，在预设列表和相册的风格选择器中查看效果
+ */
+export function StylePresetDialog({ open, onOpenChange, preset, luts, onSuccess }: StylePresetDialogProps) {
+  const isEdit = !!preset
+  const [name, setName] = useState('')
+  const [category, setCategory] = useState<StylePresetCategory>('general')
+  const [description, setDescription] = useState('')
+  const [lutId, setLutId] = useState('')
+  const [config, setConfig] = useState<CustomStylePresetConfig>({})
+  const [curves, setCurves] = useState<Record<CurveChannel, string>>({ rgb: '', r: '', g: '', b: '' })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // 打开时填充表单
+  useEffect(() => {
+    if (!open) return
+    setName(preset?.name || '')
+    setCategory(preset?.category || 'general')
+    setDescription(preset?.description || '')
+    setLutId(preset?.lutId || '')
+    setConfig(preset?.config || {})
+    setCurves({
+      rgb: formatCurve(preset?.config?.curves?.rgb),
+      r: formatCurve(preset?.config?.curves?.r),
+      g: formatCurve(preset?.config?.curves?.g),
+      b: formatCurve(preset?.config?.curves?.b),
+    })
+    setError('')
+  }, [open, preset])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const parsedCurves: NonNullable<CustomStylePresetConfig['curves']> = {}
+    try {
+      for (const channel of Object.keys(curveLabels) as CurveChannel[]) {
+        const points = parseCurve(curves[channel])
+        if (points) parsedCurves[channel] = points
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '曲线格式错误')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const body = {
+        name: name.trim(),
+        category,
+        description: description.trim() || null,
+        lut_id: lutId || null,
+        config: compactConfig({ ...config, curves: parsedCurves }),
+      }
+
+      const response = await fetch(isEdit ? `/api/admin/style-presets/${preset.id}` : '/api/admin/style-presets', {
+        method: isEdit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '保存失败')
+      }
+
+      showSuccess(isEdit ? '风格预设已更新' : '风格预设已创建')
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      handleApiError(error, '保存风格预设失败')
+      setError(error instanceof Error ? error.message : '保存风格预设失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const inputClassName =
+    'w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? '编辑风格预设' : '新建风格预设'}</DialogTitle>
+          <DialogDescription>
+            调整顺序：白平衡与曲线 → LUT → 自然饱和度 → 暗角 → 颗粒。修改后已处理的照片需要重新处理才会生效
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="style-preset-name" className="block text-sm font-medium text-text-primary mb-2">
+                名称 <span className="text-destructive">*</span>
+              </label>
+              <input
+                id="style-preset-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="style-preset-category" className="block text-sm font-medium text-text-primary mb-2">
+                分类
+              </label>
+              <select
+                id="style-preset-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as StylePresetCategory)}
+                className={inputClassName}
+              >
+                {(Object.keys(categoryLabels) as StylePresetCategory[]).map((key) => (
+                  <option key={key} value={key}>
+                    {categoryLabels[key]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="style-preset-description" className="block text-sm font-medium text-text-primary mb-2">
+              描述
+            </label>
+            <input
+              id="style-preset-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              className={inputClassName}
+            />
+          </div>
+
+          {/* LUT */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="style-preset-lut" className="block text-sm font-medium text-text-primary mb-2">
+                3D LUT
+              </label>
+              <select
+                id="style-preset-lut"
+                value={lutId}
+                onChange={(e) => setLutId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">不使用 LUT</option>
+                {luts.map((lut) => (
+                  <option key={lut.id} value={lut.id}>
+                    {lut.name}（{lut.lut_size}³）
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="style-preset-lut-strength" className="block text-sm font-medium text-text-primary mb-2">
+                LUT 强度：{config.lutStrength ?? 100}%
+              </label>
+              <input
+                id="style-preset-lut-strength"
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={config.lutStrength ?? 100}
+                disabled={!lutId}
+                onChange={(e) => setConfig({ ...config, lutStrength: Number(e.target.value) })}
+                className="w-full disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {/* 基础调整 */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3">
+            {SLIDER_FIELDS.map((field) => {
+              const value = field.get(config) ?? field.defaultValue
+              return (
+                <div key={field.key}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <label htmlFor={`style-preset-${field.key}`} className="text-text-primary">
+                      {field.label}
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setConfig(field.set(config, field.defaultValue))}
+                      className="text-xs text-text-muted hover:text-text-primary font-mono"
+                      title="恢复默认值"
+                    >
+                      {value}
+                    </button>
+                  </div>
+                  <input
+                    id={`style-preset-${field.key}`}
+                    type="range"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={value}
+                    onChange={(e) => setConfig(field.set(config, Number(e.target.value)))}
+                    className="w-full"
+                  />
+                </div>
+              )
+            })}
+          </div>
+
+          {/* 曲线 */}
+          <div>
+            <p className="block text-sm font-medium text-text-primary mb-2">
+              色调曲线 <span className="text-text-muted text-xs">(控制点 x,y 取值 0-255，空格分隔，如 0,0 64,52 192,204 255,255)</span>
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {(Object.keys(curveLabels) as CurveChannel[]).map((channel) => (
+                <label key={channel} className="flex items-center gap-2 text-sm">
+                  <span className="w-12 text-text-secondary flex-shrink-0">{curveLabels[channel]}</span>
+                  <input
+                    type="text"
+                    value={curves[channel]}
+                    onChange={(e) => setCurves({ ...curves, [channel]: e.target.value })}
+                    placeholder="不调整"
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="px-4 py-2 text-sm bg-surface border border-border rounded-lg hover:bg-background transition-colors"
+            >
+              取消
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !name.trim()}
+              className="px-4 py-2 text-sm bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isEdit ? '保存' : '创建'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,287 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import Image from 'next/image'
+import { Plus, Edit2, Trash2, Upload, Loader2, Palette } from 'lucide-react'
+import { StylePresetDialog, type EditableStylePreset } from './style-preset-dialog'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { formatFileSize, formatRelativeTime } from '@/lib/utils'
+import { getStylePresetPreviewUrl } from '@/lib/style-preset-utils'
+import type { StyleLut } from '@/types/database'
+
+interface CustomPresetItem extends EditableStylePreset {
+  custom: boolean
+  updatedAt?: string
+}
+
+const categoryLabels: Record<EditableStylePreset['category'], string> = {
+  portrait: '人物',
+  landscape: '风景',
+  general: '通用',
+}
+
+/**
+ * 自定义风格预设管理
+ * 上传 .cube LUT，保存自定义调色参数，预览图由 Worker 按真实处理管线渲染
+ */
+export function StylePresetManager() {
+  const [presets, setPresets] = useState<CustomPresetItem[]>([])
+  const [luts, setLuts] = useState<StyleLut[]>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<CustomPresetItem | null>(null)
+  const [deletingPreset, setDeletingPreset] = useState<CustomPresetItem | null>(null)
+  const [deletingLut, setDeletingLut] = useState<StyleLut | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadData = useCallback(async () => {
+    try {
+      const [presetsResponse, lutsResponse] = await Promise.all([
+        fetch('/api/admin/style-presets', { cache: 'no-store' }),
+        fetch('/api/admin/style-presets/luts'),
+      ])
+      const [presetsData, lutsData] = await Promise.all([presetsResponse.json(), lutsResponse.json()])
+      if (!presetsResponse.ok) {
+        throw new Error(presetsData.error?.message || '加载风格预设失败')
+      }
+      if (!lutsResponse.ok) {
+        throw new Error(lutsData.error?.message || '加载 LUT 失败')
+      }
+      setPresets(((presetsData.data?.presets || []) as CustomPresetItem[]).filter((preset) => preset.custom))
+      setLuts(lutsData.data?.luts || [])
+    } catch (error) {
+      handleApiError(error, '加载风格预设失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const handleUploadLut = async (file: File) => {
+    setUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch('/api/admin/style-presets/luts', {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '上传失败')
+      }
+      showSuccess(`LUT「${data.data?.name}」已上传`)
+      loadData()
+    } catch (error) {
+      handleApiError(error, '上传 LUT 失败')
+    } finally {
+      setUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleDelete = async (url: string, message: string) => {
+    try {
+      const response = await fetch(url, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '删除失败')
+      }
+      showSuccess(message)
+      loadData()
+    } catch (error) {
+      handleApiError(error, '删除失败')
+    }
+  }
+
+  const lutNames = new Map(luts.map((lut) => [lut.id, lut.name]))
+
+  return (
+    <div>
+      {/* 页面标题 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <h1 className="text-xl md:text-2xl font-serif font-bold">风格预设</h1>
+          <p className="text-text-secondary text-sm md:text-base mt-1">
+            上传 .cube LUT、保存自己的调色参数，在相册设置的风格选择器中使用
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null)
+            setDialogOpen(true)
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>新建预设</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="bg-surface rounded-lg border border-border p-8 text-center">
+          <Loader2 className="w-6 h-6 animate-spin mx-auto text-text-muted" />
+          <p className="text-text-muted mt-2">加载中...</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {/* 自定义预设 */}
+          <section>
+            <h2 className="text-lg font-medium mb-3">自定义预设</h2>
+            {presets.length === 0 ? (
+              <div className="bg-surface rounded-lg border border-border p-8 text-center">
+                <Palette className="w-8 h-8 mx-auto text-text-muted mb-2" />
+                <p className="text-text-muted">还没有自定义预设</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                {presets.map((preset) => (
+                  <div key={preset.id} className="bg-surface rounded-lg border border-border overflow-hidden">
+                    <div className="relative aspect-[3/2] bg-background">
+                      <Image
+                        src={getStylePresetPreviewUrl(preset.id, { version: preset.updatedAt })}
+                        alt={preset.name}
+                        fill
+                        className="object-cover"
+                        sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 25vw"
+                        unoptimized
+                      />
+                    </div>
+                    <div className="p-3 space-y-1">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium text-sm truncate">{preset.name}</p>
+                          <p className="text-xs text-text-muted">
+                            {categoryLabels[preset.category]}
+                            {preset.lutId && ` · LUT：${lutNames.get(preset.lutId) ?? '已删除'}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center flex-shrink-0">
+                          <button
+                            onClick={() => {
+                              setEditing(preset)
+                              setDialogOpen(true)
+                            }}
+                            className="p-1.5 hover:bg-background rounded-lg transition-colors"
+                            title="编辑"
+                          >
+                            <Edit2 className="w-4 h-4 text-text-secondary" />
+                          </button>
+                          <button
+                            onClick={() => setDeletingPreset(preset)}
+                            className="p-1.5 hover:bg-background rounded-lg transition-colors"
+                            title="删除"
+                          >
+                            <Trash2 className="w-4 h-4 text-text-secondary" />
+                          </button>
+                        </div>
+                      </div>
+                      {preset.description && (
+                        <p className="text-xs text-text-secondary line-clamp-2">{preset.description}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* LUT */}
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-medium">3D LUT</h2>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-surface border border-border rounded-lg hover:bg-background disabled:opacity-50"
+              >
+                {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                上传 .cube
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".cube"
+                className="hidden"
+                aria-label="选择 LUT 文件"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleUploadLut(file)
+                }}
+              />
+            </div>
+            {luts.length === 0 ? (
+              <div className="bg-surface rounded-lg border border-border p-6 text-center">
+                <p className="text-text-muted text-sm">
+                  还没有上传 LUT。支持 Lightroom、DaVinci Resolve 等导出的 3D LUT（.cube，最大 65³）
+                </p>
+              </div>
+            ) : (
+              <div className="bg-surface rounded-lg border border-border divide-y divide-border">
+                {luts.map((lut) => (
+                  <div key={lut.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{lut.name}</p>
+                      <p className="text-xs text-text-muted">
+                        {lut.lut_size}³ · {formatFileSize(lut.file_size)} · {formatRelativeTime(lut.created_at)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setDeletingLut(lut)}
+                      className="p-2 hover:bg-background rounded-lg transition-colors"
+                      title="删除"
+                    >
+                      <Trash2 className="w-4 h-4 text-text-secondary" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+
+      <StylePresetDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        preset={editing}
+        luts={luts}
+        onSuccess={loadData}
+      />
+
+      {/* 删除确认 */}
+      {deletingPreset && (
+        <ConfirmDialog
+          open
+          onOpenChange={(open) => !open && setDeletingPreset(null)}
+          title="删除风格预设"
+          message={`确定要删除「${deletingPreset.name}」吗？仍在使用该预设的相册之后处理的照片将不再应用风格，已处理的照片不受影响。`}
+          variant="danger"
+          onConfirm={async () => {
+            await handleDelete(`/api/admin/style-presets/${deletingPreset.id}`, '风格预设已删除')
+            setDeletingPreset(null)
+          }}
+        />
+      )}
+
+      {deletingLut && (
+        <ConfirmDialog
+          open
+          onOpenChange={(open) => !open && setDeletingLut(null)}
+          title="删除 LUT"
+          message={`确定要删除「${deletingLut.name}」吗？使用它的预设会保留其余调色参数。`}
+          variant="danger"
+          onConfirm={async () => {
+            await handleDelete(`/api/admin/style-presets/luts/${deletingLut.id}`, 'LUT 已删除')
+            setDeletingLut(null)
+          }}
+        />
+      )}
+    </div>
+  )
+}
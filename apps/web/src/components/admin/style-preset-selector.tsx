@@ -2,8 +2,9 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import Image from 'next/image'
+import Link from 'next/link'
 import { Check } from 'lucide-react'
-import { getStylePresetCSSFilter } from '@/lib/style-preset-utils'
+import { getStylePresetPreviewUrl } from '@/lib/style-preset-utils'
 
 export interface StylePreset {
   id: string
@@ -11,19 +12,27 @@ export interface StylePreset {
   category: 'portrait' | 'landscape' | 'general'
   description: string
   cssFilter?: string
+  custom?: boolean  // 修图师创建的自定义预设
+  updatedAt?: string
 }
 
 interface StylePresetSelectorProps {
   value: string | null  // 预设 ID 或 null（无风格）
   onChange: (presetId: string | null) => void
-  previewImage?: string  // 用于预览的示例图片 URL
+  albumId?: string  // 使用相册封面作为预览底图，未指定时使用示例图
   className?: string
 }
 
+/**
+ * 风格预设选择器
+ *
+ * @description 预览图由 Worker 按照片处理的真实管线渲染（包括 LUT、白平衡、曲线等），
+ * 与最终处理结果一致
+ */
 export function StylePresetSelector({
   value,
   onChange,
-  previewImage,
+  albumId,
   className = '',
 }: StylePresetSelectorProps) {
   const [presets, setPresets] = useState<StylePreset[]>([])
@@ -51,19 +60,19 @@ export function StylePresetSelector({
     loadPresets()
   }, [])
 
-  // 按分类分组预设
+  // 自定义预设单独一组，内置预设按分类分组
   const presetsByCategory = useMemo(() => {
-    const portrait = presets.filter(p => p.category === 'portrait')
-    const landscape = presets.filter(p => p.category === 'landscape')
-    const general = presets.filter(p => p.category === 'general')
-    return { portrait, landscape, general }
+    const builtIn = presets.filter(p => !p.custom)
+    const custom = presets.filter(p => p.custom)
+    const portrait = builtIn.filter(p => p.category === 'portrait')
+    const landscape = builtIn.filter(p => p.category === 'landscape')
+    const general = builtIn.filter(p => p.category === 'general')
+    return { custom, portrait, landscape, general }
   }, [presets])
 
-  // 获取当前选择的预设 CSS 滤镜
-  const currentFilter = useMemo(() => {
-    const filter = getStylePresetCSSFilter(value ? { preset: value } : null)
-    return filter
-  }, [value])
+  const selectedPreset = presets.find(p => p.id === value)
+  const previewUrl = (preset: StylePreset | null) =>
+    getStylePresetPreviewUrl(preset?.id ?? null, { albumId, version: preset?.updatedAt })
 
   if (loading) {
     return (
@@ -98,6 +107,33 @@ export function StylePresetSelector({
         </button>
       </div>
 
+      {/* 自定义风格 */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-text-secondary">自定义风格</h3>
+          <Link href="/admin/style-presets" className="text-xs text-primary hover:underline">
+            管理自定义风格
+          </Link>
+        </div>
+        {presetsByCategory.custom.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
+            {presetsByCategory.custom.map(preset => (
+              <PresetCard
+                key={preset.id}
+                preset={preset}
+                selected={value === preset.id}
+                onSelect={() => onChange(preset.id)}
+                previewImage={previewUrl(preset)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-text-muted">
+            还没有自定义风格，可以上传 .cube LUT 并保存自己的调色参数
+          </p>
+        )}
+      </div>
+
       {/* 人物风格 */}
       {presetsByCategory.portrait.length > 0 && (
         <div>
@@ -109,7 +145,7 @@ export function StylePresetSelector({
                 preset={preset}
                 selected={value === preset.id}
                 onSelect={() => onChange(preset.id)}
-                previewImage={previewImage}
+                previewImage={previewUrl(preset)}
               />
             ))}
           </div>
@@ -127,7 +163,7 @@ export function StylePresetSelector({
                 preset={preset}
                 selected={value === preset.id}
                 onSelect={() => onChange(preset.id)}
-                previewImage={previewImage}
+                previewImage={previewUrl(preset)}
               />
             ))}
           </div>
@@ -145,7 +181,7 @@ export function StylePresetSelector({
                 preset={preset}
                 selected={value === preset.id}
                 onSelect={() => onChange(preset.id)}
-                previewImage={previewImage}
+                previewImage={previewUrl(preset)}
               />
             ))}
           </div>
@@ -153,66 +189,60 @@ export function StylePresetSelector({
       )}
 
       {/* 实时预览 */}
-      {previewImage && (
-        <div>
-          <h3 className="text-sm font-medium text-text-secondary mb-3">实时预览</h3>
-          <div className="grid grid-cols-2 gap-3 sm:gap-4">
-            <div>
-              <div className="text-xs text-text-muted mb-2">原图</div>
-              <div
-                className="relative aspect-video bg-surface rounded-lg overflow-hidden border border-border touch-manipulation select-none"
-                onMouseDown={() => setShowOriginal(true)}
-                onMouseUp={() => setShowOriginal(false)}
-                onMouseLeave={() => setShowOriginal(false)}
-                onTouchStart={() => setShowOriginal(true)}
-                onTouchEnd={() => setShowOriginal(false)}
-                role="button"
-                tabIndex={0}
-                aria-label="长按查看原图"
-              >
-                <Image
-                  src={previewImage}
-                  alt="原图"
-                  fill
-                  className="object-cover"
-                  sizes="(max-width: 640px) 50vw, 25vw"
-                  unoptimized
-                />
-                {showOriginal && (
-                  <div className="absolute top-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
-                    原图
-                  </div>
-                )}
-              </div>
+      <div>
+        <h3 className="text-sm font-medium text-text-secondary mb-3">实时预览</h3>
+        <div className="grid grid-cols-2 gap-3 sm:gap-4">
+          <div>
+            <div className="text-xs text-text-muted mb-2">原图</div>
+            <div
+              className="relative aspect-video bg-surface rounded-lg overflow-hidden border border-border touch-manipulation select-none"
+              onMouseDown={() => setShowOriginal(true)}
+              onMouseUp={() => setShowOriginal(false)}
+              onMouseLeave={() => setShowOriginal(false)}
+              onTouchStart={() => setShowOriginal(true)}
+              onTouchEnd={() => setShowOriginal(false)}
+              role="button"
+              tabIndex={0}
+              aria-label="长按查看原图"
+            >
+              <Image
+                src={previewUrl(null)}
+                alt="原图"
+                fill
+                className="object-cover"
+                sizes="(max-width: 640px) 50vw, 25vw"
+                unoptimized
+              />
+              {showOriginal && (
+                <div className="absolute top-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
+                  原图
+                </div>
+              )}
             </div>
-            <div>
-              <div className="text-xs text-text-muted mb-2">调色后</div>
-              <div className="relative aspect-video bg-surface rounded-lg overflow-hidden border border-border">
-                <Image
-                  src={previewImage}
-                  alt="调色后"
-                  fill
-                  className="object-cover"
-                  sizes="(max-width: 640px) 50vw, 25vw"
-                  style={{
-                    filter: currentFilter,
-                    transition: 'filter 0.2s ease-out',
-                  }}
-                  unoptimized
-                />
-                {value && (
-                  <div className="absolute top-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
-                    {presets.find(p => p.id === value)?.name || '已选择'}
-                  </div>
-                )}
-              </div>
+          </div>
+          <div>
+            <div className="text-xs text-text-muted mb-2">调色后</div>
+            <div className="relative aspect-video bg-surface rounded-lg overflow-hidden border border-border">
+              <Image
+                src={showOriginal ? previewUrl(null) : previewUrl(selectedPreset ?? null)}
+                alt="调色后"
+                fill
+                className="object-cover"
+                sizes="(max-width: 640px) 50vw, 25vw"
+                unoptimized
+              />
+              {value && (
+                <div className="absolute top-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
+                  {selectedPreset?.name || '已选择'}
+                </div>
+              )}
             </div>
           </div>
-          <p className="text-xs text-text-muted mt-2 text-center sm:text-left">
-            💡 长按左侧原图可对比效果
-          </p>
         </div>
-      )}
+        <p className="text-xs text-text-muted mt-2 text-center sm:text-left">
+          💡 长按左侧原图可对比效果{!albumId && '（当前为示例图）'}
+        </p>
+      </div>
     </div>
   )
 }
@@ -226,10 +256,8 @@ function PresetCard({
   preset: StylePreset
   selected: boolean
   onSelect: () => void
-  previewImage?: string
+  previewImage: string
 }) {
-  const presetFilter = preset.cssFilter || 'none'
-  
   return (
     <button
       type="button"
@@ -242,38 +270,24 @@ function PresetCard({
     >
       {/* 垂直布局：预览图在上，名称和描述在下 */}
       <div className="flex flex-col">
-        {/* 预览图 */}
-        {previewImage ? (
-          <div className="relative w-full aspect-square rounded-t overflow-hidden border-b border-border bg-surface">
-            <Image
-              src={previewImage}
-              alt={preset.name}
-              fill
-              className="object-cover"
-              sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 20vw"
-              style={{
-                filter: presetFilter,
-                transition: 'filter 0.2s ease-out',
-              }}
-              unoptimized
-            />
-            {/* 选中标记 */}
-            {selected && (
-              <div className="absolute top-1.5 right-1.5 bg-primary text-primary-foreground rounded-full p-1 shadow-lg">
-                <Check className="w-3 h-3" />
-              </div>
-            )}
-          </div>
-        ) : (
-          <div className="relative w-full aspect-square rounded-t bg-surface border-b border-border flex items-center justify-center">
-            <div className="text-xs text-text-muted text-center px-2">无预览</div>
-            {selected && (
-              <div className="absolute top-1.5 right-1.5 bg-primary text-primary-foreground rounded-full p-1 shadow-lg">
-                <Check className="w-3 h-3" />
-              </div>
-            )}
-          </div>
-        )}
+        {/* 预览图（服务端渲染，懒加载避免一次请求全部预设） */}
+        <div className="relative w-full aspect-square rounded-t overflow-hidden border-b border-border bg-surface">
+          <Image
+            src={previewImage}
+            alt={preset.name}
+            fill
+            className="object-cover"
+            sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 20vw"
+            loading="lazy"
+            unoptimized
+          />
+          {/* 选中标记 */}
+          {selected && (
+            <div className="absolute top-1.5 right-1.5 bg-primary text-primary-foreground rounded-full p-1 shadow-lg">
+              <Check className="w-3 h-3" />
+            </div>
+          )}
+        </div>
         
         {/* 名称和描述 */}
         <div className="p-2 space-y-0.5">
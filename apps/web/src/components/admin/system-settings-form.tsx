@@ -0,0 +1,405 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, Save, Upload, ImageIcon, Palette, FolderPlus, ToggleRight, HardDrive } from 'lucide-react'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import type { SystemSettings } from '@/lib/system-settings-defaults'
+
+interface SystemSettingsFormProps {
+  initialSettings: SystemSettings
+}
+
+type AssetType = 'logo' | 'favicon'
+
+/** 相册默认选项中的开关字段 */
+type AlbumDefaultToggle = 'is_public' | 'allow_download' | 'allow_batch_download' | 'show_exif' | 'watermark_enabled'
+
+const ALBUM_DEFAULT_TOGGLES: Array<{ key: AlbumDefaultToggle; label: string; description: string }> = [
+  { key: 'is_public', label: '公开到首页', description: '新相册默认出现在首页作品集' },
+  { key: 'allow_download', label: '允许下载', description: '访客可以下载单张照片' },
+  { key: 'allow_batch_download', label: '允许批量下载', description: '访客可以一次下载多张照片' },
+  { key: 'show_exif', label: '显示 EXIF', description: '查看照片时显示相机和拍摄参数' },
+  { key: 'watermark_enabled', label: '启用水印', description: '新相册默认开启水印' },
+]
+
+const FEATURE_TOGGLES: Array<{ key: keyof SystemSettings['features']; label: string; description: string }> = [
+  { key: 'home_gallery', label: '首页相册展示', description: '关闭后首页不再列出公开相册' },
+  { key: 'face_search', label: '人脸搜索', description: '访客可以上传自拍在相册中找自己' },
+  { key: 'analytics', label: '访问统计', description: '记录相册浏览、下载和分享等访问数据' },
+  { key: 'download_fingerprint', label: '下载指纹', description: '下载的照片中嵌入不可见指纹，外泄后可追查来源（原图会重新编码）' },
+]
+
+const STORAGE_QUOTA_FIELDS: Array<{ key: 'album_quota_gb' | 'user_quota_gb'; label: string; description: string }> = [
+  { key: 'album_quota_gb', label: '单个相册配额 (GB)', description: '包括原图、缩略图、预览图和打包下载' },
+  { key: 'user_quota_gb', label: '每个用户配额 (GB)', description: '相册所有者名下全部相册的总和' },
+]
+
+/**
+ * 系统设置表单（品牌、相册默认选项、功能开关、存储配额）
+ *
+ * 保存后服务端缓存立即失效，首页、相册页和页脚无需重新部署即可看到新设置
+ */
+export function SystemSettingsForm({ initialSettings }: SystemSettingsFormProps) {
+  const router = useRouter()
+  const [settings, setSettings] = useState<SystemSettings>(initialSettings)
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState<AssetType | null>(null)
+  const logoInputRef = useRef<HTMLInputElement>(null)
+  const faviconInputRef = useRef<HTMLInputElement>(null)
+
+  const updateBranding = (field: keyof SystemSettings['branding'], value: string) => {
+    setSettings((prev) => ({ ...prev, branding: { ...prev.branding, [field]: value } }))
+  }
+
+  const updateAlbumDefaults = <K extends keyof SystemSettings['album_defaults']>(
+    field: K,
+    value: SystemSettings['album_defaults'][K]
+  ) => {
+    setSettings((prev) => ({ ...prev, album_defaults: { ...prev.album_defaults, [field]: value } }))
+  }
+
+  const updateFeature = (field: keyof SystemSettings['features'], value: boolean) => {
+    setSettings((prev) => ({ ...prev, features: { ...prev.features, [field]: value } }))
+  }
+
+  const updateStorage = (field: keyof SystemSettings['storage'], value: number) => {
+    setSettings((prev) => ({ ...prev, storage: { ...prev.storage, [field]: value } }))
+  }
+
+  const handleUpload = async (type: AssetType, file: File | undefined) => {
+    if (!file) return
+
+    setUploading(type)
+    try {
+      const formData = new FormData()
+      formData.append('type', type)
+      formData.append('file', file)
+
+      const response = await fetch('/api/admin/settings/assets', {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '上传失败')
+      }
+
+      updateBranding(type === 'logo' ? 'logo_url' : 'favicon_url', data.data.url)
+      showSuccess('上传成功，保存设置后生效')
+    } catch (error) {
+      handleApiError(error, '上传图片失败')
+    } finally {
+      setUploading(null)
+      if (logoInputRef.current) logoInputRef.current.value = ''
+      if (faviconInputRef.current) faviconInputRef.current.value = ''
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/admin/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '保存失败')
+      }
+
+      setSettings(data.data)
+      showSuccess('系统设置已保存')
+      // 重新渲染服务端组件（页脚、Logo 等品牌信息来自根布局）
+      router.refresh()
+    } catch (error) {
+      handleApiError(error, '保存系统设置失败')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderToggle = (checked: boolean, onChange: (value: boolean) => void, label: string) => (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={`relative rounded-full transition-colors shrink-0 min-h-[44px] min-w-[44px] md:min-h-0 md:min-w-0 flex items-center justify-center ${
+        checked ? 'bg-accent' : 'bg-surface-elevated'
+      } w-12 h-7 md:w-11 md:h-6`}
+    >
+      <div className={`absolute top-[2px] left-[2px] w-6 h-6 md:w-5 md:h-5 bg-white rounded-full transition-transform ${
+        checked ? 'translate-x-5 md:translate-x-5' : 'translate-x-0'
+      }`} />
+    </button>
+  )
+
+  const renderAssetField = (type: AssetType, label: string, hint: string) => {
+    const field = type === 'logo' ? 'logo_url' : 'favicon_url'
+    const inputRef = type === 'logo' ? logoInputRef : faviconInputRef
+    const value = settings.branding[field]
+
+    return (
+      <div>
+        <label htmlFor={`settings-${field}`} className="block text-sm font-medium text-text-secondary mb-2">
+          {label}
+        </label>
+        <div className="flex items-center gap-3">
+          <div className="w-11 h-11 rounded-lg bg-surface border border-border flex items-center justify-center overflow-hidden shrink-0">
+            {value ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={value} alt="" className="w-full h-full object-contain" />
+            ) : (
+              <ImageIcon className="w-5 h-5 text-text-muted" />
+            )}
+          </div>
+          <input
+            id={`settings-${field}`}
+            type="text"
+            value={value}
+            onChange={(e) => updateBranding(field, e.target.value)}
+            placeholder={hint}
+            className="input flex-1"
+          />
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp,image/x-icon,.ico"
+            className="hidden"
+            onChange={(e) => handleUpload(type, e.target.files?.[0])}
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading !== null}
+            className="btn-secondary flex items-center gap-2 shrink-0"
+          >
+            {uploading === type ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            上传
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      {/* 品牌 */}
+      <section className="space-y-4">
+        <h3 className="font-medium flex items-center gap-2">
+          <Palette className="w-4 h-4 text-accent" />
+          品牌
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="settings-studio_name" className="block text-sm font-medium text-text-secondary mb-2">
+              摄影师/工作室名称
+            </label>
+            <input
+              id="settings-studio_name"
+              type="text"
+              value={settings.branding.studio_name}
+              onChange={(e) => updateBranding('studio_name', e.target.value)}
+              maxLength={100}
+              required
+              className="input"
+            />
+          </div>
+          <div>
+            <label htmlFor="settings-tagline" className="block text-sm font-medium text-text-secondary mb-2">
+              品牌标语
+            </label>
+            <input
+              id="settings-tagline"
+              type="text"
+              value={settings.branding.tagline}
+              onChange={(e) => updateBranding('tagline', e.target.value)}
+              placeholder="专业活动摄影"
+              maxLength={200}
+              className="input"
+            />
+          </div>
+        </div>
+        {renderAssetField('logo', 'Logo', '留空使用默认图标')}
+        {renderAssetField('favicon', 'Favicon', '留空使用默认 favicon.ico')}
+        <p className="text-xs text-text-muted">支持 PNG、JPEG、WebP、ICO，最大 2MB</p>
+        <div>
+          <label htmlFor="settings-copyright_text" className="block text-sm font-medium text-text-secondary mb-2">
+            页脚版权文字
+          </label>
+          <input
+            id="settings-copyright_text"
+            type="text"
+            value={settings.branding.copyright_text}
+            onChange={(e) => updateBranding('copyright_text', e.target.value)}
+            placeholder="留空使用工作室名称"
+            maxLength={200}
+            className="input"
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="settings-icp_number" className="block text-sm font-medium text-text-secondary mb-2">
+              ICP 备案号
+            </label>
+            <input
+              id="settings-icp_number"
+              type="text"
+              value={settings.branding.icp_number}
+              onChange={(e) => updateBranding('icp_number', e.target.value)}
+              placeholder="京ICP备12345678号"
+              maxLength={100}
+              className="input"
+            />
+          </div>
+          <div>
+            <label htmlFor="settings-police_number" className="block text-sm font-medium text-text-secondary mb-2">
+              公安备案号
+            </label>
+            <input
+              id="settings-police_number"
+              type="text"
+              value={settings.branding.police_number}
+              onChange={(e) => updateBranding('police_number', e.target.value)}
+              placeholder="京公网安备11010502012345号"
+              maxLength={100}
+              className="input"
+            />
+          </div>
+        </div>
+      </section>
+
+      {/* 相册默认选项 */}
+      <section className="space-y-4">
+        <h3 className="font-medium flex items-center gap-2">
+          <FolderPlus className="w-4 h-4 text-accent" />
+          新建相册默认选项
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="settings-layout" className="block text-sm font-medium text-text-secondary mb-2">
+              默认布局
+            </label>
+            <select
+              id="settings-layout"
+              value={settings.album_defaults.layout}
+              onChange={(e) => updateAlbumDefaults('layout', e.target.value as SystemSettings['album_defaults']['layout'])}
+              className="input"
+            >
+              <option value="masonry">瀑布流 (Masonry)</option>
+              <option value="grid">网格 (Grid)</option>
+              <option value="carousel">轮播 (Carousel)</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="settings-sort_rule" className="block text-sm font-medium text-text-secondary mb-2">
+              默认排序
+            </label>
+            <select
+              id="settings-sort_rule"
+              value={settings.album_defaults.sort_rule}
+              onChange={(e) => updateAlbumDefaults('sort_rule', e.target.value as SystemSettings['album_defaults']['sort_rule'])}
+              className="input"
+            >
+              <option value="capture_desc">拍摄时间倒序 (最新在前)</option>
+              <option value="capture_asc">拍摄时间正序 (最旧在前)</option>
+              <option value="manual">手动排序</option>
+            </select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {ALBUM_DEFAULT_TOGGLES.map(({ key, label, description }) => (
+            <div key={key} className="flex items-center justify-between p-3 bg-surface rounded-lg border border-border">
+              <div className="flex-1 pr-4">
+                <p className="font-medium text-sm">{label}</p>
+                <p className="text-xs text-text-muted">{description}</p>
+              </div>
+              {renderToggle(settings.album_defaults[key], (value) => updateAlbumDefaults(key, value), label)}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* 功能开关 */}
+      <section className="space-y-4">
+        <h3 className="font-medium flex items-center gap-2">
+          <ToggleRight className="w-4 h-4 text-accent" />
+          功能开关
+        </h3>
+        <div className="space-y-2">
+          {FEATURE_TOGGLES.map(({ key, label, description }) => (
+            <div key={key} className="flex items-center justify-between p-3 bg-surface rounded-lg border border-border">
+              <div className="flex-1 pr-4">
+                <p className="font-medium text-sm">{label}</p>
+                <p className="text-xs text-text-muted">{description}</p>
+              </div>
+              {renderToggle(settings.features[key], (value) => updateFeature(key, value), label)}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* 存储配额 */}
+      <section className="space-y-4">
+        <h3 className="font-medium flex items-center gap-2">
+          <HardDrive className="w-4 h-4 text-accent" />
+          存储配额
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {STORAGE_QUOTA_FIELDS.map(({ key, label, description }) => (
+            <div key={key}>
+              <label htmlFor={`settings-${key}`} className="block text-sm font-medium text-text-secondary mb-2">
+                {label}
+              </label>
+              <input
+                id={`settings-${key}`}
+                type="number"
+                min={0}
+                step="any"
+                value={settings.storage[key]}
+                onChange={(e) => updateStorage(key, Number(e.target.value) || 0)}
+                className="input"
+              />
+              <p className="text-xs text-text-muted mt-1">{description}，0 表示不限制</p>
+            </div>
+          ))}
+          <div>
+            <label htmlFor="settings-warning_percent" className="block text-sm font-medium text-text-secondary mb-2">
+              提醒阈值 (%)
+            </label>
+            <input
+              id="settings-warning_percent"
+              type="number"
+              min={1}
+              max={100}
+              step={1}
+              value={settings.storage.warning_percent}
+              onChange={(e) => updateStorage('warning_percent', Math.round(Number(e.target.value)) || 0)}
+              required
+              className="input"
+            />
+            <p className="text-xs text-text-muted mt-1">用量达到配额的该比例时，上传时提醒</p>
+          </div>
+        </div>
+      </section>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving || uploading !== null}
+          className="btn-primary flex items-center gap-2 min-w-[120px] justify-center"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          保存设置
+        </button>
+      </div>
+    </form>
+  )
+}
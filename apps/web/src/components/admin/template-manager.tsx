@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 // useRouter removed as it's not used
 import { Plus, Trash2, Edit2, Loader2, FileText } from 'lucide-react'
 import type { AlbumTemplate } from '@/types/database'
+import { ClientSelect } from './client-select'
 import {
   Dialog,
   DialogContent,
@@ -30,6 +31,7 @@ export function TemplateManager() {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
+    client_id: '',
   })
 
   useEffect(() => {
@@ -72,12 +74,13 @@ export function TemplateManager() {
           allow_batch_download: true,
           show_exif: true,
           watermark_enabled: false,
+          settings: { client_id: formData.client_id || null },
         }),
       })
 
       if (res.ok) {
         setShowCreateDialog(false)
-        setFormData({ name: '', description: '' })
+        setFormData({ name: '', description: '', client_id: '' })
         showSuccess('模板创建成功')
         loadTemplates()
       } else {
@@ -120,6 +123,7 @@ export function TemplateManager() {
     setFormData({
       name: template.name,
       description: template.description || '',
+      client_id: template.client_id || '',
     })
     setShowCreateDialog(true)
   }
@@ -137,13 +141,14 @@ export function TemplateManager() {
         body: JSON.stringify({
           name: formData.name.trim(),
           description: formData.description.trim() || null,
+          settings: { client_id: formData.client_id || null },
         }),
       })
 
       if (res.ok) {
         setShowCreateDialog(false)
         setEditingTemplate(null)
-        setFormData({ name: '', description: '' })
+        setFormData({ name: '', description: '', client_id: '' })
         showSuccess('模板已更新')
         loadTemplates()
       } else {
@@ -158,7 +163,7 @@ export function TemplateManager() {
   const handleCloseDialog = () => {
     setShowCreateDialog(false)
     setEditingTemplate(null)
-    setFormData({ name: '', description: '' })
+    setFormData({ name: '', description: '', client_id: '' })
   }
 
   if (loading) {
@@ -279,6 +284,19 @@ export function TemplateManager() {
               />
             </div>
 
+            <div>
+              <label htmlFor="template-client" className="block text-sm font-medium text-text-secondary mb-2">
+                默认客户
+              </label>
+              <ClientSelect
+                id="template-client"
+                value={formData.client_id}
+                onChange={(clientId) => setFormData({ ...formData, client_id: clientId })}
+                className="input"
+              />
+              <p className="text-xs text-text-muted mt-1">使用该模板创建相册时自动选择此客户（可选）</p>
+            </div>
+
             <div className="text-sm text-text-muted bg-surface p-3 rounded-lg">
               <p className="font-medium mb-1">提示：</p>
               <p>
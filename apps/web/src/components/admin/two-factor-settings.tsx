@@ -0,0 +1,240 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2, ShieldCheck, ShieldOff } from 'lucide-react'
+import { QRCodeSVG } from 'qrcode.react'
+import { RecoveryCodes } from '@/components/auth/recovery-codes'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+/**
+ * 当前用户的两步验证设置：绑定/关闭验证器、重新生成恢复码
+ */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [mode, setMode] = useState<'idle' | 'disable' | 'regenerate'>('idle')
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor')
+      const data = await response.json()
+      if (response.ok) {
+        setStatus(data.data)
+      } else {
+        setError(data.error?.message || '获取两步验证状态失败')
+      }
+    } catch {
+      setError('获取两步验证状态失败')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const resetForm = () => {
+    setMode('idle')
+    setCode('')
+    setPassword('')
+    setError('')
+  }
+
+  // 通用请求：失败时显示错误并返回 null
+  const post = async (url: string, body: unknown) => {
+    setLoading(true)
+    setError('')
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error?.message || '操作失败，请重试')
+        return null
+      }
+      return data.data
+    } catch {
+      setError('操作失败，请重试')
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleStartSetup = async () => {
+    setRecoveryCodes(null)
+    const result = await post('/api/auth/two-factor/setup', {})
+    if (result) {
+      setSetup(result)
+      setCode('')
+    }
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await post('/api/auth/two-factor/enable', { code: code.trim() })
+    if (result) {
+      setSetup(null)
+      setRecoveryCodes(result.recoveryCodes)
+      resetForm()
+      await loadStatus()
+    }
+  }
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await post('/api/auth/two-factor/disable', { password, code: code.trim() })
+    if (result) {
+      resetForm()
+      setRecoveryCodes(null)
+      await loadStatus()
+    }
+  }
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await post('/api/auth/two-factor/recovery-codes', { code: code.trim() })
+    if (result) {
+      setRecoveryCodes(result.recoveryCodes)
+      resetForm()
+      await loadStatus()
+    }
+  }
+
+  if (!status) {
+    return error ? (
+      <p className="text-sm text-red-400">{error}</p>
+    ) : (
+      <Loader2 className="w-5 h-5 animate-spin text-text-muted" />
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        {status.enabled ? (
+          <ShieldCheck className="w-5 h-5 text-green-400" />
+        ) : (
+          <ShieldOff className="w-5 h-5 text-text-muted" />
+        )}
+        <div>
+          <p className="font-medium">{status.enabled ? '已启用' : '未启用'}</p>
+          <p className="text-xs text-text-muted">
+            {status.enabled
+              ? `剩余 ${status.recoveryCodesRemaining} 个恢复码`
+              : '登录时除密码外还需要输入验证器 App 中的验证码'}
+            {status.required && '（当前角色必须启用）'}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+      {!status.enabled && !setup && (
+        <button type="button" onClick={handleStartSetup} disabled={loading} className="btn-primary w-full">
+          {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+          启用两步验证
+        </button>
+      )}
+
+      {!status.enabled && setup && (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <div className="space-y-3 text-center">
+            <div className="inline-block p-3 bg-white rounded-lg">
+              <QRCodeSVG value={setup.otpauthUrl} size={180} />
+            </div>
+            <p className="text-xs text-text-muted">
+              使用验证器 App 扫描二维码，或手动输入密钥：
+              <span className="font-mono break-all select-all text-text-secondary">{setup.secret}</span>
+            </p>
+          </div>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="input text-center tracking-widest"
+            placeholder="6 位验证码"
+            required
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setSetup(null)} className="btn-secondary flex-1">
+              取消
+            </button>
+            <button type="submit" disabled={loading} className="btn-primary flex-1">
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              确认启用
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status.enabled && mode === 'idle' && (
+        <div className="flex gap-2">
+          <button type="button" onClick={() => setMode('regenerate')} className="btn-secondary flex-1">
+            重新生成恢复码
+          </button>
+          {!status.required && (
+            <button type="button" onClick={() => setMode('disable')} className="btn-secondary flex-1">
+              关闭两步验证
+            </button>
+          )}
+        </div>
+      )}
+
+      {status.enabled && mode !== 'idle' && (
+        <form onSubmit={mode === 'disable' ? handleDisable : handleRegenerate} className="space-y-4">
+          {mode === 'disable' && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input"
+              placeholder="当前密码"
+              autoComplete="current-password"
+              required
+            />
+          )}
+          <input
+            type="text"
+            inputMode={mode === 'disable' ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="input text-center tracking-widest"
+            placeholder={mode === 'disable' ? '验证码或恢复码' : '6 位验证码'}
+            required
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={resetForm} className="btn-secondary flex-1">
+              取消
+            </button>
+            <button type="submit" disabled={loading} className="btn-primary flex-1">
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {mode === 'disable' ? '确认关闭' : '生成新恢复码'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
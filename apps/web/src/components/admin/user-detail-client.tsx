@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { ArrowLeft, Mail, Shield, Save, RefreshCw, Loader2, Trash2, CheckCircle2, XCircle } from 'lucide-react'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { UserSecurityPanel } from './user-security-panel'
 import { showSuccess, handleApiError } from '@/lib/toast'
 import { formatRelativeTime } from '@/lib/utils'
 
@@ -284,6 +285,9 @@ export function UserDetailClient({ user: initialUser }: UserDetailClientProps) {
         </div>
       </div>
 
+      {/* 两步验证、登录会话和登录历史 */}
+      <UserSecurityPanel userId={user.id} email={user.email} />
+
       {/* 确认对话框 */}
       {confirmDialog && (
         <ConfirmDialog
@@ -0,0 +1,280 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2, LogOut, Monitor, ShieldCheck, ShieldOff, CheckCircle2, XCircle } from 'lucide-react'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { formatRelativeTime } from '@/lib/utils'
+
+interface SessionItem {
+  id: string
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+  last_used_at: string
+  expires_at: string
+  current: boolean
+}
+
+interface LoginHistoryItem {
+  id: string
+  success: boolean
+  method: 'password' | 'totp' | 'recovery_code'
+  failure_reason: string | null
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface UserSecurityPanelProps {
+  userId: string
+  email: string
+}
+
+const methodLabels: Record<LoginHistoryItem['method'], string> = {
+  password: '密码',
+  totp: '验证码',
+  recovery_code: '恢复码',
+}
+
+const failureLabels: Record<string, string> = {
+  unknown_user: '用户不存在',
+  invalid_password: '密码错误',
+  invalid_two_factor_code: '验证码错误',
+}
+
+/**
+ * 用户安全信息：两步验证状态、登录会话和登录历史
+ */
+export function UserSecurityPanel({ userId, email }: UserSecurityPanelProps) {
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
+  const [sessions, setSessions] = useState<SessionItem[]>([])
+  const [history, setHistory] = useState<LoginHistoryItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [confirmDialog, setConfirmDialog] = useState<{
+    title: string
+    message: string
+    onConfirm: () => Promise<void>
+  } | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const [twoFactorRes, sessionsRes, historyRes] = await Promise.all([
+        fetch(`/api/admin/users/${userId}/two-factor`),
+        fetch(`/api/admin/users/${userId}/sessions`),
+        fetch(`/api/admin/users/${userId}/login-history`),
+      ])
+      const [twoFactorData, sessionsData, historyData] = await Promise.all([
+        twoFactorRes.json(),
+        sessionsRes.json(),
+        historyRes.json(),
+      ])
+      if (!twoFactorRes.ok || !sessionsRes.ok || !historyRes.ok) {
+        throw new Error(
+          twoFactorData.error?.message || sessionsData.error?.message || historyData.error?.message || '加载失败'
+        )
+      }
+      setTwoFactor(twoFactorData.data)
+      setSessions(sessionsData.data.sessions)
+      setHistory(historyData.data.entries)
+    } catch (error) {
+      handleApiError(error, '加载安全信息失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const request = async (id: string, url: string, successMessage: string) => {
+    setPendingId(id)
+    try {
+      const response = await fetch(url, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error?.message || '操作失败')
+      }
+      showSuccess(successMessage)
+      await load()
+    } catch (error) {
+      handleApiError(error, '操作失败')
+    } finally {
+      setPendingId(null)
+      setConfirmDialog(null)
+    }
+  }
+
+  const handleRevokeSession = (session: SessionItem) => {
+    setConfirmDialog({
+      title: '吊销会话',
+      message: `确定要让该设备（${session.ip_address || '未知 IP'}）退出登录吗？`,
+      onConfirm: () =>
+        request(session.id, `/api/admin/users/${userId}/sessions/${session.id}`, '会话已吊销'),
+    })
+  }
+
+  const handleRevokeAll = () => {
+    setConfirmDialog({
+      title: '吊销全部会话',
+      message: `确定要让用户 "${email}" 在所有设备上退出登录吗？`,
+      onConfirm: () => request('all', `/api/admin/users/${userId}/sessions`, '已吊销全部会话'),
+    })
+  }
+
+  const handleResetTwoFactor = () => {
+    setConfirmDialog({
+      title: '重置两步验证',
+      message: `确定要清除用户 "${email}" 的验证器绑定和恢复码吗？用户的所有会话将被吊销，需要重新登录${
+        twoFactor?.required ? '并重新绑定验证器' : ''
+      }。`,
+      onConfirm: () => request('two-factor', `/api/admin/users/${userId}/two-factor`, '两步验证已重置'),
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-surface rounded-lg border border-border p-6">
+        <Loader2 className="w-5 h-5 animate-spin text-text-muted" />
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {/* 两步验证和登录会话 */}
+      <div className="bg-surface rounded-lg border border-border p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            {twoFactor?.enabled ? (
+              <ShieldCheck className="w-5 h-5 text-green-400" />
+            ) : (
+              <ShieldOff className="w-5 h-5 text-text-muted" />
+            )}
+            <div>
+              <h2 className="text-lg font-semibold">两步验证</h2>
+              <p className="text-sm text-text-muted">
+                {twoFactor?.enabled
+                  ? `已启用，剩余 ${twoFactor.recoveryCodesRemaining} 个恢复码`
+                  : twoFactor?.required
+                    ? '未启用（下次登录时需要绑定）'
+                    : '未启用'}
+              </p>
+            </div>
+          </div>
+          {twoFactor?.enabled && (
+            <button
+              onClick={handleResetTwoFactor}
+              disabled={pendingId !== null}
+              className="btn-secondary"
+            >
+              重置
+            </button>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold">登录会话</h2>
+            {sessions.length > 0 && (
+              <button
+                onClick={handleRevokeAll}
+                disabled={pendingId !== null}
+                className="btn-secondary"
+              >
+                <LogOut className="w-4 h-4" />
+                <span>全部退出</span>
+              </button>
+            )}
+          </div>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-text-muted">没有有效的登录会话</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {sessions.map((session) => (
+                <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Monitor className="w-4 h-4 mt-0.5 text-text-muted flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm text-text-primary truncate">
+                        {session.user_agent || '未知设备'}
+                        {session.current && <span className="ml-2 text-xs text-accent">（当前会话）</span>}
+                      </p>
+                      <p className="text-xs text-text-muted">
+                        {session.ip_address || '未知 IP'} · 最近活动 {formatRelativeTime(session.last_used_at)} · 登录于{' '}
+                        {formatRelativeTime(session.created_at)}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <button
+                      onClick={() => handleRevokeSession(session)}
+                      disabled={pendingId !== null}
+                      className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50 flex-shrink-0"
+                    >
+                      {pendingId === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : '吊销'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* 登录历史 */}
+      <div className="bg-surface rounded-lg border border-border p-6">
+        <h2 className="text-lg font-semibold mb-4">登录历史</h2>
+        {history.length === 0 ? (
+          <p className="text-sm text-text-muted">暂无登录记录</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {history.map((entry) => (
+              <li key={entry.id} className="py-2 flex items-start gap-3">
+                {entry.success ? (
+                  <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-400 flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-4 h-4 mt-0.5 text-red-400 flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm text-text-primary">
+                    {entry.success
+                      ? `登录成功（${methodLabels[entry.method] ?? entry.method}）`
+                      : `登录失败：${failureLabels[entry.failure_reason ?? ''] ?? entry.failure_reason ?? '未知原因'}`}
+                  </p>
+                  <p className="text-xs text-text-muted truncate">
+                    {formatRelativeTime(entry.created_at)} · {entry.ip_address || '未知 IP'}
+                    {entry.user_agent && ` · ${entry.user_agent}`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {confirmDialog && (
+        <ConfirmDialog
+          open
+          title={confirmDialog.title}
+          message={confirmDialog.message}
+          variant="danger"
+          onConfirm={confirmDialog.onConfirm}
+          onOpenChange={(open) => {
+            if (!open) {
+              setConfirmDialog(null)
+            }
+          }}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Link2, Images, Bell } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { WEBHOOK_EVENTS, type WebhookEventType } from '@/lib/webhook-events'
+import type { WebhookEndpoint } from '@/types/database'
+
+interface WebhookDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** 编辑的端点，为空表示新建 */
+  webhook?: WebhookEndpoint | null
+  onSuccess?: () => void
+}
+
+interface AlbumOption {
+  id: string
+  title: string
+}
+
+/**
+ * 创建 / 编辑 Webhook 端点
+ * 相册范围只能在创建时选择，订阅事件不勾选表示接收全部事件
+ */
+export function WebhookDialog({ open, onOpenChange, webhook, onSuccess }: WebhookDialogProps) {
+  const isEdit = !!webhook
+  const [url, setUrl] = useState('')
+  const [albumId, setAlbumId] = useState('')
+  const [events, setEvents] = useState<WebhookEventType[]>([])
+  const [description, setDescription] = useState('')
+  const [albums, setAlbums] = useState<AlbumOption[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // 打开时填充表单
+  useEffect(() => {
+    if (!open) return
+    setUrl(webhook?.url || '')
+    setAlbumId(webhook?.album_id || '')
+    setEvents((webhook?.events || []) as WebhookEventType[])
+    setDescription(webhook?.description || '')
+    setError('')
+  }, [open, webhook])
+
+  // 新建时加载相册列表（用于选择相册范围）
+  useEffect(() => {
+    if (!open || isEdit) return
+    fetch('/api/admin/albums?limit=100')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setAlbums(data?.data?.albums || []))
+      .catch((err) => console.error('Failed to load albums:', err))
+  }, [open, isEdit])
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!/^https?:\/\//i.test(url.trim())) {
+      setError('请输入以 http:// 或 https:// 开头的地址')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const body = isEdit
+        ? { url: url.trim(), events, description: description.trim() || null }
+        : { url: url.trim(), album_id: albumId || null, events, description: description.trim() || null }
+
+      const response = await fetch(isEdit ? `/api/admin/webhooks/${webhook.id}` : '/api/admin/webhooks', {
+        method: isEdit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || '保存失败')
+      }
+
+      showSuccess(isEdit ? 'Webhook 已更新' : 'Webhook 已创建')
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      handleApiError(error, '保存 Webhook 失败')
+      setError(error instanceof Error ? error.message : '保存 Webhook 失败')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? '编辑 Webhook' : '添加 Webhook'}</DialogTitle>
+          <DialogDescription>事件发生时向该地址发送带签名的 POST 请求</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* 地址 */}
+          <div>
+            <label htmlFor="webhook-url" className="block text-sm font-medium text-text-primary mb-2">
+              <Link2 className="w-4 h-4 inline mr-1" />
+              接收地址 <span className="text-destructive">*</span>
+            </label>
+            <input
+              id="webhook-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://crm.example.com/hooks/pis"
+              required
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+          </div>
+
+          {/* 相册范围 */}
+          <div>
+            <label htmlFor="webhook-album" className="block text-sm font-medium text-text-primary mb-2">
+              <Images className="w-4 h-4 inline mr-1" />
+              相册范围
+            </label>
+            <select
+              id="webhook-album"
+              value={albumId}
+              onChange={(e) => setAlbumId(e.target.value)}
+              disabled={isEdit}
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent disabled:opacity-60"
+            >
+              <option value="">全部相册</option>
+              {isEdit && webhook?.album_id && <option value={webhook.album_id}>指定相册</option>}
+              {albums.map((album) => (
+                <option key={album.id} value={album.id}>
+                  {album.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 订阅事件 */}
+          <div>
+            <p className="block text-sm font-medium text-text-primary mb-2">
+              <Bell className="w-4 h-4 inline mr-1" />
+              订阅事件 <span className="text-text-muted text-xs">(不勾选则接收全部事件)</span>
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {(Object.keys(WEBHOOK_EVENTS) as WebhookEventType[]).map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="rounded border-border"
+                  />
+                  <span>{WEBHOOK_EVENTS[event]}</span>
+                  <span className="text-xs text-text-muted font-mono">{event}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* 描述 */}
+          <div>
+            <label htmlFor="webhook-description" className="block text-sm font-medium text-text-primary mb-2">
+              描述
+            </label>
+            <input
+              id="webhook-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="例如：CRM 客户同步"
+              maxLength={200}
+              className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="px-4 py-2 text-sm bg-surface border border-border rounded-lg hover:bg-background transition-colors"
+            >
+              取消
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !url.trim()}
+              className="px-4 py-2 text-sm bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isEdit ? '保存' : '添加'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
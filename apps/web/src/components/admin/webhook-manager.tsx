@@ -0,0 +1,375 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Plus,
+  Edit2,
+  Trash2,
+  Send,
+  History,
+  RefreshCw,
+  Loader2,
+  Copy,
+  KeyRound,
+  Globe,
+  Images,
+} from 'lucide-react'
+import { WebhookDialog } from './webhook-dialog'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showSuccess, handleApiError } from '@/lib/toast'
+import { copyToClipboard } from '@/lib/clipboard'
+import { formatRelativeTime } from '@/lib/utils'
+import { WEBHOOK_EVENTS, WEBHOOK_TEST_EVENT, type WebhookEventType } from '@/lib/webhook-events'
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from '@/types/database'
+
+interface WebhookItem extends WebhookEndpoint {
+  album_title: string | null
+}
+
+const deliveryStatusLabels: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: '等待中', className: 'bg-surface-elevated text-text-secondary' },
+  retrying: { label: '重试中', className: 'bg-yellow-500/10 text-yellow-500' },
+  success: { label: '成功', className: 'bg-green-500/10 text-green-500' },
+  failed: { label: '失败', className: 'bg-destructive/10 text-destructive' },
+}
+
+/**
+ * 事件显示名称
+ */
+function getEventLabel(event: string): string {
+  if (event === WEBHOOK_TEST_EVENT) return '测试事件'
+  return WEBHOOK_EVENTS[event as WebhookEventType] ?? event
+}
+
+/**
+ * 投递记录
+ */
+function WebhookDeliveryLog({ webhookId }: { webhookId: string }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/webhooks/${webhookId}/deliveries`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '加载投递记录失败')
+      }
+      setDeliveries(data.data?.deliveries || [])
+    } catch (error) {
+      handleApiError(error, '加载投递记录失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [webhookId])
+
+  useEffect(() => {
+    loadDeliveries()
+  }, [loadDeliveries])
+
+  return (
+    <div className="border-t border-border bg-background/50 px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-text-secondary">最近 50 次投递</p>
+        <button
+          onClick={loadDeliveries}
+          disabled={loading}
+          className="p-1.5 hover:bg-surface rounded transition-colors"
+          title="刷新"
+        >
+          <RefreshCw className={`w-4 h-4 text-text-muted ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {!loading && deliveries.length === 0 ? (
+        <p className="text-sm text-text-muted py-2">暂无投递记录</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-text-muted">
+                <th className="py-1.5 pr-4 font-normal">时间</th>
+                <th className="py-1.5 pr-4 font-normal">事件</th>
+                <th className="py-1.5 pr-4 font-normal">状态</th>
+                <th className="py-1.5 pr-4 font-normal">尝试</th>
+                <th className="py-1.5 pr-4 font-normal">响应</th>
+                <th className="py-1.5 font-normal">耗时</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {deliveries.map((delivery) => {
+                const status = deliveryStatusLabels[delivery.status] ?? deliveryStatusLabels.pending
+                return (
+                  <tr key={delivery.id} title={delivery.error || delivery.response_body || undefined}>
+                    <td className="py-1.5 pr-4 text-text-secondary whitespace-nowrap">
+                      {formatRelativeTime(delivery.created_at)}
+                    </td>
+                    <td className="py-1.5 pr-4">{getEventLabel(delivery.event)}</td>
+                    <td className="py-1.5 pr-4">
+                      <span className={`px-2 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="py-1.5 pr-4 text-text-secondary">{delivery.attempts}</td>
+                    <td className="py-1.5 pr-4 text-text-secondary font-mono">
+                      {delivery.response_status ?? (delivery.error ? '—' : '')}
+                      {delivery.error && !delivery.response_status && (
+                        <span className="ml-1 font-sans text-xs text-destructive">{delivery.error}</span>
+                      )}
+                    </td>
+                    <td className="py-1.5 text-text-secondary">
+                      {delivery.duration_ms !== null ? `${delivery.duration_ms}ms` : ''}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Webhook 管理
+ * 配置事件推送地址，发送测试事件，查看投递记录
+ */
+export function WebhookManager() {
+  const [webhooks, setWebhooks] = useState<WebhookItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<WebhookItem | null>(null)
+  const [deleting, setDeleting] = useState<WebhookItem | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/webhooks')
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '加载 Webhook 失败')
+      }
+      setWebhooks(data.data?.webhooks || [])
+    } catch (error) {
+      handleApiError(error, '加载 Webhook 失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadWebhooks()
+  }, [loadWebhooks])
+
+  // 通用请求
+  const request = async (webhook: WebhookItem, url: string, method: string, body?: unknown) => {
+    setBusyId(webhook.id)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || '操作失败')
+      }
+      return data.data
+    } catch (error) {
+      handleApiError(error, '操作失败')
+      return null
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleToggleActive = async (webhook: WebhookItem) => {
+    const result = await request(webhook, `/api/admin/webhooks/${webhook.id}`, 'PATCH', {
+      is_active: !webhook.is_active,
+    })
+    if (result) {
+      showSuccess(webhook.is_active ? 'Webhook 已停用' : 'Webhook 已启用')
+      loadWebhooks()
+    }
+  }
+
+  const handleRotateSecret = async (webhook: WebhookItem) => {
+    const result = await request(webhook, `/api/admin/webhooks/${webhook.id}`, 'PATCH', { rotate_secret: true })
+    if (result) {
+      showSuccess('签名密钥已重新生成，请同步更新接收方配置')
+      loadWebhooks()
+    }
+  }
+
+  const handleSendTest = async (webhook: WebhookItem) => {
+    const result = await request(webhook, `/api/admin/webhooks/${webhook.id}/test`, 'POST')
+    if (result) {
+      showSuccess(result.message || '测试事件已发送')
+      // 展开投递记录，稍后可刷新查看结果
+      setExpandedId(null)
+      setTimeout(() => setExpandedId(webhook.id), 0)
+    }
+  }
+
+  const handleCopySecret = async (webhook: WebhookItem) => {
+    const ok = await copyToClipboard(webhook.secret)
+    if (ok) showSuccess('签名密钥已复制')
+  }
+
+  return (
+    <div>
+      {/* 页面标题 */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6 md:mb-8">
+        <div>
+          <h1 className="text-xl md:text-2xl font-serif font-bold">Webhook</h1>
+          <p className="text-text-secondary text-sm md:text-base mt-1">
+            照片处理、相册发布、访客选片等事件发生时推送到外部系统（CRM、企业微信机器人等）
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null)
+            setDialogOpen(true)
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-accent text-accent-foreground rounded-lg hover:bg-accent/90 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>添加 Webhook</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="bg-surface rounded-lg border border-border p-8 text-center">
+          <Loader2 className="w-6 h-6 animate-spin mx-auto text-text-muted" />
+          <p className="text-text-muted mt-2">加载中...</p>
+        </div>
+      ) : webhooks.length === 0 ? (
+        <div className="bg-surface rounded-lg border border-border p-8 text-center">
+          <p className="text-text-muted">还没有配置 Webhook</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {webhooks.map((webhook) => (
+            <div key={webhook.id} className="bg-surface rounded-lg border border-border overflow-hidden">
+              <div className="p-4 flex flex-col lg:flex-row lg:items-start justify-between gap-4">
+                <div className="min-w-0 space-y-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs ${
+                        webhook.is_active ? 'bg-green-500/10 text-green-500' : 'bg-surface-elevated text-text-muted'
+                      }`}
+                    >
+                      {webhook.is_active ? '已启用' : '已停用'}
+                    </span>
+                    <span className="flex items-center gap-1 text-xs text-text-secondary">
+                      {webhook.album_id ? <Images className="w-3.5 h-3.5" /> : <Globe className="w-3.5 h-3.5" />}
+                      {webhook.album_id ? webhook.album_title || '已删除的相册' : '全部相册'}
+                    </span>
+                  </div>
+                  <p className="font-mono text-sm text-text-primary break-all">{webhook.url}</p>
+                  {webhook.description && <p className="text-sm text-text-secondary">{webhook.description}</p>}
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.length === 0 ? (
+                      <span className="px-2 py-0.5 rounded bg-background text-xs text-text-secondary">全部事件</span>
+                    ) : (
+                      webhook.events.map((event) => (
+                        <span key={event} className="px-2 py-0.5 rounded bg-background text-xs text-text-secondary">
+                          {getEventLabel(event)}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-text-muted">
+                    <KeyRound className="w-3.5 h-3.5" />
+                    <span className="font-mono">{webhook.secret.slice(0, 12)}••••••••</span>
+                    <button onClick={() => handleCopySecret(webhook)} className="hover:text-text-primary" title="复制签名密钥">
+                      <Copy className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => handleRotateSecret(webhook)}
+                      disabled={busyId === webhook.id}
+                      className="hover:text-text-primary"
+                      title="重新生成签名密钥"
+                    >
+                      <RefreshCw className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleActive(webhook)}
+                    disabled={busyId === webhook.id}
+                    className="px-3 py-1.5 text-sm bg-surface border border-border rounded-lg hover:bg-background disabled:opacity-50"
+                  >
+                    {webhook.is_active ? '停用' : '启用'}
+                  </button>
+                  <button
+                    onClick={() => handleSendTest(webhook)}
+                    disabled={busyId === webhook.id}
+                    className="p-2 hover:bg-background rounded-lg transition-colors disabled:opacity-50"
+                    title="发送测试事件"
+                  >
+                    {busyId === webhook.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-text-muted" />
+                    ) : (
+                      <Send className="w-4 h-4 text-text-secondary" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                    className="p-2 hover:bg-background rounded-lg transition-colors"
+                    title="投递记录"
+                  >
+                    <History className="w-4 h-4 text-text-secondary" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditing(webhook)
+                      setDialogOpen(true)
+                    }}
+                    className="p-2 hover:bg-background rounded-lg transition-colors"
+                    title="编辑"
+                  >
+                    <Edit2 className="w-4 h-4 text-text-secondary" />
+                  </button>
+                  <button
+                    onClick={() => setDeleting(webhook)}
+                    className="p-2 hover:bg-background rounded-lg transition-colors"
+                    title="删除"
+                  >
+                    <Trash2 className="w-4 h-4 text-text-secondary" />
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === webhook.id && <WebhookDeliveryLog webhookId={webhook.id} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <WebhookDialog open={dialogOpen} onOpenChange={setDialogOpen} webhook={editing} onSuccess={loadWebhooks} />
+
+      {/* 删除确认 */}
+      {deleting && (
+        <ConfirmDialog
+          open
+          onOpenChange={(open) => !open && setDeleting(null)}
+          title="删除 Webhook"
+          message={`确定要删除 ${deleting.url} 吗？投递记录将一并删除。`}
+          variant="danger"
+          onConfirm={async () => {
+            const result = await request(deleting, `/api/admin/webhooks/${deleting.id}`, 'DELETE')
+            if (result) {
+              showSuccess('Webhook 已删除')
+              loadWebhooks()
+            }
+            setDeleting(null)
+          }}
+        />
+      )}
+    </div>
+  )
+}
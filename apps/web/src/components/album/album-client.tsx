@@ -1,12 +1,15 @@
 'use client'
 
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { useTranslations } from 'next-intl'
 import { MasonryGrid } from './masonry'
+import { GuestIdentityDialog } from './guest-identity-dialog'
+import { GuestSelectionBar } from './guest-selection-bar'
 import { Loader2, ImageIcon, RefreshCw, X, ScanFace } from 'lucide-react'
 import { usePhotoRealtime } from '@/hooks/use-photo-realtime'
+import { useGuestSession } from '@/hooks/use-guest-session'
 import type { Album, Photo } from '@/types/database'
 import type { LayoutMode } from './layout-toggle'
 
@@ -14,6 +17,8 @@ interface AlbumClientProps {
   album: Album
   initialPhotos: Photo[]
   layout?: LayoutMode
+  /** 是否允许选片（通过只读分享链接进入时为 false） */
+  allowSelect?: boolean
 }
 
 interface PhotosResponse {
@@ -28,14 +33,15 @@ interface PhotosResponse {
 
 /**
  * 相册客户端组件
- * 负责：无限滚动加载更多照片 + 实时更新提醒
+ * 负责：无限滚动加载更多照片 + 实时更新提醒 + 访客选片身份
  * 排序由页面 header 的 SortToggle 通过 URL 参数控制
  */
-export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumClientProps) {
+export function AlbumClient({ album, initialPhotos, layout = 'masonry', allowSelect = true }: AlbumClientProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
   const sort = searchParams.get('sort') || album.sort_rule || 'capture_desc'
   const groupId = searchParams.get('group')
+  const personId = searchParams.get('person')
   const searchMode = searchParams.get('search')
   const queryClient = useQueryClient()
   const t = useTranslations('album')
@@ -48,6 +54,35 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
   // 记录已知的照片 ID，避免重复计数
   const knownPhotoIdsRef = useRef<Set<string>>(new Set())
 
+  // 访客选片身份
+  const guest = useGuestSession(album.slug)
+  const [showIdentityDialog, setShowIdentityDialog] = useState(false)
+  // 选片时尚未填写身份：等待对话框结果后由网格重试
+  const identityResolverRef = useRef<((created: boolean) => void) | null>(null)
+
+  const handleGuestSessionRequired = useCallback(() => {
+    identityResolverRef.current?.(false)
+    setShowIdentityDialog(true)
+    return new Promise<boolean>((resolve) => {
+      identityResolverRef.current = resolve
+    })
+  }, [])
+
+  const { createSession } = guest
+  const handleIdentitySubmit = useCallback(async (guestName: string, guestPhone?: string) => {
+    await createSession(guestName, guestPhone)
+    identityResolverRef.current?.(true)
+    identityResolverRef.current = null
+  }, [createSession])
+
+  const handleIdentityOpenChange = useCallback((open: boolean) => {
+    setShowIdentityDialog(open)
+    if (!open) {
+      identityResolverRef.current?.(false)
+      identityResolverRef.current = null
+    }
+  }, [])
+
   // 初始化已知照片 ID
   useEffect(() => {
     const ids = new Set(initialPhotos.map(p => p.id))
@@ -62,7 +97,7 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
     isLoading,
     refetch,
   } = useInfiniteQuery({
-    queryKey: ['album-photos', album.slug, sort, groupId, searchMode],
+    queryKey: ['album-photos', album.slug, sort, groupId, personId, searchMode],
     queryFn: async ({ pageParam = 1 }) => {
       const origin = typeof window !== 'undefined' ? window.location.origin : ''
       const url = new URL(`/api/public/albums/${album.slug}/photos`, origin)
@@ -72,6 +107,9 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
       if (groupId) {
         url.searchParams.set('group', groupId)
       }
+      if (personId) {
+        url.searchParams.set('person', personId)
+      }
       
       // 处理搜索模式
       if (searchMode === 'face') {
@@ -98,7 +136,8 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
       const { page, totalPages } = lastPage.pagination
       return page < totalPages ? page + 1 : undefined
     },
-    initialData: {
+    // 服务端首屏照片未按人物筛选，筛选人物时直接请求 API
+    initialData: personId ? undefined : {
       pages: [
         {
           photos: initialPhotos,
@@ -116,11 +155,11 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
     gcTime: 10 * 60 * 1000, // 10分钟垃圾回收时间
   })
 
-  // 实时监听照片更新
+  // 直播相册实时监听照片更新（服务端推送，不可用时回退到轮询）
   usePhotoRealtime({
     albumId: album.id,
     albumSlug: album.slug,
-    enabled: true,
+    enabled: album.is_live,
     onInsert: useCallback((photo: Photo) => {
       // 检查是否是新照片（避免重复计数）
       if (!knownPhotoIdsRef.current.has(photo.id)) {
@@ -180,8 +219,15 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
     setShowNotification(false)
   }, [])
 
-  // 展平所有页面的照片
-  const allPhotos = data?.pages.flatMap((page) => page.photos) || initialPhotos
+  // 展平所有页面的照片，选中状态以当前访客的选片为准
+  const pagePhotos = useMemo(
+    () => data?.pages.flatMap((page) => page.photos) || initialPhotos,
+    [data, initialPhotos]
+  )
+  const allPhotos = useMemo(
+    () => pagePhotos.map((photo) => ({ ...photo, is_selected: guest.selectedIds.has(photo.id) })),
+    [pagePhotos, guest.selectedIds]
+  )
 
   return (
     <>
@@ -245,6 +291,28 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
         </div>
       )}
 
+      {/* 访客选片状态 */}
+      {allowSelect && !guest.loading && allPhotos.length > 0 && (
+        <GuestSelectionBar
+          albumSlug={album.slug}
+          session={guest.session}
+          selectedCount={guest.selectedIds.size}
+          maxSelection={guest.maxSelection}
+          allowBatchDownload={album.allow_download && album.allow_batch_download}
+          onStart={() => setShowIdentityDialog(true)}
+          onSubmit={guest.submit}
+        />
+      )}
+
+      <GuestIdentityDialog
+        open={showIdentityDialog}
+        onOpenChange={handleIdentityOpenChange}
+        onSubmit={handleIdentitySubmit}
+        maxSelection={guest.maxSelection}
+        defaultName={guest.session?.guestName}
+        defaultPhone={guest.session?.guestPhone}
+      />
+
       {/* 照片网格 */}
       {isLoading && allPhotos.length === 0 ? (
         <div className="flex justify-center py-20">
@@ -257,7 +325,10 @@ export function AlbumClient({ album, initialPhotos, layout = 'masonry' }: AlbumC
           layout={layout}
           hasMore={hasNextPage}
           isLoading={isFetchingNextPage}
+          allowSelect={allowSelect}
           onLoadMore={() => fetchNextPage()}
+          onSelectChange={guest.markSelected}
+          onGuestSessionRequired={handleGuestSessionRequired}
         />
       ) : (
         <div className="text-center py-20">
@@ -35,6 +35,9 @@ export function AlbumHero({ album, coverPhoto, from }: AlbumHeroProps) {
     // 调用API增加浏览次数（每次访问都计数，不限制）
     fetch(`/api/public/albums/${album.slug}/view`, {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // 外部来源（如微信、朋友圈）用于访问统计
+      body: JSON.stringify({ referrer: document.referrer || undefined }),
     })
       .then((res) => {
         if (!res.ok) {
@@ -3,6 +3,7 @@
 import { Camera } from 'lucide-react'
 import { AlbumShareButton } from './album-share-button'
 import type { Album } from '@/types/database'
+import { useSiteSettings } from '@/components/site-settings-provider'
 
 interface AlbumInfoBarProps {
   album: Album
@@ -10,6 +11,8 @@ interface AlbumInfoBarProps {
 }
 
 export function AlbumInfoBar({ album, backgroundImageUrl }: AlbumInfoBarProps) {
+  const { branding } = useSiteSettings()
+
   return (
     <div className="bg-surface-elevated border-b border-border">
       <div className="max-w-7xl mx-auto px-4 md:px-6 py-3 md:py-5">
@@ -27,10 +30,10 @@ export function AlbumInfoBar({ album, backgroundImageUrl }: AlbumInfoBarProps) {
             <div>
               <p className="text-xs md:text-sm text-text-muted">摄影师</p>
               <p className="font-medium text-sm md:text-base text-text-primary">
-                {process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'}
+                {branding.studio_name}
               </p>
               <p className="text-xs text-text-muted mt-0.5 hidden md:block">
-                {process.env.NEXT_PUBLIC_PHOTOGRAPHER_TAGLINE || '专业活动摄影'}
+                {branding.tagline || '专业活动摄影'}
               </p>
             </div>
           </div>
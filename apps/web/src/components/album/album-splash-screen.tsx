@@ -6,6 +6,7 @@ import { useTranslations, useLocale } from 'next-intl'
 import { ChevronDown, X, Aperture } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import type { Album } from '@/types/database'
+import { useSiteSettings } from '@/components/site-settings-provider'
 
 interface AlbumSplashScreenProps {
   album: Album
@@ -18,12 +19,13 @@ export function AlbumSplashScreen({ album, posterImageUrl }: AlbumSplashScreenPr
   const locale = useLocale()
   const tHome = useTranslations('home')
   const tAlbum = useTranslations('album')
+  const { branding } = useSiteSettings()
 
   // 获取网站信息
   const siteName = tHome('title')
   const siteDescription = tHome('description')
-  const photographerName = process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'
-  const photographerTagline = process.env.NEXT_PUBLIC_PHOTOGRAPHER_TAGLINE || 
+  const photographerName = branding.studio_name
+  const photographerTagline = branding.tagline || 
     (locale === 'zh-CN' ? '专业活动摄影' : 'Professional Event Photography')
 
   // 检查 URL 参数，如果已跳过则直接隐藏
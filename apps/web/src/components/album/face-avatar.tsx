@@ -0,0 +1,36 @@
+'use client'
+
+import { User } from 'lucide-react'
+import { getFaceCropStyle, type FaceCrop } from '@/lib/face-crop'
+import { cn, getSafeMediaUrl } from '@/lib/utils'
+
+interface FaceAvatarProps {
+  thumbKey: string | null
+  crop: FaceCrop | null
+  alt: string
+  className?: string
+}
+
+/**
+ * 人物头像：从缩略图中裁出人脸区域，缺少人脸位置时显示整张缩略图
+ */
+export function FaceAvatar({ thumbKey, crop, alt, className }: FaceAvatarProps) {
+  const mediaUrl = getSafeMediaUrl()
+
+  return (
+    <div className={cn('relative aspect-square overflow-hidden rounded-full bg-surface-elevated', className)}>
+      {thumbKey && mediaUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={`${mediaUrl}/${thumbKey}`}
+          alt={alt}
+          loading="lazy"
+          className={cn('absolute max-w-none', !crop && 'inset-0 w-full h-full object-cover')}
+          style={crop ? getFaceCropStyle(crop) : undefined}
+        />
+      ) : (
+        <User className="absolute inset-0 m-auto w-1/2 h-1/2 text-text-muted" />
+      )}
+    </div>
+  )
+}
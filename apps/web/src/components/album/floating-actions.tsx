@@ -18,7 +18,9 @@ import type { LayoutMode } from './layout-toggle'
 import { showInfo, showError } from '@/lib/toast'
 import type { Album } from '@/types/database'
 import { cn, getAlbumShareUrl } from '@/lib/utils'
+import { trackAnalyticsEvent } from '@/lib/analytics-client'
 import { FaceSearchModal } from './face-search-modal'
+import { useSiteSettings } from '@/components/site-settings-provider'
 
 interface FloatingActionsProps {
   album: Album
@@ -33,6 +35,7 @@ export function FloatingActions({ album, currentSort, currentLayout }: FloatingA
   const [showBackToTop, setShowBackToTop] = useState(false)
   const [mounted, setMounted] = useState(false)
   const [showFaceSearch, setShowFaceSearch] = useState(false)
+  const { features } = useSiteSettings()
 
   // 确保只在客户端渲染
   useEffect(() => {
@@ -156,23 +159,25 @@ export function FloatingActions({ album, currentSort, currentLayout }: FloatingA
                 )}
               </motion.button>
 
-              {/* 人脸搜索按钮 */}
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                onClick={() => {
-                  setShowFaceSearch(true)
-                  setIsExpanded(false)
-                }}
-                className={cn(
-                  'w-10 h-10 rounded-full shadow-lg flex items-center justify-center',
-                  'bg-surface border border-border hover:bg-surface-elevated',
-                  'text-text-primary transition-all backdrop-blur-sm'
-                )}
-                title="找自己"
-              >
-                <ScanFace className="w-4 h-4" />
-              </motion.button>
+              {/* 人脸搜索按钮（后台可关闭） */}
+              {features.face_search && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => {
+                    setShowFaceSearch(true)
+                    setIsExpanded(false)
+                  }}
+                  className={cn(
+                    'w-10 h-10 rounded-full shadow-lg flex items-center justify-center',
+                    'bg-surface border border-border hover:bg-surface-elevated',
+                    'text-text-primary transition-all backdrop-blur-sm'
+                  )}
+                  title="找自己"
+                >
+                  <ScanFace className="w-4 h-4" />
+                </motion.button>
+              )}
 
               {/* 排序按钮 */}
               <motion.button
@@ -203,6 +208,8 @@ export function FloatingActions({ album, currentSort, currentLayout }: FloatingA
                           title: album.title,
                           text: album.description || `查看 ${album.title} 的精彩照片`,
                           url: shareUrl,
+                        }).then(() => {
+                          trackAnalyticsEvent('share', album.id)
                         }).catch(() => {
                           // 用户取消分享，不做处理
                         })
@@ -211,6 +218,7 @@ export function FloatingActions({ album, currentSort, currentLayout }: FloatingA
                         import('@/lib/clipboard').then(({ copyToClipboard }) => {
                           copyToClipboard(shareUrl).then((success) => {
                             if (success) {
+                              trackAnalyticsEvent('share', album.id)
                               showInfo('链接已复制到剪贴板')
                             } else {
                               showError('复制失败，请手动复制链接')
@@ -288,7 +296,7 @@ export function FloatingActions({ album, currentSort, currentLayout }: FloatingA
       )}
 
       {/* 人脸搜索模态框 */}
-      {mounted && (
+      {mounted && features.face_search && (
         <FaceSearchModal 
           albumSlug={album.slug}
           isOpen={showFaceSearch}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Heart, Loader2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { handleApiError } from '@/lib/toast'
+
+interface GuestIdentityDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (guestName: string, guestPhone?: string) => Promise<void>
+  maxSelection?: number | null
+  defaultName?: string
+  defaultPhone?: string | null
+}
+
+/**
+ * 访客选片身份对话框
+ * 首次选片前填写姓名/手机号，之后的选片归属到该访客名下
+ */
+export function GuestIdentityDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  maxSelection,
+  defaultName = '',
+  defaultPhone = '',
+}: GuestIdentityDialogProps) {
+  const [guestName, setGuestName] = useState(defaultName)
+  const [guestPhone, setGuestPhone] = useState(defaultPhone || '')
+  const [saving, setSaving] = useState(false)
+
+  // 每次打开时回填当前身份
+  useEffect(() => {
+    if (open) {
+      setGuestName(defaultName)
+      setGuestPhone(defaultPhone || '')
+    }
+  }, [open, defaultName, defaultPhone])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!guestName.trim()) return
+
+    setSaving(true)
+    try {
+      await onSubmit(guestName.trim(), guestPhone.trim() || undefined)
+      onOpenChange(false)
+    } catch (error) {
+      handleApiError(error, '保存失败，请重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      {/* 可能从 Lightbox 中唤起，需要盖过 Lightbox 的层级 */}
+      <DialogContent className="sm:max-w-md z-[10000]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Heart className="w-5 h-5 text-accent" />
+            开始选片
+          </DialogTitle>
+          <DialogDescription>
+            留下您的姓名，摄影师会按您的选择进行精修
+            {maxSelection ? `（每人最多可选 ${maxSelection} 张）` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          <div>
+            <label htmlFor="guest-name" className="block text-sm font-medium text-text-secondary mb-1">
+              姓名 <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="guest-name"
+              type="text"
+              value={guestName}
+              onChange={(e) => setGuestName(e.target.value)}
+              className="input"
+              placeholder="请输入您的姓名"
+              maxLength={50}
+              autoFocus
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="guest-phone" className="block text-sm font-medium text-text-secondary mb-1">
+              手机号
+            </label>
+            <input
+              id="guest-phone"
+              type="tel"
+              value={guestPhone}
+              onChange={(e) => setGuestPhone(e.target.value)}
+              className="input"
+              placeholder="选填，便于摄影师联系您"
+              maxLength={20}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !guestName.trim()}
+            className="btn-primary w-full min-h-[44px]"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : '确定'}
+          </button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
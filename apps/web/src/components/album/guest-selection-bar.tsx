@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { Heart, Download, Send, Loader2, Lock, UserRound } from 'lucide-react'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { handleApiError, showSuccess } from '@/lib/toast'
+import type { GuestSessionInfo } from '@/hooks/use-guest-session'
+
+interface GuestSelectionBarProps {
+  albumSlug: string
+  session: GuestSessionInfo | null
+  selectedCount: number
+  maxSelection: number | null
+  allowBatchDownload: boolean
+  onStart: () => void
+  onSubmit: () => Promise<void>
+}
+
+/**
+ * 访客选片状态栏
+ * 显示当前访客身份、已选数量/上限，并提供提交最终选片和下载已选的入口
+ */
+export function GuestSelectionBar({
+  albumSlug,
+  session,
+  selectedCount,
+  maxSelection,
+  allowBatchDownload,
+  onStart,
+  onSubmit,
+}: GuestSelectionBarProps) {
+  const [downloading, setDownloading] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+
+  if (!session) {
+    return (
+      <div className="flex items-center justify-between gap-3 mb-4 p-3 rounded-lg bg-accent/10 border border-accent/20">
+        <p className="text-sm text-text-secondary">
+          点击照片上的 <Heart className="inline w-3.5 h-3.5 text-accent" /> 即可挑选喜欢的照片
+          {maxSelection ? `，每人最多 ${maxSelection} 张` : ''}
+        </p>
+        <button onClick={onStart} className="btn-primary text-sm shrink-0 min-h-[36px]">
+          开始选片
+        </button>
+      </div>
+    )
+  }
+
+  const isSubmitted = !!session.submittedAt
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit()
+      showSuccess('已提交最终选片，摄影师会尽快处理')
+    } catch (error) {
+      handleApiError(error, '提交失败，请重试')
+      throw error
+    }
+  }
+
+  const handleDownload = async () => {
+    setDownloading(true)
+    try {
+      const response = await fetch(`/api/public/albums/${albumSlug}/download-selected`)
+      if (!response.ok) {
+        const error = await response.json()
+        handleApiError(new Error(error.error?.message || '下载失败'))
+        return
+      }
+
+      const { data } = await response.json()
+
+      // 逐个下载照片
+      for (const photo of data.photos) {
+        const link = document.createElement('a')
+        link.href = photo.url
+        link.download = photo.filename
+        link.target = '_blank'
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        // 稍作延迟避免浏览器阻止
+        await new Promise((r) => setTimeout(r, 300))
+      }
+    } catch (error) {
+      handleApiError(error, '下载失败，请重试')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4 p-3 rounded-lg bg-surface border border-border">
+        <div className="flex items-center gap-3 min-w-0">
+          <button
+            onClick={onStart}
+            disabled={isSubmitted}
+            className="flex items-center gap-1.5 text-sm font-medium truncate hover:text-accent transition-colors disabled:hover:text-inherit"
+            title="修改身份信息"
+          >
+            <UserRound className="w-4 h-4 shrink-0" />
+            <span className="truncate">{session.guestName}</span>
+          </button>
+          <span className="flex items-center gap-1 px-2.5 py-1 bg-accent/10 rounded-full text-xs font-medium text-accent">
+            <Heart className="w-3.5 h-3.5 fill-current" />
+            {maxSelection ? `${selectedCount} / ${maxSelection}` : selectedCount}
+          </span>
+          {isSubmitted && (
+            <span className="flex items-center gap-1 text-xs text-text-muted">
+              <Lock className="w-3.5 h-3.5" />
+              已提交
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {allowBatchDownload && selectedCount > 0 && (
+            <button
+              onClick={handleDownload}
+              disabled={downloading}
+              className="btn-secondary text-sm min-h-[36px] flex items-center gap-1.5"
+            >
+              {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              下载已选
+            </button>
+          )}
+          {!isSubmitted && (
+            <button
+              onClick={() => setConfirmOpen(true)}
+              disabled={selectedCount === 0}
+              className="btn-primary text-sm min-h-[36px] flex items-center gap-1.5"
+            >
+              <Send className="w-4 h-4" />
+              提交选片
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title="提交最终选片"
+        message={`确认提交已选的 ${selectedCount} 张照片吗？提交后将无法修改，如需调整请联系摄影师。`}
+        confirmText="确认提交"
+        onConfirm={handleSubmit}
+      />
+    </>
+  )
+}
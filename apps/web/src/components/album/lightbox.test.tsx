@@ -46,17 +46,25 @@ const createMockPhoto = (id: string, overrides?: Partial<Photo>): Photo => ({
   album_id: 'album-1',
   filename: `photo-${id}.jpg`,
   original_key: `photos/${id}/original.jpg`,
+  raw_key: null,
   thumb_key: `photos/${id}/thumb.jpg`,
+  derivatives: null,
+  media_type: 'image',
+  video_key: null,
+  duration: null,
   preview_key: `photos/${id}/preview.jpg`,
   blur_data: 'LGF5]+Yk^6#M@-5c,1J5@[or[Q6.',
   width: 1920,
   height: 1080,
   file_size: 1024000,
+  thumb_size: null,
+  preview_size: null,
   mime_type: 'image/jpeg',
   exif: {},
   rotation: 0,
   sort_order: 0,
   retoucher_id: null,
+  current_version_id: null,
   captured_at: null,
   status: 'completed',
   is_selected: false,
@@ -217,6 +225,10 @@ describe('PhotoLightbox', () => {
     const photo = createMockPhoto('photo-1', {
       preview_key: null,
       thumb_key: 'photos/photo-1/thumb.jpg',
+      derivatives: null,
+      media_type: 'image',
+      video_key: null,
+      duration: null,
     })
 
     render(
@@ -235,7 +247,12 @@ describe('PhotoLightbox', () => {
     const photo = createMockPhoto('photo-1', {
       preview_key: null,
       thumb_key: null,
+      derivatives: null,
+      media_type: 'image',
+      video_key: null,
+      duration: null,
       original_key: 'photos/photo-1/original.jpg',
+      raw_key: null,
     })
 
     render(
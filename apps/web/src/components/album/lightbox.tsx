@@ -11,6 +11,8 @@ import { Download, Heart, RotateCw, RotateCcw, Share2 } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import { cn, getSafeMediaUrl } from '@/lib/utils'
 import { handleApiError, showSuccess } from '@/lib/toast'
+import { buildLightboxSrcSet } from '@/lib/image-derivatives'
+import { trackAnalyticsEvent } from '@/lib/analytics-client'
 import type { Photo } from '@/types/database'
 
 interface PhotoLightboxProps {
@@ -19,7 +21,11 @@ interface PhotoLightboxProps {
   open: boolean
   onClose: () => void
   allowDownload?: boolean
+  /** 是否显示选片按钮（分享链接可能只允许浏览） */
+  allowSelect?: boolean
   onSelectChange?: (photoId: string, isSelected: boolean) => void
+  /** 选片时访客尚未建立身份，返回 true 表示身份已建立、可重试 */
+  onGuestSessionRequired?: () => Promise<boolean>
   onIndexChange?: (index: number) => void
 }
 
@@ -29,7 +35,9 @@ export function PhotoLightbox({
   open,
   onClose,
   allowDownload = true,
+  allowSelect = true,
   onSelectChange,
+  onGuestSessionRequired,
   onIndexChange,
 }: PhotoLightboxProps) {
   const t = useTranslations('album.lightbox')
@@ -143,6 +151,14 @@ export function PhotoLightbox({
     return currentPhoto?.id || ''
   }, [currentPhoto])
 
+  // 记录照片查看（同一页面中每张照片只记录一次，来回翻看不重复计数）
+  const viewedPhotoIdsRef = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    if (!open || !currentPhoto || viewedPhotoIdsRef.current.has(currentPhoto.id)) return
+    viewedPhotoIdsRef.current.add(currentPhoto.id)
+    trackAnalyticsEvent('photo_view', currentPhoto.album_id, currentPhoto.id)
+  }, [open, currentPhoto])
+
   // 构建 slides，默认使用预览图，点击"查看原图"后才使用原图
   const slides = useMemo(() => {
     if (!photos || photos.length === 0) {
@@ -207,17 +223,33 @@ export function PhotoLightbox({
             : `${safeMediaUrl.replace(/\/$/, '')}/${imageKey.replace(/^\//, '')}`)
         : ''
 
+      // 视频：播放转码后的网页预览（未转码时回退到原始文件），预览图作为封面
+      const videoKey = photo.media_type === 'video' ? (photo.video_key || photo.original_key) : null
+      const videoSrc = videoKey && safeMediaUrl
+        ? `${safeMediaUrl.replace(/\/$/, '')}/${videoKey.replace(/^\//, '')}`
+        : undefined
+
       // 构建描述文本：EXIF信息 + 时间 + 图片质量提示
       let description = exifString || formattedDateTime || ''
-      if (allowDownload && photo.preview_key && photo.original_key) {
+      if (allowDownload && photo.preview_key && photo.original_key && !videoSrc) {
         const qualityHint = '💡 当前为预览图，点击下载按钮获取高清原图'
         description = description 
           ? `${description} · ${qualityHint}`
           : qualityHint
       }
 
+      // 响应式衍生图：灯箱按屏幕尺寸从 srcSet 中选择（4K 屏加载 2560px，手机加载 1280px 等）
+      const srcSet = videoSrc
+        ? undefined
+        : buildLightboxSrcSet(
+            photo.derivatives,
+            safeMediaUrl,
+            photo.updated_at ? new Date(photo.updated_at).getTime() : null
+          )
+
       return {
         src: imageSrc,
+        srcSet,
         width: photo.width || 0,
         height: photo.height || 0,
         title: photo.filename || '',
@@ -225,6 +257,7 @@ export function PhotoLightbox({
         photoId: photo.id,
         originalKey: photo.original_key || null,
         previewKey: photo.preview_key || null,
+        videoSrc,
       }
       })
     }, [photos, safeMediaUrl, allowDownload])
@@ -248,20 +281,22 @@ export function PhotoLightbox({
   //       : true) // 如果没有预览图但原图存在，也显示按钮
   // }, [currentPhoto, loadedOriginals])
 
-  // 通过 API 下载原图
-  const handleDownload = useCallback(async () => {
+  // 通过 API 下载原图（format 为 raw 时下载相机 RAW 原片）
+  const handleDownload = useCallback(async (format?: 'raw') => {
     if (!currentPhotoId) return
 
     try {
       // 获取下载链接
-      const res = await fetch(`/api/public/download/${currentPhotoId}`)
+      const query = format ? `?format=${format}` : ''
+      const res = await fetch(`/api/public/download/${currentPhotoId}${query}`)
       if (!res.ok) {
         const error = await res.json()
         handleApiError(new Error(error.error?.message || '下载失败'))
         return
       }
 
-      const { downloadUrl, filename } = await res.json()
+      const result = await res.json()
+      const { downloadUrl, filename } = result.data ?? result
 
       // 使用 fetch 获取文件数据，然后用 Blob 创建下载
       // 这样可以确保强制下载而不是预览
@@ -295,20 +330,33 @@ export function PhotoLightbox({
     const newSelected = !selectedMap[photoId]
     setSelectedMap((prev) => ({ ...prev, [photoId]: newSelected }))
 
-    try {
-      const res = await fetch(`/api/public/photos/${photoId}/select`, {
+    const requestSelect = () =>
+      fetch(`/api/public/photos/${photoId}/select`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ isSelected: newSelected }),
       })
 
+    try {
+      let res = await requestSelect()
+
+      // 尚未填写选片身份：填写后自动重试
+      if (res.status === 401 && onGuestSessionRequired) {
+        const errorData = await res.clone().json().catch(() => ({}))
+        if (errorData.error?.code === 'GUEST_SESSION_REQUIRED' && (await onGuestSessionRequired())) {
+          res = await requestSelect()
+        }
+      }
+
       if (!res.ok) {
         // 回滚
         setSelectedMap((prev) => ({ ...prev, [photoId]: !newSelected }))
         
-        // 显示错误信息
+        // 显示错误信息（取消填写身份时不提示）
         const errorData = await res.json()
-        handleApiError(new Error(errorData.error?.message || '操作失败'), '选片失败')
+        if (errorData.error?.code !== 'GUEST_SESSION_REQUIRED' || !onGuestSessionRequired) {
+          handleApiError(new Error(errorData.error?.message || '操作失败'), '选片失败')
+        }
       } else {
         onSelectChange?.(photoId, newSelected)
       }
@@ -316,7 +364,7 @@ export function PhotoLightbox({
       setSelectedMap((prev) => ({ ...prev, [photoId]: !newSelected }))
       handleApiError(error, '选片失败')
     }
-  }, [currentPhoto, selectedMap, onSelectChange])
+  }, [currentPhoto, selectedMap, onSelectChange, onGuestSessionRequired])
 
   // 处理视图变化，使用 useCallback 避免在渲染期间更新状态
   const handleView = useCallback(({ index: newIndex }: { index: number }) => {
@@ -351,6 +399,7 @@ export function PhotoLightbox({
           title: t('shareTitle'),
           url: shareUrl,
         })
+        if (currentPhoto) trackAnalyticsEvent('share', currentPhoto.album_id, currentPhoto.id)
       } catch {
         // 用户取消分享
       }
@@ -360,11 +409,12 @@ export function PhotoLightbox({
       const success = await copyToClipboard(shareUrl)
       if (success) {
         showSuccess(t('linkCopied'))
+        if (currentPhoto) trackAnalyticsEvent('share', currentPhoto.album_id, currentPhoto.id)
       } else {
         console.error('Failed to copy share link')
       }
     }
-  }, [t])
+  }, [t, currentPhoto])
 
   const toolbarButtons = useMemo(() => {
     if (!currentPhoto) {
@@ -374,26 +424,33 @@ export function PhotoLightbox({
     const currentPhotoId = currentPhoto.id
     const isSelected = selectedMap[currentPhotoId] || false
 
-    const buttons: Array<React.ReactNode> = [
-      <button
-        key="select"
-        type="button"
-        onClick={handleSelect}
-        className={cn(
-          'yarl__button flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors',
-          isSelected
-            ? 'bg-red-500 text-white'
-            : 'bg-white/10 text-white hover:bg-white/20'
-        )}
-        aria-label={isSelected ? t('deselect') : t('select')}
-      >
-        <Heart
+    const buttons: Array<React.ReactNode> = []
+
+    if (allowSelect) {
+      buttons.push(
+        <button
+          key="select"
+          type="button"
+          onClick={handleSelect}
           className={cn(
-            'w-5 h-5',
-            isSelected && 'fill-current'
+            'yarl__button flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors',
+            isSelected
+              ? 'bg-red-500 text-white'
+              : 'bg-white/10 text-white hover:bg-white/20'
           )}
-        />
-      </button>,
+          aria-label={isSelected ? t('deselect') : t('select')}
+        >
+          <Heart
+            className={cn(
+              'w-5 h-5',
+              isSelected && 'fill-current'
+            )}
+          />
+        </button>
+      )
+    }
+
+    buttons.push(
       <button
         key="rotate-left"
         type="button"
@@ -415,15 +472,15 @@ export function PhotoLightbox({
       >
         <RotateCw className="w-5 h-5" />
         <span className="hidden sm:inline text-sm">{t('rotateRight')}</span>
-      </button>,
-    ]
+      </button>
+    )
 
     if (allowDownload) {
       buttons.push(
         <button
           key="download"
           type="button"
-          onClick={handleDownload}
+          onClick={() => handleDownload()}
           className="yarl__button flex items-center gap-2 px-3 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors min-h-[44px] active:scale-[0.98] touch-manipulation"
           aria-label={t('downloadOriginal')}
           title={t('downloadOriginalTitle')}
@@ -432,6 +489,22 @@ export function PhotoLightbox({
           <span className="hidden sm:inline text-sm">{t('downloadOriginal')}</span>
         </button>
       )
+
+      if (currentPhoto.raw_key) {
+        buttons.push(
+          <button
+            key="download-raw"
+            type="button"
+            onClick={() => handleDownload('raw')}
+            className="yarl__button flex items-center gap-2 px-3 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors min-h-[44px] active:scale-[0.98] touch-manipulation"
+            aria-label={t('downloadRaw')}
+            title={t('downloadRawTitle')}
+          >
+            <Download className="w-5 h-5" />
+            <span className="hidden sm:inline text-sm">{t('downloadRaw')}</span>
+          </button>
+        )
+      }
     }
 
     buttons.push(
@@ -450,7 +523,7 @@ export function PhotoLightbox({
 
     buttons.push('close')
     return buttons
-  }, [currentPhoto, selectedMap, allowDownload, handleSelect, handleDownload, handleRotate, handleShare, t])
+  }, [currentPhoto, selectedMap, allowSelect, allowDownload, handleSelect, handleDownload, handleRotate, handleShare, t])
 
   // 如果未打开或没有照片，不渲染
   if (!open || photos.length === 0) {
@@ -519,9 +592,41 @@ export function PhotoLightbox({
             photoId?: string
             src: string
             title?: string
+            videoSrc?: string
           }
           const slideWithId = slide as SlideWithPhotoId
           const photoId = slideWithId.photoId
+
+          // 视频直接内嵌播放，阻止点击冒泡以免触发关闭
+          if (slideWithId.videoSrc) {
+            return (
+              <div
+                className="yarl__slide"
+                style={{
+                  width: '100%',
+                  height: '100%',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+              >
+                <video
+                  key={slideWithId.videoSrc}
+                  src={slideWithId.videoSrc}
+                  poster={slide.src}
+                  controls
+                  playsInline
+                  preload="metadata"
+                  onClick={(e) => e.stopPropagation()}
+                  style={{
+                    maxWidth: '100%',
+                    maxHeight: '100%',
+                    objectFit: 'contain',
+                  }}
+                />
+              </div>
+            )
+          }
           const rotation = photoId ? (viewRotationMap[photoId] || 0) : 0
           
           // 如果没有旋转，使用默认渲染
@@ -31,10 +31,17 @@ const createMockPhoto = (id: string, overrides?: Partial<Photo>): Photo => ({
   id,
   album_id: 'album-1',
   original_key: `photos/${id}.jpg`,
+  raw_key: null,
   thumb_key: `thumbs/${id}.jpg`,
+  derivatives: null,
+  media_type: 'image',
+  video_key: null,
+  duration: null,
   preview_key: `previews/${id}.jpg`,
   filename: `photo-${id}.jpg`,
   file_size: 1024000,
+  thumb_size: null,
+  preview_size: null,
   width: 1920,
   height: 1080,
   mime_type: 'image/jpeg',
@@ -42,6 +49,7 @@ const createMockPhoto = (id: string, overrides?: Partial<Photo>): Photo => ({
   rotation: 0,
   sort_order: 0,
   retoucher_id: null,
+  current_version_id: null,
   captured_at: null,
   status: 'completed',
   is_selected: false,
@@ -3,11 +3,14 @@
 import { useState, useCallback, useRef, useEffect, memo } from 'react'
 import dynamic from 'next/dynamic'
 import { motion } from 'framer-motion'
-import { Heart, Download, Share2, Expand, Loader2, ImageIcon } from 'lucide-react'
+import { Heart, Download, Share2, Expand, Loader2, ImageIcon, Play } from 'lucide-react'
 import type { Photo, Album } from '@/types/database'
 import { cn, getSafeMediaUrl } from '@/lib/utils'
 import { getBlurDataURL } from '@/lib/blurhash'
 import { handleApiError } from '@/lib/toast'
+import { formatDuration } from '@/lib/media-types'
+import { buildDerivativeSources } from '@/lib/image-derivatives'
+import { trackAnalyticsEvent } from '@/lib/analytics-client'
 import { OptimizedImage } from '@/components/ui/optimized-image'
 import { LayoutMode } from './layout-toggle'
 
@@ -23,8 +26,12 @@ interface MasonryGridProps {
   layout?: LayoutMode
   hasMore?: boolean
   isLoading?: boolean
+  /** 是否允许选片（分享链接可能只允许浏览） */
+  allowSelect?: boolean
   onLoadMore?: () => void
   onSelectChange?: (photoId: string, isSelected: boolean) => void
+  /** 选片时访客尚未建立身份，返回 true 表示身份已建立、可重试 */
+  onGuestSessionRequired?: () => Promise<boolean>
 }
 
 /**
@@ -37,8 +44,10 @@ export function MasonryGrid({
   layout = 'masonry',
   hasMore = false,
   isLoading = false,
+  allowSelect = true,
   onLoadMore,
   onSelectChange,
+  onGuestSessionRequired,
 }: MasonryGridProps) {
   const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
   const [selectedMap, setSelectedMap] = useState<Record<string, boolean>>(() => {
@@ -131,19 +140,19 @@ export function MasonryGrid({
     }
   }, [photos, preloadImages])
 
-  // 同步新照片的选中状态
+  // 同步照片的选中状态（新照片，或父组件更新了 is_selected，如访客身份加载完成）
+  const lastPropSelectedRef = useRef<Record<string, boolean>>({})
   useEffect(() => {
-    setSelectedMap((prev) => {
-      const newMap = { ...prev }
-      let hasChanges = false
-      photos.forEach((p) => {
-        if (!(p.id in newMap)) {
-          newMap[p.id] = p.is_selected
-          hasChanges = true
-        }
-      })
-      return hasChanges ? newMap : prev
+    const updates: Record<string, boolean> = {}
+    photos.forEach((p) => {
+      if (lastPropSelectedRef.current[p.id] !== p.is_selected) {
+        updates[p.id] = p.is_selected
+        lastPropSelectedRef.current[p.id] = p.is_selected
+      }
     })
+    if (Object.keys(updates).length > 0) {
+      setSelectedMap((prev) => ({ ...prev, ...updates }))
+    }
   }, [photos])
 
   const handlePhotoClick = useCallback((index: number) => {
@@ -188,22 +197,40 @@ export function MasonryGrid({
       setSelectedMap((prev) => ({ ...prev, [photoId]: newSelected }))
       onSelectChange?.(photoId, newSelected)
 
-      try {
-        const res = await fetch(`/api/public/photos/${photoId}/select`, {
+      const requestSelect = () =>
+        fetch(`/api/public/photos/${photoId}/select`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ isSelected: newSelected }),
         })
 
+      try {
+        let res = await requestSelect()
+
+        // 尚未填写选片身份：填写后自动重试
+        if (res.status === 401 && onGuestSessionRequired) {
+          const errorData = await res.clone().json().catch(() => ({}))
+          if (errorData.error?.code === 'GUEST_SESSION_REQUIRED' && (await onGuestSessionRequired())) {
+            res = await requestSelect()
+          }
+        }
+
         if (!res.ok) {
           // 回滚
           setSelectedMap((prev) => ({ ...prev, [photoId]: currentSelected }))
           onSelectChange?.(photoId, currentSelected)
           
-          // 显示错误信息
+          // 显示错误信息（取消填写身份时不提示）
           const errorData = await res.json()
-          handleApiError(new Error(errorData.error?.message || '操作失败'), '选片失败')
+          if (errorData.error?.code !== 'GUEST_SESSION_REQUIRED' || !onGuestSessionRequired) {
+            handleApiError(new Error(errorData.error?.message || '操作失败'), '选片失败')
+          }
+          return
         }
+
+        // 身份建立后选片列表会重新加载，这里再同步一次最终状态
+        setSelectedMap((prev) => ({ ...prev, [photoId]: newSelected }))
+        onSelectChange?.(photoId, newSelected)
       } catch (error) {
         // 回滚
         setSelectedMap((prev) => ({ ...prev, [photoId]: currentSelected }))
@@ -211,7 +238,7 @@ export function MasonryGrid({
         handleApiError(error, '选片失败')
       }
     },
-    [onSelectChange]
+    [onSelectChange, onGuestSessionRequired]
   )
 
   // Lightbox 内选片变化时同步到本地状态
@@ -265,7 +292,7 @@ export function MasonryGrid({
               photoRefs.current[index] = node
             }}
             onClick={() => handlePhotoClick(index)}
-            showSelect={true}
+            showSelect={allowSelect}
             isSelected={selectedMap[photo.id] || false}
             onToggleSelect={handleCardSelect}
             allowDownload={album.allow_download}
@@ -294,7 +321,9 @@ export function MasonryGrid({
           open={true}
           onClose={handleLightboxClose}
           allowDownload={album.allow_download}
+          allowSelect={allowSelect}
           onSelectChange={handleLightboxSelectChange}
+          onGuestSessionRequired={onGuestSessionRequired}
           onIndexChange={handleLightboxIndexChange}
         />
       )}
@@ -350,14 +379,23 @@ const PhotoCard = memo(function PhotoCard({
   // 图片 key 优先级：preview_key -> thumb_key -> original_key
   // 预览图大小修改后，如果 preview_key 文件不存在，会自动降级到 thumb_key 或 original_key
   // 这确保了向后兼容：即使预览图标准修改，旧图片仍能正常显示
+  // 视频的 original_key 是视频文件，不能作为图片降级
+  const isVideo = photo.media_type === 'video'
   const imageKeys = [
     photo.preview_key,
     photo.thumb_key,
-    photo.original_key,
+    isVideo ? null : photo.original_key,
   ].filter(Boolean) as string[]
   
   // 当前使用的图片 key
   const currentImageKey = imageKeys[imageKeyIndex] || null
+
+  // 响应式衍生图（AVIF/WebP/JPEG 多尺寸），旧照片尚未生成时为空，直接使用 currentImageKey
+  const derivativeSources = buildDerivativeSources(
+    photo.derivatives,
+    safeMediaUrl,
+    photo.updated_at ? new Date(photo.updated_at).getTime() : null
+  )
   
   // 调试：记录图片 key 信息（仅在开发环境）
   useEffect(() => {
@@ -452,6 +490,7 @@ const PhotoCard = memo(function PhotoCard({
           title: '分享照片',
           url: shareUrl,
         })
+        trackAnalyticsEvent('share', photo.album_id, photo.id)
       } catch {
         // 用户取消分享
       }
@@ -460,6 +499,7 @@ const PhotoCard = memo(function PhotoCard({
       const { copyToClipboard } = await import('@/lib/clipboard')
       const success = await copyToClipboard(shareUrl)
       if (success) {
+        trackAnalyticsEvent('share', photo.album_id, photo.id)
         setShowCopied(true)
         setTimeout(() => setShowCopied(false), 2000)
       }
@@ -507,6 +547,7 @@ const PhotoCard = memo(function PhotoCard({
               blurDataURL={blurDataURL}
               aspectRatio={layout !== 'grid' ? aspectRatio : undefined}
               unoptimized // 缩略图已优化(400px)，跳过 Vercel 处理，直接从 Cloudflare CDN 加载
+              sources={derivativeSources}
               onError={handleImageError}
             />
           ) : (
@@ -524,12 +565,27 @@ const PhotoCard = memo(function PhotoCard({
           {/* 悬停遮罩 */}
           <div className="absolute inset-0 bg-gradient-to-t from-black/40 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
           
-          {/* 放大图标 */}
-          <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none">
-            <div className="p-3 bg-white/20 backdrop-blur-sm rounded-full">
-              <Expand className="w-6 h-6 text-white" />
+          {/* 放大图标（视频显示常驻播放图标） */}
+          {isVideo ? (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className="p-3 bg-black/40 backdrop-blur-sm rounded-full">
+                <Play className="w-6 h-6 text-white fill-white" />
+              </div>
             </div>
-          </div>
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none">
+              <div className="p-3 bg-white/20 backdrop-blur-sm rounded-full">
+                <Expand className="w-6 h-6 text-white" />
+              </div>
+            </div>
+          )}
+
+          {/* 视频时长 */}
+          {isVideo && photo.duration != null && (
+            <span className="absolute top-2 left-2 px-1.5 py-0.5 bg-black/60 text-white text-xs rounded tabular-nums pointer-events-none">
+              {formatDuration(photo.duration)}
+            </span>
+          )}
 
           {/* 底部操作栏 - 悬浮在图片上 */}
           {/* 移动端隐藏，桌面端 hover 显示 */}
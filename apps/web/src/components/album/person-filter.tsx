@@ -0,0 +1,121 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Users } from 'lucide-react'
+import { FaceAvatar } from './face-avatar'
+import type { FaceCrop } from '@/lib/face-crop'
+import { cn } from '@/lib/utils'
+
+interface PersonFilterProps {
+  albumSlug: string
+  selectedPersonId?: string | null
+}
+
+interface GuestPerson {
+  id: string
+  name: string | null
+  photo_count: number
+  thumb_key: string | null
+  crop: FaceCrop | null
+}
+
+/**
+ * 人物筛选条
+ * 展示相册中聚类出的人物头像，访客点击即可查看该人物的所有照片（无需上传自拍）
+ */
+export function PersonFilter({ albumSlug, selectedPersonId: externalSelectedPersonId }: PersonFilterProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const t = useTranslations('album.persons')
+  const [persons, setPersons] = useState<GuestPerson[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const selectedPersonId = externalSelectedPersonId ?? searchParams.get('person')
+
+  useEffect(() => {
+    const loadPersons = async () => {
+      try {
+        const response = await fetch(`/api/public/albums/${albumSlug}/persons`)
+        if (response.ok) {
+          const data = await response.json()
+          setPersons(data.data?.persons || data.persons || [])
+        }
+      } catch (error) {
+        console.error('Failed to load persons:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadPersons()
+  }, [albumSlug])
+
+  const handlePersonSelect = (personId: string | null) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (personId) {
+      params.set('person', personId)
+    } else {
+      params.delete('person')
+    }
+    router.push(`?${params.toString()}`, { scroll: false })
+  }
+
+  if (loading || persons.length === 0) {
+    return null
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm text-text-secondary mb-2">{t('title')}</h3>
+      <div className="flex gap-3 overflow-x-auto pb-2 -mx-4 px-4 scrollbar-hide">
+        {/* 全部照片 */}
+        <button
+          onClick={() => handlePersonSelect(null)}
+          className="flex flex-col items-center gap-1 flex-shrink-0 w-16 active:scale-95 transition-transform"
+        >
+          <div
+            className={cn(
+              'w-14 h-14 rounded-full flex items-center justify-center bg-surface ring-2 ring-offset-2 ring-offset-background',
+              !selectedPersonId ? 'ring-accent' : 'ring-transparent'
+            )}
+          >
+            <Users className="w-6 h-6 text-text-secondary" />
+          </div>
+          <span className="text-xs text-text-secondary truncate w-full text-center">{t('all')}</span>
+        </button>
+
+        {/* 人物头像 */}
+        {persons.map((person, index) => {
+          const label = person.name || t('unnamed', { index: index + 1 })
+          return (
+            <button
+              key={person.id}
+              onClick={() => handlePersonSelect(selectedPersonId === person.id ? null : person.id)}
+              className="flex flex-col items-center gap-1 flex-shrink-0 w-16 active:scale-95 transition-transform"
+              title={`${label} · ${t('photoCount', { count: person.photo_count })}`}
+            >
+              <FaceAvatar
+                thumbKey={person.thumb_key}
+                crop={person.crop}
+                alt={label}
+                className={cn(
+                  'w-14 h-14 ring-2 ring-offset-2 ring-offset-background',
+                  selectedPersonId === person.id ? 'ring-accent' : 'ring-transparent'
+                )}
+              />
+              <span
+                className={cn(
+                  'text-xs truncate w-full text-center',
+                  selectedPersonId === person.id ? 'text-accent' : 'text-text-secondary'
+                )}
+              >
+                {label}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
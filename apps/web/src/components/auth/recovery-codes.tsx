@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy } from 'lucide-react'
+
+interface RecoveryCodesProps {
+  codes: string[]
+}
+
+/**
+ * 恢复码展示（仅在生成时展示一次）
+ */
+export function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // 剪贴板不可用时用户可以手动抄写
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-text-secondary">
+        请将以下恢复码保存在安全的地方。手机丢失时，每个恢复码可代替验证码使用一次，关闭此页面后将无法再次查看。
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 bg-surface-elevated rounded-lg font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <button type="button" onClick={handleCopy} className="btn-secondary w-full">
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        {copied ? '已复制' : '复制恢复码'}
+      </button>
+    </div>
+  )
+}
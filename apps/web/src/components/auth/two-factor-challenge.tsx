@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, ShieldCheck } from 'lucide-react'
+import { QRCodeSVG } from 'qrcode.react'
+import { RecoveryCodes } from './recovery-codes'
+
+interface TwoFactorChallengeProps {
+  /** 登录接口返回的挑战令牌 */
+  challengeToken: string
+  /** verify：输入验证码；setup：强制绑定验证器 */
+  purpose: 'verify' | 'setup'
+  /** 登录完成（会话 Cookie 已写入） */
+  onComplete: () => void
+  /** 返回密码登录 */
+  onCancel: () => void
+}
+
+/**
+ * 登录两步验证步骤
+ *
+ * 密码验证通过后展示：已启用两步验证的用户输入验证码或恢复码；
+ * 强制启用但尚未绑定的管理员先扫码绑定验证器，保存恢复码后完成登录。
+ */
+export function TwoFactorChallenge({ challengeToken, purpose, onComplete, onCancel }: TwoFactorChallengeProps) {
+  const [code, setCode] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  // 绑定模式：生成密钥和二维码
+  useEffect(() => {
+    if (purpose !== 'setup') return
+    let cancelled = false
+
+    const startSetup = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch('/api/auth/two-factor/setup', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ challengeToken }),
+        })
+        const data = await response.json()
+        if (cancelled) return
+        if (!response.ok) {
+          setError(data.error?.message || '无法开始绑定验证器，请重新登录')
+          return
+        }
+        setSetup(data.data)
+      } catch {
+        if (!cancelled) setError('无法开始绑定验证器，请重新登录')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    startSetup()
+    return () => {
+      cancelled = true
+    }
+  }, [purpose, challengeToken])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const response = await fetch(
+        purpose === 'setup' ? '/api/auth/two-factor/enable' : '/api/auth/two-factor/verify',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ challengeToken, code: code.trim() }),
+        }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error?.message || '验证失败，请重试')
+        return
+      }
+
+      if (purpose === 'setup') {
+        setRecoveryCodes(data.data?.recoveryCodes ?? [])
+        return
+      }
+
+      onComplete()
+    } catch {
+      setError('验证失败，请重试')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="card space-y-6 p-6 sm:p-8">
+        <div className="text-center">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-green-500/10 rounded-full mb-3">
+            <ShieldCheck className="w-6 h-6 text-green-400" />
+          </div>
+          <h2 className="text-xl font-semibold">两步验证已启用</h2>
+        </div>
+        <RecoveryCodes codes={recoveryCodes} />
+        <button type="button" onClick={onComplete} className="btn-primary w-full">
+          我已保存，进入后台
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-6 p-6 sm:p-8">
+      <div className="text-center">
+        <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-500/10 rounded-full mb-3">
+          <ShieldCheck className="w-6 h-6 text-blue-400" />
+        </div>
+        <h2 className="text-xl font-semibold mb-2">
+          {purpose === 'setup' ? '绑定验证器' : '两步验证'}
+        </h2>
+        <p className="text-sm text-text-secondary">
+          {purpose === 'setup'
+            ? '管理员账户需要启用两步验证。请使用验证器 App（如 Google Authenticator、1Password）扫描二维码，然后输入显示的 6 位验证码'
+            : '请输入验证器 App 中显示的 6 位验证码，或使用一个恢复码'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {purpose === 'setup' && setup && (
+        <div className="space-y-3 text-center">
+          <div className="inline-block p-3 bg-white rounded-lg">
+            <QRCodeSVG value={setup.otpauthUrl} size={180} />
+          </div>
+          <p className="text-xs text-text-muted">
+            无法扫码？手动输入密钥：
+            <span className="font-mono break-all select-all text-text-secondary">{setup.secret}</span>
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="twoFactorCode" className="block text-sm font-medium text-text-secondary mb-2">
+          {purpose === 'setup' ? '验证码' : '验证码或恢复码'}
+        </label>
+        <input
+          id="twoFactorCode"
+          type="text"
+          inputMode={purpose === 'setup' ? 'numeric' : 'text'}
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="input text-center tracking-widest"
+          placeholder={purpose === 'setup' ? '123456' : '123456 或 abcd-efgh'}
+          required
+          autoFocus
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading || (purpose === 'setup' && !setup)}
+        className="btn-primary w-full"
+      >
+        {loading ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            验证中...
+          </>
+        ) : purpose === 'setup' ? (
+          '启用并登录'
+        ) : (
+          '验证并登录'
+        )}
+      </button>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full text-sm text-text-muted hover:text-text-secondary transition-colors"
+      >
+        返回密码登录
+      </button>
+    </form>
+  )
+}
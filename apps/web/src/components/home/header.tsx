@@ -5,16 +5,16 @@ import Image from 'next/image'
 import { Settings } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import { LanguageSwitcher } from '@/components/ui/language-switcher'
+import { useSiteSettings } from '@/components/site-settings-provider'
 
 export function HomeHeader() {
   const t = useTranslations('nav')
   const tHome = useTranslations('home')
+  const { branding } = useSiteSettings()
   
-  // 支持通过环境变量配置自定义 logo，默认使用新生成的图标
-  const logoPath = process.env.NEXT_PUBLIC_LOGO_URL || '/icons/icon-192x192.png'
-  // 添加版本号参数破坏缓存，确保 Vercel 部署后能立即看到新 logo
-  // Service Worker 已更新为网络优先策略，但仍添加版本号作为额外保障
-  const logoUrl = `${logoPath}?v=3` // 更新 logo 时请更新此版本号
+  // 后台系统设置中上传的 logo（每次上传文件名不同，无需额外破坏缓存），默认使用内置图标
+  // 内置图标添加版本号参数破坏缓存，Service Worker 已更新为网络优先策略，但仍添加版本号作为额外保障
+  const logoUrl = branding.logo_url || '/icons/icon-192x192.png?v=3' // 更新内置 logo 时请更新此版本号
 
   return (
     <header className="fixed top-0 left-0 right-0 z-50 bg-background/95 backdrop-blur-md border-b border-border safe-area-top">
@@ -23,7 +23,7 @@ export function HomeHeader() {
           {/* Logo */}
           <Image
             src={logoUrl}
-            alt="PIS Logo"
+            alt={`${branding.studio_name} Logo`}
             width={40}
             height={40}
             className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 flex-shrink-0 transition-transform group-hover:scale-110"
@@ -6,6 +6,7 @@ import { motion, useScroll, useTransform } from 'framer-motion'
 import { ChevronDown, Aperture } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import { getSafeMediaUrl } from '@/lib/utils'
+import { useSiteSettings } from '@/components/site-settings-provider'
 import type { Album, Photo } from '@/types/database'
 
 interface HomeHeroProps {
@@ -15,6 +16,7 @@ interface HomeHeroProps {
 
 export function HomeHero({ featuredAlbum, coverPhoto }: HomeHeroProps) {
   const t = useTranslations('home.hero')
+  const { branding } = useSiteSettings()
   const [isLoaded, setIsLoaded] = useState(false)
   // 默认假设用户偏好减少动画，确保文字初始可见
   // 如果检测到用户不偏好减少动画，再启用动画效果
@@ -63,7 +65,7 @@ export function HomeHero({ featuredAlbum, coverPhoto }: HomeHeroProps) {
           <div className="absolute inset-0 w-full h-[130%]">
             <Image
               src={coverUrl}
-              alt={featuredAlbum?.title || process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'}
+              alt={featuredAlbum?.title || branding.studio_name}
               fill
               priority
               className={`object-cover transition-all duration-1000 ${
@@ -2,16 +2,14 @@
 
 import Link from 'next/link'
 import { useTranslations } from 'next-intl'
-
-// 从环境变量获取配置
-const ICP_NUMBER = process.env.NEXT_PUBLIC_ICP_NUMBER || ''
-const POLICE_NUMBER = process.env.NEXT_PUBLIC_POLICE_NUMBER || ''
-const COPYRIGHT_TEXT = process.env.NEXT_PUBLIC_COPYRIGHT_TEXT || ''
+import { useSiteSettings } from '@/components/site-settings-provider'
 
 export function SiteFooter() {
   const t = useTranslations('footer')
   const currentYear = new Date().getFullYear()
-  const photographerName = process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || 'PIS Photography'
+  // 版权和备案信息来自后台系统设置
+  const { branding } = useSiteSettings()
+  const photographerName = branding.studio_name
 
   return (
     <footer className="border-t border-border bg-background">
@@ -20,7 +18,7 @@ export function SiteFooter() {
           {/* 第一行：版权和链接 */}
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 md:gap-4">
             <div className="flex flex-wrap items-center gap-x-2 gap-y-1 md:gap-4">
-              <span>© {currentYear} {COPYRIGHT_TEXT || photographerName}</span>
+              <span>© {currentYear} {branding.copyright_text || photographerName}</span>
               <span className="hidden md:inline">|</span>
               <div className="flex items-center gap-2">
                 <span className="hover:text-accent transition-colors cursor-pointer">
@@ -48,19 +46,19 @@ export function SiteFooter() {
           </div>
 
           {/* 第二行：备案信息（如果配置了）*/}
-          {(ICP_NUMBER || POLICE_NUMBER) && (
+          {(branding.icp_number || branding.police_number) && (
             <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-text-muted/80">
-              {ICP_NUMBER && (
+              {branding.icp_number && (
                 <a
                   href="https://beian.miit.gov.cn/"
                   target="_blank"
                   rel="noopener noreferrer"
                   className="hover:text-accent transition-colors"
                 >
-                  {ICP_NUMBER}
+                  {branding.icp_number}
                 </a>
               )}
-              {POLICE_NUMBER && (
+              {branding.police_number && (
                 <a
                   href="http://www.beian.gov.cn/"
                   target="_blank"
@@ -73,7 +71,7 @@ export function SiteFooter() {
                     className="w-3.5 h-3.5"
                     onError={(e) => { e.currentTarget.style.display = 'none' }}
                   />
-                  {POLICE_NUMBER}
+                  {branding.police_number}
                 </a>
               )}
             </div>
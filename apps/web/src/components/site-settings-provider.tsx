@@ -0,0 +1,30 @@
+'use client'
+
+import { createContext, useContext } from 'react'
+import { DEFAULT_SYSTEM_SETTINGS, toPublicSettings, type PublicSettings } from '@/lib/system-settings-defaults'
+
+const SiteSettingsContext = createContext<PublicSettings>(toPublicSettings(DEFAULT_SYSTEM_SETTINGS))
+
+/**
+ * 站点设置 Provider
+ *
+ * 根布局在服务端读取系统设置后传入，客户端组件通过 useSiteSettings 读取品牌信息和功能开关
+ */
+export function SiteSettingsProvider({
+  settings,
+  children,
+}: {
+  settings: PublicSettings
+  children: React.ReactNode
+}) {
+  return <SiteSettingsContext.Provider value={settings}>{children}</SiteSettingsContext.Provider>
+}
+
+/**
+ * 读取站点设置（品牌信息和功能开关）
+ *
+ * 不在 Provider 内使用时（如单元测试）返回默认设置
+ */
+export function useSiteSettings(): PublicSettings {
+  return useContext(SiteSettingsContext)
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import Image from 'next/image'
 import { ImageIcon } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import type { ImageSource } from '@/lib/image-derivatives'
 
 interface OptimizedImageProps {
   src: string
@@ -19,6 +20,7 @@ interface OptimizedImageProps {
   onError?: () => void
   aspectRatio?: number
   unoptimized?: boolean // 跳过 Next.js 优化，直接从 CDN 加载
+  sources?: ImageSource[] // 响应式衍生图（AVIF/WebP/JPEG srcset），存在时使用 <picture> 渲染
 }
 
 /**
@@ -27,6 +29,7 @@ interface OptimizedImageProps {
  * - 其他图片使用 Next.js 内置的 lazy loading（自动检测视口）
  * - 优化图片质量和尺寸
  * - 支持 BlurHash 占位符
+ * - 提供响应式衍生图时使用 <picture>，由浏览器按屏幕宽度和格式支持选择；加载失败回退到 src
  */
 export function OptimizedImage({
   src,
@@ -42,6 +45,7 @@ export function OptimizedImage({
   onError,
   aspectRatio,
   unoptimized = false, // 默认使用 Next.js 优化；CDN 已优化的图片可设为 true
+  sources,
 }: OptimizedImageProps) {
   // 自动检测 localhost 环境，如果是 localhost 则跳过 Next.js 优化，避免 Docker 容器内部回环访问失败
   const isLocalhost = typeof src === 'string' && (src.includes('localhost') || src.includes('127.0.0.1'));
@@ -52,6 +56,7 @@ export function OptimizedImage({
   const [retryCount, setRetryCount] = useState(0)
   const [useNativeImg, setUseNativeImg] = useState(false) // 用于 HTTP/2 错误时回退到原生 img 标签
   const [fallbackSrc, setFallbackSrc] = useState<string | null>(null) // 用于尝试 HTTP/1.1 回退
+  const [sourcesFailed, setSourcesFailed] = useState(false) // 衍生图加载失败时回退到 src
   
   // 当 src 改变时，重置错误状态，以便尝试加载新的图片
   // 这确保了降级机制能正常工作：当切换到下一个后备图片时，会重新尝试加载
@@ -61,6 +66,7 @@ export function OptimizedImage({
     setRetryCount(0)
     setUseNativeImg(false)
     setFallbackSrc(null)
+    setSourcesFailed(false)
   }, [src])
   
   // 当 onError 回调改变时，也重置错误状态（用于父组件更新错误处理逻辑）
@@ -252,6 +258,41 @@ export function OptimizedImage({
   // 如果 src 存在且没有错误，渲染图片
   // HTTP/2 错误时使用原生 img 标签绕过 Next.js Image 组件
   if (!imageError && (src || fallbackSrc)) {
+    // 响应式衍生图：<source> 按 AVIF → WebP 顺序，<img> 使用 JPEG srcset 兜底
+    if (sources && sources.length > 0 && !sourcesFailed && !useNativeImg) {
+      const jpegSource = sources.find((source) => source.type === 'image/jpeg')
+      return (
+        <div className={cn('relative', fill ? 'w-full h-full' : '')}>
+          <picture>
+            {sources
+              .filter((source) => source !== jpegSource)
+              .map((source) => (
+                <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+              ))}
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={src}
+              srcSet={jpegSource?.srcSet}
+              sizes={sizes}
+              alt={alt}
+              width={width}
+              height={height}
+              className={cn(className, fill ? 'absolute inset-0 w-full h-full object-cover' : '')}
+              loading={priority ? 'eager' : 'lazy'}
+              fetchPriority={priority ? 'high' : undefined}
+              decoding="async"
+              onError={() => setSourcesFailed(true)}
+              style={
+                blurDataURL
+                  ? { backgroundImage: `url(${blurDataURL})`, backgroundSize: 'cover' }
+                  : undefined
+              }
+            />
+          </picture>
+        </div>
+      )
+    }
+
     // HTTP/2 错误回退：使用原生 img 标签（绕过 Next.js Image 的 HTTP/2 处理）
     if (useNativeImg) {
       const imgSrc = fallbackSrc || src
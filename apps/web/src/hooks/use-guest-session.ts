@@ -0,0 +1,118 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+
+export interface GuestSessionInfo {
+  id: string
+  guestName: string
+  guestPhone: string | null
+  submittedAt: string | null
+  selectedPhotoIds: string[]
+  selectedCount: number
+}
+
+interface GuestSessionResponse {
+  maxSelection: number | null
+  session: GuestSessionInfo | null
+}
+
+/**
+ * 访客选片会话 Hook
+ *
+ * 负责读取/创建当前访客的选片身份，并在本地维护已选照片集合，
+ * 供网格和 Lightbox 显示「我的选片」状态。
+ *
+ * 使用方法:
+ * ```tsx
+ * const guest = useGuestSession(album.slug)
+ * if (!guest.session) {
+ *   await guest.createSession('张三', '13800000000')
+ * }
+ * guest.markSelected(photoId, true)
+ * ```
+ */
+export function useGuestSession(albumSlug: string) {
+  const [session, setSession] = useState<GuestSessionInfo | null>(null)
+  const [maxSelection, setMaxSelection] = useState<number | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const slugRef = useRef(albumSlug)
+  slugRef.current = albumSlug
+
+  const applyResponse = useCallback((data: GuestSessionResponse) => {
+    setMaxSelection(data.maxSelection ?? null)
+    setSession(data.session)
+    setSelectedIds(new Set(data.session?.selectedPhotoIds || []))
+  }, [])
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/public/albums/${slugRef.current}/guest-session`)
+      if (!res.ok) return
+      const result = await res.json()
+      applyResponse(result.data)
+    } catch {
+      // 静默失败：未获取到会话时，访客首次选片会再次提示填写身份
+    } finally {
+      setLoading(false)
+    }
+  }, [applyResponse])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh, albumSlug])
+
+  const createSession = useCallback(
+    async (guestName: string, guestPhone?: string) => {
+      const res = await fetch(`/api/public/albums/${slugRef.current}/guest-session`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guestName, guestPhone }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        throw new Error(result.error?.message || '保存失败')
+      }
+      applyResponse(result.data)
+      return result.data.session as GuestSessionInfo
+    },
+    [applyResponse]
+  )
+
+  const submit = useCallback(async () => {
+    const res = await fetch(`/api/public/albums/${slugRef.current}/guest-session/submit`, {
+      method: 'POST',
+    })
+    const result = await res.json()
+    if (!res.ok) {
+      throw new Error(result.error?.message || '提交失败')
+    }
+    setSession((prev) => (prev ? { ...prev, submittedAt: result.data.submittedAt } : prev))
+  }, [])
+
+  // 选片成功后同步本地集合（网格/Lightbox 已完成请求）
+  const markSelected = useCallback((photoId: string, isSelected: boolean) => {
+    setSelectedIds((prev) => {
+      if (prev.has(photoId) === isSelected) return prev
+      const next = new Set(prev)
+      if (isSelected) {
+        next.add(photoId)
+      } else {
+        next.delete(photoId)
+      }
+      return next
+    })
+  }, [])
+
+  return {
+    session,
+    maxSelection,
+    selectedIds,
+    loading,
+    isSubmitted: !!session?.submittedAt,
+    refresh,
+    createSession,
+    submit,
+    markSelected,
+  }
+}
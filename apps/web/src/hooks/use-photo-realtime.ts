@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useCallback, useRef } from 'react'
+import { useEffect, useCallback, useRef, useState } from 'react'
 import type { Photo } from '@/types/database'
 
 interface UsePhotoRealtimeOptions {
@@ -13,23 +13,141 @@ interface UsePhotoRealtimeOptions {
 }
 
 /**
- * 照片变更监听 Hook（使用轮询替代 Realtime）
- * 
- * 注意：PostgreSQL 没有内置 Realtime 功能，使用轮询方式检查照片更新
- * 轮询间隔：5秒（可在环境变量中配置 POLLING_INTERVAL）
- * 
+ * 服务端推送的照片事件（见 lib/photo-events）
+ */
+interface PhotoStreamMessage {
+  type: 'insert' | 'update' | 'delete'
+  photo_id: string
+  status?: Photo['status'] | null
+  /** 访客端 insert 事件携带的照片数据 */
+  photo?: Photo
+}
+
+/** 推送不可用时，重新尝试建立推送连接的间隔 */
+const STREAM_RETRY_MS = 30000
+
+/**
+ * 订阅照片事件流（SSE），不可用时回退到轮询
+ *
+ * - 连接建立（包括断线重连）后调用一次 resync，补齐断线期间错过的变化
+ * - 断线期间浏览器会自动重连，同时按 pollInterval 轮询
+ * - 接口返回错误（如 503 未启用实时推送）时连接关闭，改为轮询并定期尝试恢复推送
+ *
+ * @returns 推送连接是否已建立
+ */
+function usePhotoEventStream({
+  url,
+  enabled,
+  pollInterval,
+  onMessage,
+  resync,
+}: {
+  url: string | null
+  enabled: boolean
+  pollInterval: number
+  onMessage: (message: PhotoStreamMessage) => void
+  resync: () => void
+}): boolean {
+  const [connected, setConnected] = useState(false)
+
+  // 使用 ref 存储回调，避免重复订阅
+  const callbacksRef = useRef({ onMessage, resync })
+  callbacksRef.current = { onMessage, resync }
+
+  useEffect(() => {
+    if (!enabled || !url) return
+
+    let source: EventSource | null = null
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let disposed = false
+
+    const startPolling = () => {
+      if (pollTimer) return
+      callbacksRef.current.resync()
+      pollTimer = setInterval(() => callbacksRef.current.resync(), pollInterval)
+    }
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer)
+        pollTimer = null
+      }
+    }
+
+    const connect = () => {
+      retryTimer = null
+      if (disposed) return
+
+      // 不支持 EventSource 的环境直接轮询
+      if (typeof EventSource === 'undefined') {
+        startPolling()
+        return
+      }
+
+      const current = new EventSource(url)
+      source = current
+
+      current.onopen = () => {
+        stopPolling()
+        setConnected(true)
+        callbacksRef.current.resync()
+      }
+
+      current.onmessage = (event: MessageEvent<string>) => {
+        try {
+          callbacksRef.current.onMessage(JSON.parse(event.data) as PhotoStreamMessage)
+        } catch (error) {
+          console.error('Failed to handle photo event:', error)
+        }
+      }
+
+      current.onerror = () => {
+        setConnected(false)
+        startPolling()
+        // CONNECTING 状态由浏览器自动重连；CLOSED 表示服务端拒绝，稍后手动重试
+        if (current.readyState === EventSource.CLOSED) {
+          current.close()
+          source = null
+          if (!disposed && !retryTimer) {
+            retryTimer = setTimeout(connect, STREAM_RETRY_MS)
+          }
+        }
+      }
+    }
+
+    connect()
+
+    return () => {
+      disposed = true
+      source?.close()
+      stopPolling()
+      if (retryTimer) clearTimeout(retryTimer)
+      setConnected(false)
+    }
+  }, [url, enabled, pollInterval])
+
+  return connected
+}
+
+/**
+ * 照片变更监听 Hook（访客端）
+ *
+ * 直播相册通过 SSE 接收服务端推送（新照片、删除），服务端未启用实时推送或连接断开时回退到轮询
+ * 轮询间隔：5秒（可在环境变量中配置 NEXT_PUBLIC_POLLING_INTERVAL）
+ *
  * 使用方法:
  * ```tsx
  * usePhotoRealtime({
  *   albumId: album.id,
  *   albumSlug: album.slug, // 公开 API 使用 slug
- *   enabled: true,
+ *   enabled: album.is_live,
  *   onInsert: (photo) => {
  *     // 新照片插入，添加到列表
  *     setPhotos(prev => [photo, ...prev])
  *   },
  *   onUpdate: (photo) => {
- *     // 照片更新 (如 status 变更)
+ *     // 已知照片重新处理完成（如旋转、重新处理）
  *     setPhotos(prev => prev.map(p => p.id === photo.id ? photo : p))
  *   },
  *   onDelete: (photoId) => {
@@ -92,40 +210,70 @@ export function usePhotoRealtime({
     }
   }, [albumId, albumSlug])
 
-  useEffect(() => {
-    if (!enabled || !albumId || !albumSlug) return
+  const handleMessage = useCallback((message: PhotoStreamMessage) => {
+    if (message.type === 'delete') {
+      if (knownPhotoIdsRef.current.delete(message.photo_id)) {
+        callbacksRef.current.onDelete?.(message.photo_id)
+      }
+      return
+    }
+    if (message.type === 'insert' && message.photo) {
+      if (knownPhotoIdsRef.current.has(message.photo_id)) {
+        callbacksRef.current.onUpdate?.(message.photo)
+      } else {
+        knownPhotoIdsRef.current.add(message.photo_id)
+        callbacksRef.current.onInsert?.(message.photo)
+      }
+    }
+  }, [])
 
-    // 初始化已知照片ID
-    checkForUpdates()
+  // 设置轮询间隔（默认5秒，仅在推送不可用时使用）
+  const pollingInterval = parseInt(process.env.NEXT_PUBLIC_POLLING_INTERVAL || '5000', 10)
 
-    // 设置轮询间隔（默认5秒）
-    const pollingInterval = parseInt(process.env.NEXT_PUBLIC_POLLING_INTERVAL || '5000', 10)
-    const intervalId = setInterval(checkForUpdates, pollingInterval)
+  usePhotoEventStream({
+    url: albumId && albumSlug ? `/api/public/albums/${albumSlug}/events` : null,
+    enabled,
+    pollInterval: pollingInterval,
+    onMessage: handleMessage,
+    resync: checkForUpdates,
+  })
 
+  useEffect(() => {
     // 在effect开始时复制ref值，避免cleanup时ref已改变
     const knownPhotoIds = knownPhotoIdsRef.current
 
     return () => {
-      clearInterval(intervalId)
       knownPhotoIds.clear()
     }
-  }, [albumId, albumSlug, enabled, checkForUpdates])
+  }, [albumId, albumSlug, enabled])
 }
 
 /**
- * 管理员端使用 - 监听所有状态变更（使用轮询）
+ * 管理员端使用 - 监听所有状态变更
+ *
+ * 通过 SSE 接收照片处理进度（processing / completed / failed 等）和删除事件，
+ * 推送不可用时回退到轮询（默认3秒，可在环境变量中配置 NEXT_PUBLIC_ADMIN_POLLING_INTERVAL）
+ *
+ * 提供 onResync 时，连接建立和轮询时调用 onResync 由调用方自行刷新列表；
+ * 否则对比照片列表的状态变化并调用 onStatusChange
+ *
+ * @returns 推送连接是否已建立
  */
 export function usePhotoRealtimeAdmin({
   albumId,
   enabled = true,
   onStatusChange,
+  onDelete,
+  onResync,
 }: {
   albumId: string
   enabled?: boolean
   onStatusChange?: (photoId: string, status: Photo['status']) => void
-}) {
-  const callbackRef = useRef(onStatusChange)
-  callbackRef.current = onStatusChange
+  onDelete?: (photoId: string) => void
+  onResync?: () => void
+}): boolean {
+  const callbacksRef = useRef({ onStatusChange, onDelete, onResync })
+  callbacksRef.current = { onStatusChange, onDelete, onResync }
 
   // 存储照片状态映射
   const photoStatusMapRef = useRef<Map<string, Photo['status']>>(new Map())
@@ -133,19 +281,24 @@ export function usePhotoRealtimeAdmin({
   const checkForStatusChanges = useCallback(async () => {
     if (!albumId) return
 
+    if (callbacksRef.current.onResync) {
+      callbacksRef.current.onResync()
+      return
+    }
+
     try {
       // 获取所有状态的照片（包括处理中的）
       const response = await fetch(`/api/admin/albums/${albumId}/photos`)
       if (!response.ok) return
 
       const data = await response.json()
-      const currentPhotos = data.photos || []
+      const currentPhotos = data.data?.photos || data.photos || []
 
       // 检测状态变更
       currentPhotos.forEach((photo: Photo) => {
         const oldStatus = photoStatusMapRef.current.get(photo.id)
         if (oldStatus && oldStatus !== photo.status) {
-          callbackRef.current?.(photo.id, photo.status)
+          callbacksRef.current.onStatusChange?.(photo.id, photo.status)
         }
         photoStatusMapRef.current.set(photo.id, photo.status)
       })
@@ -155,6 +308,7 @@ export function usePhotoRealtimeAdmin({
       photoStatusMapRef.current.forEach((_, id) => {
         if (!currentPhotoIds.has(id)) {
           photoStatusMapRef.current.delete(id)
+          callbacksRef.current.onDelete?.(id)
         }
       })
     } catch (error) {
@@ -162,22 +316,37 @@ export function usePhotoRealtimeAdmin({
     }
   }, [albumId])
 
-  useEffect(() => {
-    if (!enabled || !albumId) return
+  const handleMessage = useCallback((message: PhotoStreamMessage) => {
+    if (message.type === 'delete') {
+      photoStatusMapRef.current.delete(message.photo_id)
+      callbacksRef.current.onDelete?.(message.photo_id)
+      return
+    }
+    if (message.status) {
+      photoStatusMapRef.current.set(message.photo_id, message.status)
+      callbacksRef.current.onStatusChange?.(message.photo_id, message.status)
+    }
+  }, [])
 
-    // 初始化状态映射
-    checkForStatusChanges()
+  // 设置轮询间隔（管理员端更频繁，默认3秒，仅在推送不可用时使用）
+  const pollingInterval = parseInt(process.env.NEXT_PUBLIC_ADMIN_POLLING_INTERVAL || '3000', 10)
 
-    // 设置轮询间隔（管理员端更频繁，默认3秒）
-    const pollingInterval = parseInt(process.env.NEXT_PUBLIC_ADMIN_POLLING_INTERVAL || '3000', 10)
-    const intervalId = setInterval(checkForStatusChanges, pollingInterval)
+  const connected = usePhotoEventStream({
+    url: albumId ? `/api/admin/albums/${albumId}/events` : null,
+    enabled,
+    pollInterval: pollingInterval,
+    onMessage: handleMessage,
+    resync: checkForStatusChanges,
+  })
 
+  useEffect(() => {
     // 在effect开始时复制ref值，避免cleanup时ref已改变
     const photoStatusMap = photoStatusMapRef.current
 
     return () => {
-      clearInterval(intervalId)
       photoStatusMap.clear()
     }
-  }, [albumId, enabled, checkForStatusChanges])
+  }, [albumId, enabled])
+
+  return connected
 }
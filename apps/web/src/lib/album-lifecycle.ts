@@ -0,0 +1,28 @@
+/**
+ * @fileoverview PIS Web - 相册过期生命周期状态
+ *
+ * @description 纯常量，不依赖服务端模块，相册列表和延期/恢复接口共用。
+ * 状态由 Worker 定时推进（`services/worker/src/lib/album-lifecycle.ts`）：
+ * 过期隐藏 → 归档存储 → 软删除。
+ * @module lib/album-lifecycle
+ */
+
+import type { AlbumLifecycleState } from "@/types/database"
+
+/**
+ * 生命周期状态及显示名称
+ */
+export const ALBUM_LIFECYCLE_STATES: Record<AlbumLifecycleState, string> = {
+  active: "正常",
+  hidden: "已过期隐藏",
+  archived: "已归档",
+  restoring: "恢复中",
+  deleted: "已过期删除",
+}
+
+/**
+ * 恢复时是否需要 Worker 把归档的原图移回（并重新生成衍生图）
+ */
+export function needsStorageRestore(state: AlbumLifecycleState | null | undefined): boolean {
+  return state === "archived" || state === "deleted" || state === "restoring"
+}
@@ -0,0 +1,37 @@
+/** @vitest-environment node */
+import { describe, it, expect } from 'vitest'
+import { hashAlbumPassword, isHashedAlbumPassword, omitAlbumPassword, verifyAlbumPassword } from './album-password'
+
+describe('album-password', () => {
+  it('should hash passwords and treat empty input as no password', async () => {
+    const hash = await hashAlbumPassword('  secret  ')
+    expect(hash).not.toBeNull()
+    expect(isHashedAlbumPassword(hash!)).toBe(true)
+    expect(await verifyAlbumPassword('secret', hash!)).toEqual({ valid: true, needsRehash: false })
+    expect(await verifyAlbumPassword('wrong', hash!)).toEqual({ valid: false, needsRehash: false })
+
+    expect(await hashAlbumPassword('   ')).toBeNull()
+    expect(await hashAlbumPassword(null)).toBeNull()
+  })
+
+  it('should normalise surrounding whitespace the same way when verifying', async () => {
+    const hash = await hashAlbumPassword('  secret  ')
+    expect(await verifyAlbumPassword('  secret  ', hash!)).toEqual({ valid: true, needsRehash: false })
+    expect(await verifyAlbumPassword('secret\n', hash!)).toEqual({ valid: true, needsRehash: false })
+    expect(await verifyAlbumPassword('sec ret', hash!)).toEqual({ valid: false, needsRehash: false })
+
+    expect(await verifyAlbumPassword(' secret ', 'secret')).toEqual({ valid: true, needsRehash: true })
+  })
+
+  it('should accept legacy plaintext passwords and request a rehash', async () => {
+    expect(isHashedAlbumPassword('secret')).toBe(false)
+    expect(isHashedAlbumPassword('a:b:c')).toBe(false)
+    expect(await verifyAlbumPassword('secret', 'secret')).toEqual({ valid: true, needsRehash: true })
+    expect(await verifyAlbumPassword('secret2', 'secret')).toEqual({ valid: false, needsRehash: false })
+  })
+
+  it('should replace the password with has_password', () => {
+    expect(omitAlbumPassword({ id: '1', password: 'hash' })).toEqual({ id: '1', has_password: true })
+    expect(omitAlbumPassword({ id: '2', password: null })).toEqual({ id: '2', has_password: false })
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview PIS Web - 相册访问密码
+ *
+ * @description
+ * 相册和相册模板的访问密码与用户密码使用同一套 PBKDF2 哈希方案（见 lib/auth/password）。
+ * 历史数据中可能仍存在明文密码：验证时兼容明文比较，验证成功后由调用方回写哈希；
+ * 也可以运行 `scripts/utils/hash-album-passwords.ts` 一次性迁移。
+ *
+ * 注意：依赖 Node.js crypto 模块，不能在 Edge Runtime 中使用。
+ *
+ * @module lib/album-password
+ */
+import crypto from 'crypto'
+import { hashPassword, verifyPassword } from '@/lib/auth/password'
+
+/** hashPassword 输出格式：64 位十六进制盐值:迭代次数:128 位十六进制哈希 */
+const HASHED_PASSWORD_PATTERN = /^[0-9a-f]{64}:\d+:[0-9a-f]{128}$/
+
+/**
+ * 规范化相册密码：去除首尾空白（设置和验证时必须一致，否则带空格输入的密码永远无法通过）
+ */
+function normalizeAlbumPassword(password: string | null | undefined): string {
+  return password?.trim() ?? ''
+}
+
+/**
+ * 判断存储的相册密码是否已经哈希
+ *
+ * @param stored - 数据库中的密码字段
+ */
+export function isHashedAlbumPassword(stored: string): boolean {
+  return HASHED_PASSWORD_PATTERN.test(stored)
+}
+
+/**
+ * 哈希相册访问密码
+ *
+ * @param password - 明文密码（会去除首尾空白）
+ * @returns 哈希后的密码；空密码返回 null（表示不设密码）
+ */
+export async function hashAlbumPassword(password: string | null | undefined): Promise<string | null> {
+  const normalized = normalizeAlbumPassword(password)
+  if (!normalized) return null
+  return hashPassword(normalized)
+}
+
+/**
+ * 验证相册访问密码
+ *
+ * @param password - 访客输入的密码（与哈希时一样去除首尾空白）
+ * @param stored - 数据库中的密码字段（哈希或历史明文）
+ * @returns valid 表示是否匹配；needsRehash 表示存储值仍是明文，应回写哈希
+ */
+export async function verifyAlbumPassword(
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  const normalized = normalizeAlbumPassword(password)
+  if (isHashedAlbumPassword(stored)) {
+    return { valid: await verifyPassword(normalized, stored), needsRehash: false }
+  }
+
+  // 历史明文密码：比较摘要以避免长度差异和逐字节比较带来的时序差异
+  const input = crypto.createHash('sha256').update(normalized).digest()
+  const expected = crypto.createHash('sha256').update(normalizeAlbumPassword(stored)).digest()
+  const valid = crypto.timingSafeEqual(input, expected)
+  return { valid, needsRehash: valid }
+}
+
+/**
+ * 去掉相册（或模板）记录中的密码字段，改为 has_password 标记
+ *
+ * @description 管理端接口只需要知道是否设置了密码，哈希值不返回给浏览器
+ */
+export function omitAlbumPassword<T extends { password?: string | null }>(
+  record: T
+): Omit<T, 'password'> & { has_password: boolean } {
+  const { password, ...rest } = record
+  return { ...rest, has_password: !!password }
+}
@@ -2,6 +2,9 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
   generateAlbumSessionToken,
   validateAlbumSessionToken,
+  generateShareLinkToken,
+  validateShareLinkToken,
+  hasShareLinkPermission,
   getSessionCookieOptions,
   ALBUM_SESSION_COOKIE_NAME,
   type AlbumSessionPayload,
@@ -97,6 +100,51 @@ describe('Album Session Management', () => {
     })
   })
 
+  describe('share links', () => {
+    it('should carry share link permission in album session', () => {
+      const token = generateAlbumSessionToken('album-123', 'test', 2, { id: 'link-1', permission: 'download' })
+      const payload = validateAlbumSessionToken(token)
+
+      expect(payload?.shareLinkId).toBe('link-1')
+      expect(payload?.permission).toBe('download')
+      expect(validateAlbumSessionToken(generateAlbumSessionToken('album-123', 'test'))?.shareLinkId).toBeUndefined()
+    })
+
+    it('should round-trip share link tokens', () => {
+      const token = generateShareLinkToken('link-1', 'album-123', null)
+      const payload = validateShareLinkToken(token)
+
+      expect(payload?.linkId).toBe('link-1')
+      expect(payload?.albumId).toBe('album-123')
+      expect(payload?.exp).toBeUndefined()
+    })
+
+    it('should reject expired, tampered and foreign tokens', () => {
+      const expiring = generateShareLinkToken('link-1', 'album-123', new Date(Date.now() + 60 * 60 * 1000))
+      expect(validateShareLinkToken(expiring)?.exp).toBeGreaterThan(Date.now() / 1000)
+
+      const expired = generateShareLinkToken('link-1', 'album-123', new Date(Date.now() - 1000))
+      vi.useFakeTimers({ now: Date.now() + 5000 })
+      try {
+        expect(validateShareLinkToken(expired)).toBeNull()
+      } finally {
+        vi.useRealTimers()
+      }
+
+      expect(validateShareLinkToken(expiring.slice(0, -5) + 'xxxxx')).toBeNull()
+      // 相册会话令牌不能当作分享链接使用，反之亦然
+      expect(validateShareLinkToken(generateAlbumSessionToken('album-123', 'test'))).toBeNull()
+      expect(validateAlbumSessionToken(expiring)).toBeNull()
+    })
+
+    it('should order permissions view < download < select', () => {
+      expect(hasShareLinkPermission('select', 'download')).toBe(true)
+      expect(hasShareLinkPermission('download', 'download')).toBe(true)
+      expect(hasShareLinkPermission('download', 'select')).toBe(false)
+      expect(hasShareLinkPermission('view', 'download')).toBe(false)
+    })
+  })
+
   describe('getSessionCookieOptions', () => {
     it('should return secure options for production', () => {
       vi.stubEnv('NODE_ENV', 'production')
@@ -35,6 +35,7 @@
  */
 
 import jwt from "jsonwebtoken"
+import type { ShareLinkPermission } from "@/types/database"
 
 /**
  * 相册会话载荷结构
@@ -53,6 +54,29 @@ export interface AlbumSessionPayload {
   exp: number
   /** 令牌类型标识 */
   type: "album-access"
+  /** 通过分享链接进入时的链接 ID */
+  shareLinkId?: string
+  /** 通过分享链接进入时的链接权限 */
+  permission?: ShareLinkPermission
+}
+
+/**
+ * 分享链接令牌载荷结构
+ *
+ * @description 分享链接 URL 中携带的令牌，只包含链接 ID，权限和使用次数以数据库为准
+ * @interface
+ */
+export interface ShareLinkTokenPayload {
+  /** 分享链接 ID */
+  linkId: string
+  /** 相册 ID */
+  albumId: string
+  /** 签发时间（Unix 时间戳） */
+  iat: number
+  /** 过期时间（Unix 时间戳），永不过期的链接没有该字段 */
+  exp?: number
+  /** 令牌类型标识 */
+  type: "album-share"
 }
 
 /**
@@ -67,11 +91,12 @@ export type AlbumSessionData = AlbumSessionPayload
  * 获取 JWT 密钥
  *
  * @description 从环境变量读取密钥，生产环境必须配置。开发环境未配置时自动生成随机密钥。
+ * 访客选片会话（`@/lib/guest-session`）复用同一密钥，通过令牌类型区分用途。
  * @returns {string} JWT 密钥字符串
  * @throws {Error} 生产环境未配置密钥时抛出错误
  * @internal
  */
-function getJWTSecret(): string {
+export function getJWTSecret(): string {
   const secret = process.env.ALBUM_SESSION_SECRET
 
   if (!secret) {
@@ -118,6 +143,7 @@ declare global {
  * @param albumId - 相册 ID
  * @param albumSlug - 相册 slug
  * @param expiresInHours - 令牌有效期（小时），默认 24
+ * @param shareLink - 通过分享链接进入时的链接 ID 和权限
  * @returns JWT 令牌字符串
  *
  * @example
@@ -133,6 +159,7 @@ export function generateAlbumSessionToken(
   albumId: string,
   albumSlug: string,
   expiresInHours: number = 24,
+  shareLink?: { id: string; permission: ShareLinkPermission },
 ): string {
   const secret = getJWTSecret()
 
@@ -140,10 +167,11 @@ export function generateAlbumSessionToken(
     albumId,
     albumSlug,
     type: "album-access",
+    ...(shareLink && { shareLinkId: shareLink.id, permission: shareLink.permission }),
   }
 
   const token = jwt.sign(payload, secret, {
-    expiresIn: `${expiresInHours}h`,
+    expiresIn: Math.max(1, Math.floor(expiresInHours * 60 * 60)),
     algorithm: "HS256",
   })
 
@@ -201,9 +229,87 @@ export function validateAlbumSessionToken(
   }
 }
 
+/**
+ * 生成分享链接令牌
+ *
+ * @description
+ * 令牌签名保证链接 ID 不可伪造；吊销、使用次数等状态以数据库为准，
+ * 因此同一条链接可以随时重新生成令牌（例如管理后台再次复制链接）。
+ *
+ * @param linkId - 分享链接 ID
+ * @param albumId - 相册 ID
+ * @param expiresAt - 链接过期时间，null 表示永不过期
+ * @returns JWT 令牌字符串
+ */
+export function generateShareLinkToken(
+  linkId: string,
+  albumId: string,
+  expiresAt: Date | null,
+): string {
+  const payload: Omit<ShareLinkTokenPayload, "iat" | "exp"> = {
+    linkId,
+    albumId,
+    type: "album-share",
+  }
+
+  return jwt.sign(payload, getJWTSecret(), {
+    algorithm: "HS256",
+    ...(expiresAt && {
+      expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+    }),
+  })
+}
+
+/**
+ * 验证并解码分享链接令牌
+ *
+ * @param token - 分享链接中的令牌
+ * @returns 验证成功返回解码后的载荷，签名错误、过期或类型不符返回 null
+ */
+export function validateShareLinkToken(
+  token: string,
+): ShareLinkTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, getJWTSecret(), {
+      algorithms: ["HS256"],
+    }) as ShareLinkTokenPayload
+
+    if (decoded.type !== "album-share" || !decoded.linkId || !decoded.albumId) {
+      return null
+    }
+
+    return decoded
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 比较分享链接权限
+ *
+ * @description 权限逐级包含：select（下载和选片）> download（下载）> view（仅浏览）
+ * @returns granted 包含 required 时返回 true
+ */
+export function hasShareLinkPermission(
+  granted: ShareLinkPermission,
+  required: ShareLinkPermission,
+): boolean {
+  const levels: ShareLinkPermission[] = ["view", "download", "select"]
+  return levels.indexOf(granted) >= levels.indexOf(required)
+}
+
 /** 会话令牌 Cookie 名称 */
 export const ALBUM_SESSION_COOKIE_NAME = "album-session"
 
+/**
+ * 获取相册访问会话的 Cookie 名称
+ *
+ * @description 每个相册独立的 Cookie，与 `verifyAlbumAuth` 读取的名称一致
+ */
+export function getAlbumSessionCookieName(albumSlug: string): string {
+  return `album_session_${albumSlug}`
+}
+
 /**
  * 相册会话 Cookie 配置选项
  */
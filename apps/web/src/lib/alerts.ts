@@ -0,0 +1,46 @@
+/**
+ * @fileoverview PIS Web - 管理员告警
+ *
+ * @description Web 端检测到的安全事件通过 Worker 的 `/api/alerts/*` 接口交给 AlertService，
+ * 按 Worker 配置的渠道（Telegram、邮件或日志）通知管理员。
+ * 发送失败只记录错误日志，不影响业务操作本身。
+ * @module lib/alerts
+ */
+import { getWorkerHeaders, getWorkerUrl } from "@/lib/worker-client"
+
+/**
+ * 相册密码猜测告警内容
+ */
+export interface AlbumPasswordGuessingAlert {
+  albumId: string
+  slug: string
+  title: string | null
+  /** 统计窗口内的失败次数 */
+  failures: number
+  /** 统计窗口（分钟） */
+  windowMinutes: number
+  /** 最近一次失败的来源 IP */
+  lastIp: string
+}
+
+/**
+ * 通知管理员：相册正在被持续猜测密码
+ *
+ * @description 失败时只打印错误，不抛出异常
+ */
+export async function sendAlbumPasswordGuessingAlert(alert: AlbumPasswordGuessingAlert): Promise<void> {
+  try {
+    const response = await fetch(`${getWorkerUrl()}/api/alerts/album-password-guessing`, {
+      method: "POST",
+      headers: getWorkerHeaders(),
+      body: JSON.stringify(alert),
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(result.error || `Worker 返回 ${response.status}`)
+    }
+  } catch (error) {
+    console.error("[Alert] Failed to send album password guessing alert:", alert.albumId, error)
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview PIS Web - 访客端事件上报
+ *
+ * @description 灯箱查看照片、分享等只发生在浏览器中的事件，通过 `/api/public/analytics` 上报。
+ * 上报失败不提示用户，也不影响页面操作。
+ * @module lib/analytics-client
+ */
+
+/** 访客端可上报的事件 */
+export type ClientAnalyticsEvent = "photo_view" | "share"
+
+/**
+ * 上报统计事件
+ *
+ * @description 使用 keepalive，页面关闭或跳转时请求仍会发出
+ *
+ * @param event - 事件类型
+ * @param albumId - 相册ID
+ * @param photoId - 照片ID（分享整个相册时省略）
+ */
+export function trackAnalyticsEvent(event: ClientAnalyticsEvent, albumId: string, photoId?: string): void {
+  if (typeof window === "undefined" || !albumId) return
+
+  fetch("/api/public/analytics", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ event, albumId, photoId, referrer: document.referrer || undefined }),
+    keepalive: true,
+  }).catch(() => {
+    // 统计上报失败不影响浏览
+  })
+}
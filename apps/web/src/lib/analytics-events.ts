@@ -0,0 +1,31 @@
+/**
+ * @fileoverview PIS Web - 访问统计事件类型
+ *
+ * @description 纯常量，不依赖服务端模块，统计事件写入（analytics）、访客端上报和管理端页面共用。
+ * @module lib/analytics-events
+ */
+
+import type { AnalyticsDeviceType, AnalyticsEventType } from "@/types/database"
+
+/**
+ * 统计事件类型及显示名称
+ */
+export const ANALYTICS_EVENTS: Record<AnalyticsEventType, string> = {
+  album_view: "相册浏览",
+  photo_view: "照片查看",
+  photo_download: "单张下载",
+  batch_download: "批量下载",
+  package_download: "打包下载",
+  share: "分享",
+  face_search: "人脸搜索",
+}
+
+/**
+ * 设备类型显示名称
+ */
+export const ANALYTICS_DEVICES: Record<AnalyticsDeviceType, string> = {
+  desktop: "电脑",
+  mobile: "手机",
+  tablet: "平板",
+  unknown: "未知",
+}
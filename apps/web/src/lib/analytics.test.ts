@@ -0,0 +1,216 @@
+/** @vitest-environment node */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  parseUserAgent,
+  getReferrerHost,
+  getRequestCountry,
+  getVisitorHash,
+  recordAnalyticsEvent,
+  fillDailyTrend,
+  resolveAnalyticsRange,
+  buildAnalyticsCsv,
+  type AnalyticsExportRow,
+} from './analytics'
+
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      insert: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('@/lib/system-settings', async () => {
+  const { DEFAULT_SYSTEM_SETTINGS } = await import('@/lib/system-settings-defaults')
+  return { getSystemSettings: vi.fn().mockResolvedValue(DEFAULT_SYSTEM_SETTINGS) }
+})
+
+const IPHONE_WECHAT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 MicroMessenger/8.0.40'
+const ANDROID_TABLET = 'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'
+const WINDOWS_EDGE =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36 Edg/120.0'
+
+describe('parseUserAgent', () => {
+  it('should detect device, browser and os', () => {
+    expect(parseUserAgent(IPHONE_WECHAT)).toEqual({ deviceType: 'mobile', browser: 'WeChat', os: 'iOS', isBot: false })
+    expect(parseUserAgent(ANDROID_TABLET)).toMatchObject({ deviceType: 'tablet', browser: 'Chrome', os: 'Android' })
+    expect(parseUserAgent(WINDOWS_EDGE)).toMatchObject({ deviceType: 'desktop', browser: 'Edge', os: 'Windows' })
+    expect(parseUserAgent(null)).toEqual({ deviceType: 'unknown', browser: null, os: null, isBot: false })
+  })
+
+  it('should flag crawlers', () => {
+    expect(parseUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1)').isBot).toBe(true)
+    expect(parseUserAgent('facebookexternalhit/1.1').isBot).toBe(true)
+  })
+})
+
+describe('getReferrerHost', () => {
+  const request = new Request('https://photos.example.com/api/public/albums/a/view', {
+    headers: { host: 'photos.example.com' },
+  })
+
+  it('should keep external hosts and drop same-site referrers', () => {
+    expect(getReferrerHost(request, 'https://Weixin.QQ.com/some/page')).toBe('weixin.qq.com')
+    expect(getReferrerHost(request, 'https://photos.example.com/album/a')).toBeNull()
+    expect(getReferrerHost(request, 'not a url')).toBeNull()
+    expect(getReferrerHost(request, null)).toBeNull()
+  })
+})
+
+describe('getRequestCountry', () => {
+  it('should prefer proxy country headers', () => {
+    const request = new Request('http://localhost', {
+      headers: { 'cf-ipcountry': 'jp', 'accept-language': 'zh-CN,zh;q=0.9' },
+    })
+    expect(getRequestCountry(request)).toBe('JP')
+  })
+
+  it('should fall back to the accept-language region', () => {
+    expect(getRequestCountry(new Request('http://localhost', { headers: { 'cf-ipcountry': 'XX', 'accept-language': 'zh-Hans-CN,zh;q=0.9' } }))).toBe('CN')
+    expect(getRequestCountry(new Request('http://localhost', { headers: { 'accept-language': 'en' } }))).toBeNull()
+  })
+})
+
+describe('getVisitorHash', () => {
+  it('should rotate daily', () => {
+    const day1 = getVisitorHash('1.1.1.1', 'ua', new Date('2026-01-01T10:00:00Z'))
+    expect(getVisitorHash('1.1.1.1', 'ua', new Date('2026-01-01T23:00:00Z'))).toBe(day1)
+    expect(getVisitorHash('1.1.1.1', 'ua', new Date('2026-01-02T01:00:00Z'))).not.toBe(day1)
+    expect(getVisitorHash(null, null)).toBeNull()
+  })
+})
+
+describe('recordAnalyticsEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAdminClient.insert.mockResolvedValue({ data: [], error: null })
+  })
+
+  it('should store parsed request details without raw ip', async () => {
+    const request = new Request('https://photos.example.com/api/public/download/p1', {
+      headers: {
+        host: 'photos.example.com',
+        'user-agent': IPHONE_WECHAT,
+        referer: 'https://weixin.qq.com/',
+        'x-forwarded-for': '1.2.3.4',
+        'cf-ipcountry': 'CN',
+      },
+    })
+
+    await recordAnalyticsEvent(request, { event: 'photo_download', albumId: 'album-1', photoId: 'photo-1' })
+
+    const [table, record] = mockAdminClient.insert.mock.calls[0]
+    expect(table).toBe('analytics_events')
+    expect(record).toMatchObject({
+      album_id: 'album-1',
+      photo_id: 'photo-1',
+      event_type: 'photo_download',
+      device_type: 'mobile',
+      browser: 'WeChat',
+      os: 'iOS',
+      referrer_host: 'weixin.qq.com',
+      country: 'CN',
+      metadata: null,
+    })
+    expect(record.visitor_hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(JSON.stringify(record)).not.toContain('1.2.3.4')
+  })
+
+  it('should skip bots and swallow database errors', async () => {
+    await recordAnalyticsEvent(new Request('http://localhost', { headers: { 'user-agent': 'Googlebot/2.1' } }), {
+      event: 'album_view',
+      albumId: 'album-1',
+    })
+    expect(mockAdminClient.insert).not.toHaveBeenCalled()
+
+    mockAdminClient.insert.mockRejectedValue(new Error('db down'))
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(
+      recordAnalyticsEvent(new Request('http://localhost'), { event: 'album_view', albumId: 'album-1' })
+    ).resolves.toBeUndefined()
+    consoleError.mockRestore()
+  })
+
+  it('should skip recording when analytics is disabled in system settings', async () => {
+    const { getSystemSettings } = await import('@/lib/system-settings')
+    const { DEFAULT_SYSTEM_SETTINGS } = await import('@/lib/system-settings-defaults')
+    vi.mocked(getSystemSettings).mockResolvedValueOnce({
+      ...DEFAULT_SYSTEM_SETTINGS,
+      features: { ...DEFAULT_SYSTEM_SETTINGS.features, analytics: false },
+    })
+
+    await recordAnalyticsEvent(new Request('http://localhost'), { event: 'album_view', albumId: 'album-1' })
+
+    expect(mockAdminClient.insert).not.toHaveBeenCalled()
+  })
+})
+
+describe('fillDailyTrend', () => {
+  it('should fill missing days with empty counts', () => {
+    const trend = fillDailyTrend(
+      [
+        { date: '2026-01-01', event_type: 'album_view', count: 3 },
+        { date: '2026-01-03', event_type: 'album_view', count: 1 },
+        { date: '2026-01-03', event_type: 'photo_download', count: 2 },
+      ],
+      '2026-01-01T00:00:00.000Z',
+      '2026-01-03T12:00:00.000Z'
+    )
+
+    expect(trend).toEqual([
+      { date: '2026-01-01', counts: { album_view: 3 } },
+      { date: '2026-01-02', counts: {} },
+      { date: '2026-01-03', counts: { album_view: 1, photo_download: 2 } },
+    ])
+  })
+})
+
+describe('resolveAnalyticsRange', () => {
+  const now = new Date('2026-03-15T08:00:00.000Z')
+
+  it('should default to the last 30 days', () => {
+    expect(resolveAnalyticsRange(undefined, undefined, now)).toEqual({
+      from: '2026-02-14T00:00:00.000Z',
+      to: '2026-03-15T08:00:00.000Z',
+    })
+  })
+
+  it('should reject inverted or too long ranges', () => {
+    expect(resolveAnalyticsRange('2026-03-16T00:00:00.000Z', undefined, now)).toBeNull()
+    expect(resolveAnalyticsRange('2024-01-01T00:00:00.000Z', undefined, now)).toBeNull()
+  })
+})
+
+describe('buildAnalyticsCsv', () => {
+  it('should use readable labels', () => {
+    const rows: AnalyticsExportRow[] = [
+      {
+        id: 'e1',
+        album_id: 'album-1',
+        photo_id: 'photo-1',
+        event_type: 'photo_download',
+        device_type: 'mobile',
+        browser: 'WeChat',
+        os: 'iOS',
+        referrer_host: null,
+        country: 'CN',
+        visitor_hash: 'a'.repeat(64),
+        metadata: null,
+        created_at: '2026-01-01T00:00:00.000Z',
+        album_title: '婚礼',
+        photo_filename: 'IMG_0001.jpg',
+      },
+    ]
+
+    const lines = buildAnalyticsCsv(rows).replace('\uFEFF', '').trim().split('\r\n')
+    expect(lines).toHaveLength(2)
+    expect(lines[1]).toBe(
+      '2026-01-01T00:00:00.000Z,单张下载,婚礼,album-1,IMG_0001.jpg,photo-1,手机,WeChat,iOS,,CN,aaaaaaaaaaaa,'
+    )
+  })
+})
@@ -0,0 +1,478 @@
+/**
+ * @fileoverview PIS Web - 访问统计
+ *
+ * @description 记录相册浏览、照片查看、下载、分享和人脸搜索事件，并为管理端统计页汇总。
+ * 设备、浏览器、来源和国家都在写入时从请求头本地解析，不调用任何外部服务；
+ * 访客只保存按天轮换的匿名摘要（IP + User-Agent），用于统计独立访客。
+ * 写入失败只记录错误日志，不影响业务操作本身。
+ *
+ * 注意：依赖 Node.js crypto 模块，不能在 Edge Runtime 中使用。
+ * @module lib/analytics
+ */
+
+import crypto from "crypto"
+import { createAdminClient } from "@/lib/database"
+import { buildCsv } from "@/lib/csv"
+import { getRequestIp } from "@/lib/audit-log"
+import { getSystemSettings } from "@/lib/system-settings"
+import { ANALYTICS_DEVICES, ANALYTICS_EVENTS } from "@/lib/analytics-events"
+import type {
+  AnalyticsDeviceType,
+  AnalyticsEvent,
+  AnalyticsEventInsert,
+  AnalyticsEventType,
+  Json,
+} from "@/types/database"
+
+export { ANALYTICS_EVENTS, ANALYTICS_DEVICES }
+
+/**
+ * 单条统计事件
+ */
+export interface AnalyticsEntry {
+  event: AnalyticsEventType
+  albumId: string
+  photoId?: string | null
+  /** 来源页面地址；省略时使用请求的 Referer 头（访客端上报时传 document.referrer） */
+  referrer?: string | null
+  metadata?: Record<string, Json | undefined> | null
+}
+
+/**
+ * User-Agent 解析结果
+ */
+export interface ParsedUserAgent {
+  deviceType: AnalyticsDeviceType
+  browser: string | null
+  os: string | null
+  /** 爬虫、链接预览等非真人访问，不计入统计 */
+  isBot: boolean
+}
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|facebookexternalhit|preview|headless|curl|wget|python-requests|go-http-client/i
+
+// 按顺序匹配：套壳浏览器的 UA 同时包含 Chrome/Safari 字样，需要放在前面
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/micromessenger/i, "WeChat"],
+  [/\bqq\//i, "QQ"],
+  [/qqbrowser/i, "QQ Browser"],
+  [/ucbrowser/i, "UC Browser"],
+  [/samsungbrowser/i, "Samsung Internet"],
+  [/edg(e|a|ios)?\//i, "Edge"],
+  [/opr\/|opera/i, "Opera"],
+  [/firefox|fxios/i, "Firefox"],
+  [/chrome|crios|chromium/i, "Chrome"],
+  [/safari/i, "Safari"],
+]
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/harmonyos/i, "HarmonyOS"],
+  [/iphone|ipad|ipod/i, "iOS"],
+  [/android/i, "Android"],
+  [/windows/i, "Windows"],
+  [/cros/i, "ChromeOS"],
+  [/mac os x|macintosh/i, "macOS"],
+  [/linux/i, "Linux"],
+]
+
+/**
+ * 解析 User-Agent
+ *
+ * @description 只识别常见设备、浏览器和系统，未识别的返回 null / unknown
+ */
+export function parseUserAgent(userAgent: string | null): ParsedUserAgent {
+  if (!userAgent) {
+    return { deviceType: "unknown", browser: null, os: null, isBot: false }
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+
+  let deviceType: AnalyticsDeviceType = "unknown"
+  if (/ipad|tablet|kindle|silk|android(?!.*mobile)/i.test(userAgent)) {
+    deviceType = "tablet"
+  } else if (/mobi|iphone|ipod|windows phone/i.test(userAgent)) {
+    deviceType = "mobile"
+  } else if (os) {
+    deviceType = "desktop"
+  }
+
+  return { deviceType, browser, os, isBot: BOT_PATTERN.test(userAgent) }
+}
+
+/**
+ * 获取外部来源域名
+ *
+ * @description 站内跳转和直接访问（没有 Referer）返回 null
+ *
+ * @param request - 当前请求（用于判断是否站内）
+ * @param referrer - 来源地址
+ */
+export function getReferrerHost(request: Request, referrer: string | null | undefined): string | null {
+  if (!referrer) return null
+
+  let host: string
+  try {
+    host = new URL(referrer).hostname.toLowerCase()
+  } catch {
+    return null
+  }
+  if (!host) return null
+
+  const ownHost = (request.headers.get("x-forwarded-host") || request.headers.get("host") || new URL(request.url).host)
+    .split(",")[0]
+    .trim()
+    .replace(/:\d+$/, "")
+    .toLowerCase()
+
+  return host === ownHost ? null : host.slice(0, 255)
+}
+
+/** CDN / 托管平台提供的访客国家请求头 */
+const COUNTRY_HEADERS = ["cf-ipcountry", "x-vercel-ip-country", "cloudfront-viewer-country", "x-country-code"]
+
+/**
+ * 获取访客国家（ISO 3166-1 代码）
+ *
+ * @description 优先使用 Cloudflare、Vercel、CloudFront 等反向代理提供的国家头；
+ * 都没有时退回到 Accept-Language 中的地区（如 zh-CN → CN），只作为近似值
+ */
+export function getRequestCountry(request: Request): string | null {
+  for (const name of COUNTRY_HEADERS) {
+    const value = request.headers.get(name)?.trim().toUpperCase()
+    // XX：未知；T1：Tor 出口节点
+    if (value && /^[A-Z]{2}$/.test(value) && value !== "XX" && value !== "T1") {
+      return value
+    }
+  }
+
+  const language = request.headers.get("accept-language")?.split(",")[0]
+  const region = language?.match(/^[a-z]{2,3}(?:-[a-z]{4})?-([a-z]{2})\b/i)?.[1]
+  return region ? region.toUpperCase() : null
+}
+
+/**
+ * 生成匿名访客标识
+ *
+ * @description 按 UTC 日期轮换，同一访客跨天无法关联；不保存 IP 和 User-Agent 原文
+ */
+export function getVisitorHash(ip: string | null, userAgent: string | null, date = new Date()): string | null {
+  if (!ip && !userAgent) return null
+  const day = date.toISOString().slice(0, 10)
+  const salt = process.env.ALBUM_SESSION_SECRET || ""
+  return crypto.createHash("sha256").update(`${salt}:${day}:${ip || ""}:${userAgent || ""}`).digest("hex")
+}
+
+/**
+ * 记录统计事件
+ *
+ * @description 失败时只打印错误，不抛出异常；爬虫请求和后台关闭访问统计时直接忽略
+ *
+ * @param request - 访客请求（用于解析设备、来源和国家）
+ * @param entry - 事件内容
+ */
+export async function recordAnalyticsEvent(request: Request, entry: AnalyticsEntry): Promise<void> {
+  try {
+    const userAgent = request.headers.get("user-agent")
+    const { deviceType, browser, os, isBot } = parseUserAgent(userAgent)
+    if (isBot) return
+
+    const { features } = await getSystemSettings()
+    if (!features.analytics) return
+
+    const record: AnalyticsEventInsert = {
+      album_id: entry.albumId,
+      photo_id: entry.photoId ?? null,
+      event_type: entry.event,
+      device_type: deviceType,
+      browser,
+      os,
+      referrer_host: getReferrerHost(request, entry.referrer !== undefined ? entry.referrer : request.headers.get("referer")),
+      country: getRequestCountry(request),
+      visitor_hash: getVisitorHash(getRequestIp(request), userAgent),
+      metadata: (entry.metadata as Json) ?? null,
+    }
+
+    const db = await createAdminClient()
+    const result = await db.insert("analytics_events", record)
+    if (result.error) {
+      console.error("[Analytics] Failed to record event:", entry.event, result.error)
+    }
+  } catch (error) {
+    console.error("[Analytics] Failed to record event:", entry.event, error)
+  }
+}
+
+/**
+ * 统计查询条件
+ */
+export interface AnalyticsFilters {
+  /** 为空表示全部相册 */
+  albumId?: string | null
+  /** 开始时间（ISO 8601，包含） */
+  from: string
+  /** 结束时间（ISO 8601，不包含） */
+  to: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** 统计查询的最大时间跨度（天） */
+export const ANALYTICS_MAX_RANGE_DAYS = 366
+
+/** 未指定开始时间时统计最近 30 天（含今天） */
+const DEFAULT_RANGE_DAYS = 30
+
+/**
+ * 解析统计时间范围
+ *
+ * @param from - 开始时间（ISO 8601）；省略时为 30 天前的 UTC 零点
+ * @param to - 结束时间（ISO 8601）；省略时为当前时间
+ * @returns 时间范围；开始不早于结束或跨度超过上限时返回 null
+ */
+export function resolveAnalyticsRange(
+  from?: string,
+  to?: string,
+  now = new Date(),
+): { from: string; to: string } | null {
+  const end = to ? new Date(to) : now
+  let start: Date
+  if (from) {
+    start = new Date(from)
+  } else {
+    start = new Date(end.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS)
+    start.setUTCHours(0, 0, 0, 0)
+  }
+
+  if (start >= end || end.getTime() - start.getTime() > ANALYTICS_MAX_RANGE_DAYS * DAY_MS) {
+    return null
+  }
+  return { from: start.toISOString(), to: end.toISOString() }
+}
+
+/** 分类计数（设备、来源、国家） */
+export interface AnalyticsBreakdownItem {
+  key: string
+  count: number
+}
+
+/** 单日各类事件数量 */
+export interface AnalyticsTrendPoint {
+  date: string
+  counts: Partial<Record<AnalyticsEventType, number>>
+}
+
+/** 热门照片 */
+export interface AnalyticsTopPhoto {
+  photo_id: string
+  album_id: string
+  filename: string | null
+  thumb_key: string | null
+  album_title: string | null
+  views: number
+  downloads: number
+}
+
+/** 热门相册 */
+export interface AnalyticsTopAlbum {
+  album_id: string
+  title: string | null
+  slug: string | null
+  views: number
+  downloads: number
+}
+
+/**
+ * 统计汇总
+ */
+export interface AnalyticsSummary {
+  from: string
+  to: string
+  totals: Partial<Record<AnalyticsEventType, number>>
+  unique_visitors: number
+  trend: AnalyticsTrendPoint[]
+  devices: AnalyticsBreakdownItem[]
+  referrers: AnalyticsBreakdownItem[]
+  countries: AnalyticsBreakdownItem[]
+  top_photos: AnalyticsTopPhoto[]
+  top_albums: AnalyticsTopAlbum[]
+}
+
+/** get_analytics_summary 返回的原始结构 */
+interface RawAnalyticsSummary {
+  totals: Partial<Record<AnalyticsEventType, number>>
+  unique_visitors: number
+  daily: Array<{ date: string; event_type: AnalyticsEventType; count: number }>
+  devices: AnalyticsBreakdownItem[]
+  referrers: AnalyticsBreakdownItem[]
+  countries: AnalyticsBreakdownItem[]
+  top_photos: Array<{ photo_id: string; album_id: string; views: number; downloads: number }>
+  top_albums: Array<{ album_id: string; views: number; downloads: number }>
+}
+
+/**
+ * 按天补齐趋势数据
+ *
+ * @description 数据库只返回有事件的日期，图表需要连续的日期轴，没有事件的日期补空
+ *
+ * @param daily - 按日期和事件类型分组的计数
+ * @param from - 开始时间
+ * @param to - 结束时间（不包含）
+ */
+export function fillDailyTrend(
+  daily: Array<{ date: string; event_type: AnalyticsEventType; count: number }>,
+  from: string,
+  to: string,
+): AnalyticsTrendPoint[] {
+  const byDate = new Map<string, AnalyticsTrendPoint["counts"]>()
+  for (const item of daily) {
+    const counts = byDate.get(item.date) ?? {}
+    counts[item.event_type] = (counts[item.event_type] ?? 0) + Number(item.count)
+    byDate.set(item.date, counts)
+  }
+
+  const points: AnalyticsTrendPoint[] = []
+  const cursor = new Date(`${from.slice(0, 10)}T00:00:00.000Z`)
+  const end = new Date(to)
+  while (cursor < end) {
+    const date = cursor.toISOString().slice(0, 10)
+    points.push({ date, counts: byDate.get(date) ?? {} })
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+  }
+  return points
+}
+
+/**
+ * 查询统计汇总
+ *
+ * @description 聚合由数据库函数 get_analytics_summary 完成，这里补充照片和相册名称
+ */
+export async function getAnalyticsSummary(filters: AnalyticsFilters): Promise<AnalyticsSummary> {
+  const db = await createAdminClient()
+
+  // 参数按位置传递，顺序需与函数定义一致
+  const result = await db.rpc("get_analytics_summary", {
+    p_album_id: filters.albumId ?? null,
+    p_from: filters.from,
+    p_to: filters.to,
+  })
+  if (result.error) {
+    throw result.error
+  }
+
+  const raw = result.data as RawAnalyticsSummary
+  const photoIds = raw.top_photos.map((item) => item.photo_id)
+  const albumIds = [...new Set([...raw.top_albums.map((item) => item.album_id), ...raw.top_photos.map((item) => item.album_id)])]
+
+  const [photosResult, albumsResult] = await Promise.all([
+    photoIds.length > 0
+      ? db.from<{ id: string; filename: string; thumb_key: string | null }>("photos").select("id, filename, thumb_key").in("id", photoIds)
+      : Promise.resolve({ data: [], error: null }),
+    albumIds.length > 0
+      ? db.from<{ id: string; title: string; slug: string }>("albums").select("id, title, slug").in("id", albumIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  const photos = new Map((photosResult.data || []).map((photo) => [photo.id, photo]))
+  const albums = new Map((albumsResult.data || []).map((album) => [album.id, album]))
+
+  return {
+    from: filters.from,
+    to: filters.to,
+    totals: raw.totals,
+    unique_visitors: Number(raw.unique_visitors) || 0,
+    trend: fillDailyTrend(raw.daily, filters.from, filters.to),
+    devices: raw.devices,
+    referrers: raw.referrers,
+    countries: raw.countries,
+    top_photos: raw.top_photos.map((item) => ({
+      ...item,
+      filename: photos.get(item.photo_id)?.filename ?? null,
+      thumb_key: photos.get(item.photo_id)?.thumb_key ?? null,
+      album_title: albums.get(item.album_id)?.title ?? null,
+    })),
+    top_albums: raw.top_albums.map((item) => ({
+      ...item,
+      title: albums.get(item.album_id)?.title ?? null,
+      slug: albums.get(item.album_id)?.slug ?? null,
+    })),
+  }
+}
+
+/** 单次导出的最大事件数，避免一次读入过多数据 */
+export const ANALYTICS_EXPORT_LIMIT = 50000
+
+/** 导出用的统计事件（附带相册标题和照片文件名） */
+export type AnalyticsExportRow = AnalyticsEvent & { album_title: string | null; photo_filename: string | null }
+
+/**
+ * 查询统计事件明细（按时间倒序，用于导出）
+ */
+export async function listAnalyticsEvents(filters: AnalyticsFilters): Promise<AnalyticsExportRow[]> {
+  const db = await createAdminClient()
+
+  let query = db
+    .from<AnalyticsEvent>("analytics_events")
+    .select("*")
+    .gte("created_at", filters.from)
+    .lt("created_at", filters.to)
+    .order("created_at", { ascending: false })
+    .limit(ANALYTICS_EXPORT_LIMIT)
+
+  if (filters.albumId) query = query.eq("album_id", filters.albumId)
+
+  const result = await query
+  if (result.error) {
+    throw result.error
+  }
+
+  const events = result.data || []
+  const albumIds = [...new Set(events.map((event) => event.album_id))]
+  const photoIds = [...new Set(events.map((event) => event.photo_id).filter((id): id is string => !!id))]
+
+  const [albumsResult, photosResult] = await Promise.all([
+    albumIds.length > 0
+      ? db.from<{ id: string; title: string }>("albums").select("id, title").in("id", albumIds)
+      : Promise.resolve({ data: [], error: null }),
+    photoIds.length > 0
+      ? db.from<{ id: string; filename: string }>("photos").select("id, filename").in("id", photoIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  const albumTitles = new Map((albumsResult.data || []).map((album) => [album.id, album.title]))
+  const photoNames = new Map((photosResult.data || []).map((photo) => [photo.id, photo.filename]))
+
+  return events.map((event) => ({
+    ...event,
+    album_title: albumTitles.get(event.album_id) ?? null,
+    photo_filename: event.photo_id ? (photoNames.get(event.photo_id) ?? null) : null,
+  }))
+}
+
+/**
+ * 将统计事件导出为 CSV 文本
+ *
+ * @param events - 统计事件
+ * @returns CSV 文本（附加信息以 JSON 形式输出）
+ */
+export function buildAnalyticsCsv(events: AnalyticsExportRow[]): string {
+  const header = ["时间", "事件", "相册", "相册ID", "照片", "照片ID", "设备", "浏览器", "系统", "来源", "国家", "访客", "附加信息"]
+  const rows = events.map((event) => [
+    event.created_at,
+    ANALYTICS_EVENTS[event.event_type] ?? event.event_type,
+    event.album_title || "",
+    event.album_id,
+    event.photo_filename || "",
+    event.photo_id || "",
+    ANALYTICS_DEVICES[event.device_type] ?? event.device_type,
+    event.browser || "",
+    event.os || "",
+    event.referrer_host || "",
+    event.country || "",
+    // 访客标识只导出前 12 位，足够区分同一天的访客
+    event.visitor_hash ? event.visitor_hash.slice(0, 12) : "",
+    event.metadata ? JSON.stringify(event.metadata) : "",
+  ])
+
+  return buildCsv(header, rows)
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview PIS Web - 审计操作类型
+ *
+ * @description 纯常量，不依赖服务端模块，审计日志写入（audit-log）和管理端页面共用。
+ * @module lib/audit-actions
+ */
+
+/**
+ * 审计操作类型及显示名称
+ */
+export const AUDIT_ACTIONS = {
+  "album.create": "创建相册",
+  "album.update": "修改相册",
+  "album.delete": "删除相册",
+  "album.duplicate": "复制相册",
+  "album.batch_update": "批量修改相册",
+  "album.batch_delete": "批量删除相册",
+  "album.collaborator_add": "添加协作者",
+  "album.collaborator_update": "修改协作角色",
+  "album.collaborator_remove": "移除协作者",
+  "album.share_link_create": "创建分享链接",
+  "album.share_link_revoke": "吊销分享链接",
+  "album.notify_client": "通知客户",
+  "album.lifecycle_restore": "延期/恢复过期相册",
+  "album.leak_identify": "泄露溯源",
+  "photo.delete": "删除照片",
+  "photo.restore": "恢复照片",
+  "photo.permanent_delete": "永久删除照片",
+  "photo.rotate": "旋转照片",
+  "photo.reprocess": "重新处理照片",
+  "photo.cleanup": "清理失败照片",
+  "photo.version_activate": "切换照片版本",
+  "user.create": "创建用户",
+  "user.update": "修改用户",
+  "user.delete": "删除用户",
+  "user.reset_password": "重置用户密码",
+  "user.revoke_sessions": "吊销登录会话",
+  "user.reset_two_factor": "重置两步验证",
+  "client.create": "创建客户",
+  "client.update": "修改客户",
+  "client.delete": "删除客户",
+  "system.upgrade": "系统升级",
+  "system.settings_update": "修改系统设置",
+  "system.notification_template_update": "修改通知模板",
+  "webhook.create": "创建 Webhook",
+  "webhook.update": "修改 Webhook",
+  "webhook.delete": "删除 Webhook",
+  "style_preset.create": "创建风格预设",
+  "style_preset.update": "修改风格预设",
+  "style_preset.delete": "删除风格预设",
+  "style_preset.lut_upload": "上传 LUT",
+  "style_preset.lut_delete": "删除 LUT",
+} as const
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { diffAuditChanges, getRequestIp, recordAuditLog, buildAuditLogsCsv, REDACTED_VALUE } from './audit-log'
+import type { AuditLog } from '@/types/database'
+
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      insert: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+const actor = { id: 'admin-1', email: 'admin@example.com', role: 'admin' }
+
+describe('diffAuditChanges', () => {
+  it('should only record submitted fields that changed', () => {
+    const changes = diffAuditChanges(
+      { title: 'Old', is_public: false, layout: 'masonry' },
+      { title: 'New', is_public: false, layout: undefined }
+    )
+
+    expect(changes).toEqual({ title: { before: 'Old', after: 'New' } })
+  })
+
+  it('should compare nested values structurally', () => {
+    expect(
+      diffAuditChanges({ watermark_config: { opacity: 0.5 } }, { watermark_config: { opacity: 0.5 } })
+    ).toBeNull()
+  })
+
+  it('should redact sensitive fields', () => {
+    const changes = diffAuditChanges({ password: null }, { password: 'secret' })
+
+    expect(changes).toEqual({ password: { before: null, after: REDACTED_VALUE } })
+  })
+})
+
+describe('getRequestIp', () => {
+  it('should prefer cf-connecting-ip then the first x-forwarded-for entry', () => {
+    expect(
+      getRequestIp(new Request('http://localhost', { headers: { 'cf-connecting-ip': '1.1.1.1', 'x-forwarded-for': '2.2.2.2' } }))
+    ).toBe('1.1.1.1')
+    expect(
+      getRequestIp(new Request('http://localhost', { headers: { 'x-forwarded-for': '2.2.2.2, 3.3.3.3' } }))
+    ).toBe('2.2.2.2')
+    expect(getRequestIp(new Request('http://localhost'))).toBeNull()
+  })
+})
+
+describe('recordAuditLog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should insert one row per entry with request context', async () => {
+    mockAdminClient.insert.mockResolvedValue({ data: null, error: null })
+    const request = new Request('http://localhost', {
+      headers: { 'x-real-ip': '10.0.0.1', 'user-agent': 'vitest' },
+    })
+
+    await recordAuditLog(request, actor, [
+      { action: 'photo.restore', targetType: 'photo', targetId: 'photo-1' },
+      { action: 'photo.restore', targetType: 'photo', targetId: 'photo-2' },
+    ])
+
+    expect(mockAdminClient.insert).toHaveBeenCalledWith('audit_logs', [
+      expect.objectContaining({ actor_id: 'admin-1', target_id: 'photo-1', ip_address: '10.0.0.1', user_agent: 'vitest' }),
+      expect.objectContaining({ actor_id: 'admin-1', target_id: 'photo-2' }),
+    ])
+  })
+
+  it('should not throw when the insert fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockAdminClient.insert.mockRejectedValue(new Error('connection refused'))
+
+    await expect(
+      recordAuditLog(new Request('http://localhost'), actor, { action: 'system.upgrade', targetType: 'system' })
+    ).resolves.toBeUndefined()
+    expect(consoleSpy).toHaveBeenCalled()
+
+    consoleSpy.mockRestore()
+  })
+})
+
+describe('buildAuditLogsCsv', () => {
+  it('should label actions and serialize changes', () => {
+    const csv = buildAuditLogsCsv([
+      {
+        id: 'log-1',
+        actor_id: 'admin-1',
+        actor_email: 'admin@example.com',
+        actor_role: 'admin',
+        action: 'album.update',
+        target_type: 'album',
+        target_id: 'album-1',
+        changes: { title: { before: 'Old', after: 'New' } },
+        metadata: null,
+        ip_address: '10.0.0.1',
+        user_agent: null,
+        created_at: '2026-01-01T00:00:00.000Z',
+      } as AuditLog,
+    ])
+
+    const [, row] = csv.replace('\uFEFF', '').split('\r\n')
+    expect(row).toContain('admin@example.com')
+    expect(row).toContain('album-1')
+    expect(row).toContain('""before"":""Old""')
+  })
+})
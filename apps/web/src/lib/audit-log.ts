@@ -0,0 +1,217 @@
+/**
+ * @fileoverview PIS Web - 审计日志
+ *
+ * @description 记录管理员、摄影师和修图师在管理端执行的敏感操作（删除、恢复、旋转、
+ * 重新处理照片，修改相册密码/水印，用户管理，系统升级等）。
+ * audit_logs 表只追加，数据库触发器会拒绝 UPDATE/DELETE。
+ * 写入失败只记录错误日志，不影响业务操作本身。
+ * @module lib/audit-log
+ */
+
+import { createAdminClient } from "@/lib/database"
+import { buildCsv } from "@/lib/csv"
+import { AUDIT_ACTIONS, type AuditAction } from "@/lib/audit-actions"
+import type { AuditChanges, AuditLog, AuditLogInsert, AuditTargetType, Json } from "@/types/database"
+
+export { AUDIT_ACTIONS, type AuditAction }
+
+/**
+ * 操作者信息
+ */
+export interface AuditActor {
+  id: string
+  email: string
+  role?: string | null
+}
+
+/**
+ * 单条审计记录
+ */
+export interface AuditEntry {
+  action: AuditAction
+  targetType: AuditTargetType
+  /** 操作对象 ID，批量操作可省略并在 metadata 中记录 ID 列表 */
+  targetId?: string | null
+  /** 变更前后差异，通常由 diffAuditChanges 生成 */
+  changes?: AuditChanges | null
+  metadata?: Record<string, Json | undefined> | null
+}
+
+/** 不记录明文的敏感字段，只记录是否已设置 */
+const SENSITIVE_FIELDS = new Set(["password", "password_hash", "upload_token", "secret"])
+
+/** 敏感字段已设置时的占位值 */
+export const REDACTED_VALUE = "[已隐藏]"
+
+/**
+ * 获取请求来源 IP
+ *
+ * @description 优先使用 Cloudflare IP，然后是 x-forwarded-for 的第一个 IP，最后是 x-real-ip
+ */
+export function getRequestIp(request: Request): string | null {
+  const cfConnectingIp = request.headers.get("cf-connecting-ip")
+  if (cfConnectingIp) return cfConnectingIp
+
+  const forwardedFor = request.headers.get("x-forwarded-for")
+  if (forwardedFor) return forwardedFor.split(",")[0].trim()
+
+  return request.headers.get("x-real-ip")
+}
+
+/**
+ * 脱敏字段值
+ * @internal
+ */
+function redact(field: string, value: unknown): Json | undefined {
+  if (value === undefined) return undefined
+  if (SENSITIVE_FIELDS.has(field)) {
+    return value === null || value === "" ? null : REDACTED_VALUE
+  }
+  return value as Json
+}
+
+/**
+ * 计算变更前后的字段差异
+ *
+ * @description 只比较 after 中出现的字段（即本次提交的字段），值未变化的字段不记录；
+ * 密码等敏感字段只记录是否设置，不记录明文。
+ *
+ * @param before - 变更前的记录（不存在时传 null）
+ * @param after - 本次写入的字段
+ * @returns 字段差异；没有任何变化时返回 null
+ */
+export function diffAuditChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+): AuditChanges | null {
+  const changes: AuditChanges = {}
+
+  for (const [field, nextValue] of Object.entries(after)) {
+    if (nextValue === undefined) continue
+    const prevValue = before ? before[field] : undefined
+    if (JSON.stringify(prevValue) === JSON.stringify(nextValue)) continue
+    changes[field] = {
+      before: redact(field, prevValue),
+      after: redact(field, nextValue),
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null
+}
+
+/**
+ * 写入审计日志
+ *
+ * @description 失败时只打印错误，不抛出异常，避免审计写入影响业务操作。
+ * 批量操作可以传入数组，每个对象一条记录，一次写入。
+ *
+ * @param request - 当前请求（用于记录 IP 和 User-Agent）
+ * @param actor - 操作者
+ * @param entries - 审计内容
+ */
+export async function recordAuditLog(
+  request: Request,
+  actor: AuditActor,
+  entries: AuditEntry | AuditEntry[],
+): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries]
+  if (list.length === 0) return
+
+  try {
+    const ipAddress = getRequestIp(request)
+    const userAgent = request.headers.get("user-agent")
+    const records: AuditLogInsert[] = list.map((entry) => ({
+      actor_id: actor.id,
+      actor_email: actor.email,
+      actor_role: actor.role ?? null,
+      action: entry.action,
+      target_type: entry.targetType,
+      target_id: entry.targetId ?? null,
+      changes: entry.changes ?? null,
+      metadata: (entry.metadata as Json) ?? null,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+    }))
+
+    const db = await createAdminClient()
+    const result = await db.insert("audit_logs", records)
+    if (result.error) {
+      console.error("[Audit] Failed to record audit log:", list[0].action, result.error)
+    }
+  } catch (error) {
+    console.error("[Audit] Failed to record audit log:", list[0].action, error)
+  }
+}
+
+/**
+ * 审计日志查询条件
+ */
+export interface AuditLogFilters {
+  action?: string
+  target_type?: AuditTargetType
+  target_id?: string
+  /** 操作者邮箱（模糊匹配） */
+  actor?: string
+  /** 开始时间（ISO 8601，包含） */
+  from?: string
+  /** 结束时间（ISO 8601，包含） */
+  to?: string
+}
+
+/**
+ * 按条件查询审计日志（按时间倒序）
+ *
+ * @param filters - 查询条件
+ * @param page - 分页；省略时返回全部匹配记录（用于导出）
+ */
+export async function listAuditLogs(
+  filters: AuditLogFilters,
+  page?: { limit: number; offset: number },
+): Promise<{ logs: AuditLog[]; total: number }> {
+  const db = await createAdminClient()
+
+  let query = db
+    .from<AuditLog>("audit_logs")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+
+  if (filters.action) query = query.eq("action", filters.action)
+  if (filters.target_type) query = query.eq("target_type", filters.target_type)
+  if (filters.target_id) query = query.eq("target_id", filters.target_id)
+  if (filters.actor) query = query.ilike("actor_email", `%${filters.actor}%`)
+  if (filters.from) query = query.gte("created_at", filters.from)
+  if (filters.to) query = query.lte("created_at", filters.to)
+  if (page) query = query.limit(page.limit).offset(page.offset)
+
+  const result = await query
+  if (result.error) {
+    throw result.error
+  }
+
+  const logs = result.data || []
+  return { logs, total: result.count ?? logs.length }
+}
+
+/**
+ * 将审计日志导出为 CSV 文本
+ *
+ * @param logs - 审计日志
+ * @returns CSV 文本（变更内容和附加信息以 JSON 形式输出）
+ */
+export function buildAuditLogsCsv(logs: AuditLog[]): string {
+  const header = ["时间", "操作者", "角色", "操作", "对象类型", "对象ID", "变更", "附加信息", "IP", "User-Agent"]
+  const rows = logs.map((log) => [
+    log.created_at,
+    log.actor_email || log.actor_id || "",
+    log.actor_role || "",
+    AUDIT_ACTIONS[log.action as AuditAction] ?? log.action,
+    log.target_type,
+    log.target_id || "",
+    log.changes ? JSON.stringify(log.changes) : "",
+    log.metadata ? JSON.stringify(log.metadata) : "",
+    log.ip_address || "",
+    log.user_agent || "",
+  ])
+
+  return buildCsv(header, rows)
+}
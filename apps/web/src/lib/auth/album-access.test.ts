@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getAlbumAccessLevel, getAccessibleAlbums, hasAlbumsPermission, hasAlbumPermission } from './album-access'
+
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('./index', () => ({
+  getCurrentUser: vi.fn(),
+}))
+
+vi.mock('./role-helpers', () => ({
+  requireRole: vi.fn(),
+  getUserRoleFromCookies: vi.fn(),
+}))
+
+const admin = { id: 'admin-1', role: 'admin' as const }
+const photographer = { id: 'user-1', role: 'photographer' as const }
+
+/**
+ * 按表名返回单行查询结果
+ */
+function mockSingleRows(rows: Record<string, Record<string, unknown> | null>) {
+  mockAdminClient.from.mockImplementation((table: string) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: vi.fn().mockResolvedValue({ data: rows[table] ?? null, error: null }),
+  }))
+}
+
+/**
+ * 按表名返回列表查询结果
+ */
+function mockListRows(rows: Record<string, Array<Record<string, unknown>>>) {
+  mockAdminClient.from.mockImplementation((table: string) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockResolvedValue({ data: rows[table] ?? [], error: null }),
+  }))
+}
+
+describe('hasAlbumPermission', () => {
+  it('should follow the viewer < editor < owner < admin matrix', () => {
+    expect(hasAlbumPermission('viewer', 'view')).toBe(true)
+    expect(hasAlbumPermission('viewer', 'edit')).toBe(false)
+    expect(hasAlbumPermission('editor', 'edit')).toBe(true)
+    expect(hasAlbumPermission('editor', 'manage')).toBe(false)
+    expect(hasAlbumPermission('owner', 'manage')).toBe(true)
+    expect(hasAlbumPermission('admin', 'manage')).toBe(true)
+    expect(hasAlbumPermission(null, 'view')).toBe(false)
+  })
+})
+
+describe('getAlbumAccessLevel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should grant admin access without querying', async () => {
+    expect(await getAlbumAccessLevel(admin, 'album-1')).toBe('admin')
+    expect(mockAdminClient.from).not.toHaveBeenCalled()
+  })
+
+  it('should deny roles that cannot manage albums', async () => {
+    expect(await getAlbumAccessLevel({ id: 'user-2', role: 'guest' }, 'album-1')).toBeNull()
+    expect(mockAdminClient.from).not.toHaveBeenCalled()
+  })
+
+  it('should return owner for the album owner', async () => {
+    mockSingleRows({ albums: { owner_id: 'user-1' } })
+    expect(await getAlbumAccessLevel(photographer, 'album-1')).toBe('owner')
+  })
+
+  it('should return collaborator role for invited photographers', async () => {
+    mockSingleRows({ albums: { owner_id: 'user-9' }, album_collaborators: { role: 'viewer' } })
+    expect(await getAlbumAccessLevel(photographer, 'album-1')).toBe('viewer')
+  })
+
+  it('should deny photographers without ownership or invitation', async () => {
+    mockSingleRows({ albums: { owner_id: 'user-9' } })
+    expect(await getAlbumAccessLevel(photographer, 'album-1')).toBeNull()
+  })
+
+  it('should deny access to missing albums', async () => {
+    mockSingleRows({})
+    expect(await getAlbumAccessLevel(photographer, 'album-1')).toBeNull()
+  })
+})
+
+describe('getAccessibleAlbums', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return null for admins', async () => {
+    expect(await getAccessibleAlbums(admin)).toBeNull()
+  })
+
+  it('should prefer ownership over collaborator role', async () => {
+    mockListRows({
+      album_collaborators: [
+        { album_id: 'album-1', role: 'viewer' },
+        { album_id: 'album-2', role: 'editor' },
+      ],
+      albums: [{ id: 'album-1' }],
+    })
+
+    const accessMap = await getAccessibleAlbums(photographer)
+
+    expect(accessMap).toEqual(
+      new Map([
+        ['album-1', 'owner'],
+        ['album-2', 'editor'],
+      ])
+    )
+  })
+})
+
+describe('hasAlbumsPermission', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should require permission on every album', async () => {
+    mockListRows({
+      album_collaborators: [{ album_id: 'album-2', role: 'editor' }],
+      albums: [{ id: 'album-1' }],
+    })
+
+    expect(await hasAlbumsPermission(photographer, ['album-1', 'album-2'], 'edit')).toBe(true)
+    expect(await hasAlbumsPermission(photographer, ['album-1', 'album-2'], 'manage')).toBe(false)
+    expect(await hasAlbumsPermission(photographer, ['album-3'], 'view')).toBe(false)
+  })
+})
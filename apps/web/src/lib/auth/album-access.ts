@@ -0,0 +1,221 @@
+/**
+ * @fileoverview 相册访问权限
+ *
+ * @description
+ * 在角色权限（RBAC）之上增加相册级别的访问控制：
+ * - 管理员可以访问所有相册（包括没有所有者的历史相册）
+ * - 摄影师只能访问自己创建的相册，以及被邀请协作的相册
+ * - 协作者分为 viewer（只读）和 editor（可编辑），删除相册和管理协作者仅限所有者
+ *
+ * @module lib/auth/album-access
+ *
+ * @example
+ * ```typescript
+ * import { requireAlbumPermission } from '@/lib/auth/album-access'
+ *
+ * const access = await requireAlbumPermission(request, albumId, 'edit')
+ * if (!access) {
+ *   return ApiError.forbidden('无权编辑该相册')
+ * }
+ *
+ * // 批量操作：先检查角色，解析请求体后再检查每个相册
+ * const staff = await requireAlbumStaff(request)
+ * if (!staff || !(await hasAlbumsPermission(staff, albumIds, 'manage'))) {
+ *   return ApiError.forbidden('无权删除选中的相册')
+ * }
+ * ```
+ */
+import { NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/database'
+import { getCurrentUser as getCurrentUserFromCookies } from './index'
+import { requireRole, getUserRoleFromCookies, type UserRole, type UserWithRole } from './role-helpers'
+import { hasAlbumPermission, type AlbumAccessLevel, type AlbumPermission } from './album-permissions'
+import type { AlbumCollaboratorRole } from '@/types/database'
+
+export { hasAlbumPermission, type AlbumAccessLevel, type AlbumPermission }
+
+/**
+ * 带相册访问级别的用户信息
+ */
+export interface UserWithAlbumAccess extends UserWithRole {
+  access: AlbumAccessLevel
+}
+
+/** 可以进入相册管理的角色 */
+export const ALBUM_STAFF_ROLES: UserRole[] = ['admin', 'photographer']
+
+/**
+ * 获取用户对相册的访问级别
+ *
+ * @returns 访问级别；无权访问（或相册不存在）返回 null
+ */
+export async function getAlbumAccessLevel(
+  user: Pick<UserWithRole, 'id' | 'role'>,
+  albumId: string
+): Promise<AlbumAccessLevel | null> {
+  if (user.role === 'admin') {
+    return 'admin'
+  }
+  if (!ALBUM_STAFF_ROLES.includes(user.role)) {
+    return null
+  }
+
+  const db = await createAdminClient()
+
+  const albumResult = await db
+    .from<{ owner_id: string | null }>('albums')
+    .select('owner_id')
+    .eq('id', albumId)
+    .maybeSingle()
+
+  if (albumResult.error || !albumResult.data) {
+    return null
+  }
+  if (albumResult.data.owner_id === user.id) {
+    return 'owner'
+  }
+
+  const collaboratorResult = await db
+    .from<{ role: AlbumCollaboratorRole }>('album_collaborators')
+    .select('role')
+    .eq('album_id', albumId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  return collaboratorResult.data?.role ?? null
+}
+
+/**
+ * 获取用户可访问的相册及访问级别
+ *
+ * @returns 相册 ID → 访问级别；管理员返回 null（表示可访问全部相册）
+ */
+export async function getAccessibleAlbums(
+  user: Pick<UserWithRole, 'id' | 'role'>
+): Promise<Map<string, AlbumAccessLevel> | null> {
+  if (user.role === 'admin') {
+    return null
+  }
+
+  const accessMap = new Map<string, AlbumAccessLevel>()
+  if (!ALBUM_STAFF_ROLES.includes(user.role)) {
+    return accessMap
+  }
+
+  const db = await createAdminClient()
+
+  const [collaboratorResult, ownedResult] = await Promise.all([
+    db
+      .from<{ album_id: string; role: AlbumCollaboratorRole }>('album_collaborators')
+      .select('album_id, role')
+      .eq('user_id', user.id),
+    db
+      .from<{ id: string }>('albums')
+      .select('id')
+      .eq('owner_id', user.id),
+  ])
+
+  for (const row of collaboratorResult.data || []) {
+    accessMap.set(row.album_id, row.role)
+  }
+  // 所有者权限优先于协作者权限
+  for (const row of ownedResult.data || []) {
+    accessMap.set(row.id, 'owner')
+  }
+
+  return accessMap
+}
+
+/**
+ * 要求用户可以进入相册管理（管理员或摄影师）
+ */
+export async function requireAlbumStaff(request: NextRequest): Promise<UserWithRole | null> {
+  return requireRole(request, ALBUM_STAFF_ROLES)
+}
+
+/**
+ * 要求用户对指定相册具有权限（用于 API Routes）
+ *
+ * @param request - Next.js 请求对象
+ * @param albumId - 相册 ID
+ * @param permission - 所需权限
+ * @returns 带访问级别的用户信息，权限不足返回 null
+ */
+export async function requireAlbumPermission(
+  request: NextRequest,
+  albumId: string,
+  permission: AlbumPermission
+): Promise<UserWithAlbumAccess | null> {
+  const user = await requireAlbumStaff(request)
+  if (!user) {
+    return null
+  }
+
+  const access = await getAlbumAccessLevel(user, albumId)
+  if (!hasAlbumPermission(access, permission)) {
+    return null
+  }
+
+  return { ...user, access: access as AlbumAccessLevel }
+}
+
+/**
+ * 检查用户是否对所有指定相册都具有权限（用于批量操作）
+ */
+export async function hasAlbumsPermission(
+  user: Pick<UserWithRole, 'id' | 'role'>,
+  albumIds: string[],
+  permission: AlbumPermission
+): Promise<boolean> {
+  if (user.role === 'admin') {
+    return true
+  }
+
+  const accessMap = await getAccessibleAlbums(user)
+  return albumIds.every((albumId) => hasAlbumPermission(accessMap?.get(albumId), permission))
+}
+
+/**
+ * 检查用户是否对指定照片所属的相册都具有权限（用于照片操作）
+ *
+ * @description 不存在的照片会被忽略，由调用方返回 404
+ */
+export async function hasPhotosPermission(
+  user: Pick<UserWithRole, 'id' | 'role'>,
+  photoIds: string[],
+  permission: AlbumPermission
+): Promise<boolean> {
+  if (user.role === 'admin') {
+    return true
+  }
+
+  const db = await createAdminClient()
+  const photosResult = await db
+    .from<{ album_id: string }>('photos')
+    .select('album_id')
+    .in('id', photoIds)
+
+  if (photosResult.error) {
+    return false
+  }
+
+  const albumIds = [...new Set((photosResult.data || []).map((photo) => photo.album_id))]
+  return hasAlbumsPermission(user, albumIds, permission)
+}
+
+/**
+ * 获取当前用户（从 cookies 读取，用于 Server Components）及其角色
+ */
+export async function getCurrentUserWithRoleFromCookies(): Promise<UserWithRole | null> {
+  const user = await getCurrentUserFromCookies()
+  if (!user) {
+    return null
+  }
+
+  const role = await getUserRoleFromCookies()
+  if (!role) {
+    return null
+  }
+
+  return { id: user.id, email: user.email, role }
+}
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview 相册权限矩阵
+ *
+ * @description
+ * 纯函数，不依赖服务端模块，服务端（album-access）和客户端组件共用。
+ *
+ * @module lib/auth/album-permissions
+ */
+import type { AlbumCollaboratorRole } from '@/types/database'
+
+/**
+ * 用户对某个相册的访问级别
+ */
+export type AlbumAccessLevel = 'admin' | 'owner' | AlbumCollaboratorRole
+
+/**
+ * 相册操作所需的权限
+ * - view: 查看相册和照片
+ * - edit: 上传、编辑照片、修改相册设置
+ * - manage: 删除相册、管理协作者
+ */
+export type AlbumPermission = 'view' | 'edit' | 'manage'
+
+const PERMISSION_LEVELS: Record<AlbumPermission, AlbumAccessLevel[]> = {
+  view: ['admin', 'owner', 'editor', 'viewer'],
+  edit: ['admin', 'owner', 'editor'],
+  manage: ['admin', 'owner'],
+}
+
+/**
+ * 检查访问级别是否满足权限要求
+ */
+export function hasAlbumPermission(level: AlbumAccessLevel | null | undefined, permission: AlbumPermission): boolean {
+  return !!level && PERMISSION_LEVELS[permission].includes(level)
+}
@@ -18,12 +18,14 @@
  */
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserFromRequest } from './index'
+import { ensureActiveSession } from './sessions'
 
 /**
  * 获取当前用户（用于 API Routes）
  *
  * @description
- * 从请求中解析并返回用户信息。如果用户未认证，返回 null。
+ * 从请求中解析并返回用户信息。如果用户未认证或登录会话已被吊销，返回 null。
+ * 访问令牌已过期时会轮换刷新令牌（新令牌通过 Cookie 返回）。
  *
  * @param {NextRequest} request - Next.js 请求对象
  * @returns {Promise<{ id: string; email: string } | null>} 用户对象或 null
@@ -43,8 +45,12 @@ import { getUserFromRequest } from './index'
  */
 export async function getCurrentUser(
   request: NextRequest
-): Promise<{ id: string; email: string } | null> {
-  return getUserFromRequest(request)
+): Promise<{ id: string; email: string; sessionId?: string } | null> {
+  const user = await getUserFromRequest(request)
+  if (!user) {
+    return null
+  }
+  return ensureActiveSession(request, user)
 }
 
 /**
@@ -15,7 +15,15 @@
  * ```
  */
 import { createAdminClient } from "@/lib/database";
-import type { AuthDatabase } from "./index";
+import type {
+  LoginHistoryEntry,
+  LoginHistoryInsert,
+  UserSession,
+  UserSessionInsert,
+} from "@/types/database";
+import type { AuthDatabase, UserTwoFactorState } from "./index";
+
+type UserRole = "admin" | "photographer" | "retoucher" | "guest";
 
 /**
  * 扩展的认证数据库接口
@@ -67,15 +75,21 @@ export class PostgreSQLAuthDatabase implements ExtendedAuthDatabase {
     id: string;
     email: string;
     password_hash: string | null;
+    role: UserRole | null;
+    totp_enabled: boolean;
   } | null> {
     const db = await createAdminClient();
     // 明确指定要查询的字段，确保 password_hash 被包含
     // 排除已删除的用户（deleted_at IS NULL）
     const { data, error } = await db
-      .from<{ id: string; email: string; password_hash: string | null }>(
-        "users",
-      )
-      .select("id, email, password_hash")
+      .from<{
+        id: string;
+        email: string;
+        password_hash: string | null;
+        role: UserRole | null;
+        totp_enabled_at: string | null;
+      }>("users")
+      .select("id, email, password_hash, role, totp_enabled_at")
       .eq("email", email.toLowerCase())
       .is("deleted_at", null) // 排除已删除的用户
       .maybeSingle(); // 使用 maybeSingle 避免多条记录时抛出错误，且在无记录时返回 null 而非错误
@@ -93,6 +107,8 @@ export class PostgreSQLAuthDatabase implements ExtendedAuthDatabase {
       id: data.id,
       email: data.email,
       password_hash: data.password_hash, // 保持 null，用于首次登录设置密码
+      role: data.role,
+      totp_enabled: !!data.totp_enabled_at,
     };
   }
 
@@ -268,6 +284,225 @@ export class PostgreSQLAuthDatabase implements ExtendedAuthDatabase {
 
     return (count || 0) > 0;
   }
+
+  /**
+   * 获取用户的两步验证状态
+   *
+   * @param userId - 用户 ID
+   * @returns 两步验证状态，用户不存在返回 null
+   */
+  async findUserTwoFactor(userId: string): Promise<UserTwoFactorState | null> {
+    const db = await createAdminClient();
+    const { data, error } = await db
+      .from<UserTwoFactorState>("users")
+      .select(
+        "id, email, role, totp_secret, totp_enabled_at, totp_last_step, recovery_codes",
+      )
+      .eq("id", userId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message || "Failed to load two-factor state");
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return {
+      ...data,
+      // BIGINT 列由驱动返回字符串
+      totp_last_step:
+        data.totp_last_step === null ? null : Number(data.totp_last_step),
+    };
+  }
+
+  /**
+   * 更新用户的两步验证字段
+   *
+   * @param userId - 用户 ID
+   * @param patch - 要更新的字段
+   * @throws {Error} 更新失败时抛出错误
+   */
+  async updateUserTwoFactor(
+    userId: string,
+    patch: Partial<Omit<UserTwoFactorState, "id" | "email" | "role">>,
+  ): Promise<void> {
+    const db = await createAdminClient();
+    const { error } = await db.update(
+      "users",
+      { ...patch, updated_at: new Date().toISOString() },
+      { id: userId },
+    );
+
+    if (error) {
+      throw new Error(error.message || "Failed to update two-factor state");
+    }
+  }
+
+  /**
+   * 创建登录会话
+   *
+   * @param session - 会话数据
+   * @returns 创建的会话
+   * @throws {Error} 创建失败时抛出错误
+   */
+  async createUserSession(session: UserSessionInsert): Promise<UserSession> {
+    const db = await createAdminClient();
+    const { data, error } = await db.insert("user_sessions", session);
+
+    if (error || !data || data.length === 0) {
+      throw new Error(error?.message || "Failed to create session");
+    }
+
+    return data[0] as UserSession;
+  }
+
+  /**
+   * 根据 ID 查找登录会话
+   *
+   * @param sessionId - 会话 ID
+   * @returns 会话，不存在返回 null
+   */
+  async findUserSession(sessionId: string): Promise<UserSession | null> {
+    const db = await createAdminClient();
+    const { data, error } = await db
+      .from<UserSession>("user_sessions")
+      .select("*")
+      .eq("id", sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message || "Failed to load session");
+    }
+
+    return data;
+  }
+
+  /**
+   * 轮换刷新令牌
+   *
+   * @description
+   * 以当前刷新令牌 ID 作为更新条件，并发请求中只有一个能轮换成功。
+   *
+   * @returns 是否轮换成功
+   */
+  async rotateUserSession(
+    sessionId: string,
+    currentJti: string,
+    nextJti: string,
+    expiresAt: string,
+  ): Promise<boolean> {
+    const db = await createAdminClient();
+    const now = new Date().toISOString();
+    const { data, error } = await db.update(
+      "user_sessions",
+      {
+        refresh_jti: nextJti,
+        previous_refresh_jti: currentJti,
+        rotated_at: now,
+        last_used_at: now,
+        expires_at: expiresAt,
+      },
+      { id: sessionId, refresh_jti: currentJti, revoked_at: null },
+    );
+
+    if (error) {
+      throw new Error(error.message || "Failed to rotate session");
+    }
+
+    return !!data && data.length > 0;
+  }
+
+  /**
+   * 吊销登录会话
+   *
+   * @param filter - 按会话 ID 列表或用户 ID 吊销
+   * @param reason - 吊销原因
+   * @returns 吊销的会话数量
+   */
+  async revokeUserSessions(
+    filter: { sessionIds?: string[]; userId?: string },
+    reason: string,
+  ): Promise<number> {
+    const where = filter.sessionIds
+      ? { "id[]": filter.sessionIds }
+      : filter.userId
+        ? { user_id: filter.userId }
+        : null;
+    if (!where) {
+      return 0;
+    }
+
+    const db = await createAdminClient();
+    const { data, error } = await db.update(
+      "user_sessions",
+      { revoked_at: new Date().toISOString(), revoked_reason: reason },
+      { ...where, revoked_at: null },
+    );
+
+    if (error) {
+      throw new Error(error.message || "Failed to revoke sessions");
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * 列出用户未吊销、未过期的登录会话（最近使用的在前）
+   */
+  async listUserSessions(userId: string): Promise<UserSession[]> {
+    const db = await createAdminClient();
+    const { data, error } = await db
+      .from<UserSession>("user_sessions")
+      .select("*")
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .order("last_used_at", { ascending: false })
+      .limit(100);
+
+    if (error) {
+      throw new Error(error.message || "Failed to list sessions");
+    }
+
+    return data || [];
+  }
+
+  /**
+   * 记录登录尝试
+   */
+  async recordLoginAttempt(entry: LoginHistoryInsert): Promise<void> {
+    const db = await createAdminClient();
+    const { error } = await db.insert("login_history", entry);
+
+    if (error) {
+      throw new Error(error.message || "Failed to record login attempt");
+    }
+  }
+
+  /**
+   * 获取用户最近的登录记录（最新的在前）
+   */
+  async listLoginHistory(
+    userId: string,
+    limit: number,
+  ): Promise<LoginHistoryEntry[]> {
+    const db = await createAdminClient();
+    const { data, error } = await db
+      .from<LoginHistoryEntry>("login_history")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(error.message || "Failed to list login history");
+    }
+
+    return data || [];
+  }
 }
 
 /**
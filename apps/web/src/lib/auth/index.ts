@@ -29,8 +29,11 @@
  * ```
  */
 import { cookies } from 'next/headers'
+import type { LoginHistoryEntry, LoginHistoryInsert, UserSession, UserSessionInsert } from '@/types/database'
 // JWT 函数从 jwt.ts 导入（Edge Runtime 兼容）
 import { createAccessToken, createRefreshToken, verifyToken, COOKIE_NAME, REFRESH_COOKIE_NAME, type JWTPayload } from './jwt'
+// 登录会话持久化（依赖 Node.js crypto）
+import { isSessionActive, issueSession, revokeSession, rotateRefreshToken } from './sessions'
 // 密码哈希函数从 password.ts 导入（避免在 Edge Runtime 中导入 Node.js crypto）
 export { hashPassword, verifyPassword } from './password'
 // Middleware 辅助函数从 jwt-helpers.ts 导入（Edge Runtime 兼容）
@@ -55,6 +58,8 @@ export interface AuthUser {
   created_at?: string
   /** 用户角色（可选，前端使用时可能包含） */
   role?: 'admin' | 'photographer' | 'retoucher' | 'guest' | null
+  /** 登录会话 ID（对应 user_sessions.id） */
+  sessionId?: string
 }
 
 /**
@@ -155,7 +160,9 @@ export async function getRefreshToken(): Promise<string | null> {
  * 获取当前已认证的用户（服务端）
  *
  * @description
- * 如果访问令牌过期但刷新令牌有效，会自动刷新访问令牌。
+ * 令牌所属的登录会话已被吊销时视为未登录。
+ * 访问令牌过期但刷新令牌有效时仍返回用户（新的访问令牌由中间件签发）；
+ * Server Components 不能写 Cookie，这里不轮换刷新令牌。
  *
  * @returns {Promise<AuthUser|null>} 用户对象，未认证返回 null
  *
@@ -175,30 +182,29 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
   if (token) {
     const payload = await verifyToken(token)
     if (payload && payload.type === 'access') {
+      if (payload.sid && !(await isSessionActive(payload.sid))) {
+        return null
+      }
       return {
         id: payload.sub,
         email: payload.email,
+        sessionId: payload.sid,
       }
     }
   }
 
-  // 如果访问令牌无效（不存在或过期）且刷新令牌存在，尝试刷新
+  // 如果访问令牌无效（不存在或过期）且刷新令牌存在，使用刷新令牌识别用户
   if (refreshToken) {
     const refreshPayload = await verifyToken(refreshToken)
     if (refreshPayload && refreshPayload.type === 'refresh') {
-      const user: AuthUser = {
+      if (refreshPayload.sid && !(await isSessionActive(refreshPayload.sid))) {
+        return null
+      }
+      return {
         id: refreshPayload.sub,
         email: refreshPayload.email,
+        sessionId: refreshPayload.sid,
       }
-      
-      // 创建新会话（会自动设置新的 cookie）
-      await createSession(user)
-      
-      if (process.env.NODE_ENV === 'development') {
-        console.log('[Auth] Token refreshed in getCurrentUser for user:', user.email)
-      }
-      
-      return user
     }
   }
 
@@ -209,7 +215,7 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
  * 为用户创建新会话
  *
  * @description
- * 生成访问令牌和刷新令牌，并设置 Cookie。
+ * 记录登录会话，生成访问令牌和刷新令牌，并设置 Cookie。
  *
  * @param {AuthUser} user 要创建会话的用户
  * @returns {Promise<AuthSession>} 创建的会话对象
@@ -221,14 +227,13 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
  * ```
  */
 export async function createSession(user: AuthUser): Promise<AuthSession> {
-  const accessToken = await createAccessToken(user)
-  const refreshToken = await createRefreshToken(user)
+  const issued = await issueSession(user, { ipAddress: null, userAgent: null })
 
   const session: AuthSession = {
-    access_token: accessToken,
-    refresh_token: refreshToken,
+    access_token: issued.accessToken,
+    refresh_token: issued.refreshToken,
     expires_at: Math.floor(Date.now() / 1000) + 60 * 60, // 1 小时
-    user,
+    user: { ...user, sessionId: issued.sessionId },
   }
 
   await setAuthCookies(session)
@@ -239,33 +244,43 @@ export async function createSession(user: AuthUser): Promise<AuthSession> {
  * 使用刷新令牌更新现有会话
  *
  * @description
- * 当访问令牌过期时，使用刷新令牌获取新的访问令牌。
+ * 当访问令牌过期时，使用刷新令牌获取新的访问令牌，并轮换刷新令牌（旧刷新令牌随即失效）。
+ * 只能在 Route Handler 或 Server Action 中调用（需要写 Cookie）。
  *
- * @returns {Promise<AuthSession|null>} 新会话对象，刷新失败返回 null
+ * @returns {Promise<AuthSession|null>} 新会话对象，刷新失败或会话已吊销返回 null
  */
 export async function refreshSession(): Promise<AuthSession | null> {
   const refreshToken = await getRefreshToken()
   if (!refreshToken) return null
 
-  const payload = await verifyToken(refreshToken)
-  if (!payload || payload.type !== 'refresh') return null
+  const refreshed = await rotateRefreshToken(refreshToken, { ipAddress: null, userAgent: null })
+  if (!refreshed) return null
 
-  const user: AuthUser = {
-    id: payload.sub,
-    email: payload.email,
+  const session: AuthSession = {
+    access_token: refreshed.accessToken,
+    // 并发请求在轮换宽限期内不会拿到新的刷新令牌，继续使用当前令牌
+    refresh_token: refreshed.refreshToken ?? refreshToken,
+    expires_at: Math.floor(Date.now() / 1000) + 60 * 60, // 1 小时
+    user: refreshed.user,
   }
 
-  return createSession(user)
+  await setAuthCookies(session)
+  return session
 }
 
 /**
  * 销毁当前会话（登出）
  *
  * @description
- * 清除所有认证 Cookie
+ * 吊销当前登录会话（令牌随即失效），并清除所有认证 Cookie
  * @returns {Promise<void>}
  */
 export async function destroySession(): Promise<void> {
+  const token = (await getRefreshToken()) || (await getAuthToken())
+  const payload = token ? await verifyToken(token) : null
+  if (payload?.sid) {
+    await revokeSession(payload.sid, 'signout')
+  }
   await clearAuthCookies()
 }
 
@@ -302,7 +317,14 @@ export interface AuthDatabase {
    * @param email - 用户邮箱（会自动转为小写）
    * @returns 用户对象，不存在返回 null
    */
-  findUserByEmail(email: string): Promise<{ id: string; email: string; password_hash: string | null } | null>
+  findUserByEmail(email: string): Promise<{
+    id: string
+    email: string
+    password_hash: string | null
+    role?: 'admin' | 'photographer' | 'retoucher' | 'guest' | null
+    /** 是否已启用两步验证 */
+    totp_enabled?: boolean
+  } | null>
 
   /**
    * 创建新用户
@@ -335,6 +357,82 @@ export interface AuthDatabase {
    * @returns {Promise<boolean>} 如果存在至少一个管理员，返回 true
    */
   hasAnyAdmin?(): Promise<boolean>
+
+  /**
+   * 获取用户的两步验证状态（可选）
+   *
+   * @param userId - 用户 ID
+   */
+  findUserTwoFactor?(userId: string): Promise<UserTwoFactorState | null>
+
+  /**
+   * 更新用户的两步验证字段（可选）
+   *
+   * @param userId - 用户 ID
+   * @param patch - 要更新的字段
+   */
+  updateUserTwoFactor?(userId: string, patch: Partial<Omit<UserTwoFactorState, 'id' | 'email' | 'role'>>): Promise<void>
+
+  /**
+   * 创建登录会话（可选，未实现时签发的令牌无法吊销）
+   */
+  createUserSession?(session: UserSessionInsert): Promise<UserSession>
+
+  /**
+   * 根据 ID 查找登录会话（可选）
+   */
+  findUserSession?(sessionId: string): Promise<UserSession | null>
+
+  /**
+   * 轮换刷新令牌（可选）
+   *
+   * @description 仅当会话未吊销且当前刷新令牌 ID 为 currentJti 时更新，并发轮换只有一个成功
+   * @returns 是否更新成功
+   */
+  rotateUserSession?(sessionId: string, currentJti: string, nextJti: string, expiresAt: string): Promise<boolean>
+
+  /**
+   * 吊销登录会话（可选）
+   *
+   * @param filter - 按会话 ID 列表或用户 ID 吊销
+   * @param reason - 吊销原因
+   * @returns 吊销的会话数量
+   */
+  revokeUserSessions?(filter: { sessionIds?: string[]; userId?: string }, reason: string): Promise<number>
+
+  /**
+   * 列出用户未吊销、未过期的登录会话（可选）
+   */
+  listUserSessions?(userId: string): Promise<UserSession[]>
+
+  /**
+   * 记录登录尝试（可选）
+   */
+  recordLoginAttempt?(entry: LoginHistoryInsert): Promise<void>
+
+  /**
+   * 获取用户最近的登录记录（可选）
+   */
+  listLoginHistory?(userId: string, limit: number): Promise<LoginHistoryEntry[]>
+}
+
+/**
+ * 用户两步验证状态
+ *
+ * @interface
+ */
+export interface UserTwoFactorState {
+  id: string
+  email: string
+  role: 'admin' | 'photographer' | 'retoucher' | 'guest' | null
+  /** 加密后的 TOTP 密钥，NULL 表示未绑定 */
+  totp_secret: string | null
+  /** 启用时间，有密钥但为 NULL 表示正在绑定 */
+  totp_enabled_at: string | null
+  /** 最近一次通过验证的时间步 */
+  totp_last_step: number | null
+  /** 剩余恢复码的哈希 */
+  recovery_codes: string[] | null
 }
 
 /** 内部数据库实例 */
@@ -0,0 +1,133 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { COOKIE_NAME, REFRESH_COOKIE_NAME, createAccessToken, createRefreshToken } from './jwt'
+import { updateSessionMiddleware } from './jwt-helpers'
+
+const user = { id: 'user-1', email: 'user@example.com', sessionId: 'session-1' }
+const mockFetch = vi.fn()
+
+function adminRequest(cookies: Record<string, string>) {
+  return new NextRequest('https://pic.example.com/admin', {
+    headers: {
+      cookie: Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; '),
+      'user-agent': 'vitest',
+    },
+  })
+}
+
+describe('updateSessionMiddleware', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should use a valid access token without refreshing', async () => {
+    const accessToken = await createAccessToken(user)
+
+    const { refreshedUser } = await updateSessionMiddleware(adminRequest({ [COOKIE_NAME]: accessToken }))
+
+    expect(refreshedUser).toEqual(user)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject a valid access token whose session was revoked', async () => {
+    const accessToken = await createAccessToken(user)
+    const refreshToken = await createRefreshToken(user)
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ data: { active: false } }), { status: 200 }))
+
+    const { response, refreshedUser } = await updateSessionMiddleware(
+      adminRequest({ [COOKIE_NAME]: accessToken, [REFRESH_COOKIE_NAME]: refreshToken }),
+      { checkRevocation: true }
+    )
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://pic.example.com/api/auth/session')
+    expect(init.method).toBe('GET')
+    expect(init.headers.get('cookie')).toContain(`${COOKIE_NAME}=${accessToken}`)
+    expect(refreshedUser).toBeNull()
+    expect(response.cookies.get(COOKIE_NAME)?.value).toBe('')
+    expect(response.cookies.get(REFRESH_COOKIE_NAME)?.value).toBe('')
+  })
+
+  it('should keep an active session when checking revocation', async () => {
+    const accessToken = await createAccessToken(user)
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ data: { active: true } }), { status: 200 }))
+
+    const { refreshedUser } = await updateSessionMiddleware(
+      adminRequest({ [COOKIE_NAME]: accessToken }),
+      { checkRevocation: true }
+    )
+
+    expect(refreshedUser).toEqual(user)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep the session when the session status API is unavailable', async () => {
+    const accessToken = await createAccessToken(user)
+    mockFetch.mockRejectedValue(new Error('ECONNREFUSED'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const { response, refreshedUser } = await updateSessionMiddleware(
+      adminRequest({ [COOKIE_NAME]: accessToken }),
+      { checkRevocation: true }
+    )
+
+    expect(refreshedUser).toEqual(user)
+    expect(response.headers.getSetCookie()).toEqual([])
+  })
+
+  it('should rotate through the refresh API instead of signing tokens itself', async () => {
+    const refreshToken = await createRefreshToken(user)
+    const headers = new Headers()
+    headers.append('set-cookie', `${COOKIE_NAME}=new-access; Path=/; HttpOnly`)
+    headers.append('set-cookie', `${REFRESH_COOKIE_NAME}=new-refresh; Path=/; HttpOnly`)
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ data: { user } }), { status: 200, headers }))
+
+    const request = adminRequest({ [COOKIE_NAME]: 'expired', [REFRESH_COOKIE_NAME]: refreshToken })
+    const { response, refreshedUser } = await updateSessionMiddleware(request)
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://pic.example.com/api/auth/refresh')
+    expect(init.method).toBe('POST')
+    expect(init.headers.get('cookie')).toContain(`${REFRESH_COOKIE_NAME}=${refreshToken}`)
+    expect(init.headers.get('x-forwarded-proto')).toBe('https')
+    expect(refreshedUser).toEqual(user)
+    // 新令牌写入响应，同时转发给本次请求的后续处理
+    expect(response.headers.getSetCookie()).toEqual(headers.getSetCookie())
+    expect(request.cookies.get(COOKIE_NAME)?.value).toBe('new-access')
+    expect(request.cookies.get(REFRESH_COOKIE_NAME)?.value).toBe('new-refresh')
+  })
+
+  it('should clear auth cookies when the refresh token is rejected', async () => {
+    const refreshToken = await createRefreshToken(user)
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ error: { code: 'UNAUTHORIZED' } }), { status: 401 }))
+
+    const { response, refreshedUser } = await updateSessionMiddleware(
+      adminRequest({ [REFRESH_COOKIE_NAME]: refreshToken })
+    )
+
+    expect(refreshedUser).toBeNull()
+    expect(response.cookies.get(COOKIE_NAME)?.value).toBe('')
+    expect(response.cookies.get(REFRESH_COOKIE_NAME)?.value).toBe('')
+  })
+
+  it('should keep cookies when the refresh API is unavailable', async () => {
+    const refreshToken = await createRefreshToken(user)
+    mockFetch.mockRejectedValue(new Error('ECONNREFUSED'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const { response, refreshedUser } = await updateSessionMiddleware(
+      adminRequest({ [REFRESH_COOKIE_NAME]: refreshToken })
+    )
+
+    expect(refreshedUser).toBeNull()
+    expect(response.headers.getSetCookie()).toEqual([])
+  })
+})
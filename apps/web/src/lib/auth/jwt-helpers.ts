@@ -8,7 +8,7 @@
  * @module lib/auth/jwt-helpers
  */
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyToken, createAccessToken, COOKIE_NAME, REFRESH_COOKIE_NAME, type AuthUser } from './jwt'
+import { verifyToken, COOKIE_NAME, REFRESH_COOKIE_NAME, type AuthUser } from './jwt'
 
 /**
  * 从请求中获取用户（用于 API Routes 和 Middleware）
@@ -49,6 +49,7 @@ export async function getUserFromRequest(request: NextRequest): Promise<AuthUser
       return {
         id: payload.sub,
         email: payload.email,
+        sessionId: payload.sid,
       }
     } else {
       if (process.env.NODE_ENV === 'development') {
@@ -83,6 +84,7 @@ export async function getUserFromRequest(request: NextRequest): Promise<AuthUser
       return {
         id: refreshPayload.sub,
         email: refreshPayload.email,
+        sessionId: refreshPayload.sid,
       }
     } else {
       if (process.env.NODE_ENV === 'development') {
@@ -98,80 +100,171 @@ export async function getUserFromRequest(request: NextRequest): Promise<AuthUser
   return null
 }
 
+/** 转发给内部认证接口的请求头（记录客户端信息、判断 HTTPS） */
+const FORWARDED_HEADERS = ['user-agent', 'x-forwarded-for', 'x-real-ip', 'cf-connecting-ip', 'x-forwarded-proto']
+
+/**
+ * 带上当前请求的 Cookie 调用 Node.js 运行时的认证接口
+ *
+ * @description
+ * 接口地址默认与当前请求同源，反向代理后无法从容器内访问公网地址时通过 INTERNAL_APP_URL 指定
+ * @internal
+ */
+function fetchAuthApi(request: NextRequest, path: string, method: 'GET' | 'POST'): Promise<Response> {
+  const origin = process.env.INTERNAL_APP_URL || request.nextUrl.origin
+  const headers = new Headers({ cookie: request.headers.get('cookie') || '' })
+  for (const name of FORWARDED_HEADERS) {
+    const value = request.headers.get(name)
+    if (value) headers.set(name, value)
+  }
+  // 内部地址为 http 时保留原请求的协议，避免 Cookie 丢失 secure 标志
+  if (!headers.has('x-forwarded-proto')) {
+    headers.set('x-forwarded-proto', request.nextUrl.protocol.replace(':', ''))
+  }
+
+  return fetch(`${origin.replace(/\/$/, '')}${path}`, { method, headers, cache: 'no-store' })
+}
+
+/**
+ * 刷新接口的调用结果
+ * - refreshed：轮换成功，带回新的 Set-Cookie
+ * - rejected：刷新令牌无效、会话已吊销或检测到令牌重复使用
+ * - unavailable：刷新接口暂时不可用（不清除 Cookie，下次请求重试）
+ */
+type RefreshResult =
+  | { status: 'refreshed'; user: AuthUser; setCookies: string[] }
+  | { status: 'rejected' }
+  | { status: 'unavailable' }
+
+/**
+ * 调用 Node.js 运行时的刷新接口（/api/auth/refresh）轮换刷新令牌
+ *
+ * @description
+ * Edge Runtime 无法访问数据库，不能检查刷新令牌是否已被轮换或会话是否已吊销，
+ * 因此中间件不自行签发访问令牌，而是把 Cookie 转发给刷新接口完成轮换和重复使用检测。
+ * @internal
+ */
+async function refreshViaApi(request: NextRequest): Promise<RefreshResult> {
+  try {
+    const response = await fetchAuthApi(request, '/api/auth/refresh', 'POST')
+    if (response.status === 401) {
+      return { status: 'rejected' }
+    }
+    if (!response.ok) {
+      console.error('[Auth] Session refresh failed with status:', response.status)
+      return { status: 'unavailable' }
+    }
+    const result = await response.json()
+    return { status: 'refreshed', user: result.data.user, setCookies: response.headers.getSetCookie() }
+  } catch (error) {
+    console.error('[Auth] Session refresh request failed:', error)
+    return { status: 'unavailable' }
+  }
+}
+
+/**
+ * 调用 Node.js 运行时的会话状态接口（/api/auth/session）检查访问令牌所属会话是否已吊销
+ *
+ * @description
+ * 访问令牌只校验签名时，已吊销的会话在令牌过期前（最长 1 小时）仍可使用。
+ * 接口暂时不可用时视为有效，与 isSessionActive 查询失败时的处理一致
+ * @internal
+ */
+async function isSessionActiveViaApi(request: NextRequest): Promise<boolean> {
+  try {
+    const response = await fetchAuthApi(request, '/api/auth/session', 'GET')
+    if (!response.ok) {
+      console.error('[Auth] Session status check failed with status:', response.status)
+      return true
+    }
+    const result = await response.json()
+    return result.data.active !== false
+  } catch (error) {
+    console.error('[Auth] Session status request failed:', error)
+    return true
+  }
+}
+
 /**
- * 中间件辅助函数：更新会话（刷新即将过期的令牌）
+ * 中间件辅助函数：更新会话（刷新过期的访问令牌）
  *
  * @description
  * 应在中间件中调用，确保会话连续性。
- * 当访问令牌过期但刷新令牌有效时，自动生成新的访问令牌。
+ * 当访问令牌过期但存在刷新令牌时，调用刷新接口轮换令牌，新 Cookie 同时写入响应和转发给后续处理的请求；
+ * 刷新令牌被拒绝（已轮换、已吊销或过期）时清除认证 Cookie。
+ * 开启 checkRevocation 时，访问令牌有效也会检查其会话是否已吊销，已吊销时同样清除认证 Cookie。
  *
  * @param {NextRequest} request Next.js 请求对象
- * @returns {Promise<{ response: NextResponse; refreshedUser: AuthUser | null }>} 响应对象和刷新后的用户信息
+ * @param {Object} [options] 选项
+ * @param {boolean} [options.checkRevocation] 是否检查访问令牌所属会话已被吊销（管理后台页面使用；API 路由自行检查）
+ * @returns {Promise<{ response: NextResponse; refreshedUser: AuthUser | null }>} 响应对象和当前用户（未登录为 null）
  */
-export async function updateSessionMiddleware(request: NextRequest): Promise<{ response: NextResponse; refreshedUser: AuthUser | null }> {
-  const response = NextResponse.next({ request })
-
+export async function updateSessionMiddleware(
+  request: NextRequest,
+  options: { checkRevocation?: boolean } = {}
+): Promise<{ response: NextResponse; refreshedUser: AuthUser | null }> {
   const token = request.cookies.get(COOKIE_NAME)?.value
   const refreshToken = request.cookies.get(REFRESH_COOKIE_NAME)?.value
 
   // 检查访问令牌是否有效
-  let tokenValid = false
-  let currentUser: AuthUser | null = null
   if (token) {
     const payload = await verifyToken(token)
     if (payload && payload.type === 'access') {
-      tokenValid = true
-      currentUser = { id: payload.sub, email: payload.email }
-    } else {
-      // Token 无效（过期或格式错误）
       if (process.env.NODE_ENV === 'development') {
-        console.log('[Auth] Access token invalid or expired, checking refresh token...')
+        console.log('[Auth] Access token valid for user:', payload.email)
+      }
+      if (options.checkRevocation && payload.sid && !(await isSessionActiveViaApi(request))) {
+        const response = NextResponse.next({ request })
+        response.cookies.delete(COOKIE_NAME)
+        response.cookies.delete(REFRESH_COOKIE_NAME)
+        if (process.env.NODE_ENV === 'development') {
+          console.log('[Auth] Session revoked for user:', payload.email)
+        }
+        return { response, refreshedUser: null }
+      }
+      return {
+        response: NextResponse.next({ request }),
+        refreshedUser: { id: payload.sub, email: payload.email, sessionId: payload.sid },
       }
     }
-  } else {
-    // Token 不存在
     if (process.env.NODE_ENV === 'development') {
-      console.log('[Auth] Access token not found, checking refresh token...')
+      console.log('[Auth] Access token invalid or expired, checking refresh token...')
     }
   }
 
-  // 如果访问令牌无效（不存在或过期）且刷新令牌存在，尝试刷新
-  if (!tokenValid && refreshToken) {
-    const refreshPayload = await verifyToken(refreshToken)
-    if (refreshPayload && refreshPayload.type === 'refresh') {
-      const user: AuthUser = { id: refreshPayload.sub, email: refreshPayload.email }
-      const newAccessToken = await createAccessToken(user)
-      const isProduction = process.env.NODE_ENV === 'production'
-
-      response.cookies.set(COOKIE_NAME, newAccessToken, {
-        httpOnly: true,
-        secure: isProduction,
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 60 * 60, // 1 小时
-      })
-      
-      if (process.env.NODE_ENV === 'development') {
-        console.log('[Auth] Token refreshed successfully for user:', user.email)
-      }
-      
-      // 返回刷新后的用户信息
-      return { response, refreshedUser: user }
-    } else {
-      // Refresh token 也无效
-      if (process.env.NODE_ENV === 'development') {
-        console.log('[Auth] Refresh token invalid or expired')
-      }
+  if (!refreshToken) {
+    if (process.env.NODE_ENV === 'development') {
+      console.log('[Auth] No valid token found, user not authenticated')
+    }
+    return { response: NextResponse.next({ request }), refreshedUser: null }
+  }
+
+  const result = await refreshViaApi(request)
+
+  if (result.status === 'refreshed') {
+    // 新令牌同时写入请求 Cookie，让本次请求的页面和 API 直接使用，不再重复轮换
+    for (const cookie of result.setCookies) {
+      const [pair] = cookie.split(';')
+      const separator = pair.indexOf('=')
+      request.cookies.set(pair.slice(0, separator).trim(), decodeURIComponent(pair.slice(separator + 1)))
+    }
+    const response = NextResponse.next({ request })
+    for (const cookie of result.setCookies) {
+      response.headers.append('set-cookie', cookie)
+    }
+    if (process.env.NODE_ENV === 'development') {
+      console.log('[Auth] Token refreshed successfully for user:', result.user.email)
     }
+    return { response, refreshedUser: result.user }
   }
 
-  // 如果 token 有效，返回当前用户；否则返回 null
-  // ⚠️ 重要：即使 token 有效，也要返回 currentUser，不能返回 null
-  // 这样可以确保中间件正确识别已登录的用户
-  if (process.env.NODE_ENV === 'development' && currentUser) {
-    console.log('[Auth] Access token valid for user:', currentUser.email)
-  } else if (process.env.NODE_ENV === 'development' && !currentUser && !refreshToken) {
-    console.log('[Auth] No valid token found, user not authenticated')
+  const response = NextResponse.next({ request })
+  if (result.status === 'rejected') {
+    response.cookies.delete(COOKIE_NAME)
+    response.cookies.delete(REFRESH_COOKIE_NAME)
+    if (process.env.NODE_ENV === 'development') {
+      console.log('[Auth] Refresh token rejected')
+    }
   }
-  return { response, refreshedUser: currentUser }
+  return { response, refreshedUser: null }
 }
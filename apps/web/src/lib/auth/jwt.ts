@@ -43,6 +43,9 @@ const ACCESS_TOKEN_EXPIRY = "1h";
 /** 刷新令牌有效期（7天） */
 const REFRESH_TOKEN_EXPIRY = "7d";
 
+/** 两步验证挑战令牌有效期（5分钟） */
+const TWO_FACTOR_TOKEN_EXPIRY = "5m";
+
 /** 访问令牌 Cookie 名称 */
 export const COOKIE_NAME = "pis-auth-token";
 
@@ -51,16 +54,27 @@ export const REFRESH_COOKIE_NAME = "pis-refresh-token";
 
 // ==================== Type Definitions ====================
 
+/**
+ * 两步验证挑战用途
+ */
+export type TwoFactorPurpose = "verify" | "setup";
+
 /**
  * JWT 载荷接口
  */
 export interface JWTPayload {
   /** 用户邮箱 */
   email: string;
-  /** 令牌类型 */
-  type: "access" | "refresh";
+  /** 令牌类型（two_factor 为密码验证通过、等待两步验证的挑战令牌） */
+  type: "access" | "refresh" | "two_factor";
   /** 用户 ID（subject） */
   sub: string;
+  /** 登录会话 ID（对应 user_sessions.id，旧版本签发的令牌没有该字段） */
+  sid?: string;
+  /** 令牌 ID（刷新令牌轮换时使用） */
+  jti?: string;
+  /** 挑战令牌用途：verify 输入验证码，setup 强制绑定验证器 */
+  purpose?: TwoFactorPurpose;
   /** 签发者 */
   iss: string;
   /** 受众 */
@@ -79,6 +93,8 @@ export interface AuthUser {
   id: string;
   /** 用户邮箱地址 */
   email: string;
+  /** 登录会话 ID */
+  sessionId?: string;
 }
 
 // ==================== JWT Tokens ====================
@@ -90,7 +106,7 @@ export interface AuthUser {
  * @returns {Promise<string>} 签名后的 JWT 访问令牌
  */
 export async function createAccessToken(user: AuthUser): Promise<string> {
-  return new SignJWT({ email: user.email, type: "access" })
+  return new SignJWT({ email: user.email, type: "access", sid: user.sessionId })
     .setProtectedHeader({ alg: "HS256" })
     .setSubject(user.id)
     .setIssuer(JWT_ISSUER)
@@ -104,10 +120,22 @@ export async function createAccessToken(user: AuthUser): Promise<string> {
  * 为用户创建刷新令牌
  *
  * @param {AuthUser} user 用户信息对象
+ * @param {string} [jti] 令牌 ID，登录会话据此识别当前有效的刷新令牌
  * @returns {Promise<string>} 签名后的 JWT 刷新令牌
  */
-export async function createRefreshToken(user: AuthUser): Promise<string> {
-  return new SignJWT({ email: user.email, type: "refresh" })
+export async function createRefreshToken(
+  user: AuthUser,
+  jti?: string,
+): Promise<string> {
+  const token = new SignJWT({
+    email: user.email,
+    type: "refresh",
+    sid: user.sessionId,
+  });
+  if (jti) {
+    token.setJti(jti);
+  }
+  return token
     .setProtectedHeader({ alg: "HS256" })
     .setSubject(user.id)
     .setIssuer(JWT_ISSUER)
@@ -117,6 +145,30 @@ export async function createRefreshToken(user: AuthUser): Promise<string> {
     .sign(JWT_SECRET);
 }
 
+/**
+ * 创建两步验证挑战令牌
+ *
+ * @description
+ * 密码验证通过后签发，不能作为访问令牌使用，只用于完成两步验证（或强制绑定验证器）。
+ *
+ * @param {AuthUser} user 用户信息对象
+ * @param {TwoFactorPurpose} purpose 挑战用途
+ * @returns {Promise<string>} 签名后的挑战令牌
+ */
+export async function createTwoFactorToken(
+  user: AuthUser,
+  purpose: TwoFactorPurpose,
+): Promise<string> {
+  return new SignJWT({ email: user.email, type: "two_factor", purpose })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(user.id)
+    .setIssuer(JWT_ISSUER)
+    .setAudience(JWT_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(TWO_FACTOR_TOKEN_EXPIRY)
+    .sign(JWT_SECRET);
+}
+
 /**
  * 验证 JWT 令牌
  *
@@ -23,7 +23,18 @@
  * ```
  */
 import { NextResponse, type NextRequest } from "next/server";
-import { getUserFromRequest, updateSessionMiddleware } from "./jwt-helpers";
+import { updateSessionMiddleware } from "./jwt-helpers";
+
+/**
+ * 重定向并带上会话刷新时写入的 Cookie（轮换后的令牌或清除认证 Cookie）
+ */
+function redirectWithCookies(url: URL, response: NextResponse) {
+  const redirect = NextResponse.redirect(url);
+  for (const cookie of response.headers.getSetCookie()) {
+    redirect.headers.append("set-cookie", cookie);
+  }
+  return redirect;
+}
 
 /**
  * 更新会话中间件
@@ -31,7 +42,7 @@ import { getUserFromRequest, updateSessionMiddleware } from "./jwt-helpers";
  * @description
  * 执行以下操作：
  * 1. 刷新即将过期的令牌
- * 2. 检查用户认证状态
+ * 2. 检查用户认证状态（管理后台页面会检查会话是否已被吊销）
  * 3. 处理管理后台页面认证
  * 4. 处理登录页面重定向
  *
@@ -73,21 +84,14 @@ export async function updateSession(request: NextRequest) {
     });
   }
 
-  // 更新会话（刷新令牌）
-  const { response, refreshedUser } = await updateSessionMiddleware(request);
-
-  // 检查用户认证状态
-  // 优先使用刷新后的用户信息
-  let user = refreshedUser;
+  // 更新会话（刷新令牌）；管理后台页面同时检查会话是否已被吊销（API 路由由各接口自行检查）
+  const { response, refreshedUser } = await updateSessionMiddleware(request, {
+    checkRevocation: request.nextUrl.pathname.startsWith("/admin"),
+  });
 
-  // 如果 token 没有被刷新，从 request 中读取
-  // 但如果 refresh token 有效但 access token 无效，getUserFromRequest 会返回用户
-  // 此时中间件已经刷新了 token，所以应该优先使用 refreshedUser
-  if (!user) {
-    // 如果 refreshedUser 为 null，说明 token 有效，不需要刷新
-    // 从原始 request 中读取用户信息
-    user = await getUserFromRequest(request);
-  }
+  // 访问令牌有效时为令牌中的用户；已过期时为刷新接口轮换后的用户。
+  // 不能仅凭刷新令牌的签名认定已登录：已轮换或已吊销的刷新令牌必须由刷新接口拒绝
+  const user = refreshedUser;
 
   // 调试日志
   if (process.env.NODE_ENV === "development") {
@@ -106,7 +110,7 @@ export async function updateSession(request: NextRequest) {
         // 已登录，重定向到管理后台首页
         const url = request.nextUrl.clone();
         url.pathname = "/admin";
-        return NextResponse.redirect(url);
+        return redirectWithCookies(url, response);
       }
       // 未登录，允许访问登录页
       return response;
@@ -117,7 +121,7 @@ export async function updateSession(request: NextRequest) {
       // 未登录，重定向到登录页
       const url = request.nextUrl.clone();
       url.pathname = "/admin/login";
-      return NextResponse.redirect(url);
+      return redirectWithCookies(url, response);
     }
   }
 
@@ -42,6 +42,8 @@ export interface UserWithRole {
   id: string
   email: string
   role: UserRole
+  /** 当前登录会话 ID（旧版本令牌没有） */
+  sessionId?: string
 }
 
 /**
@@ -222,6 +224,7 @@ export async function requireRole(
     id: user.id,
     email: user.email,
     role,
+    sessionId: user.sessionId,
   }
 }
 
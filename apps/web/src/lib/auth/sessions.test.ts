@@ -0,0 +1,139 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { UserSession } from '@/types/database'
+import { createRefreshToken, verifyToken } from './jwt'
+
+// 内存中的会话表
+const { sessions, mockDb } = vi.hoisted(() => {
+  const sessions = new Map<string, UserSession>()
+  const mockDb = {
+    findUserSession: async (id: string) => sessions.get(id) ?? null,
+    createUserSession: async (data: Partial<UserSession>) => {
+      const session = {
+        id: `session-${sessions.size + 1}`,
+        previous_refresh_jti: null,
+        rotated_at: null,
+        created_at: new Date().toISOString(),
+        last_used_at: new Date().toISOString(),
+        revoked_at: null,
+        revoked_reason: null,
+        ip_address: null,
+        user_agent: null,
+        ...data,
+      } as UserSession
+      sessions.set(session.id, session)
+      return session
+    },
+    rotateUserSession: async (id: string, currentJti: string, nextJti: string, expiresAt: string) => {
+      const session = sessions.get(id)
+      if (!session || session.refresh_jti !== currentJti || session.revoked_at) {
+        return false
+      }
+      sessions.set(id, {
+        ...session,
+        refresh_jti: nextJti,
+        previous_refresh_jti: currentJti,
+        rotated_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      })
+      return true
+    },
+    revokeUserSessions: async (filter: { sessionIds?: string[] }, reason: string) => {
+      let count = 0
+      for (const id of filter.sessionIds ?? []) {
+        const session = sessions.get(id)
+        if (session && !session.revoked_at) {
+          sessions.set(id, { ...session, revoked_at: new Date().toISOString(), revoked_reason: reason })
+          count++
+        }
+      }
+      return count
+    },
+  }
+  return { sessions, mockDb }
+})
+
+vi.mock('./index', () => ({
+  getAuthDatabase: () => mockDb,
+}))
+
+vi.mock('./database', () => ({
+  initAuthDatabase: vi.fn(),
+}))
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn().mockResolvedValue({ set: vi.fn() }),
+}))
+
+import { isSessionActive, issueSession, rotateRefreshToken } from './sessions'
+
+const user = { id: 'user-1', email: 'user@example.com' }
+const client = { ipAddress: '127.0.0.1', userAgent: 'vitest' }
+
+describe('sessions', () => {
+  beforeEach(() => {
+    sessions.clear()
+    vi.useRealTimers()
+  })
+
+  it('should issue tokens bound to a new session', async () => {
+    const issued = await issueSession(user, client)
+    const payload = await verifyToken(issued.refreshToken)
+
+    expect(issued.sessionId).toBe('session-1')
+    expect(payload?.sid).toBe('session-1')
+    expect(payload?.jti).toBe(sessions.get('session-1')?.refresh_jti)
+    expect(sessions.get('session-1')?.ip_address).toBe('127.0.0.1')
+  })
+
+  it('should rotate the refresh token on use', async () => {
+    const issued = await issueSession(user, client)
+    const refreshed = await rotateRefreshToken(issued.refreshToken, client)
+
+    expect(refreshed?.user.sessionId).toBe(issued.sessionId)
+    expect(refreshed?.refreshToken).toBeTruthy()
+    const payload = await verifyToken(refreshed!.refreshToken!)
+    expect(payload?.jti).toBe(sessions.get(issued.sessionId!)?.refresh_jti)
+  })
+
+  it('should accept the previous token within the grace period without rotating again', async () => {
+    const issued = await issueSession(user, client)
+    await rotateRefreshToken(issued.refreshToken, client)
+
+    const retried = await rotateRefreshToken(issued.refreshToken, client)
+
+    expect(retried?.accessToken).toBeTruthy()
+    expect(retried?.refreshToken).toBeNull()
+    expect(sessions.get(issued.sessionId!)?.revoked_at).toBeNull()
+  })
+
+  it('should revoke the session when a rotated token is reused after the grace period', async () => {
+    const issued = await issueSession(user, client)
+    const refreshed = await rotateRefreshToken(issued.refreshToken, client)
+    await rotateRefreshToken(refreshed!.refreshToken!, client)
+
+    // 已经轮换两次的令牌不在宽限期内
+    const reused = await rotateRefreshToken(issued.refreshToken, client)
+
+    expect(reused).toBeNull()
+    expect(sessions.get(issued.sessionId!)?.revoked_reason).toBe('refresh_reuse')
+    expect(await isSessionActive(issued.sessionId!)).toBe(false)
+  })
+
+  it('should reject tokens of revoked sessions', async () => {
+    const issued = await issueSession(user, client)
+    await mockDb.revokeUserSessions({ sessionIds: [issued.sessionId!] }, 'signout')
+
+    expect(await rotateRefreshToken(issued.refreshToken, client)).toBeNull()
+  })
+
+  it('should upgrade legacy tokens without session id', async () => {
+    const legacyToken = await createRefreshToken(user)
+    const refreshed = await rotateRefreshToken(legacyToken, client)
+
+    expect(refreshed?.user.sessionId).toBe('session-1')
+    expect(sessions.size).toBe(1)
+  })
+})
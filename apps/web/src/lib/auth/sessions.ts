@@ -0,0 +1,422 @@
+/**
+ * @fileoverview PIS Web - 登录会话管理
+ *
+ * @description
+ * 每次登录在 user_sessions 表中创建一条会话，会话 ID 写入访问令牌和刷新令牌的 sid 声明：
+ * - 已吊销（退出登录、管理员吊销、刷新令牌被重复使用）的会话，其令牌在 API 和页面中一律视为未登录
+ * - 刷新令牌每次使用后轮换，旧令牌在短暂宽限期后失效；宽限期外再次使用旧令牌视为令牌泄露，吊销整个会话
+ * - 中间件运行在 Edge Runtime，访问令牌过期时调用 /api/auth/refresh，吊销检查和轮换都在 Node.js 运行时完成
+ *
+ * 旧版本签发的令牌没有 sid，仍可使用直到过期，下次轮换时升级为可管理的会话。
+ *
+ * 注意：依赖 Node.js crypto 模块，不能在 Edge Runtime 中使用。
+ *
+ * @module lib/auth/sessions
+ */
+import crypto from 'crypto'
+import { cookies } from 'next/headers'
+import type { NextRequest } from 'next/server'
+import type { LoginHistoryEntry, LoginHistoryInsert, LoginMethod, UserSession } from '@/types/database'
+import { getAuthDatabase, type AuthDatabase, type AuthUser } from './index'
+import { initAuthDatabase } from './database'
+import {
+  createAccessToken,
+  createRefreshToken,
+  verifyToken,
+  COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+} from './jwt'
+
+/** 会话有效期（秒），与刷新令牌有效期一致（7 天） */
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7
+
+/** 访问令牌 Cookie 有效期（秒） */
+const ACCESS_COOKIE_MAX_AGE = 60 * 60
+
+/** 刷新令牌轮换后，旧令牌仍可使用的时间（同时发出的多个请求可能携带同一个旧令牌） */
+const ROTATION_GRACE_MS = 60 * 1000
+
+/** 会话状态缓存时间（减少每个请求的数据库查询，多实例部署时吊销最多延迟该时间生效） */
+const SESSION_STATUS_CACHE_MS = 15 * 1000
+
+/** 会话吊销原因 */
+export type SessionRevokeReason =
+  | 'signout'
+  | 'revoked'
+  | 'refresh_reuse'
+  | 'password_changed'
+  | 'two_factor_reset'
+
+/**
+ * 客户端信息（记录在会话和登录历史中）
+ */
+export interface SessionClientInfo {
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+/**
+ * 新签发的令牌
+ */
+export interface IssuedSession {
+  /** 会话 ID，认证数据库不支持会话持久化时为 undefined */
+  sessionId?: string
+  accessToken: string
+  refreshToken: string
+}
+
+/**
+ * 刷新结果
+ */
+export interface RefreshedSession {
+  user: AuthUser
+  accessToken: string
+  /** 新的刷新令牌；在轮换宽限期内使用旧令牌时为 null（继续使用当前令牌） */
+  refreshToken: string | null
+}
+
+/** 会话状态缓存：sessionId → { active, expiresAt } */
+const sessionStatusCache = new Map<string, { active: boolean; expiresAt: number }>()
+
+/**
+ * 获取认证数据库（未初始化时自动初始化），不可用时返回 null
+ */
+function getSessionDatabase(): AuthDatabase | null {
+  try {
+    return getAuthDatabase()
+  } catch {
+    try {
+      initAuthDatabase()
+      return getAuthDatabase()
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * 从请求中提取客户端信息
+ *
+ * @description 优先使用 Cloudflare IP，然后是 x-forwarded-for 的第一个 IP，最后是 x-real-ip
+ */
+export function getClientInfo(request: Request): SessionClientInfo {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  const ipAddress =
+    request.headers.get('cf-connecting-ip') ||
+    (forwardedFor ? forwardedFor.split(',')[0].trim() : null) ||
+    request.headers.get('x-real-ip')
+  const userAgent = request.headers.get('user-agent')
+  return {
+    ipAddress: ipAddress || null,
+    userAgent: userAgent ? userAgent.slice(0, 500) : null,
+  }
+}
+
+/**
+ * 判断请求是否通过 HTTPS 访问（决定 Cookie 的 secure 标志，支持 HTTP 内网部署）
+ */
+export function isSecureRequest(request: Request): boolean {
+  const protocol = request.headers.get('x-forwarded-proto')
+  return protocol === 'https' || request.url.startsWith('https://')
+}
+
+/**
+ * 写入认证 Cookie（仅限 Route Handler 和 Server Action）
+ *
+ * @param tokens - 访问令牌和刷新令牌；刷新令牌为 null 时保留当前 Cookie
+ * @param secure - 是否设置 secure 标志
+ */
+export async function setSessionCookies(
+  tokens: { accessToken: string; refreshToken: string | null },
+  secure: boolean
+): Promise<void> {
+  const cookieStore = await cookies()
+
+  cookieStore.set(COOKIE_NAME, tokens.accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ACCESS_COOKIE_MAX_AGE,
+  })
+
+  if (tokens.refreshToken) {
+    cookieStore.set(REFRESH_COOKIE_NAME, tokens.refreshToken, {
+      httpOnly: true,
+      secure,
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS,
+    })
+  }
+}
+
+/**
+ * 创建登录会话并签发令牌
+ *
+ * @param user - 登录用户
+ * @param client - 客户端信息
+ * @returns 会话 ID 和令牌
+ * @throws {Error} 会话写入数据库失败时抛出错误
+ */
+export async function issueSession(
+  user: { id: string; email: string },
+  client: SessionClientInfo
+): Promise<IssuedSession> {
+  const db = getSessionDatabase()
+  const jti = crypto.randomUUID()
+  let sessionId: string | undefined
+
+  if (db?.createUserSession) {
+    const session = await db.createUserSession({
+      user_id: user.id,
+      refresh_jti: jti,
+      ip_address: client.ipAddress,
+      user_agent: client.userAgent,
+      expires_at: new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString(),
+    })
+    sessionId = session.id
+  }
+
+  const tokenUser: AuthUser = { id: user.id, email: user.email, sessionId }
+  return {
+    sessionId,
+    accessToken: await createAccessToken(tokenUser),
+    refreshToken: await createRefreshToken(tokenUser, jti),
+  }
+}
+
+/**
+ * 完成登录：创建会话、写入 Cookie，并记录登录历史和最后登录时间
+ *
+ * @param request - 登录请求
+ * @param user - 通过验证的用户
+ * @param method - 登录方式
+ * @returns 新签发的会话
+ */
+export async function startLoginSession(
+  request: Request,
+  user: { id: string; email: string },
+  method: LoginMethod
+): Promise<IssuedSession> {
+  const client = getClientInfo(request)
+  const issued = await issueSession(user, client)
+  await setSessionCookies(issued, isSecureRequest(request))
+
+  await recordLoginAttempt({
+    user_id: user.id,
+    email: user.email,
+    success: true,
+    method,
+    session_id: issued.sessionId ?? null,
+    ip_address: client.ipAddress,
+    user_agent: client.userAgent,
+  })
+
+  // 更新最后登录时间（异步，不阻塞响应）
+  getSessionDatabase()?.updateLastLogin?.(user.id).catch((err) => {
+    console.error('Failed to update last login time:', err)
+  })
+
+  return issued
+}
+
+/**
+ * 会话是否有效（未吊销、未过期）
+ *
+ * @description 数据库查询失败时视为有效（不因数据库抖动让所有用户掉线），结果缓存 15 秒
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const cached = sessionStatusCache.get(sessionId)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.active
+  }
+
+  let active = true
+  try {
+    const db = getSessionDatabase()
+    if (!db?.findUserSession) {
+      return true
+    }
+    const session = await db.findUserSession(sessionId)
+    active = !!session && !session.revoked_at && new Date(session.expires_at).getTime() > Date.now()
+  } catch (error) {
+    console.error('[Auth] Failed to check session status:', error)
+    return true
+  }
+
+  sessionStatusCache.set(sessionId, { active, expiresAt: Date.now() + SESSION_STATUS_CACHE_MS })
+  return active
+}
+
+/**
+ * 使用刷新令牌换取新令牌，并轮换刷新令牌
+ *
+ * @param refreshToken - 当前刷新令牌
+ * @param client - 客户端信息（旧版本令牌升级为会话时记录）
+ * @returns 新令牌；令牌无效、会话已吊销或检测到令牌重复使用时返回 null
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  client: SessionClientInfo
+): Promise<RefreshedSession | null> {
+  const payload = await verifyToken(refreshToken)
+  if (!payload || payload.type !== 'refresh') {
+    return null
+  }
+
+  const user = { id: payload.sub, email: payload.email }
+  const db = getSessionDatabase()
+
+  // 旧版本签发的令牌没有会话 ID：升级为可管理的会话
+  if (!payload.sid || !payload.jti || !db?.findUserSession || !db.rotateUserSession) {
+    const issued = await issueSession(user, client)
+    return {
+      user: { ...user, sessionId: issued.sessionId },
+      accessToken: issued.accessToken,
+      refreshToken: issued.refreshToken,
+    }
+  }
+
+  const session = await db.findUserSession(payload.sid)
+  if (!session || session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+    return null
+  }
+
+  const tokenUser: AuthUser = { ...user, sessionId: session.id }
+
+  if (payload.jti === session.refresh_jti) {
+    const nextJti = crypto.randomUUID()
+    const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000).toISOString()
+    const rotated = await db.rotateUserSession(session.id, payload.jti, nextJti, expiresAt)
+    return {
+      user: tokenUser,
+      accessToken: await createAccessToken(tokenUser),
+      // 并发请求已先一步完成轮换时，本请求不再签发新的刷新令牌
+      refreshToken: rotated ? await createRefreshToken(tokenUser, nextJti) : null,
+    }
+  }
+
+  const rotatedAt = session.rotated_at ? new Date(session.rotated_at).getTime() : 0
+  if (payload.jti === session.previous_refresh_jti && Date.now() - rotatedAt <= ROTATION_GRACE_MS) {
+    return { user: tokenUser, accessToken: await createAccessToken(tokenUser), refreshToken: null }
+  }
+
+  // 已轮换掉的刷新令牌再次出现，说明令牌可能被盗用：吊销整个会话
+  console.warn('[Auth] Refresh token reuse detected, revoking session:', session.id)
+  await revokeSession(session.id, 'refresh_reuse')
+  return null
+}
+
+/**
+ * 校验 API 请求的登录会话
+ *
+ * @description
+ * 访问令牌有效时检查会话是否已吊销；访问令牌已过期、用户来自刷新令牌时轮换刷新令牌并写入 Cookie。
+ *
+ * @param request - Next.js 请求对象
+ * @param user - 从令牌中解析出的用户
+ * @returns 会话有效时返回用户，否则返回 null
+ */
+export async function ensureActiveSession(request: NextRequest, user: AuthUser): Promise<AuthUser | null> {
+  const accessToken = request.cookies?.get(COOKIE_NAME)?.value
+  const accessPayload = accessToken ? await verifyToken(accessToken) : null
+
+  if (accessPayload?.type === 'access') {
+    if (accessPayload.sid && !(await isSessionActive(accessPayload.sid))) {
+      return null
+    }
+    return user
+  }
+
+  const refreshToken = request.cookies?.get(REFRESH_COOKIE_NAME)?.value
+  if (!refreshToken) {
+    return user
+  }
+
+  const refreshed = await rotateRefreshToken(refreshToken, getClientInfo(request))
+  if (!refreshed) {
+    return null
+  }
+
+  try {
+    await setSessionCookies(refreshed, isSecureRequest(request))
+  } catch (error) {
+    console.error('[Auth] Failed to set rotated session cookies:', error)
+  }
+  return refreshed.user
+}
+
+/**
+ * 吊销单个登录会话
+ *
+ * @description 吊销失败只打印错误，不抛出异常
+ */
+export async function revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+  sessionStatusCache.set(sessionId, { active: false, expiresAt: Date.now() + SESSION_STATUS_CACHE_MS })
+  try {
+    await getSessionDatabase()?.revokeUserSessions?.({ sessionIds: [sessionId] }, reason)
+  } catch (error) {
+    console.error('[Auth] Failed to revoke session:', error)
+  }
+}
+
+/**
+ * 吊销用户的登录会话
+ *
+ * @param userId - 用户 ID
+ * @param reason - 吊销原因
+ * @param exceptSessionId - 保留的会话（如当前会话）
+ * @returns 吊销的会话数量
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const db = getSessionDatabase()
+  if (!db?.revokeUserSessions) {
+    return 0
+  }
+
+  let sessionIds: string[] | undefined
+  if (exceptSessionId) {
+    const sessions = (await db.listUserSessions?.(userId)) ?? []
+    sessionIds = sessions.map((session) => session.id).filter((id) => id !== exceptSessionId)
+    if (sessionIds.length === 0) {
+      return 0
+    }
+  }
+
+  const count = await db.revokeUserSessions(sessionIds ? { sessionIds } : { userId }, reason)
+  // 清空缓存，让被吊销的会话立即失效（当前进程）
+  sessionStatusCache.clear()
+  return count
+}
+
+/**
+ * 列出用户当前有效的登录会话
+ */
+export async function listUserSessions(userId: string): Promise<UserSession[]> {
+  return (await getSessionDatabase()?.listUserSessions?.(userId)) ?? []
+}
+
+/**
+ * 记录登录尝试
+ *
+ * @description 失败只打印错误，不抛出异常（记录失败不应阻止登录）
+ */
+export async function recordLoginAttempt(entry: LoginHistoryInsert): Promise<void> {
+  try {
+    await getSessionDatabase()?.recordLoginAttempt?.(entry)
+  } catch (error) {
+    console.error('[Auth] Failed to record login attempt:', error)
+  }
+}
+
+/**
+ * 获取用户最近的登录记录
+ */
+export async function listLoginHistory(userId: string, limit = 50): Promise<LoginHistoryEntry[]> {
+  return (await getSessionDatabase()?.listLoginHistory?.(userId, limit)) ?? []
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  consumeRecoveryCode,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp'
+
+// RFC 6238 附录 B 测试密钥（ASCII "12345678901234567890"）
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253])
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI')
+  })
+
+  it('should match RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082')
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804')
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924')
+  })
+
+  it('should accept codes from adjacent steps and reject replays', () => {
+    const secret = generateTotpSecret()
+    const now = Date.now()
+    const previous = generateTotp(secret, now - 30 * 1000)
+
+    const step = verifyTotp(secret, previous, { now })
+    expect(step).toBe(getTotpStep(now) - 1)
+    expect(verifyTotp(secret, previous, { now, lastStep: step })).toBeNull()
+    expect(verifyTotp(secret, generateTotp(secret, now - 90 * 1000), { now })).toBeNull()
+    expect(verifyTotp(secret, 'abcdef', { now })).toBeNull()
+  })
+
+  it('should build otpauth url', () => {
+    const url = buildOtpauthUrl('JBSWY3DPEHPK3PXP', 'admin@example.com')
+    expect(url.startsWith('otpauth://totp/PIS%3Aadmin%40example.com?')).toBe(true)
+    expect(url).toContain('secret=JBSWY3DPEHPK3PXP')
+    expect(url).toContain('issuer=PIS')
+  })
+
+  it('should consume each recovery code once', () => {
+    const { codes, hashes } = generateRecoveryCodes(3)
+    expect(codes).toHaveLength(3)
+    expect(codes[0]).toMatch(/^[a-z2-7]{4}-[a-z2-7]{4}$/)
+
+    const remaining = consumeRecoveryCode(codes[1].toUpperCase().replace('-', ' '), hashes)
+    expect(remaining).toHaveLength(2)
+    expect(consumeRecoveryCode(codes[1], remaining!)).toBeNull()
+    expect(consumeRecoveryCode('', hashes)).toBeNull()
+  })
+
+  it('should encrypt secrets at rest', () => {
+    const secret = generateTotpSecret()
+    const encrypted = encryptTotpSecret(secret)
+
+    expect(encrypted).not.toContain(secret)
+    expect(decryptTotpSecret(encrypted)).toBe(secret)
+
+    const [version, iv, tag, ciphertext] = encrypted.split(':')
+    const tampered = [version, iv, tag, ciphertext.slice(0, -2) + (ciphertext.endsWith('AA') ? 'BB' : 'AA')].join(':')
+    expect(decryptTotpSecret(tampered)).toBeNull()
+    expect(decryptTotpSecret('plain')).toBeNull()
+  })
+})
@@ -0,0 +1,279 @@
+/**
+ * @fileoverview PIS Web - 两步验证（TOTP）工具
+ *
+ * @description
+ * 基于 RFC 6238 的 TOTP 实现（SHA-1、6 位、30 秒步长），兼容 Google Authenticator、1Password 等验证器，
+ * 以及一次性恢复码的生成和校验。TOTP 密钥使用 AES-256-GCM 加密后存入数据库。
+ *
+ * 注意：依赖 Node.js crypto 模块，不能在 Edge Runtime 中使用。
+ *
+ * @module lib/auth/totp
+ */
+import crypto from 'crypto'
+
+/** 验证码位数 */
+const TOTP_DIGITS = 6
+
+/** 时间步长（秒） */
+const TOTP_STEP_SECONDS = 30
+
+/** 允许的时间偏差（前后各 1 个步长，容忍客户端时钟误差） */
+const TOTP_WINDOW = 1
+
+/** 恢复码数量 */
+export const RECOVERY_CODE_COUNT = 10
+
+/** 验证器中显示的签发者名称 */
+const TOTP_ISSUER = 'PIS'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Base32 编码（RFC 4648，无填充）
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Base32 解码（忽略大小写、空格和填充）
+ *
+ * @throws {Error} 包含非法字符时抛出错误
+ */
+export function base32Decode(input: string): Buffer {
+  const normalized = input.toUpperCase().replace(/[\s=]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * 生成新的 TOTP 密钥（160 位，Base32 编码）
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+/**
+ * 计算指定时间步的验证码
+ */
+function generateCodeForStep(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * 获取时间对应的 TOTP 时间步
+ */
+export function getTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS)
+}
+
+/**
+ * 生成当前时间的验证码
+ *
+ * @param secret - Base32 编码的密钥
+ * @param now - 时间戳（毫秒），默认当前时间
+ */
+export function generateTotp(secret: string, now: number = Date.now()): string {
+  return generateCodeForStep(secret, getTotpStep(now))
+}
+
+/**
+ * 验证 TOTP 验证码
+ *
+ * @description
+ * 在当前时间步前后各 1 步范围内匹配。传入 lastStep 时，不接受小于等于该时间步的验证码，
+ * 防止同一验证码在有效期内被重复使用。
+ *
+ * @param secret - Base32 编码的密钥
+ * @param code - 用户输入的验证码
+ * @param options.lastStep - 上次验证通过的时间步
+ * @param options.now - 时间戳（毫秒），默认当前时间
+ * @returns 匹配的时间步（需保存为 lastStep），不匹配返回 null
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { lastStep?: number | null; now?: number } = {}
+): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null
+  }
+
+  const currentStep = getTotpStep(options.now)
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset
+    if (options.lastStep != null && step <= options.lastStep) {
+      continue
+    }
+    const expected = generateCodeForStep(secret, step)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * 生成验证器扫码绑定用的 otpauth:// 链接
+ *
+ * @param secret - Base32 编码的密钥
+ * @param accountName - 账户名（通常为邮箱）
+ */
+export function buildOtpauthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+// ==================== Recovery Codes ====================
+
+/**
+ * 规范化恢复码（忽略大小写、空格和连字符）
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '')
+}
+
+/**
+ * 计算恢复码哈希（SHA-256）
+ */
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+/**
+ * 生成一组恢复码
+ *
+ * @returns 明文恢复码（仅展示给用户一次）和对应的哈希（存入数据库）
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): {
+  codes: string[]
+  hashes: string[]
+} {
+  const codes = Array.from({ length: count }, () => {
+    const raw = base32Encode(crypto.randomBytes(5)).toLowerCase()
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`
+  })
+  return { codes, hashes: codes.map(hashRecoveryCode) }
+}
+
+/**
+ * 使用恢复码
+ *
+ * @param code - 用户输入的恢复码
+ * @param hashes - 数据库中剩余的恢复码哈希
+ * @returns 匹配时返回移除该恢复码后的哈希列表，不匹配返回 null
+ */
+export function consumeRecoveryCode(code: string, hashes: string[]): string[] | null {
+  if (normalizeRecoveryCode(code).length === 0) {
+    return null
+  }
+  const hash = hashRecoveryCode(code)
+  const index = hashes.indexOf(hash)
+  if (index === -1) {
+    return null
+  }
+  return hashes.filter((_, i) => i !== index)
+}
+
+// ==================== Secret Encryption ====================
+
+/**
+ * 密钥加密使用的 AES-256 密钥
+ *
+ * 优先使用 AUTH_TOTP_ENCRYPTION_KEY，未配置时从 AUTH_JWT_SECRET 派生。
+ * 更换该值后已绑定的验证器将无法验证，需要管理员重置用户的两步验证。
+ */
+function getEncryptionKey(): Buffer {
+  const source =
+    process.env.AUTH_TOTP_ENCRYPTION_KEY ||
+    process.env.AUTH_JWT_SECRET ||
+    process.env.ALBUM_SESSION_SECRET ||
+    'fallback-secret-please-change'
+  return crypto.createHash('sha256').update(`pis-totp:${source}`).digest()
+}
+
+/**
+ * 加密 TOTP 密钥
+ *
+ * @returns 格式 `v1:iv:tag:ciphertext`（Base64URL）
+ */
+export function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return ['v1', iv.toString('base64url'), tag.toString('base64url'), ciphertext.toString('base64url')].join(':')
+}
+
+/**
+ * 解密 TOTP 密钥
+ *
+ * @returns 明文密钥，格式错误或密钥不匹配返回 null
+ */
+export function decryptTotpSecret(encrypted: string): string | null {
+  const [version, iv, tag, ciphertext] = encrypted.split(':')
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    return null
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64url'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8')
+  } catch {
+    return null
+  }
+}
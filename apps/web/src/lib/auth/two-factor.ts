@@ -0,0 +1,205 @@
+/**
+ * @fileoverview PIS Web - 两步验证业务逻辑
+ *
+ * @description
+ * 任何用户都可以绑定验证器（TOTP）并获得一组一次性恢复码；管理员角色默认强制启用，
+ * 未绑定的管理员在登录时必须先完成绑定（可通过 AUTH_REQUIRE_ADMIN_2FA=false 关闭强制）。
+ *
+ * 登录流程：密码验证通过后，已启用两步验证（或需要强制绑定）的用户只拿到 5 分钟有效的挑战令牌，
+ * 提交验证码（或完成绑定）后才创建登录会话。
+ *
+ * 调用前需要先初始化认证数据库（initAuthDatabase）。
+ *
+ * @module lib/auth/two-factor
+ */
+import { getAuthDatabase, type AuthDatabase, type UserTwoFactorState } from './index'
+import { verifyToken, type TwoFactorPurpose } from './jwt'
+import {
+  buildOtpauthUrl,
+  consumeRecoveryCode,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp'
+
+/**
+ * 两步验证状态（返回给前端）
+ */
+export interface TwoFactorStatus {
+  /** 是否已启用 */
+  enabled: boolean
+  /** 当前角色是否强制要求启用 */
+  required: boolean
+  /** 剩余可用恢复码数量 */
+  recoveryCodesRemaining: number
+}
+
+/**
+ * 获取支持两步验证的认证数据库
+ *
+ * @throws {Error} 认证数据库未实现两步验证相关方法时抛出错误
+ */
+function getTwoFactorDatabase(): Required<Pick<AuthDatabase, 'findUserTwoFactor' | 'updateUserTwoFactor'>> {
+  const db = getAuthDatabase()
+  if (!db.findUserTwoFactor || !db.updateUserTwoFactor) {
+    throw new Error('Auth database does not support two-factor authentication')
+  }
+  return {
+    findUserTwoFactor: db.findUserTwoFactor.bind(db),
+    updateUserTwoFactor: db.updateUserTwoFactor.bind(db),
+  }
+}
+
+/**
+ * 角色是否强制要求两步验证
+ */
+export function isTwoFactorRequired(role: UserTwoFactorState['role'] | undefined): boolean {
+  return role === 'admin' && process.env.AUTH_REQUIRE_ADMIN_2FA !== 'false'
+}
+
+/**
+ * 验证两步验证挑战令牌
+ *
+ * @param token - 登录接口返回的挑战令牌
+ * @param purpose - 期望的用途
+ * @returns 用户信息，令牌无效或已过期返回 null
+ */
+export async function verifyTwoFactorChallenge(
+  token: string,
+  purpose: TwoFactorPurpose
+): Promise<{ id: string; email: string } | null> {
+  const payload = await verifyToken(token)
+  if (!payload || payload.type !== 'two_factor' || payload.purpose !== purpose) {
+    return null
+  }
+  return { id: payload.sub, email: payload.email }
+}
+
+/**
+ * 获取用户的两步验证状态
+ *
+ * @returns 状态，用户不存在返回 null
+ */
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus | null> {
+  const state = await getTwoFactorDatabase().findUserTwoFactor(userId)
+  if (!state) {
+    return null
+  }
+  return {
+    enabled: !!state.totp_enabled_at,
+    required: isTwoFactorRequired(state.role),
+    recoveryCodesRemaining: state.totp_enabled_at ? state.recovery_codes?.length ?? 0 : 0,
+  }
+}
+
+/**
+ * 开始绑定验证器
+ *
+ * @description 生成新密钥并保存为待启用状态（重复调用会替换尚未启用的密钥），需调用方确认尚未启用
+ * @returns 明文密钥和扫码链接，用户不存在返回 null
+ */
+export async function beginTwoFactorSetup(
+  userId: string
+): Promise<{ secret: string; otpauthUrl: string } | null> {
+  const db = getTwoFactorDatabase()
+  const state = await db.findUserTwoFactor(userId)
+  if (!state) {
+    return null
+  }
+
+  const secret = generateTotpSecret()
+  await db.updateUserTwoFactor(userId, {
+    totp_secret: encryptTotpSecret(secret),
+    totp_enabled_at: null,
+    totp_last_step: null,
+    recovery_codes: null,
+  })
+
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, state.email) }
+}
+
+/**
+ * 确认绑定并启用两步验证
+ *
+ * @param userId - 用户 ID
+ * @param code - 验证器显示的验证码
+ * @returns 新生成的恢复码（仅返回一次）；没有待启用的密钥或验证码错误返回 null
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[] | null> {
+  const db = getTwoFactorDatabase()
+  const state = await db.findUserTwoFactor(userId)
+  if (!state?.totp_secret || state.totp_enabled_at) {
+    return null
+  }
+
+  const secret = decryptTotpSecret(state.totp_secret)
+  const step = secret ? verifyTotp(secret, code) : null
+  if (step === null) {
+    return null
+  }
+
+  const { codes, hashes } = generateRecoveryCodes()
+  await db.updateUserTwoFactor(userId, {
+    totp_enabled_at: new Date().toISOString(),
+    totp_last_step: step,
+    recovery_codes: hashes,
+  })
+  return codes
+}
+
+/**
+ * 校验已启用用户的验证码或恢复码
+ *
+ * @description 验证码通过后记录时间步防止重放；恢复码通过后立即作废
+ * @returns 通过的方式，未启用两步验证或校验失败返回 null
+ */
+export async function verifyTwoFactorCode(
+  userId: string,
+  code: string
+): Promise<'totp' | 'recovery_code' | null> {
+  const db = getTwoFactorDatabase()
+  const state = await db.findUserTwoFactor(userId)
+  if (!state?.totp_secret || !state.totp_enabled_at) {
+    return null
+  }
+
+  const secret = decryptTotpSecret(state.totp_secret)
+  const step = secret ? verifyTotp(secret, code, { lastStep: state.totp_last_step }) : null
+  if (step !== null) {
+    await db.updateUserTwoFactor(userId, { totp_last_step: step })
+    return 'totp'
+  }
+
+  const remaining = consumeRecoveryCode(code, state.recovery_codes ?? [])
+  if (remaining) {
+    await db.updateUserTwoFactor(userId, { recovery_codes: remaining })
+    return 'recovery_code'
+  }
+
+  return null
+}
+
+/**
+ * 重新生成恢复码（旧恢复码全部作废）
+ *
+ * @returns 新恢复码（仅返回一次）
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes()
+  await getTwoFactorDatabase().updateUserTwoFactor(userId, { recovery_codes: hashes })
+  return codes
+}
+
+/**
+ * 关闭两步验证（清除密钥和恢复码）
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await getTwoFactorDatabase().updateUserTwoFactor(userId, {
+    totp_secret: null,
+    totp_enabled_at: null,
+    totp_last_step: null,
+    recovery_codes: null,
+  })
+}
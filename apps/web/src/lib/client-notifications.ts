@@ -0,0 +1,156 @@
+/**
+ * @fileoverview PIS Web - 客户邮件通知触发
+ *
+ * @description Web 端产生的通知（相册就绪、访客提交选片）通过 Worker 的
+ * `/api/client-notifications/dispatch` 接口入队，由 Worker 渲染模板并通过 SMTP 发送。
+ * 相册未开启「通知客户」、客户没有邮箱时 Worker 会跳过。邮件模板和发送记录的读写也在这里。
+ * @module lib/client-notifications
+ */
+
+import { createAdminClient } from "@/lib/database"
+import { CLIENT_NOTIFICATION_TYPES, type ClientNotificationType } from "@/lib/notification-templates"
+import type { ClientNotification, NotificationTemplate } from "@/types/database"
+import { getWorkerHeaders, getWorkerUrl } from "@/lib/worker-client"
+
+export { CLIENT_NOTIFICATION_TYPES, type ClientNotificationType }
+
+/**
+ * 邮件模板修改内容
+ */
+export interface NotificationTemplateInput {
+  type: ClientNotificationType
+  locale: string
+  subject: string
+  body: string
+}
+
+/**
+ * 请求 Worker 发送客户通知
+ *
+ * @param type - 通知类型
+ * @param albumId - 相册 ID
+ * @param data - 模板变量（如 guest_name、selected_count）
+ * @returns 是否创建了通知（相册未开启通知或客户没有邮箱时为 false）
+ * @throws Worker 不可用、未配置 SMTP 或拒绝请求时抛出错误
+ */
+export async function sendClientNotification(
+  type: ClientNotificationType,
+  albumId: string,
+  data: Record<string, unknown> = {},
+): Promise<boolean> {
+  const response = await fetch(`${getWorkerUrl()}/api/client-notifications/dispatch`, {
+    method: "POST",
+    headers: getWorkerHeaders(),
+    body: JSON.stringify({ type, albumId, data }),
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(result.error || `Worker 返回 ${response.status}`)
+  }
+  return result.queued === true
+}
+
+/**
+ * 触发客户通知
+ *
+ * @description 失败时只打印错误，不抛出异常
+ *
+ * @param type - 通知类型
+ * @param albumId - 相册 ID
+ * @param data - 模板变量
+ */
+export async function triggerClientNotification(
+  type: ClientNotificationType,
+  albumId: string,
+  data: Record<string, unknown> = {},
+): Promise<void> {
+  try {
+    await sendClientNotification(type, albumId, data)
+  } catch (error) {
+    console.error("[ClientNotify] Failed to trigger notification:", type, error)
+  }
+}
+
+/**
+ * 获取全部邮件模板（按类型、语言排序）
+ *
+ * @throws 查询失败时抛出数据库错误
+ */
+export async function listNotificationTemplates(): Promise<NotificationTemplate[]> {
+  const db = await createAdminClient()
+  const result = await db
+    .from<NotificationTemplate>("notification_templates")
+    .select("*")
+    .order("type", { ascending: true })
+    .order("locale", { ascending: true })
+
+  if (result.error) {
+    throw result.error
+  }
+  return result.data || []
+}
+
+/**
+ * 保存邮件模板（该类型和语言的模板不存在时新建）
+ *
+ * @param input - 模板内容
+ * @param updatedBy - 操作者 ID
+ * @returns 保存前的模板（新建时为 null）和保存后的模板
+ * @throws 写库失败时抛出数据库错误
+ */
+export async function saveNotificationTemplate(
+  input: NotificationTemplateInput,
+  updatedBy: string,
+): Promise<{ before: NotificationTemplate | null; template: NotificationTemplate }> {
+  const db = await createAdminClient()
+  const existing = await db
+    .from<NotificationTemplate>("notification_templates")
+    .select("*")
+    .eq("type", input.type)
+    .eq("locale", input.locale)
+    .maybeSingle()
+
+  if (existing.error) {
+    throw existing.error
+  }
+
+  const result = existing.data
+    ? await db.update<NotificationTemplate>(
+        "notification_templates",
+        { subject: input.subject, body: input.body, updated_by: updatedBy },
+        { id: existing.data.id },
+      )
+    : await db.insert<Partial<NotificationTemplate>>("notification_templates", { ...input, updated_by: updatedBy })
+
+  if (result.error) {
+    throw result.error
+  }
+
+  return {
+    before: existing.data ?? null,
+    template: (result.data?.[0] ?? { ...existing.data, ...input }) as NotificationTemplate,
+  }
+}
+
+/**
+ * 获取相册最近的客户通知记录
+ *
+ * @param albumId - 相册 ID
+ * @param limit - 最多返回条数
+ * @throws 查询失败时抛出数据库错误
+ */
+export async function listAlbumNotifications(albumId: string, limit = 20): Promise<ClientNotification[]> {
+  const db = await createAdminClient()
+  const result = await db
+    .from<ClientNotification>("client_notifications")
+    .select("*")
+    .eq("album_id", albumId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (result.error) {
+    throw result.error
+  }
+  return result.data || []
+}
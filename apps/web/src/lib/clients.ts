@@ -0,0 +1,152 @@
+/**
+ * @fileoverview PIS Web - 客户管理
+ *
+ * @description 客户搜索、查询，以及单个客户的相册、访客选片和下载记录汇总。
+ * 搜索和汇总由数据库函数 search_clients / get_client_activity 完成；
+ * 摄影师只能看到自己可访问的相册，汇总结果按相册访问权限过滤。
+ * @module lib/clients
+ */
+
+import { createAdminClient } from "@/lib/database"
+import type { AlbumAccessLevel } from "@/lib/auth/album-permissions"
+import type { Client } from "@/types/database"
+
+/**
+ * 客户列表项（附带关联相册数量）
+ */
+export interface ClientListItem extends Client {
+  album_count: number
+}
+
+/**
+ * 客户搜索条件
+ */
+export interface ClientSearchFilters {
+  /** 匹配姓名、电话或邮箱 */
+  search?: string
+  tag?: string
+  page: number
+  limit: number
+}
+
+/**
+ * 客户关联的相册汇总
+ */
+export interface ClientAlbumSummary {
+  id: string
+  title: string
+  slug: string
+  event_date: string | null
+  photo_count: number
+  created_at: string
+  /** 访客选片会话数 */
+  guest_count: number
+  /** 被访客选中的照片数（去重） */
+  selected_photo_count: number
+  /** 单张、批量和打包下载次数（来自访问统计） */
+  download_count: number
+}
+
+/**
+ * 客户相册中的访客选片会话
+ */
+export interface ClientSelectionSummary {
+  id: string
+  album_id: string
+  guest_name: string
+  guest_phone: string | null
+  submitted_at: string | null
+  last_active_at: string
+  selected_count: number
+}
+
+/**
+ * 客户相册中的打包下载任务
+ */
+export interface ClientDownloadSummary {
+  id: string
+  album_id: string
+  status: string
+  photo_count: number
+  file_size: number | null
+  created_at: string
+  completed_at: string | null
+}
+
+/**
+ * 客户的相册、选片和下载记录
+ */
+export interface ClientActivity {
+  albums: ClientAlbumSummary[]
+  selections: ClientSelectionSummary[]
+  downloads: ClientDownloadSummary[]
+}
+
+/**
+ * 搜索客户
+ *
+ * @returns 当前页的客户（按名称排序）和匹配总数
+ */
+export async function searchClients(
+  filters: ClientSearchFilters,
+): Promise<{ clients: ClientListItem[]; total: number }> {
+  const db = await createAdminClient()
+
+  // 参数按位置传递，顺序需与函数定义一致
+  const result = await db.rpc("search_clients", {
+    p_search: filters.search || null,
+    p_tag: filters.tag || null,
+    p_limit: filters.limit,
+    p_offset: (filters.page - 1) * filters.limit,
+  })
+  if (result.error) {
+    throw result.error
+  }
+
+  const data = result.data as { clients: ClientListItem[]; total: number }
+  return { clients: data.clients, total: Number(data.total) }
+}
+
+/**
+ * 查询客户
+ *
+ * @returns 客户信息；不存在时返回 null
+ */
+export async function getClient(clientId: string): Promise<Client | null> {
+  const db = await createAdminClient()
+  const result = await db.from<Client>("clients").select("*").eq("id", clientId).maybeSingle()
+  if (result.error) {
+    throw result.error
+  }
+  return result.data
+}
+
+/**
+ * 查询客户的相册、访客选片和下载记录
+ *
+ * @param clientId - 客户 ID
+ * @param accessMap - 用户可访问的相册（getAccessibleAlbums 的返回值），null 表示可访问全部相册
+ */
+export async function getClientActivity(
+  clientId: string,
+  accessMap: Map<string, AlbumAccessLevel> | null,
+): Promise<ClientActivity> {
+  const db = await createAdminClient()
+
+  const result = await db.rpc("get_client_activity", { p_client_id: clientId })
+  if (result.error) {
+    throw result.error
+  }
+
+  const activity = result.data as ClientActivity
+  if (!accessMap) {
+    return activity
+  }
+
+  const visible = (albumId: string) => accessMap.has(albumId)
+  return {
+    albums: activity.albums.filter((album) => visible(album.id)),
+    selections: activity.selections.filter((session) => visible(session.album_id)),
+    downloads: activity.downloads.filter((download) => visible(download.album_id)),
+  }
+}
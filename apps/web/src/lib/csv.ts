@@ -0,0 +1,30 @@
+/**
+ * @fileoverview PIS Web - CSV 导出工具
+ *
+ * @description 管理端导出（访客选片、审计日志等）共用的 CSV 生成逻辑。
+ * @module lib/csv
+ */
+
+/**
+ * 转义 CSV 单元格
+ */
+export function escapeCsvCell(value: string): string {
+  // 防止以公式字符开头的内容在表格软件中被执行（纯数字手机号如 +86 除外）
+  const isFormula = /^[=@\t\r]/.test(value) || /^[+-](?![\d\s-]*$)/.test(value)
+  const safe = isFormula ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * 生成 CSV 文本
+ *
+ * @description 以 UTF-8 BOM 开头，确保 Excel 正确识别中文。
+ *
+ * @param header - 表头
+ * @param rows - 数据行
+ * @returns CSV 文本
+ */
+export function buildCsv(header: string[], rows: string[][]): string {
+  const lines = [header, ...rows].map((row) => row.map(escapeCsvCell).join(","))
+  return `\uFEFF${lines.join("\r\n")}\r\n`
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview PIS Web - 自定义风格预设与 LUT
+ *
+ * @description 修图师上传的 .cube 文件经 Worker 的 `/api/upload` 写入对象存储（style-luts/ 目录），
+ * 自定义预设保存在 style_presets 表，照片处理时由 Worker 读取并调色。
+ * 预览图同样由 Worker 按真实处理管线渲染（`/api/style-presets/preview`），而不是用 CSS filter 近似。
+ * @module lib/custom-style-presets
+ */
+import { getWorkerHeaders, getWorkerUrl } from "@/lib/worker-client"
+
+/** .cube 文件大小上限：16MB（65³ 的 LUT 约 7MB） */
+export const MAX_LUT_FILE_SIZE = 16 * 1024 * 1024
+
+/** LUT_3D_SIZE 上限，与 Worker 一致 */
+export const MAX_LUT_SIZE = 65
+
+/**
+ * 检查 .cube 文件
+ *
+ * @description 上传前的快速校验（关键字和数据行数），完整解析由 Worker 在使用时完成
+ * @returns LUT 标题和尺寸
+ * @throws {Error} 格式不正确时抛出，message 可直接展示给用户
+ */
+export function inspectCubeLut(text: string): { title: string | null; size: number } {
+  let title: string | null = null
+  let size = 0
+  let dataLines = 0
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith("#")) continue
+
+    if (/^[A-Za-z]/.test(line)) {
+      const [keyword, value] = line.split(/\s+/)
+      if (keyword.toUpperCase() === "TITLE") {
+        title = line.slice(keyword.length).trim().replace(/^"|"$/g, "") || null
+      } else if (keyword.toUpperCase() === "LUT_1D_SIZE") {
+        throw new Error("不支持 1D LUT，请导出 3D LUT")
+      } else if (keyword.toUpperCase() === "LUT_3D_SIZE") {
+        size = Number(value)
+        if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+          throw new Error(`LUT_3D_SIZE 必须在 2 到 ${MAX_LUT_SIZE} 之间`)
+        }
+      }
+      continue
+    }
+
+    if (!size) {
+      throw new Error("LUT_3D_SIZE 必须出现在数据之前")
+    }
+    const values = line.split(/\s+/)
+    if (values.length !== 3 || values.some((value) => !Number.isFinite(Number(value)))) {
+      throw new Error(`第 ${dataLines + 1} 行数据格式错误，应为 3 个数字`)
+    }
+    dataLines++
+  }
+
+  if (!size) {
+    throw new Error("缺少 LUT_3D_SIZE，不是有效的 3D LUT 文件")
+  }
+  if (dataLines !== size ** 3) {
+    throw new Error(`数据行数应为 ${size ** 3}，实际为 ${dataLines}`)
+  }
+  return { title, size }
+}
+
+/**
+ * 上传 LUT 文件到对象存储
+ *
+ * @throws {Error} Worker 上传失败时抛出
+ */
+export async function uploadStyleLut(key: string, content: Buffer): Promise<void> {
+  const response = await fetch(`${getWorkerUrl()}/api/upload?key=${encodeURIComponent(key)}`, {
+    method: "PUT",
+    headers: getWorkerHeaders("text/plain"),
+    body: new Uint8Array(content),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Worker 返回 ${response.status}`)
+  }
+}
+
+/**
+ * 删除 LUT 文件
+ *
+ * @description 失败时只打印错误：数据库记录已删除，残留文件不影响使用
+ */
+export async function deleteStyleLutFile(key: string): Promise<void> {
+  try {
+    const response = await fetch(`${getWorkerUrl()}/api/cleanup-file`, {
+      method: "POST",
+      headers: getWorkerHeaders("application/json"),
+      body: JSON.stringify({ key }),
+    })
+    if (!response.ok) {
+      throw new Error(`Worker 返回 ${response.status}`)
+    }
+  } catch (error) {
+    console.error("[StylePreset] Failed to delete LUT file:", key, error)
+  }
+}
+
+/**
+ * 请求 Worker 渲染预设预览图
+ *
+ * @param presetId - 内置预设 ID 或自定义预设 UUID
+ * @param sourceKey - 作为底图的照片存储路径，为空时使用 Worker 自带的示例图
+ * @returns Worker 原始响应（成功时为 image/jpeg）
+ */
+export async function fetchStylePreview(presetId: string, sourceKey: string | null): Promise<Response> {
+  return fetch(`${getWorkerUrl()}/api/style-presets/preview`, {
+    method: "POST",
+    headers: getWorkerHeaders("application/json"),
+    body: JSON.stringify({ presetId, sourceKey }),
+  })
+}
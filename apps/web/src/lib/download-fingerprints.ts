@@ -0,0 +1,137 @@
+/**
+ * @fileoverview PIS Web - 下载指纹
+ *
+ * @description 访客下载原图（单张、批量）和管理端打包交付时登记一条 download_fingerprints 记录，
+ * 由 Worker 把记录的 12 位编号以不可见指纹写入照片像素（`/api/fingerprint/embed`，打包时在 Worker 内完成）。
+ * 照片外泄后，管理端上传可疑图片，Worker 解出编号（`/api/fingerprint/extract`），
+ * 再按编号查到相册、访客会话、分享链接和下载时间。
+ * 指纹能经受缩放、重新压缩和轻度调色，但大幅裁剪或旋转后无法识别；RAW 原片和视频不嵌入指纹。
+ *
+ * 注意：依赖 Node.js crypto 模块，不能在 Edge Runtime 中使用。
+ * @module lib/download-fingerprints
+ */
+
+import crypto from "crypto"
+import { createAdminClient } from "@/lib/database"
+import { getRequestIp } from "@/lib/audit-log"
+import { getVisitorHash } from "@/lib/analytics"
+import { getSystemSettings } from "@/lib/system-settings"
+import type { DownloadFingerprintInsert, DownloadFingerprintSource } from "@/types/database"
+import { getWorkerHeaders, getWorkerUrl } from "@/lib/worker-client"
+
+/** 指纹编号：12 位十六进制，与 Worker 一致 */
+export const FINGERPRINT_CODE_PATTERN = /^[0-9a-f]{12}$/
+
+/** 带指纹的下载链接有效期：10 分钟，过期后需重新点击下载 */
+export const FINGERPRINT_LINK_TTL_MS = 10 * 60 * 1000
+
+/** 溯源上传的图片大小上限：50MB */
+export const MAX_FINGERPRINT_IMAGE_SIZE = 50 * 1024 * 1024
+
+/**
+ * 单次下载的登记内容
+ */
+export interface DownloadFingerprintEntry {
+  source: DownloadFingerprintSource
+  albumId: string
+  /** 单张下载的照片 */
+  photoId?: string | null
+  /** 打包下载记录 */
+  packageId?: string | null
+  shareLinkId?: string | null
+  guestSessionId?: string | null
+  /** 打包交付的操作人 */
+  createdBy?: string | null
+}
+
+/**
+ * Worker 的指纹检测结果
+ */
+export interface FingerprintDetection {
+  /** 解出的编号，没有指纹或校验失败时为 null */
+  code: string | null
+  /** 检测置信度，约 3 以上可认为存在指纹，干净图片通常小于 1 */
+  confidence: number
+}
+
+/**
+ * 后台是否开启了下载指纹
+ */
+export async function isDownloadFingerprintEnabled(): Promise<boolean> {
+  const { features } = await getSystemSettings()
+  return features.download_fingerprint
+}
+
+/**
+ * 登记一次下载并生成指纹编号
+ *
+ * @param request - 发起下载的请求（记录 IP、User-Agent 和匿名访客标识）
+ * @param entry - 下载来源
+ * @returns 指纹编号
+ * @throws {Error} 写入失败时抛出，调用方应中止下载，避免发出无法溯源的文件
+ */
+export async function createDownloadFingerprint(request: Request, entry: DownloadFingerprintEntry): Promise<string> {
+  const userAgent = request.headers.get("user-agent")
+  const ip = getRequestIp(request)
+  const record: DownloadFingerprintInsert = {
+    code: crypto.randomBytes(6).toString("hex"),
+    source: entry.source,
+    album_id: entry.albumId,
+    photo_id: entry.photoId ?? null,
+    package_id: entry.packageId ?? null,
+    share_link_id: entry.shareLinkId ?? null,
+    guest_session_id: entry.guestSessionId ?? null,
+    visitor_hash: getVisitorHash(ip, userAgent),
+    ip_address: ip,
+    user_agent: userAgent ? userAgent.slice(0, 500) : null,
+    created_by: entry.createdBy ?? null,
+  }
+
+  const db = await createAdminClient()
+  const result = await db.insert("download_fingerprints", record)
+  if (result.error) {
+    throw new Error(`登记下载指纹失败: ${result.error.message}`)
+  }
+  return record.code
+}
+
+/**
+ * 带指纹的原图下载地址
+ */
+export function getFingerprintedDownloadUrl(photoId: string, code: string): string {
+  return `/api/public/download/${photoId}/file?code=${code}`
+}
+
+/**
+ * 请求 Worker 读取原图并嵌入指纹
+ *
+ * @param key - 原图存储路径
+ * @param code - 指纹编号
+ * @returns Worker 原始响应（成功时为与原图相同格式的图片，不支持的格式原样返回）
+ */
+export async function fetchFingerprintedFile(key: string, code: string): Promise<Response> {
+  return fetch(`${getWorkerUrl()}/api/fingerprint/embed`, {
+    method: "POST",
+    headers: getWorkerHeaders("application/json"),
+    body: JSON.stringify({ key, code }),
+  })
+}
+
+/**
+ * 请求 Worker 从可疑图片中解出指纹
+ *
+ * @param image - 图片内容
+ * @throws {Error} Worker 无法识别图片或请求失败时抛出
+ */
+export async function detectFingerprint(image: ArrayBuffer): Promise<FingerprintDetection> {
+  const response = await fetch(`${getWorkerUrl()}/api/fingerprint/extract`, {
+    method: "POST",
+    headers: getWorkerHeaders("application/octet-stream"),
+    body: image,
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(`指纹检测失败: ${result.error || response.status}`)
+  }
+  return result as FingerprintDetection
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { getFaceCrop, getFaceCropStyle } from './face-crop'
+
+describe('face-crop', () => {
+  it('should return null when detection image size is missing', () => {
+    expect(getFaceCrop(null)).toBeNull()
+    expect(getFaceCrop({ x: 10, y: 10, w: 50, h: 50 })).toBeNull()
+    expect(getFaceCrop({ x: 10, y: 10, w: 0, h: 50, image_width: 500, image_height: 400 })).toBeNull()
+  })
+
+  it('should compute a padded square crop centered on the face', () => {
+    const crop = getFaceCrop({ x: 200, y: 100, w: 100, h: 100, image_width: 1000, image_height: 500 })
+    expect(crop).not.toBeNull()
+    // 边长 160px，中心 (250, 150)
+    expect(crop!.x).toBeCloseTo(170 / 1000)
+    expect(crop!.y).toBeCloseTo(70 / 500)
+    expect(crop!.w).toBeCloseTo(160 / 1000)
+    expect(crop!.h).toBeCloseTo(160 / 500)
+  })
+
+  it('should clamp the crop inside the image', () => {
+    const crop = getFaceCrop({ x: 0, y: 0, w: 100, h: 100, image_width: 400, image_height: 300 })
+    expect(crop).toEqual({ x: 0, y: 0, w: 160 / 400, h: 160 / 300 })
+
+    const large = getFaceCrop({ x: 50, y: 20, w: 280, h: 280, image_width: 400, image_height: 300 })
+    // 边长不超过图片短边
+    expect(large!.h).toBeCloseTo(1)
+    expect(large!.y).toBe(0)
+    expect(large!.x + large!.w).toBeLessThanOrEqual(1)
+  })
+
+  it('should convert crop to img positioning style', () => {
+    expect(getFaceCropStyle({ x: 0.25, y: 0.5, w: 0.5, h: 0.25 })).toEqual({
+      width: '200%',
+      height: '400%',
+      left: '-50%',
+      top: '-200%',
+    })
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview PIS Web - 人物头像裁剪
+ *
+ * @description Worker 记录的人脸位置是检测图片上的像素坐标，这里换算为相对坐标，
+ * 供前端从缩略图中裁出方形头像（缩略图与检测图片方向一致，只是尺寸不同）。
+ * @module lib/face-crop
+ */
+
+import type { FaceLocation } from '@/types/database'
+
+/** 头像相对人脸框的放大倍数（保留一些头发和下巴） */
+const AVATAR_PADDING = 1.6
+
+/**
+ * 头像裁剪区域（相对坐标，0~1）
+ */
+export interface FaceCrop {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+/**
+ * 计算方形头像的裁剪区域
+ *
+ * @param location - 人脸位置
+ * @returns 相对坐标；缺少检测图片尺寸（旧数据）时返回 null
+ */
+export function getFaceCrop(location: FaceLocation | null | undefined): FaceCrop | null {
+  if (!location?.image_width || !location.image_height || location.w <= 0 || location.h <= 0) {
+    return null
+  }
+
+  const { image_width: imageWidth, image_height: imageHeight } = location
+  // 方形边长（像素），不超过图片短边
+  const side = Math.min(Math.max(location.w, location.h) * AVATAR_PADDING, imageWidth, imageHeight)
+  const centerX = location.x + location.w / 2
+  const centerY = location.y + location.h / 2
+  const left = Math.min(Math.max(centerX - side / 2, 0), imageWidth - side)
+  const top = Math.min(Math.max(centerY - side / 2, 0), imageHeight - side)
+
+  return {
+    x: left / imageWidth,
+    y: top / imageHeight,
+    w: side / imageWidth,
+    h: side / imageHeight,
+  }
+}
+
+/**
+ * 将裁剪区域转换为 <img> 的定位样式（容器需为正方形且 overflow: hidden）
+ */
+export function getFaceCropStyle(crop: FaceCrop): {
+  width: string
+  height: string
+  left: string
+  top: string
+} {
+  return {
+    width: `${100 / crop.w}%`,
+    height: `${100 / crop.h}%`,
+    left: `${(-crop.x / crop.w) * 100}%`,
+    top: `${(-crop.y / crop.h) * 100}%`,
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * @fileoverview PIS Web - 人物（人脸聚类）
+ *
+ * @description Worker 将相册中的人脸聚类为人物（face_persons），管理员可以命名、合并、拆分、隐藏，
+ * 访客通过人物头像筛选照片。Worker 的增量聚类只处理尚未归属的人脸，因此这里的手动调整不会被覆盖。
+ * @module lib/face-persons
+ */
+
+import { createAdminClient } from "@/lib/database"
+import { getFaceCrop, type FaceCrop } from "@/lib/face-crop"
+import type { FaceEmbedding, FacePerson, FacePersonInsert } from "@/types/database"
+
+/**
+ * 人物列表项（含头像）
+ */
+export interface PersonSummary {
+  id: string
+  name: string | null
+  is_hidden: boolean
+  face_count: number
+  photo_count: number
+  /** 头像所在照片的缩略图 */
+  thumb_key: string | null
+  /** 头像在缩略图中的裁剪区域 */
+  crop: FaceCrop | null
+}
+
+/**
+ * 人物中的单张人脸（用于拆分）
+ */
+export interface PersonFace {
+  id: string
+  photo_id: string
+  thumb_key: string | null
+  crop: FaceCrop | null
+}
+
+type FaceRow = Pick<FaceEmbedding, "id" | "photo_id" | "person_id" | "face_location">
+
+/**
+ * 查询未删除照片的缩略图
+ * @internal
+ */
+async function getPhotoThumbs(photoIds: string[]): Promise<Map<string, string | null>> {
+  if (photoIds.length === 0) {
+    return new Map()
+  }
+
+  const db = await createAdminClient()
+  const result = await db
+    .from<{ id: string; thumb_key: string | null }>("photos")
+    .select("id, thumb_key")
+    .in("id", [...new Set(photoIds)])
+    .is("deleted_at", null)
+
+  if (result.error) {
+    throw result.error
+  }
+
+  return new Map((result.data || []).map((photo) => [photo.id, photo.thumb_key]))
+}
+
+/**
+ * 查询相册的人物列表
+ *
+ * @param albumId - 相册 ID
+ * @param options.includeHidden - 是否包含隐藏的人物（管理端）
+ * @param options.minPhotos - 最少照片数，未命名且照片数不足的人物不返回（访客端过滤路人）
+ * @returns 按照片数降序排列的人物列表
+ */
+export async function listAlbumPersons(
+  albumId: string,
+  options: { includeHidden?: boolean; minPhotos?: number } = {}
+): Promise<PersonSummary[]> {
+  const db = await createAdminClient()
+  let query = db
+    .from<FacePerson>("face_persons")
+    .select("*")
+    .eq("album_id", albumId)
+    .order("photo_count", { ascending: false })
+    .order("created_at", { ascending: true })
+  if (!options.includeHidden) {
+    query = query.eq("is_hidden", false)
+  }
+
+  const result = await query
+  if (result.error) {
+    throw result.error
+  }
+
+  const minPhotos = options.minPhotos ?? 1
+  const persons = (result.data || []).filter(
+    (person) => person.photo_count > 0 && (person.name || person.photo_count >= minPhotos)
+  )
+
+  // 批量查询头像
+  const coverIds = persons.map((person) => person.cover_face_id).filter((id): id is string => !!id)
+  const covers = new Map<string, FaceRow>()
+  if (coverIds.length > 0) {
+    const coverResult = await db
+      .from<FaceRow>("face_embeddings")
+      .select("id, photo_id, person_id, face_location")
+      .in("id", coverIds)
+    if (coverResult.error) {
+      throw coverResult.error
+    }
+    for (const face of coverResult.data || []) {
+      covers.set(face.id, face)
+    }
+  }
+  const thumbs = await getPhotoThumbs([...covers.values()].map((face) => face.photo_id))
+
+  return persons.map((person) => {
+    const cover = person.cover_face_id ? covers.get(person.cover_face_id) : undefined
+    return {
+      id: person.id,
+      name: person.name,
+      is_hidden: person.is_hidden,
+      face_count: person.face_count,
+      photo_count: person.photo_count,
+      thumb_key: cover ? thumbs.get(cover.photo_id) ?? null : null,
+      crop: cover ? getFaceCrop(cover.face_location) : null,
+    }
+  })
+}
+
+/**
+ * 查询人物的所有人脸（已删除照片中的人脸不返回）
+ *
+ * @param personId - 人物 ID
+ */
+export async function listPersonFaces(personId: string): Promise<PersonFace[]> {
+  const db = await createAdminClient()
+  const result = await db
+    .from<FaceRow>("face_embeddings")
+    .select("id, photo_id, person_id, face_location")
+    .eq("person_id", personId)
+    .order("created_at", { ascending: true })
+
+  if (result.error) {
+    throw result.error
+  }
+
+  const faces = result.data || []
+  const thumbs = await getPhotoThumbs(faces.map((face) => face.photo_id))
+
+  return faces
+    .filter((face) => thumbs.has(face.photo_id))
+    .map((face) => ({
+      id: face.id,
+      photo_id: face.photo_id,
+      thumb_key: thumbs.get(face.photo_id) ?? null,
+      crop: getFaceCrop(face.face_location),
+    }))
+}
+
+/**
+ * 查询访客可见人物的照片 ID
+ *
+ * @param albumId - 相册 ID
+ * @param personId - 人物 ID
+ * @returns 照片 ID 列表；人物不存在、不属于该相册或已隐藏时返回 null
+ */
+export async function listPersonPhotoIds(albumId: string, personId: string): Promise<string[] | null> {
+  const db = await createAdminClient()
+  const personResult = await db
+    .from<Pick<FacePerson, "id" | "is_hidden">>("face_persons")
+    .select("id, is_hidden")
+    .eq("id", personId)
+    .eq("album_id", albumId)
+    .maybeSingle()
+
+  if (personResult.error) {
+    throw personResult.error
+  }
+  if (!personResult.data || personResult.data.is_hidden) {
+    return null
+  }
+
+  const facesResult = await db
+    .from<Pick<FaceEmbedding, "photo_id">>("face_embeddings")
+    .select("photo_id")
+    .eq("person_id", personId)
+
+  if (facesResult.error) {
+    throw facesResult.error
+  }
+
+  return [...new Set((facesResult.data || []).map((face) => face.photo_id))]
+}
+
+/**
+ * 重新统计人物的人脸数、照片数和头像
+ *
+ * @description 合并、拆分后调用；人物已没有任何人脸时直接删除
+ *
+ * @param personIds - 人物 ID 列表
+ */
+export async function refreshPersonStats(personIds: string[]): Promise<void> {
+  const db = await createAdminClient()
+
+  for (const personId of new Set(personIds)) {
+    const [personResult, facesResult] = await Promise.all([
+      db
+        .from<Pick<FacePerson, "id" | "cover_face_id">>("face_persons")
+        .select("id, cover_face_id")
+        .eq("id", personId)
+        .maybeSingle(),
+      db
+        .from<FaceRow>("face_embeddings")
+        .select("id, photo_id, person_id, face_location")
+        .eq("person_id", personId),
+    ])
+    if (personResult.error) throw personResult.error
+    if (facesResult.error) throw facesResult.error
+    if (!personResult.data) continue
+
+    const thumbs = await getPhotoThumbs((facesResult.data || []).map((face) => face.photo_id))
+    const faces = (facesResult.data || []).filter((face) => thumbs.has(face.photo_id))
+
+    if (faces.length === 0) {
+      const deleteResult = await db.delete("face_persons", { id: personId })
+      if (deleteResult.error) throw deleteResult.error
+      continue
+    }
+
+    // 保留当前头像，否则使用面积最大的人脸
+    const currentCover = personResult.data.cover_face_id
+    const cover = faces.some((face) => face.id === currentCover)
+      ? currentCover
+      : faces.reduce((best, face) => {
+          const area = (face.face_location?.w || 0) * (face.face_location?.h || 0)
+          const bestArea = (best.face_location?.w || 0) * (best.face_location?.h || 0)
+          return area > bestArea ? face : best
+        }).id
+
+    const updateResult = await db.update(
+      "face_persons",
+      {
+        face_count: faces.length,
+        photo_count: new Set(faces.map((face) => face.photo_id)).size,
+        cover_face_id: cover,
+      },
+      { id: personId }
+    )
+    if (updateResult.error) throw updateResult.error
+  }
+}
+
+/**
+ * 合并人物
+ *
+ * @param albumId - 相册 ID
+ * @param targetId - 保留的人物
+ * @param sourceIds - 被合并的人物（合并后删除）
+ * @throws 人物不属于该相册时抛出错误
+ */
+export async function mergePersons(albumId: string, targetId: string, sourceIds: string[]): Promise<void> {
+  const sources = [...new Set(sourceIds)].filter((id) => id !== targetId)
+  if (sources.length === 0) {
+    return
+  }
+
+  const db = await createAdminClient()
+  const personsResult = await db
+    .from<Pick<FacePerson, "id">>("face_persons")
+    .select("id")
+    .eq("album_id", albumId)
+    .in("id", [targetId, ...sources])
+
+  if (personsResult.error) {
+    throw personsResult.error
+  }
+  if ((personsResult.data || []).length !== sources.length + 1) {
+    throw new Error("人物不存在或不属于该相册")
+  }
+
+  const updateResult = await db.update("face_embeddings", { person_id: targetId }, { "person_id[]": sources })
+  if (updateResult.error) throw updateResult.error
+
+  const deleteResult = await db.delete("face_persons", { "id[]": sources })
+  if (deleteResult.error) throw deleteResult.error
+
+  await refreshPersonStats([targetId])
+}
+
+/**
+ * 从人物中拆分出部分人脸，作为新的人物
+ *
+ * @param albumId - 相册 ID
+ * @param personId - 原人物
+ * @param faceIds - 拆分出的人脸
+ * @param name - 新人物名称
+ * @returns 新人物 ID
+ * @throws 人脸不属于该人物时抛出错误
+ */
+export async function splitPerson(
+  albumId: string,
+  personId: string,
+  faceIds: string[],
+  name?: string | null
+): Promise<string> {
+  const ids = [...new Set(faceIds)]
+  const db = await createAdminClient()
+
+  const facesResult = await db
+    .from<Pick<FaceEmbedding, "id">>("face_embeddings")
+    .select("id")
+    .eq("album_id", albumId)
+    .eq("person_id", personId)
+    .in("id", ids)
+
+  if (facesResult.error) {
+    throw facesResult.error
+  }
+  if ((facesResult.data || []).length !== ids.length) {
+    throw new Error("人脸不存在或不属于该人物")
+  }
+
+  const insertData: FacePersonInsert = {
+    album_id: albumId,
+    name: name?.trim() || null,
+  }
+  const insertResult = await db.insert("face_persons", insertData)
+  const newPerson = insertResult.data?.[0] as FacePerson | undefined
+  if (insertResult.error || !newPerson) {
+    throw insertResult.error || new Error("创建人物失败")
+  }
+
+  const updateResult = await db.update("face_embeddings", { person_id: newPerson.id }, { "id[]": ids })
+  if (updateResult.error) throw updateResult.error
+
+  await refreshPersonStats([personId, newPerson.id])
+  return newPerson.id
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { buildGuestSelectionsCsv, type GuestSelectionSummary } from './guest-selections'
+
+function createSession(overrides: Partial<GuestSelectionSummary> = {}): GuestSelectionSummary {
+  return {
+    id: 'session-1',
+    guest_name: '张三',
+    guest_phone: '13800000000',
+    submitted_at: null,
+    last_active_at: '2024-01-01T00:00:00Z',
+    created_at: '2024-01-01T00:00:00Z',
+    photos: [
+      { id: 'photo-1', filename: 'a.jpg', thumb_key: null, selected_at: '2024-01-01T01:00:00Z' },
+      { id: 'photo-2', filename: 'b.jpg', thumb_key: null, selected_at: '2024-01-01T02:00:00Z' },
+    ],
+    ...overrides,
+  }
+}
+
+describe('buildGuestSelectionsCsv', () => {
+  it('should start with BOM and header row', () => {
+    const csv = buildGuestSelectionsCsv([])
+
+    expect(csv.startsWith('\uFEFF')).toBe(true)
+    expect(csv.slice(1)).toBe('访客姓名,手机号,状态,提交时间,文件名,照片ID,选择时间\r\n')
+  })
+
+  it('should output one row per selected photo', () => {
+    const csv = buildGuestSelectionsCsv([
+      createSession(),
+      createSession({
+        id: 'session-2',
+        guest_name: '李四',
+        guest_phone: null,
+        submitted_at: '2024-01-02T00:00:00Z',
+        photos: [{ id: 'photo-1', filename: 'a.jpg', thumb_key: null, selected_at: '2024-01-01T03:00:00Z' }],
+      }),
+    ])
+    const lines = csv.slice(1).trimEnd().split('\r\n')
+
+    expect(lines).toHaveLength(4)
+    expect(lines[1]).toBe('张三,13800000000,选片中,,a.jpg,photo-1,2024-01-01T01:00:00Z')
+    expect(lines[3]).toBe('李四,,已提交,2024-01-02T00:00:00Z,a.jpg,photo-1,2024-01-01T03:00:00Z')
+  })
+
+  it('should quote cells containing commas and quotes', () => {
+    const csv = buildGuestSelectionsCsv([createSession({ guest_name: '张"三",先生' })])
+
+    expect(csv).toContain('"张""三"",先生"')
+  })
+
+  it('should neutralize formula-like values but keep phone numbers', () => {
+    const csv = buildGuestSelectionsCsv([
+      createSession({ guest_name: '=HYPERLINK("x")', guest_phone: '+86 138 0000 0000' }),
+    ])
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`)
+    expect(csv).toContain(',+86 138 0000 0000,')
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview PIS Web - 访客选片汇总
+ *
+ * @description 供管理端使用：按访客汇总相册内的选片记录，并导出为 CSV。
+ * @module lib/guest-selections
+ */
+
+import { createAdminClient } from "@/lib/database"
+import { buildCsv } from "@/lib/csv"
+import type { GuestSession } from "@/types/database"
+
+/**
+ * 访客选片中的照片信息
+ */
+export interface GuestSelectionPhoto {
+  id: string
+  filename: string
+  thumb_key: string | null
+  selected_at: string
+}
+
+/**
+ * 单个访客的选片汇总
+ */
+export interface GuestSelectionSummary {
+  id: string
+  guest_name: string
+  guest_phone: string | null
+  submitted_at: string | null
+  last_active_at: string
+  created_at: string
+  photos: GuestSelectionPhoto[]
+}
+
+/**
+ * 查询相册内所有访客的选片列表
+ *
+ * @param albumId - 相册 ID
+ * @returns 按创建时间排序的访客选片汇总（已删除的照片不计入）
+ */
+export async function listAlbumGuestSelections(
+  albumId: string,
+): Promise<GuestSelectionSummary[]> {
+  const db = await createAdminClient()
+
+  const sessionsResult = await db
+    .from<GuestSession>("guest_sessions")
+    .select("*")
+    .eq("album_id", albumId)
+    .order("created_at", { ascending: true })
+
+  if (sessionsResult.error) {
+    throw sessionsResult.error
+  }
+
+  const sessions = sessionsResult.data || []
+  if (sessions.length === 0) {
+    return []
+  }
+
+  const selectionsResult = await db
+    .from<{ session_id: string; photo_id: string; created_at: string }>("guest_selections")
+    .select("session_id, photo_id, created_at")
+    .eq("album_id", albumId)
+    .order("created_at", { ascending: true })
+
+  if (selectionsResult.error) {
+    throw selectionsResult.error
+  }
+
+  const selections = selectionsResult.data || []
+  const photoIds = Array.from(new Set(selections.map((s) => s.photo_id)))
+  const photos = new Map<string, { id: string; filename: string; thumb_key: string | null }>()
+
+  if (photoIds.length > 0) {
+    const photosResult = await db
+      .from<{ id: string; filename: string; thumb_key: string | null }>("photos")
+      .select("id, filename, thumb_key")
+      .in("id", photoIds)
+      .is("deleted_at", null)
+
+    if (photosResult.error) {
+      throw photosResult.error
+    }
+
+    for (const photo of photosResult.data || []) {
+      photos.set(photo.id, photo)
+    }
+  }
+
+  const photosBySession = new Map<string, GuestSelectionPhoto[]>()
+  for (const selection of selections) {
+    const photo = photos.get(selection.photo_id)
+    if (!photo) continue
+    const list = photosBySession.get(selection.session_id) || []
+    list.push({ ...photo, selected_at: selection.created_at })
+    photosBySession.set(selection.session_id, list)
+  }
+
+  return sessions.map((session) => ({
+    id: session.id,
+    guest_name: session.guest_name,
+    guest_phone: session.guest_phone,
+    submitted_at: session.submitted_at,
+    last_active_at: session.last_active_at,
+    created_at: session.created_at,
+    photos: photosBySession.get(session.id) || [],
+  }))
+}
+
+/**
+ * 将访客选片汇总导出为 CSV 文本
+ *
+ * @description 每行一张照片，便于在表格软件中按访客筛选；
+ * 以 UTF-8 BOM 开头，确保 Excel 正确识别中文。
+ *
+ * @param sessions - 访客选片汇总
+ * @returns CSV 文本
+ */
+export function buildGuestSelectionsCsv(sessions: GuestSelectionSummary[]): string {
+  const header = ["访客姓名", "手机号", "状态", "提交时间", "文件名", "照片ID", "选择时间"]
+  const rows: string[][] = []
+
+  for (const session of sessions) {
+    const status = session.submitted_at ? "已提交" : "选片中"
+    for (const photo of session.photos) {
+      rows.push([
+        session.guest_name,
+        session.guest_phone || "",
+        status,
+        session.submitted_at || "",
+        photo.filename,
+        photo.id,
+        photo.selected_at,
+      ])
+    }
+  }
+
+  return buildCsv(header, rows)
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import jwt from 'jsonwebtoken'
+import {
+  generateGuestSessionToken,
+  validateGuestSessionToken,
+  getGuestSessionCookieName,
+  getGuestSessionCookieOptions,
+} from './guest-session'
+
+describe('Guest Session Management', () => {
+  const originalEnv = process.env
+  const secret = 'test-secret-key-minimum-32-characters-long-for-security'
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.ALBUM_SESSION_SECRET = secret
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe('generateGuestSessionToken', () => {
+    it('should include session and album in token payload', () => {
+      const token = generateGuestSessionToken('session-123', 'album-456')
+      const payload = validateGuestSessionToken(token)
+
+      expect(payload).toBeTruthy()
+      expect(payload?.sessionId).toBe('session-123')
+      expect(payload?.albumId).toBe('album-456')
+      expect(payload?.type).toBe('guest-selection')
+    })
+
+    it('should expire after 30 days', () => {
+      const token = generateGuestSessionToken('session-123', 'album-456')
+      const payload = validateGuestSessionToken(token)
+
+      expect(payload!.exp - payload!.iat).toBe(30 * 24 * 60 * 60)
+    })
+  })
+
+  describe('validateGuestSessionToken', () => {
+    it('should return null when album does not match', () => {
+      const token = generateGuestSessionToken('session-123', 'album-456')
+
+      expect(validateGuestSessionToken(token, 'album-456')).toBeTruthy()
+      expect(validateGuestSessionToken(token, 'other-album')).toBeNull()
+    })
+
+    it('should reject album access tokens', () => {
+      const token = jwt.sign({ albumId: 'album-456', albumSlug: 'test', type: 'album-access' }, secret, {
+        algorithm: 'HS256',
+      })
+
+      expect(validateGuestSessionToken(token)).toBeNull()
+    })
+
+    it('should return null for token signed with a different secret', () => {
+      const token = generateGuestSessionToken('session-123', 'album-456')
+      process.env.ALBUM_SESSION_SECRET = 'another-secret-key-minimum-32-characters-long'
+
+      expect(validateGuestSessionToken(token)).toBeNull()
+    })
+
+    it('should return null for malformed token', () => {
+      expect(validateGuestSessionToken('invalid.token.here')).toBeNull()
+    })
+  })
+
+  describe('cookie helpers', () => {
+    it('should use a per-album cookie name', () => {
+      expect(getGuestSessionCookieName('album-456')).toBe('guest_session_album-456')
+    })
+
+    it('should use http-only cookie with token lifetime', () => {
+      const options = getGuestSessionCookieOptions()
+
+      expect(options.httpOnly).toBe(true)
+      expect(options.sameSite).toBe('lax')
+      expect(options.maxAge).toBe(30 * 24 * 60 * 60)
+      expect(options.path).toBe('/')
+    })
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview PIS Web - 访客选片会话令牌
+ *
+ * @description 访客在相册中填写姓名/手机号后获得独立的选片身份，
+ * 身份以 JWT 形式保存在 HTTP-only Cookie 中，每个相册一个 Cookie。
+ * 令牌仅携带会话 ID，选片数据始终以数据库中的 guest_sessions / guest_selections 为准。
+ * @module lib/guest-session
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   generateGuestSessionToken,
+ *   validateGuestSessionToken,
+ *   getGuestSessionCookieName,
+ *   getGuestSessionCookieOptions,
+ * } from '@/lib/guest-session'
+ *
+ * const token = generateGuestSessionToken(sessionId, albumId)
+ * response.cookies.set(getGuestSessionCookieName(albumId), token, getGuestSessionCookieOptions())
+ * ```
+ */
+
+import jwt from "jsonwebtoken"
+import { getJWTSecret, type AlbumSessionCookieOptions } from "@/lib/album-session"
+
+/** 访客会话默认有效期（天），覆盖常见的多日选片周期 */
+const GUEST_SESSION_TTL_DAYS = 30
+
+/**
+ * 访客选片会话载荷结构
+ *
+ * @interface
+ */
+export interface GuestSessionPayload {
+  /** 访客会话 ID（guest_sessions.id） */
+  sessionId: string
+  /** 相册 ID */
+  albumId: string
+  /** 签发时间（Unix 时间戳） */
+  iat: number
+  /** 过期时间（Unix 时间戳） */
+  exp: number
+  /** 令牌类型标识 */
+  type: "guest-selection"
+}
+
+/**
+ * 生成访客选片会话令牌
+ *
+ * @param sessionId - 访客会话 ID
+ * @param albumId - 相册 ID
+ * @returns JWT 令牌字符串
+ */
+export function generateGuestSessionToken(
+  sessionId: string,
+  albumId: string,
+): string {
+  const payload: Omit<GuestSessionPayload, "iat" | "exp"> = {
+    sessionId,
+    albumId,
+    type: "guest-selection",
+  }
+
+  return jwt.sign(payload, getJWTSecret(), {
+    expiresIn: `${GUEST_SESSION_TTL_DAYS}d`,
+    algorithm: "HS256",
+  })
+}
+
+/**
+ * 验证并解码访客选片会话令牌
+ *
+ * @param token - JWT 令牌字符串
+ * @param albumId - 期望的相册 ID（可选），不匹配时视为无效
+ * @returns 验证成功返回载荷，失败或过期返回 null
+ */
+export function validateGuestSessionToken(
+  token: string,
+  albumId?: string,
+): GuestSessionPayload | null {
+  try {
+    const decoded = jwt.verify(token, getJWTSecret(), {
+      algorithms: ["HS256"],
+    }) as GuestSessionPayload
+
+    if (decoded.type !== "guest-selection") {
+      return null
+    }
+
+    if (!decoded.sessionId || !decoded.albumId) {
+      return null
+    }
+
+    if (albumId && decoded.albumId !== albumId) {
+      return null
+    }
+
+    return decoded
+  } catch (error) {
+    if (!(error instanceof jwt.JsonWebTokenError)) {
+      console.error("Guest session token validation error:", error)
+    }
+    return null
+  }
+}
+
+/**
+ * 获取访客选片会话 Cookie 名称
+ *
+ * @param albumId - 相册 ID
+ * @returns Cookie 名称（每个相册独立）
+ */
+export function getGuestSessionCookieName(albumId: string): string {
+  return `guest_session_${albumId}`
+}
+
+/**
+ * 获取访客选片会话的 Cookie 配置
+ *
+ * @returns Cookie 配置对象，有效期与令牌一致
+ */
+export function getGuestSessionCookieOptions(): AlbumSessionCookieOptions {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: GUEST_SESSION_TTL_DAYS * 24 * 60 * 60,
+    path: "/",
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildDerivativeSources,
+  buildLightboxSrcSet,
+  buildSrcSet,
+  listDerivativeKeys,
+} from './image-derivatives'
+import type { DerivativeSet } from '@/types/database'
+
+const derivatives: DerivativeSet = {
+  jpeg: [
+    { width: 800, height: 600, key: 'd/p/800.jpg' },
+    { width: 400, height: 300, key: 'd/p/400.jpg' },
+  ],
+  avif: [{ width: 400, height: 300, key: 'd/p/400.avif' }],
+  webp: [{ width: 400, height: 300, key: 'd/p/400.webp' }],
+}
+
+describe('image-derivatives', () => {
+  describe('buildSrcSet', () => {
+    it('should sort by width and append cache buster', () => {
+      expect(buildSrcSet(derivatives.jpeg!, 'https://media.example.com/', 123)).toBe(
+        'https://media.example.com/d/p/400.jpg?t=123 400w, https://media.example.com/d/p/800.jpg?t=123 800w'
+      )
+    })
+  })
+
+  describe('buildDerivativeSources', () => {
+    it('should order sources as AVIF, WebP, JPEG', () => {
+      const sources = buildDerivativeSources(derivatives, 'https://media.example.com')
+      expect(sources.map((s) => s.type)).toEqual(['image/avif', 'image/webp', 'image/jpeg'])
+      expect(sources[0].srcSet).toBe('https://media.example.com/d/p/400.avif 400w')
+    })
+
+    it('should return empty list for photos without derivatives', () => {
+      expect(buildDerivativeSources(null, 'https://media.example.com')).toEqual([])
+      expect(buildDerivativeSources({}, 'https://media.example.com')).toEqual([])
+    })
+  })
+
+  describe('buildLightboxSrcSet', () => {
+    it('should prefer WebP and fall back to JPEG', () => {
+      expect(buildLightboxSrcSet(derivatives, 'https://m')?.[0].src).toBe('https://m/d/p/400.webp')
+      expect(buildLightboxSrcSet({ jpeg: derivatives.jpeg }, 'https://m')).toHaveLength(2)
+      expect(buildLightboxSrcSet(null, 'https://m')).toBeUndefined()
+    })
+  })
+
+  describe('listDerivativeKeys', () => {
+    it('should list every stored key', () => {
+      expect(listDerivativeKeys(derivatives)).toHaveLength(4)
+      expect(listDerivativeKeys(undefined)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * 响应式衍生图工具
+ *
+ * Worker 按尺寸阶梯生成 AVIF / WebP / JPEG 衍生图（photos.derivatives），
+ * 这里负责把它们转换为 <picture> 的 <source> 列表和 srcset，让浏览器按屏幕宽度和格式支持自行选择
+ */
+
+import type { DerivativeFormat, DerivativeImage, DerivativeSet } from '@/types/database'
+
+/** <source> 的优先顺序：体积越小越靠前，JPEG 作为兜底 */
+const FORMAT_ORDER: DerivativeFormat[] = ['avif', 'webp', 'jpeg']
+
+/** <picture> 的单个 <source> */
+export interface ImageSource {
+  /** MIME 类型，如 image/avif */
+  type: string
+  /** srcset 字符串，如 "https://.../400.avif?t=1 400w, https://.../800.avif?t=1 800w" */
+  srcSet: string
+}
+
+/**
+ * 构建单个衍生图的 URL
+ *
+ * @param version - 缓存破坏参数（通常为 updated_at 时间戳）
+ */
+function buildUrl(mediaUrl: string, key: string, version?: number | null): string {
+  const url = `${mediaUrl.replace(/\/$/, '')}/${key.replace(/^\//, '')}`
+  return version ? `${url}?t=${version}` : url
+}
+
+/**
+ * 构建 srcset 字符串
+ */
+export function buildSrcSet(
+  images: DerivativeImage[],
+  mediaUrl: string,
+  version?: number | null
+): string {
+  return [...images]
+    .sort((a, b) => a.width - b.width)
+    .map((image) => `${buildUrl(mediaUrl, image.key, version)} ${image.width}w`)
+    .join(', ')
+}
+
+/**
+ * 构建 <picture> 的 <source> 列表
+ *
+ * @returns 按 AVIF → WebP → JPEG 排序；没有衍生图时返回空数组
+ */
+export function buildDerivativeSources(
+  derivatives: DerivativeSet | null | undefined,
+  mediaUrl: string,
+  version?: number | null
+): ImageSource[] {
+  if (!derivatives || !mediaUrl) return []
+
+  return FORMAT_ORDER.flatMap((format) => {
+    const images = derivatives[format]
+    if (!Array.isArray(images) || images.length === 0) return []
+    return [{ type: `image/${format}`, srcSet: buildSrcSet(images, mediaUrl, version) }]
+  })
+}
+
+/**
+ * 构建灯箱使用的 srcSet（yet-another-react-lightbox 格式）
+ *
+ * @description
+ * 灯箱内部渲染 <img srcset>，无法使用 <picture> 按格式回退，
+ * 因此选用兼容性最好的 WebP，没有时使用 JPEG
+ *
+ * @returns 没有衍生图时返回 undefined（灯箱使用 src）
+ */
+export function buildLightboxSrcSet(
+  derivatives: DerivativeSet | null | undefined,
+  mediaUrl: string,
+  version?: number | null
+): Array<{ src: string; width: number; height: number }> | undefined {
+  const images = derivatives?.webp?.length ? derivatives.webp : derivatives?.jpeg
+  if (!images || images.length === 0 || !mediaUrl) return undefined
+
+  return images.map((image) => ({
+    src: buildUrl(mediaUrl, image.key, version),
+    width: image.width,
+    height: image.height,
+  }))
+}
+
+/**
+ * 列出衍生图集合中的所有存储路径（用于删除文件）
+ */
+export function listDerivativeKeys(derivatives: DerivativeSet | null | undefined): string[] {
+  if (!derivatives) return []
+  return Object.values(derivatives).flatMap((images) =>
+    Array.isArray(images) ? images.map((image) => image.key).filter(Boolean) : []
+  )
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview PIS Web - 本地文件系统存储
+ *
+ * @description STORAGE_TYPE=local 时对象保存在 {STORAGE_LOCAL_ROOT}/{bucket}/{key}，
+ * 与 Worker 的 LocalFsAdapter 共用同一目录。/media 读取时直接读文件；
+ * 预签名上传（PUT）转发给 Worker，由 Worker 校验 HMAC 签名后写入。
+ * @module lib/local-storage
+ */
+
+import path from "path"
+
+/**
+ * 是否使用本地文件系统存储
+ */
+export function isLocalStorage(): boolean {
+  return process.env.STORAGE_TYPE === "local"
+}
+
+/**
+ * 本地存储的存储桶目录
+ */
+export function getLocalStorageBucketDir(): string {
+  const root = path.resolve(process.env.STORAGE_LOCAL_ROOT || "./data/storage")
+  const bucket = process.env.STORAGE_BUCKET || process.env.MINIO_BUCKET || "pis-photos"
+  return path.join(root, bucket)
+}
+
+/**
+ * 将对象键转换为本地文件路径
+ *
+ * @param key - 对象键，如 processed/thumbs/{albumId}/{photoId}.jpg
+ * @returns 文件路径；键为空、包含 .. 等越出存储目录的片段时返回 null
+ */
+export function resolveLocalStoragePath(key: string): string | null {
+  const segments = key.split("/")
+  if (
+    !key ||
+    key.includes("\0") ||
+    key.includes("\\") ||
+    segments.some((segment) => segment === "" || segment === "." || segment === "..")
+  ) {
+    return null
+  }
+
+  const bucketDir = getLocalStorageBucketDir()
+  const filePath = path.join(bucketDir, ...segments)
+  return filePath.startsWith(bucketDir + path.sep) ? filePath : null
+}
+
+/**
+ * Worker 处理签名上传的地址
+ *
+ * @param pathname - /media/ 开头的请求路径（保持编码）
+ * @param search - 含签名参数的查询字符串
+ */
+export function getLocalStorageWorkerUrl(pathname: string, search: string): string {
+  const workerUrl =
+    process.env.WORKER_URL ||
+    process.env.WORKER_API_URL ||
+    process.env.NEXT_PUBLIC_WORKER_URL ||
+    "http://localhost:3001"
+  return `${workerUrl.replace(/\/$/, "")}${pathname}${search}`
+}
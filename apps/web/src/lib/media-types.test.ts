@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getMediaTypeFromMime,
+  getExtensionsForMime,
+  getMaxFileSize,
+  formatDuration,
+  MAX_IMAGE_FILE_SIZE,
+  MAX_VIDEO_FILE_SIZE,
+} from './media-types'
+
+describe('media-types', () => {
+  it('should detect media type from MIME type', () => {
+    expect(getMediaTypeFromMime('image/heic')).toBe('image')
+    expect(getMediaTypeFromMime('video/quicktime')).toBe('video')
+    expect(getMediaTypeFromMime('video/x-msvideo')).toBeNull()
+  })
+
+  it('should return allowed extensions for MIME type', () => {
+    expect(getExtensionsForMime('image/jpeg')).toEqual(['.jpg', '.jpeg'])
+    expect(getExtensionsForMime('video/mp4')).toEqual(['.mp4'])
+    expect(getExtensionsForMime('application/pdf')).toEqual([])
+  })
+
+  it('should use larger size limit for videos', () => {
+    expect(getMaxFileSize('image/jpeg')).toBe(MAX_IMAGE_FILE_SIZE)
+    expect(getMaxFileSize('video/mp4')).toBe(MAX_VIDEO_FILE_SIZE)
+  })
+
+  it('should format duration', () => {
+    expect(formatDuration(5.4)).toBe('0:05')
+    expect(formatDuration(65)).toBe('1:05')
+    expect(formatDuration(3723)).toBe('1:02:03')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * 媒体文件类型工具
+ *
+ * 统一维护上传支持的图片 / 视频 MIME 类型、扩展名与大小限制，
+ * 供上传接口、参数校验和上传组件共用
+ */
+
+import type { MediaType } from '@/types/database'
+
+/** 支持的图片 MIME 类型 → 扩展名 */
+export const IMAGE_MIME_EXTENSIONS: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/heic': ['.heic'],
+  'image/webp': ['.webp'],
+  'image/gif': ['.gif'],
+  'image/tiff': ['.tiff', '.tif'],
+}
+
+/** 支持的视频 MIME 类型 → 扩展名 */
+export const VIDEO_MIME_EXTENSIONS: Record<string, string[]> = {
+  'video/mp4': ['.mp4'],
+  'video/quicktime': ['.mov'],
+}
+
+/** 图片最大文件大小（100MB） */
+export const MAX_IMAGE_FILE_SIZE = 100 * 1024 * 1024
+
+/** 视频最大文件大小（500MB） */
+export const MAX_VIDEO_FILE_SIZE = 500 * 1024 * 1024
+
+/** 所有支持上传的 MIME 类型 */
+export const ALLOWED_UPLOAD_MIME_TYPES = [
+  ...Object.keys(IMAGE_MIME_EXTENSIONS),
+  ...Object.keys(VIDEO_MIME_EXTENSIONS),
+]
+
+/** 所有支持上传的扩展名 */
+export const ALLOWED_UPLOAD_EXTENSIONS = [
+  ...Object.values(IMAGE_MIME_EXTENSIONS).flat(),
+  ...Object.values(VIDEO_MIME_EXTENSIONS).flat(),
+]
+
+/**
+ * 根据 MIME 类型判断媒体类型
+ *
+ * @returns 不支持的类型返回 null
+ */
+export function getMediaTypeFromMime(contentType: string): MediaType | null {
+  if (contentType in IMAGE_MIME_EXTENSIONS) return 'image'
+  if (contentType in VIDEO_MIME_EXTENSIONS) return 'video'
+  return null
+}
+
+/**
+ * 获取 MIME 类型允许的扩展名
+ */
+export function getExtensionsForMime(contentType: string): string[] {
+  return IMAGE_MIME_EXTENSIONS[contentType] || VIDEO_MIME_EXTENSIONS[contentType] || []
+}
+
+/**
+ * 获取 MIME 类型对应的最大文件大小
+ */
+export function getMaxFileSize(contentType: string): number {
+  return getMediaTypeFromMime(contentType) === 'video' ? MAX_VIDEO_FILE_SIZE : MAX_IMAGE_FILE_SIZE
+}
+
+/**
+ * 格式化视频时长（如 1:05、1:02:03）
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  const ss = s.toString().padStart(2, '0')
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${ss}` : `${m}:${ss}`
+}
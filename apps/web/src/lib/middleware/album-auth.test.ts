@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockRequest } from '@/test/test-utils'
+import { generateAlbumSessionToken } from '@/lib/album-session'
+import type { ShareLinkPermission } from '@/types/database'
+
+const { mockMaybeSingle, mockDb } = vi.hoisted(() => {
+  const mockMaybeSingle = vi.fn()
+  const mockQuery = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    maybeSingle: mockMaybeSingle,
+  }
+  return { mockMaybeSingle, mockDb: { from: vi.fn(() => mockQuery) } }
+})
+
+vi.mock('@/lib/database', () => ({
+  createClient: vi.fn().mockResolvedValue(mockDb),
+}))
+
+import { getAlbumVisitorPermissions, getShareLinkAccess, resolveAlbumVisitorPermissions } from './album-auth'
+
+const ALBUM = { id: 'album-1', slug: 'wedding', allow_download: true }
+
+function linkSession(permission: ShareLinkPermission, albumId = ALBUM.id) {
+  return generateAlbumSessionToken(albumId, ALBUM.slug, 1, { id: 'link-1', permission })
+}
+
+function linkRow(overrides: Record<string, unknown> = {}) {
+  return {
+    data: {
+      id: 'link-1',
+      album_id: ALBUM.id,
+      permission: 'view',
+      expires_at: null,
+      revoked_at: null,
+      ...overrides,
+    },
+    error: null,
+  }
+}
+
+describe('album-auth share links', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.ALBUM_SESSION_SECRET = 'test-secret-key-minimum-32-characters-long-for-security'
+  })
+
+  it('should keep album defaults for direct visitors', async () => {
+    const request = createMockRequest('http://localhost:3000/api/public/download/x')
+    const permissions = await getAlbumVisitorPermissions(request, { ...ALBUM, allow_download: false })
+
+    expect(permissions).toEqual({ canDownload: false, canSelect: true, shareLink: null })
+    expect(mockDb.from).not.toHaveBeenCalled()
+  })
+
+  it('should apply link permission over album defaults', async () => {
+    mockMaybeSingle.mockResolvedValue(linkRow({ permission: 'view' }))
+    const viewRequest = createMockRequest('http://localhost:3000/', {
+      headers: { cookie: `album_session_wedding=${linkSession('view')}` },
+    })
+    expect(await getAlbumVisitorPermissions(viewRequest, ALBUM)).toMatchObject({
+      canDownload: false,
+      canSelect: false,
+      shareLink: { linkId: 'link-1', permission: 'view' },
+    })
+
+    // 权限以数据库为准，会话中的权限仅作记录
+    mockMaybeSingle.mockResolvedValue(linkRow({ permission: 'select' }))
+    expect(await getAlbumVisitorPermissions(viewRequest, { ...ALBUM, allow_download: false })).toMatchObject({
+      canDownload: true,
+      canSelect: true,
+    })
+  })
+
+  it('should ignore revoked, expired and foreign links', async () => {
+    mockMaybeSingle.mockResolvedValue(linkRow({ revoked_at: new Date().toISOString() }))
+    expect(await getShareLinkAccess(linkSession('select'), ALBUM.id)).toBeNull()
+
+    mockMaybeSingle.mockResolvedValue(linkRow({ expires_at: new Date(Date.now() - 1000).toISOString() }))
+    expect(await getShareLinkAccess(linkSession('select'), ALBUM.id)).toBeNull()
+
+    mockMaybeSingle.mockResolvedValue(linkRow())
+    expect(await getShareLinkAccess(linkSession('select', 'album-2'), ALBUM.id)).toBeNull()
+    expect(await getShareLinkAccess(generateAlbumSessionToken(ALBUM.id, ALBUM.slug), ALBUM.id)).toBeNull()
+    expect(await getShareLinkAccess('invalid', ALBUM.id)).toBeNull()
+  })
+
+  it('should resolve permissions without a link', () => {
+    expect(resolveAlbumVisitorPermissions({ allow_download: true }, null)).toEqual({
+      canDownload: true,
+      canSelect: true,
+      shareLink: null,
+    })
+    expect(
+      resolveAlbumVisitorPermissions({ allow_download: true }, { linkId: 'link-1', permission: 'download' })
+    ).toMatchObject({ canDownload: true, canSelect: false })
+  })
+})
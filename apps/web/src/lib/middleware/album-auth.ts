@@ -6,6 +6,7 @@
  *
  * 安全特性：
  * - 会话令牌验证
+ * - 分享链接会话（链接吊销或过期后立即失效）
  * - 统一的错误响应
  * - 安全事件日志记录
  * - 向后兼容公共相册
@@ -17,8 +18,11 @@ import { NextRequest } from "next/server";
 import { createClient } from "@/lib/database";
 import {
   validateAlbumSessionToken,
+  getAlbumSessionCookieName,
+  hasShareLinkPermission,
   AlbumSessionData,
 } from "@/lib/album-session";
+import type { AlbumShareLink, ShareLinkPermission } from "@/types/database";
 
 /**
  * 相册认证结果接口
@@ -126,7 +130,7 @@ export async function verifyAlbumAuth(
     }
 
     // Check for session token in cookie
-    const sessionToken = request.cookies.get(`album_session_${slug}`)?.value;
+    const sessionToken = request.cookies.get(getAlbumSessionCookieName(slug))?.value;
 
     if (!sessionToken) {
       return {
@@ -151,6 +155,17 @@ export async function verifyAlbumAuth(
       };
     }
 
+    // 分享链接会话：链接被吊销或过期后会话同时失效
+    if (validationResult.shareLinkId && !(await getShareLinkAccess(sessionToken, album.id))) {
+      return {
+        authorized: false,
+        error: {
+          code: "SHARE_LINK_INVALID",
+          message: "分享链接已失效",
+        },
+      };
+    }
+
     // Session is valid
     return {
       authorized: true,
@@ -193,3 +208,123 @@ export function albumRequiresAuth(album: {
 }): boolean {
   return !!album.password;
 }
+
+/**
+ * 分享链接访问信息
+ *
+ * @interface
+ * @property {string} linkId - 分享链接 ID
+ * @property {ShareLinkPermission} permission - 链接权限
+ */
+export interface ShareLinkAccess {
+  linkId: string;
+  permission: ShareLinkPermission;
+}
+
+/**
+ * 访客在相册中的操作权限
+ *
+ * @interface
+ * @property {boolean} canDownload - 是否可以下载原图
+ * @property {boolean} canSelect - 是否可以选片
+ * @property {ShareLinkAccess|null} shareLink - 访客使用的分享链接，直接访问时为 null
+ */
+export interface AlbumVisitorPermissions {
+  canDownload: boolean;
+  canSelect: boolean;
+  shareLink: ShareLinkAccess | null;
+}
+
+/**
+ * 从相册会话令牌中读取分享链接访问信息
+ *
+ * @description 会话令牌只记录链接 ID，链接是否已吊销或过期以数据库为准
+ *
+ * @param {string|undefined} sessionToken - 相册会话 Cookie 的值
+ * @param {string} albumId - 相册 ID
+ * @returns {Promise<ShareLinkAccess|null>} 有效的分享链接会话返回访问信息，否则返回 null
+ */
+export async function getShareLinkAccess(
+  sessionToken: string | undefined,
+  albumId: string,
+): Promise<ShareLinkAccess | null> {
+  if (!sessionToken) {
+    return null;
+  }
+
+  const session = validateAlbumSessionToken(sessionToken);
+  if (!session?.shareLinkId || session.albumId !== albumId) {
+    return null;
+  }
+
+  const db = await createClient();
+  const linkResult = await db
+    .from<Pick<AlbumShareLink, "id" | "album_id" | "permission" | "expires_at" | "revoked_at">>("album_share_links")
+    .select("id, album_id, permission, expires_at, revoked_at")
+    .eq("id", session.shareLinkId)
+    .maybeSingle();
+
+  const link = linkResult.data;
+  if (!link || link.album_id !== albumId || link.revoked_at) {
+    return null;
+  }
+  if (link.expires_at && new Date(link.expires_at) < new Date()) {
+    return null;
+  }
+
+  return { linkId: link.id, permission: link.permission };
+}
+
+/**
+ * 计算访客在相册中的操作权限
+ *
+ * @description
+ * 通过分享链接进入的访客以链接权限为准（可以高于相册默认设置，例如只给新人开放下载）；
+ * 直接访问相册的访客沿用相册设置：是否可下载取决于 allow_download，始终可以选片。
+ *
+ * @param {Object} album - 相册对象
+ * @param {boolean} album.allow_download - 相册是否允许下载
+ * @param {ShareLinkAccess|null} shareLink - 分享链接访问信息
+ * @returns {AlbumVisitorPermissions} 访客权限
+ */
+export function resolveAlbumVisitorPermissions(
+  album: { allow_download: boolean },
+  shareLink: ShareLinkAccess | null,
+): AlbumVisitorPermissions {
+  if (!shareLink) {
+    return { canDownload: album.allow_download, canSelect: true, shareLink: null };
+  }
+
+  return {
+    canDownload: hasShareLinkPermission(shareLink.permission, "download"),
+    canSelect: hasShareLinkPermission(shareLink.permission, "select"),
+    shareLink,
+  };
+}
+
+/**
+ * 获取当前请求访客在相册中的操作权限
+ *
+ * @param {NextRequest} request - Next.js 请求对象
+ * @param {Object} album - 相册对象
+ * @param {string} album.id - 相册 ID
+ * @param {string} album.slug - 相册 slug
+ * @param {boolean} album.allow_download - 相册是否允许下载
+ * @returns {Promise<AlbumVisitorPermissions>} 访客权限
+ *
+ * @example
+ * ```typescript
+ * const permissions = await getAlbumVisitorPermissions(request, album)
+ * if (!permissions.canDownload) {
+ *   return ApiError.forbidden('该相册不允许下载原图')
+ * }
+ * ```
+ */
+export async function getAlbumVisitorPermissions(
+  request: NextRequest,
+  album: { id: string; slug: string; allow_download: boolean },
+): Promise<AlbumVisitorPermissions> {
+  const sessionToken = request.cookies.get(getAlbumSessionCookieName(album.slug))?.value;
+  const shareLink = await getShareLinkAccess(sessionToken, album.id);
+  return resolveAlbumVisitorPermissions(album, shareLink);
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview 访客选片会话解析
+ *
+ * 从请求 Cookie 中解析当前访客的选片会话，并确认会话仍存在于数据库中。
+ * 管理员删除会话后，旧 Cookie 自动失效。
+ *
+ * @module lib/middleware/guest-auth
+ */
+
+import { NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/database";
+import {
+  getGuestSessionCookieName,
+  validateGuestSessionToken,
+} from "@/lib/guest-session";
+import type { GuestSession } from "@/types/database";
+
+/**
+ * 获取当前请求对应的访客选片会话
+ *
+ * @param {NextRequest} request - Next.js 请求对象
+ * @param {string} albumId - 相册 ID
+ * @returns {Promise<GuestSession | null>} 会话记录，未建立身份或会话已失效时返回 null
+ *
+ * @example
+ * ```typescript
+ * const session = await getGuestSession(request, album.id)
+ * if (!session) {
+ *   return createErrorResponse(ErrorCode.GUEST_SESSION_REQUIRED, '请先填写选片信息', undefined, 401)
+ * }
+ * ```
+ */
+export async function getGuestSession(
+  request: NextRequest,
+  albumId: string,
+): Promise<GuestSession | null> {
+  const token = request.cookies.get(getGuestSessionCookieName(albumId))?.value;
+  if (!token) {
+    return null;
+  }
+
+  const payload = validateGuestSessionToken(token, albumId);
+  if (!payload) {
+    return null;
+  }
+
+  const db = await createAdminClient();
+  const result = await db
+    .from<GuestSession>("guest_sessions")
+    .select("*")
+    .eq("id", payload.sessionId)
+    .eq("album_id", albumId)
+    .maybeSingle();
+
+  if (result.error || !result.data) {
+    return null;
+  }
+
+  return result.data;
+}
+
+/**
+ * 获取访客会话已选照片 ID 列表
+ *
+ * @param {string} sessionId - 访客会话 ID
+ * @returns {Promise<string[]>} 按选择时间排序的照片 ID
+ */
+export async function getGuestSelectedPhotoIds(
+  sessionId: string,
+): Promise<string[]> {
+  const db = await createAdminClient();
+  const result = await db
+    .from<{ photo_id: string }>("guest_selections")
+    .select("photo_id")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (result.error || !result.data) {
+    return [];
+  }
+
+  return result.data.map((row) => row.photo_id);
+}
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview PIS Web - 客户通知类型和模板变量
+ *
+ * @description 纯常量，不依赖服务端模块，通知触发（client-notifications）和管理端页面共用。
+ * 类型列表与 Worker 端 `services/worker/src/lib/client-notifications.ts` 保持一致。
+ * @module lib/notification-templates
+ */
+
+/**
+ * 通知类型及显示名称
+ */
+export const CLIENT_NOTIFICATION_TYPES = {
+  album_ready: "相册已就绪",
+  photos_added: "新增照片",
+  selection_received: "收到选片",
+  package_ready: "打包下载就绪",
+  album_expiring: "相册即将过期",
+} as const
+
+export type ClientNotificationType = keyof typeof CLIENT_NOTIFICATION_TYPES
+
+/**
+ * 通知语言及显示名称（客户资料中选择，没有对应模板时使用中文模板）
+ */
+export const NOTIFICATION_LOCALES = {
+  "zh-CN": "中文",
+  en: "English",
+} as const
+
+export type NotificationLocale = keyof typeof NOTIFICATION_LOCALES
+
+/** 所有通知都可使用的模板变量 */
+const COMMON_VARIABLES = {
+  client_name: "客户名称",
+  album_title: "相册标题",
+  album_url: "相册链接",
+  studio_name: "工作室名称",
+  expires_at: "相册过期日期",
+}
+
+/**
+ * 各通知类型可用的模板变量（变量名 → 说明），模板中写作 `{{变量名}}`
+ */
+export const NOTIFICATION_TEMPLATE_VARIABLES: Record<ClientNotificationType, Record<string, string>> = {
+  album_ready: COMMON_VARIABLES,
+  photos_added: { ...COMMON_VARIABLES, photo_count: "新增照片数" },
+  selection_received: { ...COMMON_VARIABLES, guest_name: "选片访客", selected_count: "已选照片数" },
+  package_ready: { ...COMMON_VARIABLES, photo_count: "打包照片数", download_url: "下载链接" },
+  album_expiring: COMMON_VARIABLES,
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { mockClient } = vi.hoisted(() => {
+  const handlers = new Map<string, (message: string) => void>()
+  return {
+    mockClient: {
+      handlers,
+      on: vi.fn(),
+      connect: vi.fn().mockResolvedValue(undefined),
+      destroy: vi.fn(),
+      publish: vi.fn().mockResolvedValue(1),
+      subscribe: vi.fn(async (channel: string, handler: (message: string) => void) => {
+        handlers.set(channel, handler)
+      }),
+      unsubscribe: vi.fn(async (channel: string) => {
+        handlers.delete(channel)
+      }),
+    },
+  }
+})
+
+vi.mock('redis', () => ({
+  createClient: vi.fn(() => mockClient),
+}))
+
+/**
+ * 每个用例重新加载模块，避免连接和订阅状态相互影响
+ */
+async function loadModule() {
+  vi.resetModules()
+  return import('./photo-events')
+}
+
+function emit(channel: string, event: Record<string, unknown>) {
+  mockClient.handlers.get(channel)?.(JSON.stringify(event))
+}
+
+describe('photo-events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockClient.handlers.clear()
+    process.env.REDIS_HOST = 'localhost'
+  })
+
+  afterEach(() => {
+    delete process.env.REDIS_HOST
+  })
+
+  it('should be disabled without REDIS_HOST', async () => {
+    delete process.env.REDIS_HOST
+    const { publishPhotoEvents, subscribePhotoEvents } = await loadModule()
+
+    await publishPhotoEvents('album-1', ['photo-1'], 'delete')
+
+    expect(await subscribePhotoEvents('album-1', vi.fn())).toBeNull()
+    expect(mockClient.connect).not.toHaveBeenCalled()
+  })
+
+  it('should publish one message per photo to the album channel', async () => {
+    const { publishPhotoEvents, photoEventsChannel } = await loadModule()
+
+    await publishPhotoEvents('album-1', ['photo-1', 'photo-2'], 'insert', 'completed')
+
+    expect(mockClient.publish).toHaveBeenCalledTimes(2)
+    const [channel, message] = mockClient.publish.mock.calls[0]
+    expect(channel).toBe(photoEventsChannel('album-1'))
+    expect(JSON.parse(message)).toMatchObject({
+      type: 'insert',
+      album_id: 'album-1',
+      photo_id: 'photo-1',
+      status: 'completed',
+    })
+  })
+
+  it('should share one Redis subscription per album', async () => {
+    const { subscribePhotoEvents, photoEventsChannel } = await loadModule()
+    const channel = photoEventsChannel('album-1')
+    const first = vi.fn()
+    const second = vi.fn()
+
+    const unsubscribeFirst = await subscribePhotoEvents('album-1', first)
+    const unsubscribeSecond = await subscribePhotoEvents('album-1', second)
+    expect(mockClient.subscribe).toHaveBeenCalledTimes(1)
+
+    emit(channel, { type: 'delete', album_id: 'album-1', photo_id: 'photo-1', status: null, at: '' })
+    expect(first).toHaveBeenCalledWith(expect.objectContaining({ photo_id: 'photo-1' }))
+    expect(second).toHaveBeenCalledTimes(1)
+
+    unsubscribeFirst?.()
+    expect(mockClient.unsubscribe).not.toHaveBeenCalled()
+    unsubscribeSecond?.()
+    expect(mockClient.unsubscribe).toHaveBeenCalledWith(channel)
+  })
+
+  it('should stream transformed events as SSE', async () => {
+    const { createPhotoEventStream, photoEventsChannel } = await loadModule()
+    const abort = new AbortController()
+    const request = new Request('http://localhost/api/admin/albums/album-1/events', { signal: abort.signal })
+
+    const response = await createPhotoEventStream(request, 'album-1', (event) =>
+      event.type === 'update' ? null : { type: event.type, photo_id: event.photo_id }
+    )
+    expect(response?.headers.get('Content-Type')).toContain('text/event-stream')
+
+    const reader = response!.body!.getReader()
+    const decoder = new TextDecoder()
+    expect(decoder.decode((await reader.read()).value)).toContain('retry:')
+
+    const channel = photoEventsChannel('album-1')
+    emit(channel, { type: 'update', album_id: 'album-1', photo_id: 'photo-1', status: 'processing', at: '' })
+    emit(channel, { type: 'insert', album_id: 'album-1', photo_id: 'photo-1', status: 'completed', at: '' })
+
+    const chunk = decoder.decode((await reader.read()).value)
+    expect(chunk).toBe(`data: ${JSON.stringify({ type: 'insert', photo_id: 'photo-1' })}\n\n`)
+
+    abort.abort()
+    expect((await reader.read()).done).toBe(true)
+    expect(mockClient.unsubscribe).toHaveBeenCalledWith(channel)
+  })
+})
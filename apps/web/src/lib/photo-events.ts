@@ -0,0 +1,279 @@
+/**
+ * @fileoverview PIS Web - 照片实时事件
+ *
+ * @description
+ * Worker 在照片状态变化时向 Redis 频道 `pis:photo-events:<albumId>` 发布事件，
+ * Web 端在删除/恢复照片时也发布事件。SSE 接口通过本模块订阅后推送给浏览器，替代轮询。
+ *
+ * - 每个进程只建立一个订阅连接，同一相册的多个 SSE 连接共享一次 Redis 订阅
+ * - 未配置 REDIS_HOST（例如 Vercel 部署）时实时推送关闭，前端自动回退到轮询
+ * - 发布和订阅失败都不会影响业务操作本身
+ *
+ * @module lib/photo-events
+ */
+
+import { createClient } from "redis"
+import type { Photo } from "@/types/database"
+
+/** 频道前缀（与 Worker 保持一致） */
+export const PHOTO_EVENTS_CHANNEL_PREFIX = "pis:photo-events:"
+
+/**
+ * 事件类型
+ * - insert：照片对访客可见（处理完成、从回收站恢复）
+ * - update：状态变化但访客不可见（processing、failed、pending_retouch）
+ * - delete：照片被删除（移入回收站或删除记录）
+ */
+export type PhotoEventType = "insert" | "update" | "delete"
+
+/**
+ * 照片事件消息
+ */
+export interface PhotoEvent {
+  type: PhotoEventType
+  album_id: string
+  photo_id: string
+  /** 事件发生后的照片状态（delete 事件为 null） */
+  status: Photo["status"] | null
+  at: string
+}
+
+export type PhotoEventListener = (event: PhotoEvent) => void
+
+type RedisClient = ReturnType<typeof createClient>
+
+let publisherReady: Promise<RedisClient | null> | null = null
+let subscriber: RedisClient | null = null
+let subscriberReady: Promise<RedisClient | null> | null = null
+const listeners = new Map<string, Set<PhotoEventListener>>()
+
+/**
+ * 获取相册的事件频道
+ */
+export function photoEventsChannel(albumId: string): string {
+  return `${PHOTO_EVENTS_CHANNEL_PREFIX}${albumId}`
+}
+
+/**
+ * 是否启用实时推送（配置了 Redis）
+ */
+export function isPhotoEventsEnabled(): boolean {
+  return !!process.env.REDIS_HOST
+}
+
+/**
+ * 创建 Redis 客户端（连接失败时返回 null）
+ */
+async function connectRedis(role: string): Promise<RedisClient | null> {
+  const client = createClient({
+    socket: {
+      host: process.env.REDIS_HOST,
+      port: parseInt(process.env.REDIS_PORT || "6379", 10),
+      connectTimeout: 5000,
+    },
+    password: process.env.REDIS_PASSWORD || undefined,
+  })
+  // 断线时 node-redis 会自动重连，这里只记录错误，避免未处理的 error 事件
+  client.on("error", (err: Error) => {
+    console.warn(`[PhotoEvents] Redis ${role} error:`, err.message)
+  })
+
+  try {
+    await client.connect()
+    return client
+  } catch (err) {
+    console.warn(`[PhotoEvents] Failed to connect Redis ${role}:`, err)
+    client.destroy()
+    return null
+  }
+}
+
+/**
+ * 解析事件消息
+ */
+function parsePhotoEvent(message: string): PhotoEvent | null {
+  try {
+    const event = JSON.parse(message) as PhotoEvent
+    if (!event || typeof event.photo_id !== "string" || typeof event.album_id !== "string") {
+      return null
+    }
+    return event
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 发布照片事件
+ *
+ * @description 未启用实时推送或发布失败时静默跳过
+ */
+export async function publishPhotoEvents(
+  albumId: string,
+  photoIds: string[],
+  type: PhotoEventType,
+  status: Photo["status"] | null = null
+): Promise<void> {
+  if (!isPhotoEventsEnabled() || photoIds.length === 0) return
+
+  try {
+    if (!publisherReady) {
+      publisherReady = connectRedis("publisher").then((client) => {
+        // 连接失败时允许下次重试
+        if (!client) publisherReady = null
+        return client
+      })
+    }
+    const publisher = await publisherReady
+    if (!publisher) return
+
+    const channel = photoEventsChannel(albumId)
+    const at = new Date().toISOString()
+    for (const photoId of photoIds) {
+      const event: PhotoEvent = { type, album_id: albumId, photo_id: photoId, status, at }
+      await publisher.publish(channel, JSON.stringify(event))
+    }
+  } catch (err) {
+    console.warn(`[PhotoEvents] Failed to publish ${type} events:`, err)
+  }
+}
+
+/**
+ * 订阅相册的照片事件
+ *
+ * @param albumId - 相册 ID
+ * @param listener - 事件回调
+ * @returns 取消订阅函数；未启用实时推送或 Redis 不可用时返回 null
+ */
+export async function subscribePhotoEvents(
+  albumId: string,
+  listener: PhotoEventListener
+): Promise<(() => void) | null> {
+  if (!isPhotoEventsEnabled()) return null
+
+  if (!subscriberReady) {
+    subscriberReady = connectRedis("subscriber").then((client) => {
+      subscriber = client
+      // 连接失败时允许下次重试
+      if (!client) subscriberReady = null
+      return client
+    })
+  }
+  const client = await subscriberReady
+  if (!client) return null
+
+  const channel = photoEventsChannel(albumId)
+  let albumListeners = listeners.get(channel)
+  if (!albumListeners) {
+    albumListeners = new Set()
+    listeners.set(channel, albumListeners)
+    try {
+      await client.subscribe(channel, (message: string) => {
+        const event = parsePhotoEvent(message)
+        if (!event) return
+        listeners.get(channel)?.forEach((fn) => fn(event))
+      })
+    } catch (err) {
+      listeners.delete(channel)
+      console.warn(`[PhotoEvents] Failed to subscribe ${channel}:`, err)
+      return null
+    }
+  }
+  albumListeners.add(listener)
+
+  return () => {
+    const current = listeners.get(channel)
+    if (!current) return
+    current.delete(listener)
+    if (current.size === 0) {
+      listeners.delete(channel)
+      subscriber?.unsubscribe(channel).catch((err: unknown) => {
+        console.warn(`[PhotoEvents] Failed to unsubscribe ${channel}:`, err)
+      })
+    }
+  }
+}
+
+/** SSE 心跳间隔，防止代理因空闲断开连接 */
+const SSE_HEARTBEAT_MS = 25000
+
+/** 浏览器断线后的重连间隔 */
+const SSE_RETRY_MS = 3000
+
+/**
+ * 创建照片事件 SSE 响应
+ *
+ * @description 每条事件以默认 message 事件推送，data 为 transform 的返回值（JSON）。
+ * 客户端断开时自动取消订阅。
+ *
+ * @param request - 请求（通过 signal 感知客户端断开）
+ * @param albumId - 相册 ID
+ * @param transform - 将事件转换为推送数据，返回 null 表示不推送给该客户端
+ * @returns SSE 响应；实时推送未启用或 Redis 不可用时返回 null
+ */
+export async function createPhotoEventStream<T>(
+  request: Request,
+  albumId: string,
+  transform: (event: PhotoEvent) => T | null | Promise<T | null>
+): Promise<Response | null> {
+  const encoder = new TextEncoder()
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+  let closed = false
+
+  const send = (chunk: string) => {
+    if (closed || !controller) return
+    try {
+      controller.enqueue(encoder.encode(chunk))
+    } catch {
+      close()
+    }
+  }
+
+  const unsubscribe = await subscribePhotoEvents(albumId, (event) => {
+    Promise.resolve(transform(event))
+      .then((data) => {
+        if (data !== null) send(`data: ${JSON.stringify(data)}\n\n`)
+      })
+      .catch((err) => console.warn("[PhotoEvents] Failed to transform event:", err))
+  })
+  if (!unsubscribe) return null
+
+  function close() {
+    if (closed) return
+    closed = true
+    clearInterval(heartbeat)
+    unsubscribe?.()
+    try {
+      controller?.close()
+    } catch {
+      // 流已关闭
+    }
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController
+      send(`retry: ${SSE_RETRY_MS}\n: connected\n\n`)
+      heartbeat = setInterval(() => send(": ping\n\n"), SSE_HEARTBEAT_MS)
+      if (request.signal.aborted) {
+        close()
+      } else {
+        request.signal.addEventListener("abort", close)
+      }
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // 关闭 Nginx 缓冲，保证事件即时送达
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ensureOriginalVersion, createPhotoVersion, listPhotoVersionKeys, type VersionedPhoto } from './photo-versions'
+
+const { mockAdminClient } = vi.hoisted(() => {
+  return {
+    mockAdminClient: {
+      from: vi.fn(),
+      insert: vi.fn(),
+      update: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+const photo: VersionedPhoto = {
+  id: 'photo-1',
+  album_id: 'album-1',
+  original_key: 'raw/album-1/photo-1.jpg',
+  file_size: 1024,
+  mime_type: 'image/jpeg',
+  hash: 'abc',
+  current_version_id: null,
+}
+
+/**
+ * 构造版本列表查询 mock
+ */
+function mockVersionList(...lists: Array<Array<Record<string, unknown>>>) {
+  const order = vi.fn()
+  for (const list of lists) {
+    order.mockResolvedValueOnce({ data: list, error: null })
+  }
+  mockAdminClient.from.mockReturnValue({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order,
+  })
+}
+
+describe('ensureOriginalVersion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAdminClient.update.mockResolvedValue({ data: [], error: null })
+  })
+
+  it('should return existing versions without backfilling', async () => {
+    const versions = [{ id: 'v1', version_number: 1, source: 'original' }]
+    mockVersionList(versions)
+
+    const result = await ensureOriginalVersion(photo)
+
+    expect(result).toEqual(versions)
+    expect(mockAdminClient.insert).not.toHaveBeenCalled()
+  })
+
+  it('should backfill v1 from original_key and make it current', async () => {
+    mockVersionList([])
+    mockAdminClient.insert.mockResolvedValue({
+      data: [{ id: 'v1', version_number: 1, source: 'original' }],
+      error: null,
+    })
+
+    const result = await ensureOriginalVersion(photo)
+
+    expect(result).toHaveLength(1)
+    expect(mockAdminClient.insert).toHaveBeenCalledWith('photo_versions', expect.objectContaining({
+      photo_id: 'photo-1',
+      version_number: 1,
+      source: 'original',
+      storage_key: 'raw/album-1/photo-1.jpg',
+      hash: 'abc',
+    }))
+    expect(mockAdminClient.update).toHaveBeenCalledWith('photos', { current_version_id: 'v1' }, { id: 'photo-1' })
+  })
+})
+
+describe('createPhotoVersion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should append version with next version number', async () => {
+    mockVersionList([
+      { id: 'v1', version_number: 1, source: 'original' },
+      { id: 'v2', version_number: 2, source: 'retouch' },
+    ])
+    mockAdminClient.insert.mockResolvedValue({ data: [{ id: 'v3', version_number: 3 }], error: null })
+
+    const version = await createPhotoVersion(photo, {
+      source: 'retouch',
+      storageKey: 'retouched/album-1/photo-1_1.jpg',
+      createdBy: 'user-1',
+    })
+
+    expect(version.id).toBe('v3')
+    expect(mockAdminClient.insert).toHaveBeenCalledWith('photo_versions', expect.objectContaining({
+      version_number: 3,
+      source: 'retouch',
+      storage_key: 'retouched/album-1/photo-1_1.jpg',
+      created_by: 'user-1',
+    }))
+    expect(mockAdminClient.update).not.toHaveBeenCalled()
+  })
+
+  it('should retry once with a fresh version number on conflict', async () => {
+    mockVersionList(
+      [{ id: 'v1', version_number: 1, source: 'original' }],
+      [
+        { id: 'v1', version_number: 1, source: 'original' },
+        { id: 'v2', version_number: 2, source: 'retouch' },
+      ]
+    )
+    mockAdminClient.insert
+      .mockResolvedValueOnce({ data: null, error: new Error('duplicate key value violates unique constraint') })
+      .mockResolvedValueOnce({ data: [{ id: 'v3', version_number: 3 }], error: null })
+
+    const version = await createPhotoVersion(photo, {
+      source: 'ai_retouch',
+      storageKey: 'retouched/album-1/photo-1_2.jpg',
+    })
+
+    expect(version.id).toBe('v3')
+    expect(mockAdminClient.insert).toHaveBeenLastCalledWith('photo_versions', expect.objectContaining({
+      version_number: 3,
+    }))
+  })
+})
+
+describe('listPhotoVersionKeys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return unique storage keys', async () => {
+    mockAdminClient.from.mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({
+        data: [{ storage_key: 'a.jpg' }, { storage_key: 'b.jpg' }, { storage_key: 'a.jpg' }],
+        error: null,
+      }),
+    })
+
+    expect(await listPhotoVersionKeys(['photo-1'])).toEqual(['a.jpg', 'b.jpg'])
+  })
+
+  it('should skip query for empty input', async () => {
+    expect(await listPhotoVersionKeys([])).toEqual([])
+    expect(mockAdminClient.from).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview PIS Web - 照片版本历史
+ *
+ * @description 精修图不再覆盖原图，而是作为新版本写入 photo_versions；
+ * photos.current_version_id 指向当前生效的版本，photos.original_key 同步为该版本的文件路径，
+ * Worker 始终处理当前版本。
+ * @module lib/photo-versions
+ */
+
+import { createAdminClient } from "@/lib/database"
+import type { Photo, PhotoVersion, PhotoVersionSource } from "@/types/database"
+
+/**
+ * 建立版本历史所需的照片字段
+ */
+export type VersionedPhoto = Pick<
+  Photo,
+  "id" | "album_id" | "original_key" | "file_size" | "mime_type" | "current_version_id"
+> & {
+  hash?: string | null
+}
+
+/**
+ * 新版本的文件信息
+ */
+export interface NewPhotoVersion {
+  source: PhotoVersionSource
+  storageKey: string
+  fileSize?: number | null
+  mimeType?: string | null
+  hash?: string | null
+  createdBy?: string | null
+}
+
+/**
+ * 查询照片的全部版本
+ *
+ * @param photoId - 照片 ID
+ * @returns 按版本号升序排列的版本列表
+ */
+export async function listPhotoVersions(photoId: string): Promise<PhotoVersion[]> {
+  const db = await createAdminClient()
+  const result = await db
+    .from<PhotoVersion>("photo_versions")
+    .select("*")
+    .eq("photo_id", photoId)
+    .order("version_number", { ascending: true })
+
+  if (result.error) {
+    throw result.error
+  }
+
+  return result.data || []
+}
+
+/**
+ * 查询多张照片全部版本的文件路径
+ *
+ * @description 永久删除照片时用于清理历史版本文件（当前版本即 original_key，同样包含在内）
+ *
+ * @param photoIds - 照片 ID 列表
+ * @returns 去重后的文件路径列表
+ */
+export async function listPhotoVersionKeys(photoIds: string[]): Promise<string[]> {
+  if (photoIds.length === 0) {
+    return []
+  }
+
+  const db = await createAdminClient()
+  const result = await db
+    .from<Pick<PhotoVersion, "storage_key">>("photo_versions")
+    .select("storage_key")
+    .in("photo_id", photoIds)
+
+  if (result.error) {
+    throw result.error
+  }
+
+  return [...new Set((result.data || []).map((v) => v.storage_key))]
+}
+
+/**
+ * 确保照片存在原图版本
+ *
+ * @description 历史照片在首次精修前没有版本记录，此时以当前 original_key 补建 v1（原图）
+ * 并设为当前版本，保证之后上传的精修图不会让相机原图失去引用。
+ *
+ * @param photo - 照片记录
+ * @returns 按版本号升序排列的版本列表
+ */
+export async function ensureOriginalVersion(photo: VersionedPhoto): Promise<PhotoVersion[]> {
+  const versions = await listPhotoVersions(photo.id)
+  if (versions.length > 0) {
+    return versions
+  }
+
+  const original = await insertVersion(photo, 1, {
+    source: "original",
+    storageKey: photo.original_key,
+    fileSize: photo.file_size,
+    mimeType: photo.mime_type,
+    hash: photo.hash,
+  })
+
+  const db = await createAdminClient()
+  const updateResult = await db.update("photos", { current_version_id: original.id }, { id: photo.id })
+  if (updateResult.error) {
+    throw updateResult.error
+  }
+
+  return [original]
+}
+
+/**
+ * 为照片追加新版本（不会切换当前版本）
+ *
+ * @param photo - 照片记录
+ * @param version - 新版本的文件信息
+ * @returns 新建的版本记录
+ */
+export async function createPhotoVersion(
+  photo: VersionedPhoto,
+  version: NewPhotoVersion,
+): Promise<PhotoVersion> {
+  const versions = await ensureOriginalVersion(photo)
+  const nextNumber = Math.max(...versions.map((v) => v.version_number)) + 1
+
+  try {
+    return await insertVersion(photo, nextNumber, version)
+  } catch (error) {
+    // 并发上传导致版本号冲突时，重新读取最新版本号后重试一次
+    if (error instanceof Error && error.message.includes("duplicate key")) {
+      const latest = await listPhotoVersions(photo.id)
+      const retryNumber = Math.max(...latest.map((v) => v.version_number)) + 1
+      return insertVersion(photo, retryNumber, version)
+    }
+    throw error
+  }
+}
+
+/**
+ * 写入版本记录
+ * @internal
+ */
+async function insertVersion(
+  photo: VersionedPhoto,
+  versionNumber: number,
+  version: NewPhotoVersion,
+): Promise<PhotoVersion> {
+  const db = await createAdminClient()
+  const result = await db.insert("photo_versions", {
+    photo_id: photo.id,
+    album_id: photo.album_id,
+    version_number: versionNumber,
+    source: version.source,
+    storage_key: version.storageKey,
+    file_size: version.fileSize ?? null,
+    mime_type: version.mimeType ?? null,
+    hash: version.hash ?? null,
+    created_by: version.createdBy ?? null,
+  })
+
+  if (result.error) {
+    throw result.error
+  }
+
+  const created = result.data && result.data.length > 0 ? (result.data[0] as PhotoVersion) : null
+  if (!created) {
+    throw new Error("Failed to create photo version")
+  }
+
+  return created
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview PIS Web - 访客端照片数据
+ *
+ * @description 访客照片列表和实时推送共用的查询字段与返回格式，只暴露前端需要的字段
+ * @module lib/public-photos
+ */
+
+import type { DerivativeSet, Photo } from "@/types/database"
+
+/**
+ * 访客端照片查询字段
+ */
+export const PUBLIC_PHOTO_COLUMNS =
+  "id, thumb_key, preview_key, original_key, raw_key, derivatives, media_type, video_key, duration, filename, width, height, exif, blur_data, captured_at, is_selected, rotation, updated_at"
+
+/**
+ * 访客端照片查询结果
+ */
+export interface PublicPhotoRow {
+  id: string
+  thumb_key: string | null
+  preview_key: string | null
+  original_key: string | null
+  raw_key: string | null
+  derivatives: DerivativeSet | null
+  media_type: "image" | "video" | null
+  video_key: string | null
+  duration: number | null
+  filename: string | null
+  width: number | null
+  height: number | null
+  exif: Record<string, unknown> | null
+  blur_data: string | null
+  captured_at: string | null
+  is_selected: boolean
+  updated_at: string | null
+}
+
+/**
+ * 转换为访客端照片格式
+ *
+ * @description 访客只能看到已完成的照片，未查询的字段填充占位值
+ */
+export function toPublicPhoto(photo: PublicPhotoRow, albumId: string) {
+  return {
+    id: photo.id,
+    thumb_key: photo.thumb_key,
+    preview_key: photo.preview_key,
+    original_key: photo.original_key,
+    raw_key: photo.raw_key,
+    derivatives: photo.derivatives,
+    media_type: photo.media_type ?? "image",
+    video_key: photo.video_key,
+    duration: photo.duration,
+    filename: photo.filename || "",
+    width: photo.width,
+    height: photo.height,
+    exif: photo.exif,
+    blur_data: photo.blur_data,
+    captured_at: photo.captured_at,
+    is_selected: photo.is_selected,
+    album_id: albumId,
+    created_at: "",
+    updated_at: photo.updated_at,
+    status: "completed" as Photo["status"],
+    sort_order: 0,
+    file_size: 0,
+    mime_type: null,
+  }
+}
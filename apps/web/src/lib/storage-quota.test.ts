@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { decideUploadQuota, getQuotaUsage, getTotalStorage, sumStorageUsage } from './storage-quota'
+
+const GB = 1024 * 1024 * 1024
+const settings = { album_quota_gb: 10, user_quota_gb: 50, warning_percent: 80 }
+
+describe('storage-quota', () => {
+  describe('getQuotaUsage', () => {
+    it('should treat 0 as unlimited', () => {
+      expect(getQuotaUsage(100 * GB, 0, 80)).toEqual({ used: 100 * GB, limit: null, percent: null, status: 'ok' })
+    })
+
+    it('should report warning and exceeded states', () => {
+      expect(getQuotaUsage(5 * GB, 10, 80).status).toBe('ok')
+      expect(getQuotaUsage(8 * GB, 10, 80)).toMatchObject({ limit: 10 * GB, percent: 80, status: 'warning' })
+      expect(getQuotaUsage(10 * GB, 10, 80).status).toBe('exceeded')
+    })
+  })
+
+  describe('sumStorageUsage', () => {
+    it('should add usage per category', () => {
+      const total = sumStorageUsage([
+        { originals: 100, thumbs: 1, previews: 10, packages: 50 },
+        { originals: 200, thumbs: 2, previews: 20, packages: 0 },
+      ])
+      expect(total).toEqual({ originals: 300, thumbs: 3, previews: 30, packages: 50 })
+      expect(getTotalStorage(total)).toBe(383)
+    })
+  })
+
+  describe('decideUploadQuota', () => {
+    it('should allow uploads when no quota is configured', () => {
+      expect(
+        decideUploadQuota(100 * GB, 500 * GB, GB, { album_quota_gb: 0, user_quota_gb: 0, warning_percent: 80 })
+      ).toEqual({ allowed: true, message: null, warning: null })
+    })
+
+    it('should reject files that would exceed the album quota', () => {
+      const decision = decideUploadQuota(9.5 * GB, 20 * GB, GB, settings)
+      expect(decision.allowed).toBe(false)
+      expect(decision.message).toContain('相册存储空间不足')
+      expect(decision.message).toContain('9.5 GB / 配额 10 GB')
+    })
+
+    it('should reject uploads of unknown size once the owner quota is used up', () => {
+      const decision = decideUploadQuota(GB, 50 * GB, 0, settings)
+      expect(decision.allowed).toBe(false)
+      expect(decision.message).toContain('相册所有者存储空间不足')
+    })
+
+    it('should ignore the owner quota for albums without an owner', () => {
+      expect(decideUploadQuota(GB, null, GB, settings).allowed).toBe(true)
+    })
+
+    it('should warn when the upload crosses the warning threshold', () => {
+      const decision = decideUploadQuota(7.5 * GB, 20 * GB, GB, settings)
+      expect(decision).toMatchObject({ allowed: true, message: null })
+      expect(decision.warning).toBe('相册存储空间已使用 85%（8.5 GB / 10 GB）')
+    })
+  })
+})
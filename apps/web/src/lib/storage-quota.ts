@@ -0,0 +1,172 @@
+/**
+ * @fileoverview PIS Web - 存储用量分类与配额计算
+ *
+ * @description 纯类型和计算函数，不依赖服务端模块，上传接口、存储用量页面和上传组件共用。
+ * 配额在系统设置中以 GB 为单位保存，0 表示不限制。
+ * @module lib/storage-quota
+ */
+
+import { formatFileSize } from "@/lib/utils"
+import type { StorageSettings } from "@/lib/system-settings-defaults"
+
+/**
+ * 数据库记录的存储分类：原图（含历史版本）/ 缩略图 / 预览图（含视频预览和衍生图）/ 打包下载
+ */
+export type StorageCategory = "originals" | "thumbs" | "previews" | "packages"
+
+export const STORAGE_CATEGORIES: Record<StorageCategory, string> = {
+  originals: "原图",
+  thumbs: "缩略图",
+  previews: "预览图",
+  packages: "打包下载",
+}
+
+/**
+ * 磁盘扫描的分类，额外包含归档文件和无法归入相册的其他文件
+ */
+export type DiskUsageCategory = StorageCategory | "archive" | "other"
+
+export const DISK_USAGE_CATEGORIES: Record<DiskUsageCategory, string> = {
+  ...STORAGE_CATEGORIES,
+  archive: "归档",
+  other: "其他",
+}
+
+/** 各分类占用的字节数 */
+export type StorageUsage = Record<StorageCategory, number>
+
+/**
+ * 单个相册的存储用量（get_storage_usage 的返回项）
+ */
+export interface AlbumStorageUsage extends StorageUsage {
+  album_id: string
+  owner_id: string | null
+  photo_count: number
+}
+
+/**
+ * Worker 磁盘扫描结果（遍历存储桶全部对象）
+ */
+export interface DiskUsageSummary {
+  totalBytes: number
+  totalObjects: number
+  categories: Record<DiskUsageCategory, { bytes: number; count: number }>
+  /** 相册 ID → 该相册下全部文件（含归档）的用量 */
+  albums: Record<string, { bytes: number; count: number }>
+  scannedAt: string
+  durationMs: number
+}
+
+/** 配额状态：正常 / 接近配额 / 已达配额 */
+export type QuotaStatus = "ok" | "warning" | "exceeded"
+
+export interface QuotaUsage {
+  /** 已用字节数 */
+  used: number
+  /** 配额字节数，null 表示不限制 */
+  limit: number | null
+  /** 已用百分比，不限制时为 null */
+  percent: number | null
+  status: QuotaStatus
+}
+
+const BYTES_PER_GB = 1024 * 1024 * 1024
+
+/**
+ * 计算总用量
+ */
+export function getTotalStorage(usage: StorageUsage): number {
+  return usage.originals + usage.thumbs + usage.previews + usage.packages
+}
+
+/**
+ * 合并多个相册的用量
+ */
+export function sumStorageUsage(items: StorageUsage[]): StorageUsage {
+  return items.reduce<StorageUsage>(
+    (sum, item) => ({
+      originals: sum.originals + item.originals,
+      thumbs: sum.thumbs + item.thumbs,
+      previews: sum.previews + item.previews,
+      packages: sum.packages + item.packages,
+    }),
+    { originals: 0, thumbs: 0, previews: 0, packages: 0 },
+  )
+}
+
+/**
+ * 计算配额使用情况
+ *
+ * @param used - 已用字节数
+ * @param quotaGb - 配额（GB），0 表示不限制
+ * @param warningPercent - 达到配额的该百分比时状态为 warning
+ */
+export function getQuotaUsage(used: number, quotaGb: number, warningPercent: number): QuotaUsage {
+  if (!quotaGb || quotaGb <= 0) {
+    return { used, limit: null, percent: null, status: "ok" }
+  }
+
+  const limit = Math.round(quotaGb * BYTES_PER_GB)
+  const percent = (used / limit) * 100
+  const status: QuotaStatus = used >= limit ? "exceeded" : percent >= warningPercent ? "warning" : "ok"
+
+  return { used, limit, percent, status }
+}
+
+/**
+ * 上传前的配额检查结果
+ */
+export interface UploadQuotaDecision {
+  allowed: boolean
+  /** 拒绝原因 */
+  message: string | null
+  /** 接近配额时的提醒 */
+  warning: string | null
+}
+
+/**
+ * 判断新文件能否上传
+ *
+ * @param album - 相册用量
+ * @param owner - 相册所有者的总用量，没有所有者时为 null
+ * @param fileSize - 新文件大小（未知时为 0，只在已达配额时拒绝）
+ * @param settings - 存储配额设置
+ */
+export function decideUploadQuota(
+  album: number,
+  owner: number | null,
+  fileSize: number,
+  settings: StorageSettings,
+): UploadQuotaDecision {
+  const scopes = [
+    { label: "相册", usage: getQuotaUsage(album, settings.album_quota_gb, settings.warning_percent) },
+    ...(owner === null
+      ? []
+      : [{ label: "相册所有者", usage: getQuotaUsage(owner, settings.user_quota_gb, settings.warning_percent) }]),
+  ]
+
+  for (const { label, usage } of scopes) {
+    if (usage.limit !== null && (usage.status === "exceeded" || usage.used + fileSize > usage.limit)) {
+      return {
+        allowed: false,
+        message: `${label}存储空间不足（已用 ${formatFileSize(usage.used)} / 配额 ${formatFileSize(usage.limit)}），请清理照片或联系管理员提高配额`,
+        warning: null,
+      }
+    }
+  }
+
+  // 计入新文件后再判断是否接近配额
+  for (const { label, usage } of scopes) {
+    if (usage.limit === null) continue
+    const after = getQuotaUsage(usage.used + fileSize, usage.limit / BYTES_PER_GB, settings.warning_percent)
+    if (after.status !== "ok") {
+      return {
+        allowed: true,
+        message: null,
+        warning: `${label}存储空间已使用 ${Math.floor(after.percent ?? 0)}%（${formatFileSize(after.used)} / ${formatFileSize(usage.limit)}）`,
+      }
+    }
+  }
+
+  return { allowed: true, message: null, warning: null }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { checkUploadQuota, getStorageReport } from './storage-usage'
+import { DEFAULT_SYSTEM_SETTINGS } from '@/lib/system-settings-defaults'
+
+const { mockDb } = vi.hoisted(() => ({
+  mockDb: {
+    rpc: vi.fn(),
+    from: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockDb),
+}))
+
+vi.mock('@/lib/system-settings', () => ({
+  getSystemSettings: vi.fn(),
+}))
+
+const GB = 1024 * 1024 * 1024
+
+/**
+ * 构造查询链 mock，按表名返回数据
+ */
+function mockTables(tables: Record<string, unknown>) {
+  mockDb.from.mockImplementation((table: string) => {
+    const result = { data: tables[table] ?? null, error: null }
+    const builder: Record<string, unknown> = {}
+    for (const method of ['select', 'eq']) {
+      builder[method] = vi.fn().mockReturnValue(builder)
+    }
+    builder.maybeSingle = vi.fn().mockResolvedValue(result)
+    builder.then = (resolve: (value: unknown) => unknown) => resolve(result)
+    return builder
+  })
+}
+
+async function mockStorageSettings(storage: Partial<typeof DEFAULT_SYSTEM_SETTINGS.storage>) {
+  const { getSystemSettings } = await import('@/lib/system-settings')
+  vi.mocked(getSystemSettings).mockResolvedValue({
+    ...DEFAULT_SYSTEM_SETTINGS,
+    storage: { ...DEFAULT_SYSTEM_SETTINGS.storage, ...storage },
+  })
+}
+
+function usageRow(albumId: string, ownerId: string | null, originals: number) {
+  return { album_id: albumId, owner_id: ownerId, photo_count: 2, originals, thumbs: 0, previews: 0, packages: 0 }
+}
+
+describe('storage-usage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    await mockStorageSettings({})
+  })
+
+  describe('getStorageReport', () => {
+    it('should rank albums and owners by usage and apply quotas', async () => {
+      await mockStorageSettings({ album_quota_gb: 10, user_quota_gb: 20 })
+      mockDb.rpc.mockResolvedValue({
+        data: [
+          usageRow('a1', 'u1', 4 * GB),
+          // SUM 的大数可能以字符串返回
+          { ...usageRow('a2', 'u1', 0), originals: String(9 * GB) },
+          usageRow('a3', null, GB),
+        ],
+        error: null,
+      })
+      mockTables({
+        albums: [
+          { id: 'a1', title: '婚礼', deleted_at: null },
+          { id: 'a2', title: '年会', deleted_at: '2026-05-01T00:00:00Z' },
+          { id: 'a3', title: '样片', deleted_at: null },
+        ],
+        users: [{ id: 'u1', email: 'photographer@example.com' }],
+      })
+
+      const report = await getStorageReport()
+
+      expect(mockDb.rpc).toHaveBeenCalledWith('get_storage_usage', { p_album_ids: null })
+      expect(report.total).toBe(14 * GB)
+      expect(report.photo_count).toBe(6)
+      expect(report.albums.map((album) => [album.title, album.deleted, album.quota.status])).toEqual([
+        ['年会', true, 'warning'],
+        ['婚礼', false, 'ok'],
+        ['样片', false, 'ok'],
+      ])
+      expect(report.owners).toEqual([
+        expect.objectContaining({
+          owner_id: 'u1',
+          email: 'photographer@example.com',
+          album_count: 2,
+          total: 13 * GB,
+          quota: expect.objectContaining({ limit: 20 * GB, status: 'ok' }),
+        }),
+        expect.objectContaining({ owner_id: null, total: GB, quota: expect.objectContaining({ limit: null }) }),
+      ])
+    })
+  })
+
+  describe('checkUploadQuota', () => {
+    it('should skip usage queries when no quota is configured', async () => {
+      await expect(checkUploadQuota('a1', GB)).resolves.toEqual({ allowed: true, message: null, warning: null })
+      expect(mockDb.rpc).not.toHaveBeenCalled()
+    })
+
+    it("should count all of the owner's albums against the user quota", async () => {
+      await mockStorageSettings({ user_quota_gb: 10 })
+      mockTables({
+        albums: [{ id: 'a1' }, { id: 'a2' }],
+      })
+      // maybeSingle 查询相册所有者
+      mockDb.from.mockImplementationOnce(() => ({
+        select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: { owner_id: 'u1' }, error: null }) }) }),
+      }))
+      mockDb.rpc.mockResolvedValue({
+        data: [usageRow('a1', 'u1', GB), usageRow('a2', 'u1', 8.5 * GB)],
+        error: null,
+      })
+
+      const decision = await checkUploadQuota('a1', GB)
+
+      expect(mockDb.rpc).toHaveBeenCalledWith('get_storage_usage', { p_album_ids: ['a1', 'a2'] })
+      expect(decision.allowed).toBe(false)
+      expect(decision.message).toContain('相册所有者存储空间不足')
+    })
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview PIS Web - 存储用量统计与配额检查
+ *
+ * @description 相册用量由数据库记录汇总（get_storage_usage）：原图取照片和历史版本的文件大小，
+ * 缩略图和预览图取 Worker 处理时记录的大小，打包下载取 ZIP 大小。不需要遍历存储桶，
+ * 上传前检查配额也只查数据库。实例整体的磁盘用量由 Worker 遍历存储桶得到（scanDiskUsage）。
+ * @module lib/storage-usage
+ */
+
+import { createAdminClient } from "@/lib/database"
+import { getSystemSettings } from "@/lib/system-settings"
+import { getInternalApiUrl } from "@/lib/utils"
+import {
+  decideUploadQuota,
+  getQuotaUsage,
+  getTotalStorage,
+  sumStorageUsage,
+  type AlbumStorageUsage,
+  type DiskUsageSummary,
+  type QuotaUsage,
+  type StorageUsage,
+  type UploadQuotaDecision,
+} from "@/lib/storage-quota"
+import type { StorageSettings } from "@/lib/system-settings-defaults"
+
+export * from "@/lib/storage-quota"
+
+/**
+ * 存储用量报表中的相册
+ */
+export interface StorageReportAlbum extends AlbumStorageUsage {
+  title: string
+  /** 相册已删除（回收站或过期删除），文件尚未清理 */
+  deleted: boolean
+  total: number
+  quota: QuotaUsage
+}
+
+/**
+ * 存储用量报表中的用户（相册所有者），owner_id 为 null 表示没有所有者的相册
+ */
+export interface StorageReportOwner {
+  owner_id: string | null
+  email: string | null
+  album_count: number
+  usage: StorageUsage
+  total: number
+  quota: QuotaUsage
+}
+
+/**
+ * 存储用量报表（数据库记录）
+ */
+export interface StorageReport {
+  settings: StorageSettings
+  usage: StorageUsage
+  total: number
+  photo_count: number
+  /** 按总用量降序 */
+  albums: StorageReportAlbum[]
+  /** 按总用量降序 */
+  owners: StorageReportOwner[]
+}
+
+/**
+ * 查询相册存储用量
+ *
+ * @param albumIds - 相册 ID 列表，null 表示全部相册（包括已删除但文件尚未清理的相册）
+ */
+export async function getAlbumStorageUsage(albumIds: string[] | null): Promise<AlbumStorageUsage[]> {
+  if (albumIds && albumIds.length === 0) {
+    return []
+  }
+
+  const db = await createAdminClient()
+  const result = await db.rpc("get_storage_usage", { p_album_ids: albumIds })
+  if (result.error) {
+    throw result.error
+  }
+
+  // SUM 结果在 JSONB 中可能是字符串形式的大数
+  return ((result.data as AlbumStorageUsage[] | null) || []).map((row) => ({
+    album_id: row.album_id,
+    owner_id: row.owner_id,
+    photo_count: Number(row.photo_count) || 0,
+    originals: Number(row.originals) || 0,
+    thumbs: Number(row.thumbs) || 0,
+    previews: Number(row.previews) || 0,
+    packages: Number(row.packages) || 0,
+  }))
+}
+
+/**
+ * 生成全部相册和用户的存储用量报表
+ */
+export async function getStorageReport(): Promise<StorageReport> {
+  const [{ storage }, usage, db] = await Promise.all([
+    getSystemSettings(),
+    getAlbumStorageUsage(null),
+    createAdminClient(),
+  ])
+
+  const [albumsResult, usersResult] = await Promise.all([
+    db
+      .from<{ id: string; title: string; deleted_at: string | null }>("albums")
+      .select("id, title, deleted_at"),
+    db.from<{ id: string; email: string }>("users").select("id, email"),
+  ])
+  if (albumsResult.error) {
+    throw albumsResult.error
+  }
+  if (usersResult.error) {
+    throw usersResult.error
+  }
+
+  const albumInfo = new Map((albumsResult.data || []).map((album) => [album.id, album]))
+  const emails = new Map((usersResult.data || []).map((user) => [user.id, user.email]))
+
+  const albums: StorageReportAlbum[] = usage
+    .map((row) => {
+      const total = getTotalStorage(row)
+      const info = albumInfo.get(row.album_id)
+      return {
+        ...row,
+        title: info?.title ?? row.album_id,
+        deleted: !!info?.deleted_at,
+        total,
+        quota: getQuotaUsage(total, storage.album_quota_gb, storage.warning_percent),
+      }
+    })
+    .sort((a, b) => b.total - a.total)
+
+  const byOwner = new Map<string | null, AlbumStorageUsage[]>()
+  for (const row of usage) {
+    byOwner.set(row.owner_id, [...(byOwner.get(row.owner_id) || []), row])
+  }
+
+  const owners: StorageReportOwner[] = [...byOwner.entries()]
+    .map(([ownerId, rows]) => {
+      const ownerUsage = sumStorageUsage(rows)
+      const total = getTotalStorage(ownerUsage)
+      return {
+        owner_id: ownerId,
+        email: ownerId ? emails.get(ownerId) ?? null : null,
+        album_count: rows.length,
+        usage: ownerUsage,
+        total,
+        // 没有所有者的相册不受用户配额限制
+        quota: getQuotaUsage(total, ownerId ? storage.user_quota_gb : 0, storage.warning_percent),
+      }
+    })
+    .sort((a, b) => b.total - a.total)
+
+  const totalUsage = sumStorageUsage(usage)
+  return {
+    settings: storage,
+    usage: totalUsage,
+    total: getTotalStorage(totalUsage),
+    photo_count: usage.reduce((sum, row) => sum + row.photo_count, 0),
+    albums,
+    owners,
+  }
+}
+
+/**
+ * 上传前检查存储配额（相册配额和相册所有者名下全部相册的配额）
+ *
+ * @param albumId - 上传目标相册
+ * @param fileSize - 新文件大小（字节），未知时传 0
+ */
+export async function checkUploadQuota(albumId: string, fileSize: number): Promise<UploadQuotaDecision> {
+  const { storage } = await getSystemSettings()
+  if (storage.album_quota_gb <= 0 && storage.user_quota_gb <= 0) {
+    return { allowed: true, message: null, warning: null }
+  }
+
+  const db = await createAdminClient()
+  const albumResult = await db
+    .from<{ owner_id: string | null }>("albums")
+    .select("owner_id")
+    .eq("id", albumId)
+    .maybeSingle()
+  if (albumResult.error) {
+    throw albumResult.error
+  }
+
+  const ownerId = storage.user_quota_gb > 0 ? albumResult.data?.owner_id ?? null : null
+  let albumIds = [albumId]
+  if (ownerId) {
+    const ownedResult = await db.from<{ id: string }>("albums").select("id").eq("owner_id", ownerId)
+    if (ownedResult.error) {
+      throw ownedResult.error
+    }
+    albumIds = [...new Set([albumId, ...(ownedResult.data || []).map((album) => album.id)])]
+  }
+
+  const usage = await getAlbumStorageUsage(albumIds)
+  const albumUsage = usage.find((row) => row.album_id === albumId)
+  const ownerTotal = usage.reduce((sum, row) => sum + getTotalStorage(row), 0)
+
+  return decideUploadQuota(
+    albumUsage ? getTotalStorage(albumUsage) : 0,
+    ownerId ? ownerTotal : null,
+    fileSize,
+    storage,
+  )
+}
+
+/**
+ * 请求 Worker 遍历存储桶，统计实例整体的磁盘用量
+ *
+ * @param cookieHeader - 当前请求的 cookie，通过 Worker 代理路由认证
+ * @throws Worker 不可用或扫描失败时抛出异常
+ */
+export async function scanDiskUsage(cookieHeader: string | null): Promise<DiskUsageSummary> {
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+  }
+  if (cookieHeader) {
+    headers["cookie"] = cookieHeader
+  }
+
+  const response = await fetch(getInternalApiUrl("/api/worker/storage/usage"), {
+    method: "POST",
+    headers,
+    body: JSON.stringify({}),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data?.error?.message || data?.error || "Worker 存储扫描失败")
+  }
+
+  return data as DiskUsageSummary
+}
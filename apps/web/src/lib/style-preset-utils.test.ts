@@ -4,6 +4,7 @@ import {
   getPresetsByCategory,
   getAllPresets, 
   getPresetById,
+  getStylePresetPreviewUrl,
   type StylePreset,
   type StylePresetConfig 
 } from './style-preset-utils';
@@ -97,4 +98,21 @@ describe('style-preset-utils', () => {
       expect(Array.isArray(presets)).toBe(true);
     });
   });
+
+  describe('getStylePresetPreviewUrl', () => {
+    it('should use "none" for the original image', () => {
+      expect(getStylePresetPreviewUrl(null)).toBe('/api/admin/style-presets/preview?preset=none');
+    });
+
+    it('should include album and version when provided', () => {
+      const url = getStylePresetPreviewUrl('3b1f3c9e-0000-4000-8000-000000000001', {
+        albumId: 'album-1',
+        version: '2026-01-01T00:00:00Z',
+      });
+      const params = new URL(url, 'http://localhost').searchParams;
+      expect(params.get('preset')).toBe('3b1f3c9e-0000-4000-8000-000000000001');
+      expect(params.get('albumId')).toBe('album-1');
+      expect(params.get('v')).toBe('2026-01-01T00:00:00Z');
+    });
+  });
 });
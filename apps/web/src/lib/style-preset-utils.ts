@@ -11,6 +11,23 @@ export interface StylePresetConfig {
   sepia?: number
 }
 
+/**
+ * 自定义风格预设的调色参数（与 Worker 的 StylePresetConfig 一致，由 Worker 处理照片时应用）
+ */
+export interface CustomStylePresetConfig {
+  brightness?: number // 0 - 2，默认 1
+  contrast?: number // -1 - 1，默认 0
+  saturation?: number // 0 - 2，默认 1
+  gamma?: number // 0.1 - 3，默认 1
+  hue?: number // 色相旋转角度
+  whiteBalance?: { temperature?: number; tint?: number } // -100 - 100
+  vibrance?: number // -100 - 100
+  vignette?: number // -100 - 100，负数压暗四角
+  grain?: number // 0 - 100
+  curves?: { rgb?: [number, number][]; r?: [number, number][]; g?: [number, number][]; b?: [number, number][] }
+  lutStrength?: number // 0 - 100，默认 100
+}
+
 export interface StylePreset {
   id: string
   name: string
@@ -163,6 +180,23 @@ export const STYLE_PRESETS: Record<string, StylePreset> = {
   }
 }
 
+/**
+ * 获取预设预览图地址（由 Worker 按真实处理管线渲染）
+ *
+ * @param presetId - 预设 ID，null 或 "none" 表示原图
+ * @param options.albumId - 使用该相册的封面作为底图，未指定时使用示例图
+ * @param options.version - 预设版本（自定义预设的 updatedAt），修改后刷新浏览器缓存
+ */
+export function getStylePresetPreviewUrl(
+  presetId: string | null,
+  options: { albumId?: string; version?: string } = {}
+): string {
+  const params = new URLSearchParams({ preset: presetId || 'none' })
+  if (options.albumId) params.set('albumId', options.albumId)
+  if (options.version) params.set('v', options.version)
+  return `/api/admin/style-presets/preview?${params.toString()}`
+}
+
 /**
  * 根据预设 ID 获取 CSS 滤镜字符串
  */
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview PIS Web - 系统设置定义与默认值
+ *
+ * @description 纯类型和常量，不依赖服务端模块，服务端读取（system-settings）、设置表单和访客端组件共用。
+ * 数据库中没有写入的设置项使用这里的默认值，品牌相关默认值沿用旧的 `NEXT_PUBLIC_*` 环境变量，
+ * 已有部署升级后无需重新配置。
+ * @module lib/system-settings-defaults
+ */
+
+import type { SystemSettingCategory } from "@/types/database"
+
+/**
+ * 品牌设置（字符串为空表示未设置，由页面使用各自的回退值）
+ */
+export interface BrandingSettings {
+  /** 摄影师/工作室名称 */
+  studio_name: string
+  /** 品牌标语 */
+  tagline: string
+  /** Logo 地址 */
+  logo_url: string
+  /** Favicon 地址 */
+  favicon_url: string
+  /** 页脚版权文字，为空时使用工作室名称 */
+  copyright_text: string
+  /** ICP 备案号 */
+  icp_number: string
+  /** 公安备案号 */
+  police_number: string
+}
+
+/**
+ * 新建相册的默认选项（创建时未指定的字段使用这些值）
+ */
+export interface AlbumDefaultSettings {
+  is_public: boolean
+  layout: "masonry" | "grid" | "carousel"
+  sort_rule: "capture_desc" | "capture_asc" | "manual"
+  allow_download: boolean
+  allow_batch_download: boolean
+  show_exif: boolean
+  watermark_enabled: boolean
+}
+
+/**
+ * 功能开关
+ */
+export interface FeatureSettings {
+  /** 首页展示公开相册 */
+  home_gallery: boolean
+  /** 访客人脸搜索（找自己） */
+  face_search: boolean
+  /** 记录访问统计 */
+  analytics: boolean
+  /** 访客下载和打包交付的照片中嵌入不可见指纹，用于泄露溯源（默认关闭：开启后原图会重新编码） */
+  download_fingerprint: boolean
+}
+
+/**
+ * 存储配额（GB，0 表示不限制），超出后上传接口拒绝新的上传
+ */
+export interface StorageSettings {
+  /** 单个相册的存储配额 */
+  album_quota_gb: number
+  /** 每个用户（相册所有者）名下全部相册的存储配额 */
+  user_quota_gb: number
+  /** 用量达到配额的百分比时开始提醒 */
+  warning_percent: number
+}
+
+/**
+ * 全部系统设置
+ */
+export interface SystemSettings {
+  branding: BrandingSettings
+  album_defaults: AlbumDefaultSettings
+  features: FeatureSettings
+  storage: StorageSettings
+}
+
+/**
+ * 访客端可见的设置（相册默认选项仅管理端使用）
+ */
+export type PublicSettings = Pick<SystemSettings, "branding" | "features">
+
+/**
+ * 默认设置
+ */
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  branding: {
+    studio_name: process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || "PIS Photography",
+    tagline: process.env.NEXT_PUBLIC_PHOTOGRAPHER_TAGLINE || "",
+    logo_url: process.env.NEXT_PUBLIC_LOGO_URL || "",
+    favicon_url: "",
+    copyright_text: process.env.NEXT_PUBLIC_COPYRIGHT_TEXT || "",
+    icp_number: process.env.NEXT_PUBLIC_ICP_NUMBER || "",
+    police_number: process.env.NEXT_PUBLIC_POLICE_NUMBER || "",
+  },
+  album_defaults: {
+    is_public: false,
+    layout: "masonry",
+    sort_rule: "capture_desc",
+    allow_download: true,
+    allow_batch_download: false,
+    show_exif: true,
+    watermark_enabled: false,
+  },
+  features: {
+    home_gallery: true,
+    face_search: true,
+    analytics: true,
+    download_fingerprint: false,
+  },
+  storage: {
+    album_quota_gb: 0,
+    user_quota_gb: 0,
+    warning_percent: 80,
+  },
+}
+
+/**
+ * 设置分类显示名称
+ */
+export const SYSTEM_SETTING_CATEGORIES: Record<SystemSettingCategory, string> = {
+  branding: "品牌",
+  album_defaults: "相册默认选项",
+  features: "功能开关",
+  storage: "存储配额",
+}
+
+/**
+ * 设置项在 system_settings 表中的键名，如 `branding.studio_name`
+ */
+export function getSystemSettingKey(category: SystemSettingCategory, field: string): string {
+  return `${category}.${field}`
+}
+
+/**
+ * 将 system_settings 表中的记录合并到默认设置上
+ *
+ * @description 未知的键和类型不符的值会被忽略，避免手动改库或旧版本数据导致页面出错
+ */
+export function mergeSystemSettings(rows: Array<{ key: string; value: unknown }>): SystemSettings {
+  const settings: SystemSettings = {
+    branding: { ...DEFAULT_SYSTEM_SETTINGS.branding },
+    album_defaults: { ...DEFAULT_SYSTEM_SETTINGS.album_defaults },
+    features: { ...DEFAULT_SYSTEM_SETTINGS.features },
+    storage: { ...DEFAULT_SYSTEM_SETTINGS.storage },
+  }
+
+  for (const row of rows) {
+    const [category, field] = row.key.split(".", 2)
+    if (!(category in settings) || !field) continue
+
+    const group = settings[category as SystemSettingCategory] as unknown as Record<string, unknown>
+    if (!(field in group) || typeof group[field] !== typeof row.value) continue
+
+    group[field] = row.value
+  }
+
+  return settings
+}
+
+/**
+ * 取出访客端可见的设置
+ */
+export function toPublicSettings(settings: SystemSettings): PublicSettings {
+  return {
+    branding: settings.branding,
+    features: settings.features,
+  }
+}
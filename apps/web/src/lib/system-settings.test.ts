@@ -0,0 +1,128 @@
+/** @vitest-environment node */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  DEFAULT_SYSTEM_SETTINGS,
+  mergeSystemSettings,
+  flattenSystemSettings,
+  getSystemSettings,
+  updateSystemSettings,
+  toPublicSettings,
+  SYSTEM_SETTINGS_CACHE_TAG,
+} from './system-settings'
+
+const { mockAdminClient, mockSelect } = vi.hoisted(() => {
+  const mockSelect = vi.fn()
+  return {
+    mockSelect,
+    mockAdminClient: {
+      from: vi.fn(() => ({ select: mockSelect })),
+      upsert: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/database', () => ({
+  createAdminClient: vi.fn().mockResolvedValue(mockAdminClient),
+}))
+
+vi.mock('next/cache', () => ({
+  // 测试环境没有 Next.js 数据缓存，直接调用读取函数
+  unstable_cache: (fn: () => Promise<unknown>) => fn,
+  revalidateTag: vi.fn(),
+  revalidatePath: vi.fn(),
+}))
+
+describe('mergeSystemSettings', () => {
+  it('should overlay stored values on defaults', () => {
+    const settings = mergeSystemSettings([
+      { key: 'branding.studio_name', value: '光影工作室' },
+      { key: 'features.face_search', value: false },
+      { key: 'album_defaults.layout', value: 'grid' },
+    ])
+
+    expect(settings.branding.studio_name).toBe('光影工作室')
+    expect(settings.features.face_search).toBe(false)
+    expect(settings.album_defaults.layout).toBe('grid')
+    expect(settings.album_defaults.show_exif).toBe(DEFAULT_SYSTEM_SETTINGS.album_defaults.show_exif)
+  })
+
+  it('should ignore unknown keys and mismatched types', () => {
+    const settings = mergeSystemSettings([
+      { key: 'branding.unknown', value: 'x' },
+      { key: 'features.analytics', value: 'no' },
+      { key: 'legacy', value: true },
+    ])
+
+    expect(settings).toEqual(DEFAULT_SYSTEM_SETTINGS)
+    expect(settings.branding).not.toBe(DEFAULT_SYSTEM_SETTINGS.branding)
+  })
+})
+
+describe('flattenSystemSettings', () => {
+  it('should use category-prefixed keys and skip undefined fields', () => {
+    expect(
+      flattenSystemSettings({
+        branding: { icp_number: '京ICP备12345678号', tagline: undefined },
+        features: { home_gallery: false },
+      })
+    ).toEqual({
+      'branding.icp_number': '京ICP备12345678号',
+      'features.home_gallery': false,
+    })
+  })
+})
+
+describe('toPublicSettings', () => {
+  it('should not expose album defaults', () => {
+    expect(toPublicSettings(DEFAULT_SYSTEM_SETTINGS)).not.toHaveProperty('album_defaults')
+  })
+})
+
+describe('getSystemSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should fall back to defaults when the database is unavailable', async () => {
+    mockSelect.mockResolvedValue({ data: null, error: new Error('relation "system_settings" does not exist') })
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(getSystemSettings()).resolves.toEqual(DEFAULT_SYSTEM_SETTINGS)
+    consoleError.mockRestore()
+  })
+})
+
+describe('updateSystemSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAdminClient.upsert.mockResolvedValue({ data: [], error: null })
+    mockSelect.mockResolvedValue({ data: [{ key: 'branding.studio_name', value: '光影工作室' }], error: null })
+  })
+
+  it('should upsert json values and invalidate the cache', async () => {
+    const settings = await updateSystemSettings(
+      { branding: { studio_name: '光影工作室' }, features: { analytics: false } },
+      'admin-1'
+    )
+
+    expect(mockAdminClient.upsert).toHaveBeenCalledWith(
+      'system_settings',
+      [
+        { key: 'branding.studio_name', category: 'branding', value: '"光影工作室"', updated_by: 'admin-1' },
+        { key: 'features.analytics', category: 'features', value: 'false', updated_by: 'admin-1' },
+      ],
+      'key'
+    )
+    const { revalidateTag } = await import('next/cache')
+    expect(revalidateTag).toHaveBeenCalledWith(SYSTEM_SETTINGS_CACHE_TAG)
+    expect(settings.branding.studio_name).toBe('光影工作室')
+  })
+
+  it('should throw when the write fails', async () => {
+    mockAdminClient.upsert.mockResolvedValue({ data: null, error: new Error('db down') })
+
+    await expect(updateSystemSettings({ features: { analytics: false } }, 'admin-1')).rejects.toThrow('db down')
+    const { revalidateTag } = await import('next/cache')
+    expect(revalidateTag).not.toHaveBeenCalled()
+  })
+})
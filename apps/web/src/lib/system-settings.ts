@@ -0,0 +1,129 @@
+/**
+ * @fileoverview PIS Web - 系统设置
+ *
+ * @description 品牌、相册默认选项和功能开关保存在 system_settings 表中，管理员在后台修改后即时生效，
+ * 不需要编辑 .env 或重新部署。读取结果通过 Next.js 数据缓存共享，修改后按缓存标签失效；
+ * 数据库不可用时回退到默认设置，不影响页面渲染。
+ * @module lib/system-settings
+ */
+
+import { revalidatePath, revalidateTag, unstable_cache } from "next/cache"
+import { createAdminClient } from "@/lib/database"
+import {
+  getSystemSettingKey,
+  mergeSystemSettings,
+  toPublicSettings,
+  type PublicSettings,
+  type SystemSettings,
+} from "@/lib/system-settings-defaults"
+import type { SystemSetting, SystemSettingCategory, SystemSettingInsert } from "@/types/database"
+
+export * from "@/lib/system-settings-defaults"
+
+/** 系统设置缓存标签 */
+export const SYSTEM_SETTINGS_CACHE_TAG = "system-settings"
+
+/** 缓存兜底时间（秒），多实例部署时其他实例最迟在这个时间后读到新设置 */
+const SYSTEM_SETTINGS_REVALIDATE_SECONDS = 300
+
+/**
+ * 系统设置更新内容：按分类提交需要修改的字段
+ */
+export type SystemSettingsUpdate = {
+  [C in SystemSettingCategory]?: Partial<SystemSettings[C]>
+}
+
+/**
+ * 从数据库读取系统设置（不走缓存）
+ * @internal
+ */
+async function loadSystemSettings(): Promise<SystemSettings> {
+  const db = await createAdminClient()
+  const result = await db
+    .from<Pick<SystemSetting, "key" | "value">>("system_settings")
+    .select("key, value")
+
+  if (result.error) {
+    throw result.error
+  }
+
+  return mergeSystemSettings(result.data || [])
+}
+
+const getCachedSystemSettings = unstable_cache(loadSystemSettings, ["system-settings"], {
+  tags: [SYSTEM_SETTINGS_CACHE_TAG],
+  revalidate: SYSTEM_SETTINGS_REVALIDATE_SECONDS,
+})
+
+/**
+ * 获取系统设置
+ *
+ * @description 读取失败时返回默认设置（不缓存失败结果），不会抛出异常
+ */
+export async function getSystemSettings(): Promise<SystemSettings> {
+  try {
+    return await getCachedSystemSettings()
+  } catch (error) {
+    console.error("[Settings] Failed to load system settings:", error)
+    return mergeSystemSettings([])
+  }
+}
+
+/**
+ * 获取访客端可见的设置
+ */
+export async function getPublicSettings(): Promise<PublicSettings> {
+  return toPublicSettings(await getSystemSettings())
+}
+
+/**
+ * 将系统设置展开为 `分类.字段` → 值，用于写库和审计差异
+ */
+export function flattenSystemSettings(settings: SystemSettingsUpdate): Record<string, unknown> {
+  const flat: Record<string, unknown> = {}
+
+  for (const [category, fields] of Object.entries(settings)) {
+    if (!fields) continue
+    for (const [field, value] of Object.entries(fields)) {
+      if (value === undefined) continue
+      flat[getSystemSettingKey(category as SystemSettingCategory, field)] = value
+    }
+  }
+
+  return flat
+}
+
+/**
+ * 更新系统设置并使缓存失效
+ *
+ * @param update - 需要修改的字段（未提交的字段保持不变）
+ * @param updatedBy - 操作者 ID
+ * @returns 更新后的全部设置
+ * @throws 写库失败时抛出数据库错误
+ */
+export async function updateSystemSettings(
+  update: SystemSettingsUpdate,
+  updatedBy: string,
+): Promise<SystemSettings> {
+  const rows: SystemSettingInsert[] = Object.entries(flattenSystemSettings(update)).map(([key, value]) => ({
+    key,
+    category: key.split(".")[0] as SystemSettingCategory,
+    // JSONB 参数需要传入 JSON 文本，否则字符串值会被当作非法 JSON
+    value: JSON.stringify(value),
+    updated_by: updatedBy,
+  }))
+
+  if (rows.length > 0) {
+    const db = await createAdminClient()
+    const result = await db.upsert("system_settings", rows, "key")
+    if (result.error) {
+      throw result.error
+    }
+
+    revalidateTag(SYSTEM_SETTINGS_CACHE_TAG)
+    // 品牌信息出现在根布局（页脚、favicon）中，已生成的页面一并失效
+    revalidatePath("/", "layout")
+  }
+
+  return loadSystemSettings()
+}
@@ -62,6 +62,10 @@ describe("utils", () => {
       expect(formatFileSize(1024 * 1024 * 1024)).toBe("1 GB");
     });
 
+    it("should format terabytes", () => {
+      expect(formatFileSize(1.5 * 1024 ** 4)).toBe("1.5 TB");
+    });
+
     it("should handle decimal values", () => {
       expect(formatFileSize(1536)).toBe("1.5 KB");
     });
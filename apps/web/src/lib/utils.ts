@@ -37,7 +37,7 @@ export function cn(...inputs: ClassValue[]) {
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 B'
   const k = 1024
-  const sizes = ['B', 'KB', 'MB', 'GB']
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
   const i = Math.floor(Math.log(bytes) / Math.log(k))
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
 }
@@ -242,6 +242,16 @@ export function getAlbumShareUrl(slug: string): string {
   return `${getAppBaseUrl()}/album/${encodedSlug}`
 }
 
+/**
+ * 生成分享链接入口 URL
+ *
+ * @param {string} token 分享链接令牌（由 generateShareLinkToken 生成）
+ * @returns {string} 完整的分享链接，访客打开后获得链接对应的权限
+ */
+export function getShareLinkUrl(token: string): string {
+  return `${getAppBaseUrl()}/s/${token}`
+}
+
 /**
  * 生成唯一的相册 slug
  *
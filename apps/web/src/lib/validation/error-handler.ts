@@ -66,6 +66,9 @@ export enum ErrorCode {
   INVALID_FILE_TYPE = "INVALID_FILE_TYPE",
   STORAGE_ERROR = "STORAGE_ERROR",
   PROCESSING_ERROR = "PROCESSING_ERROR",
+  GUEST_SESSION_REQUIRED = "GUEST_SESSION_REQUIRED",
+  SELECTION_SUBMITTED = "SELECTION_SUBMITTED",
+  SELECTION_LIMIT_REACHED = "SELECTION_LIMIT_REACHED",
 }
 
 // ============================================
@@ -31,6 +31,7 @@
  * ```
  */
 import { z } from "zod";
+import { ALLOWED_UPLOAD_MIME_TYPES, getMaxFileSize } from "@/lib/media-types";
 
 // ============================================
 // 通用验证规则
@@ -85,6 +86,49 @@ export const setupPasswordSchema = z.object({
   password: passwordSchema,
 });
 
+// ============================================
+// 两步验证相关
+// ============================================
+
+/** 验证器生成的 6 位验证码 */
+export const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "请输入 6 位验证码");
+
+/** 验证码或恢复码 */
+const twoFactorCodeOrRecoverySchema = z
+  .string()
+  .trim()
+  .min(1, "请输入验证码或恢复码")
+  .max(32, "验证码格式错误");
+
+/** 密码验证通过后签发的挑战令牌 */
+const twoFactorChallengeSchema = z.string().min(1, "登录已过期，请重新登录");
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: twoFactorChallengeSchema,
+  code: twoFactorCodeOrRecoverySchema,
+});
+
+export const twoFactorSetupSchema = z.object({
+  challengeToken: twoFactorChallengeSchema.optional(),
+});
+
+export const twoFactorEnableSchema = z.object({
+  code: totpCodeSchema,
+  challengeToken: twoFactorChallengeSchema.optional(),
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, "请输入当前密码"),
+  code: twoFactorCodeOrRecoverySchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
 // ============================================
 // 用户管理相关
 // ============================================
@@ -93,6 +137,11 @@ export const userIdSchema = z.object({
   id: uuidSchema,
 });
 
+export const userSessionParamsSchema = z.object({
+  id: uuidSchema,
+  sessionId: uuidSchema,
+});
+
 export const userRoleSchema = z.enum(
   ["admin", "photographer", "retoucher", "guest"],
   {
@@ -140,22 +189,100 @@ export const userListQuerySchema = z.object({
   search: z.string().optional(), // 邮箱搜索
 });
 
+// ============================================
+// 客户管理相关
+// ============================================
+
+export const clientIdSchema = z.object({
+  id: uuidSchema,
+});
+
+/** 通知邮件语言 */
+export const notificationLocaleSchema = z.enum(["zh-CN", "en"], {
+  errorMap: () => ({ message: "通知语言只能是 zh-CN 或 en" }),
+});
+
+/** 客户标签：去除首尾空格，忽略空标签并去重 */
+const clientTagsSchema = z
+  .array(z.string().trim().max(32, "标签最多 32 个字符"))
+  .max(20, "最多 20 个标签")
+  .transform((tags) => Array.from(new Set(tags.filter(Boolean))));
+
+export const createClientSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "客户名称不能为空")
+    .max(100, "客户名称最多 100 个字符"),
+  phone: z.string().trim().max(50, "电话最多 50 个字符").optional().or(z.null()),
+  email: z
+    .string()
+    .trim()
+    .email("无效的邮箱格式")
+    .or(z.literal(""))
+    .optional()
+    .or(z.null()),
+  notes: z.string().max(2000, "备注最多 2000 个字符").optional().or(z.null()),
+  tags: clientTagsSchema.optional(),
+  locale: notificationLocaleSchema.optional(), // 通知邮件语言
+});
+
+export const updateClientSchema = createClientSchema.partial();
+
+export const clientListQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const num = parseInt(val || "1", 10);
+      return Math.max(1, isNaN(num) ? 1 : num);
+    }),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const num = parseInt(val || "50", 10);
+      return Math.max(1, Math.min(100, isNaN(num) ? 50 : num));
+    }),
+  search: z.string().trim().max(100).optional(), // 姓名、电话或邮箱
+  tag: z.string().trim().max(32).optional(),
+});
+
 // ============================================
 // 相册相关
 // ============================================
 
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "颜色格式应为 #RRGGBB");
+
 const watermarkItemSchema = z
   .object({
+    id: z.string().max(100).optional(),
     type: z.enum(["text", "logo"], {
       errorMap: () => ({ message: "水印类型必须是 text 或 logo" }),
     }),
-    text: z.string().optional(),
+    // 文字支持 {date}、{camera} 等 EXIF 变量，由 Worker 按每张照片替换
+    text: z.string().max(200, "水印文字最多 200 个字符").optional(),
     logoUrl: z.string().optional(),
     opacity: z
       .number()
       .min(0, "透明度必须在 0-1 之间")
       .max(1, "透明度必须在 0-1 之间")
       .optional(),
+    position: z.string().max(32).optional(),
+    size: z.number().int().min(1).max(1000).optional(),
+    margin: z.number().min(0).max(20).optional(),
+    enabled: z.boolean().optional(),
+    // 平铺模式（斜向铺满整张图片）
+    mode: z.enum(["single", "tiled"]).optional(),
+    angle: z.number().min(-90, "角度必须在 -90 到 90 之间").max(90, "角度必须在 -90 到 90 之间").optional(),
+    density: z.number().int().min(1, "密度必须在 1-12 之间").max(12, "密度必须在 1-12 之间").optional(),
+    spacing: z.number().min(10, "间距必须在 10-300 之间").max(300, "间距必须在 10-300 之间").optional(),
+    // 文字样式
+    fontFamily: z.enum(["sans", "serif", "inter", "playfair"]).optional(),
+    color: hexColorSchema.optional(),
+    strokeColor: hexColorSchema.optional(),
+    strokeWidth: z.number().min(0).max(20).optional(),
+    shadow: z.boolean().optional(),
   })
   .superRefine((data, ctx) => {
     if (data.type === "text") {
@@ -186,6 +313,13 @@ const watermarkConfigSchema = z.object(
   { invalid_type_error: "水印配置格式错误" },
 );
 
+/**
+ * 水印预览请求
+ */
+export const watermarkPreviewSchema = z.object({
+  watermarks: z.array(watermarkItemSchema).max(6, "最多支持6个水印"),
+});
+
 export const createAlbumSchema = z
   .object({
     title: z.string().min(1, "标题不能为空").max(200, "标题最多 200 个字符"),
@@ -197,6 +331,7 @@ export const createAlbumSchema = z
     slug: slugSchema.optional(),
     event_date: z.string().datetime().optional().or(z.null()),
     location: z.string().max(200).optional().or(z.null()),
+    client_id: uuidSchema.optional().or(z.null()), // 所属客户
     poster_image_url: z
       .string()
       .url("海报图片URL格式无效")
@@ -321,6 +456,16 @@ export const updateAlbumSchema = z
     poster_image_url: z.string().url().optional().or(z.null()),
     event_date: z.string().datetime().optional().or(z.null()),
     location: z.string().max(200).optional().or(z.null()),
+    max_selection: z
+      .number()
+      .int("最多可选数量必须是整数")
+      .min(1, "最多可选数量至少为 1")
+      .max(10000, "最多可选数量不能超过 10000")
+      .optional()
+      .or(z.null()), // 每位访客最多可选照片数（null 表示不限制）
+    owner_id: uuidSchema.optional().or(z.null()), // 转移所有权（仅管理员）
+    client_id: uuidSchema.optional().or(z.null()), // 所属客户，null 表示解除关联
+    notify_client: z.boolean().optional(), // 向客户发送邮件通知
   })
   .superRefine((data, ctx) => {
     // 验证 URL 不能是内网地址（SSRF 防护）
@@ -382,6 +527,53 @@ export const albumSlugSchema = z.object({
   slug: slugSchema,
 });
 
+// ============================================
+// 相册协作者相关
+// ============================================
+
+export const albumCollaboratorRoleSchema = z.enum(["viewer", "editor"], {
+  errorMap: () => ({ message: "协作角色必须是 viewer 或 editor" }),
+});
+
+export const albumCollaboratorParamsSchema = z.object({
+  id: uuidSchema,
+  userId: uuidSchema,
+});
+
+export const addAlbumCollaboratorSchema = z.object({
+  email: emailSchema,
+  role: albumCollaboratorRoleSchema.optional().default("viewer"),
+});
+
+export const updateAlbumCollaboratorSchema = z.object({
+  role: albumCollaboratorRoleSchema,
+});
+
+// ============================================
+// 相册分享链接相关
+// ============================================
+
+export const shareLinkPermissionSchema = z.enum(["view", "download", "select"], {
+  errorMap: () => ({ message: "链接权限必须是 view、download 或 select" }),
+});
+
+export const albumShareLinkParamsSchema = z.object({
+  id: uuidSchema,
+  linkId: uuidSchema,
+});
+
+export const createAlbumShareLinkSchema = z.object({
+  label: z.string().trim().max(100, "备注最多100个字符").optional().or(z.null()),
+  permission: shareLinkPermissionSchema.optional().default("view"),
+  expiresAt: z
+    .string()
+    .datetime({ offset: true, message: "无效的过期时间" })
+    .refine((value) => new Date(value) > new Date(), "过期时间必须晚于当前时间")
+    .optional()
+    .or(z.null()),
+  maxUses: z.number().int().min(1, "使用次数至少为1").max(100000, "使用次数过大").optional().or(z.null()),
+});
+
 // ============================================
 // 照片相关
 // ============================================
@@ -399,16 +591,8 @@ export const uploadPhotoSchema = z
   })
   .refine(
     (data) => {
-      // 验证文件类型
-      const allowedTypes = [
-        "image/jpeg",
-        "image/png",
-        "image/heic",
-        "image/webp",
-        "image/gif",
-        "image/tiff",
-      ];
-      return allowedTypes.includes(data.contentType);
+      // 验证文件类型（图片或视频短片）
+      return ALLOWED_UPLOAD_MIME_TYPES.includes(data.contentType);
     },
     {
       message: "不支持的文件类型",
@@ -419,13 +603,12 @@ export const uploadPhotoSchema = z
     (data) => {
       // 验证文件大小（如果提供）
       if (data.fileSize !== undefined) {
-        const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
-        return data.fileSize <= MAX_FILE_SIZE;
+        return data.fileSize <= getMaxFileSize(data.contentType);
       }
       return true;
     },
     {
-      message: "文件大小超过限制（最大100MB）",
+      message: "文件大小超过限制（图片最大100MB，视频最大500MB）",
       path: ["fileSize"],
     },
   );
@@ -437,6 +620,8 @@ export const reprocessPhotoSchema = z
       .max(100, "单次最多重新处理100张照片")
       .optional(),
     albumId: uuidSchema.optional(),
+    // 只处理尚未生成响应式衍生图的照片（用于回填旧相册）
+    missingDerivativesOnly: z.boolean().optional().default(false),
   })
   .refine((data) => data.photoIds || data.albumId, {
     message: "请指定要重新处理的照片ID或相册ID",
@@ -473,6 +658,22 @@ export const processPhotoSchema = z.object({
   isRetouch: z.boolean().optional(),
 });
 
+// ============================================
+// 照片版本相关
+// ============================================
+
+export const uploadPhotoVersionSchema = z.intersection(
+  uploadPhotoSchema,
+  z.object({
+    source: z.enum(["retouch", "ai_retouch"]).optional().default("retouch"),
+  }),
+);
+
+export const photoVersionParamsSchema = z.object({
+  id: uuidSchema,
+  versionId: uuidSchema,
+});
+
 // ============================================
 // 分组相关
 // ============================================
@@ -500,6 +701,38 @@ export const albumGroupParamsSchema = z.object({
   groupId: uuidSchema,
 });
 
+// ============================================
+// 人物（人脸聚类）相关
+// ============================================
+
+export const albumPersonParamsSchema = z.object({
+  id: uuidSchema,
+  personId: uuidSchema,
+});
+
+export const updatePersonSchema = z
+  .object({
+    name: z.string().max(100, "人物名称最多 100 个字符").nullable().optional(),
+    is_hidden: z.boolean().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.is_hidden !== undefined, {
+    message: "至少提供一个要更新的字段",
+  });
+
+export const mergePersonsSchema = z.object({
+  target_id: uuidSchema,
+  source_ids: z.array(uuidSchema).min(1, "至少选择一个要合并的人物"),
+});
+
+export const splitPersonSchema = z.object({
+  face_ids: z.array(uuidSchema).min(1, "至少选择一张人脸"),
+  name: z.string().max(100, "人物名称最多 100 个字符").nullable().optional(),
+});
+
+export const clusterFacesSchema = z.object({
+  full: z.boolean().optional().default(false),
+});
+
 // ============================================
 // 模板相关
 // ============================================
@@ -539,6 +772,35 @@ export const downloadSelectedSchema = z.object({
   photoIds: z.array(uuidSchema).min(1, "至少选择一个照片"),
 });
 
+export const createGuestSessionSchema = z.object({
+  guestName: z
+    .string({ required_error: "姓名不能为空" })
+    .trim()
+    .min(1, "姓名不能为空")
+    .max(50, "姓名最多 50 个字符"),
+  guestPhone: z
+    .string()
+    .trim()
+    .regex(/^[0-9+\-\s]{5,20}$/, "手机号格式无效")
+    .optional()
+    .or(z.literal("")),
+});
+
+// ============================================
+// 访客选片管理
+// ============================================
+
+export const guestSessionParamsSchema = z.object({
+  id: uuidSchema,
+  sessionId: uuidSchema,
+});
+
+export const updateGuestSessionSchema = z.object({
+  submitted: z.literal(false, {
+    errorMap: () => ({ message: "仅支持解除提交锁定" }),
+  }),
+});
+
 // ============================================
 // 批量操作
 // ============================================
@@ -588,6 +850,16 @@ export const restoreSchema = z.object({
 // 相册操作相关
 // ============================================
 
+/** 打包文件名模板支持的变量（与 Worker lib/package-layout 保持一致） */
+export const PACKAGE_FILENAME_TOKENS = [
+  "album",
+  "group",
+  "seq",
+  "capture_time",
+  "capture_date",
+  "filename",
+] as const;
+
 export const packageDownloadSchema = z
   .object({
     photoIds: z.array(uuidSchema).optional(),
@@ -597,6 +869,22 @@ export const packageDownloadSchema = z
       .default("all"),
     includeWatermarked: z.boolean().optional().default(true),
     includeOriginal: z.boolean().optional().default(true),
+    guestSessionId: uuidSchema.optional(), // 选择 selected 时，仅打包指定访客的选片
+    groupFolders: z.boolean().optional().default(false), // 按照片分组建目录
+    // 文件名模板，如 {album}_{group}_{seq}_{capture_time}；为空时使用原文件名
+    filenameTemplate: z
+      .string()
+      .trim()
+      .max(200, "文件名模板过长")
+      .refine(
+        (template) =>
+          [...template.matchAll(/\{([^{}]*)\}/g)].every(([, token]) =>
+            (PACKAGE_FILENAME_TOKENS as readonly string[]).includes(token),
+          ),
+        `文件名模板只支持 ${PACKAGE_FILENAME_TOKENS.map((t) => `{${t}}`).join(" ")}`,
+      )
+      .optional(),
+    includeManifest: z.boolean().optional().default(false), // 包含清单 CSV
   })
   .refine(
     (data) => {
@@ -627,6 +915,8 @@ export const checkDuplicateSchema = z.object({
 
 export const reprocessAlbumSchema = z.object({
   apply_color_grading: z.boolean().optional().default(true),
+  // 只处理尚未生成响应式衍生图的照片（用于回填旧相册）
+  missing_derivatives_only: z.boolean().optional().default(false),
 });
 
 export const consistencyCheckSchema = z
@@ -663,6 +953,253 @@ export const removePhotosFromGroupSchema = z.object({
   photo_ids: z.array(uuidSchema).min(1, "至少选择一个照片"),
 });
 
+// ============================================
+// 审计日志相关
+// ============================================
+
+export const auditTargetTypeSchema = z.enum(["album", "photo", "user", "client", "webhook", "style_preset", "system"]);
+
+export const auditLogQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const num = parseInt(val || "1", 10);
+      return Math.max(1, isNaN(num) ? 1 : num);
+    }),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const num = parseInt(val || "50", 10);
+      return Math.max(1, Math.min(100, isNaN(num) ? 50 : num));
+    }),
+  action: z.string().max(64).optional(),
+  target_type: auditTargetTypeSchema.optional(),
+  target_id: z.string().max(255).optional(),
+  actor: z.string().max(255).optional(), // 操作者邮箱搜索
+  from: z.string().datetime({ offset: true, message: "无效的开始时间" }).optional(),
+  to: z.string().datetime({ offset: true, message: "无效的结束时间" }).optional(),
+});
+
+// ============================================
+// 访问统计相关
+// ============================================
+
+// 访客端上报的事件（其余事件由服务端在对应接口中记录）
+export const trackAnalyticsEventSchema = z.object({
+  event: z.enum(["photo_view", "share"]),
+  albumId: uuidSchema,
+  photoId: uuidSchema.optional(),
+  referrer: z.string().max(2000).optional(), // document.referrer
+});
+
+export const analyticsQuerySchema = z.object({
+  album_id: uuidSchema.optional(), // 为空表示全部相册
+  from: z.string().datetime({ offset: true, message: "无效的开始时间" }).optional(),
+  to: z.string().datetime({ offset: true, message: "无效的结束时间" }).optional(),
+});
+
+// ============================================
+// 系统设置相关
+// ============================================
+
+// Logo / Favicon 地址：留空、站内路径或 http(s) 地址
+const brandingAssetUrlSchema = z
+  .string()
+  .trim()
+  .max(2000, "地址最多 2000 个字符")
+  .refine(
+    (url) => url === "" || (url.startsWith("/") && !url.startsWith("//")) || /^https?:\/\//i.test(url),
+    "只支持站内路径或 http(s) 地址",
+  );
+
+export const updateSystemSettingsSchema = z
+  .object({
+    branding: z
+      .object({
+        studio_name: z.string().trim().min(1, "名称不能为空").max(100, "名称最多 100 个字符"),
+        tagline: z.string().trim().max(200, "标语最多 200 个字符"),
+        logo_url: brandingAssetUrlSchema,
+        favicon_url: brandingAssetUrlSchema,
+        copyright_text: z.string().trim().max(200, "版权文字最多 200 个字符"),
+        icp_number: z.string().trim().max(100, "备案号最多 100 个字符"),
+        police_number: z.string().trim().max(100, "备案号最多 100 个字符"),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    album_defaults: z
+      .object({
+        is_public: z.boolean(),
+        layout: z.enum(["masonry", "grid", "carousel"]),
+        sort_rule: z.enum(["capture_desc", "capture_asc", "manual"]),
+        allow_download: z.boolean(),
+        allow_batch_download: z.boolean(),
+        show_exif: z.boolean(),
+        watermark_enabled: z.boolean(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    features: z
+      .object({
+        home_gallery: z.boolean(),
+        face_search: z.boolean(),
+        analytics: z.boolean(),
+        download_fingerprint: z.boolean(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    storage: z
+      .object({
+        album_quota_gb: z.number().min(0, "配额不能为负数").max(1024 * 1024, "配额过大"),
+        user_quota_gb: z.number().min(0, "配额不能为负数").max(1024 * 1024, "配额过大"),
+        warning_percent: z.number().int().min(1, "提醒阈值至少为 1%").max(100, "提醒阈值最多为 100%"),
+      })
+      .partial()
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const settingsAssetTypeSchema = z.enum(["logo", "favicon"], {
+  errorMap: () => ({ message: "type 只能是 logo 或 favicon" }),
+});
+
+// ============================================
+// Webhook 相关
+// ============================================
+
+export const webhookEventSchema = z.enum(
+  ["photo.completed", "photo.failed", "album.created", "album.published", "selection.submitted", "package.ready"],
+  { errorMap: () => ({ message: "不支持的 Webhook 事件" }) },
+);
+
+export const webhookUrlSchema = z
+  .string()
+  .url("无效的 URL")
+  .max(2000, "URL 最多 2000 个字符")
+  .refine((url) => /^https?:\/\//i.test(url), "只支持 http 或 https 地址");
+
+export const webhookIdSchema = z.object({
+  id: uuidSchema,
+});
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  album_id: uuidSchema.nullable().optional(), // 为空表示全局端点
+  events: z.array(webhookEventSchema).max(20).optional().default([]), // 空数组表示订阅全部事件
+  description: z.string().max(200, "描述最多 200 个字符").nullable().optional(),
+  is_active: z.boolean().optional().default(true),
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: z.array(webhookEventSchema).max(20).optional(),
+  description: z.string().max(200, "描述最多 200 个字符").nullable().optional(),
+  is_active: z.boolean().optional(),
+  rotate_secret: z.boolean().optional(), // 重新生成签名密钥
+});
+
+// ============================================
+// 自定义风格预设相关
+// ============================================
+
+const curvePointsSchema = z
+  .array(z.tuple([z.number().min(0).max(255), z.number().min(0).max(255)]))
+  .min(2, "曲线至少需要 2 个控制点")
+  .max(16, "曲线最多 16 个控制点");
+
+// 字段与 Worker 的 StylePresetConfig 一致
+export const stylePresetConfigSchema = z
+  .object({
+    brightness: z.number().min(0).max(2),
+    contrast: z.number().min(-1).max(1),
+    saturation: z.number().min(0).max(2),
+    gamma: z.number().min(0.1).max(3),
+    hue: z.number().min(-180).max(360),
+    whiteBalance: z
+      .object({
+        temperature: z.number().min(-100).max(100),
+        tint: z.number().min(-100).max(100),
+      })
+      .partial()
+      .strict(),
+    vibrance: z.number().min(-100).max(100),
+    vignette: z.number().min(-100).max(100),
+    grain: z.number().min(0).max(100),
+    curves: z
+      .object({
+        rgb: curvePointsSchema,
+        r: curvePointsSchema,
+        g: curvePointsSchema,
+        b: curvePointsSchema,
+      })
+      .partial()
+      .strict(),
+    lutStrength: z.number().min(0).max(100),
+  })
+  .partial()
+  .strict();
+
+export const stylePresetIdSchema = z.object({
+  id: uuidSchema,
+});
+
+export const createStylePresetSchema = z.object({
+  name: z.string().trim().min(1, "预设名称不能为空").max(100, "预设名称最多 100 个字符"),
+  category: z.enum(["portrait", "landscape", "general"]).optional().default("general"),
+  description: z.string().max(500, "描述最多 500 个字符").nullable().optional(),
+  config: stylePresetConfigSchema.optional().default({}),
+  lut_id: uuidSchema.nullable().optional(),
+});
+
+export const updateStylePresetSchema = z.object({
+  name: z.string().trim().min(1, "预设名称不能为空").max(100, "预设名称最多 100 个字符").optional(),
+  category: z.enum(["portrait", "landscape", "general"]).optional(),
+  description: z.string().max(500, "描述最多 500 个字符").nullable().optional(),
+  config: stylePresetConfigSchema.optional(),
+  lut_id: uuidSchema.nullable().optional(),
+});
+
+export const stylePresetPreviewQuerySchema = z.object({
+  preset: z.string().min(1, "缺少 preset 参数").max(50),
+  albumId: uuidSchema.optional(),
+});
+
+// ============================================
+// 相册过期生命周期
+// ============================================
+
+export const albumLifecycleRestoreSchema = z.object({
+  // 新的过期时间，null 表示永不过期
+  expires_at: z
+    .string()
+    .datetime()
+    .nullable()
+    .refine((value) => value === null || new Date(value) > new Date(), {
+      message: "新的过期时间必须晚于当前时间",
+    }),
+});
+
+// ============================================
+// 客户通知相关
+// ============================================
+
+export const clientNotificationTypeSchema = z.enum(
+  ["album_ready", "photos_added", "selection_received", "package_ready", "album_expiring"],
+  { errorMap: () => ({ message: "不支持的通知类型" }) },
+);
+
+export const updateNotificationTemplateSchema = z.object({
+  type: clientNotificationTypeSchema,
+  locale: notificationLocaleSchema,
+  subject: z.string().trim().min(1, "邮件主题不能为空").max(200, "邮件主题最多 200 个字符"),
+  body: z.string().trim().min(1, "邮件正文不能为空").max(10000, "邮件正文最多 10000 个字符"),
+});
+
 // ============================================
 // 工具函数
 // ============================================
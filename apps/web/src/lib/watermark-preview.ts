@@ -0,0 +1,23 @@
+/**
+ * @fileoverview PIS Web - 水印预览
+ *
+ * @description 水印预览由 Worker 使用与照片处理相同的代码渲染（`/api/watermark/preview`），
+ * 平铺图案、字体、描边投影和 EXIF 变量都与最终照片一致，而不是在浏览器里用 Canvas 近似。
+ * @module lib/watermark-preview
+ */
+import { getWorkerHeaders, getWorkerUrl } from "@/lib/worker-client"
+
+/**
+ * 请求 Worker 渲染水印预览图
+ *
+ * @param watermarks - 水印配置（已通过 watermarkPreviewSchema 校验）
+ * @param sourceKey - 作为底图的照片存储路径，为空时使用 Worker 自带的示例图和示例 EXIF
+ * @returns Worker 原始响应（成功时为 image/jpeg）
+ */
+export async function fetchWatermarkPreview(watermarks: unknown[], sourceKey: string | null): Promise<Response> {
+  return fetch(`${getWorkerUrl()}/api/watermark/preview`, {
+    method: "POST",
+    headers: getWorkerHeaders(),
+    body: JSON.stringify({ watermarks, sourceKey }),
+  })
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview PIS Web - Webhook 事件类型
+ *
+ * @description 纯常量，不依赖服务端模块，Webhook 触发（webhooks）和管理端页面共用。
+ * 事件列表与 Worker 端 `services/worker/src/lib/webhooks.ts` 保持一致。
+ * @module lib/webhook-events
+ */
+
+/**
+ * 可订阅的事件及显示名称
+ */
+export const WEBHOOK_EVENTS = {
+  "photo.completed": "照片处理完成",
+  "photo.failed": "照片处理失败",
+  "album.created": "相册已创建",
+  "album.published": "相册已发布",
+  "selection.submitted": "访客提交选片",
+  "package.ready": "打包下载就绪",
+} as const
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS
+
+/** 测试事件（只由"发送测试事件"触发，不可订阅） */
+export const WEBHOOK_TEST_EVENT = "webhook.test"
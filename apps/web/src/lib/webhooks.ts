@@ -0,0 +1,73 @@
+/**
+ * @fileoverview PIS Web - Webhook 事件触发
+ *
+ * @description Web 端产生的事件（相册创建/发布、访客提交选片）通过 Worker 的
+ * `/api/webhooks/dispatch` 接口入队，由 Worker 签名并按指数退避重试投递。
+ * 触发失败只记录错误日志，不影响业务操作本身。
+ * @module lib/webhooks
+ */
+
+import crypto from "crypto"
+import { WEBHOOK_EVENTS, WEBHOOK_TEST_EVENT, type WebhookEventType } from "@/lib/webhook-events"
+import { getWorkerHeaders, getWorkerUrl } from "@/lib/worker-client"
+
+export { WEBHOOK_EVENTS, WEBHOOK_TEST_EVENT, type WebhookEventType }
+
+/**
+ * 调用 Worker 的事件分发接口
+ * @internal
+ */
+async function dispatchToWorker(body: Record<string, unknown>): Promise<{ deliveries: number }> {
+  const response = await fetch(`${getWorkerUrl()}/api/webhooks/dispatch`, {
+    method: "POST",
+    headers: getWorkerHeaders(),
+    body: JSON.stringify(body),
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(result.error || `Worker 返回 ${response.status}`)
+  }
+  return { deliveries: typeof result.deliveries === "number" ? result.deliveries : 0 }
+}
+
+/**
+ * 生成 Webhook 签名密钥
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`
+}
+
+/**
+ * 触发 Webhook 事件
+ *
+ * @description 失败时只打印错误，不抛出异常
+ *
+ * @param event - 事件
+ * @param albumId - 相关相册
+ * @param data - 事件数据
+ */
+export async function triggerWebhookEvent(
+  event: WebhookEventType,
+  albumId: string | null,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    await dispatchToWorker({ event, albumId, data })
+  } catch (error) {
+    console.error("[Webhook] Failed to trigger event:", event, error)
+  }
+}
+
+/**
+ * 向指定端点发送测试事件
+ *
+ * @param endpointId - 端点 ID
+ * @param data - 测试数据
+ * @returns 创建的投递数量
+ * @throws Worker 不可用或拒绝请求时抛出错误
+ */
+export async function sendWebhookTestEvent(endpointId: string, data: Record<string, unknown>): Promise<number> {
+  const { deliveries } = await dispatchToWorker({ event: WEBHOOK_TEST_EVENT, endpointId, data })
+  return deliveries
+}
@@ -0,0 +1,33 @@
+/** @vitest-environment node */
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { getWorkerHeaders, getWorkerUrl } from './worker-client'
+
+describe('worker-client', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should resolve the worker url from environment variables in order', () => {
+    vi.stubEnv('WORKER_URL', '')
+    vi.stubEnv('WORKER_API_URL', '')
+    vi.stubEnv('NEXT_PUBLIC_WORKER_URL', '')
+    expect(getWorkerUrl()).toBe('http://localhost:3001')
+
+    vi.stubEnv('NEXT_PUBLIC_WORKER_URL', 'http://public:3001')
+    expect(getWorkerUrl()).toBe('http://public:3001')
+
+    vi.stubEnv('WORKER_URL', 'http://pis-worker:3001')
+    expect(getWorkerUrl()).toBe('http://pis-worker:3001')
+  })
+
+  it('should add the API key header when configured', () => {
+    vi.stubEnv('WORKER_API_KEY', '')
+    expect(getWorkerHeaders()).toEqual({ 'Content-Type': 'application/json' })
+
+    vi.stubEnv('WORKER_API_KEY', 'secret')
+    expect(getWorkerHeaders('application/octet-stream')).toEqual({
+      'Content-Type': 'application/octet-stream',
+      'X-API-Key': 'secret',
+    })
+  })
+})
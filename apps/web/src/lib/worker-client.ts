@@ -0,0 +1,32 @@
+/**
+ * @fileoverview PIS Web - Worker 服务调用配置
+ *
+ * @description
+ * 服务端调用 Worker API 时共用的服务地址和 X-API-Key 认证头，
+ * 供 Worker 代理路由（/api/worker/*）和 Webhook、告警、客户通知、风格预设、水印预览、下载指纹等模块使用。
+ *
+ * @module lib/worker-client
+ */
+
+/**
+ * Worker 服务地址（服务端环境变量，不暴露给客户端）
+ *
+ * @description 支持多个变量名，确保兼容性；每次调用时读取，以便测试可以修改环境变量
+ */
+export function getWorkerUrl(): string {
+  return process.env.WORKER_URL || process.env.WORKER_API_URL || process.env.NEXT_PUBLIC_WORKER_URL || "http://localhost:3001"
+}
+
+/**
+ * 调用 Worker API 的请求头（配置了 WORKER_API_KEY 时带上 X-API-Key）
+ *
+ * @param contentType - 请求体类型
+ */
+export function getWorkerHeaders(contentType = "application/json"): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": contentType }
+  const workerApiKey = process.env.WORKER_API_KEY
+  if (workerApiKey) {
+    headers["X-API-Key"] = workerApiKey
+  }
+  return headers
+}
@@ -101,6 +101,26 @@ describe('middleware-rate-limit', () => {
     })
   })
 
+  describe('peekRateLimit', () => {
+    it('should report status without counting', async () => {
+      const { checkRateLimit, peekRateLimit } = await import('./middleware-rate-limit')
+      const identifier = 'peek-ip'
+
+      expect((await peekRateLimit(identifier, 2)).allowed).toBe(true)
+      expect((await peekRateLimit(identifier, 2)).remaining).toBe(2)
+
+      await checkRateLimit(identifier, 2, 60000)
+      const afterOne = await peekRateLimit(identifier, 2)
+      expect(afterOne.allowed).toBe(true)
+      expect(afterOne.remaining).toBe(1)
+
+      await checkRateLimit(identifier, 2, 60000)
+      const locked = await peekRateLimit(identifier, 2)
+      expect(locked.allowed).toBe(false)
+      expect(locked.resetAt).toBeGreaterThan(Date.now())
+    })
+  })
+
   describe('getRateLimitStats', () => {
     it('should return storage statistics', async () => {
       const { getRateLimitStats } = await import('./middleware-rate-limit')
@@ -29,6 +29,8 @@ const MAX_STORE_SIZE = 10000
 type RedisClient = {
   incr: (key: string) => Promise<number>
   expire: (key: string, seconds: number) => Promise<number>
+  get: <T>(key: string) => Promise<T | null>
+  pttl: (key: string) => Promise<number>
 }
 
 // Redis 客户端（可选，仅在配置了 Redis 时使用）
@@ -152,6 +154,49 @@ export async function checkRateLimit(
   }
 }
 
+/**
+ * 查询速率限制状态（不计数）
+ *
+ * 用于"失败次数"类限制：请求前先查询是否已被锁定，只有失败时才调用 checkRateLimit 计数
+ * @param identifier 标识符
+ * @param maxRequests 最大次数
+ * @returns 当前是否仍允许请求
+ */
+export async function peekRateLimit(
+  identifier: string,
+  maxRequests: number
+): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+  const now = Date.now()
+  const client = await initRedis()
+
+  if (client) {
+    try {
+      const key = `rate_limit:${identifier}`
+      const count = Number(await client.get<number>(key)) || 0
+      const ttl = count > 0 ? await client.pttl(key) : -2
+
+      return {
+        allowed: count < maxRequests,
+        remaining: Math.max(0, maxRequests - count),
+        resetAt: ttl > 0 ? now + ttl : now,
+      }
+    } catch (err) {
+      console.warn('⚠️ Rate limit: Redis operation failed, falling back to memory storage:', err)
+    }
+  }
+
+  const record = store[identifier]
+  if (!record || now > record.resetAt) {
+    return { allowed: true, remaining: maxRequests, resetAt: now }
+  }
+
+  return {
+    allowed: record.count < maxRequests,
+    remaining: Math.max(0, maxRequests - record.count),
+    resetAt: record.resetAt,
+  }
+}
+
 /**
  * 清理过期的记录
  */
@@ -18,6 +18,89 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+/** 照片版本来源：原图 / AI 修图 / 人工精修 */
+export type PhotoVersionSource = 'original' | 'ai_retouch' | 'retouch'
+
+/** 审计日志操作对象类型 */
+export type AuditTargetType = 'album' | 'photo' | 'user' | 'client' | 'webhook' | 'style_preset' | 'system'
+
+/** 审计日志字段差异：字段名 → 变更前后的值 */
+export type AuditChanges = Record<string, { before: Json | undefined; after: Json | undefined }>
+
+/** Webhook 投递状态：等待中 / 重试中 / 成功 / 失败（重试次数用尽） */
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'success' | 'failed'
+
+/** 登录方式：密码 / 密码 + 验证器验证码 / 密码 + 恢复码 */
+export type LoginMethod = 'password' | 'totp' | 'recovery_code'
+
+/** 相册协作者角色：只读 / 可编辑 */
+export type AlbumCollaboratorRole = 'viewer' | 'editor'
+
+/** 分享链接权限：仅浏览 / 允许下载 / 允许下载和选片 */
+export type ShareLinkPermission = 'view' | 'download' | 'select'
+
+/** 访问统计事件类型：相册浏览 / 照片查看 / 单张下载 / 批量下载 / 打包下载 / 分享 / 人脸搜索 */
+export type AnalyticsEventType =
+  | 'album_view'
+  | 'photo_view'
+  | 'photo_download'
+  | 'batch_download'
+  | 'package_download'
+  | 'share'
+  | 'face_search'
+
+/** 访问设备类型 */
+export type AnalyticsDeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown'
+
+/** 系统设置分类：品牌 / 相册默认选项 / 功能开关 / 存储配额 */
+export type SystemSettingCategory = 'branding' | 'album_defaults' | 'features' | 'storage'
+
+/** 客户通知类型：相册就绪 / 新增照片 / 收到选片 / 打包下载就绪 / 相册即将过期 */
+export type ClientNotificationType =
+  | 'album_ready'
+  | 'photos_added'
+  | 'selection_received'
+  | 'package_ready'
+  | 'album_expiring'
+
+/** 客户通知发送状态：等待中 / 重试中 / 已发送 / 失败（重试次数用尽） */
+export type ClientNotificationStatus = 'pending' | 'retrying' | 'sent' | 'failed'
+
+/** 风格预设分类：人物 / 风景 / 通用 */
+export type StylePresetCategory = 'portrait' | 'landscape' | 'general'
+
+/** 下载指纹来源：单张下载 / 访客批量下载 / 打包下载 */
+export type DownloadFingerprintSource = 'download' | 'batch_download' | 'package'
+
+/** 相册过期生命周期：正常 / 已过期隐藏 / 已归档 / 恢复中 / 已过期删除 */
+export type AlbumLifecycleState = 'active' | 'hidden' | 'archived' | 'restoring' | 'deleted'
+
+/** 媒体类型：图片 / 视频短片 */
+export type MediaType = 'image' | 'video'
+
+/** 响应式衍生图格式 */
+export type DerivativeFormat = 'avif' | 'webp' | 'jpeg'
+
+/** 单个衍生图 */
+export interface DerivativeImage {
+  width: number
+  height: number
+  key: string
+}
+
+/** 照片的衍生图集合（按格式分组、宽度升序），由 Worker 按尺寸阶梯生成 */
+export type DerivativeSet = Partial<Record<DerivativeFormat, DerivativeImage[]>>
+
+/** 人脸位置（检测图片上的像素坐标，image_width/image_height 为检测图片尺寸） */
+export interface FaceLocation {
+  x: number
+  y: number
+  w: number
+  h: number
+  image_width?: number
+  image_height?: number
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -63,6 +146,16 @@ export interface Database {
           location: string | null
           // 直播模式
           is_live: boolean
+          // 选片配置
+          max_selection: number | null
+          // 归属（NULL 表示仅管理员可见）
+          owner_id: string | null
+          // 所属客户
+          client_id: string | null
+          notify_client: boolean
+          // 过期生命周期
+          lifecycle_state: AlbumLifecycleState
+          lifecycle_changed_at: string | null
           // 统计
           photo_count: number
           selected_count: number
@@ -104,6 +197,12 @@ export interface Database {
           event_date?: string | null
           location?: string | null
           is_live?: boolean
+          max_selection?: number | null
+          owner_id?: string | null
+          client_id?: string | null
+          notify_client?: boolean
+          lifecycle_state?: AlbumLifecycleState
+          lifecycle_changed_at?: string | null
           photo_count?: number
           selected_count?: number
           view_count?: number
@@ -142,6 +241,12 @@ export interface Database {
           event_date?: string | null
           location?: string | null
           is_live?: boolean
+          max_selection?: number | null
+          owner_id?: string | null
+          client_id?: string | null
+          notify_client?: boolean
+          lifecycle_state?: AlbumLifecycleState
+          lifecycle_changed_at?: string | null
           photo_count?: number
           selected_count?: number
           view_count?: number
@@ -151,15 +256,51 @@ export interface Database {
           deleted_at?: string | null
         }
       }
+      album_collaborators: {
+        Row: {
+          id: string
+          album_id: string
+          user_id: string
+          role: AlbumCollaboratorRole
+          invited_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          album_id: string
+          user_id: string
+          role?: AlbumCollaboratorRole
+          invited_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          album_id?: string
+          user_id?: string
+          role?: AlbumCollaboratorRole
+          invited_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
       photos: {
         Row: {
           id: string
           album_id: string
           original_key: string
+          raw_key: string | null
           preview_key: string | null
           thumb_key: string | null
+          derivatives: DerivativeSet | null
+          media_type: MediaType
+          video_key: string | null
+          duration: number | null
           filename: string
           file_size: number | null
+          thumb_size: number | null
+          preview_size: number | null
           width: number | null
           height: number | null
           mime_type: string | null
@@ -168,6 +309,7 @@ export interface Database {
           captured_at: string | null
           status: 'pending' | 'pending_retouch' | 'retouching' | 'processing' | 'completed' | 'failed'
           retoucher_id: string | null
+          current_version_id: string | null
           is_selected: boolean
           sort_order: number
           rotation: number | null
@@ -179,10 +321,17 @@ export interface Database {
           id?: string
           album_id: string
           original_key: string
+          raw_key?: string | null
           preview_key?: string | null
           thumb_key?: string | null
+          derivatives?: DerivativeSet | null
+          media_type?: MediaType
+          video_key?: string | null
+          duration?: number | null
           filename: string
           file_size?: number | null
+          thumb_size?: number | null
+          preview_size?: number | null
           width?: number | null
           height?: number | null
           mime_type?: string | null
@@ -191,6 +340,7 @@ export interface Database {
           captured_at?: string | null
           status?: 'pending' | 'pending_retouch' | 'retouching' | 'processing' | 'completed' | 'failed'
           retoucher_id?: string | null
+          current_version_id?: string | null
           is_selected?: boolean
           sort_order?: number
           rotation?: number | null
@@ -202,10 +352,17 @@ export interface Database {
           id?: string
           album_id?: string
           original_key?: string
+          raw_key?: string | null
           preview_key?: string | null
           thumb_key?: string | null
+          derivatives?: DerivativeSet | null
+          media_type?: MediaType
+          video_key?: string | null
+          duration?: number | null
           filename?: string
           file_size?: number | null
+          thumb_size?: number | null
+          preview_size?: number | null
           width?: number | null
           height?: number | null
           mime_type?: string | null
@@ -214,6 +371,7 @@ export interface Database {
           captured_at?: string | null
           status?: 'pending' | 'pending_retouch' | 'retouching' | 'processing' | 'completed' | 'failed'
           retoucher_id?: string | null
+          current_version_id?: string | null
           is_selected?: boolean
           sort_order?: number
           rotation?: number | null
@@ -238,6 +396,7 @@ export interface Database {
           watermark_enabled: boolean
           watermark_type: 'text' | 'logo' | null
           watermark_config: Json
+          client_id: string | null
           created_at: string
           updated_at: string
         }
@@ -256,6 +415,7 @@ export interface Database {
           watermark_enabled?: boolean
           watermark_type?: 'text' | 'logo' | null
           watermark_config?: Json
+          client_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -274,6 +434,7 @@ export interface Database {
           watermark_enabled?: boolean
           watermark_type?: 'text' | 'logo' | null
           watermark_config?: Json
+          client_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -288,6 +449,10 @@ export interface Database {
           status: 'pending' | 'processing' | 'completed' | 'failed'
           zip_key: string | null
           file_size: number | null
+          progress: number
+          processed_photos: number
+          total_photos: number | null
+          resume_state: Json | null
           download_url: string | null
           expires_at: string | null
           created_at: string
@@ -303,6 +468,10 @@ export interface Database {
           status?: 'pending' | 'processing' | 'completed' | 'failed'
           zip_key?: string | null
           file_size?: number | null
+          progress?: number
+          processed_photos?: number
+          total_photos?: number | null
+          resume_state?: Json | null
           download_url?: string | null
           expires_at?: string | null
           created_at?: string
@@ -318,6 +487,10 @@ export interface Database {
           status?: 'pending' | 'processing' | 'completed' | 'failed'
           zip_key?: string | null
           file_size?: number | null
+          progress?: number
+          processed_photos?: number
+          total_photos?: number | null
+          resume_state?: Json | null
           download_url?: string | null
           expires_at?: string | null
           created_at?: string
@@ -371,6 +544,628 @@ export interface Database {
           created_at?: string
         }
       }
+      album_share_links: {
+        Row: {
+          id: string
+          album_id: string
+          label: string | null
+          permission: ShareLinkPermission
+          expires_at: string | null
+          max_uses: number | null
+          use_count: number
+          last_used_at: string | null
+          revoked_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          album_id: string
+          label?: string | null
+          permission?: ShareLinkPermission
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          last_used_at?: string | null
+          revoked_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          album_id?: string
+          label?: string | null
+          permission?: ShareLinkPermission
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          last_used_at?: string | null
+          revoked_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      guest_sessions: {
+        Row: {
+          id: string
+          album_id: string
+          guest_name: string
+          guest_phone: string | null
+          share_link_id: string | null
+          submitted_at: string | null
+          last_active_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          album_id: string
+          guest_name: string
+          guest_phone?: string | null
+          share_link_id?: string | null
+          submitted_at?: string | null
+          last_active_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          album_id?: string
+          guest_name?: string
+          guest_phone?: string | null
+          share_link_id?: string | null
+          submitted_at?: string | null
+          last_active_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      guest_selections: {
+        Row: {
+          session_id: string
+          photo_id: string
+          album_id: string
+          created_at: string
+        }
+        Insert: {
+          session_id: string
+          photo_id: string
+          album_id: string
+          created_at?: string
+        }
+        Update: {
+          session_id?: string
+          photo_id?: string
+          album_id?: string
+          created_at?: string
+        }
+      }
+      photo_versions: {
+        Row: {
+          id: string
+          photo_id: string
+          album_id: string
+          version_number: number
+          source: PhotoVersionSource
+          storage_key: string
+          file_size: number | null
+          mime_type: string | null
+          hash: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          photo_id: string
+          album_id: string
+          version_number: number
+          source?: PhotoVersionSource
+          storage_key: string
+          file_size?: number | null
+          mime_type?: string | null
+          hash?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          photo_id?: string
+          album_id?: string
+          version_number?: number
+          source?: PhotoVersionSource
+          storage_key?: string
+          file_size?: number | null
+          mime_type?: string | null
+          hash?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      face_persons: {
+        Row: {
+          id: string
+          album_id: string
+          name: string | null
+          is_hidden: boolean
+          cover_face_id: string | null
+          face_count: number
+          photo_count: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          album_id: string
+          name?: string | null
+          is_hidden?: boolean
+          cover_face_id?: string | null
+          face_count?: number
+          photo_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          album_id?: string
+          name?: string | null
+          is_hidden?: boolean
+          cover_face_id?: string | null
+          face_count?: number
+          photo_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      face_embeddings: {
+        Row: {
+          id: string
+          photo_id: string
+          album_id: string
+          person_id: string | null
+          embedding: string | null
+          face_location: FaceLocation | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          photo_id: string
+          album_id: string
+          person_id?: string | null
+          embedding?: string | null
+          face_location?: FaceLocation | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          photo_id?: string
+          album_id?: string
+          person_id?: string | null
+          embedding?: string | null
+          face_location?: FaceLocation | null
+          created_at?: string
+        }
+      }
+      audit_logs: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_email: string | null
+          actor_role: string | null
+          action: string
+          target_type: AuditTargetType
+          target_id: string | null
+          changes: AuditChanges | null
+          metadata: Json | null
+          ip_address: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          actor_role?: string | null
+          action: string
+          target_type: AuditTargetType
+          target_id?: string | null
+          changes?: AuditChanges | null
+          metadata?: Json | null
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        // 审计日志只追加，数据库触发器会拒绝更新
+        Update: Record<string, never>
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          album_id: string | null
+          url: string
+          secret: string
+          events: string[]
+          description: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          album_id?: string | null
+          url: string
+          secret: string
+          events?: string[]
+          description?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          album_id?: string | null
+          url?: string
+          secret?: string
+          events?: string[]
+          description?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          event: string
+          payload: Json
+          status: WebhookDeliveryStatus
+          attempts: number
+          response_status: number | null
+          response_body: string | null
+          error: string | null
+          duration_ms: number | null
+          delivered_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          event: string
+          payload: Json
+          status?: WebhookDeliveryStatus
+          attempts?: number
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          duration_ms?: number | null
+          delivered_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: WebhookDeliveryStatus
+          attempts?: number
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          duration_ms?: number | null
+          delivered_at?: string | null
+        }
+      }
+      user_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          refresh_jti: string
+          previous_refresh_jti: string | null
+          rotated_at: string | null
+          ip_address: string | null
+          user_agent: string | null
+          created_at: string
+          last_used_at: string
+          expires_at: string
+          revoked_at: string | null
+          revoked_reason: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          refresh_jti: string
+          previous_refresh_jti?: string | null
+          rotated_at?: string | null
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+          last_used_at?: string
+          expires_at: string
+          revoked_at?: string | null
+          revoked_reason?: string | null
+        }
+        Update: {
+          refresh_jti?: string
+          previous_refresh_jti?: string | null
+          rotated_at?: string | null
+          last_used_at?: string
+          expires_at?: string
+          revoked_at?: string | null
+          revoked_reason?: string | null
+        }
+      }
+      login_history: {
+        Row: {
+          id: string
+          user_id: string | null
+          email: string | null
+          success: boolean
+          method: LoginMethod
+          failure_reason: string | null
+          session_id: string | null
+          ip_address: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          email?: string | null
+          success: boolean
+          method?: LoginMethod
+          failure_reason?: string | null
+          session_id?: string | null
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: Record<string, never>
+      }
+      analytics_events: {
+        Row: {
+          id: string
+          album_id: string
+          photo_id: string | null
+          event_type: AnalyticsEventType
+          device_type: AnalyticsDeviceType
+          browser: string | null
+          os: string | null
+          referrer_host: string | null
+          country: string | null
+          visitor_hash: string | null
+          metadata: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          album_id: string
+          photo_id?: string | null
+          event_type: AnalyticsEventType
+          device_type?: AnalyticsDeviceType
+          browser?: string | null
+          os?: string | null
+          referrer_host?: string | null
+          country?: string | null
+          visitor_hash?: string | null
+          metadata?: Json | null
+          created_at?: string
+        }
+        Update: Record<string, never>
+      }
+      system_settings: {
+        Row: {
+          key: string
+          category: SystemSettingCategory
+          value: Json
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          category: SystemSettingCategory
+          value: Json
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          value?: Json
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      clients: {
+        Row: {
+          id: string
+          name: string
+          phone: string | null
+          email: string | null
+          notes: string | null
+          tags: string[]
+          locale: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          phone?: string | null
+          email?: string | null
+          notes?: string | null
+          tags?: string[]
+          locale?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          phone?: string | null
+          email?: string | null
+          notes?: string | null
+          tags?: string[]
+          locale?: string
+          updated_at?: string
+        }
+      }
+      notification_templates: {
+        Row: {
+          id: string
+          type: ClientNotificationType
+          locale: string
+          subject: string
+          body: string
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          type: ClientNotificationType
+          locale: string
+          subject: string
+          body: string
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          subject?: string
+          body?: string
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      client_notifications: {
+        Row: {
+          id: string
+          album_id: string
+          client_id: string | null
+          type: ClientNotificationType
+          locale: string
+          recipient: string
+          subject: string
+          body: string
+          data: Json
+          status: ClientNotificationStatus
+          attempts: number
+          error: string | null
+          sent_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          album_id: string
+          client_id?: string | null
+          type: ClientNotificationType
+          locale: string
+          recipient: string
+          subject: string
+          body: string
+          data?: Json
+          status?: ClientNotificationStatus
+          attempts?: number
+          error?: string | null
+          sent_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: ClientNotificationStatus
+          attempts?: number
+          error?: string | null
+          sent_at?: string | null
+        }
+      }
+      style_luts: {
+        Row: {
+          id: string
+          name: string
+          storage_key: string
+          lut_size: number
+          file_size: number
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          storage_key: string
+          lut_size: number
+          file_size?: number
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          name?: string
+        }
+      }
+      style_presets: {
+        Row: {
+          id: string
+          name: string
+          category: StylePresetCategory
+          description: string | null
+          config: Json
+          lut_id: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          category?: StylePresetCategory
+          description?: string | null
+          config?: Json
+          lut_id?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          category?: StylePresetCategory
+          description?: string | null
+          config?: Json
+          lut_id?: string | null
+          updated_at?: string
+        }
+      }
+      download_fingerprints: {
+        Row: {
+          id: string
+          code: string
+          source: DownloadFingerprintSource
+          album_id: string
+          photo_id: string | null
+          package_id: string | null
+          share_link_id: string | null
+          guest_session_id: string | null
+          visitor_hash: string | null
+          ip_address: string | null
+          user_agent: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          source: DownloadFingerprintSource
+          album_id: string
+          photo_id?: string | null
+          package_id?: string | null
+          share_link_id?: string | null
+          guest_session_id?: string | null
+          visitor_hash?: string | null
+          ip_address?: string | null
+          user_agent?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: Record<string, never>
+      }
     }
     Views: {
       [_ in never]: never
@@ -389,6 +1184,10 @@ export type Album = Database['public']['Tables']['albums']['Row']
 export type AlbumInsert = Database['public']['Tables']['albums']['Insert']
 export type AlbumUpdate = Database['public']['Tables']['albums']['Update']
 
+export type AlbumCollaborator = Database['public']['Tables']['album_collaborators']['Row']
+export type AlbumCollaboratorInsert = Database['public']['Tables']['album_collaborators']['Insert']
+export type AlbumCollaboratorUpdate = Database['public']['Tables']['album_collaborators']['Update']
+
 export type Photo = Database['public']['Tables']['photos']['Row']
 export type PhotoInsert = Database['public']['Tables']['photos']['Insert']
 export type PhotoUpdate = Database['public']['Tables']['photos']['Update']
@@ -407,3 +1206,59 @@ export type PhotoGroupUpdate = Database['public']['Tables']['photo_groups']['Upd
 
 export type PhotoGroupAssignment = Database['public']['Tables']['photo_group_assignments']['Row']
 export type PhotoGroupAssignmentInsert = Database['public']['Tables']['photo_group_assignments']['Insert']
+
+export type AlbumShareLink = Database['public']['Tables']['album_share_links']['Row']
+export type AlbumShareLinkInsert = Database['public']['Tables']['album_share_links']['Insert']
+
+export type GuestSession = Database['public']['Tables']['guest_sessions']['Row']
+export type GuestSessionInsert = Database['public']['Tables']['guest_sessions']['Insert']
+export type GuestSessionUpdate = Database['public']['Tables']['guest_sessions']['Update']
+
+export type GuestSelection = Database['public']['Tables']['guest_selections']['Row']
+export type GuestSelectionInsert = Database['public']['Tables']['guest_selections']['Insert']
+
+export type PhotoVersion = Database['public']['Tables']['photo_versions']['Row']
+export type PhotoVersionInsert = Database['public']['Tables']['photo_versions']['Insert']
+
+export type FacePerson = Database['public']['Tables']['face_persons']['Row']
+export type FacePersonInsert = Database['public']['Tables']['face_persons']['Insert']
+export type FacePersonUpdate = Database['public']['Tables']['face_persons']['Update']
+
+export type FaceEmbedding = Database['public']['Tables']['face_embeddings']['Row']
+
+export type AuditLog = Database['public']['Tables']['audit_logs']['Row']
+export type AuditLogInsert = Database['public']['Tables']['audit_logs']['Insert']
+
+export type WebhookEndpoint = Database['public']['Tables']['webhook_endpoints']['Row']
+export type WebhookEndpointInsert = Database['public']['Tables']['webhook_endpoints']['Insert']
+export type WebhookEndpointUpdate = Database['public']['Tables']['webhook_endpoints']['Update']
+
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row']
+
+export type UserSession = Database['public']['Tables']['user_sessions']['Row']
+export type UserSessionInsert = Database['public']['Tables']['user_sessions']['Insert']
+
+export type LoginHistoryEntry = Database['public']['Tables']['login_history']['Row']
+export type LoginHistoryInsert = Database['public']['Tables']['login_history']['Insert']
+
+export type AnalyticsEvent = Database['public']['Tables']['analytics_events']['Row']
+export type AnalyticsEventInsert = Database['public']['Tables']['analytics_events']['Insert']
+
+export type SystemSetting = Database['public']['Tables']['system_settings']['Row']
+export type SystemSettingInsert = Database['public']['Tables']['system_settings']['Insert']
+
+export type Client = Database['public']['Tables']['clients']['Row']
+export type ClientInsert = Database['public']['Tables']['clients']['Insert']
+export type ClientUpdate = Database['public']['Tables']['clients']['Update']
+
+export type NotificationTemplate = Database['public']['Tables']['notification_templates']['Row']
+
+export type ClientNotification = Database['public']['Tables']['client_notifications']['Row']
+
+export type StyleLut = Database['public']['Tables']['style_luts']['Row']
+
+export type CustomStylePreset = Database['public']['Tables']['style_presets']['Row']
+export type CustomStylePresetUpdate = Database['public']['Tables']['style_presets']['Update']
+
+export type DownloadFingerprint = Database['public']['Tables']['download_fingerprints']['Row']
+export type DownloadFingerprintInsert = Database['public']['Tables']['download_fingerprints']['Insert']
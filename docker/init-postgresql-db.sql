@@ -29,6 +29,10 @@ CREATE TABLE IF NOT EXISTS users (
     role VARCHAR(50) DEFAULT 'admin',  -- 用户角色: 'admin' (管理员), 'photographer' (摄影师), 'retoucher' (修图师), 'guest' (访客)
     is_active BOOLEAN DEFAULT true,
     last_login_at TIMESTAMP WITH TIME ZONE,
+    totp_secret VARCHAR(255),               -- TOTP 密钥（AES-GCM 加密），NULL 表示未绑定两步验证
+    totp_enabled_at TIMESTAMP WITH TIME ZONE,  -- 两步验证启用时间，有密钥但为 NULL 表示正在绑定
+    totp_last_step BIGINT,                  -- 最近一次通过验证的 TOTP 时间步（防止验证码重放）
+    recovery_codes TEXT[],                  -- 恢复码 SHA-256 哈希列表，每个只能使用一次
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     deleted_at TIMESTAMP WITH TIME ZONE  -- 软删除时间戳
@@ -38,6 +42,26 @@ CREATE TABLE IF NOT EXISTS users (
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_deleted_at ON users(deleted_at) WHERE deleted_at IS NULL;
 
+-- ============================================
+-- 客户表（一个客户可关联多个相册）
+-- ============================================
+CREATE TABLE IF NOT EXISTS clients (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    phone VARCHAR(50),
+    email VARCHAR(255),
+    notes TEXT,
+    tags TEXT[] NOT NULL DEFAULT '{}',     -- 客户标签，如 婚礼、企业、回头客
+    locale VARCHAR(10) NOT NULL DEFAULT 'zh-CN', -- 通知邮件语言（zh-CN / en）
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_clients_name ON clients(name);
+CREATE INDEX IF NOT EXISTS idx_clients_tags ON clients USING GIN(tags);
+
 -- ============================================
 -- 相册表
 -- ============================================
@@ -48,7 +72,7 @@ CREATE TABLE IF NOT EXISTS albums (
     description TEXT,
     cover_photo_id UUID,
     photo_count INTEGER DEFAULT 0,
-    password VARCHAR(255),  -- 相册访问密码（可选）
+    password VARCHAR(255),  -- 相册访问密码（PBKDF2 哈希，格式 salt:iterations:hash，可选）
     upload_token VARCHAR(255), -- 上传令牌（用于 FTP/API 上传验证）
     expires_at TIMESTAMP WITH TIME ZONE,  -- 相册过期时间
     is_public BOOLEAN DEFAULT false,
@@ -76,6 +100,17 @@ CREATE TABLE IF NOT EXISTS albums (
     location TEXT,  -- 活动地点
     -- 直播模式
     is_live BOOLEAN DEFAULT false,
+    -- 选片配置
+    max_selection INTEGER,  -- 每位访客最多可选照片数（NULL 表示不限制）
+    -- 归属（摄影师只能看到自己创建或被邀请协作的相册，NULL 表示仅管理员可见）
+    owner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    -- 所属客户（删除客户时相册保留，仅解除关联）
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    notify_client BOOLEAN NOT NULL DEFAULT false,  -- 向客户发送邮件通知（相册就绪、新增照片等）
+    -- 过期生命周期（由 Worker 定时推进）：active 正常 / hidden 已过期隐藏 / archived 已归档存储 /
+    -- restoring 恢复中 / deleted 已过期删除（同时设置 deleted_at）
+    lifecycle_state VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (lifecycle_state IN ('active', 'hidden', 'archived', 'restoring', 'deleted')),
+    lifecycle_changed_at TIMESTAMP WITH TIME ZONE,
     -- 统计
     selected_count INTEGER DEFAULT 0,
     view_count INTEGER DEFAULT 0,
@@ -89,6 +124,26 @@ CREATE TABLE IF NOT EXISTS albums (
 CREATE INDEX IF NOT EXISTS idx_albums_slug ON albums(slug);
 CREATE INDEX IF NOT EXISTS idx_albums_created_at ON albums(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_albums_deleted_at ON albums(deleted_at) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_albums_owner_id ON albums(owner_id);
+CREATE INDEX IF NOT EXISTS idx_albums_client_id ON albums(client_id) WHERE client_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_albums_expires_at ON albums(expires_at) WHERE expires_at IS NOT NULL;
+
+-- ============================================
+-- 相册协作者表
+-- ============================================
+CREATE TABLE IF NOT EXISTS album_collaborators (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),  -- viewer: 只读, editor: 可编辑（不可删除相册和管理协作者）
+    invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(album_id, user_id)
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_album_collaborators_user_id ON album_collaborators(user_id);
 
 -- ============================================
 -- 照片表
@@ -98,11 +153,18 @@ CREATE TABLE IF NOT EXISTS photos (
     album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
     filename VARCHAR(255) NOT NULL,
     original_key VARCHAR(500) NOT NULL,  -- MinIO 原图路径
+    raw_key VARCHAR(500),                -- 相机 RAW 原片路径（NEF/ARW/CR3，供客户下载）
     thumb_key VARCHAR(500),              -- 缩略图路径
-    preview_key VARCHAR(500),            -- 预览图路径
+    preview_key VARCHAR(500),            -- 预览图路径（视频为封面帧）
+    derivatives JSONB DEFAULT '{}',      -- 响应式衍生图 {avif/webp/jpeg: [{width, height, key}]}
+    media_type VARCHAR(10) NOT NULL DEFAULT 'image' CHECK (media_type IN ('image', 'video')),
+    video_key VARCHAR(500),              -- 视频网页预览（转码后的 MP4）路径
+    duration NUMERIC(10, 3),             -- 视频时长（秒）
     width INTEGER,
     height INTEGER,
     file_size BIGINT,
+    thumb_size BIGINT,                    -- 缩略图字节数
+    preview_size BIGINT,                  -- 预览图、视频网页预览和响应式衍生图的字节数之和
     mime_type VARCHAR(100),
     blur_data TEXT,                       -- BlurHash
     hash VARCHAR(64),                     -- SHA-256 文件哈希
@@ -111,6 +173,7 @@ CREATE TABLE IF NOT EXISTS photos (
     sort_order INTEGER DEFAULT 0,         -- 手动排序顺序
     status VARCHAR(50) DEFAULT 'pending', -- pending, pending_retouch, retouching, processing, completed, failed
     retoucher_id UUID,                    -- 负责修图的用户ID
+    current_version_id UUID,              -- 当前生效的版本（photo_versions.id），为空表示尚未建立版本历史
     is_selected BOOLEAN DEFAULT false,    -- 访客是否选中此照片
     captured_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -129,6 +192,24 @@ CREATE INDEX IF NOT EXISTS idx_photos_album_status ON photos(album_id, status) W
 -- Index for manual sorting (needed for ORDER BY sort_order queries)
 CREATE INDEX IF NOT EXISTS idx_photos_album_sort_order ON photos(album_id, sort_order) WHERE deleted_at IS NULL;
 
+-- ============================================
+-- 人物表（相册内的人脸聚类结果）
+-- ============================================
+CREATE TABLE IF NOT EXISTS face_persons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    name VARCHAR(100),                     -- 管理员命名，为空表示未命名
+    is_hidden BOOLEAN DEFAULT false,       -- 隐藏后不在访客端人物筛选中显示（仍参与聚类）
+    cover_face_id UUID,                    -- 作为头像的人脸（face_embeddings.id）
+    face_count INTEGER DEFAULT 0,
+    photo_count INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_face_persons_album_id ON face_persons(album_id);
+
 -- ============================================
 -- 人脸特征表
 -- ============================================
@@ -136,11 +217,16 @@ CREATE TABLE IF NOT EXISTS face_embeddings (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     photo_id UUID NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
     album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    person_id UUID REFERENCES face_persons(id) ON DELETE SET NULL, -- 所属人物，为空表示尚未聚类
     embedding vector(512), -- InsightFace usually generates 512d vectors
     face_location JSONB,   -- {x, y, w, h}
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_face_embeddings_album_id ON face_embeddings(album_id);
+CREATE INDEX IF NOT EXISTS idx_face_embeddings_person_id ON face_embeddings(person_id);
+
 -- 向量搜索函数
 CREATE OR REPLACE FUNCTION search_faces(
   query_embedding vector(512),
@@ -179,6 +265,10 @@ CREATE TABLE IF NOT EXISTS package_downloads (
     status VARCHAR(50) DEFAULT 'pending', -- pending, processing, completed, failed
     zip_key VARCHAR(500),                 -- MinIO ZIP 文件路径
     file_size BIGINT,
+    progress INTEGER DEFAULT 0,           -- 打包进度 0-100
+    processed_photos INTEGER DEFAULT 0,   -- 已处理照片数
+    total_photos INTEGER,
+    resume_state JSONB,                   -- 断点（分片上传 ID、已上传分片、ZIP 目录），完成后清空
     download_url TEXT,
     expires_at TIMESTAMP WITH TIME ZONE,
     completed_at TIMESTAMP WITH TIME ZONE,
@@ -203,11 +293,12 @@ CREATE TABLE IF NOT EXISTS album_templates (
     allow_download BOOLEAN DEFAULT true,
     allow_batch_download BOOLEAN DEFAULT false,
     show_exif BOOLEAN DEFAULT true,
-    password VARCHAR(255),
+    password VARCHAR(255),  -- 访问密码（PBKDF2 哈希）
     expires_at TIMESTAMP WITH TIME ZONE,
     watermark_enabled BOOLEAN DEFAULT false,
     watermark_type VARCHAR(50),
     watermark_config JSONB DEFAULT '{}',
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,  -- 使用模板创建相册时预选的客户
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -247,6 +338,324 @@ CREATE TABLE IF NOT EXISTS photo_group_assignments (
 CREATE INDEX IF NOT EXISTS idx_photo_group_assignments_group_id ON photo_group_assignments(group_id);
 CREATE INDEX IF NOT EXISTS idx_photo_group_assignments_photo_id ON photo_group_assignments(photo_id);
 
+-- ============================================
+-- 相册分享链接表（签名令牌，每条链接独立的有效期、权限和使用次数）
+-- ============================================
+CREATE TABLE IF NOT EXISTS album_share_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    label VARCHAR(100),                     -- 备注（如「新人」「亲友」）
+    permission VARCHAR(20) NOT NULL DEFAULT 'view' CHECK (permission IN ('view', 'download', 'select')),
+    expires_at TIMESTAMP WITH TIME ZONE,    -- NULL 表示永不过期
+    max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),  -- 最多可被多少位访客使用，NULL 表示不限
+    use_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,    -- 吊销时间，已使用该链接的访客同时失去对应权限
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_album_share_links_album_id ON album_share_links(album_id, created_at DESC);
+
+-- ============================================
+-- 访客选片会话表
+-- ============================================
+CREATE TABLE IF NOT EXISTS guest_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    guest_name VARCHAR(100) NOT NULL,       -- 访客姓名
+    guest_phone VARCHAR(50),                -- 访客手机号（可选）
+    share_link_id UUID REFERENCES album_share_links(id) ON DELETE SET NULL,  -- 访客使用的分享链接（直接访问时为 NULL）
+    submitted_at TIMESTAMP WITH TIME ZONE,  -- 提交最终选片时间（非空表示已锁定）
+    last_active_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_guest_sessions_album_id ON guest_sessions(album_id, created_at);
+
+-- ============================================
+-- 访客选片记录表
+-- ============================================
+CREATE TABLE IF NOT EXISTS guest_selections (
+    session_id UUID NOT NULL REFERENCES guest_sessions(id) ON DELETE CASCADE,
+    photo_id UUID NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, photo_id)
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_guest_selections_photo_id ON guest_selections(photo_id);
+CREATE INDEX IF NOT EXISTS idx_guest_selections_album_id ON guest_selections(album_id);
+
+-- ============================================
+-- 照片版本表（原图、AI 修图、人工精修 v1/v2...）
+-- ============================================
+CREATE TABLE IF NOT EXISTS photo_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    photo_id UUID NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,        -- 版本号，从 1（原图）开始递增
+    source VARCHAR(20) NOT NULL DEFAULT 'original' CHECK (source IN ('original', 'ai_retouch', 'retouch')),
+    storage_key VARCHAR(500) NOT NULL,      -- 该版本原始文件路径
+    file_size BIGINT,
+    mime_type VARCHAR(100),
+    hash VARCHAR(64),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (photo_id, version_number)
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_photo_versions_photo_id ON photo_versions(photo_id, version_number DESC);
+
+-- ============================================
+-- 审计日志表（只追加，记录管理端的敏感操作）
+-- ============================================
+CREATE TABLE IF NOT EXISTS audit_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    actor_email VARCHAR(255),               -- 操作者邮箱快照（用户删除后仍可追溯）
+    actor_role VARCHAR(50),
+    action VARCHAR(64) NOT NULL,            -- 操作类型，如 photo.permanent_delete、album.update
+    target_type VARCHAR(32) NOT NULL,       -- 操作对象类型：album / photo / user / client / webhook / style_preset / system
+    target_id VARCHAR(255),                 -- 操作对象 ID（批量操作为 NULL，详见 metadata）
+    changes JSONB,                          -- 变更前后差异 { 字段: { before, after } }
+    metadata JSONB,                         -- 其他上下文，如批量操作的 ID 列表
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_actor_id ON audit_logs(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_target ON audit_logs(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
+
+-- ============================================
+-- Webhook 端点表（相册/照片生命周期事件推送）
+-- ============================================
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    album_id UUID REFERENCES albums(id) ON DELETE CASCADE, -- NULL 表示全局端点（所有相册）
+    url TEXT NOT NULL,
+    secret VARCHAR(128) NOT NULL,           -- HMAC-SHA256 签名密钥
+    events TEXT[] NOT NULL DEFAULT '{}',    -- 订阅的事件，空数组表示全部事件
+    description VARCHAR(200),
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_album_id ON webhook_endpoints(album_id);
+
+-- ============================================
+-- Webhook 投递记录表
+-- ============================================
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    event VARCHAR(64) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'retrying', 'success', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,                     -- 响应内容（截断）
+    error TEXT,
+    duration_ms INTEGER,
+    delivered_at TIMESTAMP WITH TIME ZONE,  -- 最后一次尝试时间
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+
+-- ============================================
+-- 登录会话表（每次登录一条，刷新令牌轮换和吊销）
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),  -- 会话 ID，写入令牌的 sid 声明
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    refresh_jti VARCHAR(64) NOT NULL,       -- 当前有效的刷新令牌 ID
+    previous_refresh_jti VARCHAR(64),       -- 上一个刷新令牌 ID（轮换后短时间内仍可用，避免并发请求误判）
+    rotated_at TIMESTAMP WITH TIME ZONE,
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,    -- 吊销时间，非 NULL 的会话令牌一律拒绝
+    revoked_reason VARCHAR(32)              -- signout / revoked / refresh_reuse / password_changed / two_factor_reset
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id, created_at DESC);
+
+-- ============================================
+-- 登录历史表（成功和失败的登录尝试）
+-- ============================================
+CREATE TABLE IF NOT EXISTS login_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,  -- 邮箱不存在时为 NULL
+    email VARCHAR(255),
+    success BOOLEAN NOT NULL,
+    method VARCHAR(20) NOT NULL DEFAULT 'password' CHECK (method IN ('password', 'totp', 'recovery_code')),
+    failure_reason VARCHAR(32),             -- invalid_credentials / invalid_totp / inactive 等
+    session_id UUID,
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_login_history_user_id ON login_history(user_id, created_at DESC);
+
+-- ============================================
+-- 访问统计事件表（相册浏览、照片查看、下载、分享、人脸搜索）
+-- ============================================
+-- 设备、来源和国家在写入时由 User-Agent / Referer / 请求头本地解析，不调用外部服务
+-- visitor_hash 为按天轮换的匿名访客标识（IP + User-Agent 摘要），只用于去重统计
+CREATE TABLE IF NOT EXISTS analytics_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    photo_id UUID REFERENCES photos(id) ON DELETE SET NULL,  -- 相册级事件为 NULL
+    event_type VARCHAR(32) NOT NULL CHECK (event_type IN (
+        'album_view', 'photo_view', 'photo_download', 'batch_download',
+        'package_download', 'share', 'face_search'
+    )),
+    device_type VARCHAR(16) NOT NULL DEFAULT 'unknown' CHECK (device_type IN ('desktop', 'mobile', 'tablet', 'unknown')),
+    browser VARCHAR(32),
+    os VARCHAR(32),
+    referrer_host VARCHAR(255),             -- 外部来源域名，站内跳转和直接访问为 NULL
+    country CHAR(2),                        -- ISO 3166-1 国家代码
+    visitor_hash VARCHAR(64),
+    metadata JSONB,                         -- 事件附加信息，如批量下载的照片数量
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_analytics_events_album_id ON analytics_events(album_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_created_at ON analytics_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_photo_id ON analytics_events(photo_id) WHERE photo_id IS NOT NULL;
+
+-- ============================================
+-- 系统设置表（品牌、相册默认选项、功能开关）
+-- ============================================
+-- 每个设置项一行，value 为 JSON 值；未写入的设置项使用代码中的默认值（兼容旧的环境变量配置）
+CREATE TABLE IF NOT EXISTS system_settings (
+    key VARCHAR(100) PRIMARY KEY,
+    category VARCHAR(32) NOT NULL CHECK (category IN ('branding', 'album_defaults', 'features', 'storage')),
+    value JSONB NOT NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_system_settings_category ON system_settings(category);
+
+-- ============================================
+-- 客户通知邮件模板表（每种通知类型每种语言一个模板）
+-- ============================================
+-- 正文为纯文本，支持 {{client_name}}、{{album_title}}、{{album_url}}、{{studio_name}} 等变量
+CREATE TABLE IF NOT EXISTS notification_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type VARCHAR(50) NOT NULL CHECK (type IN ('album_ready', 'photos_added', 'selection_received', 'package_ready', 'album_expiring')),
+    locale VARCHAR(10) NOT NULL,
+    subject VARCHAR(200) NOT NULL,
+    body TEXT NOT NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(type, locale)
+);
+
+-- ============================================
+-- 客户通知记录表（每封邮件一条，保存渲染后的内容）
+-- ============================================
+CREATE TABLE IF NOT EXISTS client_notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    type VARCHAR(50) NOT NULL,
+    locale VARCHAR(10) NOT NULL,
+    recipient VARCHAR(255) NOT NULL,
+    subject VARCHAR(500) NOT NULL,
+    body TEXT NOT NULL,
+    data JSONB DEFAULT '{}',                -- 触发通知时的参数（如新增照片数、下载链接）
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'retrying', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_client_notifications_album_id ON client_notifications(album_id, type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_client_notifications_client_id ON client_notifications(client_id, created_at DESC);
+
+-- ============================================
+-- 3D LUT 表（修图师上传的 .cube 调色文件，文件本身保存在对象存储）
+-- ============================================
+CREATE TABLE IF NOT EXISTS style_luts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    storage_key VARCHAR(500) NOT NULL,      -- 如 style-luts/{id}.cube
+    lut_size INTEGER NOT NULL,              -- LUT_3D_SIZE（每个通道的采样点数）
+    file_size BIGINT NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- 自定义风格预设表（与 Worker 内置预设一起出现在风格选择器中）
+-- ============================================
+-- 相册的 color_grading.preset 保存预设 ID：内置预设为英文 ID，自定义预设为本表的 UUID
+CREATE TABLE IF NOT EXISTS style_presets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    category VARCHAR(20) NOT NULL DEFAULT 'general' CHECK (category IN ('portrait', 'landscape', 'general')),
+    description VARCHAR(500),
+    config JSONB NOT NULL DEFAULT '{}',     -- 亮度/对比度/白平衡/自然饱和度/暗角/颗粒/曲线等参数
+    lut_id UUID REFERENCES style_luts(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_style_presets_lut_id ON style_presets(lut_id);
+
+-- ============================================
+-- 下载指纹表（访客下载和打包交付的照片中嵌入的不可见指纹）
+-- ============================================
+-- 每次下载（单张、批量、打包）一条记录，code 嵌入照片像素中；
+-- 照片外泄后由管理端「泄露溯源」解出 code，对应到相册、访客会话、分享链接和下载时间
+CREATE TABLE IF NOT EXISTS download_fingerprints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code CHAR(12) NOT NULL UNIQUE,          -- 48 位指纹编号（十六进制）
+    source VARCHAR(20) NOT NULL CHECK (source IN ('download', 'batch_download', 'package')),
+    album_id UUID NOT NULL REFERENCES albums(id) ON DELETE CASCADE,
+    photo_id UUID REFERENCES photos(id) ON DELETE SET NULL,                   -- 单张下载的照片
+    package_id UUID REFERENCES package_downloads(id) ON DELETE SET NULL,      -- 打包下载任务
+    share_link_id UUID REFERENCES album_share_links(id) ON DELETE SET NULL,   -- 访客使用的分享链接
+    guest_session_id UUID REFERENCES guest_sessions(id) ON DELETE SET NULL,   -- 访客选片会话
+    visitor_hash VARCHAR(64),               -- 与访问统计相同的匿名访客标识
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,                  -- 打包交付的操作者
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建索引
+CREATE INDEX IF NOT EXISTS idx_download_fingerprints_album_id ON download_fingerprints(album_id, created_at DESC);
+
 -- ============================================
 -- 辅助函数：增量更新相册照片数量
 -- ============================================
@@ -281,6 +690,280 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- ============================================
+-- 辅助函数：根据访客选片记录刷新照片选中状态
+-- ============================================
+-- photos.is_selected 表示「至少被一位访客选中」
+-- albums.selected_count 表示被选中的照片数量（去重）
+CREATE OR REPLACE FUNCTION refresh_photo_selection(photo_id UUID)
+RETURNS void AS $$
+DECLARE
+    target_album_id UUID;
+BEGIN
+    UPDATE photos
+    SET is_selected = EXISTS (
+        SELECT 1 FROM guest_selections
+        WHERE guest_selections.photo_id = refresh_photo_selection.photo_id
+    )
+    WHERE id = refresh_photo_selection.photo_id
+    RETURNING album_id INTO target_album_id;
+
+    IF target_album_id IS NOT NULL THEN
+        UPDATE albums
+        SET selected_count = (
+            SELECT COUNT(DISTINCT gs.photo_id) FROM guest_selections gs
+            JOIN photos p ON p.id = gs.photo_id
+            WHERE gs.album_id = target_album_id
+            AND p.deleted_at IS NULL
+        )
+        WHERE id = target_album_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 辅助函数：访客选中照片（原子地检查最多可选数量并写入）
+-- ============================================
+-- 锁定访客会话行，同一访客的并发选片依次执行，不会超出 max_selection（NULL 或 0 表示不限制）
+-- 返回 {"status": "inserted" | "exists" | "limit_reached", "selected_count": 该访客当前已选数量}
+CREATE OR REPLACE FUNCTION add_guest_selection(session_id UUID, photo_id UUID, album_id UUID, max_selection INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+    current_count INTEGER;
+BEGIN
+    PERFORM 1 FROM guest_sessions WHERE id = add_guest_selection.session_id FOR UPDATE;
+
+    SELECT COUNT(*) INTO current_count FROM guest_selections gs
+    WHERE gs.session_id = add_guest_selection.session_id;
+
+    IF EXISTS (
+        SELECT 1 FROM guest_selections gs
+        WHERE gs.session_id = add_guest_selection.session_id
+        AND gs.photo_id = add_guest_selection.photo_id
+    ) THEN
+        RETURN jsonb_build_object('status', 'exists', 'selected_count', current_count);
+    END IF;
+
+    IF COALESCE(add_guest_selection.max_selection, 0) > 0 AND current_count >= add_guest_selection.max_selection THEN
+        RETURN jsonb_build_object('status', 'limit_reached', 'selected_count', current_count);
+    END IF;
+
+    INSERT INTO guest_selections (session_id, photo_id, album_id)
+    VALUES (add_guest_selection.session_id, add_guest_selection.photo_id, add_guest_selection.album_id);
+
+    RETURN jsonb_build_object('status', 'inserted', 'selected_count', current_count + 1);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 辅助函数：使用分享链接（原子地检查有效性并增加使用次数）
+-- ============================================
+-- 返回 TRUE 表示链接有效且已计数；已吊销、已过期或使用次数已满返回 FALSE
+CREATE OR REPLACE FUNCTION redeem_album_share_link(link_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE album_share_links
+    SET use_count = use_count + 1,
+        last_used_at = NOW()
+    WHERE id = link_id
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW())
+    AND (max_uses IS NULL OR use_count < max_uses);
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 辅助函数：访问统计汇总
+-- ============================================
+-- p_album_id 为 NULL 时统计全部相册；返回 JSONB，供管理后台统计页使用
+CREATE OR REPLACE FUNCTION get_analytics_summary(p_album_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS JSONB AS $$
+    WITH events AS (
+        SELECT * FROM analytics_events
+        WHERE created_at >= p_from
+        AND created_at < p_to
+        AND (p_album_id IS NULL OR album_id = p_album_id)
+    )
+    SELECT jsonb_build_object(
+        'totals', COALESCE((
+            SELECT jsonb_object_agg(event_type, total)
+            FROM (SELECT event_type, COUNT(*) AS total FROM events GROUP BY event_type) t
+        ), '{}'::jsonb),
+        'unique_visitors', (SELECT COUNT(DISTINCT visitor_hash) FROM events),
+        'daily', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('date', day, 'event_type', event_type, 'count', total) ORDER BY day)
+            FROM (
+                SELECT to_char(date_trunc('day', created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS day,
+                       event_type, COUNT(*) AS total
+                FROM events GROUP BY 1, 2
+            ) t
+        ), '[]'::jsonb),
+        'devices', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('key', device_type, 'count', total) ORDER BY total DESC)
+            FROM (SELECT device_type, COUNT(*) AS total FROM events GROUP BY device_type) t
+        ), '[]'::jsonb),
+        'referrers', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('key', referrer_host, 'count', total) ORDER BY total DESC)
+            FROM (
+                SELECT referrer_host, COUNT(*) AS total FROM events
+                WHERE referrer_host IS NOT NULL
+                GROUP BY referrer_host ORDER BY total DESC LIMIT 10
+            ) t
+        ), '[]'::jsonb),
+        'countries', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('key', country, 'count', total) ORDER BY total DESC)
+            FROM (
+                SELECT country, COUNT(*) AS total FROM events
+                WHERE country IS NOT NULL
+                GROUP BY country ORDER BY total DESC LIMIT 10
+            ) t
+        ), '[]'::jsonb),
+        'top_photos', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'photo_id', photo_id, 'album_id', album_id, 'views', views, 'downloads', downloads
+            ) ORDER BY views + downloads DESC)
+            FROM (
+                SELECT photo_id, album_id,
+                       COUNT(*) FILTER (WHERE event_type = 'photo_view') AS views,
+                       COUNT(*) FILTER (WHERE event_type = 'photo_download') AS downloads
+                FROM events
+                WHERE photo_id IS NOT NULL
+                GROUP BY photo_id, album_id
+                ORDER BY COUNT(*) DESC LIMIT 20
+            ) t
+        ), '[]'::jsonb),
+        'top_albums', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'album_id', album_id, 'views', views, 'downloads', downloads
+            ) ORDER BY views DESC)
+            FROM (
+                SELECT album_id,
+                       COUNT(*) FILTER (WHERE event_type = 'album_view') AS views,
+                       COUNT(*) FILTER (WHERE event_type IN ('photo_download', 'batch_download', 'package_download')) AS downloads
+                FROM events
+                GROUP BY album_id
+                ORDER BY views DESC LIMIT 10
+            ) t
+        ), '[]'::jsonb)
+    );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 辅助函数：搜索客户（姓名/电话/邮箱模糊匹配，可按标签筛选），附带关联相册数量
+-- ============================================
+CREATE OR REPLACE FUNCTION search_clients(p_search TEXT, p_tag TEXT, p_limit INTEGER, p_offset INTEGER)
+RETURNS JSONB AS $$
+    WITH matched AS (
+        SELECT * FROM clients
+        WHERE (
+            p_search IS NULL
+            OR name ILIKE '%' || p_search || '%'
+            OR phone ILIKE '%' || p_search || '%'
+            OR email ILIKE '%' || p_search || '%'
+        )
+        AND (p_tag IS NULL OR p_tag = ANY(tags))
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT COUNT(*) FROM matched),
+        'clients', COALESCE((
+            SELECT jsonb_agg(to_jsonb(c) || jsonb_build_object(
+                'album_count', (SELECT COUNT(*) FROM albums a WHERE a.client_id = c.id AND a.deleted_at IS NULL)
+            ) ORDER BY c.name, c.created_at)
+            FROM (SELECT * FROM matched ORDER BY name, created_at LIMIT p_limit OFFSET p_offset) c
+        ), '[]'::jsonb)
+    );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 辅助函数：客户的相册、访客选片和下载记录
+-- ============================================
+CREATE OR REPLACE FUNCTION get_client_activity(p_client_id UUID)
+RETURNS JSONB AS $$
+    WITH client_albums AS (
+        SELECT id, title, slug, event_date, photo_count, created_at FROM albums
+        WHERE client_id = p_client_id AND deleted_at IS NULL
+    )
+    SELECT jsonb_build_object(
+        'albums', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', a.id, 'title', a.title, 'slug', a.slug, 'event_date', a.event_date,
+                'photo_count', a.photo_count, 'created_at', a.created_at,
+                'guest_count', (SELECT COUNT(*) FROM guest_sessions s WHERE s.album_id = a.id),
+                'selected_photo_count', (SELECT COUNT(DISTINCT g.photo_id) FROM guest_selections g WHERE g.album_id = a.id),
+                'download_count', (
+                    SELECT COUNT(*) FROM analytics_events e
+                    WHERE e.album_id = a.id
+                    AND e.event_type IN ('photo_download', 'batch_download', 'package_download')
+                )
+            ) ORDER BY a.created_at DESC)
+            FROM client_albums a
+        ), '[]'::jsonb),
+        'selections', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', s.id, 'album_id', s.album_id, 'guest_name', s.guest_name, 'guest_phone', s.guest_phone,
+                'submitted_at', s.submitted_at, 'last_active_at', s.last_active_at,
+                'selected_count', (SELECT COUNT(*) FROM guest_selections g WHERE g.session_id = s.id)
+            ) ORDER BY s.last_active_at DESC)
+            FROM (
+                SELECT * FROM guest_sessions
+                WHERE album_id IN (SELECT id FROM client_albums)
+                ORDER BY last_active_at DESC LIMIT 200
+            ) s
+        ), '[]'::jsonb),
+        'downloads', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', p.id, 'album_id', p.album_id, 'status', p.status,
+                'photo_count', COALESCE(array_length(p.photo_ids, 1), 0), 'file_size', p.file_size,
+                'created_at', p.created_at, 'completed_at', p.completed_at
+            ) ORDER BY p.created_at DESC)
+            FROM (
+                SELECT * FROM package_downloads
+                WHERE album_id IN (SELECT id FROM client_albums)
+                ORDER BY created_at DESC LIMIT 200
+            ) p
+        ), '[]'::jsonb)
+    );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 辅助函数：相册存储用量（原图 + 缩略图 + 预览图 + 打包下载）
+-- ============================================
+-- p_album_ids 为 NULL 时统计全部相册；回收站中的照片在彻底删除前仍占用空间，一并计入
+-- 原图包含照片当前原图和历史版本文件（版本与当前原图相同时不重复计算）
+CREATE OR REPLACE FUNCTION get_storage_usage(p_album_ids UUID[])
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'album_id', a.id, 'owner_id', a.owner_id,
+        'photo_count', COALESCE(p.photo_count, 0),
+        'originals', COALESCE(p.originals, 0) + COALESCE(v.versions, 0),
+        'thumbs', COALESCE(p.thumbs, 0),
+        'previews', COALESCE(p.previews, 0),
+        'packages', COALESCE(k.packages, 0)
+    )), '[]'::jsonb)
+    FROM albums a
+    LEFT JOIN (
+        SELECT album_id, COUNT(*) AS photo_count, SUM(file_size) AS originals,
+               SUM(thumb_size) AS thumbs, SUM(preview_size) AS previews
+        FROM photos GROUP BY album_id
+    ) p ON p.album_id = a.id
+    LEFT JOIN (
+        SELECT pv.album_id, SUM(pv.file_size) AS versions
+        FROM photo_versions pv
+        JOIN photos ph ON ph.id = pv.photo_id
+        WHERE pv.storage_key <> ph.original_key
+        GROUP BY pv.album_id
+    ) v ON v.album_id = a.id
+    LEFT JOIN (
+        SELECT album_id, SUM(file_size) AS packages
+        FROM package_downloads
+        WHERE zip_key IS NOT NULL
+        GROUP BY album_id
+    ) k ON k.album_id = a.id
+    WHERE p_album_ids IS NULL OR a.id = ANY(p_album_ids);
+$$ LANGUAGE sql STABLE;
+
 -- ============================================
 -- 触发器：自动更新 updated_at
 -- ============================================
@@ -299,6 +982,13 @@ CREATE TRIGGER update_albums_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+-- 为 album_collaborators 表创建触发器
+DROP TRIGGER IF EXISTS update_album_collaborators_updated_at ON album_collaborators;
+CREATE TRIGGER update_album_collaborators_updated_at
+    BEFORE UPDATE ON album_collaborators
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- 为 photos 表创建触发器
 DROP TRIGGER IF EXISTS update_photos_updated_at ON photos;
 CREATE TRIGGER update_photos_updated_at
@@ -313,6 +1003,13 @@ CREATE TRIGGER update_users_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+-- 为 clients 表创建触发器
+DROP TRIGGER IF EXISTS update_clients_updated_at ON clients;
+CREATE TRIGGER update_clients_updated_at
+    BEFORE UPDATE ON clients
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- 为 album_templates 表创建触发器
 DROP TRIGGER IF EXISTS update_album_templates_updated_at ON album_templates;
 CREATE TRIGGER update_album_templates_updated_at
@@ -327,6 +1024,13 @@ CREATE TRIGGER update_photo_groups_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+-- 为 face_persons 表创建触发器
+DROP TRIGGER IF EXISTS update_face_persons_updated_at ON face_persons;
+CREATE TRIGGER update_face_persons_updated_at
+    BEFORE UPDATE ON face_persons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- 为 package_downloads 表创建触发器
 DROP TRIGGER IF EXISTS update_package_downloads_updated_at ON package_downloads;
 CREATE TRIGGER update_package_downloads_updated_at
@@ -334,6 +1038,64 @@ CREATE TRIGGER update_package_downloads_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+-- 为 guest_sessions 表创建触发器
+DROP TRIGGER IF EXISTS update_guest_sessions_updated_at ON guest_sessions;
+CREATE TRIGGER update_guest_sessions_updated_at
+    BEFORE UPDATE ON guest_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 为 album_share_links 表创建触发器
+DROP TRIGGER IF EXISTS update_album_share_links_updated_at ON album_share_links;
+CREATE TRIGGER update_album_share_links_updated_at
+    BEFORE UPDATE ON album_share_links
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 为 webhook_endpoints 表创建触发器
+DROP TRIGGER IF EXISTS update_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER update_webhook_endpoints_updated_at
+    BEFORE UPDATE ON webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 为 style_presets 表创建触发器
+DROP TRIGGER IF EXISTS update_style_presets_updated_at ON style_presets;
+CREATE TRIGGER update_style_presets_updated_at
+    BEFORE UPDATE ON style_presets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 为 system_settings 表创建触发器
+DROP TRIGGER IF EXISTS update_system_settings_updated_at ON system_settings;
+CREATE TRIGGER update_system_settings_updated_at
+    BEFORE UPDATE ON system_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 为 notification_templates 表创建触发器
+DROP TRIGGER IF EXISTS update_notification_templates_updated_at ON notification_templates;
+CREATE TRIGGER update_notification_templates_updated_at
+    BEFORE UPDATE ON notification_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 触发器：审计日志只允许追加
+-- ============================================
+CREATE OR REPLACE FUNCTION prevent_audit_log_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_logs 为只追加表，不允许 %', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_audit_logs_modification ON audit_logs;
+CREATE TRIGGER prevent_audit_logs_modification
+    BEFORE UPDATE OR DELETE ON audit_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_audit_log_modification();
+
 -- ============================================
 -- 创建默认用户账户（各角色）
 -- ============================================
@@ -391,6 +1153,33 @@ VALUES (
 )
 ON CONFLICT (email) DO NOTHING;
 
+-- ============================================
+-- 默认客户通知邮件模板（可在后台「系统设置 > 通知模板」中修改）
+-- ============================================
+INSERT INTO notification_templates (type, locale, subject, body)
+VALUES
+    ('album_ready', 'zh-CN', '您的相册「{{album_title}}」已就绪',
+     E'{{client_name}}，您好：\n\n您的相册「{{album_title}}」已经可以查看了。\n\n查看相册：{{album_url}}\n\n{{studio_name}}'),
+    ('album_ready', 'en', 'Your album "{{album_title}}" is ready',
+     E'Hi {{client_name}},\n\nYour album "{{album_title}}" is ready to view.\n\nView album: {{album_url}}\n\n{{studio_name}}'),
+    ('photos_added', 'zh-CN', '相册「{{album_title}}」新增了 {{photo_count}} 张照片',
+     E'{{client_name}}，您好：\n\n相册「{{album_title}}」新增了 {{photo_count}} 张照片。\n\n查看相册：{{album_url}}\n\n{{studio_name}}'),
+    ('photos_added', 'en', '{{photo_count}} new photos in "{{album_title}}"',
+     E'Hi {{client_name}},\n\n{{photo_count}} new photos have been added to "{{album_title}}".\n\nView album: {{album_url}}\n\n{{studio_name}}'),
+    ('selection_received', 'zh-CN', '已收到您在「{{album_title}}」中的选片',
+     E'{{client_name}}，您好：\n\n我们已收到 {{guest_name}} 在相册「{{album_title}}」中提交的选片，共 {{selected_count}} 张。我们会尽快处理。\n\n{{studio_name}}'),
+    ('selection_received', 'en', 'We received your selection for "{{album_title}}"',
+     E'Hi {{client_name}},\n\nWe have received the selection submitted by {{guest_name}} for "{{album_title}}" ({{selected_count}} photos). We will get back to you soon.\n\n{{studio_name}}'),
+    ('package_ready', 'zh-CN', '相册「{{album_title}}」的打包下载已就绪',
+     E'{{client_name}}，您好：\n\n相册「{{album_title}}」的 {{photo_count}} 张照片已打包完成。\n\n下载链接：{{download_url}}\n\n{{studio_name}}'),
+    ('package_ready', 'en', 'Your download for "{{album_title}}" is ready',
+     E'Hi {{client_name}},\n\nThe {{photo_count}} photos from "{{album_title}}" have been packaged.\n\nDownload: {{download_url}}\n\n{{studio_name}}'),
+    ('album_expiring', 'zh-CN', '相册「{{album_title}}」即将过期',
+     E'{{client_name}}，您好：\n\n相册「{{album_title}}」将于 {{expires_at}} 过期，请在此之前查看和下载照片。\n\n查看相册：{{album_url}}\n\n{{studio_name}}'),
+    ('album_expiring', 'en', 'Your album "{{album_title}}" expires soon',
+     E'Hi {{client_name}},\n\nYour album "{{album_title}}" will expire on {{expires_at}}. Please view and download your photos before then.\n\nView album: {{album_url}}\n\n{{studio_name}}')
+ON CONFLICT (type, locale) DO NOTHING;
+
 -- ============================================
 -- 初始化完成提示
 -- ============================================
@@ -402,12 +1191,31 @@ BEGIN
     
     RAISE NOTICE '✅ PIS 数据库初始化完成！';
     RAISE NOTICE '   - users 表: 存储管理员账号（自定义认证模式）';
+    RAISE NOTICE '   - clients 表: 存储客户信息';
     RAISE NOTICE '   - albums 表: 存储相册信息';
+    RAISE NOTICE '   - album_collaborators 表: 存储相册协作者';
     RAISE NOTICE '   - photos 表: 存储照片信息';
     RAISE NOTICE '   - album_templates 表: 存储相册模板';
     RAISE NOTICE '   - package_downloads 表: 存储打包下载任务';
     RAISE NOTICE '   - photo_groups 表: 存储照片分组';
     RAISE NOTICE '   - photo_group_assignments 表: 存储照片分组关联';
+    RAISE NOTICE '   - guest_sessions 表: 存储访客选片会话';
+    RAISE NOTICE '   - guest_selections 表: 存储访客选片记录';
+    RAISE NOTICE '   - photo_versions 表: 存储照片版本历史';
+    RAISE NOTICE '   - face_persons 表: 存储人脸聚类得到的人物';
+    RAISE NOTICE '   - audit_logs 表: 存储管理操作审计日志（只追加）';
+    RAISE NOTICE '   - webhook_endpoints 表: 存储 Webhook 端点';
+    RAISE NOTICE '   - webhook_deliveries 表: 存储 Webhook 投递记录';
+    RAISE NOTICE '   - user_sessions 表: 存储登录会话';
+    RAISE NOTICE '   - login_history 表: 存储登录历史';
+    RAISE NOTICE '   - album_share_links 表: 存储相册分享链接';
+    RAISE NOTICE '   - analytics_events 表: 存储访问统计事件';
+    RAISE NOTICE '   - system_settings 表: 存储系统设置（品牌、相册默认选项、功能开关）';
+    RAISE NOTICE '   - notification_templates 表: 存储客户通知邮件模板';
+    RAISE NOTICE '   - client_notifications 表: 存储客户通知发送记录';
+    RAISE NOTICE '   - style_luts 表: 存储上传的 3D LUT 文件';
+    RAISE NOTICE '   - style_presets 表: 存储自定义风格预设';
+    RAISE NOTICE '   - download_fingerprints 表: 存储下载指纹（泄露溯源）';
     RAISE NOTICE '';
     RAISE NOTICE '👤 默认用户账户:';
     RAISE NOTICE '   - 管理员: admin@pis.com';
@@ -15,6 +15,15 @@ SET session_replication_role = 'replica';
 -- 删除所有表（按依赖顺序）
 -- ============================================
 
+-- 删除照片版本表
+DROP TABLE IF EXISTS photo_versions CASCADE;
+
+-- 删除访客选片记录表
+DROP TABLE IF EXISTS guest_selections CASCADE;
+
+-- 删除访客选片会话表
+DROP TABLE IF EXISTS guest_sessions CASCADE;
+
 -- 删除照片分组关联表
 DROP TABLE IF EXISTS photo_group_assignments CASCADE;
 
@@ -46,6 +55,8 @@ DROP TABLE IF EXISTS users CASCADE;
 DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;
 DROP FUNCTION IF EXISTS increment_photo_count(UUID) CASCADE;
 DROP FUNCTION IF EXISTS decrement_photo_count(UUID) CASCADE;
+DROP FUNCTION IF EXISTS refresh_photo_selection(UUID) CASCADE;
+DROP FUNCTION IF EXISTS add_guest_selection(UUID, UUID, UUID, INTEGER) CASCADE;
 
 -- 恢复外键约束检查
 SET session_replication_role = 'origin';
@@ -9,12 +9,31 @@ DO $$
 DECLARE
     required_tables TEXT[] := ARRAY[
         'users',
+        'clients',
         'albums',
+        'album_collaborators',
         'photos',
         'album_templates',
         'package_downloads',
         'photo_groups',
-        'photo_group_assignments'
+        'photo_group_assignments',
+        'guest_sessions',
+        'guest_selections',
+        'photo_versions',
+        'face_persons',
+        'audit_logs',
+        'webhook_endpoints',
+        'webhook_deliveries',
+        'user_sessions',
+        'login_history',
+        'album_share_links',
+        'analytics_events',
+        'system_settings',
+        'notification_templates',
+        'client_notifications',
+        'style_luts',
+        'style_presets',
+        'download_fingerprints'
     ];
     missing_tables TEXT[] := '{}';
     tbl TEXT;
@@ -46,8 +65,9 @@ DECLARE
         'allow_batch_download', 'show_exif', 'allow_share', 'watermark_enabled',
         'watermark_type', 'watermark_config', 'color_grading', 'share_title',
         'share_description', 'share_image_url', 'poster_image_url', 'event_date',
-        'location', 'is_live', 'photo_count', 'selected_count', 'view_count',
-        'created_at', 'updated_at', 'deleted_at'
+        'location', 'is_live', 'max_selection', 'photo_count', 'selected_count',
+        'view_count', 'owner_id', 'client_id', 'notify_client', 'lifecycle_state',
+        'lifecycle_changed_at', 'created_at', 'updated_at', 'deleted_at'
     ];
     missing_columns TEXT[] := '{}';
     col TEXT;
@@ -71,14 +91,42 @@ BEGIN
     END IF;
 END $$;
 
+-- 检查 album_collaborators 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'album_id', 'user_id', 'role', 'invited_by', 'created_at', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'album_collaborators'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'album_collaborators 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ album_collaborators 表所有必需字段都存在';
+    END IF;
+END $$;
+
 -- 检查 photos 表的必需字段
 DO $$
 DECLARE
     required_columns TEXT[] := ARRAY[
-        'id', 'album_id', 'original_key', 'preview_key', 'thumb_key', 'filename',
-        'file_size', 'width', 'height', 'mime_type', 'blur_data', 'exif',
+        'id', 'album_id', 'original_key', 'raw_key', 'preview_key', 'thumb_key', 'derivatives', 'filename',
+        'file_size', 'thumb_size', 'preview_size', 'width', 'height', 'mime_type', 'blur_data', 'exif',
         'captured_at', 'status', 'is_selected', 'sort_order', 'rotation',
-        'created_at', 'updated_at', 'deleted_at'
+        'current_version_id', 'media_type', 'video_key', 'duration', 'created_at', 'updated_at', 'deleted_at'
     ];
     missing_columns TEXT[] := '{}';
     col TEXT;
@@ -108,6 +156,7 @@ DECLARE
     required_columns TEXT[] := ARRAY[
         'id', 'album_id', 'photo_ids', 'include_watermarked', 'include_original',
         'status', 'zip_key', 'file_size', 'download_url', 'expires_at',
+        'progress', 'processed_photos', 'total_photos', 'resume_state',
         'created_at', 'updated_at', 'completed_at'
     ];
     missing_columns TEXT[] := '{}';
@@ -139,7 +188,7 @@ DECLARE
         'id', 'name', 'description', 'is_public', 'layout', 'sort_rule',
         'allow_download', 'allow_batch_download', 'show_exif', 'password',
         'expires_at', 'watermark_enabled', 'watermark_type', 'watermark_config',
-        'created_at', 'updated_at'
+        'client_id', 'created_at', 'updated_at'
     ];
     missing_columns TEXT[] := '{}';
     col TEXT;
@@ -220,17 +269,532 @@ BEGIN
     END IF;
 END $$;
 
+-- 检查 guest_sessions 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'album_id', 'guest_name', 'guest_phone', 'share_link_id', 'submitted_at',
+        'last_active_at', 'created_at', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'guest_sessions'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'guest_sessions 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ guest_sessions 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 guest_selections 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'session_id', 'photo_id', 'album_id', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'guest_selections'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'guest_selections 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ guest_selections 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 photo_versions 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'photo_id', 'album_id', 'version_number', 'source', 'storage_key',
+        'file_size', 'mime_type', 'hash', 'created_by', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'photo_versions'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'photo_versions 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ photo_versions 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 face_persons 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'album_id', 'name', 'is_hidden', 'cover_face_id', 'face_count',
+        'photo_count', 'created_at', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'face_persons'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'face_persons 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ face_persons 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 audit_logs 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'actor_id', 'actor_email', 'actor_role', 'action', 'target_type',
+        'target_id', 'changes', 'metadata', 'ip_address', 'user_agent', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'audit_logs'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'audit_logs 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ audit_logs 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 webhook_endpoints 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'album_id', 'url', 'secret', 'events', 'description', 'is_active',
+        'created_by', 'created_at', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'webhook_endpoints'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'webhook_endpoints 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ webhook_endpoints 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 webhook_deliveries 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'endpoint_id', 'event', 'payload', 'status', 'attempts', 'response_status',
+        'response_body', 'error', 'duration_ms', 'delivered_at', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'webhook_deliveries'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'webhook_deliveries 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ webhook_deliveries 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 user_sessions 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'user_id', 'refresh_jti', 'previous_refresh_jti', 'rotated_at', 'ip_address',
+        'user_agent', 'created_at', 'last_used_at', 'expires_at', 'revoked_at', 'revoked_reason'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'user_sessions'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'user_sessions 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ user_sessions 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 login_history 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'user_id', 'email', 'success', 'method', 'failure_reason', 'session_id',
+        'ip_address', 'user_agent', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'login_history'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'login_history 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ login_history 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 album_share_links 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'album_id', 'label', 'permission', 'expires_at', 'max_uses', 'use_count',
+        'last_used_at', 'revoked_at', 'created_by', 'created_at', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'album_share_links'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'album_share_links 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ album_share_links 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 analytics_events 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'album_id', 'photo_id', 'event_type', 'device_type', 'browser', 'os',
+        'referrer_host', 'country', 'visitor_hash', 'metadata', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'analytics_events'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'analytics_events 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ analytics_events 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 system_settings 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'key', 'category', 'value', 'updated_by', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'system_settings'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'system_settings 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ system_settings 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 clients 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'name', 'phone', 'email', 'notes', 'tags', 'locale', 'created_by',
+        'created_at', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'clients'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'clients 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ clients 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 client_notifications 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'album_id', 'client_id', 'type', 'locale', 'recipient', 'subject',
+        'body', 'data', 'status', 'attempts', 'error', 'sent_at', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'client_notifications'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'client_notifications 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ client_notifications 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 style_luts 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'name', 'storage_key', 'lut_size', 'file_size', 'created_by', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'style_luts'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'style_luts 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ style_luts 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 style_presets 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'name', 'category', 'description', 'config', 'lut_id', 'created_by',
+        'created_at', 'updated_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'style_presets'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'style_presets 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ style_presets 表所有必需字段都存在';
+    END IF;
+END $$;
+
+-- 检查 download_fingerprints 表的必需字段
+DO $$
+DECLARE
+    required_columns TEXT[] := ARRAY[
+        'id', 'code', 'source', 'album_id', 'photo_id', 'package_id', 'share_link_id',
+        'guest_session_id', 'visitor_hash', 'ip_address', 'user_agent', 'created_by', 'created_at'
+    ];
+    missing_columns TEXT[] := '{}';
+    col TEXT;
+BEGIN
+    FOREACH col IN ARRAY required_columns
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns 
+            WHERE table_schema = 'public' 
+            AND table_name = 'download_fingerprints'
+            AND column_name = col
+        ) THEN
+            missing_columns := array_append(missing_columns, col);
+        END IF;
+    END LOOP;
+    
+    IF array_length(missing_columns, 1) > 0 THEN
+        RAISE EXCEPTION 'download_fingerprints 表缺少以下字段: %', array_to_string(missing_columns, ', ');
+    ELSE
+        RAISE NOTICE '✅ download_fingerprints 表所有必需字段都存在';
+    END IF;
+END $$;
+
 -- 检查关键索引是否存在
 DO $$
 DECLARE
     required_indexes TEXT[] := ARRAY[
         'idx_albums_slug',
+        'idx_albums_owner_id',
+        'idx_albums_client_id',
+        'idx_albums_expires_at',
+        'idx_clients_name',
+        'idx_album_collaborators_user_id',
         'idx_photos_album_id',
         'idx_photos_status',
         'idx_package_downloads_album_id',
         'idx_photo_groups_album_id',
         'idx_photo_group_assignments_group_id',
-        'idx_photo_group_assignments_photo_id'
+        'idx_photo_group_assignments_photo_id',
+        'idx_guest_sessions_album_id',
+        'idx_guest_selections_photo_id',
+        'idx_photo_versions_photo_id',
+        'idx_face_persons_album_id',
+        'idx_face_embeddings_person_id',
+        'idx_audit_logs_created_at',
+        'idx_audit_logs_actor_id',
+        'idx_audit_logs_target',
+        'idx_webhook_endpoints_album_id',
+        'idx_webhook_deliveries_endpoint_id',
+        'idx_user_sessions_user_id',
+        'idx_login_history_user_id',
+        'idx_album_share_links_album_id',
+        'idx_analytics_events_album_id',
+        'idx_analytics_events_created_at',
+        'idx_system_settings_category',
+        'idx_client_notifications_album_id',
+        'idx_client_notifications_client_id',
+        'idx_style_presets_lut_id',
+        'idx_download_fingerprints_album_id'
     ];
     missing_indexes TEXT[] := '{}';
     idx TEXT;
@@ -0,0 +1,125 @@
+#!/usr/bin/env tsx
+/**
+ * 将相册和相册模板中的明文访问密码迁移为哈希
+ *
+ * 哈希格式与 apps/web/src/lib/auth/password.ts 一致（PBKDF2-SHA512，salt:iterations:hash）。
+ * 未迁移的明文密码在访客首次验证成功后也会自动回写为哈希，此脚本用于一次性完成迁移。
+ *
+ * 使用方法:
+ *   tsx scripts/utils/hash-album-passwords.ts
+ *   tsx scripts/utils/hash-album-passwords.ts --execute  # 实际写入
+ */
+
+import * as dotenv from 'dotenv'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+import { pbkdf2, randomBytes } from 'crypto'
+import { promisify } from 'util'
+import { Client } from 'pg'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+// 加载环境变量
+dotenv.config({ path: join(__dirname, '../../.env') })
+
+const pbkdf2Async = promisify(pbkdf2)
+
+// 已哈希的密码（64 位十六进制盐值:迭代次数:128 位十六进制哈希）
+const HASHED_PASSWORD_PATTERN = /^[0-9a-f]{64}:\d+:[0-9a-f]{128}$/
+
+// 密码哈希函数（与 apps/web/src/lib/auth/password.ts 保持一致）
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(32).toString('hex')
+  const iterations = 100000
+  const derivedKey = await pbkdf2Async(password, salt, iterations, 64, 'sha512')
+  return `${salt}:${iterations}:${derivedKey.toString('hex')}`
+}
+
+// 创建数据库客户端
+const client = new Client({
+  host: process.env.DATABASE_HOST || 'localhost',
+  port: parseInt(process.env.DATABASE_PORT || '5432', 10),
+  database: process.env.DATABASE_NAME || 'pis',
+  user: process.env.DATABASE_USER || 'pis',
+  password: process.env.DATABASE_PASSWORD || '',
+  ssl: process.env.DATABASE_SSL === 'true' ? { rejectUnauthorized: false } : false,
+})
+
+async function migrateTable(table: 'albums' | 'album_templates', dryRun: boolean): Promise<number> {
+  const result = await client.query(
+    `SELECT id, password FROM ${table} WHERE password IS NOT NULL AND password <> ''`
+  )
+
+  const plaintextRows = result.rows.filter((row) => !HASHED_PASSWORD_PATTERN.test(row.password))
+  console.log(`📋 ${table}: ${result.rows.length} 条设置了密码，其中 ${plaintextRows.length} 条为明文`)
+
+  let migrated = 0
+  for (const row of plaintextRows) {
+    if (dryRun) {
+      console.log(`[DRY-RUN] 🔐 将哈希 ${table} ${row.id}`)
+      migrated++
+      continue
+    }
+
+    try {
+      // 只更新仍为原明文的记录，避免覆盖迁移期间被修改或已自动回写的密码
+      const update = await client.query(
+        `UPDATE ${table} SET password = $1 WHERE id = $2 AND password = $3`,
+        [await hashPassword(row.password.trim()), row.id, row.password]
+      )
+      if (update.rowCount) {
+        console.log(`🔐 已哈希 ${table} ${row.id}`)
+        migrated++
+      }
+    } catch (error: any) {
+      console.error(`❌ 更新失败 ${table} ${row.id}:`, error.message)
+    }
+  }
+
+  return migrated
+}
+
+async function hashAlbumPasswords(dryRun: boolean) {
+  try {
+    await client.connect()
+
+    const albums = await migrateTable('albums', dryRun)
+    const templates = await migrateTable('album_templates', dryRun)
+
+    console.log(`\n✅ ${dryRun ? '预览' : '迁移'}完成:`)
+    console.log(`   - 相册: ${albums} 条`)
+    console.log(`   - 模板: ${templates} 条`)
+
+    if (dryRun && albums + templates > 0) {
+      console.log(`\n💡 提示: 这是预览模式，没有实际写入。`)
+      console.log(`   要实际执行迁移，请运行: tsx scripts/utils/hash-album-passwords.ts --execute`)
+    }
+  } catch (error: any) {
+    console.error('❌ 迁移失败:', error.message)
+    if (error.message.includes('ECONNREFUSED')) {
+      console.error('   提示: 请确保 PostgreSQL 服务正在运行')
+    }
+    throw error
+  } finally {
+    await client.end()
+  }
+}
+
+// 检查命令行参数
+const dryRun = !process.argv.includes('--execute')
+
+if (dryRun) {
+  console.log('⚠️  默认运行在 DRY-RUN 模式（预览模式，不会实际写入）')
+  console.log('   要实际执行迁移，请添加 --execute 参数\n')
+}
+
+hashAlbumPasswords(dryRun)
+  .then(() => {
+    console.log('\n✅ 脚本执行完成')
+    process.exit(0)
+  })
+  .catch((err) => {
+    console.error('❌ 脚本执行失败:', err)
+    process.exit(1)
+  })
@@ -24,6 +24,12 @@ import { join, parse } from "path";
 import { createReadStream, promises as fs } from "fs";
 import { uploadBuffer } from "./lib/storage/index.js";
 import { photoQueue } from "./lib/redis.js";
+import { getMediaType, getMimeType, isRawFile } from "./lib/media-types.js";
+import {
+  attachToPairedPhoto,
+  findPairedPhoto,
+  withPairLock,
+} from "./lib/raw-pairing.js";
 import logger from "./lib/logger.js";
 import { v4 as uuidv4, validate as validateUuid } from "uuid";
 // 延迟导入数据库客户端，确保环境变量已加载
@@ -139,59 +145,99 @@ class PISFileSystem extends FileSystem {
           : fileName;
         const originalName = cleanPath.split("/").pop() || "unknown.jpg";
 
+        // 只接收支持的图片和视频，其他文件（如相机生成的 .xmp 等）直接丢弃
+        const mediaType = getMediaType(originalName);
+        if (!mediaType) {
+          logger.warn(
+            { fileName, albumId: this.albumId },
+            "⚠️  Unsupported file type, skipped",
+          );
+          await fs.unlink(fsPath);
+          return;
+        }
+        const mimeType = getMimeType(originalName);
+
         // Read the file
         const fileBuffer = await fs.readFile(fsPath);
+        const database = await getDb();
 
-        // Generate a unique ID for the photo
-        const photoId = uuidv4();
-        const extension = parse(originalName).ext.toLowerCase() || ".jpg";
-        const storageKey = `raw/${this.albumId}/${photoId}${extension}`;
-
-        // Upload to Storage (MinIO)
-        await uploadBuffer(storageKey, fileBuffer, {
-          "Content-Type": "image/jpeg", // Simple assumption
-          "x-amz-meta-original-name": encodeURIComponent(originalName),
-        });
+        // RAW+JPEG 双格式拍摄时，同名文件合并为一张照片
+        await withPairLock(this.albumId, originalName, async () => {
+          const paired = await findPairedPhoto(
+            database,
+            this.albumId,
+            originalName,
+          );
 
-        logger.info(
-          { photoId, albumId: this.albumId, storageKey },
-          "☁️  Uploaded to Storage",
-        );
+          // Generate a unique ID for the photo
+          const photoId = paired?.id ?? uuidv4();
+          const extension = parse(originalName).ext.toLowerCase() || ".jpg";
+          const storageKey = `raw/${this.albumId}/${photoId}${extension}`;
 
-        // Insert into Database
-        const database = await getDb();
-        const { error: insertError } = await database.from("photos").insert({
-          id: photoId,
-          album_id: this.albumId,
-          filename: originalName,
-          original_key: storageKey,
-          status: "pending",
-          file_size: fileBuffer.length,
-          mime_type: extension === ".png" ? "image/png" : "image/jpeg", // Simple mime type detection
-        });
+          // Upload to Storage (MinIO)
+          await uploadBuffer(storageKey, fileBuffer, {
+            "Content-Type": mimeType,
+            "x-amz-meta-original-name": encodeURIComponent(originalName),
+          });
 
-        if (insertError) {
-          logger.error(
-            { insertError, photoId },
-            "❌ Failed to insert photo record",
+          logger.info(
+            { photoId, albumId: this.albumId, storageKey },
+            "☁️  Uploaded to Storage",
           );
-          throw new Error("Database insert failed");
-        }
 
-        // Add to Processing Queue
-        await photoQueue.add(
-          "process-photo",
-          {
-            photoId,
-            albumId: this.albumId,
-            originalKey: storageKey,
-          },
-          {
-            jobId: photoId, // Deduplication
-          },
-        );
+          if (paired) {
+            const { reprocess } = await attachToPairedPhoto(database, paired, {
+              filename: originalName,
+              storageKey,
+              fileSize: fileBuffer.length,
+              mimeType,
+            });
+            logger.info(
+              { photoId, albumId: this.albumId, filename: originalName },
+              "🔗 Paired with existing RAW/JPEG photo",
+            );
+            if (!reprocess) return;
+          } else {
+            // Insert into Database
+            const { error: insertError } = await database
+              .from("photos")
+              .insert({
+                id: photoId,
+                album_id: this.albumId,
+                filename: originalName,
+                original_key: storageKey,
+                raw_key: isRawFile(originalName) ? storageKey : null,
+                status: "pending",
+                file_size: fileBuffer.length,
+                mime_type: mimeType,
+                media_type: mediaType,
+              });
+
+            if (insertError) {
+              logger.error(
+                { insertError, photoId },
+                "❌ Failed to insert photo record",
+              );
+              throw new Error("Database insert failed");
+            }
+          }
+
+          // Add to Processing Queue
+          await photoQueue.add(
+            "process-photo",
+            {
+              photoId,
+              albumId: this.albumId,
+              originalKey: storageKey,
+            },
+            {
+              // Deduplication；配对后重新处理的照片已有同 ID 的历史任务
+              jobId: paired ? `${photoId}-paired` : photoId,
+            },
+          );
 
-        logger.info({ jobId: photoId }, "🚀 Added to processing queue");
+          logger.info({ photoId }, "🚀 Added to processing queue");
+        });
 
         // Cleanup local temp file
         await fs.unlink(fsPath);
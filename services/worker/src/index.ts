@@ -117,7 +117,8 @@ try {
 }
 
 import http from "http";
-import { Worker, Job, Queue } from "bullmq";
+import { Worker, Job, Queue, UnrecoverableError } from "bullmq";
+import { Redis, type RedisOptions } from "ioredis";
 import { connection, QUEUE_NAME, photoQueue } from "./lib/redis.js";
 import {
   downloadFile,
@@ -135,13 +136,86 @@ import {
   deleteFile,
   bucketName,
   getStorageAdapter,
+  LocalFsAdapter,
 } from "./lib/storage/index.js";
+import {
+  handleLocalMediaRequest,
+  LOCAL_MEDIA_PATH_PREFIX,
+} from "./lib/storage/local-server.js";
 import { PhotoProcessor } from "./processor.js";
-import { PackageCreator } from "./package-creator.js";
+import { PackageCreator, type PackageResumeState } from "./package-creator.js";
+import {
+  planPackageLayout,
+  orderByLayout,
+  buildManifestCsv,
+  isValidFilenameTemplate,
+} from "./lib/package-layout.js";
+import { VideoProcessor, type ProcessedVideo } from "./video-processor.js";
+import {
+  getBasename,
+  getExtension,
+  getMediaType,
+  getMimeType,
+  isRawFile,
+} from "./lib/media-types.js";
+import { extractRawPreview } from "./lib/raw-preview.js";
+import {
+  getDerivativeConfig,
+  getDerivativeKey,
+  listDerivativeKeys,
+  type DerivativeSet,
+} from "./lib/derivatives.js";
+import {
+  attachToPairedPhoto,
+  findPairedPhoto,
+  withPairLock,
+} from "./lib/raw-pairing.js";
 import { getAlbumCache, destroyAlbumCache } from "./lib/album-cache.js";
 import { purgePhotoCache } from "./lib/cloudflare-purge.js";
 import sharp from "sharp";
 import { extractFaces } from "./lib/face-recognition.js";
+import { clusterAlbumFaces } from "./lib/face-clustering.js";
+import {
+  createWebhookDeliveries,
+  deliverWebhook,
+  isWebhookEvent,
+  type WebhookEvent,
+} from "./lib/webhooks.js";
+import {
+  countPhotosAddedSinceLastNotice,
+  createClientNotification,
+  deliverClientNotification,
+  findAlbumsDueForExpiryReminder,
+  getMailerConfig,
+  isClientNotificationType,
+  type ClientNotificationType,
+} from "./lib/client-notifications.js";
+import {
+  archiveAlbumStorage,
+  getAlbumLifecyclePolicy,
+  getNextLifecycleState,
+  restoreAlbumStorage,
+  type AlbumLifecycleState,
+  type LifecycleAlbum,
+} from "./lib/album-lifecycle.js";
+import {
+  createPhotoEventPublisher,
+  photoEventTypeForStatus,
+} from "./lib/photo-events.js";
+import { summarizeStorageObjects } from "./lib/storage-usage.js";
+import {
+  createStyleSampleImage,
+  resolveStylePreset,
+} from "./lib/custom-style-presets.js";
+import {
+  configureWatermarkFonts,
+  SAMPLE_WATERMARK_EXIF,
+} from "./lib/watermark.js";
+import {
+  embedFingerprint,
+  extractFingerprint,
+  FINGERPRINT_CODE_PATTERN,
+} from "./lib/fingerprint.js";
 import { alertService } from "./lib/alert.js";
 // 延迟导入数据库客户端，确保环境变量已加载
 // import { db as supabase } from "./lib/database/client.js";
@@ -183,6 +257,9 @@ try {
   process.exit(1);
 }
 
+// 注册水印内置字体（fontconfig 在第一次渲染 SVG 文字时初始化，必须在处理任何照片之前）
+configureWatermarkFonts();
+
 // 移除原有的数据库初始化代码
 // const dbType = ...
 
@@ -202,6 +279,54 @@ interface PhotoJobData {
   isRetouch?: boolean;
 }
 
+/**
+ * 人脸聚类任务数据
+ *
+ * @interface
+ */
+interface FaceClusterJobData {
+  /** 相册 ID */
+  albumId: string;
+  /** 是否完整重新聚类 */
+  full?: boolean;
+}
+
+/**
+ * Webhook 投递任务数据
+ *
+ * @interface
+ */
+interface WebhookJobData {
+  /** 投递记录 ID */
+  deliveryId: string;
+  /** 事件（便于在队列面板中识别） */
+  event: WebhookEvent;
+}
+
+/**
+ * 客户通知任务数据
+ *
+ * @description send-notification 任务发送一条通知记录；
+ * photos-added-digest 任务汇总相册新增照片后创建通知
+ *
+ * @interface
+ */
+interface ClientNotificationJobData {
+  /** 通知记录 ID（send-notification） */
+  notificationId?: string;
+  /** 相册 ID（photos-added-digest） */
+  albumId?: string;
+}
+
+/**
+ * 相册生命周期任务数据（restore-album：恢复已归档 / 已过期删除的相册）
+ *
+ * @interface
+ */
+interface AlbumLifecycleJobData {
+  albumId: string;
+}
+
 /**
  * 打包下载任务数据
  *
@@ -218,6 +343,14 @@ interface PackageJobData {
   includeWatermarked: boolean;
   /** 是否包含原始图片 */
   includeOriginal: boolean;
+  /** 按照片分组建目录 */
+  groupFolders?: boolean;
+  /** 文件名模板（见 lib/package-layout） */
+  filenameTemplate?: string | null;
+  /** 包含清单 CSV */
+  includeManifest?: boolean;
+  /** 下载指纹编号（download_fingerprints.code），包内每张照片都嵌入该编号 */
+  fingerprint?: string | null;
 }
 
 // ============================================
@@ -242,6 +375,8 @@ const CONFIG = {
   PACKAGE_PROCESSING_CONCURRENCY: parseInt(
     process.env.PACKAGE_PROCESSING_CONCURRENCY || "2",
   ),
+  // 打包失败后的重试次数（从断点继续，已上传的分片不重复上传）
+  PACKAGE_MAX_ATTEMPTS: parseInt(process.env.PACKAGE_MAX_ATTEMPTS || "3"),
 
   // 恢复配置
   STUCK_PHOTO_THRESHOLD_HOURS: parseInt(
@@ -256,6 +391,11 @@ const CONFIG = {
     process.env.DELETED_PHOTO_CLEANUP_INTERVAL_MS || "3600000",
   ), // 每小时检查一次
 
+  // 相册过期生命周期配置（策略见 lib/album-lifecycle，由 ALBUM_LIFECYCLE_ENABLED 等环境变量控制）
+  ALBUM_LIFECYCLE_INTERVAL_MS: parseInt(
+    process.env.ALBUM_LIFECYCLE_INTERVAL_MS || "3600000",
+  ), // 每小时检查一次
+
   // 打包下载配置
   PACKAGE_DOWNLOAD_EXPIRY_DAYS: parseInt(
     process.env.PACKAGE_DOWNLOAD_EXPIRY_DAYS || "15",
@@ -268,6 +408,38 @@ const CONFIG = {
   // 打包配置
   MAX_PACKAGE_PHOTOS: parseInt(process.env.MAX_PACKAGE_PHOTOS || "500"),
 
+  // 人脸聚类配置（同一相册在该时间内的多次触发合并为一次聚类）
+  FACE_CLUSTER_DEBOUNCE_MS: parseInt(
+    process.env.FACE_CLUSTER_DEBOUNCE_MS || "10000",
+  ),
+
+  // Webhook 配置（失败后按指数退避重试：10s、20s、40s...）
+  WEBHOOK_MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6"),
+  WEBHOOK_RETRY_DELAY_MS: parseInt(
+    process.env.WEBHOOK_RETRY_DELAY_MS || "10000",
+  ),
+  WEBHOOK_TIMEOUT_MS: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000"),
+  WEBHOOK_CONCURRENCY: parseInt(process.env.WEBHOOK_CONCURRENCY || "5"),
+
+  // 客户邮件通知配置（失败后按指数退避重试：1min、2min、4min...）
+  CLIENT_NOTIFY_MAX_ATTEMPTS: parseInt(
+    process.env.CLIENT_NOTIFY_MAX_ATTEMPTS || "5",
+  ),
+  CLIENT_NOTIFY_RETRY_DELAY_MS: parseInt(
+    process.env.CLIENT_NOTIFY_RETRY_DELAY_MS || "60000",
+  ),
+  // 新增照片通知的汇总间隔（直播相册连续上传时，每个间隔最多发送一封）
+  CLIENT_NOTIFY_PHOTOS_DEBOUNCE_MS: parseInt(
+    process.env.CLIENT_NOTIFY_PHOTOS_DEBOUNCE_MS || "1800000",
+  ),
+  // 相册过期前多少天提醒客户
+  CLIENT_NOTIFY_EXPIRY_DAYS: parseInt(
+    process.env.CLIENT_NOTIFY_EXPIRY_DAYS || "3",
+  ),
+  CLIENT_NOTIFY_EXPIRY_CHECK_INTERVAL_MS: parseInt(
+    process.env.CLIENT_NOTIFY_EXPIRY_CHECK_INTERVAL_MS || "3600000",
+  ),
+
   // 性能优化配置
   ENABLE_ALBUM_CACHE: process.env.ENABLE_ALBUM_CACHE !== "false", // 默认启用缓存
   ALBUM_CACHE_TTL_MS: parseInt(process.env.ALBUM_CACHE_TTL_MS || "300000"), // 5分钟缓存
@@ -482,6 +654,52 @@ function parseRequestBody(
   });
 }
 
+/**
+ * 读取二进制请求体（如上传的图片）
+ *
+ * @param {http.IncomingMessage} req - HTTP 请求对象
+ * @param {number} maxSize - 最大字节数
+ * @returns {Promise<Buffer>} 请求体
+ *
+ * @internal
+ */
+function readRequestBuffer(
+  req: http.IncomingMessage,
+  maxSize: number,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let bodySize = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      bodySize += chunk.length;
+      if (bodySize > maxSize) {
+        req.destroy();
+        reject(
+          new Error(
+            `Request body too large (max: ${maxSize} bytes, received: ${bodySize} bytes)`,
+          ),
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on("end", () => {
+      resolve(Buffer.concat(chunks));
+    });
+
+    req.on("error", (err) => {
+      reject(err);
+    });
+
+    req.setTimeout(60000, () => {
+      req.destroy();
+      reject(new Error("Request timeout"));
+    });
+  });
+}
+
 /**
  * 解析 JSON 请求体（带错误处理）
  *
@@ -514,10 +732,310 @@ async function parseJsonBody(
   }
 }
 
+/**
+ * 照片当前生效的版本
+ *
+ * @interface
+ */
+interface PhotoVersionInfo {
+  /** 版本文件存储键 */
+  storage_key: string;
+  /** 版本来源：original | ai_retouch | retouch */
+  source: string;
+}
+
+/**
+ * 查询照片当前生效的版本
+ *
+ * @param photoId - 照片 ID
+ * @returns 当前版本；照片尚无版本记录时返回 null
+ */
+async function getCurrentPhotoVersion(
+  photoId: string,
+): Promise<PhotoVersionInfo | null> {
+  const { data: photo } = await supabase
+    .from("photos")
+    .select("current_version_id")
+    .eq("id", photoId)
+    .single();
+
+  if (!photo?.current_version_id) {
+    return null;
+  }
+
+  const { data: version } = await supabase
+    .from("photo_versions")
+    .select("storage_key, source")
+    .eq("id", photo.current_version_id)
+    .single();
+
+  return version ?? null;
+}
+
+// ============================================
+// 照片实时事件（Redis pub/sub，供 Web 端 SSE 推送）
+// ============================================
+// 使用独立连接：BullMQ 的连接会执行阻塞命令，不能用来 publish
+const photoEventsRedis = new Redis(connection as RedisOptions);
+// 连接错误已由队列统一记录，这里只避免未处理的 error 事件
+photoEventsRedis.on("error", () => {});
+const publishPhotoEvent = createPhotoEventPublisher(photoEventsRedis);
+
+// ============================================
+// Webhook 投递 Worker
+// ============================================
+const webhookQueue = new Queue<WebhookJobData>("webhook-deliveries", {
+  connection,
+  defaultJobOptions: {
+    attempts: CONFIG.WEBHOOK_MAX_ATTEMPTS,
+    backoff: { type: "exponential", delay: CONFIG.WEBHOOK_RETRY_DELAY_MS },
+    removeOnComplete: { age: 24 * 3600, count: 1000 },
+    removeOnFail: { age: 7 * 24 * 3600 },
+  },
+});
+
+/**
+ * 触发 Webhook 事件
+ *
+ * @description 为匹配的端点创建投递记录并加入队列；失败只记录日志，不影响调用方流程
+ *
+ * @param event - 事件
+ * @param albumId - 相关相册（非相册事件传 null）
+ * @param data - 事件数据
+ * @param endpointId - 只投递给指定端点（发送测试事件）
+ * @returns 创建的投递数量
+ */
+async function dispatchWebhookEvent(
+  event: WebhookEvent,
+  albumId: string | null,
+  data: Record<string, unknown>,
+  endpointId?: string,
+): Promise<number> {
+  try {
+    const deliveries = await createWebhookDeliveries(
+      supabase,
+      event,
+      albumId,
+      data,
+      endpointId,
+    );
+    if (deliveries.length > 0) {
+      await webhookQueue.addBulk(
+        deliveries.map((delivery) => ({
+          name: "deliver-webhook",
+          data: { deliveryId: delivery.id, event },
+          opts: { jobId: delivery.id },
+        })),
+      );
+    }
+    return deliveries.length;
+  } catch (err: any) {
+    console.error(`[Webhook] Failed to dispatch ${event}:`, err.message);
+    return 0;
+  }
+}
+
+const webhookWorker = new Worker<WebhookJobData>(
+  "webhook-deliveries",
+  async (job: Job<WebhookJobData>) => {
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts ?? 1;
+    const result = await deliverWebhook(
+      supabase,
+      job.data.deliveryId,
+      attempt,
+      maxAttempts,
+      CONFIG.WEBHOOK_TIMEOUT_MS,
+    );
+
+    // 端点或投递记录已删除，不再重试
+    if (!result) {
+      return;
+    }
+    // 抛出错误让 BullMQ 按退避策略重试
+    if (!result.ok) {
+      throw new Error(result.error || "Webhook delivery failed");
+    }
+  },
+  { connection, concurrency: CONFIG.WEBHOOK_CONCURRENCY },
+);
+
+webhookWorker.on("failed", (job, err) => {
+  const attempts = job ? `${job.attemptsMade}/${job.opts.attempts ?? 1}` : "";
+  console.warn(
+    `[Webhook] Delivery ${job?.data.deliveryId} (${job?.data.event}) failed ${attempts}:`,
+    err.message,
+  );
+});
+
+// ============================================
+// 客户邮件通知 Worker
+// ============================================
+// 未配置 SMTP 时不创建通知
+const mailerConfig = getMailerConfig();
+
+const clientNotificationQueue = new Queue<ClientNotificationJobData>(
+  "client-notifications",
+  {
+    connection,
+    defaultJobOptions: {
+      attempts: CONFIG.CLIENT_NOTIFY_MAX_ATTEMPTS,
+      backoff: {
+        type: "exponential",
+        delay: CONFIG.CLIENT_NOTIFY_RETRY_DELAY_MS,
+      },
+      removeOnComplete: { age: 24 * 3600, count: 1000 },
+      removeOnFail: { age: 7 * 24 * 3600 },
+    },
+  },
+);
+
+/**
+ * 给相册关联的客户发送邮件通知
+ *
+ * @description 相册未开启通知、客户没有邮箱或未配置 SMTP 时跳过；
+ * 失败只记录日志，不影响调用方流程
+ *
+ * @param type - 通知类型
+ * @param albumId - 相册 ID
+ * @param data - 模板变量
+ * @returns 创建的通知 ID；未创建时返回 null
+ */
+async function notifyClient(
+  type: ClientNotificationType,
+  albumId: string,
+  data: Record<string, unknown> = {},
+): Promise<string | null> {
+  if (!mailerConfig) {
+    return null;
+  }
+  try {
+    const notificationId = await createClientNotification(
+      supabase,
+      type,
+      albumId,
+      data,
+    );
+    if (notificationId) {
+      await clientNotificationQueue.add(
+        "send-notification",
+        { notificationId },
+        { jobId: notificationId },
+      );
+    }
+    return notificationId;
+  } catch (err: any) {
+    console.error(`[ClientNotify] Failed to notify ${type}:`, err.message);
+    return null;
+  }
+}
+
+/**
+ * 将相册加入新增照片通知汇总队列
+ *
+ * @description 同一相册在汇总间隔内新增的照片合并为一封邮件：
+ * 第一张照片完成时安排延迟任务，任务执行前的后续触发都会被去重
+ *
+ * @param albumId - 相册 ID
+ */
+async function queuePhotosAddedDigest(albumId: string) {
+  if (!mailerConfig) {
+    return;
+  }
+  try {
+    await clientNotificationQueue.add(
+      "photos-added-digest",
+      { albumId },
+      {
+        delay: CONFIG.CLIENT_NOTIFY_PHOTOS_DEBOUNCE_MS,
+        deduplication: { id: `photos-added-${albumId}` },
+      },
+    );
+  } catch (err: any) {
+    console.error("[ClientNotify] Failed to queue photos digest:", err.message);
+  }
+}
+
+/**
+ * 给即将过期的相册发送过期提醒
+ */
+async function remindExpiringAlbums() {
+  if (!mailerConfig) {
+    return;
+  }
+  try {
+    const albumIds = await findAlbumsDueForExpiryReminder(
+      supabase,
+      CONFIG.CLIENT_NOTIFY_EXPIRY_DAYS,
+    );
+    for (const albumId of albumIds) {
+      await notifyClient("album_expiring", albumId);
+    }
+    if (albumIds.length > 0) {
+      console.log(
+        `[ClientNotify] Queued expiry reminders for ${albumIds.length} albums`,
+      );
+    }
+  } catch (err: any) {
+    console.error("[ClientNotify] Expiry reminder check failed:", err.message);
+  }
+}
+
+const clientNotificationWorker = new Worker<ClientNotificationJobData>(
+  "client-notifications",
+  async (job: Job<ClientNotificationJobData>) => {
+    if (!mailerConfig) {
+      return;
+    }
+
+    if (job.name === "photos-added-digest" && job.data.albumId) {
+      const photoCount = await countPhotosAddedSinceLastNotice(
+        supabase,
+        job.data.albumId,
+      );
+      if (photoCount > 0) {
+        await notifyClient("photos_added", job.data.albumId, {
+          photo_count: photoCount,
+        });
+      }
+      return;
+    }
+
+    if (!job.data.notificationId) {
+      return;
+    }
+    const error = await deliverClientNotification(
+      supabase,
+      job.data.notificationId,
+      mailerConfig,
+      job.attemptsMade + 1,
+      job.opts.attempts ?? 1,
+    );
+    // 抛出错误让 BullMQ 按退避策略重试
+    if (error) {
+      throw new Error(error);
+    }
+  },
+  { connection, concurrency: 2 },
+);
+
+clientNotificationWorker.on("failed", (job, err) => {
+  const attempts = job ? `${job.attemptsMade}/${job.opts.attempts ?? 1}` : "";
+  console.warn(
+    `[ClientNotify] Job ${job?.name} ${job?.data.notificationId ?? job?.data.albumId} failed ${attempts}:`,
+    err.message,
+  );
+});
+
+// ============================================
+// 照片处理 Worker
+// ============================================
 const worker = new Worker<PhotoJobData>(
   QUEUE_NAME,
   async (job: Job<PhotoJobData>) => {
     const { photoId, albumId, originalKey } = job.data;
+    // 有版本历史的照片在文件缺失时不能删除记录，否则会连同原图版本一起丢失
+    let hasVersionHistory = false;
 
     try {
       // 0. 使用条件更新（状态机锁）避免竞态条件
@@ -530,7 +1048,7 @@ const worker = new Worker<PhotoJobData>(
         .eq("id", photoId)
         .eq("status", "pending") // 条件更新：只更新 pending 状态的照片（原子操作）
         .is("deleted_at", null) // 排除已删除的照片
-        .select("id, status, rotation")
+        .select("id, status, rotation, media_type")
         .single();
 
       // 如果更新失败或没有影响行数，说明照片已被其他 worker 处理或不存在
@@ -538,7 +1056,7 @@ const worker = new Worker<PhotoJobData>(
         // 检查照片是否存在以及当前状态
         const { data: existingPhoto, error: queryError } = await supabase
           .from("photos")
-          .select("id, status, deleted_at, updated_at, rotation")
+          .select("id, status, deleted_at, updated_at, rotation, media_type")
           .eq("id", photoId)
           .single();
 
@@ -561,7 +1079,7 @@ const worker = new Worker<PhotoJobData>(
             .eq("id", photoId)
             .eq("status", "pending")
             .is("deleted_at", null)
-            .select("id, status, rotation")
+            .select("id, status, rotation, media_type")
             .single();
 
           if (retryError || !retryUpdatedPhoto) {
@@ -652,8 +1170,20 @@ const worker = new Worker<PhotoJobData>(
         }
       }
 
+      await publishPhotoEvent(albumId, photoId, "update", "processing");
+
       // 获取照片的旋转角度（已在更新时查询）
       const photoRotation = updatedPhoto.rotation ?? null;
+      const isVideo = updatedPhoto.media_type === "video";
+
+      // 1. 解析当前生效的版本：精修图作为新版本保存，原图保留在版本历史中
+      // 没有版本记录的历史照片直接使用任务中的 originalKey
+      const currentVersion = await getCurrentPhotoVersion(photoId);
+      hasVersionHistory = currentVersion !== null;
+      const sourceKey = currentVersion?.storage_key || originalKey;
+      const isRetouch =
+        job.data.isRetouch === true ||
+        (currentVersion !== null && currentVersion.source !== "original");
 
       // 2. 并行执行：下载原图 + 获取相册配置（减少等待时间）
       // 优化：使用缓存减少数据库查询
@@ -670,7 +1200,7 @@ const worker = new Worker<PhotoJobData>(
 
         const [downloadResult, albumResult] = await Promise.all([
           // 下载原图
-          downloadFile(originalKey).catch(async (downloadErr: any) => {
+          downloadFile(sourceKey).catch(async (downloadErr: any) => {
             // 改进的错误检测：支持更多错误格式
             const isFileNotFound =
               downloadErr?.code === "NoSuchKey" ||
@@ -703,7 +1233,7 @@ const worker = new Worker<PhotoJobData>(
 
                   // 重试下载
                   try {
-                    return await downloadFile(originalKey);
+                    return await downloadFile(sourceKey);
                   } catch (retryErr: any) {
                     // 改进的错误检测：支持更多错误格式
                     const retryIsFileNotFound =
@@ -717,12 +1247,14 @@ const worker = new Worker<PhotoJobData>(
                       retryErr?.message?.includes("Unable to stat") ||
                       retryErr?.message?.includes("Object does not exist");
                     if (retryIsFileNotFound) {
-                      try {
-                        await supabase
-                          .from("photos")
-                          .delete()
-                          .eq("id", photoId);
-                      } catch {}
+                      if (!hasVersionHistory) {
+                        try {
+                          await supabase
+                            .from("photos")
+                            .delete()
+                            .eq("id", photoId);
+                        } catch {}
+                      }
                       throw new Error("FILE_NOT_FOUND");
                     }
                     throw retryErr;
@@ -730,9 +1262,11 @@ const worker = new Worker<PhotoJobData>(
                 }
               }
 
-              try {
-                await supabase.from("photos").delete().eq("id", photoId);
-              } catch {}
+              if (!hasVersionHistory) {
+                try {
+                  await supabase.from("photos").delete().eq("id", photoId);
+                } catch {}
+              }
               throw new Error("FILE_NOT_FOUND");
             }
             throw downloadErr;
@@ -773,7 +1307,7 @@ const worker = new Worker<PhotoJobData>(
           });
         }
       } catch (err: any) {
-        if (err.message === "FILE_NOT_FOUND") {
+        if (err.message === "FILE_NOT_FOUND" && !hasVersionHistory) {
           return; // 文件不存在，已清理，不重试
         }
         throw err;
@@ -794,30 +1328,74 @@ const worker = new Worker<PhotoJobData>(
         position: watermarkConfigRaw.position ?? "center",
       };
 
-      // 4. 读取风格预设 ID
+      // 4. 解析风格预设（内置预设或自定义预设，自定义预设可能带 3D LUT）
       const colorGrading = album?.color_grading as { preset?: string } | null;
-      const stylePresetId = colorGrading?.preset || null;
+      const stylePreset = isVideo
+        ? null
+        : await resolveStylePreset(
+            supabase,
+            colorGrading?.preset || null,
+            downloadFile,
+          );
 
       // 5. 处理图片 (Sharp)
       // 安全措施：再次确保 Buffer 独立（防御性编程）
       // 虽然理论上不需要，但可以防止任何潜在的 Buffer 引用问题
       const processingBuffer = Buffer.from(originalBuffer);
       console.time(`[${job.id}] Process`);
-      const processor = new PhotoProcessor(processingBuffer);
-      const result = await processor.process(
-        watermarkConfig,
-        photoRotation,
-        stylePresetId,
-        {
-          enabled: album?.enable_ai_retouch ?? false,
-          config: album?.ai_retouch_config,
-        },
-      );
+      // 视频：先用 ffmpeg 提取封面帧并转码预览，封面帧再走图片流程生成缩略图和 BlurHash
+      // 封面帧不应用旋转、风格预设和 AI 修图（ffmpeg 已按旋转元数据输出正确方向）
+      let video: ProcessedVideo | null = null;
+      if (isVideo) {
+        video = await new VideoProcessor(
+          processingBuffer,
+          getExtension(sourceKey),
+        ).process();
+      }
+      // 相机 RAW：使用内嵌的全尺寸 JPEG 预览处理，EXIF 从 RAW 本身读取
+      const raw =
+        !isVideo && isRawFile(sourceKey)
+          ? await extractRawPreview(processingBuffer)
+          : null;
+      const imageBuffer =
+        video?.posterBuffer ?? raw?.previewBuffer ?? processingBuffer;
+      const processor = new PhotoProcessor(imageBuffer, raw?.exif);
+      const derivativeConfig = getDerivativeConfig();
+      const result = video
+        ? await processor.process(
+            watermarkConfig,
+            null,
+            null,
+            { enabled: false },
+            derivativeConfig,
+          )
+        : await processor.process(
+            watermarkConfig,
+            photoRotation,
+            stylePreset,
+            {
+              enabled: album?.enable_ai_retouch ?? false,
+              config: album?.ai_retouch_config,
+            },
+            derivativeConfig,
+          );
       console.timeEnd(`[${job.id}] Process`);
 
       // 6. 上传处理后的图片到存储
       const thumbKey = `processed/thumbs/${albumId}/${photoId}.jpg`;
       const previewKey = `processed/previews/${albumId}/${photoId}.jpg`;
+      const videoKey = video ? `processed/videos/${albumId}/${photoId}.mp4` : null;
+      const derivativeKeys = result.derivatives.map((d) =>
+        getDerivativeKey(albumId, photoId, d.width, d.format),
+      );
+      const derivatives: DerivativeSet = {};
+      result.derivatives.forEach((d, i) => {
+        (derivatives[d.format] ??= []).push({
+          width: d.width,
+          height: d.height,
+          key: derivativeKeys[i],
+        });
+      });
 
       // 防御性措施：如果是重新处理（照片状态可能是 completed/failed），先删除旧文件
       // 这确保了不会有部分更新的文件，避免显示混乱的图片
@@ -825,7 +1403,7 @@ const worker = new Worker<PhotoJobData>(
       try {
         const { data: existingPhoto } = await supabase
           .from("photos")
-          .select("thumb_key, preview_key")
+          .select("thumb_key, preview_key, video_key, derivatives")
           .eq("id", photoId)
           .single();
 
@@ -840,6 +1418,15 @@ const worker = new Worker<PhotoJobData>(
           ) {
             filesToDelete.push(existingPhoto.preview_key);
           }
+          if (existingPhoto.video_key && existingPhoto.video_key !== videoKey) {
+            filesToDelete.push(existingPhoto.video_key);
+          }
+          // 尺寸阶梯调整后，不再生成的旧衍生图需要删除
+          for (const key of listDerivativeKeys(existingPhoto.derivatives)) {
+            if (!derivativeKeys.includes(key)) {
+              filesToDelete.push(key);
+            }
+          }
 
           // 并行删除旧文件（如果存在）
           if (filesToDelete.length > 0) {
@@ -877,6 +1464,18 @@ const worker = new Worker<PhotoJobData>(
         uploadFile(previewKey, result.previewBuffer, {
           "Content-Type": "image/jpeg",
         }),
+        ...(video && videoKey
+          ? [
+              uploadFile(videoKey, video.previewBuffer, {
+                "Content-Type": "video/mp4",
+              }),
+            ]
+          : []),
+        ...result.derivatives.map((d, i) =>
+          uploadFile(derivativeKeys[i], d.buffer, {
+            "Content-Type": `image/${d.format}`,
+          }),
+        ),
       ]);
       console.timeEnd(`[${job.id}] Upload`);
 
@@ -922,10 +1521,10 @@ const worker = new Worker<PhotoJobData>(
       const capturedAt =
         parseExifDateTime(exifDateTime) || new Date().toISOString();
 
-      // 决定最终状态：如果开启了人工修图且不是精修图上传，则状态为 pending_retouch，否则为 completed
-      const isRetouch = job.data.isRetouch;
+      // 决定最终状态：如果开启了人工修图且不是精修版本，则状态为 pending_retouch，否则为 completed
+      // 视频不进入修图流程
       const finalStatus =
-        album.enable_human_retouch && !isRetouch
+        album.enable_human_retouch && !isRetouch && !isVideo
           ? "pending_retouch"
           : "completed";
 
@@ -936,12 +1535,22 @@ const worker = new Worker<PhotoJobData>(
           status: finalStatus,
           thumb_key: thumbKey,
           preview_key: previewKey,
-          width: result.metadata.width,
-          height: result.metadata.height,
+          derivatives,
+          width: video?.metadata.width ?? result.metadata.width,
+          height: video?.metadata.height ?? result.metadata.height,
           blur_data: result.blurHash,
-          exif: result.exif,
+          exif: video ? {} : result.exif,
           file_size: processingBuffer.length, // 使用处理时的 Buffer 长度
-          mime_type: result.metadata.format,
+          // 衍生文件大小，用于存储用量统计（预览图包含视频网页预览和响应式衍生图）
+          thumb_size: result.thumbBuffer.length,
+          preview_size:
+            result.previewBuffer.length +
+            (video ? video.previewBuffer.length : 0) +
+            result.derivatives.reduce((sum, d) => sum + d.buffer.length, 0),
+          mime_type:
+            video || raw ? getMimeType(sourceKey) : result.metadata.format,
+          video_key: videoKey,
+          duration: video?.metadata.duration ?? null,
           // 使用解析后的拍摄时间
           captured_at: capturedAt,
           // 更新时间戳（用于前端缓存破坏）
@@ -951,21 +1560,42 @@ const worker = new Worker<PhotoJobData>(
 
       if (error) throw error;
 
-      // 8. 人脸识别 (异步执行，不阻塞)
+      await publishPhotoEvent(
+        albumId,
+        photoId,
+        photoEventTypeForStatus(finalStatus),
+        finalStatus,
+      );
+
+      // Webhook：照片处理完成（进入人工修图流程的照片在精修完成后才推送）
       if (finalStatus === "completed") {
+        await dispatchWebhookEvent("photo.completed", albumId, {
+          photo_id: photoId,
+          media_type: isVideo ? "video" : "image",
+          is_retouch: isRetouch,
+          thumb_key: thumbKey,
+          preview_key: previewKey,
+          captured_at: capturedAt,
+        });
+        await queuePhotosAddedDigest(albumId);
+      }
+
+      // 8. 人脸识别 (异步执行，不阻塞)
+      if (finalStatus === "completed" && !isVideo) {
         try {
           // 创建旋转 pipeline
-          let facePipeline = sharp(processingBuffer);
+          let facePipeline = sharp(imageBuffer);
           if (photoRotation !== null && photoRotation !== undefined) {
             facePipeline = facePipeline.rotate().rotate(photoRotation);
           } else {
             facePipeline = facePipeline.rotate();
           }
 
-          const faceImageBuffer = await facePipeline
-            .resize(800, null, { withoutEnlargement: true })
-            .jpeg({ quality: 80 })
-            .toBuffer();
+          const { data: faceImageBuffer, info: faceImageInfo } =
+            await facePipeline
+              .resize(800, null, { withoutEnlargement: true })
+              .jpeg({ quality: 80 })
+              .toBuffer({ resolveWithObject: true });
 
           const faces = await extractFaces(faceImageBuffer);
 
@@ -979,6 +1609,9 @@ const worker = new Worker<PhotoJobData>(
                 y: face.bbox[1],
                 w: face.bbox[2] - face.bbox[0],
                 h: face.bbox[3] - face.bbox[1],
+                // 检测图片尺寸，用于换算人物头像的裁剪区域
+                image_width: faceImageInfo.width,
+                image_height: faceImageInfo.height,
               },
             }));
 
@@ -993,6 +1626,8 @@ const worker = new Worker<PhotoJobData>(
               );
             } else {
               console.log(`[${job.id}] Saved ${faces.length} faces`);
+              // 增量聚类为人物（同一相册短时间内的多次触发会合并）
+              await queueFaceClustering(albumId);
             }
           }
         } catch (faceErr) {
@@ -1046,7 +1681,7 @@ const worker = new Worker<PhotoJobData>(
             {
               thumb_key: thumbKey,
               preview_key: previewKey,
-              original_key: job.data.originalKey, // 使用原始上传的 key
+              original_key: sourceKey, // 使用当前版本的 key
             },
             zoneId,
             apiToken,
@@ -1079,7 +1714,8 @@ const worker = new Worker<PhotoJobData>(
         err?.message?.includes("Object does not exist") ||
         err?.message === "FILE_NOT_FOUND";
 
-      if (isFileNotFound) {
+      // 有版本历史的照片保留记录，按普通失败处理（可回退到其他版本）
+      if (isFileNotFound && !hasVersionHistory) {
         // 文件不存在，但可能是 MinIO 最终一致性问题（文件刚上传但还没完全写入）
         // 查询照片的创建时间，如果是最近创建的，等待后重试一次
         const { data: photoRecord } = await supabase
@@ -1113,6 +1749,9 @@ const worker = new Worker<PhotoJobData>(
           .from("photos")
           .delete()
           .eq("id", photoId);
+        if (!deleteError) {
+          await publishPhotoEvent(albumId, photoId, "delete", null);
+        }
 
         // 不抛出错误，避免重试（文件不存在时重试也没用）
         return;
@@ -1130,6 +1769,8 @@ const worker = new Worker<PhotoJobData>(
             `[${job.id}] Failed to update status to failed:`,
             updateError.message,
           );
+        } else {
+          await publishPhotoEvent(albumId, photoId, "update", "failed");
         }
       } catch (updateErr) {
         console.warn(`[${job.id}] Error updating status to failed:`, updateErr);
@@ -1174,25 +1815,179 @@ worker.on("failed", async (job, err) => {
       errorMessage,
     );
   }
+
+  // Webhook：重试次数用尽后才推送照片处理失败
+  if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    await dispatchWebhookEvent("photo.failed", job.data.albumId, {
+      photo_id: job.data.photoId,
+      error: errorMessage,
+      attempts: job.attemptsMade,
+    });
+  }
 });
 
 // ============================================
 // 打包下载 Worker
 // ============================================
-const packageQueue = new Queue("package-downloads", { connection });
+interface PackagePhotoRow {
+  id: string;
+  filename: string;
+  original_key: string;
+  preview_key: string;
+  media_type: "image" | "video" | null;
+  video_key: string | null;
+  captured_at: string | null;
+  is_selected: boolean | null;
+}
 
-const packageWorker = new Worker<PackageJobData>(
-  "package-downloads",
-  async (job: Job<PackageJobData>) => {
-    const {
-      packageId,
-      albumId,
-      photoIds,
-      includeWatermarked,
+/**
+ * 读取照片分组和选片访客，规划包内目录、文件名和清单
+ *
+ * @returns 按包内顺序排列的照片、每张照片的目录和文件名，以及清单生成函数（未开启清单时为 undefined）
+ */
+async function planPackage(
+  albumId: string,
+  albumTitle: string,
+  photos: PackagePhotoRow[],
+  options: Pick<PackageJobData, "groupFolders" | "filenameTemplate" | "includeManifest">,
+) {
+  const photoIds = photos.map((photo) => photo.id);
+  const groupOf = new Map<string, { name: string; sortOrder: number }>();
+
+  if (
+    options.groupFolders ||
+    options.includeManifest ||
+    options.filenameTemplate?.includes("{group}")
+  ) {
+    const [{ data: groups }, { data: assignments }] = await Promise.all([
+      supabase
+        .from("photo_groups")
+        .select("id, name, sort_order")
+        .eq("album_id", albumId),
+      supabase
+        .from("photo_group_assignments")
+        .select("photo_id, group_id")
+        .in("photo_id", photoIds),
+    ]);
+    const groupById = new Map<string, { name: string; sort_order: number | null }>(
+      (groups || []).map((g: { id: string; name: string; sort_order: number | null }) => [g.id, g]),
+    );
+    // 照片属于多个分组时取排序最靠前的分组
+    for (const { photo_id, group_id } of (assignments || []) as {
+      photo_id: string;
+      group_id: string;
+    }[]) {
+      const group = groupById.get(group_id);
+      if (!group) continue;
+      const current = groupOf.get(photo_id);
+      const sortOrder = group.sort_order ?? 0;
+      if (!current || sortOrder < current.sortOrder) {
+        groupOf.set(photo_id, { name: group.name, sortOrder });
+      }
+    }
+  }
+
+  const layout = planPackageLayout(
+    photos.map((photo) => ({
+      id: photo.id,
+      filename: photo.filename,
+      capturedAt: photo.captured_at,
+      groupName: groupOf.get(photo.id)?.name ?? null,
+      groupSortOrder: groupOf.get(photo.id)?.sortOrder ?? null,
+    })),
+    {
+      albumTitle,
+      groupFolders: options.groupFolders ?? false,
+      filenameTemplate: options.filenameTemplate,
+    },
+  );
+
+  let manifest: ((includedPhotoIds: string[]) => string) | undefined;
+  if (options.includeManifest) {
+    const { data: selections } = await supabase
+      .from("guest_selections")
+      .select("photo_id, session_id")
+      .eq("album_id", albumId)
+      .in("photo_id", photoIds);
+    const sessionIds = [
+      ...new Set(((selections || []) as { session_id: string }[]).map((s) => s.session_id)),
+    ];
+    const { data: sessions } =
+      sessionIds.length > 0
+        ? await supabase
+            .from("guest_sessions")
+            .select("id, guest_name")
+            .in("id", sessionIds)
+        : { data: [] };
+    const guestNames = new Map<string, string>(
+      (sessions || []).map((s: { id: string; guest_name: string }) => [s.id, s.guest_name]),
+    );
+    const selectedBy = new Map<string, string[]>();
+    for (const { photo_id, session_id } of (selections || []) as {
+      photo_id: string;
+      session_id: string;
+    }[]) {
+      const names = selectedBy.get(photo_id) ?? [];
+      names.push(guestNames.get(session_id) ?? session_id);
+      selectedBy.set(photo_id, names);
+    }
+
+    const photoById = new Map(photos.map((photo) => [photo.id, photo]));
+    manifest = (includedPhotoIds) =>
+      buildManifestCsv(
+        includedPhotoIds.map((id) => {
+          const photo = photoById.get(id)!;
+          const guests = selectedBy.get(id) ?? [];
+          return {
+            seq: layout.get(id)?.seq ?? 0,
+            name: layout.get(id)?.name ?? photo.filename,
+            originalFilename: photo.filename,
+            group: groupOf.get(id)?.name ?? null,
+            capturedAt: photo.captured_at,
+            selected: Boolean(photo.is_selected) || guests.length > 0,
+            selectedBy: guests,
+          };
+        }),
+      );
+  }
+
+  return { photos: orderByLayout(photos, layout), layout, manifest };
+}
+
+const packageQueue = new Queue("package-downloads", {
+  connection,
+  defaultJobOptions: {
+    attempts: CONFIG.PACKAGE_MAX_ATTEMPTS,
+    backoff: { type: "exponential", delay: 30000 },
+  },
+});
+
+const packageWorker = new Worker<PackageJobData>(
+  "package-downloads",
+  async (job: Job<PackageJobData>) => {
+    const {
+      packageId,
+      albumId,
+      photoIds,
+      includeWatermarked,
       includeOriginal,
+      groupFolders,
+      filenameTemplate,
+      includeManifest,
+      fingerprint,
     } = job.data;
 
+    // 断点：Worker 重启或重试时从上次上传的位置继续
+    let resumeState: PackageResumeState | null = null;
+
     try {
+      const { data: existing } = await supabase
+        .from("package_downloads")
+        .select("resume_state")
+        .eq("id", packageId)
+        .single();
+      resumeState = (existing?.resume_state as PackageResumeState | null) ?? null;
+
       // 1. 更新状态为 processing
       await supabase
         .from("package_downloads")
@@ -1209,7 +2004,7 @@ const packageWorker = new Worker<PackageJobData>(
         .single();
 
       if (albumError || !album) {
-        throw new Error(`Album not found: ${albumId}`);
+        throw new UnrecoverableError(`Album not found: ${albumId}`);
       }
 
       // 构建水印配置（与照片处理逻辑保持一致，支持新旧格式）
@@ -1228,51 +2023,88 @@ const packageWorker = new Worker<PackageJobData>(
           }
         : undefined;
 
-      // 3. 获取照片信息
-      const { data: photos } = await supabase
+      // 3. 获取照片信息（按请求顺序排列，断点续传依赖稳定的顺序）
+      const { data: photoRows } = await supabase
         .from("photos")
-        .select("id, filename, original_key, preview_key")
+        .select(
+          "id, filename, original_key, preview_key, media_type, video_key, captured_at, is_selected",
+        )
         .in("id", photoIds)
         .eq("status", "completed");
 
-      if (!photos || photos.length === 0) {
-        throw new Error("No photos found");
+      if (!photoRows || photoRows.length === 0) {
+        throw new UnrecoverableError("No photos found");
       }
+      const photoOrder = new Map(photoIds.map((id, index) => [id, index]));
+      const albumTitle: string = (album as any)?.title || "photos";
+      const { photos, layout, manifest } = await planPackage(
+        albumId,
+        albumTitle,
+        ([...photoRows] as PackagePhotoRow[]).sort(
+          (a, b) => (photoOrder.get(a.id) ?? 0) - (photoOrder.get(b.id) ?? 0),
+        ),
+        { groupFolders, filenameTemplate, includeManifest },
+      );
 
-      // 4. 创建 ZIP 包
+      // 4. 创建 ZIP 包，边打包边分片上传到存储
+      const zipKey = `packages/${albumId}/${packageId}.zip`;
+      // 非 ASCII 标题通过 filename* 传递，filename 作为旧客户端的回退
+      const contentDisposition = `attachment; filename="${albumTitle.replace(/[^\x20-\x7e]|["\\]/g, "_")}.zip"; filename*=UTF-8''${encodeURIComponent(albumTitle)}.zip`;
+      let lastProgress = -1;
       console.time(`[Package ${job.id}] Create ZIP`);
-      const zipBuffer = await PackageCreator.createPackage({
-        photos: photos.map(
-          (p: {
-            id: string;
-            filename: string;
-            original_key: string;
-            preview_key: string;
-          }) => ({
+      const result = await PackageCreator.createPackage(
+        {
+          photos: photos.map((p) => ({
             id: p.id,
             filename: p.filename,
             originalKey: p.original_key,
             previewKey: p.preview_key,
-          }),
-        ),
-        albumId,
-        watermarkConfig,
-        includeWatermarked,
-        includeOriginal,
-      });
+            mediaType: p.media_type ?? "image",
+            videoKey: p.video_key,
+            folder: layout.get(p.id)?.folder,
+            packageName: layout.get(p.id)?.name,
+          })),
+          albumId,
+          watermarkConfig,
+          includeWatermarked,
+          includeOriginal,
+          manifest,
+          fingerprint,
+        },
+        {
+          zipKey,
+          metadata: {
+            "Content-Type": "application/zip",
+            "Content-Disposition": contentDisposition,
+          },
+          resumeState,
+          onCheckpoint: async (state) => {
+            resumeState = state;
+            await supabase
+              .from("package_downloads")
+              .update({ resume_state: state })
+              .eq("id", packageId);
+          },
+          onProgress: async ({ completed, total, percent }) => {
+            // 百分比变化时才写库，避免每张照片都更新
+            if (percent === lastProgress) {
+              return;
+            }
+            lastProgress = percent;
+            await supabase
+              .from("package_downloads")
+              .update({
+                progress: percent,
+                processed_photos: completed,
+                total_photos: total,
+              })
+              .eq("id", packageId);
+          },
+        },
+      );
       console.timeEnd(`[Package ${job.id}] Create ZIP`);
 
-      // 5. 上传 ZIP 到存储
-      const zipKey = `packages/${albumId}/${packageId}.zip`;
-      const albumTitle = (album as any)?.title || "photos";
-      console.time(`[Package ${job.id}] Upload ZIP`);
-      await uploadFile(zipKey, zipBuffer, {
-        "Content-Type": "application/zip",
-        "Content-Disposition": `attachment; filename="${albumTitle}.zip"`,
-      });
-      console.timeEnd(`[Package ${job.id}] Upload ZIP`);
-
-      // 6. 生成下载链接
+      // 5. 生成下载链接
       const expiresAt = new Date();
       expiresAt.setDate(
         expiresAt.getDate() + CONFIG.PACKAGE_DOWNLOAD_EXPIRY_DAYS,
@@ -1284,25 +2116,57 @@ const packageWorker = new Worker<PackageJobData>(
       // 转换为相对路径，支持任意域名访问
       const relativeDownloadUrl = toRelativePresignedUrl(downloadUrl);
 
-      // 7. 更新数据库
+      // 6. 更新数据库
       await supabase
         .from("package_downloads")
         .update({
           status: "completed",
           zip_key: zipKey,
-          file_size: zipBuffer.length,
+          file_size: result.fileSize,
+          progress: 100,
+          processed_photos: photos.length,
+          resume_state: null,
           download_url: relativeDownloadUrl,
           expires_at: expiresAt.toISOString(),
           completed_at: new Date().toISOString(),
         })
         .eq("id", packageId);
+
+      // Webhook：打包完成
+      await dispatchWebhookEvent("package.ready", albumId, {
+        package_id: packageId,
+        photo_count: result.processedCount,
+        file_size: result.fileSize,
+        download_url: relativeDownloadUrl,
+        expires_at: expiresAt.toISOString(),
+      });
+
+      // 客户通知：打包完成
+      await notifyClient("package_ready", albumId, {
+        package_id: packageId,
+        photo_count: result.processedCount,
+        download_url: relativeDownloadUrl,
+      });
     } catch (err: any) {
       console.error(`[Package ${job.id}] Failed:`, err);
 
-      // 更新状态为 failed
+      // 还有重试机会时保留断点，下次从断点继续
+      const finalAttempt =
+        err instanceof UnrecoverableError ||
+        job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      if (!finalAttempt) {
+        throw err;
+      }
+
+      // 最后一次失败：清理已上传的分片，更新状态为 failed
+      if (resumeState) {
+        await PackageCreator.abortUpload(resumeState).catch((abortErr) =>
+          console.warn(`[Package ${job.id}] Failed to abort upload:`, abortErr),
+        );
+      }
       await supabase
         .from("package_downloads")
-        .update({ status: "failed" })
+        .update({ status: "failed", resume_state: null })
         .eq("id", packageId);
 
       throw err;
@@ -1318,6 +2182,110 @@ packageWorker.on("failed", (job, err) => {
   console.error(`❌ Package job ${job?.id} failed:`, err.message);
 });
 
+// ============================================
+// 人脸聚类 Worker
+// ============================================
+const faceClusterQueue = new Queue<FaceClusterJobData>("face-clustering", {
+  connection,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: { type: "exponential", delay: 5000 },
+    removeOnComplete: { age: 24 * 3600, count: 1000 },
+    removeOnFail: { age: 7 * 24 * 3600 },
+  },
+});
+
+/**
+ * 预览底图缓存（原图缩小后的 JPEG 和 EXIF，同一相册的多次预览共用，避免重复下载原图）
+ * 风格预览和水印预览使用的尺寸不同，按尺寸分别缓存
+ */
+const previewSources = new Map<
+  string,
+  { image: Buffer; exif: Record<string, any> | null }
+>();
+const MAX_PREVIEW_SOURCES = 16;
+
+/**
+ * 读取预览底图
+ *
+ * @param sourceKey - 照片原图路径（RAW 使用内嵌预览），为空时使用默认底图（exif 为 null）
+ * @param maxSize - 底图长边尺寸
+ */
+async function getPreviewSource(
+  sourceKey: string | null,
+  maxSize = 480,
+): Promise<{ image: Buffer; exif: Record<string, any> | null }> {
+  const cacheKey = `${maxSize}:${sourceKey ?? ""}`;
+  const cached = previewSources.get(cacheKey);
+  if (cached) return cached;
+
+  let source: { image: Buffer; exif: Record<string, any> | null };
+  if (sourceKey) {
+    const original = await downloadFile(sourceKey);
+    const raw = isRawFile(sourceKey) ? await extractRawPreview(original) : null;
+    const processor = new PhotoProcessor(
+      raw?.previewBuffer ?? original,
+      raw?.exif ?? null,
+    );
+    source = {
+      image: await processor.renderStylePreview(null, maxSize),
+      exif: await processor.readExif(),
+    };
+  } else {
+    source = { image: await createStyleSampleImage(), exif: null };
+  }
+
+  if (previewSources.size >= MAX_PREVIEW_SOURCES) {
+    previewSources.delete(previewSources.keys().next().value as string);
+  }
+  previewSources.set(cacheKey, source);
+  return source;
+}
+
+/**
+ * 将相册加入人脸聚类队列
+ *
+ * @description
+ * 直播场景下照片会连续到达，使用防抖去重：同一相册在延迟时间内的多次触发只执行一次聚类，
+ * 每次触发都会推迟执行时间。完整重新聚类会替换等待中的增量任务。
+ *
+ * @param albumId - 相册 ID
+ * @param full - 是否完整重新聚类
+ */
+async function queueFaceClustering(albumId: string, full = false) {
+  await faceClusterQueue.add(
+    "cluster-faces",
+    { albumId, full },
+    {
+      delay: CONFIG.FACE_CLUSTER_DEBOUNCE_MS,
+      deduplication: {
+        id: `cluster-${albumId}`,
+        ttl: CONFIG.FACE_CLUSTER_DEBOUNCE_MS,
+        extend: true,
+        replace: true,
+      },
+    },
+  );
+}
+
+// 聚类会读取并更新整个相册的人物，使用单并发避免同一相册的任务交叉执行
+const faceClusterWorker = new Worker<FaceClusterJobData>(
+  "face-clustering",
+  async (job: Job<FaceClusterJobData>) => {
+    const { albumId, full } = job.data;
+    const result = await clusterAlbumFaces(supabase, albumId, { full });
+    console.log(
+      `[FaceCluster] Album ${albumId}: assigned ${result.assigned} faces, created ${result.created} persons${full ? " (full)" : ""}`,
+    );
+    return result;
+  },
+  { connection, concurrency: 1 },
+);
+
+faceClusterWorker.on("failed", (job, err) => {
+  console.error(`❌ Face cluster job ${job?.id} failed:`, err.message);
+});
+
 // ============================================
 // HTTP API 服务器 (用于接收上传请求)
 // ============================================
@@ -1387,6 +2355,18 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // 本地存储的预签名 URL（签名即认证，不需要 API Key）
+  if (url.pathname.startsWith(LOCAL_MEDIA_PATH_PREFIX)) {
+    const storage = getStorageAdapter();
+    if (storage instanceof LocalFsAdapter) {
+      await handleLocalMediaRequest(storage, req, res, url, {
+        maxUploadSize: CONFIG.MAX_UPLOAD_SIZE,
+        maxPartSize: CONFIG.MAX_PART_SIZE,
+      });
+      return;
+    }
+  }
+
   // API 认证检查（除了 health 端点）
   if (!authenticateRequest(req)) {
     res.writeHead(401, { "Content-Type": "application/json" });
@@ -1534,84 +2514,537 @@ const server = http.createServer(async (req, res) => {
       isAborted = true;
     });
 
-    req.on("end", async () => {
-      if (isAborted) return;
-      try {
-        const buffer = Buffer.concat(chunks);
-        await uploadFile(key, buffer, { "Content-Type": contentType });
+    req.on("end", async () => {
+      if (isAborted) return;
+      try {
+        const buffer = Buffer.concat(chunks);
+        await uploadFile(key, buffer, { "Content-Type": contentType });
+
+        if (!isAborted) {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ success: true, key }));
+        }
+      } catch (err: any) {
+        if (!isAborted) {
+          console.error("Upload error:", err);
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: err.message }));
+        }
+      }
+    });
+
+    req.on("error", (err) => {
+      if (!isAborted) {
+        isAborted = true;
+        console.error("Upload request error:", err);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Request error" }));
+      }
+    });
+
+    return;
+  }
+
+  // 触发照片处理
+  if (url.pathname === "/api/process" && req.method === "POST") {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { photoId, albumId, originalKey, isRetouch } = body;
+
+      // 输入验证
+      const validation = validateInput(body, [
+        "photoId",
+        "albumId",
+        "originalKey",
+      ]);
+      if (!validation.valid) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: validation.error }));
+        return;
+      }
+
+      // UUID 格式验证
+      if (!isValidUUID(photoId) || !isValidUUID(albumId)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Invalid UUID format for photoId or albumId",
+          }),
+        );
+        return;
+      }
+
+      // Key 格式验证（基本检查）
+      if (
+        typeof originalKey !== "string" ||
+        originalKey.length === 0 ||
+        originalKey.length > 500
+      ) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid originalKey format" }));
+        return;
+      }
+
+      // 添加到处理队列
+      await photoQueue.add("process-photo", {
+        photoId,
+        albumId,
+        originalKey,
+        isRetouch: isRetouch === true,
+      });
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true, message: "Job queued" }));
+    } catch (err: any) {
+      console.error("Process queue error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 清除相册缓存（用于缓存失效）
+  if (url.pathname === "/api/clear-album-cache" && req.method === "POST") {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { albumId } = body;
+
+      if (!albumId || typeof albumId !== "string") {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Missing or invalid albumId" }));
+        return;
+      }
+
+      const albumCache = getAlbumCache();
+      albumCache.delete(albumId);
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ success: true, message: "Album cache cleared" }),
+      );
+    } catch (err: any) {
+      console.error("[Clear Cache] Error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 人脸聚类（管理员手动触发完整重新聚类）
+  if (url.pathname === "/api/cluster-faces" && req.method === "POST") {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { albumId, full } = body;
+
+      if (!albumId || typeof albumId !== "string") {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Missing or invalid albumId" }));
+        return;
+      }
+
+      await queueFaceClustering(albumId, full === true);
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ success: true, message: "Face clustering queued" }),
+      );
+    } catch (err: any) {
+      console.error("[FaceCluster] Queue error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 风格预设预览图（管理后台风格选择器，与正式处理使用同一套调色）
+  if (url.pathname === "/api/style-presets/preview" && req.method === "POST") {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { presetId, sourceKey } = body;
+
+      if (
+        presetId != null &&
+        (typeof presetId !== "string" || presetId.length > 100)
+      ) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid presetId" }));
+        return;
+      }
+      if (sourceKey != null && typeof sourceKey !== "string") {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid sourceKey" }));
+        return;
+      }
+
+      const preset = await resolveStylePreset(
+        supabase,
+        presetId,
+        downloadFile,
+        { cache: false },
+      );
+      if (presetId && presetId !== "none" && !preset) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Preset not found" }));
+        return;
+      }
+
+      const source = await getPreviewSource(sourceKey || null);
+      const image = await new PhotoProcessor(source.image).renderStylePreview(
+        preset,
+      );
+
+      res.writeHead(200, {
+        "Content-Type": "image/jpeg",
+        "Content-Length": image.length,
+      });
+      res.end(image);
+    } catch (err: any) {
+      console.error("[StylePreset] Preview error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 水印预览：与照片处理使用同一套水印代码渲染（平铺、字体、EXIF 变量等）
+  if (url.pathname === "/api/watermark/preview" && req.method === "POST") {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { watermarks, sourceKey } = body;
+
+      if (!Array.isArray(watermarks) || watermarks.length > 6) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid watermarks" }));
+        return;
+      }
+      if (sourceKey != null && typeof sourceKey !== "string") {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid sourceKey" }));
+        return;
+      }
+
+      // 底图与正式预览图同尺寸，字号、边距、平铺密度才与最终效果一致
+      const source = await getPreviewSource(
+        sourceKey || null,
+        parseInt(process.env.PREVIEW_MAX_SIZE || "1920", 10),
+      );
+      const image = await new PhotoProcessor(
+        source.image,
+      ).renderWatermarkPreview(
+        { enabled: true, watermarks },
+        // 示例底图没有 EXIF，使用示例 EXIF 展示变量效果
+        source.exif ?? SAMPLE_WATERMARK_EXIF,
+      );
+
+      res.writeHead(200, {
+        "Content-Type": "image/jpeg",
+        "Content-Length": image.length,
+      });
+      res.end(image);
+    } catch (err: any) {
+      console.error("[Watermark] Preview error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 下载指纹：读取原图并嵌入指纹编号后直接返回（Web 端转发给访客下载）
+  if (url.pathname === "/api/fingerprint/embed" && req.method === "POST") {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { key, code } = body;
+
+      if (!key || typeof key !== "string") {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Missing key" }));
+        return;
+      }
+      if (typeof code !== "string" || !FINGERPRINT_CODE_PATTERN.test(code)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid fingerprint code" }));
+        return;
+      }
+
+      const original = await downloadFile(key);
+      const result = await embedFingerprint(original, code);
+      if (!result.embedded) {
+        console.warn(
+          `[Fingerprint] ${result.format} image returned without fingerprint: ${key}`,
+        );
+      }
+
+      res.writeHead(200, {
+        "Content-Type": getMimeType(key),
+        "Content-Length": result.buffer.length,
+        "X-Fingerprint-Embedded": String(result.embedded),
+      });
+      res.end(result.buffer);
+    } catch (err: any) {
+      console.error("[Fingerprint] Embed error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 识别泄露图片：请求体为图片文件，返回解出的指纹编号
+  if (url.pathname === "/api/fingerprint/extract" && req.method === "POST") {
+    try {
+      const image = await readRequestBuffer(req, CONFIG.MAX_UPLOAD_SIZE);
+      if (image.length === 0) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Request body is empty" }));
+        return;
+      }
+
+      const detection = await extractFingerprint(image);
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(detection));
+    } catch (err: any) {
+      console.error("[Fingerprint] Extract error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("unsupported image format")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 恢复已归档 / 已过期删除的相册（Web 端先把相册状态改为 restoring）
+  if (url.pathname === "/api/album-lifecycle/restore" && req.method === "POST") {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { albumId } = body;
+
+      if (!albumId || typeof albumId !== "string" || !isValidUUID(albumId)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Missing or invalid albumId" }));
+        return;
+      }
+
+      await queueAlbumRestore(albumId);
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ success: true, message: "Album restore queued" }),
+      );
+    } catch (err: any) {
+      console.error("[Lifecycle] Queue restore error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
+    return;
+  }
+
+  // 触发客户邮件通知（Web 端的相册就绪、访客提交选片）
+  if (
+    url.pathname === "/api/client-notifications/dispatch" &&
+    req.method === "POST"
+  ) {
+    try {
+      const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
+      const { type, albumId, data } = body;
+
+      if (!isClientNotificationType(type)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Missing or invalid type" }));
+        return;
+      }
 
-        if (!isAborted) {
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ success: true, key }));
-        }
-      } catch (err: any) {
-        if (!isAborted) {
-          console.error("Upload error:", err);
-          res.writeHead(500, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ error: err.message }));
-        }
+      if (typeof albumId !== "string" || !isValidUUID(albumId)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid UUID format for albumId" }));
+        return;
       }
-    });
 
-    req.on("error", (err) => {
-      if (!isAborted) {
-        isAborted = true;
-        console.error("Upload request error:", err);
-        res.writeHead(500, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Request error" }));
+      if (!mailerConfig) {
+        res.writeHead(503, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "SMTP is not configured" }));
+        return;
       }
-    });
 
+      const notificationId = await notifyClient(
+        type,
+        albumId,
+        data && typeof data === "object" && !Array.isArray(data) ? data : {},
+      );
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          success: true,
+          queued: notificationId !== null,
+          notificationId,
+        }),
+      );
+    } catch (err: any) {
+      console.error("[ClientNotify] Dispatch error:", err);
+      const statusCode = err.message?.includes("too large")
+        ? 413
+        : err.message?.includes("Invalid JSON") ||
+            err.message?.includes("Invalid")
+          ? 400
+          : err.message?.includes("timeout")
+            ? 408
+            : 500;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+          ...(CONFIG.IS_DEVELOPMENT && err.stack ? { stack: err.stack } : {}),
+        }),
+      );
+    }
     return;
   }
 
-  // 触发照片处理
-  if (url.pathname === "/api/process" && req.method === "POST") {
+  // 触发 Webhook 事件（Web 端的相册创建/发布、访客提交选片、发送测试事件）
+  if (url.pathname === "/api/webhooks/dispatch" && req.method === "POST") {
     try {
       const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
-      const { photoId, albumId, originalKey } = body;
+      const { event, albumId, data, endpointId } = body;
 
-      // 输入验证
-      const validation = validateInput(body, [
-        "photoId",
-        "albumId",
-        "originalKey",
-      ]);
-      if (!validation.valid) {
+      if (!isWebhookEvent(event)) {
         res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: validation.error }));
+        res.end(JSON.stringify({ error: "Missing or invalid event" }));
         return;
       }
 
-      // UUID 格式验证
-      if (!isValidUUID(photoId) || !isValidUUID(albumId)) {
+      const isOptionalUUID = (value: unknown) =>
+        value == null || (typeof value === "string" && isValidUUID(value));
+      if (!isOptionalUUID(albumId) || !isOptionalUUID(endpointId)) {
         res.writeHead(400, { "Content-Type": "application/json" });
         res.end(
           JSON.stringify({
-            error: "Invalid UUID format for photoId or albumId",
+            error: "Invalid UUID format for albumId or endpointId",
           }),
         );
         return;
       }
 
-      // Key 格式验证（基本检查）
-      if (
-        typeof originalKey !== "string" ||
-        originalKey.length === 0 ||
-        originalKey.length > 500
-      ) {
+      // 测试事件只能发送给指定端点
+      if (event === "webhook.test" && !endpointId) {
         res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Invalid originalKey format" }));
+        res.end(
+          JSON.stringify({ error: "endpointId is required for webhook.test" }),
+        );
         return;
       }
 
-      // 添加到处理队列
-      await photoQueue.add("process-photo", { photoId, albumId, originalKey });
+      const deliveries = await dispatchWebhookEvent(
+        event,
+        albumId ?? null,
+        data && typeof data === "object" && !Array.isArray(data) ? data : {},
+        endpointId ?? undefined,
+      );
 
       res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ success: true, message: "Job queued" }));
+      res.end(JSON.stringify({ success: true, deliveries }));
     } catch (err: any) {
-      console.error("Process queue error:", err);
+      console.error("[Webhook] Dispatch error:", err);
       const statusCode = err.message?.includes("too large")
         ? 413
         : err.message?.includes("Invalid JSON") ||
@@ -1631,35 +3064,45 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
-  // 清除相册缓存（用于缓存失效）
-  if (url.pathname === "/api/clear-album-cache" && req.method === "POST") {
+  // 管理员告警：相册密码被持续猜测（由 Web 端密码验证接口触发）
+  if (
+    url.pathname === "/api/alerts/album-password-guessing" &&
+    req.method === "POST"
+  ) {
     try {
       const body = await parseJsonBody(req, CONFIG.MAX_BODY_SIZE);
-      const { albumId } = body;
+      const { albumId, slug, title, failures, windowMinutes, lastIp } = body;
 
-      if (!albumId || typeof albumId !== "string") {
+      if (
+        typeof albumId !== "string" ||
+        !isValidUUID(albumId) ||
+        typeof slug !== "string" ||
+        typeof failures !== "number" ||
+        typeof windowMinutes !== "number"
+      ) {
         res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Missing or invalid albumId" }));
+        res.end(JSON.stringify({ error: "Invalid alert payload" }));
         return;
       }
 
-      const albumCache = getAlbumCache();
-      albumCache.delete(albumId);
+      const result = await alertService.albumPasswordGuessing({
+        albumId,
+        slug,
+        title: typeof title === "string" ? title : null,
+        failures,
+        windowMinutes,
+        lastIp: typeof lastIp === "string" ? lastIp : undefined,
+      });
 
       res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(
-        JSON.stringify({ success: true, message: "Album cache cleared" }),
-      );
+      res.end(JSON.stringify({ success: result.success, channel: result.channel }));
     } catch (err: any) {
-      console.error("[Clear Cache] Error:", err);
+      console.error("[Alert] Album password guessing alert error:", err);
       const statusCode = err.message?.includes("too large")
         ? 413
-        : err.message?.includes("Invalid JSON") ||
-            err.message?.includes("Invalid")
+        : err.message?.includes("Invalid JSON")
           ? 400
-          : err.message?.includes("timeout")
-            ? 408
-            : 500;
+          : 500;
       res.writeHead(statusCode, { "Content-Type": "application/json" });
       res.end(
         JSON.stringify({
@@ -2040,6 +3483,10 @@ const server = http.createServer(async (req, res) => {
         photoIds,
         includeWatermarked,
         includeOriginal,
+        groupFolders,
+        filenameTemplate,
+        includeManifest,
+        fingerprint,
       } = body;
 
       if (
@@ -2108,6 +3555,26 @@ const server = http.createServer(async (req, res) => {
         return;
       }
 
+      if (
+        filenameTemplate != null &&
+        (typeof filenameTemplate !== "string" ||
+          !isValidFilenameTemplate(filenameTemplate))
+      ) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid filenameTemplate" }));
+        return;
+      }
+
+      if (
+        fingerprint != null &&
+        (typeof fingerprint !== "string" ||
+          !FINGERPRINT_CODE_PATTERN.test(fingerprint))
+      ) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Invalid fingerprint" }));
+        return;
+      }
+
       // 添加到打包队列
       await packageQueue.add("create-package", {
         packageId,
@@ -2115,6 +3582,10 @@ const server = http.createServer(async (req, res) => {
         photoIds,
         includeWatermarked,
         includeOriginal,
+        groupFolders: groupFolders === true,
+        filenameTemplate: filenameTemplate || null,
+        includeManifest: includeManifest === true,
+        fingerprint: fingerprint || null,
       });
 
       res.writeHead(200, { "Content-Type": "application/json" });
@@ -2225,6 +3696,37 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // 实例存储用量：遍历存储桶全部对象，按分类和相册汇总（对象较多时耗时较长）
+  if (url.pathname === "/api/storage/usage" && req.method === "POST") {
+    try {
+      const startedAt = Date.now();
+      const objects = await listObjects("");
+      const summary = summarizeStorageObjects(
+        objects,
+        albumLifecyclePolicy.archivePrefix,
+      );
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          success: true,
+          ...summary,
+          scannedAt: new Date().toISOString(),
+          durationMs: Date.now() - startedAt,
+        }),
+      );
+    } catch (err: any) {
+      console.error("[Storage] Usage scan error:", err);
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: err.message || "Internal server error",
+        }),
+      );
+    }
+    return;
+  }
+
   // ============================================
   // 扫描同步 API
   // ============================================
@@ -2252,31 +3754,10 @@ const server = http.createServer(async (req, res) => {
       const prefix = `sync/${albumId}/`;
       const objects = await listObjects(prefix);
 
-      // 2. 过滤出图片文件
-      const imageExtensions = [
-        ".jpg",
-        ".jpeg",
-        ".png",
-        ".heic",
-        ".webp",
-        ".gif",
-        ".tiff",
-        ".tif",
-      ];
-      const imageObjects = objects.filter((obj) => {
-        const keyLower = obj.key.toLowerCase();
-        const lastDotIndex = keyLower.lastIndexOf(".");
-        // 检查是否有扩展名（. 不在开头或结尾）
-        if (
-          lastDotIndex === -1 ||
-          lastDotIndex === 0 ||
-          lastDotIndex === keyLower.length - 1
-        ) {
-          return false;
-        }
-        const ext = keyLower.slice(lastDotIndex);
-        return imageExtensions.includes(ext);
-      });
+      // 2. 过滤出支持的图片和视频文件
+      const imageObjects = objects.filter(
+        (obj) => getMediaType(obj.key) !== null,
+      );
 
       // 限制批量处理大小，避免超时
       if (imageObjects.length > CONFIG.MAX_SCAN_BATCH_SIZE) {
@@ -2299,7 +3780,7 @@ const server = http.createServer(async (req, res) => {
             found: 0,
             added: 0,
             skipped: 0,
-            message: "未找到新图片",
+            message: "未找到新的图片或视频",
           }),
         );
         return;
@@ -2308,12 +3789,18 @@ const server = http.createServer(async (req, res) => {
       // 3. 查询数据库已有的文件（通过 filename 比对）
       const { data: existingPhotos } = await supabase
         .from("photos")
-        .select("filename")
+        .select("filename, raw_key")
         .eq("album_id", albumId);
 
       const existingFilenames = new Set(
         (existingPhotos || []).map((p: { filename: string }) => p.filename),
       );
+      // 已关联 RAW 的照片（RAW 文件名不单独记录，按基础文件名比对）
+      const existingRawBasenames = new Set(
+        (existingPhotos || [])
+          .filter((p: { raw_key: string | null }) => p.raw_key)
+          .map((p: { filename: string }) => getBasename(p.filename)),
+      );
 
       // 4. 处理新图片（批量并行处理，提高性能）
       let addedCount = 0;
@@ -2328,58 +3815,87 @@ const server = http.createServer(async (req, res) => {
             const filename = obj.key.split("/").pop() || "";
 
             // 跳过已存在的文件
-            if (existingFilenames.has(filename)) {
+            if (
+              existingFilenames.has(filename) ||
+              (isRawFile(filename) &&
+                existingRawBasenames.has(getBasename(filename)))
+            ) {
               skippedCount++;
               return;
             }
 
-            // 生成新的 photo_id
-            const photoId = crypto.randomUUID();
-            const lastDotIndex = filename.lastIndexOf(".");
-            const ext =
-              lastDotIndex !== -1 && lastDotIndex < filename.length - 1
-                ? filename.slice(lastDotIndex + 1).toLowerCase()
-                : "jpg"; // 默认扩展名
-            const newKey = `raw/${albumId}/${photoId}.${ext}`;
-
             try {
-              // 复制文件到标准路径
-              await copyFile(obj.key, newKey);
-
-              // 创建数据库记录
-              const { error: insertError } = await supabase
-                .from("photos")
-                .insert({
-                  id: photoId,
-                  album_id: albumId,
-                  original_key: newKey,
-                  filename: filename,
-                  file_size: obj.size,
-                  status: "pending",
-                });
-
-              if (insertError) {
-                console.error(
-                  `[Scan] Failed to insert photo: ${insertError.message}`,
-                );
-                // 如果数据库插入失败，删除已复制的文件
-                try {
-                  await deleteFile(newKey);
-                } catch (deleteErr) {
-                  console.error(
-                    `[Scan] Failed to cleanup copied file: ${deleteErr}`,
+              // RAW+JPEG 双格式拍摄时，同名文件合并为一张照片
+              const imported = await withPairLock(albumId, filename, async () => {
+                const paired = await findPairedPhoto(supabase, albumId, filename);
+
+                // 生成新的 photo_id（配对时沿用已有照片）
+                const photoId = paired?.id ?? crypto.randomUUID();
+                const lastDotIndex = filename.lastIndexOf(".");
+                const ext =
+                  lastDotIndex !== -1 && lastDotIndex < filename.length - 1
+                    ? filename.slice(lastDotIndex + 1).toLowerCase()
+                    : "jpg"; // 默认扩展名
+                const newKey = `raw/${albumId}/${photoId}.${ext}`;
+
+                // 复制文件到标准路径
+                await copyFile(obj.key, newKey);
+
+                if (paired) {
+                  const { reprocess } = await attachToPairedPhoto(
+                    supabase,
+                    paired,
+                    {
+                      filename,
+                      storageKey: newKey,
+                      fileSize: obj.size,
+                      mimeType: getMimeType(filename),
+                    },
                   );
+                  if (!reprocess) return true;
+                } else {
+                  // 创建数据库记录
+                  const { error: insertError } = await supabase
+                    .from("photos")
+                    .insert({
+                      id: photoId,
+                      album_id: albumId,
+                      original_key: newKey,
+                      raw_key: isRawFile(filename) ? newKey : null,
+                      filename: filename,
+                      file_size: obj.size,
+                      mime_type: getMimeType(filename),
+                      media_type: getMediaType(filename),
+                      status: "pending",
+                    });
+
+                  if (insertError) {
+                    console.error(
+                      `[Scan] Failed to insert photo: ${insertError.message}`,
+                    );
+                    // 如果数据库插入失败，删除已复制的文件
+                    try {
+                      await deleteFile(newKey);
+                    } catch (deleteErr) {
+                      console.error(
+                        `[Scan] Failed to cleanup copied file: ${deleteErr}`,
+                      );
+                    }
+                    return false;
+                  }
                 }
-                return;
-              }
 
-              // 添加到处理队列
-              await photoQueue.add("process-photo", {
-                photoId,
-                albumId,
-                originalKey: newKey,
+                // 添加到处理队列
+                await photoQueue.add("process-photo", {
+                  photoId,
+                  albumId,
+                  originalKey: newKey,
+                });
+                return true;
               });
 
+              if (!imported) return;
+
               // 删除原始文件（可选，或保留备份）
               try {
                 await deleteFile(obj.key);
@@ -2411,8 +3927,8 @@ const server = http.createServer(async (req, res) => {
           added: addedCount,
           message:
             addedCount > 0
-              ? `成功导入 ${addedCount} 张新图片${skippedCount > 0 ? `，跳过 ${skippedCount} 张已存在图片` : ""}`
-              : `未找到新图片${skippedCount > 0 ? `，跳过 ${skippedCount} 张已存在图片` : ""}`,
+              ? `成功导入 ${addedCount} 个新文件${skippedCount > 0 ? `，跳过 ${skippedCount} 个已存在文件` : ""}`
+              : `未找到新的图片或视频${skippedCount > 0 ? `，跳过 ${skippedCount} 个已存在文件` : ""}`,
         }),
       );
     } catch (err: any) {
@@ -2995,7 +4511,9 @@ async function cleanupDeletedPhotos() {
 
     const { data: deletedPhotos, error } = await supabase
       .from("photos")
-      .select("id, album_id, original_key, thumb_key, preview_key, deleted_at")
+      .select(
+        "id, album_id, original_key, raw_key, thumb_key, preview_key, video_key, derivatives, deleted_at",
+      )
       .not("deleted_at", "is", null)
       .lt("deleted_at", retentionDateISO)
       .limit(100); // 每次最多处理 100 张
@@ -3026,6 +4544,22 @@ async function cleanupDeletedPhotos() {
         if (photo.original_key) filesToDelete.push(photo.original_key);
         if (photo.thumb_key) filesToDelete.push(photo.thumb_key);
         if (photo.preview_key) filesToDelete.push(photo.preview_key);
+        if (photo.video_key) filesToDelete.push(photo.video_key);
+        if (photo.raw_key && photo.raw_key !== photo.original_key) {
+          filesToDelete.push(photo.raw_key);
+        }
+        filesToDelete.push(...listDerivativeKeys(photo.derivatives));
+
+        // 照片的历史版本（原图、精修图）同样需要删除，版本记录随照片级联删除
+        const { data: versions } = await supabase
+          .from("photo_versions")
+          .select("storage_key")
+          .eq("photo_id", photo.id);
+        for (const version of versions || []) {
+          if (version.storage_key && !filesToDelete.includes(version.storage_key)) {
+            filesToDelete.push(version.storage_key);
+          }
+        }
 
         // 删除 MinIO 文件
         for (const key of filesToDelete) {
@@ -3094,8 +4628,203 @@ async function cleanupDeletedPhotos() {
   }
 }
 
+// ============================================
+// 相册过期生命周期：过期隐藏 → 归档存储 → 软删除
+// ============================================
+const albumLifecyclePolicy = getAlbumLifecyclePolicy();
+
+const albumLifecycleStorage = { copyFile, deleteFile };
+
+const albumLifecycleQueue = new Queue<AlbumLifecycleJobData>(
+  "album-lifecycle",
+  {
+    connection,
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: { type: "exponential", delay: 60000 },
+      removeOnComplete: { age: 24 * 3600, count: 1000 },
+      removeOnFail: { age: 7 * 24 * 3600 },
+    },
+  },
+);
+
+/**
+ * 更新相册生命周期状态
+ */
+async function setAlbumLifecycleState(
+  albumId: string,
+  state: AlbumLifecycleState,
+  extra: Record<string, unknown> = {},
+) {
+  const { error } = await supabase
+    .from("albums")
+    .update({
+      lifecycle_state: state,
+      lifecycle_changed_at: new Date().toISOString(),
+      ...extra,
+    })
+    .eq("id", albumId);
+  if (error) {
+    throw new Error(error.message);
+  }
+  getAlbumCache().delete(albumId);
+}
+
+/**
+ * 将相册加入恢复队列（同一相册恢复完成前重复触发会被去重）
+ */
+async function queueAlbumRestore(albumId: string) {
+  await albumLifecycleQueue.add(
+    "restore-album",
+    { albumId },
+    { deduplication: { id: `restore-${albumId}` } },
+  );
+}
+
+/**
+ * 按生命周期策略推进过期相册（每次检查每个相册最多推进一个阶段）
+ */
+async function processAlbumLifecycle() {
+  try {
+    const nowISO = new Date().toISOString();
+
+    // 已过期的相册，以及可能被延长了有效期的隐藏相册
+    const [expiredResult, hiddenResult, restoringResult] = await Promise.all([
+      supabase
+        .from("albums")
+        .select("id, expires_at, lifecycle_state")
+        .is("deleted_at", null)
+        .in("lifecycle_state", ["active", "hidden", "archived"])
+        .lt("expires_at", nowISO)
+        .limit(50),
+      supabase
+        .from("albums")
+        .select("id, expires_at, lifecycle_state")
+        .is("deleted_at", null)
+        .eq("lifecycle_state", "hidden")
+        .limit(50),
+      supabase
+        .from("albums")
+        .select("id")
+        .is("deleted_at", null)
+        .eq("lifecycle_state", "restoring")
+        .limit(50),
+    ]);
+
+    if (expiredResult.error || hiddenResult.error) {
+      console.error(
+        "❌ Failed to query expired albums:",
+        expiredResult.error || hiddenResult.error,
+      );
+      return;
+    }
+
+    const albums = new Map<string, LifecycleAlbum>();
+    for (const album of [
+      ...(expiredResult.data || []),
+      ...(hiddenResult.data || []),
+    ] as LifecycleAlbum[]) {
+      albums.set(album.id, album);
+    }
+
+    for (const album of albums.values()) {
+      const nextState = getNextLifecycleState(album, albumLifecyclePolicy);
+      if (!nextState) continue;
+
+      try {
+        if (nextState === "archived") {
+          const result = await archiveAlbumStorage(
+            supabase,
+            albumLifecycleStorage,
+            album.id,
+            albumLifecyclePolicy,
+          );
+          // 有文件处理失败时保持 hidden，下次检查重试
+          if (result.failedFiles > 0) {
+            console.warn(
+              `[Lifecycle] Album ${album.id} archive incomplete: ${result.failedFiles} files failed`,
+            );
+            continue;
+          }
+          await setAlbumLifecycleState(album.id, "archived");
+        } else if (nextState === "deleted") {
+          await setAlbumLifecycleState(album.id, "deleted", {
+            deleted_at: new Date().toISOString(),
+          });
+        } else {
+          await setAlbumLifecycleState(album.id, nextState);
+        }
+        console.log(`[Lifecycle] Album ${album.id}: ${album.lifecycle_state} -> ${nextState}`);
+      } catch (err: any) {
+        console.error(`❌ Lifecycle update failed for album ${album.id}:`, err.message);
+      }
+    }
+
+    // 后台发起恢复但未能入队（Worker 当时不可用）的相册
+    for (const album of restoringResult.data || []) {
+      await queueAlbumRestore(album.id);
+    }
+  } catch (err: any) {
+    console.error("❌ Error during album lifecycle check:", err);
+  }
+}
+
+const albumLifecycleWorker = new Worker<AlbumLifecycleJobData>(
+  "album-lifecycle",
+  async (job: Job<AlbumLifecycleJobData>) => {
+    const { albumId } = job.data;
+    const { data: album } = await supabase
+      .from("albums")
+      .select("id, lifecycle_state")
+      .eq("id", albumId)
+      .single();
+    if (!album || album.lifecycle_state !== "restoring") {
+      return;
+    }
+
+    const result = await restoreAlbumStorage(
+      supabase,
+      albumLifecycleStorage,
+      albumId,
+      albumLifecyclePolicy.archivePrefix,
+    );
+    // 抛出错误让 BullMQ 重试未移回的文件
+    if (result.failedFiles > 0) {
+      throw new Error(`${result.failedFiles} archived files failed to restore`);
+    }
+
+    // 归档时删除了衍生图的照片重新处理
+    for (const photo of result.reprocess) {
+      await supabase
+        .from("photos")
+        .update({ status: "pending" })
+        .eq("id", photo.id);
+      await photoQueue.add("process-photo", {
+        photoId: photo.id,
+        albumId,
+        originalKey: photo.original_key,
+      });
+    }
+
+    await setAlbumLifecycleState(albumId, "active");
+    console.log(
+      `[Lifecycle] Album ${albumId} restored (${result.movedFiles} files moved back, ${result.reprocess.length} photos reprocessing)`,
+    );
+  },
+  { connection, concurrency: 1 },
+);
+
+albumLifecycleWorker.on("failed", (job, err) => {
+  console.warn(
+    `[Lifecycle] Restore of album ${job?.data.albumId} failed ${job?.attemptsMade}/${job?.opts.attempts ?? 1}:`,
+    err.message,
+  );
+});
+
 let recoveryTimeout: NodeJS.Timeout | null = null;
 let deletedPhotoCleanupInterval: NodeJS.Timeout | null = null;
+let expiryReminderInterval: NodeJS.Timeout | null = null;
+let albumLifecycleInterval: NodeJS.Timeout | null = null;
 let isShuttingDown = false;
 
 // 优雅退出函数
@@ -3115,6 +4844,18 @@ async function gracefulShutdown(signal: string) {
     deletedPhotoCleanupInterval = null;
   }
 
+  // 清理过期提醒定时器
+  if (expiryReminderInterval) {
+    clearInterval(expiryReminderInterval);
+    expiryReminderInterval = null;
+  }
+
+  // 清理相册生命周期定时器
+  if (albumLifecycleInterval) {
+    clearInterval(albumLifecycleInterval);
+    albumLifecycleInterval = null;
+  }
+
   // 停止接受新请求
   server.close(() => {
     // HTTP server closed
@@ -3127,8 +4868,17 @@ async function gracefulShutdown(signal: string) {
   const shutdownPromise = Promise.all([
     worker.close(),
     packageWorker.close(),
+    faceClusterWorker.close(),
+    webhookWorker.close(),
+    clientNotificationWorker.close(),
+    albumLifecycleWorker.close(),
     photoQueue.close(),
     packageQueue.close(),
+    faceClusterQueue.close(),
+    webhookQueue.close(),
+    clientNotificationQueue.close(),
+    albumLifecycleQueue.close(),
+    photoEventsRedis.quit(),
     ftpServerService.stop(),
   ]);
 
@@ -3173,10 +4923,10 @@ server.keepAliveTimeout = 65000; // 65秒（略大于 Cloudflare 的 60 秒）
 server.headersTimeout = 66000; // 66秒（略大于 keepAliveTimeout）
 
 server.listen(HTTP_PORT, async () => {
-  // 确保 MinIO bucket 存在（仅在 MinIO 存储类型时）
+  // 确保 bucket 存在（MinIO 创建存储桶，本地存储创建目录）
   try {
     const storageType = process.env.STORAGE_TYPE || "minio";
-    if (storageType === "minio") {
+    if (storageType === "minio" || storageType === "local") {
       const storage = getStorageAdapter();
       if (typeof (storage as any).ensureBucket === "function") {
         await (storage as any).ensureBucket();
@@ -3210,4 +4960,24 @@ server.listen(HTTP_PORT, async () => {
       cleanupDeletedPhotos();
     }, CONFIG.DELETED_PHOTO_CLEANUP_INTERVAL_MS);
   }, 10000);
+
+  // 启动相册过期提醒定时任务（仅在配置 SMTP 时，首次延迟15秒，之后每小时执行一次）
+  if (mailerConfig) {
+    setTimeout(() => {
+      remindExpiringAlbums();
+      expiryReminderInterval = setInterval(() => {
+        remindExpiringAlbums();
+      }, CONFIG.CLIENT_NOTIFY_EXPIRY_CHECK_INTERVAL_MS);
+    }, 15000);
+  }
+
+  // 启动相册过期生命周期定时任务（仅在 ALBUM_LIFECYCLE_ENABLED=true 时，首次延迟20秒）
+  if (albumLifecyclePolicy.enabled) {
+    setTimeout(() => {
+      processAlbumLifecycle();
+      albumLifecycleInterval = setInterval(() => {
+        processAlbumLifecycle();
+      }, CONFIG.ALBUM_LIFECYCLE_INTERVAL_MS);
+    }, 20000);
+  }
 });
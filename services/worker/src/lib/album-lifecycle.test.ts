@@ -0,0 +1,277 @@
+import { describe, it, expect } from "vitest";
+import {
+  archiveAlbumStorage,
+  fromArchiveKey,
+  getAlbumLifecyclePolicy,
+  getNextLifecycleState,
+  restoreAlbumStorage,
+  toArchiveKey,
+  type AlbumLifecyclePolicy,
+  type LifecycleStorage,
+} from "./album-lifecycle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-06-01T00:00:00Z");
+
+const policy: AlbumLifecyclePolicy = {
+  enabled: true,
+  archiveAfterDays: 30,
+  archiveMode: "move_originals",
+  archivePrefix: "archive/",
+  deleteAfterDays: 90,
+};
+
+function expiredDaysAgo(days: number): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString();
+}
+
+/**
+ * 只支持 select().eq() 和 update().eq() 的内存数据库
+ */
+function createFakeDb(tables: Record<string, Record<string, any>[]>) {
+  return {
+    tables,
+    from: (table: string) => ({
+      select: () => ({
+        eq: async (column: string, value: unknown) => ({
+          data: tables[table].filter((row) => row[column] === value),
+          error: null,
+        }),
+      }),
+      update: (data: Record<string, unknown>) => ({
+        eq: async (column: string, value: unknown) => {
+          for (const row of tables[table]) {
+            if (row[column] === value) Object.assign(row, data);
+          }
+          return { error: null };
+        },
+      }),
+    }),
+  };
+}
+
+/**
+ * 内存对象存储，missing 中的文件复制时报错
+ */
+function createFakeStorage(keys: string[], missing: string[] = []) {
+  const files = new Set(keys);
+  const storage: LifecycleStorage = {
+    copyFile: async (src, dest) => {
+      if (missing.includes(src) || !files.has(src)) {
+        throw Object.assign(new Error("not found"), { code: "NoSuchKey" });
+      }
+      files.add(dest);
+    },
+    deleteFile: async (key) => {
+      files.delete(key);
+    },
+  };
+  return { storage, files };
+}
+
+function createAlbumPhotos() {
+  return createFakeDb({
+    photos: [
+      {
+        id: "p1",
+        album_id: "a1",
+        status: "completed",
+        original_key: "raw/a1/p1.jpg",
+        raw_key: "raw/a1/p1.cr3",
+        thumb_key: "processed/thumbs/a1/p1.jpg",
+        preview_key: "processed/previews/a1/p1.jpg",
+        derivatives: { webp: [{ width: 800, key: "processed/derivatives/a1/p1-800.webp" }] },
+        deleted_at: null,
+      },
+    ],
+    photo_versions: [
+      { id: "v1", photo_id: "p1", storage_key: "raw/a1/p1.jpg" },
+      { id: "v2", photo_id: "p1", storage_key: "raw/a1/p1-retouch.jpg" },
+    ],
+  });
+}
+
+const albumKeys = [
+  "raw/a1/p1.jpg",
+  "raw/a1/p1.cr3",
+  "raw/a1/p1-retouch.jpg",
+  "processed/thumbs/a1/p1.jpg",
+  "processed/previews/a1/p1.jpg",
+  "processed/derivatives/a1/p1-800.webp",
+];
+
+describe("getAlbumLifecyclePolicy", () => {
+  it("should be disabled by default with sensible defaults", () => {
+    expect(getAlbumLifecyclePolicy({})).toEqual({
+      enabled: false,
+      archiveAfterDays: 30,
+      archiveMode: "move_originals",
+      archivePrefix: "archive/",
+      deleteAfterDays: 90,
+    });
+  });
+
+  it("should parse env values and ignore invalid ones", () => {
+    expect(
+      getAlbumLifecyclePolicy({
+        ALBUM_LIFECYCLE_ENABLED: "true",
+        ALBUM_ARCHIVE_AFTER_DAYS: "0",
+        ALBUM_ARCHIVE_MODE: "both",
+        ALBUM_ARCHIVE_PREFIX: "/cold",
+        ALBUM_DELETE_AFTER_DAYS: "-1",
+      }),
+    ).toEqual({
+      enabled: true,
+      archiveAfterDays: 0,
+      archiveMode: "both",
+      archivePrefix: "cold/",
+      deleteAfterDays: 90,
+    });
+    expect(getAlbumLifecyclePolicy({ ALBUM_ARCHIVE_MODE: "glacier" }).archiveMode).toBe(
+      "move_originals",
+    );
+  });
+});
+
+describe("getNextLifecycleState", () => {
+  const album = (lifecycle_state: any, expires_at: string | null) => ({
+    id: "a1",
+    lifecycle_state,
+    expires_at,
+  });
+
+  it("should hide expired albums first", () => {
+    expect(getNextLifecycleState(album("active", expiredDaysAgo(100)), policy, now)).toBe(
+      "hidden",
+    );
+    expect(getNextLifecycleState(album("active", null), policy, now)).toBeNull();
+    expect(
+      getNextLifecycleState(album("active", expiredDaysAgo(-1)), policy, now),
+    ).toBeNull();
+  });
+
+  it("should archive, then delete after the grace periods", () => {
+    expect(getNextLifecycleState(album("hidden", expiredDaysAgo(10)), policy, now)).toBeNull();
+    expect(getNextLifecycleState(album("hidden", expiredDaysAgo(30)), policy, now)).toBe(
+      "archived",
+    );
+    expect(
+      getNextLifecycleState(album("archived", expiredDaysAgo(60)), policy, now),
+    ).toBeNull();
+    expect(getNextLifecycleState(album("archived", expiredDaysAgo(90)), policy, now)).toBe(
+      "deleted",
+    );
+  });
+
+  it("should skip disabled stages", () => {
+    const noArchive = { ...policy, archiveAfterDays: 0 };
+    expect(getNextLifecycleState(album("hidden", expiredDaysAgo(90)), noArchive, now)).toBe(
+      "deleted",
+    );
+    const noDelete = { ...policy, deleteAfterDays: 0 };
+    expect(
+      getNextLifecycleState(album("archived", expiredDaysAgo(365)), noDelete, now),
+    ).toBeNull();
+  });
+
+  it("should reactivate hidden albums whose expiry was extended", () => {
+    expect(getNextLifecycleState(album("hidden", expiredDaysAgo(-7)), policy, now)).toBe(
+      "active",
+    );
+    expect(getNextLifecycleState(album("hidden", null), policy, now)).toBe("active");
+    expect(getNextLifecycleState(album("archived", null), policy, now)).toBeNull();
+    expect(getNextLifecycleState(album("restoring", null), policy, now)).toBeNull();
+  });
+});
+
+describe("archive keys", () => {
+  it("should add and strip the archive prefix", () => {
+    expect(toArchiveKey("raw/a1/p1.jpg", "archive/")).toBe("archive/raw/a1/p1.jpg");
+    expect(toArchiveKey("archive/raw/a1/p1.jpg", "archive/")).toBe("archive/raw/a1/p1.jpg");
+    expect(fromArchiveKey("archive/raw/a1/p1.jpg", "archive/")).toBe("raw/a1/p1.jpg");
+    expect(fromArchiveKey("raw/a1/p1.jpg", "archive/")).toBeNull();
+  });
+});
+
+describe("archiveAlbumStorage", () => {
+  it("should move originals, raw files and versions to the archive prefix", async () => {
+    const db = createAlbumPhotos();
+    const { storage, files } = createFakeStorage(albumKeys);
+
+    const result = await archiveAlbumStorage(db, storage, "a1", policy);
+
+    expect(result).toEqual({ movedFiles: 3, deletedFiles: 0, failedFiles: 0 });
+    expect(db.tables.photos[0]).toMatchObject({
+      original_key: "archive/raw/a1/p1.jpg",
+      raw_key: "archive/raw/a1/p1.cr3",
+      thumb_key: "processed/thumbs/a1/p1.jpg",
+    });
+    expect(db.tables.photo_versions.map((v) => v.storage_key)).toEqual([
+      "archive/raw/a1/p1.jpg",
+      "archive/raw/a1/p1-retouch.jpg",
+    ]);
+    expect(files.has("raw/a1/p1.jpg")).toBe(false);
+    expect(files.has("archive/raw/a1/p1-retouch.jpg")).toBe(true);
+  });
+
+  it("should delete derivatives and clear their keys", async () => {
+    const db = createAlbumPhotos();
+    const { storage, files } = createFakeStorage(albumKeys);
+
+    const result = await archiveAlbumStorage(db, storage, "a1", {
+      ...policy,
+      archiveMode: "delete_derivatives",
+    });
+
+    expect(result).toEqual({ movedFiles: 0, deletedFiles: 3, failedFiles: 0 });
+    expect(db.tables.photos[0]).toMatchObject({
+      original_key: "raw/a1/p1.jpg",
+      thumb_key: null,
+      preview_key: null,
+      derivatives: null,
+      thumb_size: null,
+    });
+    expect(files.has("processed/thumbs/a1/p1.jpg")).toBe(false);
+    expect(files.has("raw/a1/p1.jpg")).toBe(true);
+  });
+
+  it("should keep the key of files that failed to move", async () => {
+    const db = createAlbumPhotos();
+    const { storage, files } = createFakeStorage(albumKeys, ["raw/a1/p1.cr3"]);
+
+    const result = await archiveAlbumStorage(db, storage, "a1", policy);
+
+    expect(result.failedFiles).toBe(1);
+    expect(db.tables.photos[0].raw_key).toBe("raw/a1/p1.cr3");
+    expect(files.has("raw/a1/p1.cr3")).toBe(true);
+  });
+});
+
+describe("restoreAlbumStorage", () => {
+  it("should move originals back and list photos that need reprocessing", async () => {
+    const db = createAlbumPhotos();
+    const { storage, files } = createFakeStorage(albumKeys);
+    await archiveAlbumStorage(db, storage, "a1", { ...policy, archiveMode: "both" });
+
+    const result = await restoreAlbumStorage(db, storage, "a1", "archive/");
+
+    expect(result.movedFiles).toBe(3);
+    expect(result.reprocess).toEqual([{ id: "p1", original_key: "raw/a1/p1.jpg" }]);
+    expect(db.tables.photos[0]).toMatchObject({
+      original_key: "raw/a1/p1.jpg",
+      raw_key: "raw/a1/p1.cr3",
+    });
+    expect(db.tables.photo_versions[1].storage_key).toBe("raw/a1/p1-retouch.jpg");
+    expect([...files].some((key) => key.startsWith("archive/"))).toBe(false);
+  });
+
+  it("should not reprocess photos that still have derivatives", async () => {
+    const db = createAlbumPhotos();
+    const { storage } = createFakeStorage(albumKeys);
+    await archiveAlbumStorage(db, storage, "a1", policy);
+
+    const result = await restoreAlbumStorage(db, storage, "a1", "archive/");
+
+    expect(result.reprocess).toEqual([]);
+  });
+});
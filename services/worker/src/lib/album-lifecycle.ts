@@ -0,0 +1,418 @@
+/**
+ * @fileoverview 相册过期生命周期
+ *
+ * @description
+ * 相册过期（expires_at 早于当前时间）后由 Worker 定时按策略推进生命周期：
+ * 1. hidden：过期后立即隐藏（不再出现在首页公开相册中，访客访问本就会被拦截）
+ * 2. archived：过期超过 ALBUM_ARCHIVE_AFTER_DAYS 天后归档存储——把原图移到归档前缀
+ *    （可在对象存储上为该前缀配置低频/归档存储类型）和/或删除缩略图、预览图等衍生图
+ * 3. deleted：过期超过 ALBUM_DELETE_AFTER_DAYS 天后软删除相册（设置 deleted_at）
+ *
+ * 每次检查最多推进一个阶段。管理员延长有效期后，hidden 相册会自动恢复为 active；
+ * archived / deleted 相册由后台发起恢复（状态改为 restoring），Worker 把原图移回原路径，
+ * 并重新处理被删除了衍生图的照片。
+ *
+ * @module lib/album-lifecycle
+ */
+import { listDerivativeKeys, type DerivativeSet } from "./derivatives.js";
+
+/** 相册生命周期状态 */
+export const ALBUM_LIFECYCLE_STATES = [
+  "active",
+  "hidden",
+  "archived",
+  "restoring",
+  "deleted",
+] as const;
+
+export type AlbumLifecycleState = (typeof ALBUM_LIFECYCLE_STATES)[number];
+
+/**
+ * 归档方式
+ * - move_originals：原图移到归档前缀
+ * - delete_derivatives：删除缩略图、预览图和响应式衍生图（恢复时重新生成）
+ * - both：两者都做
+ */
+export const ALBUM_ARCHIVE_MODES = [
+  "move_originals",
+  "delete_derivatives",
+  "both",
+] as const;
+
+export type AlbumArchiveMode = (typeof ALBUM_ARCHIVE_MODES)[number];
+
+/**
+ * 生命周期策略
+ */
+export interface AlbumLifecyclePolicy {
+  /** 是否启用定时推进（恢复不受此开关影响） */
+  enabled: boolean;
+  /** 过期多少天后归档存储，0 表示不归档 */
+  archiveAfterDays: number;
+  /** 归档方式 */
+  archiveMode: AlbumArchiveMode;
+  /** 原图归档前缀（以 / 结尾） */
+  archivePrefix: string;
+  /** 过期多少天后软删除相册，0 表示不删除 */
+  deleteAfterDays: number;
+}
+
+/**
+ * 生命周期推进所需的相册字段
+ */
+export interface LifecycleAlbum {
+  id: string;
+  expires_at: string | null;
+  lifecycle_state: AlbumLifecycleState;
+}
+
+/**
+ * 对象存储操作（便于测试替换）
+ */
+export interface LifecycleStorage {
+  copyFile(src: string, dest: string): Promise<void>;
+  deleteFile(key: string): Promise<void>;
+}
+
+/**
+ * 归档 / 恢复结果
+ */
+export interface LifecycleStorageResult {
+  /** 移动的文件数 */
+  movedFiles: number;
+  /** 删除的衍生图文件数 */
+  deletedFiles: number;
+  /** 处理失败的文件数（下次检查或恢复时重试） */
+  failedFiles: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析非负整数天数，无效值使用默认值
+ * @internal
+ */
+function parseDays(value: string | undefined, fallback: number): number {
+  const days = parseInt(value ?? "", 10);
+  return Number.isFinite(days) && days >= 0 ? days : fallback;
+}
+
+/**
+ * 从环境变量读取生命周期策略
+ *
+ * @param env - 环境变量（ALBUM_LIFECYCLE_ENABLED、ALBUM_ARCHIVE_AFTER_DAYS、ALBUM_ARCHIVE_MODE、
+ *   ALBUM_ARCHIVE_PREFIX、ALBUM_DELETE_AFTER_DAYS）
+ */
+export function getAlbumLifecyclePolicy(
+  env: Record<string, string | undefined> = process.env,
+): AlbumLifecyclePolicy {
+  const mode = env.ALBUM_ARCHIVE_MODE as AlbumArchiveMode | undefined;
+  const prefix = (env.ALBUM_ARCHIVE_PREFIX || "archive/").replace(/^\/+/, "");
+
+  return {
+    enabled: env.ALBUM_LIFECYCLE_ENABLED === "true",
+    archiveAfterDays: parseDays(env.ALBUM_ARCHIVE_AFTER_DAYS, 30),
+    archiveMode:
+      mode && ALBUM_ARCHIVE_MODES.includes(mode) ? mode : "move_originals",
+    archivePrefix: prefix.endsWith("/") ? prefix : `${prefix}/`,
+    deleteAfterDays: parseDays(env.ALBUM_DELETE_AFTER_DAYS, 90),
+  };
+}
+
+/**
+ * 计算相册下一个生命周期状态
+ *
+ * @returns 需要切换到的状态；不需要变化时返回 null
+ */
+export function getNextLifecycleState(
+  album: LifecycleAlbum,
+  policy: AlbumLifecyclePolicy,
+  now: Date = new Date(),
+): AlbumLifecycleState | null {
+  const state = album.lifecycle_state;
+  if (state === "restoring" || state === "deleted") return null;
+
+  const expiresAt = album.expires_at ? new Date(album.expires_at).getTime() : NaN;
+  if (!Number.isFinite(expiresAt) || expiresAt > now.getTime()) {
+    // 有效期已延长：隐藏的相册直接恢复，已归档的相册需要后台发起恢复
+    return state === "hidden" ? "active" : null;
+  }
+
+  if (state === "active") return "hidden";
+
+  const expiredDays = (now.getTime() - expiresAt) / DAY_MS;
+  const archiveEnabled = policy.archiveAfterDays > 0;
+
+  if (state === "hidden" && archiveEnabled && expiredDays >= policy.archiveAfterDays) {
+    return "archived";
+  }
+
+  if (
+    (state === "archived" || (state === "hidden" && !archiveEnabled)) &&
+    policy.deleteAfterDays > 0 &&
+    expiredDays >= policy.deleteAfterDays
+  ) {
+    return "deleted";
+  }
+
+  return null;
+}
+
+/**
+ * 原图路径 → 归档路径
+ */
+export function toArchiveKey(key: string, prefix: string): string {
+  return key.startsWith(prefix) ? key : `${prefix}${key}`;
+}
+
+/**
+ * 归档路径 → 原图路径，不在归档前缀下时返回 null
+ */
+export function fromArchiveKey(key: string, prefix: string): string | null {
+  return key.startsWith(prefix) ? key.slice(prefix.length) : null;
+}
+
+/**
+ * 是否为「文件不存在」错误（已被清理的文件不算失败）
+ * @internal
+ */
+function isMissingFileError(err: any): boolean {
+  return (
+    err?.code === "NoSuchKey" ||
+    err?.code === "NotFound" ||
+    !!err?.message?.includes("does not exist")
+  );
+}
+
+/**
+ * 批量移动文件，返回成功移动的 原路径 → 新路径
+ * @internal
+ */
+async function moveFiles(
+  storage: LifecycleStorage,
+  moves: Map<string, string>,
+  result: LifecycleStorageResult,
+): Promise<Map<string, string>> {
+  const moved = new Map<string, string>();
+  for (const [src, dest] of moves) {
+    try {
+      await storage.copyFile(src, dest);
+      moved.set(src, dest);
+      result.movedFiles++;
+    } catch (err: any) {
+      console.warn(`[Lifecycle] Failed to copy ${src} -> ${dest}:`, err?.message);
+      result.failedFiles++;
+    }
+  }
+  return moved;
+}
+
+/**
+ * 删除文件，文件不存在时忽略
+ * @internal
+ */
+async function deleteFiles(
+  storage: LifecycleStorage,
+  keys: Iterable<string>,
+  result?: LifecycleStorageResult,
+): Promise<void> {
+  for (const key of keys) {
+    try {
+      await storage.deleteFile(key);
+      if (result) result.deletedFiles++;
+    } catch (err: any) {
+      if (!isMissingFileError(err)) {
+        console.warn(`[Lifecycle] Failed to delete ${key}:`, err?.message);
+        if (result) result.failedFiles++;
+      }
+    }
+  }
+}
+
+/**
+ * 按映射更新照片的原图路径（original_key、raw_key 和版本历史）
+ * @internal
+ */
+async function updatePhotoKeys(
+  db: any,
+  photo: { id: string; original_key: string | null; raw_key: string | null },
+  versions: Array<{ id: string; storage_key: string }>,
+  moved: Map<string, string>,
+): Promise<void> {
+  const photoUpdate: Record<string, string> = {};
+  if (photo.original_key && moved.has(photo.original_key)) {
+    photoUpdate.original_key = moved.get(photo.original_key)!;
+  }
+  if (photo.raw_key && moved.has(photo.raw_key)) {
+    photoUpdate.raw_key = moved.get(photo.raw_key)!;
+  }
+  if (Object.keys(photoUpdate).length > 0) {
+    const { error } = await db.from("photos").update(photoUpdate).eq("id", photo.id);
+    if (error) throw new Error(error.message);
+  }
+
+  for (const version of versions) {
+    const key = moved.get(version.storage_key);
+    if (!key) continue;
+    const { error } = await db
+      .from("photo_versions")
+      .update({ storage_key: key })
+      .eq("id", version.id);
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * 查询相册的照片（包括回收站中的照片，避免恢复后原图路径不一致）
+ * @internal
+ */
+async function listAlbumPhotos(db: any, albumId: string) {
+  const { data, error } = await db
+    .from("photos")
+    .select(
+      "id, status, original_key, raw_key, thumb_key, preview_key, derivatives, deleted_at",
+    )
+    .eq("album_id", albumId);
+  if (error) throw new Error(error.message);
+  return (data || []) as Array<{
+    id: string;
+    status: string;
+    original_key: string | null;
+    raw_key: string | null;
+    thumb_key: string | null;
+    preview_key: string | null;
+    derivatives: DerivativeSet | null;
+    deleted_at: string | null;
+  }>;
+}
+
+/**
+ * 查询照片的版本历史
+ * @internal
+ */
+async function listPhotoVersions(
+  db: any,
+  photoId: string,
+): Promise<Array<{ id: string; storage_key: string }>> {
+  const { data } = await db
+    .from("photo_versions")
+    .select("id, storage_key")
+    .eq("photo_id", photoId);
+  return data || [];
+}
+
+/**
+ * 归档相册存储
+ *
+ * @description 每张照片先复制到新路径、再更新数据库、最后删除旧文件，中途失败可以安全重试。
+ * 删除衍生图后照片的 thumb_key、preview_key、derivatives 置空，恢复时据此重新处理。
+ *
+ * @param db - 数据库客户端
+ * @param storage - 对象存储操作
+ * @param albumId - 相册 ID
+ * @param policy - 生命周期策略
+ */
+export async function archiveAlbumStorage(
+  db: any,
+  storage: LifecycleStorage,
+  albumId: string,
+  policy: Pick<AlbumLifecyclePolicy, "archiveMode" | "archivePrefix">,
+): Promise<LifecycleStorageResult> {
+  const result: LifecycleStorageResult = { movedFiles: 0, deletedFiles: 0, failedFiles: 0 };
+  const moveOriginals = policy.archiveMode !== "delete_derivatives";
+  const deleteDerivatives = policy.archiveMode !== "move_originals";
+
+  for (const photo of await listAlbumPhotos(db, albumId)) {
+    if (moveOriginals) {
+      const versions = await listPhotoVersions(db, photo.id);
+      const moves = new Map<string, string>();
+      for (const key of [
+        photo.original_key,
+        photo.raw_key,
+        ...versions.map((version) => version.storage_key),
+      ]) {
+        if (key && !key.startsWith(policy.archivePrefix)) {
+          moves.set(key, toArchiveKey(key, policy.archivePrefix));
+        }
+      }
+
+      const moved = await moveFiles(storage, moves, result);
+      if (moved.size > 0) {
+        await updatePhotoKeys(db, photo, versions, moved);
+        await deleteFiles(storage, moved.keys());
+      }
+    }
+
+    if (deleteDerivatives) {
+      const keys = new Set(
+        [photo.thumb_key, photo.preview_key, ...listDerivativeKeys(photo.derivatives)].filter(
+          (key): key is string => !!key,
+        ),
+      );
+      if (keys.size > 0) {
+        await deleteFiles(storage, keys, result);
+        const { error } = await db
+          .from("photos")
+          .update({
+            thumb_key: null,
+            preview_key: null,
+            derivatives: null,
+            thumb_size: null,
+            preview_size: null,
+          })
+          .eq("id", photo.id);
+        if (error) throw new Error(error.message);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 恢复相册存储：把归档前缀下的原图移回原路径
+ *
+ * @returns 结果，以及衍生图已被删除、需要重新处理的照片
+ */
+export async function restoreAlbumStorage(
+  db: any,
+  storage: LifecycleStorage,
+  albumId: string,
+  archivePrefix: string,
+): Promise<LifecycleStorageResult & { reprocess: Array<{ id: string; original_key: string }> }> {
+  const result: LifecycleStorageResult = { movedFiles: 0, deletedFiles: 0, failedFiles: 0 };
+  const reprocess: Array<{ id: string; original_key: string }> = [];
+
+  for (const photo of await listAlbumPhotos(db, albumId)) {
+    const versions = await listPhotoVersions(db, photo.id);
+    const moves = new Map<string, string>();
+    for (const key of [
+      photo.original_key,
+      photo.raw_key,
+      ...versions.map((version) => version.storage_key),
+    ]) {
+      const restoredKey = key ? fromArchiveKey(key, archivePrefix) : null;
+      if (key && restoredKey) moves.set(key, restoredKey);
+    }
+
+    const moved = await moveFiles(storage, moves, result);
+    if (moved.size > 0) {
+      await updatePhotoKeys(db, photo, versions, moved);
+      await deleteFiles(storage, moved.keys());
+    }
+
+    const originalKey =
+      (photo.original_key && moved.get(photo.original_key)) || photo.original_key;
+    if (
+      photo.status === "completed" &&
+      !photo.deleted_at &&
+      !photo.thumb_key &&
+      originalKey &&
+      !originalKey.startsWith(archivePrefix)
+    ) {
+      reprocess.push({ id: photo.id, original_key: originalKey });
+    }
+  }
+
+  return { ...result, reprocess };
+}
@@ -318,6 +318,32 @@ export class AlertService {
     });
   }
 
+  /**
+   * 便捷方法：发送相册密码被持续猜测告警
+   */
+  async albumPasswordGuessing(details: {
+    albumId: string;
+    slug: string;
+    title?: string | null;
+    failures: number;
+    windowMinutes: number;
+    lastIp?: string;
+  }) {
+    return this.send({
+      title: '相册密码疑似被暴力猜测',
+      message: `相册「${details.title || details.slug}」在 ${details.windowMinutes} 分钟内密码验证失败 ${details.failures} 次`,
+      level: 'warning',
+      metadata: {
+        albumId: details.albumId,
+        slug: details.slug,
+        failures: details.failures,
+        windowMinutes: details.windowMinutes,
+        lastIp: details.lastIp || 'unknown',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
   /**
    * 便捷方法：发送存储空间告警
    */
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import net from "net";
+import type { AddressInfo } from "net";
+import {
+  deliverClientNotification,
+  getMailerConfig,
+  isClientNotificationType,
+  notificationTextToHtml,
+  pickNotificationTemplate,
+  renderNotificationTemplate,
+  sendMail,
+  type MailerConfig,
+} from "./client-notifications";
+
+/**
+ * 本地 SMTP 接收端（最小实现），记录收件人和邮件内容；
+ * 收件人为 reject@example.com 时拒收
+ */
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+let server: net.Server;
+let config: MailerConfig;
+let received: ReceivedMail[] = [];
+
+beforeAll(async () => {
+  server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    let mail: ReceivedMail = { from: "", to: [], data: "" };
+    socket.write("220 localhost ESMTP test\r\n");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        mail.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        received.push(mail);
+        mail = { from: "", to: [], data: "" };
+        socket.write("250 OK queued\r\n");
+      }
+
+      let index: number;
+      while (!inData && (index = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        const command = line.toUpperCase();
+        if (command.startsWith("EHLO") || command.startsWith("HELO")) {
+          socket.write("250-localhost\r\n250 8BITMIME\r\n");
+        } else if (command.startsWith("MAIL FROM:")) {
+          mail.from = line.slice(10).trim();
+          socket.write("250 OK\r\n");
+        } else if (command.startsWith("RCPT TO:")) {
+          const to = line.slice(8).trim();
+          if (to.includes("reject@example.com")) {
+            socket.write("550 Mailbox unavailable\r\n");
+          } else {
+            mail.to.push(to);
+            socket.write("250 OK\r\n");
+          }
+        } else if (command === "DATA") {
+          inData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (command === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  config = {
+    host: "127.0.0.1",
+    port: (server.address() as AddressInfo).port,
+    secure: false,
+    user: "",
+    pass: "",
+    from: "PIS <noreply@example.com>",
+  };
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+/**
+ * 只支持 deliverClientNotification 用到的查询的内存数据库
+ */
+function createFakeDb(row: Record<string, unknown> | null) {
+  const updates: Record<string, unknown>[] = [];
+  const db = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: async () => ({ data: row, error: null }) }),
+      }),
+      update: (data: Record<string, unknown>) => ({
+        eq: async () => {
+          updates.push(data);
+          return { error: null };
+        },
+      }),
+    }),
+  };
+  return { db, updates };
+}
+
+describe("isClientNotificationType", () => {
+  it("should accept known types only", () => {
+    expect(isClientNotificationType("album_ready")).toBe(true);
+    expect(isClientNotificationType("album_expiring")).toBe(true);
+    expect(isClientNotificationType("album.published")).toBe(false);
+    expect(isClientNotificationType(undefined)).toBe(false);
+  });
+});
+
+describe("getMailerConfig", () => {
+  it("should return null without host or sender", () => {
+    expect(getMailerConfig({})).toBeNull();
+    expect(getMailerConfig({ SMTP_HOST: "localhost" })).toBeNull();
+  });
+
+  it("should default to port 587 and infer secure from port 465", () => {
+    expect(
+      getMailerConfig({ SMTP_HOST: "localhost", SMTP_FROM: "a@example.com" }),
+    ).toMatchObject({ port: 587, secure: false, user: "" });
+    expect(
+      getMailerConfig({
+        SMTP_HOST: "smtp.example.com",
+        SMTP_PORT: "465",
+        SMTP_FROM: "a@example.com",
+      }),
+    ).toMatchObject({ port: 465, secure: true });
+    expect(
+      getMailerConfig({
+        SMTP_HOST: "smtp.example.com",
+        SMTP_PORT: "465",
+        SMTP_SECURE: "false",
+        SMTP_FROM: "a@example.com",
+      }),
+    ).toMatchObject({ secure: false });
+  });
+});
+
+describe("renderNotificationTemplate", () => {
+  it("should replace known variables and blank unknown ones", () => {
+    expect(
+      renderNotificationTemplate("{{ client_name }}: {{photo_count}} {{missing}}!", {
+        client_name: "Alice",
+        photo_count: 12,
+      }),
+    ).toBe("Alice: 12 !");
+  });
+});
+
+describe("notificationTextToHtml", () => {
+  it("should escape HTML, keep line breaks and link URLs", () => {
+    const html = notificationTextToHtml(
+      "Hi <b>Bob</b>\nline two\n\nView: https://example.com/album/a?x=1&y=2",
+    );
+
+    expect(html).toContain("Hi &lt;b&gt;Bob&lt;/b&gt;<br>line two</p>");
+    expect(html).toContain(
+      '<a href="https://example.com/album/a?x=1&amp;y=2">https://example.com/album/a?x=1&amp;y=2</a>',
+    );
+  });
+});
+
+describe("pickNotificationTemplate", () => {
+  const templates = [
+    { locale: "zh-CN", subject: "中文", body: "" },
+    { locale: "en", subject: "English", body: "" },
+  ];
+
+  it("should prefer the client's locale and fall back to zh-CN", () => {
+    expect(pickNotificationTemplate(templates, "en")?.subject).toBe("English");
+    expect(pickNotificationTemplate(templates, "fr")?.subject).toBe("中文");
+    expect(pickNotificationTemplate([], "en")).toBeNull();
+  });
+});
+
+describe("sendMail", () => {
+  it("should deliver to a local SMTP server", async () => {
+    await sendMail(config, {
+      to: "client@example.com",
+      subject: "Your album is ready",
+      text: "Hello",
+      html: "<p>Hello</p>",
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].to).toEqual(["<client@example.com>"]);
+    expect(received[0].data).toContain("Subject: Your album is ready");
+  });
+
+  it("should reject when the recipient is refused", async () => {
+    await expect(
+      sendMail(config, {
+        to: "reject@example.com",
+        subject: "x",
+        text: "x",
+        html: "x",
+      }),
+    ).rejects.toThrow();
+  });
+});
+
+describe("deliverClientNotification", () => {
+  const notification = {
+    id: "n-1",
+    recipient: "client@example.com",
+    subject: "相册已就绪",
+    body: "查看相册：https://example.com/album/a",
+    status: "pending",
+  };
+
+  it("should send and mark as sent", async () => {
+    const { db, updates } = createFakeDb(notification);
+
+    const error = await deliverClientNotification(db, "n-1", config, 1, 3);
+
+    expect(error).toBeNull();
+    expect(received).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ status: "sent", attempts: 1, error: null });
+    expect(updates[0].sent_at).toEqual(expect.any(String));
+  });
+
+  it("should mark as retrying, then failed on the last attempt", async () => {
+    const { db, updates } = createFakeDb({
+      ...notification,
+      recipient: "reject@example.com",
+    });
+
+    expect(await deliverClientNotification(db, "n-1", config, 1, 2)).toEqual(
+      expect.any(String),
+    );
+    expect(await deliverClientNotification(db, "n-1", config, 2, 2)).toEqual(
+      expect.any(String),
+    );
+    expect(updates.map((update) => update.status)).toEqual(["retrying", "failed"]);
+  });
+
+  it("should skip notifications that were already sent", async () => {
+    const { db, updates } = createFakeDb({ ...notification, status: "sent" });
+
+    expect(await deliverClientNotification(db, "n-1", config, 1, 3)).toBeNull();
+    expect(received).toHaveLength(0);
+    expect(updates).toHaveLength(0);
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * @fileoverview 客户邮件通知
+ *
+ * @description
+ * 相册开启「通知客户」且关联客户填写了邮箱时，在以下时机给客户发送邮件：
+ * - album_ready：相册就绪（发布相册，或在后台手动发送）
+ * - photos_added：新增照片（防抖汇总；只在客户收到过相册就绪通知后发送）
+ * - selection_received：访客提交选片
+ * - package_ready：打包下载完成
+ * - album_expiring：相册即将过期
+ *
+ * 邮件模板按类型和语言保存在 notification_templates 表中，可在后台编辑；客户语言没有
+ * 对应模板时使用中文模板。每封邮件对应 client_notifications 中的一条记录（保存渲染后的
+ * 主题和正文），由 client-notifications 队列发送并按指数退避重试。
+ *
+ * 邮件通过 SMTP 发送（SMTP_HOST、SMTP_PORT、SMTP_SECURE、SMTP_USER、SMTP_PASS、SMTP_FROM），
+ * 本地开发可使用 Mailpit 等本地 SMTP 服务；未配置 SMTP 时不创建通知。
+ *
+ * @module lib/client-notifications
+ */
+import { randomUUID } from "crypto";
+
+/** 支持的通知类型 */
+export const CLIENT_NOTIFICATION_TYPES = [
+  "album_ready",
+  "photos_added",
+  "selection_received",
+  "package_ready",
+  "album_expiring",
+] as const;
+
+export type ClientNotificationType = (typeof CLIENT_NOTIFICATION_TYPES)[number];
+
+/** 客户语言没有对应模板时使用的语言 */
+export const DEFAULT_NOTIFICATION_LOCALE = "zh-CN";
+
+/**
+ * SMTP 配置
+ */
+export interface MailerConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+  from: string;
+}
+
+/**
+ * 待发送的邮件
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * 邮件模板
+ */
+export interface NotificationTemplate {
+  locale: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * 判断字符串是否为支持的通知类型
+ */
+export function isClientNotificationType(
+  value: unknown,
+): value is ClientNotificationType {
+  return (
+    typeof value === "string" &&
+    (CLIENT_NOTIFICATION_TYPES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * 从环境变量读取 SMTP 配置
+ *
+ * @returns 未配置 SMTP_HOST 或 SMTP_FROM 时返回 null
+ */
+export function getMailerConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): MailerConfig | null {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) {
+    return null;
+  }
+  const port = parseInt(env.SMTP_PORT || "587");
+  return {
+    host: env.SMTP_HOST,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+    user: env.SMTP_USER || "",
+    pass: env.SMTP_PASS || "",
+    from: env.SMTP_FROM,
+  };
+}
+
+/**
+ * 发送邮件
+ *
+ * @description 未配置用户名时不做 SMTP 认证（本地 SMTP 服务通常不需要认证）
+ * @throws 连接或发送失败时抛出错误
+ */
+export async function sendMail(
+  config: MailerConfig,
+  message: MailMessage,
+): Promise<void> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const nodemailer = (await import("nodemailer")) as any;
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    connectionTimeout: 10000,
+    greetingTimeout: 10000,
+    socketTimeout: 30000,
+  });
+
+  try {
+    await transporter.sendMail({ from: config.from, ...message });
+  } finally {
+    transporter.close();
+  }
+}
+
+/**
+ * 渲染模板中的 `{{变量}}` 占位符
+ *
+ * @description 未提供的变量替换为空字符串
+ */
+export function renderNotificationTemplate(
+  template: string,
+  variables: Record<string, unknown>,
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = variables[name];
+    return value === undefined || value === null ? "" : String(value);
+  });
+}
+
+/**
+ * 将纯文本正文转换为 HTML（转义特殊字符、保留换行、链接可点击）
+ */
+export function notificationTextToHtml(text: string): string {
+  const escaped = text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+  const linked = escaped.replace(
+    /https?:\/\/[^\s<]+/g,
+    (url) => `<a href="${url}">${url}</a>`,
+  );
+  const paragraphs = linked
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${paragraph.replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+  return `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; font-size: 15px; line-height: 1.6;">\n${paragraphs}\n</div>`;
+}
+
+/**
+ * 获取站点地址（用于邮件中的相册和下载链接）
+ */
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(
+    /\/+$/,
+    "",
+  );
+}
+
+/**
+ * 将相对路径转换为完整链接
+ */
+export function toAbsoluteUrl(url: string): string {
+  return url.startsWith("/") ? `${getAppUrl()}${url}` : url;
+}
+
+/**
+ * 格式化日期（按客户语言）
+ */
+function formatDate(value: string, locale: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  try {
+    return date.toLocaleDateString(locale, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * 选择模板：优先客户语言，其次默认语言
+ */
+export function pickNotificationTemplate(
+  templates: NotificationTemplate[],
+  locale: string | null | undefined,
+): NotificationTemplate | null {
+  return (
+    templates.find((template) => template.locale === locale) ||
+    templates.find(
+      (template) => template.locale === DEFAULT_NOTIFICATION_LOCALE,
+    ) ||
+    null
+  );
+}
+
+/**
+ * 读取工作室名称（系统设置优先，其次环境变量）
+ */
+async function getStudioName(db: any): Promise<string> {
+  const { data } = await db
+    .from("system_settings")
+    .select("value")
+    .eq("key", "branding.studio_name")
+    .single();
+  if (typeof data?.value === "string" && data.value.trim()) {
+    return data.value;
+  }
+  return process.env.NEXT_PUBLIC_PHOTOGRAPHER_NAME || "PIS Photography";
+}
+
+/**
+ * 为相册创建一条客户通知（渲染模板并写入 client_notifications）
+ *
+ * @description 相册未开启通知、未关联客户、客户没有邮箱或缺少模板时不创建
+ *
+ * @param db - 数据库客户端
+ * @param type - 通知类型
+ * @param albumId - 相册 ID
+ * @param data - 模板变量（如 photo_count、guest_name、download_url）
+ * @returns 新建的通知 ID；不需要通知时返回 null
+ */
+export async function createClientNotification(
+  db: any,
+  type: ClientNotificationType,
+  albumId: string,
+  data: Record<string, unknown> = {},
+): Promise<string | null> {
+  const { data: album } = await db
+    .from("albums")
+    .select("id, title, slug, client_id, notify_client, expires_at, deleted_at")
+    .eq("id", albumId)
+    .single();
+  if (!album || album.deleted_at || !album.notify_client || !album.client_id) {
+    return null;
+  }
+
+  const { data: client } = await db
+    .from("clients")
+    .select("id, name, email, locale")
+    .eq("id", album.client_id)
+    .single();
+  if (!client?.email) {
+    return null;
+  }
+
+  const { data: templates, error: templateError } = await db
+    .from("notification_templates")
+    .select("locale, subject, body")
+    .eq("type", type)
+    .in("locale", [client.locale || DEFAULT_NOTIFICATION_LOCALE, DEFAULT_NOTIFICATION_LOCALE]);
+  if (templateError) {
+    throw new Error(
+      `Failed to load notification templates: ${templateError.message}`,
+    );
+  }
+  const template = pickNotificationTemplate(templates || [], client.locale);
+  if (!template) {
+    console.warn(`[ClientNotify] No template for ${type}, skipped`);
+    return null;
+  }
+
+  const variables: Record<string, unknown> = {
+    ...data,
+    client_name: client.name,
+    album_title: album.title,
+    album_url: toAbsoluteUrl(`/album/${encodeURIComponent(album.slug)}`),
+    studio_name: await getStudioName(db),
+    expires_at: album.expires_at
+      ? formatDate(album.expires_at, template.locale)
+      : "",
+  };
+  if (typeof data.download_url === "string") {
+    variables.download_url = toAbsoluteUrl(data.download_url);
+  }
+
+  const id = randomUUID();
+  const { error } = await db.from("client_notifications").insert({
+    id,
+    album_id: album.id,
+    client_id: client.id,
+    type,
+    locale: template.locale,
+    recipient: client.email,
+    subject: renderNotificationTemplate(template.subject, variables),
+    body: renderNotificationTemplate(template.body, variables),
+    data,
+    status: "pending",
+  });
+  if (error) {
+    throw new Error(`Failed to create client notification: ${error.message}`);
+  }
+
+  return id;
+}
+
+/**
+ * 统计上次通知客户之后新增的照片数
+ *
+ * @description 以最近一次成功发送的相册就绪或新增照片通知为起点；
+ * 客户还没收到过这两类通知时返回 0（相册尚未就绪，不发送新增照片通知）
+ */
+export async function countPhotosAddedSinceLastNotice(
+  db: any,
+  albumId: string,
+): Promise<number> {
+  const { data: notices } = await db
+    .from("client_notifications")
+    .select("created_at")
+    .eq("album_id", albumId)
+    .in("type", ["album_ready", "photos_added"])
+    .eq("status", "sent")
+    .order("created_at", { ascending: false })
+    .limit(1);
+  const since = notices?.[0]?.created_at;
+  if (!since) {
+    return 0;
+  }
+
+  const { count } = await db
+    .from("photos")
+    .select("*", { count: "exact", head: true })
+    .eq("album_id", albumId)
+    .eq("status", "completed")
+    .is("deleted_at", null)
+    .gt("created_at", since);
+  return count || 0;
+}
+
+/**
+ * 查找需要发送过期提醒的相册
+ *
+ * @description 开启通知、已关联客户且在 days 天内过期的相册；
+ * 本次过期时间对应的提醒窗口内已创建过提醒的相册会被排除（延长过期时间后会重新提醒）
+ *
+ * @param days - 提前提醒的天数
+ * @param now - 当前时间（便于测试）
+ * @returns 相册 ID
+ */
+export async function findAlbumsDueForExpiryReminder(
+  db: any,
+  days: number,
+  now: Date = new Date(),
+): Promise<string[]> {
+  const windowMs = days * 24 * 60 * 60 * 1000;
+  const { data: albums, error } = await db
+    .from("albums")
+    .select("id, expires_at")
+    .eq("notify_client", true)
+    .is("deleted_at", null)
+    .gt("expires_at", now.toISOString())
+    .lte("expires_at", new Date(now.getTime() + windowMs).toISOString());
+  if (error) {
+    throw new Error(`Failed to load expiring albums: ${error.message}`);
+  }
+
+  const due: string[] = [];
+  for (const album of albums || []) {
+    const windowStart = new Date(
+      new Date(album.expires_at).getTime() - windowMs,
+    ).toISOString();
+    const { data: reminded } = await db
+      .from("client_notifications")
+      .select("id")
+      .eq("album_id", album.id)
+      .eq("type", "album_expiring")
+      .gte("created_at", windowStart)
+      .limit(1);
+    if (!reminded || reminded.length === 0) {
+      due.push(album.id);
+    }
+  }
+  return due;
+}
+
+/**
+ * 发送一条通知并更新记录
+ *
+ * @param db - 数据库客户端
+ * @param notificationId - 通知记录 ID
+ * @param config - SMTP 配置
+ * @param attempt - 当前是第几次尝试（从 1 开始）
+ * @param maxAttempts - 最大尝试次数（用于判断是否还会重试）
+ * @returns 发送失败时的错误信息，成功返回 null；记录不存在或已发送时返回 null
+ */
+export async function deliverClientNotification(
+  db: any,
+  notificationId: string,
+  config: MailerConfig,
+  attempt: number,
+  maxAttempts: number,
+): Promise<string | null> {
+  const { data: notification } = await db
+    .from("client_notifications")
+    .select("id, recipient, subject, body, status")
+    .eq("id", notificationId)
+    .single();
+  if (!notification || notification.status === "sent") {
+    return null;
+  }
+
+  let errorMessage: string | null = null;
+  try {
+    await sendMail(config, {
+      to: notification.recipient,
+      subject: notification.subject,
+      text: notification.body,
+      html: notificationTextToHtml(notification.body),
+    });
+  } catch (err: any) {
+    errorMessage = err?.message || "Send failed";
+  }
+
+  const status = !errorMessage
+    ? "sent"
+    : attempt >= maxAttempts
+      ? "failed"
+      : "retrying";
+  const { error } = await db
+    .from("client_notifications")
+    .update({
+      status,
+      attempts: attempt,
+      error: errorMessage,
+      sent_at: errorMessage ? null : new Date().toISOString(),
+    })
+    .eq("id", notificationId);
+  if (error) {
+    console.warn(
+      `[ClientNotify] Failed to update notification ${notificationId}:`,
+      error.message,
+    );
+  }
+
+  return errorMessage;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { applyPixelGrading, buildCurveTable, needsPixelGrading } from './color-grading.js'
+import { parseCubeLut } from './cube-lut.js'
+
+/** 生成纯色 RGB 像素 */
+function solid(width: number, height: number, rgb: [number, number, number]): Buffer {
+  const data = Buffer.alloc(width * height * 3)
+  for (let i = 0; i < width * height; i++) data.set(rgb, i * 3)
+  return data
+}
+
+describe('color-grading', () => {
+  describe('needsPixelGrading', () => {
+    it('should skip decoding for presets that only use Sharp operations', () => {
+      expect(needsPixelGrading({ brightness: 1.1, contrast: 0.1 })).toBe(false)
+      expect(needsPixelGrading({ curves: { rgb: [[0, 0]] } })).toBe(false)
+      expect(needsPixelGrading({ whiteBalance: { temperature: 20 } })).toBe(true)
+      expect(needsPixelGrading({ tint: { r: 255, g: 250, b: 245 } })).toBe(true)
+    })
+  })
+
+  describe('buildCurveTable', () => {
+    it('should return identity for fewer than two points', () => {
+      const table = buildCurveTable([[128, 200]])
+      expect(table[0]).toBe(0)
+      expect(table[200]).toBe(200)
+    })
+
+    it('should pass through control points without overshooting', () => {
+      const table = buildCurveTable([[0, 0], [64, 40], [192, 220], [255, 255]])
+
+      expect(table[64]).toBe(40)
+      expect(table[192]).toBe(220)
+      for (let i = 1; i < 256; i++) {
+        expect(table[i]).toBeGreaterThanOrEqual(table[i - 1])
+      }
+    })
+  })
+
+  describe('applyPixelGrading', () => {
+    it('should warm the image with a positive temperature', () => {
+      const data = applyPixelGrading(solid(2, 2, [128, 128, 128]), { width: 2, height: 2, channels: 3 }, {
+        whiteBalance: { temperature: 100 },
+      })
+
+      expect(data[0]).toBeGreaterThan(128)
+      expect(data[1]).toBe(128)
+      expect(data[2]).toBeLessThan(128)
+    })
+
+    it('should blend the LUT by strength and keep alpha untouched', () => {
+      const lines = ['LUT_3D_SIZE 2']
+      for (let i = 0; i < 8; i++) lines.push([i & 1, (i >> 1) & 1, (i >> 2) & 1].map((v) => 1 - v).join(' '))
+      const inverted = parseCubeLut(lines.join('\n'))
+      const data = Buffer.from([200, 100, 0, 77])
+
+      applyPixelGrading(data, { width: 1, height: 1, channels: 4 }, { lutStrength: 50 }, inverted)
+
+      expect([...data]).toEqual([128, 128, 128, 77])
+    })
+
+    it('should darken corners with a negative vignette and keep grain deterministic', () => {
+      const info = { width: 9, height: 9, channels: 3 }
+      const vignetted = applyPixelGrading(solid(9, 9, [200, 200, 200]), info, { vignette: -100 })
+      expect(vignetted[0]).toBeLessThan(200)
+      expect(vignetted[(4 * 9 + 4) * 3]).toBe(200)
+
+      const first = applyPixelGrading(solid(9, 9, [128, 128, 128]), info, { grain: 50 })
+      const second = applyPixelGrading(solid(9, 9, [128, 128, 128]), info, { grain: 50 })
+      expect(first.equals(second)).toBe(true)
+      expect(first.equals(solid(9, 9, [128, 128, 128]))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview 逐像素调色
+ *
+ * @description
+ * Sharp 的 modulate / linear / gamma 之外的调整在解码后的 RGB 数据上完成：
+ * 1. 通道增益（白平衡、旧版 tint）和色调曲线，合并为每通道一张 256 项查找表
+ * 2. 3D LUT（三线性插值，可按 lutStrength 与原色混合）
+ * 3. 自然饱和度（饱和度越低提升越多）
+ * 4. 暗角
+ * 5. 胶片颗粒（固定随机种子，同一张照片重新处理结果不变）
+ *
+ * @module lib/color-grading
+ */
+import { sampleCubeLut, type CubeLut } from "./cube-lut.js";
+import type { CurvePoint, StylePresetConfig } from "./style-presets.js";
+
+/** 色温 ±100 时红/蓝通道的增益变化 */
+const TEMPERATURE_GAIN = 0.15;
+/** 色调 ±100 时绿通道的增益变化 */
+const TINT_GAIN = 0.12;
+/** 暗角 ±100 时四角的亮度变化 */
+const VIGNETTE_GAIN = 0.6;
+/** 颗粒 100 时的最大亮度扰动（0-255） */
+const GRAIN_AMPLITUDE = 40;
+
+/**
+ * 是否需要逐像素处理（没有这些参数时只走 Sharp 管线，避免解码开销）
+ */
+export function needsPixelGrading(
+  config: StylePresetConfig,
+  lut?: CubeLut | null,
+): boolean {
+  const curves = config.curves;
+  return Boolean(
+    lut ||
+      config.tint ||
+      config.whiteBalance?.temperature ||
+      config.whiteBalance?.tint ||
+      config.vibrance ||
+      config.vignette ||
+      config.grain ||
+      (curves &&
+        [curves.rgb, curves.r, curves.g, curves.b].some(
+          (points) => points && points.length >= 2,
+        )),
+  );
+}
+
+/**
+ * 由控制点生成 256 项曲线查找表（单调三次插值，不会在控制点之间过冲）
+ *
+ * @param points - 控制点，少于 2 个时返回恒等曲线
+ */
+export function buildCurveTable(points: CurvePoint[] | undefined): Uint8Array {
+  const table = new Uint8Array(256);
+  const sorted = (points || [])
+    .map(([x, y]) => [clamp(x, 0, 255), clamp(y, 0, 255)] as CurvePoint)
+    .sort((a, b) => a[0] - b[0])
+    .filter((point, i, all) => i === 0 || point[0] > all[i - 1][0]);
+
+  if (sorted.length < 2) {
+    for (let i = 0; i < 256; i++) table[i] = i;
+    return table;
+  }
+
+  // Fritsch–Carlson 单调三次 Hermite 插值
+  const n = sorted.length;
+  const xs = sorted.map((p) => p[0]);
+  const ys = sorted.map((p) => p[1]);
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+  }
+  const tangents = [slopes[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+  }
+  tangents.push(slopes[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = Math.hypot(a, b);
+    if (h > 3) {
+      tangents[i] = (3 * a * slopes[i]) / h;
+      tangents[i + 1] = (3 * b * slopes[i]) / h;
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    let y: number;
+    if (x <= xs[0]) {
+      y = ys[0];
+    } else if (x >= xs[n - 1]) {
+      y = ys[n - 1];
+    } else {
+      while (x > xs[segment + 1]) segment++;
+      const h = xs[segment + 1] - xs[segment];
+      const t = (x - xs[segment]) / h;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      y =
+        (2 * t3 - 3 * t2 + 1) * ys[segment] +
+        (t3 - 2 * t2 + t) * h * tangents[segment] +
+        (-2 * t3 + 3 * t2) * ys[segment + 1] +
+        (t3 - t2) * h * tangents[segment + 1];
+    }
+    table[x] = Math.round(clamp(y, 0, 255));
+  }
+  return table;
+}
+
+/**
+ * 合并通道增益和曲线：增益 → 主曲线 → 单通道曲线
+ */
+function buildChannelTables(config: StylePresetConfig): Uint8Array[] {
+  const temperature = (config.whiteBalance?.temperature ?? 0) / 100;
+  const tint = (config.whiteBalance?.tint ?? 0) / 100;
+  const gains = [
+    (1 + TEMPERATURE_GAIN * temperature) * ((config.tint?.r ?? 255) / 255),
+    (1 - TINT_GAIN * tint) * ((config.tint?.g ?? 255) / 255),
+    (1 - TEMPERATURE_GAIN * temperature) * ((config.tint?.b ?? 255) / 255),
+  ];
+  const master = buildCurveTable(config.curves?.rgb);
+  const channels = [config.curves?.r, config.curves?.g, config.curves?.b].map(buildCurveTable);
+
+  return gains.map((gain, c) => {
+    const table = new Uint8Array(256);
+    for (let v = 0; v < 256; v++) {
+      table[v] = channels[c][master[Math.round(clamp(v * gain, 0, 255))]];
+    }
+    return table;
+  });
+}
+
+/**
+ * 在解码后的 8 位 RGB(A) 数据上应用调色（原地修改）
+ *
+ * @param data - Sharp raw 输出（uchar）
+ * @param info - 宽高和通道数（3 或 4，alpha 通道保持不变）
+ * @returns 传入的 data
+ */
+export function applyPixelGrading(
+  data: Buffer,
+  info: { width: number; height: number; channels: number },
+  config: StylePresetConfig,
+  lut?: CubeLut | null,
+): Buffer {
+  const { width, height, channels } = info;
+  const [tableR, tableG, tableB] = buildChannelTables(config);
+  const lutMix = lut ? clamp(config.lutStrength ?? 100, 0, 100) / 100 : 0;
+  const vibrance = clamp(config.vibrance ?? 0, -100, 100) / 100;
+  const vignette = (clamp(config.vignette ?? 0, -100, 100) / 100) * VIGNETTE_GAIN;
+  const grain = (clamp(config.grain ?? 0, 0, 100) / 100) * GRAIN_AMPLITUDE;
+  const random = mulberry32(0x9e3779b9);
+  const sample = new Float32Array(3);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+
+  for (let y = 0; y < height; y++) {
+    const dy = cy > 0 ? (y - cy) / cy : 0;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * channels;
+      let r = tableR[data[i]];
+      let g = tableG[data[i + 1]];
+      let b = tableB[data[i + 2]];
+
+      if (lutMix > 0) {
+        sampleCubeLut(lut!, r / 255, g / 255, b / 255, sample);
+        r += (sample[0] * 255 - r) * lutMix;
+        g += (sample[1] * 255 - g) * lutMix;
+        b += (sample[2] * 255 - b) * lutMix;
+      }
+
+      if (vibrance !== 0) {
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const factor = 1 + vibrance * (1 - (max - min) / 255);
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        r = luma + (r - luma) * factor;
+        g = luma + (g - luma) * factor;
+        b = luma + (b - luma) * factor;
+      }
+
+      if (vignette !== 0) {
+        const dx = cx > 0 ? (x - cx) / cx : 0;
+        // 中心为 0、四角为 1，从 30% 半径处开始平滑过渡
+        const distance = Math.sqrt((dx * dx + dy * dy) / 2);
+        const t = clamp((distance - 0.3) / 0.7, 0, 1);
+        const gain = 1 + vignette * t * t * (3 - 2 * t);
+        r *= gain;
+        g *= gain;
+        b *= gain;
+      }
+
+      if (grain > 0) {
+        const noise = (random() - 0.5) * 2 * grain;
+        r += noise;
+        g += noise;
+        b += noise;
+      }
+
+      data[i] = clamp(Math.round(r), 0, 255);
+      data[i + 1] = clamp(Math.round(g), 0, 255);
+      data[i + 2] = clamp(Math.round(b), 0, 255);
+    }
+  }
+  return data;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return value < min ? min : value > max ? max : value;
+}
+
+/**
+ * 确定性伪随机数（0-1）
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -15,6 +15,7 @@
 import { getStorageAdapter } from './storage/index.js';
 import { getDatabaseAdapter } from './database/index.js';
 import { alertService } from './alert.js';
+import { listDerivativeKeys, type DerivativeSet } from './derivatives.js';
 
 interface PhotoRecord {
   id: string;
@@ -23,9 +24,16 @@ interface PhotoRecord {
   original_key: string | null | undefined;
   thumb_key: string | null | undefined;
   preview_key: string | null | undefined;
+  video_key?: string | null;
+  raw_key?: string | null;
+  derivatives?: DerivativeSet | null;
   status: string;
 }
 
+interface PhotoVersionRecord {
+  storage_key: string | null | undefined;
+}
+
 export interface ConsistencyCheckResult {
   timestamp: string;
   duration: number;
@@ -123,7 +131,7 @@ export class ConsistencyChecker {
       const photosResult = await this.db.findMany<PhotoRecord>('photos', {
         deleted_at: null,
       }, {
-        select: ['id', 'album_id', 'filename', 'original_key', 'thumb_key', 'preview_key', 'status'],
+        select: ['id', 'album_id', 'filename', 'original_key', 'thumb_key', 'preview_key', 'video_key', 'raw_key', 'derivatives', 'status'],
         orderBy: [{ column: 'created_at', direction: 'desc' }],
       });
 
@@ -176,6 +184,14 @@ export class ConsistencyChecker {
               }
             }
 
+            // 检查视频预览是否存在（仅对已完成状态的视频）
+            if (photo.status === 'completed' && photo.video_key) {
+              const videoExists = await this.storage.exists(photo.video_key);
+              if (!videoExists) {
+                issues.push('video_missing');
+              }
+            }
+
             // 如果有问题，记录并尝试修复
             if (issues.length > 0) {
               const issueSummary = issues.join(', ');
@@ -289,11 +305,12 @@ export class ConsistencyChecker {
     const orphanedFiles: Array<{ key: string; size: number; lastModified: Date }> = [];
 
     try {
-      // 获取存储中所有文件（检查 processed 目录）
+      // 获取存储中所有文件（检查 processed、raw 和精修图目录）
       const processedFiles = await this.storage.listObjects('processed/');
       const rawFiles = await this.storage.listObjects('raw/');
+      const retouchedFiles = await this.storage.listObjects('retouched/');
 
-      const allFiles = [...processedFiles, ...rawFiles];
+      const allFiles = [...processedFiles, ...rawFiles, ...retouchedFiles];
       const storageKeys = new Set(allFiles.map((f) => f.key));
 
       // 收集数据库中的所有 key
@@ -302,6 +319,20 @@ export class ConsistencyChecker {
         if (photo.original_key) databaseKeys.add(photo.original_key);
         if (photo.thumb_key) databaseKeys.add(photo.thumb_key);
         if (photo.preview_key) databaseKeys.add(photo.preview_key);
+        if (photo.video_key) databaseKeys.add(photo.video_key);
+        if (photo.raw_key) databaseKeys.add(photo.raw_key);
+        for (const key of listDerivativeKeys(photo.derivatives)) databaseKeys.add(key);
+      }
+
+      // 照片的历史版本（原图、精修图）不一定是当前的 original_key，同样需要保留
+      const versionsResult = await this.db.findMany<PhotoVersionRecord>('photo_versions', {}, {
+        select: ['storage_key'],
+      });
+      if (versionsResult.error) {
+        throw new Error(`Failed to fetch photo versions: ${versionsResult.error.message}`);
+      }
+      for (const version of versionsResult.data || []) {
+        if (version.storage_key) databaseKeys.add(version.storage_key);
       }
 
       // 找出孤儿文件（存储中有但数据库没有的）
@@ -395,6 +426,12 @@ export class ConsistencyChecker {
             issues.push('预览图缺失');
           }
         }
+        if (photo.video_key) {
+          const videoExists = await this.storage.exists(photo.video_key);
+          if (!videoExists) {
+            issues.push('视频预览缺失');
+          }
+        }
       }
 
       if (issues.length === 0) {
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { parseCubeLut, sampleCubeLut } from './cube-lut.js'
+
+/** 生成恒等 LUT，可选地对输出做变换 */
+function identityCube(size: number, map = (r: number, g: number, b: number) => [r, g, b]): string {
+  const lines = ['# test lut', 'TITLE "Identity"', `LUT_3D_SIZE ${size}`]
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lines.push(map(r / (size - 1), g / (size - 1), b / (size - 1)).map((v) => v.toFixed(6)).join(' '))
+      }
+    }
+  }
+  return lines.join('\n')
+}
+
+describe('cube-lut', () => {
+  describe('parseCubeLut', () => {
+    it('should parse header and data in red-fastest order', () => {
+      const lut = parseCubeLut(identityCube(3))
+
+      expect(lut.title).toBe('Identity')
+      expect(lut.size).toBe(3)
+      expect(lut.domainMin).toEqual([0, 0, 0])
+      expect(lut.domainMax).toEqual([1, 1, 1])
+      expect(lut.table.length).toBe(27 * 3)
+      // 第二行是 R=0.5, G=0, B=0
+      expect([...lut.table.subarray(3, 6)]).toEqual([0.5, 0, 0])
+    })
+
+    it('should reject malformed files', () => {
+      expect(() => parseCubeLut('0 0 0')).toThrow('LUT_3D_SIZE must appear before the data')
+      expect(() => parseCubeLut('LUT_1D_SIZE 1024')).toThrow('1D LUTs are not supported')
+      expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0')).toThrow('Expected 8 data lines, got 1')
+      expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 x')).toThrow('Invalid .cube line 2')
+      expect(() => parseCubeLut('LUT_3D_SIZE 129')).toThrow('LUT_3D_SIZE must be between 2 and 65')
+    })
+  })
+
+  describe('sampleCubeLut', () => {
+    it('should interpolate between samples', () => {
+      const identity = parseCubeLut(identityCube(5))
+      const out = new Float32Array(3)
+
+      sampleCubeLut(identity, 0.3, 0.62, 0.9, out)
+      expect([...out].map((v) => Number(v.toFixed(4)))).toEqual([0.3, 0.62, 0.9])
+    })
+
+    it('should map inputs through the table', () => {
+      const inverted = parseCubeLut(identityCube(2, (r, g, b) => [1 - r, 1 - g, 1 - b]))
+      const out = [0, 0, 0]
+
+      sampleCubeLut(inverted, 0.25, 1, 0, out)
+      expect(out.map((v) => Number(v.toFixed(4)))).toEqual([0.75, 0, 1])
+    })
+  })
+})
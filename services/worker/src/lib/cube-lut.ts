@@ -0,0 +1,166 @@
+/**
+ * @fileoverview 3D LUT（.cube）解析与采样
+ *
+ * @description
+ * 支持 Adobe / DaVinci Resolve 导出的 .cube 文件：
+ * - TITLE、LUT_3D_SIZE、DOMAIN_MIN / DOMAIN_MAX（或 Resolve 的 LUT_3D_INPUT_RANGE）
+ * - # 开头的注释和空行
+ * - 数据行为 0-1 的 RGB 浮点数，按 R 变化最快、B 变化最慢的顺序排列
+ *
+ * 不支持 1D LUT（LUT_1D_SIZE），1D 调整请使用预设的曲线参数。
+ *
+ * @module lib/cube-lut
+ */
+
+/** LUT_3D_SIZE 上限（65³ 约 27 万个采样点，已覆盖常见的 17/33/65 规格） */
+export const MAX_LUT_SIZE = 65;
+
+export interface CubeLut {
+  title: string | null;
+  /** 每个通道的采样点数 */
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** 采样表，长度 size³ × 3 */
+  table: Float32Array;
+}
+
+function parseTriple(parts: string[], line: number): [number, number, number] {
+  const values = parts.slice(0, 3).map(Number);
+  if (parts.length !== 3 || values.some((value) => !Number.isFinite(value))) {
+    throw new Error(`Invalid .cube line ${line}: expected 3 numbers`);
+  }
+  return values as [number, number, number];
+}
+
+/**
+ * 解析 .cube 文件
+ *
+ * @throws {Error} 格式错误、缺少 LUT_3D_SIZE 或数据行数量不符时抛出
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let title: string | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let table: Float32Array | null = null;
+  let count = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith("#")) continue;
+
+    if (/^[A-Za-z]/.test(line)) {
+      const [keyword, ...rest] = line.split(/\s+/);
+      switch (keyword.toUpperCase()) {
+        case "TITLE":
+          title = line.slice(keyword.length).trim().replace(/^"|"$/g, "") || null;
+          break;
+        case "LUT_3D_SIZE":
+          size = Number(rest[0]);
+          if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+            throw new Error(`LUT_3D_SIZE must be between 2 and ${MAX_LUT_SIZE}`);
+          }
+          table = new Float32Array(size * size * size * 3);
+          break;
+        case "LUT_1D_SIZE":
+          throw new Error("1D LUTs are not supported");
+        case "DOMAIN_MIN":
+          domainMin = parseTriple(rest, i + 1);
+          break;
+        case "DOMAIN_MAX":
+          domainMax = parseTriple(rest, i + 1);
+          break;
+        case "LUT_3D_INPUT_RANGE": {
+          const [min, max] = rest.map(Number);
+          if (!Number.isFinite(min) || !Number.isFinite(max)) {
+            throw new Error(`Invalid .cube line ${i + 1}: expected 2 numbers`);
+          }
+          domainMin = [min, min, min];
+          domainMax = [max, max, max];
+          break;
+        }
+        default:
+          // 忽略其他厂商扩展的关键字
+          break;
+      }
+      continue;
+    }
+
+    if (!table) {
+      throw new Error("LUT_3D_SIZE must appear before the data");
+    }
+    if (count >= size * size * size) {
+      throw new Error(`Too many data lines, expected ${size ** 3}`);
+    }
+    table.set(parseTriple(line.split(/\s+/), i + 1), count * 3);
+    count++;
+  }
+
+  if (!table) {
+    throw new Error("Missing LUT_3D_SIZE");
+  }
+  if (count !== size * size * size) {
+    throw new Error(`Expected ${size ** 3} data lines, got ${count}`);
+  }
+  if (domainMin.some((min, c) => min >= domainMax[c])) {
+    throw new Error("DOMAIN_MIN must be less than DOMAIN_MAX");
+  }
+
+  return { title, size, domainMin, domainMax, table };
+}
+
+/**
+ * 三线性插值采样
+ *
+ * @param r - 输入红色（0-1）
+ * @param g - 输入绿色（0-1）
+ * @param b - 输入蓝色（0-1）
+ * @param out - 输出 RGB（0-1，未裁剪）
+ */
+export function sampleCubeLut(
+  lut: CubeLut,
+  r: number,
+  g: number,
+  b: number,
+  out: Float32Array | number[],
+): void {
+  const { size, table, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const scale = (value: number, c: number) => {
+    const t = (value - domainMin[c]) / (domainMax[c] - domainMin[c]);
+    return (t <= 0 ? 0 : t >= 1 ? 1 : t) * max;
+  };
+
+  const x = scale(r, 0);
+  const y = scale(g, 1);
+  const z = scale(b, 2);
+  const x0 = Math.min(Math.floor(x), max - 1);
+  const y0 = Math.min(Math.floor(y), max - 1);
+  const z0 = Math.min(Math.floor(z), max - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const fz = z - z0;
+
+  const stride = size;
+  const plane = size * size;
+  const i000 = (x0 + y0 * stride + z0 * plane) * 3;
+  const i100 = i000 + 3;
+  const i010 = i000 + stride * 3;
+  const i110 = i010 + 3;
+  const i001 = i000 + plane * 3;
+  const i101 = i001 + 3;
+  const i011 = i001 + stride * 3;
+  const i111 = i011 + 3;
+
+  for (let c = 0; c < 3; c++) {
+    const c00 = table[i000 + c] + (table[i100 + c] - table[i000 + c]) * fx;
+    const c10 = table[i010 + c] + (table[i110 + c] - table[i010 + c]) * fx;
+    const c01 = table[i001 + c] + (table[i101 + c] - table[i001 + c]) * fx;
+    const c11 = table[i011 + c] + (table[i111 + c] - table[i011 + c]) * fx;
+    const c0 = c00 + (c10 - c00) * fy;
+    const c1 = c01 + (c11 - c01) * fy;
+    out[c] = c0 + (c1 - c0) * fz;
+  }
+}
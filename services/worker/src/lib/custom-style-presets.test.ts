@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { resolveStylePreset, clearStylePresetCache, isCustomPresetId } from './custom-style-presets.js'
+import { STYLE_PRESETS } from './style-presets.js'
+
+const presetId = '6f1c1a6e-8a34-4c55-9f7e-1c2b3d4e5f60'
+const lutId = '0b8d8f4e-2f1a-4b8c-8f6a-2d3e4f5a6b7c'
+
+/** 按表名返回固定数据的数据库 mock */
+function createDb(rows: Record<string, unknown>) {
+  return {
+    from: vi.fn((table: string) => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn().mockResolvedValue(
+        rows[table] ? { data: rows[table], error: null } : { data: null, error: { message: 'not found' } }
+      ),
+    })),
+  }
+}
+
+const cube = ['LUT_3D_SIZE 2', ...Array.from({ length: 8 }, (_, i) => `${i & 1} ${(i >> 1) & 1} ${(i >> 2) & 1}`)].join('\n')
+
+describe('custom-style-presets', () => {
+  beforeEach(() => {
+    clearStylePresetCache()
+  })
+
+  it('should recognise custom preset IDs', () => {
+    expect(isCustomPresetId(presetId)).toBe(true)
+    expect(isCustomPresetId('japanese-fresh')).toBe(false)
+  })
+
+  it('should resolve built-in presets without querying the database', async () => {
+    const db = createDb({})
+    const preset = await resolveStylePreset(db, 'japanese-fresh', vi.fn())
+
+    expect(preset).toEqual({ id: 'japanese-fresh', config: STYLE_PRESETS['japanese-fresh'].config })
+    expect(db.from).not.toHaveBeenCalled()
+    expect(await resolveStylePreset(db, 'none', vi.fn())).toBeNull()
+  })
+
+  it('should load custom presets with their LUT and cache them', async () => {
+    const db = createDb({
+      style_presets: { id: presetId, config: { vibrance: 20 }, lut_id: lutId },
+      style_luts: { storage_key: `style-luts/${lutId}.cube` },
+    })
+    const download = vi.fn().mockResolvedValue(Buffer.from(cube))
+
+    const preset = await resolveStylePreset(db, presetId, download)
+    await resolveStylePreset(db, presetId, download)
+
+    expect(preset?.config).toEqual({ vibrance: 20 })
+    expect(preset?.lut?.size).toBe(2)
+    expect(download).toHaveBeenCalledWith(`style-luts/${lutId}.cube`)
+    expect(download).toHaveBeenCalledTimes(1)
+    expect(db.from).toHaveBeenCalledTimes(2)
+
+    // 预览接口不使用缓存，但 LUT 仍然复用
+    await resolveStylePreset(db, presetId, download, { cache: false })
+    expect(db.from).toHaveBeenCalledTimes(4)
+    expect(download).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return null for unknown presets', async () => {
+    const db = createDb({})
+
+    expect(await resolveStylePreset(db, presetId, vi.fn())).toBeNull()
+    expect(await resolveStylePreset(db, 'not-a-preset', vi.fn())).toBeNull()
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview 风格预设解析（内置预设 + 自定义预设）
+ *
+ * @description
+ * 相册 color_grading.preset 保存预设 ID：内置预设为英文 ID（见 style-presets.ts），
+ * 自定义预设为 style_presets 表的 UUID，可附带 style_luts 中上传的 .cube 文件。
+ *
+ * 自定义预设缓存 1 分钟（修改后最迟 1 分钟生效，预览接口不使用缓存）；
+ * LUT 按存储路径缓存，上传后文件不会再修改。
+ *
+ * @module lib/custom-style-presets
+ */
+import sharp from "sharp";
+import { parseCubeLut, type CubeLut } from "./cube-lut.js";
+import {
+  getPresetById,
+  type ResolvedStylePreset,
+  type StylePresetConfig,
+} from "./style-presets.js";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** 自定义预设缓存时间 */
+const PRESET_CACHE_TTL = 60 * 1000;
+/** 最多缓存的 LUT 数量（65³ 的 LUT 约 3MB） */
+const MAX_CACHED_LUTS = 8;
+
+const presetCache = new Map<
+  string,
+  { preset: ResolvedStylePreset | null; cachedAt: number }
+>();
+const lutCache = new Map<string, CubeLut>();
+
+/**
+ * 是否为自定义预设 ID
+ */
+export function isCustomPresetId(presetId: string): boolean {
+  return UUID_PATTERN.test(presetId);
+}
+
+/**
+ * 读取并解析 LUT（按存储路径缓存）
+ */
+async function loadLut(
+  storageKey: string,
+  download: (key: string) => Promise<Buffer>,
+): Promise<CubeLut> {
+  const cached = lutCache.get(storageKey);
+  if (cached) return cached;
+
+  const lut = parseCubeLut((await download(storageKey)).toString("utf8"));
+  if (lutCache.size >= MAX_CACHED_LUTS) {
+    lutCache.delete(lutCache.keys().next().value as string);
+  }
+  lutCache.set(storageKey, lut);
+  return lut;
+}
+
+/**
+ * 解析预设 ID
+ *
+ * @param db - 数据库客户端
+ * @param presetId - 预设 ID，为空或 "none" 表示不应用风格
+ * @param download - 从对象存储读取文件
+ * @param options.cache - 是否使用自定义预设缓存（默认 true）
+ * @returns 预设配置；预设不存在时返回 null
+ * @throws {Error} 预设引用的 LUT 无法读取或格式错误时抛出
+ */
+export async function resolveStylePreset(
+  db: any,
+  presetId: string | null | undefined,
+  download: (key: string) => Promise<Buffer>,
+  options: { cache?: boolean } = {},
+): Promise<ResolvedStylePreset | null> {
+  if (!presetId || presetId === "none") {
+    return null;
+  }
+
+  const builtIn = getPresetById(presetId);
+  if (builtIn) {
+    return { id: builtIn.id, config: builtIn.config };
+  }
+
+  if (!isCustomPresetId(presetId)) {
+    console.warn(`[StylePreset] Unknown preset: ${presetId}, skipping`);
+    return null;
+  }
+
+  const cached = presetCache.get(presetId);
+  if (options.cache !== false && cached && Date.now() - cached.cachedAt < PRESET_CACHE_TTL) {
+    return cached.preset;
+  }
+
+  const { data: row, error } = await db
+    .from("style_presets")
+    .select("id, config, lut_id")
+    .eq("id", presetId)
+    .single();
+  if (error && !row) {
+    console.warn(`[StylePreset] Custom preset not found: ${presetId}, skipping`);
+  }
+
+  let preset: ResolvedStylePreset | null = null;
+  if (row) {
+    let lut: CubeLut | null = null;
+    if (row.lut_id) {
+      const { data: lutRow } = await db
+        .from("style_luts")
+        .select("storage_key")
+        .eq("id", row.lut_id)
+        .single();
+      if (lutRow?.storage_key) {
+        lut = await loadLut(lutRow.storage_key, download);
+      }
+    }
+    preset = {
+      id: row.id,
+      config: (row.config || {}) as StylePresetConfig,
+      lut,
+    };
+  }
+
+  presetCache.set(presetId, { preset, cachedAt: Date.now() });
+  return preset;
+}
+
+/**
+ * 生成默认预览底图（相册还没有照片时使用）
+ *
+ * @description 天空渐变、肤色、植物绿、暖色和灰阶，便于对比各预设对不同色彩的影响
+ * @returns 480×320 JPEG
+ */
+export async function createStyleSampleImage(): Promise<Buffer> {
+  const ramp = Array.from(
+    { length: 8 },
+    (_, i) =>
+      `<rect x="${i * 60}" y="272" width="60" height="48" fill="rgb(${i * 36},${i * 36},${i * 36})"/>`,
+  ).join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="480" height="320">
+    <defs>
+      <linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">
+        <stop offset="0" stop-color="#3b6fb6"/>
+        <stop offset="1" stop-color="#d8e6f3"/>
+      </linearGradient>
+    </defs>
+    <rect width="480" height="272" fill="url(#sky)"/>
+    <rect y="180" width="480" height="92" fill="#4f7a3a"/>
+    <circle cx="150" cy="150" r="70" fill="#e2b594"/>
+    <circle cx="340" cy="190" r="55" fill="#d9822b"/>
+    ${ramp}
+  </svg>`;
+  return sharp(Buffer.from(svg)).jpeg({ quality: 90 }).toBuffer();
+}
+
+/**
+ * 清空缓存（测试用）
+ */
+export function clearStylePresetCache(): void {
+  presetCache.clear();
+  lutCache.clear();
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_DERIVATIVE_WIDTHS,
+  getDerivativeConfig,
+  getDerivativeKey,
+  listDerivativeKeys,
+  planDerivativeWidths,
+} from './derivatives'
+
+describe('derivatives', () => {
+  describe('getDerivativeConfig', () => {
+    it('should use default ladder and all formats', () => {
+      expect(getDerivativeConfig({})).toEqual({
+        widths: DEFAULT_DERIVATIVE_WIDTHS,
+        formats: ['avif', 'webp', 'jpeg'],
+      })
+    })
+
+    it('should parse, sort and dedupe widths', () => {
+      const config = getDerivativeConfig({ DERIVATIVE_WIDTHS: '1280, 400,abc,400,800' })
+      expect(config.widths).toEqual([400, 800, 1280])
+    })
+
+    it('should always keep JPEG as fallback', () => {
+      const config = getDerivativeConfig({ DERIVATIVE_FORMATS: 'webp,gif' })
+      expect(config.formats).toEqual(['webp', 'jpeg'])
+    })
+
+    it('should disable derivatives with empty ladder', () => {
+      expect(getDerivativeConfig({ DERIVATIVE_WIDTHS: '' }).widths).toEqual([])
+    })
+  })
+
+  describe('planDerivativeWidths', () => {
+    const ladder = [400, 800, 1280, 1920, 2560]
+
+    it('should not upscale small images', () => {
+      expect(planDerivativeWidths(1000, ladder)).toEqual([400, 800, 1000])
+      expect(planDerivativeWidths(300, ladder)).toEqual([300])
+    })
+
+    it('should cap at the largest step', () => {
+      expect(planDerivativeWidths(6000, ladder)).toEqual(ladder)
+    })
+
+    it('should return empty list for unknown width', () => {
+      expect(planDerivativeWidths(0, ladder)).toEqual([])
+      expect(planDerivativeWidths(1000, [])).toEqual([])
+    })
+  })
+
+  describe('keys', () => {
+    it('should build derivative key with format extension', () => {
+      expect(getDerivativeKey('a', 'p', 800, 'jpeg')).toBe('processed/derivatives/a/p/800.jpg')
+      expect(getDerivativeKey('a', 'p', 800, 'avif')).toBe('processed/derivatives/a/p/800.avif')
+    })
+
+    it('should list all keys of a derivative set', () => {
+      expect(listDerivativeKeys({
+        webp: [{ width: 400, height: 300, key: 'a.webp' }],
+        jpeg: [{ width: 400, height: 300, key: 'a.jpg' }],
+      })).toEqual(['a.webp', 'a.jpg'])
+      expect(listDerivativeKeys(null)).toEqual([])
+    })
+  })
+})
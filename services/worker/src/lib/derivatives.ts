@@ -0,0 +1,137 @@
+/**
+ * @fileoverview 响应式衍生图配置
+ *
+ * @description
+ * 除固定的缩略图（400px）和预览图（1920px）外，Worker 还会按"尺寸阶梯"生成多种格式的衍生图，
+ * 供前端通过 srcset / <picture> 让浏览器按屏幕宽度和格式支持自行选择。
+ *
+ * 通过环境变量配置：
+ * - DERIVATIVE_WIDTHS：尺寸阶梯（宽度，逗号分隔），默认 400,800,1280,1920,2560；设为空字符串可关闭
+ * - DERIVATIVE_FORMATS：输出格式（avif / webp / jpeg），默认 avif,webp,jpeg
+ *
+ * @module lib/derivatives
+ */
+
+/** 衍生图格式 */
+export type DerivativeFormat = "avif" | "webp" | "jpeg";
+
+/** 支持的衍生图格式（同时也是前端 <source> 的优先顺序） */
+export const DERIVATIVE_FORMATS: DerivativeFormat[] = ["avif", "webp", "jpeg"];
+
+/** 默认尺寸阶梯 */
+export const DEFAULT_DERIVATIVE_WIDTHS = [400, 800, 1280, 1920, 2560];
+
+/** 各格式的文件扩展名 */
+const FORMAT_EXTENSIONS: Record<DerivativeFormat, string> = {
+  avif: "avif",
+  webp: "webp",
+  jpeg: "jpg",
+};
+
+/**
+ * 衍生图配置
+ */
+export interface DerivativeConfig {
+  /** 尺寸阶梯（升序、去重） */
+  widths: number[];
+  /** 输出格式 */
+  formats: DerivativeFormat[];
+}
+
+/**
+ * 单个衍生图
+ */
+export interface DerivativeImage {
+  width: number;
+  height: number;
+  key: string;
+}
+
+/**
+ * 照片的衍生图集合（写入 photos.derivatives），按格式分组、宽度升序
+ *
+ * @example
+ * { "avif": [{ "width": 400, "height": 267, "key": "processed/derivatives/..." }], "webp": [...], "jpeg": [...] }
+ */
+export type DerivativeSet = Partial<Record<DerivativeFormat, DerivativeImage[]>>;
+
+/**
+ * 从环境变量读取衍生图配置
+ *
+ * @param env - 环境变量（便于测试）
+ * @returns 配置；尺寸阶梯为空时表示不生成衍生图
+ */
+export function getDerivativeConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): DerivativeConfig {
+  const widthsEnv = env.DERIVATIVE_WIDTHS;
+  const widths =
+    widthsEnv === undefined
+      ? DEFAULT_DERIVATIVE_WIDTHS
+      : widthsEnv
+          .split(",")
+          .map((w) => parseInt(w.trim(), 10))
+          .filter((w) => Number.isFinite(w) && w > 0);
+
+  const formats = (env.DERIVATIVE_FORMATS || DERIVATIVE_FORMATS.join(","))
+    .split(",")
+    .map((f) => f.trim().toLowerCase())
+    .filter((f): f is DerivativeFormat =>
+      DERIVATIVE_FORMATS.includes(f as DerivativeFormat),
+    );
+
+  return {
+    widths: [...new Set(widths)].sort((a, b) => a - b),
+    // 按固定顺序输出，且至少保留 JPEG 作为兜底
+    formats: DERIVATIVE_FORMATS.filter(
+      (f) => formats.includes(f) || f === "jpeg",
+    ),
+  };
+}
+
+/**
+ * 计算某张图片实际需要生成的宽度
+ *
+ * @description
+ * 不放大图片：只保留小于原图宽度的阶梯，再补上原图宽度（不超过阶梯最大值），
+ * 保证最大的衍生图尽可能清晰。
+ *
+ * @param sourceWidth - 原图宽度（已旋转）
+ * @param widths - 尺寸阶梯
+ */
+export function planDerivativeWidths(
+  sourceWidth: number,
+  widths: number[],
+): number[] {
+  if (!sourceWidth || widths.length === 0) return [];
+  const max = widths[widths.length - 1];
+  const planned = widths.filter((w) => w < sourceWidth);
+  planned.push(Math.min(sourceWidth, max));
+  return [...new Set(planned)];
+}
+
+/**
+ * 获取衍生图存储路径
+ *
+ * @example
+ * getDerivativeKey('album-1', 'photo-1', 800, 'webp')
+ * // => 'processed/derivatives/album-1/photo-1/800.webp'
+ */
+export function getDerivativeKey(
+  albumId: string,
+  photoId: string,
+  width: number,
+  format: DerivativeFormat,
+): string {
+  return `processed/derivatives/${albumId}/${photoId}/${width}.${FORMAT_EXTENSIONS[format]}`;
+}
+
+/**
+ * 列出衍生图集合中的所有存储路径
+ */
+export function listDerivativeKeys(set: DerivativeSet | null | undefined): string[] {
+  if (!set || typeof set !== "object") return [];
+  return Object.values(set).flatMap((images) =>
+    Array.isArray(images) ? images.map((image) => image.key).filter(Boolean) : [],
+  );
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assignFaces,
+  clusterAlbumFaces,
+  cosineSimilarity,
+  getFaceClusterThreshold,
+  parseEmbedding,
+  pickCoverFace,
+} from './face-clustering'
+
+interface Operation {
+  table: string
+  op: 'select' | 'insert' | 'update' | 'delete'
+  data?: unknown
+  filters: Array<[string, ...unknown[]]>
+}
+
+/**
+ * 构造内存数据库 mock：查询返回预置数据，写操作记录到 operations
+ */
+function createDb(rows: Record<string, unknown[]>) {
+  const operations: Operation[] = []
+
+  const from = (table: string) => {
+    const operation: Operation = { table, op: 'select', filters: [] }
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      eq: (...args: unknown[]) => (operation.filters.push(['eq', ...args]), builder),
+      is: (...args: unknown[]) => (operation.filters.push(['is', ...args]), builder),
+      in: (...args: unknown[]) => (operation.filters.push(['in', ...args]), builder),
+      not: (...args: unknown[]) => (operation.filters.push(['not', ...args]), builder),
+      insert: (data: unknown) => Object.assign(operation, { op: 'insert', data }) && builder,
+      update: (data: unknown) => Object.assign(operation, { op: 'update', data }) && builder,
+      delete: () => Object.assign(operation, { op: 'delete' }) && builder,
+      then: (resolve: (value: unknown) => void) => {
+        operations.push(operation)
+        resolve(
+          operation.op === 'select'
+            ? { data: rows[table] || [], error: null }
+            : { data: null, error: null }
+        )
+      },
+    }
+    return builder
+  }
+
+  return { db: { from }, operations }
+}
+
+const alice = [1, 0, 0]
+const bob = [0, 1, 0]
+
+describe('face-clustering', () => {
+  describe('getFaceClusterThreshold', () => {
+    it('should use default threshold', () => {
+      expect(getFaceClusterThreshold({})).toBe(0.5)
+    })
+
+    it('should read threshold from env and ignore invalid values', () => {
+      expect(getFaceClusterThreshold({ FACE_CLUSTER_THRESHOLD: '0.65' })).toBe(0.65)
+      expect(getFaceClusterThreshold({ FACE_CLUSTER_THRESHOLD: '2' })).toBe(0.5)
+      expect(getFaceClusterThreshold({ FACE_CLUSTER_THRESHOLD: 'abc' })).toBe(0.5)
+    })
+  })
+
+  describe('parseEmbedding', () => {
+    it('should parse pgvector text format', () => {
+      expect(parseEmbedding('[0.1,0.2,-0.3]')).toEqual([0.1, 0.2, -0.3])
+    })
+
+    it('should accept arrays and reject invalid values', () => {
+      expect(parseEmbedding([1, 2])).toEqual([1, 2])
+      expect(parseEmbedding('[a,b]')).toEqual([])
+      expect(parseEmbedding(null)).toEqual([])
+    })
+  })
+
+  describe('cosineSimilarity', () => {
+    it('should be scale invariant', () => {
+      expect(cosineSimilarity([1, 1], [3, 3])).toBeCloseTo(1)
+      expect(cosineSimilarity(alice, bob)).toBe(0)
+    })
+
+    it('should return 0 for mismatched or zero vectors', () => {
+      expect(cosineSimilarity([1], [1, 2])).toBe(0)
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+    })
+  })
+
+  describe('assignFaces', () => {
+    it('should join existing persons above threshold', () => {
+      const centroids = [{ id: 'person-a', sum: [...alice] }]
+      const result = assignFaces([{ id: 'f1', embedding: [0.9, 0.1, 0] }], centroids, 0.5)
+
+      expect(result.assignments.get('f1')).toBe('person-a')
+      expect(result.created).toEqual([])
+      expect(centroids[0].sum).toEqual([1.9, 0.1, 0])
+    })
+
+    it('should create persons and group new faces together', () => {
+      let next = 0
+      const result = assignFaces(
+        [
+          { id: 'f1', embedding: alice },
+          { id: 'f2', embedding: bob },
+          { id: 'f3', embedding: [0.95, 0.05, 0] },
+        ],
+        [],
+        0.5,
+        () => `new-${++next}`
+      )
+
+      expect(result.created).toEqual(['new-1', 'new-2'])
+      expect(result.assignments.get('f1')).toBe('new-1')
+      expect(result.assignments.get('f2')).toBe('new-2')
+      expect(result.assignments.get('f3')).toBe('new-1')
+    })
+
+    it('should skip faces without embedding', () => {
+      const result = assignFaces([{ id: 'f1', embedding: [] }], [], 0.5)
+      expect(result.assignments.size).toBe(0)
+    })
+  })
+
+  describe('pickCoverFace', () => {
+    const faces = [
+      { id: 'small', face_location: { x: 0, y: 0, w: 10, h: 10 } },
+      { id: 'large', face_location: { x: 0, y: 0, w: 50, h: 40 } },
+    ]
+
+    it('should keep current cover while it is still a member', () => {
+      expect(pickCoverFace(faces, 'small')).toBe('small')
+    })
+
+    it('should fall back to the largest face', () => {
+      expect(pickCoverFace(faces, 'gone')).toBe('large')
+      expect(pickCoverFace(faces, null)).toBe('large')
+    })
+  })
+
+  describe('clusterAlbumFaces', () => {
+    it('should assign only unassigned faces and refresh person stats', async () => {
+      const { db, operations } = createDb({
+        face_embeddings: [
+          { id: 'f1', photo_id: 'p1', person_id: 'person-a', embedding: '[1,0,0]', face_location: null },
+          { id: 'f2', photo_id: 'p2', person_id: null, embedding: '[0.9,0.1,0]', face_location: null },
+          { id: 'f3', photo_id: 'p3', person_id: null, embedding: '[0,1,0]', face_location: null },
+        ],
+        face_persons: [
+          { id: 'person-a', name: 'Alice', is_hidden: false, cover_face_id: 'f1', face_count: 1, photo_count: 1 },
+        ],
+        photos: [],
+      })
+
+      const result = await clusterAlbumFaces(db, 'album-1', { threshold: 0.5 })
+
+      expect(result).toEqual({ assigned: 2, created: 1 })
+
+      const inserted = operations.find((o) => o.table === 'face_persons' && o.op === 'insert')
+      const newPersonId = (inserted?.data as Array<{ id: string }>)[0].id
+      expect(inserted?.data).toEqual([{ id: newPersonId, album_id: 'album-1' }])
+
+      const faceUpdates = operations.filter((o) => o.table === 'face_embeddings' && o.op === 'update')
+      expect(faceUpdates.map((o) => [o.data, o.filters[0]])).toEqual([
+        [{ person_id: 'person-a' }, ['in', 'id', ['f2']]],
+        [{ person_id: newPersonId }, ['in', 'id', ['f3']]],
+      ])
+
+      const personUpdates = operations.filter((o) => o.table === 'face_persons' && o.op === 'update')
+      expect(personUpdates.map((o) => o.data)).toEqual([
+        { face_count: 2, photo_count: 2, cover_face_id: 'f1' },
+        { face_count: 1, photo_count: 1, cover_face_id: 'f3' },
+      ])
+    })
+
+    it('should delete persons whose photos were all deleted', async () => {
+      const { db, operations } = createDb({
+        face_embeddings: [
+          { id: 'f1', photo_id: 'p1', person_id: 'person-a', embedding: '[1,0,0]', face_location: null },
+        ],
+        face_persons: [
+          { id: 'person-a', name: null, is_hidden: false, cover_face_id: 'f1', face_count: 1, photo_count: 1 },
+        ],
+        photos: [{ id: 'p1' }],
+      })
+
+      await clusterAlbumFaces(db, 'album-1', { threshold: 0.5 })
+
+      const deleted = operations.find((o) => o.table === 'face_persons' && o.op === 'delete')
+      expect(deleted?.filters).toEqual([['eq', 'id', 'person-a']])
+    })
+
+    it('should only reset unnamed visible persons on full recluster', async () => {
+      const { db, operations } = createDb({ face_embeddings: [], face_persons: [], photos: [] })
+
+      await clusterAlbumFaces(db, 'album-1', { full: true, threshold: 0.5 })
+
+      expect(operations[0]).toEqual({
+        table: 'face_persons',
+        op: 'delete',
+        filters: [
+          ['eq', 'album_id', 'album-1'],
+          ['is', 'name', null],
+          ['eq', 'is_hidden', false],
+        ],
+      })
+    })
+  })
+})
@@ -0,0 +1,375 @@
+/**
+ * @fileoverview 人脸聚类（人物）
+ *
+ * @description
+ * 照片处理完成后提取的人脸特征（face_embeddings）按相册聚类为"人物"（face_persons），
+ * 访客可以直接点击人物头像查看其所有照片，无需上传自拍。
+ *
+ * 聚类是增量的：
+ * - 已归属人物的人脸保持不变（包括管理员合并、拆分后的结果）
+ * - 未归属的人脸与现有人物的中心向量比较，相似度达到阈值时归入该人物，否则创建新人物
+ * - 隐藏的人物同样参与匹配，避免被隐藏的人在新照片中重新出现
+ *
+ * 完整重新聚类时，只会解散未命名且未隐藏的人物，管理员整理过的人物会保留。
+ *
+ * 通过环境变量配置：
+ * - FACE_CLUSTER_THRESHOLD：余弦相似度阈值，默认 0.5
+ *
+ * @module lib/face-clustering
+ */
+import { randomUUID } from "crypto";
+
+/** 默认余弦相似度阈值 */
+export const DEFAULT_FACE_CLUSTER_THRESHOLD = 0.5;
+
+/**
+ * 人脸位置（检测图片上的像素坐标）
+ */
+export interface FaceLocation {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** 检测图片宽度（用于换算为相对坐标） */
+  image_width?: number;
+  /** 检测图片高度 */
+  image_height?: number;
+}
+
+/**
+ * 参与聚类的人脸
+ */
+export interface ClusterFace {
+  id: string;
+  embedding: number[];
+}
+
+/**
+ * 已有人物（以成员特征之和作为中心向量）
+ */
+export interface ClusterCentroid {
+  id: string;
+  sum: number[];
+}
+
+/**
+ * 聚类结果
+ */
+export interface ClusterAssignment {
+  /** 人脸 ID → 人物 ID */
+  assignments: Map<string, string>;
+  /** 新创建的人物 ID */
+  created: string[];
+}
+
+/**
+ * 相册聚类统计
+ */
+export interface ClusterAlbumResult {
+  /** 本次归类的人脸数 */
+  assigned: number;
+  /** 新创建的人物数 */
+  created: number;
+}
+
+/**
+ * 从环境变量读取聚类阈值
+ *
+ * @param env - 环境变量（便于测试）
+ */
+export function getFaceClusterThreshold(
+  env: NodeJS.ProcessEnv = process.env,
+): number {
+  const value = parseFloat(env.FACE_CLUSTER_THRESHOLD || "");
+  return Number.isFinite(value) && value > 0 && value < 1
+    ? value
+    : DEFAULT_FACE_CLUSTER_THRESHOLD;
+}
+
+/**
+ * 解析 pgvector 返回的向量
+ *
+ * @param value - "[0.1,0.2,...]" 字符串或数字数组
+ * @returns 向量；无法解析时返回空数组
+ */
+export function parseEmbedding(value: unknown): number[] {
+  if (Array.isArray(value)) return value.map(Number);
+  if (typeof value !== "string") return [];
+  const trimmed = value.trim().replace(/^\[/, "").replace(/\]$/, "");
+  if (!trimmed) return [];
+  const vector = trimmed.split(",").map(Number);
+  return vector.every(Number.isFinite) ? vector : [];
+}
+
+/**
+ * 计算余弦相似度
+ *
+ * @returns 相似度（-1 ~ 1）；维度不一致或存在零向量时返回 0
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * 将未归属的人脸分配到人物
+ *
+ * @description
+ * 按顺序逐个处理人脸：与所有中心向量比较，取最相似者；
+ * 达到阈值则归入并更新中心向量，否则以该人脸创建新人物。
+ * 新人物同样参与后续人脸的匹配，因此一批新照片中的同一个人会聚到一起。
+ *
+ * @param faces - 未归属的人脸（建议按创建时间排序，保证结果稳定）
+ * @param centroids - 已有人物的中心向量（会被原地更新）
+ * @param threshold - 余弦相似度阈值
+ * @param createId - 新人物 ID 生成函数（便于测试）
+ */
+export function assignFaces(
+  faces: ClusterFace[],
+  centroids: ClusterCentroid[],
+  threshold: number,
+  createId: () => string = randomUUID,
+): ClusterAssignment {
+  const assignments = new Map<string, string>();
+  const created: string[] = [];
+
+  for (const face of faces) {
+    if (face.embedding.length === 0) continue;
+
+    let best: ClusterCentroid | null = null;
+    let bestSimilarity = -Infinity;
+    for (const centroid of centroids) {
+      const similarity = cosineSimilarity(face.embedding, centroid.sum);
+      if (similarity > bestSimilarity) {
+        best = centroid;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (best && bestSimilarity >= threshold) {
+      for (let i = 0; i < best.sum.length; i++) {
+        best.sum[i] += face.embedding[i];
+      }
+      assignments.set(face.id, best.id);
+    } else {
+      const id = createId();
+      centroids.push({ id, sum: [...face.embedding] });
+      created.push(id);
+      assignments.set(face.id, id);
+    }
+  }
+
+  return { assignments, created };
+}
+
+/**
+ * 选择人物头像：优先保留当前头像，否则使用面积最大的人脸
+ *
+ * @param faces - 该人物的人脸
+ * @param currentCoverId - 当前头像
+ */
+export function pickCoverFace(
+  faces: Array<{ id: string; face_location: FaceLocation | null }>,
+  currentCoverId: string | null,
+): string | null {
+  if (currentCoverId && faces.some((face) => face.id === currentCoverId)) {
+    return currentCoverId;
+  }
+  let cover: string | null = null;
+  let maxArea = -1;
+  for (const face of faces) {
+    const area = (face.face_location?.w || 0) * (face.face_location?.h || 0);
+    if (area > maxArea) {
+      cover = face.id;
+      maxArea = area;
+    }
+  }
+  return cover;
+}
+
+interface FaceRow {
+  id: string;
+  photo_id: string;
+  person_id: string | null;
+  embedding: unknown;
+  face_location: FaceLocation | null;
+}
+
+interface PersonRow {
+  id: string;
+  name: string | null;
+  is_hidden: boolean | null;
+  cover_face_id: string | null;
+  face_count: number | null;
+  photo_count: number | null;
+}
+
+/**
+ * 对相册执行（增量）人脸聚类，并刷新人物统计
+ *
+ * @param db - 数据库客户端
+ * @param albumId - 相册 ID
+ * @param options.full - 完整重新聚类（解散未命名且未隐藏的人物后重新分配）
+ * @param options.threshold - 余弦相似度阈值
+ */
+export async function clusterAlbumFaces(
+  db: any,
+  albumId: string,
+  options: { full?: boolean; threshold?: number } = {},
+): Promise<ClusterAlbumResult> {
+  const threshold = options.threshold ?? getFaceClusterThreshold();
+
+  if (options.full) {
+    const { error } = await db
+      .from("face_persons")
+      .delete()
+      .eq("album_id", albumId)
+      .is("name", null)
+      .eq("is_hidden", false);
+    if (error) {
+      throw new Error(`Failed to reset persons: ${error.message}`);
+    }
+  }
+
+  const [facesResult, personsResult] = await Promise.all([
+    db
+      .from("face_embeddings")
+      .select("id, photo_id, person_id, embedding, face_location")
+      .eq("album_id", albumId)
+      .order("created_at", { ascending: true }),
+    db
+      .from("face_persons")
+      .select("id, name, is_hidden, cover_face_id, face_count, photo_count")
+      .eq("album_id", albumId),
+  ]);
+  if (facesResult.error) {
+    throw new Error(`Failed to load faces: ${facesResult.error.message}`);
+  }
+  if (personsResult.error) {
+    throw new Error(`Failed to load persons: ${personsResult.error.message}`);
+  }
+
+  const persons = (personsResult.data || []) as PersonRow[];
+  const personIds = new Set(persons.map((person) => person.id));
+  const faces = ((facesResult.data || []) as FaceRow[]).map((face) => ({
+    ...face,
+    // 人物已被删除（如完整重新聚类）的人脸视为未归属
+    person_id:
+      face.person_id && personIds.has(face.person_id) ? face.person_id : null,
+    vector: parseEmbedding(face.embedding),
+  }));
+
+  // 1. 以现有成员计算中心向量
+  const centroidMap = new Map<string, ClusterCentroid>();
+  for (const face of faces) {
+    if (!face.person_id || face.vector.length === 0) continue;
+    const centroid = centroidMap.get(face.person_id);
+    if (!centroid) {
+      centroidMap.set(face.person_id, { id: face.person_id, sum: [...face.vector] });
+    } else if (centroid.sum.length === face.vector.length) {
+      for (let i = 0; i < centroid.sum.length; i++) {
+        centroid.sum[i] += face.vector[i];
+      }
+    }
+  }
+
+  // 2. 分配未归属的人脸
+  const unassigned = faces.filter((face) => !face.person_id);
+  const { assignments, created } = assignFaces(
+    unassigned.map((face) => ({ id: face.id, embedding: face.vector })),
+    [...centroidMap.values()],
+    threshold,
+  );
+
+  if (created.length > 0) {
+    const { error } = await db
+      .from("face_persons")
+      .insert(created.map((id) => ({ id, album_id: albumId })));
+    if (error) {
+      throw new Error(`Failed to create persons: ${error.message}`);
+    }
+  }
+
+  // 按人物批量更新人脸归属
+  const facesByPerson = new Map<string, string[]>();
+  for (const [faceId, personId] of assignments) {
+    const ids = facesByPerson.get(personId) || [];
+    ids.push(faceId);
+    facesByPerson.set(personId, ids);
+  }
+  for (const [personId, faceIds] of facesByPerson) {
+    const { error } = await db
+      .from("face_embeddings")
+      .update({ person_id: personId })
+      .in("id", faceIds);
+    if (error) {
+      throw new Error(`Failed to assign faces: ${error.message}`);
+    }
+  }
+  for (const face of faces) {
+    face.person_id = assignments.get(face.id) ?? face.person_id;
+  }
+
+  // 3. 刷新人物统计（已删除照片中的人脸不计入）
+  const { data: deletedPhotos } = await db
+    .from("photos")
+    .select("id")
+    .eq("album_id", albumId)
+    .not("deleted_at", "is", null);
+  const deletedPhotoIds = new Set(
+    ((deletedPhotos || []) as Array<{ id: string }>).map((photo) => photo.id),
+  );
+
+  const members = new Map<string, typeof faces>();
+  for (const face of faces) {
+    if (!face.person_id || deletedPhotoIds.has(face.photo_id)) continue;
+    const list = members.get(face.person_id) || [];
+    list.push(face);
+    members.set(face.person_id, list);
+  }
+
+  const existing = new Map(persons.map((person) => [person.id, person]));
+  for (const personId of [...personIds, ...created]) {
+    const list = members.get(personId) || [];
+    const person = existing.get(personId);
+
+    if (list.length === 0) {
+      // 成员照片全部删除后，人物没有意义
+      await db.from("face_persons").delete().eq("id", personId);
+      continue;
+    }
+
+    const stats = {
+      face_count: list.length,
+      photo_count: new Set(list.map((face) => face.photo_id)).size,
+      cover_face_id: pickCoverFace(list, person?.cover_face_id ?? null),
+    };
+    if (
+      person &&
+      person.face_count === stats.face_count &&
+      person.photo_count === stats.photo_count &&
+      person.cover_face_id === stats.cover_face_id
+    ) {
+      continue;
+    }
+
+    const { error } = await db
+      .from("face_persons")
+      .update(stats)
+      .eq("id", personId);
+    if (error) {
+      throw new Error(`Failed to update person stats: ${error.message}`);
+    }
+  }
+
+  return { assigned: assignments.size, created: created.length };
+}
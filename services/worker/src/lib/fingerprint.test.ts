@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import sharp from 'sharp'
+import { embedFingerprint, extractFingerprint, FINGERPRINT_CODE_PATTERN } from './fingerprint'
+
+const CODE = '3f2a9c01b7e4'
+
+/**
+ * 生成带纹理的照片（模糊后的噪点）
+ */
+function createPhoto(width: number, height: number): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 3, noise: { type: 'gaussian', mean: 128, sigma: 40 } },
+  })
+    .blur(2)
+    .jpeg({ quality: 92 })
+    .toBuffer()
+}
+
+describe('fingerprint', () => {
+  let photo: Buffer
+  let fingerprinted: Buffer
+
+  beforeAll(async () => {
+    vi.stubEnv('FINGERPRINT_SECRET', 'test-fingerprint-secret')
+    photo = await createPhoto(1600, 1000)
+    fingerprinted = (await embedFingerprint(photo, CODE)).buffer
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should embed and extract the code', async () => {
+    const detection = await extractFingerprint(fingerprinted)
+
+    expect(detection.code).toBe(CODE)
+    expect(detection.confidence).toBeGreaterThan(3)
+  })
+
+  it('should keep format and size', async () => {
+    const metadata = await sharp(fingerprinted).metadata()
+
+    expect(metadata.format).toBe('jpeg')
+    expect(metadata.width).toBe(1600)
+    expect(metadata.height).toBe(1000)
+  })
+
+  it('should be nearly invisible', async () => {
+    const original = await sharp(photo).raw().toBuffer()
+    const marked = await sharp(fingerprinted).raw().toBuffer()
+    let squaredError = 0
+    for (let i = 0; i < original.length; i++) {
+      squaredError += (original[i] - marked[i]) ** 2
+    }
+    const psnr = 10 * Math.log10((255 * 255) / (squaredError / original.length))
+
+    expect(psnr).toBeGreaterThan(38)
+  })
+
+  it('should survive recompression and resizing', async () => {
+    const leaked = await sharp(fingerprinted).resize(800).jpeg({ quality: 60 }).toBuffer()
+
+    expect((await extractFingerprint(leaked)).code).toBe(CODE)
+  })
+
+  it('should survive mild colour edits', async () => {
+    const edited = await sharp(fingerprinted)
+      .modulate({ brightness: 1.1, saturation: 1.2 })
+      .jpeg({ quality: 80 })
+      .toBuffer()
+
+    expect((await extractFingerprint(edited)).code).toBe(CODE)
+  })
+
+  it('should not detect a code in an unmarked image', async () => {
+    const detection = await extractFingerprint(photo)
+
+    expect(detection.code).toBeNull()
+    expect(detection.confidence).toBeLessThan(2)
+  })
+
+  it('should embed after applying EXIF orientation', async () => {
+    const rotated = await sharp(await createPhoto(600, 400)).withMetadata({ orientation: 6 }).jpeg().toBuffer()
+
+    const result = await embedFingerprint(rotated, CODE)
+    const metadata = await sharp(result.buffer).metadata()
+
+    expect(result.embedded).toBe(true)
+    expect(metadata.width).toBe(400)
+    expect(metadata.height).toBe(600)
+    expect(metadata.orientation ?? 1).toBe(1)
+    expect((await extractFingerprint(result.buffer)).code).toBe(CODE)
+  })
+
+  it('should return images with alpha unchanged', async () => {
+    const png = await sharp(await createPhoto(200, 200)).ensureAlpha(0.5).png().toBuffer()
+
+    const result = await embedFingerprint(png, CODE)
+
+    expect(result.embedded).toBe(false)
+    expect(result.buffer).toBe(png)
+  })
+
+  it('should skip embedding and detection without a secret', async () => {
+    vi.stubEnv('FINGERPRINT_SECRET', '')
+    vi.stubEnv('WORKER_API_KEY', '')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    try {
+      const result = await embedFingerprint(photo, CODE)
+      expect(result.embedded).toBe(false)
+      expect(result.buffer).toBe(photo)
+      expect(await extractFingerprint(fingerprinted)).toEqual({ code: null, confidence: 0 })
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('FINGERPRINT_SECRET'))
+    } finally {
+      vi.stubEnv('FINGERPRINT_SECRET', 'test-fingerprint-secret')
+      warn.mockRestore()
+    }
+  })
+
+  it('should reject invalid codes', async () => {
+    expect(FINGERPRINT_CODE_PATTERN.test('XYZ')).toBe(false)
+    await expect(embedFingerprint(photo, 'not-a-code')).rejects.toThrow('Invalid fingerprint code')
+  })
+})
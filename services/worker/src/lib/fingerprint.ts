@@ -0,0 +1,372 @@
+/**
+ * @fileoverview 下载指纹（不可见水印）
+ *
+ * @description
+ * 访客下载的原图、打包交付的照片中嵌入 48 位指纹编号（对应 download_fingerprints 表中的一条下载记录），
+ * 照片外泄后可以从图片本身解出编号，查到是哪一次下载（相册、访客会话、分享链接和时间）。
+ *
+ * 嵌入方式为扩频：图片（忽略宽高比）被划分为 256×256 的网格，64 位载荷（48 位编号 + CRC-16）
+ * 的每一位由密钥决定的约 1000 个格子承载，每个格子按伪随机符号叠加亮度变化；
+ * 变化幅度随局部纹理调整（纯色区域约 ±1，纹理丰富处更强），人眼难以察觉。
+ * 检测时把可疑图片缩放到同样的网格，高通滤波后与伪随机序列求相关。
+ * 每一位分散在整张图片上，能经受 JPEG 重新压缩、缩放和轻度调色；裁切、旋转会破坏网格对齐，无法检测。
+ *
+ * 伪随机序列由 FINGERPRINT_SECRET（未设置时使用 WORKER_API_KEY）派生，更换密钥后已发出的图片无法再识别。
+ * 两者都未设置时不嵌入也不检测指纹：公开的固定密钥会让任何人都能伪造或去除指纹。
+ * @module lib/fingerprint
+ */
+import { createHash } from "crypto";
+import sharp from "sharp";
+
+/** 指纹编号：12 位十六进制（48 位） */
+export const FINGERPRINT_CODE_PATTERN = /^[0-9a-f]{12}$/;
+
+/** 检测网格边长 */
+const GRID_SIZE = 256;
+/** 载荷位数：48 位编号 + 16 位 CRC */
+const PAYLOAD_BITS = 64;
+/** 默认嵌入强度（亮度变化幅度，0-255） */
+const DEFAULT_STRENGTH = 3;
+/** 高通残差的截断值，避免强边缘主导相关结果 */
+const RESIDUAL_CLIP = 4;
+/** 纯色区域的最小幅度，再小会在 JPEG 压缩后丢失 */
+const MIN_AMPLITUDE = 2;
+/** 局部纹理达到该值（平均高通残差）时使用 strength 幅度 */
+const ACTIVITY_REFERENCE = 4;
+
+/** 可以重新编码并保留格式的图片格式 */
+const WRITABLE_FORMATS = ["jpeg", "png", "webp", "tiff"] as const;
+type WritableFormat = (typeof WRITABLE_FORMATS)[number];
+
+/**
+ * 嵌入结果
+ */
+export interface FingerprintedImage {
+  buffer: Buffer;
+  /** 输出格式（与输入相同） */
+  format: string;
+  /** 格式不支持重新编码（如 HEIC）或带透明通道时为 false，buffer 为原始数据 */
+  embedded: boolean;
+}
+
+/**
+ * 检测结果
+ */
+export interface FingerprintDetection {
+  /** 解出的编号；CRC 校验失败时为 null */
+  code: string | null;
+  /**
+   * 平均每一位的相关强度（标准差的倍数）
+   * 带指纹的图片通常在 3 以上，没有指纹的图片在 1 左右
+   */
+  confidence: number;
+}
+
+/**
+ * 网格中每个格子承载的载荷位和伪随机符号
+ * @internal
+ */
+interface ChipLayout {
+  bitIndex: Uint8Array;
+  signs: Int8Array;
+}
+
+const layoutCache = new Map<string, ChipLayout>();
+
+/** 是否已经提示过缺少密钥（避免打包时每张照片都输出一次） */
+let missingSecretWarned = false;
+
+/**
+ * 获取指纹密钥
+ * @returns 未配置 FINGERPRINT_SECRET 和 WORKER_API_KEY 时返回 null
+ * @internal
+ */
+function getFingerprintSecret(): string | null {
+  const secret =
+    process.env.FINGERPRINT_SECRET || process.env.WORKER_API_KEY || null;
+  if (!secret && !missingSecretWarned) {
+    missingSecretWarned = true;
+    console.warn(
+      "[Fingerprint] FINGERPRINT_SECRET and WORKER_API_KEY are not set, download fingerprints are disabled",
+    );
+  }
+  return secret;
+}
+
+/**
+ * 由密钥派生网格布局（SHA-256 计数器模式的伪随机流）
+ *
+ * @description 每一位恰好分到 GRID_SIZE² / PAYLOAD_BITS 个格子，位置打散到整张图片
+ * @internal
+ */
+function getChipLayout(secret: string): ChipLayout {
+  const cached = layoutCache.get(secret);
+  if (cached) return cached;
+
+  const cells = GRID_SIZE * GRID_SIZE;
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+  const nextUint32 = (): number => {
+    if (offset + 4 > block.length) {
+      block = createHash("sha256").update(`${secret}:${counter++}`).digest();
+      offset = 0;
+    }
+    const value = block.readUInt32LE(offset);
+    offset += 4;
+    return value;
+  };
+
+  const bitIndex = new Uint8Array(cells);
+  const signs = new Int8Array(cells);
+  for (let i = 0; i < cells; i++) {
+    bitIndex[i] = i % PAYLOAD_BITS;
+  }
+  // Fisher-Yates 洗牌
+  for (let i = cells - 1; i > 0; i--) {
+    const j = nextUint32() % (i + 1);
+    const tmp = bitIndex[i];
+    bitIndex[i] = bitIndex[j];
+    bitIndex[j] = tmp;
+  }
+  for (let i = 0; i < cells; i++) {
+    signs[i] = nextUint32() & 1 ? 1 : -1;
+  }
+
+  const layout = { bitIndex, signs };
+  layoutCache.set(secret, layout);
+  return layout;
+}
+
+/**
+ * CRC-16/CCITT-FALSE
+ * @internal
+ */
+function crc16(bytes: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * 编号 → 64 位载荷（按位展开，1 / 0）
+ * @internal
+ */
+function encodePayload(code: string): Uint8Array {
+  const bytes = Buffer.from(code, "hex");
+  const crc = crc16(bytes);
+  const payload = Buffer.concat([bytes, Buffer.from([crc >> 8, crc & 0xff])]);
+  const bits = new Uint8Array(PAYLOAD_BITS);
+  for (let i = 0; i < PAYLOAD_BITS; i++) {
+    bits[i] = (payload[i >> 3] >> (7 - (i & 7))) & 1;
+  }
+  return bits;
+}
+
+/**
+ * 64 位载荷 → 编号，CRC 不一致时返回 null
+ * @internal
+ */
+function decodePayload(bits: Uint8Array): string | null {
+  const payload = Buffer.alloc(PAYLOAD_BITS / 8);
+  for (let i = 0; i < PAYLOAD_BITS; i++) {
+    if (bits[i]) payload[i >> 3] |= 1 << (7 - (i & 7));
+  }
+  const bytes = payload.subarray(0, 6);
+  return crc16(bytes) === payload.readUInt16BE(6)
+    ? bytes.toString("hex")
+    : null;
+}
+
+/**
+ * 高通滤波：减去 3×3 邻域均值，去掉画面本身的低频内容
+ * @internal
+ */
+function highPass(luma: Uint8Array | Buffer): Float64Array {
+  const residual = new Float64Array(GRID_SIZE * GRID_SIZE);
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= GRID_SIZE) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= GRID_SIZE) continue;
+          sum += luma[ny * GRID_SIZE + nx];
+          count++;
+        }
+      }
+      residual[y * GRID_SIZE + x] = luma[y * GRID_SIZE + x] - sum / count;
+    }
+  }
+  return residual;
+}
+
+/**
+ * 缩放到检测网格的亮度
+ * @internal
+ */
+function toGridLuma(input: Buffer): Promise<Buffer> {
+  return sharp(input, { failOn: "none" })
+    .rotate()
+    .greyscale()
+    .resize(GRID_SIZE, GRID_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * 在图片中嵌入指纹编号
+ *
+ * @description 按 EXIF 方向摆正后嵌入（输出不再带方向标记），保留 EXIF 和 ICC；
+ * JPEG 以质量 95 重新编码。格式无法重新编码、带透明通道（叠加会改变透明度）或未配置密钥时原样返回
+ *
+ * @param input - 原始图片
+ * @param code - 指纹编号（12 位十六进制）
+ * @param strength - 亮度变化幅度，越大越耐压缩，也越容易在大面积纯色区域看出
+ */
+export async function embedFingerprint(
+  input: Buffer,
+  code: string,
+  strength = DEFAULT_STRENGTH,
+): Promise<FingerprintedImage> {
+  if (!FINGERPRINT_CODE_PATTERN.test(code)) {
+    throw new Error("Invalid fingerprint code");
+  }
+
+  const metadata = await sharp(input).metadata();
+  const format = metadata.format || "unknown";
+  const secret = getFingerprintSecret();
+  if (
+    !secret ||
+    !WRITABLE_FORMATS.includes(format as WritableFormat) ||
+    metadata.hasAlpha ||
+    !metadata.width ||
+    !metadata.height
+  ) {
+    return { buffer: input, format, embedded: false };
+  }
+
+  // 摆正后的尺寸（5-8 为旋转 90° 的方向）
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+
+  // 每个格子的幅度按局部纹理（3×3 邻域平均残差）在 MIN_AMPLITUDE ~ 2×strength 之间调整
+  const level = Math.max(1, Math.min(20, Math.round(strength)));
+  const maxAmplitude = level * 2;
+  const residual = highPass(await toGridLuma(input));
+  const { bitIndex, signs } = getChipLayout(secret);
+  const bits = encodePayload(code);
+
+  // 网格图案以 maxAmplitude 为基准（0 ~ 2×maxAmplitude），叠加后再整体减去 maxAmplitude
+  const grid = Buffer.alloc(GRID_SIZE * GRID_SIZE);
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      let activity = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= GRID_SIZE) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= GRID_SIZE) continue;
+          activity += Math.abs(residual[ny * GRID_SIZE + nx]);
+          count++;
+        }
+      }
+      const i = y * GRID_SIZE + x;
+      const amplitude = Math.max(
+        MIN_AMPLITUDE,
+        Math.min(
+          maxAmplitude,
+          Math.round((level * activity) / count / ACTIVITY_REFERENCE),
+        ),
+      );
+      const symbol = bits[bitIndex[i]] ? signs[i] : -signs[i];
+      grid[i] = maxAmplitude + amplitude * symbol;
+    }
+  }
+  const pattern = await sharp(grid, {
+    raw: { width: GRID_SIZE, height: GRID_SIZE, channels: 1 },
+  })
+    .resize(width, height, { fit: "fill", kernel: "mitchell" })
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer();
+
+  const pipeline = sharp(input)
+    .rotate()
+    .linear(1, -maxAmplitude)
+    .composite([
+      { input: pattern, raw: { width, height, channels: 3 }, blend: "add" },
+    ])
+    .withMetadata();
+
+  let buffer: Buffer;
+  switch (format as WritableFormat) {
+    case "jpeg":
+      buffer = await pipeline.jpeg({ quality: 95 }).toBuffer();
+      break;
+    case "png":
+      buffer = await pipeline.png().toBuffer();
+      break;
+    case "webp":
+      buffer = await pipeline.webp({ quality: 95 }).toBuffer();
+      break;
+    case "tiff":
+      buffer = await pipeline.tiff().toBuffer();
+      break;
+  }
+
+  return { buffer, format, embedded: true };
+}
+
+/**
+ * 从图片中检测指纹编号
+ *
+ * @param input - 可疑图片（任意 Sharp 可解码的格式和尺寸）
+ * @returns 未配置密钥时无法检测，编号为 null
+ */
+export async function extractFingerprint(
+  input: Buffer,
+): Promise<FingerprintDetection> {
+  const secret = getFingerprintSecret();
+  if (!secret) {
+    return { code: null, confidence: 0 };
+  }
+
+  const residual = highPass(await toGridLuma(input)).map((value) =>
+    Math.max(-RESIDUAL_CLIP, Math.min(RESIDUAL_CLIP, value)),
+  );
+
+  const { bitIndex, signs } = getChipLayout(secret);
+  const correlation = new Float64Array(PAYLOAD_BITS);
+  let energy = 0;
+  for (let i = 0; i < residual.length; i++) {
+    correlation[bitIndex[i]] += residual[i] * signs[i];
+    energy += residual[i] * residual[i];
+  }
+
+  // 没有指纹时每一位的相关值近似服从 N(0, σ²·n)
+  const chipsPerBit = residual.length / PAYLOAD_BITS;
+  const sigma = Math.sqrt(energy / residual.length) * Math.sqrt(chipsPerBit);
+  const bits = new Uint8Array(PAYLOAD_BITS);
+  let strengthSum = 0;
+  for (let i = 0; i < PAYLOAD_BITS; i++) {
+    bits[i] = correlation[i] > 0 ? 1 : 0;
+    strengthSum += sigma > 0 ? Math.abs(correlation[i]) / sigma : 0;
+  }
+
+  return {
+    code: decodePayload(bits),
+    confidence: Math.round((strengthSum / PAYLOAD_BITS) * 100) / 100,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { getBasename, getExtension, getMediaType, getMimeType, isRawFile } from './media-types'
+
+describe('media-types', () => {
+  describe('getExtension', () => {
+    it('should return lowercase extension with dot', () => {
+      expect(getExtension('DSC_0001.JPG')).toBe('.jpg')
+      expect(getExtension('sync/album-1/clip.MOV')).toBe('.mov')
+    })
+
+    it('should return empty string when there is no extension', () => {
+      expect(getExtension('README')).toBe('')
+      expect(getExtension('.hidden')).toBe('')
+      expect(getExtension('name.')).toBe('')
+    })
+  })
+
+  describe('getMediaType', () => {
+    it('should detect images and videos', () => {
+      expect(getMediaType('photo.heic')).toBe('image')
+      expect(getMediaType('clip.mp4')).toBe('video')
+      expect(getMediaType('clip.mov')).toBe('video')
+    })
+
+    it('should treat camera RAW files as images', () => {
+      expect(getMediaType('DSC_0001.NEF')).toBe('image')
+      expect(getMediaType('DSC00001.arw')).toBe('image')
+      expect(getMediaType('IMG_0001.CR3')).toBe('image')
+    })
+
+    it('should return null for unsupported files', () => {
+      expect(getMediaType('sidecar.xmp')).toBeNull()
+      expect(getMediaType('noext')).toBeNull()
+    })
+  })
+
+  describe('getMimeType', () => {
+    it('should map extensions to MIME types', () => {
+      expect(getMimeType('a.png')).toBe('image/png')
+      expect(getMimeType('a.mov')).toBe('video/quicktime')
+      expect(getMimeType('a.xmp')).toBe('application/octet-stream')
+      expect(getMimeType('a.NEF')).toBe('image/x-nikon-nef')
+    })
+  })
+
+  describe('isRawFile', () => {
+    it('should detect RAW files by extension', () => {
+      expect(isRawFile('raw/album-1/photo-1.cr3')).toBe(true)
+      expect(isRawFile('DSC_0001.JPG')).toBe(false)
+    })
+  })
+
+  describe('getBasename', () => {
+    it('should strip extension and lowercase for pairing', () => {
+      expect(getBasename('DSC_0001.NEF')).toBe('dsc_0001')
+      expect(getBasename('sync/album-1/DSC_0001.JPG')).toBe('dsc_0001')
+      expect(getBasename('README')).toBe('readme')
+    })
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview 媒体文件类型识别
+ *
+ * @description
+ * 统一维护各接入途径（扫描同步、FTP 上传）支持的文件扩展名及其 MIME 类型，
+ * 并区分图片、相机 RAW 与视频，供照片处理任务选择处理流程。
+ *
+ * @module lib/media-types
+ */
+
+/** 媒体类型 */
+export type MediaType = "image" | "video";
+
+/** 支持的图片扩展名 → MIME 类型 */
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".heic": "image/heic",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".tiff": "image/tiff",
+  ".tif": "image/tiff",
+};
+
+/** 支持的相机 RAW 扩展名 → MIME 类型（按图片处理，使用内嵌 JPEG 预览） */
+export const RAW_EXTENSIONS: Record<string, string> = {
+  ".nef": "image/x-nikon-nef",
+  ".arw": "image/x-sony-arw",
+  ".cr3": "image/x-canon-cr3",
+};
+
+/** 支持的视频扩展名 → MIME 类型 */
+export const VIDEO_EXTENSIONS: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+/**
+ * 获取文件扩展名（小写，包含点号）
+ *
+ * @param filename - 文件名或存储路径
+ * @returns 扩展名；没有扩展名时返回空字符串
+ */
+export function getExtension(filename: string): string {
+  const name = filename.split("/").pop() || "";
+  const lastDotIndex = name.lastIndexOf(".");
+  if (lastDotIndex <= 0 || lastDotIndex === name.length - 1) {
+    return "";
+  }
+  return name.slice(lastDotIndex).toLowerCase();
+}
+
+/**
+ * 根据文件名判断媒体类型
+ *
+ * @param filename - 文件名或存储路径
+ * @returns 媒体类型；不支持的文件返回 null
+ */
+export function getMediaType(filename: string): MediaType | null {
+  const ext = getExtension(filename);
+  if (ext in IMAGE_EXTENSIONS || ext in RAW_EXTENSIONS) return "image";
+  if (ext in VIDEO_EXTENSIONS) return "video";
+  return null;
+}
+
+/**
+ * 根据文件名获取 MIME 类型
+ *
+ * @param filename - 文件名或存储路径
+ * @returns MIME 类型；不支持的文件返回 application/octet-stream
+ */
+export function getMimeType(filename: string): string {
+  const ext = getExtension(filename);
+  return (
+    IMAGE_EXTENSIONS[ext] ||
+    RAW_EXTENSIONS[ext] ||
+    VIDEO_EXTENSIONS[ext] ||
+    "application/octet-stream"
+  );
+}
+
+/**
+ * 判断是否为相机 RAW 文件
+ *
+ * @param filename - 文件名或存储路径
+ */
+export function isRawFile(filename: string): boolean {
+  return getExtension(filename) in RAW_EXTENSIONS;
+}
+
+/**
+ * 获取不含扩展名的文件名（用于 RAW+JPEG 配对）
+ *
+ * @param filename - 文件名或存储路径
+ * @returns 小写的基础文件名，如 "DSC_0001.NEF" → "dsc_0001"
+ */
+export function getBasename(filename: string): string {
+  const name = filename.split("/").pop() || "";
+  const ext = getExtension(name);
+  return (ext ? name.slice(0, -ext.length) : name).toLowerCase();
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  planPackageLayout,
+  orderByLayout,
+  buildManifestCsv,
+  isValidFilenameTemplate,
+  sanitizePathSegment,
+  type LayoutPhoto,
+} from './package-layout.js'
+
+const photos: LayoutPhoto[] = [
+  { id: 'p1', filename: 'IMG_0001.JPG', capturedAt: '2026-05-01T10:15:30', groupName: '晚宴', groupSortOrder: 2 },
+  { id: 'p2', filename: 'IMG_0002.JPG', capturedAt: '2026-05-01T09:00:05', groupName: '仪式', groupSortOrder: 1 },
+  { id: 'p3', filename: 'IMG_0003.JPG', capturedAt: null, groupName: null },
+  { id: 'p4', filename: 'IMG_0004.JPG', capturedAt: '2026-05-01T09:30:00', groupName: '仪式', groupSortOrder: 1 },
+]
+
+describe('package-layout', () => {
+  describe('isValidFilenameTemplate', () => {
+    it('should only accept known variables', () => {
+      expect(isValidFilenameTemplate('{album}_{group}_{seq}_{capture_time}')).toBe(true)
+      expect(isValidFilenameTemplate('婚礼-{seq}')).toBe(true)
+      expect(isValidFilenameTemplate('{album}_{camera}')).toBe(false)
+      expect(isValidFilenameTemplate('x'.repeat(201))).toBe(false)
+    })
+  })
+
+  describe('sanitizePathSegment', () => {
+    it('should strip characters that break ZIP paths', () => {
+      expect(sanitizePathSegment('  仪式/晚宴:*  ')).toBe('仪式_晚宴__')
+      expect(sanitizePathSegment('..hidden..')).toBe('hidden')
+    })
+  })
+
+  describe('planPackageLayout', () => {
+    it('should keep original filenames in a flat layout by default', () => {
+      const layout = planPackageLayout(photos, { albumTitle: '婚礼', groupFolders: false })
+
+      expect([...layout.entries()]).toEqual([
+        ['p1', { folder: '', name: 'IMG_0001.JPG', seq: 1 }],
+        ['p2', { folder: '', name: 'IMG_0002.JPG', seq: 2 }],
+        ['p3', { folder: '', name: 'IMG_0003.JPG', seq: 3 }],
+        ['p4', { folder: '', name: 'IMG_0004.JPG', seq: 4 }],
+      ])
+    })
+
+    it('should group by folder order and number photos within each folder', () => {
+      const layout = planPackageLayout(photos, {
+        albumTitle: '婚礼',
+        groupFolders: true,
+        filenameTemplate: '{album}_{group}_{seq}_{capture_time}',
+      })
+
+      expect([...layout.entries()]).toEqual([
+        ['p2', { folder: '仪式', name: '婚礼_仪式_001_20260501-090005.JPG', seq: 1 }],
+        ['p4', { folder: '仪式', name: '婚礼_仪式_002_20260501-093000.JPG', seq: 2 }],
+        ['p1', { folder: '晚宴', name: '婚礼_晚宴_001_20260501-101530.JPG', seq: 1 }],
+        // 缺少拍摄时间时去掉多余的分隔符
+        ['p3', { folder: '未分组', name: '婚礼_未分组_001.JPG', seq: 1 }],
+      ])
+      expect(orderByLayout(photos, layout).map((photo) => photo.id)).toEqual(['p2', 'p4', 'p1', 'p3'])
+    })
+
+    it('should de-duplicate names within a folder', () => {
+      const layout = planPackageLayout(photos.slice(0, 2), {
+        albumTitle: '婚礼',
+        groupFolders: false,
+        filenameTemplate: '{album}',
+      })
+
+      expect([...layout.values()].map((entry) => entry.name)).toEqual(['婚礼.JPG', '婚礼_2.JPG'])
+    })
+  })
+
+  describe('buildManifestCsv', () => {
+    it('should write a BOM-prefixed CSV with escaped cells', () => {
+      const csv = buildManifestCsv([
+        {
+          seq: 1,
+          name: 'a,b.jpg',
+          originalFilename: 'IMG_1.jpg',
+          group: '仪式',
+          capturedAt: '2026-05-01T09:00:05',
+          selected: true,
+          selectedBy: ['张三', '李四'],
+        },
+      ])
+
+      expect(csv).toBe(
+        '\uFEFF序号,文件名,原始文件名,分组,拍摄时间,已选,选片访客\r\n' +
+          '1,"a,b.jpg",IMG_1.jpg,仪式,2026-05-01T09:00:05,是,张三; 李四\r\n'
+      )
+    })
+  })
+})
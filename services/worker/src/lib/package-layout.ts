@@ -0,0 +1,227 @@
+/**
+ * @fileoverview 打包下载的目录结构、文件命名和清单
+ *
+ * @description
+ * - 按分组建目录：每个分组（photo_groups）一个目录，目录下再分「无水印」「有水印」；
+ *   照片属于多个分组时放在排序最靠前的分组，未分组的照片放在「未分组」目录
+ * - 文件名模板：如 {album}_{group}_{seq}_{capture_time}，扩展名沿用原文件
+ * - 清单 CSV：列出每张照片的文件名、拍摄时间和选片状态
+ *
+ * 命名只取决于照片顺序和元数据，同一任务重试时结果不变（断点续传依赖这一点）。
+ *
+ * @module lib/package-layout
+ */
+
+/** 文件名模板支持的变量 */
+export const PACKAGE_FILENAME_TOKENS = [
+  "album",
+  "group",
+  "seq",
+  "capture_time",
+  "capture_date",
+  "filename",
+] as const;
+
+/** 未分组照片的目录名 */
+export const UNGROUPED_FOLDER = "未分组";
+
+export interface LayoutPhoto {
+  id: string;
+  filename: string;
+  capturedAt: string | null;
+  /** 照片所在分组名（按分组排序取第一个），未分组为 null */
+  groupName: string | null;
+  /** 分组的排序值，决定分组目录的先后 */
+  groupSortOrder?: number | null;
+}
+
+export interface PackageLayoutOptions {
+  albumTitle: string;
+  /** 按分组建目录 */
+  groupFolders: boolean;
+  /** 文件名模板，为空时使用原文件名 */
+  filenameTemplate?: string | null;
+}
+
+export interface PhotoLayout {
+  /** 分组目录（不按分组时为空字符串） */
+  folder: string;
+  /** 包内文件名（含扩展名） */
+  name: string;
+  /** 目录内序号（从 1 开始） */
+  seq: number;
+}
+
+export interface ManifestRow {
+  seq: number;
+  name: string;
+  originalFilename: string;
+  group: string | null;
+  capturedAt: string | null;
+  selected: boolean;
+  /** 选中该照片的访客姓名 */
+  selectedBy: string[];
+}
+
+const MAX_NAME_LENGTH = 150;
+
+/**
+ * 清理文件名中不能出现在 ZIP 路径里的字符
+ */
+export function sanitizePathSegment(value: string): string {
+  return (
+    value
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\\/:*?"<>|\x00-\x1f]/g, "_")
+      .replace(/\s+/g, " ")
+      .trim()
+      .replace(/^\.+|\.+$/g, "")
+      .slice(0, MAX_NAME_LENGTH)
+  );
+}
+
+function splitExtension(filename: string): { base: string; ext: string } {
+  const dotIndex = filename.lastIndexOf(".");
+  return dotIndex > 0
+    ? { base: filename.slice(0, dotIndex), ext: filename.slice(dotIndex) }
+    : { base: filename, ext: "" };
+}
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, "0");
+}
+
+/**
+ * 检查模板是否只使用支持的变量
+ */
+export function isValidFilenameTemplate(template: string): boolean {
+  return (
+    template.length <= 200 &&
+    [...template.matchAll(/\{([^{}]*)\}/g)].every(([, token]) =>
+      (PACKAGE_FILENAME_TOKENS as readonly string[]).includes(token),
+    )
+  );
+}
+
+/**
+ * 按模板生成文件名（不含扩展名）
+ *
+ * @param template - 模板，如 {album}_{group}_{seq}_{capture_time}
+ * @param values - 变量值；未知变量原样保留
+ */
+export function renderFilenameTemplate(
+  template: string,
+  values: Partial<Record<(typeof PACKAGE_FILENAME_TOKENS)[number], string>>,
+): string {
+  return template.replace(/\{([a-z_]+)\}/g, (match, token: string) =>
+    token in values ? (values as Record<string, string>)[token] : match,
+  );
+}
+
+/**
+ * 规划每张照片在包内的目录和文件名
+ *
+ * @param photos - 按打包顺序排列的照片
+ * @returns 照片 ID → 目录和文件名，按包内顺序排列（分组目录按分组排序，未分组在最后）
+ */
+export function planPackageLayout(
+  photos: LayoutPhoto[],
+  options: PackageLayoutOptions,
+): Map<string, PhotoLayout> {
+  const ordered = options.groupFolders
+    ? [...photos].sort(
+        (a, b) =>
+          (a.groupName ? (a.groupSortOrder ?? 0) : Infinity) -
+            (b.groupName ? (b.groupSortOrder ?? 0) : Infinity) || 0,
+      )
+    : photos;
+
+  const folders = new Map<string, LayoutPhoto[]>();
+  for (const photo of ordered) {
+    const folder = options.groupFolders
+      ? sanitizePathSegment(photo.groupName || UNGROUPED_FOLDER) || UNGROUPED_FOLDER
+      : "";
+    const list = folders.get(folder) ?? [];
+    list.push(photo);
+    folders.set(folder, list);
+  }
+
+  const layout = new Map<string, PhotoLayout>();
+  for (const [folder, folderPhotos] of folders) {
+    const seqWidth = Math.max(3, String(folderPhotos.length).length);
+    const usedNames = new Set<string>();
+
+    folderPhotos.forEach((photo, index) => {
+      const seq = index + 1;
+      const { base, ext } = splitExtension(photo.filename);
+      let stem = base;
+
+      if (options.filenameTemplate) {
+        const captured = photo.capturedAt ? new Date(photo.capturedAt) : null;
+        const valid = captured && !Number.isNaN(captured.getTime());
+        stem = renderFilenameTemplate(options.filenameTemplate, {
+          album: options.albumTitle,
+          group: photo.groupName || UNGROUPED_FOLDER,
+          seq: String(seq).padStart(seqWidth, "0"),
+          capture_time: valid
+            ? `${captured.getFullYear()}${pad(captured.getMonth() + 1)}${pad(captured.getDate())}-${pad(captured.getHours())}${pad(captured.getMinutes())}${pad(captured.getSeconds())}`
+            : "",
+          capture_date: valid
+            ? `${captured.getFullYear()}-${pad(captured.getMonth() + 1)}-${pad(captured.getDate())}`
+            : "",
+          filename: base,
+        });
+        // 缺少拍摄时间等变量为空时，去掉多余的分隔符
+        stem = stem.replace(/([_\-\s])[_\-\s]+/g, "$1").replace(/^[_\-\s]+|[_\-\s]+$/g, "");
+      }
+
+      stem = sanitizePathSegment(stem) || sanitizePathSegment(base) || photo.id;
+
+      // 同一目录内重名时追加序号
+      let name = `${stem}${ext}`;
+      for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+        name = `${stem}_${n}${ext}`;
+      }
+      usedNames.add(name.toLowerCase());
+
+      layout.set(photo.id, { folder, name, seq });
+    });
+  }
+  return layout;
+}
+
+/**
+ * 按布局排列照片顺序（与 planPackageLayout 的结果一致）
+ */
+export function orderByLayout<T extends { id: string }>(
+  photos: T[],
+  layout: Map<string, PhotoLayout>,
+): T[] {
+  const position = new Map([...layout.keys()].map((id, index) => [id, index]));
+  return [...photos].sort(
+    (a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0),
+  );
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 生成清单 CSV（带 BOM，Excel 可直接打开中文）
+ */
+export function buildManifestCsv(rows: ManifestRow[]): string {
+  const lines = [
+    ["序号", "文件名", "原始文件名", "分组", "拍摄时间", "已选", "选片访客"],
+    ...rows.map((row) => [
+      String(row.seq),
+      row.name,
+      row.originalFilename,
+      row.group ?? "",
+      row.capturedAt ?? "",
+      row.selected ? "是" : "否",
+      row.selectedBy.join("; "),
+    ]),
+  ];
+  return `\uFEFF${lines.map((line) => line.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createPhotoEventPublisher,
+  photoEventTypeForStatus,
+  photoEventsChannel,
+} from "./photo-events";
+
+describe("photoEventTypeForStatus", () => {
+  it("should treat only completed photos as inserts", () => {
+    expect(photoEventTypeForStatus("completed")).toBe("insert");
+    expect(photoEventTypeForStatus("processing")).toBe("update");
+    expect(photoEventTypeForStatus("pending_retouch")).toBe("update");
+    expect(photoEventTypeForStatus("failed")).toBe("update");
+  });
+});
+
+describe("createPhotoEventPublisher", () => {
+  it("should publish to the album channel", async () => {
+    const publish = vi.fn().mockResolvedValue(1);
+    const publishPhotoEvent = createPhotoEventPublisher({ publish });
+
+    await publishPhotoEvent("album-1", "photo-1", "insert", "completed");
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    const [channel, message] = publish.mock.calls[0];
+    expect(channel).toBe(photoEventsChannel("album-1"));
+    expect(JSON.parse(message)).toMatchObject({
+      type: "insert",
+      album_id: "album-1",
+      photo_id: "photo-1",
+      status: "completed",
+    });
+  });
+
+  it("should not throw when Redis is unavailable", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const publishPhotoEvent = createPhotoEventPublisher({
+      publish: vi.fn().mockRejectedValue(new Error("Connection is closed.")),
+    });
+
+    await expect(
+      publishPhotoEvent("album-1", "photo-1", "update", "processing"),
+    ).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
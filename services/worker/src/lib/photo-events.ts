@@ -0,0 +1,88 @@
+/**
+ * @fileoverview 照片实时事件发布
+ *
+ * @description
+ * 照片状态变化时通过 Redis pub/sub 发布事件，Web 端的 SSE 接口订阅后推送给
+ * 访客页面（直播相册）和管理后台，替代前端轮询。
+ *
+ * - 每个相册一个频道：`pis:photo-events:<albumId>`
+ * - insert：照片对访客可见（处理完成、从回收站恢复）
+ * - update：状态变化但访客不可见（processing、failed、pending_retouch）
+ * - delete：照片被删除
+ *
+ * 发布失败只记录警告，不影响照片处理流程；订阅方断线期间的事件会丢失，
+ * 由前端重连后重新拉取一次列表补齐。
+ *
+ * @module lib/photo-events
+ */
+
+/** 频道前缀 */
+export const PHOTO_EVENTS_CHANNEL_PREFIX = "pis:photo-events:";
+
+export type PhotoEventType = "insert" | "update" | "delete";
+
+/**
+ * 照片事件消息
+ */
+export interface PhotoEvent {
+  type: PhotoEventType;
+  album_id: string;
+  photo_id: string;
+  /** 事件发生后的照片状态（delete 事件为 null） */
+  status: string | null;
+  at: string;
+}
+
+/**
+ * 可发布消息的 Redis 客户端（ioredis 实例即可）
+ */
+export interface PhotoEventPublisherClient {
+  publish(channel: string, message: string): Promise<unknown>;
+}
+
+/**
+ * 获取相册的事件频道
+ */
+export function photoEventsChannel(albumId: string): string {
+  return `${PHOTO_EVENTS_CHANNEL_PREFIX}${albumId}`;
+}
+
+/**
+ * 根据照片最终状态决定事件类型
+ *
+ * @description 只有 completed 的照片对访客可见，其余状态都是 update
+ */
+export function photoEventTypeForStatus(status: string): PhotoEventType {
+  return status === "completed" ? "insert" : "update";
+}
+
+/**
+ * 创建照片事件发布函数
+ *
+ * @param client - Redis 客户端
+ * @returns 发布函数，永不抛出异常
+ */
+export function createPhotoEventPublisher(client: PhotoEventPublisherClient) {
+  return async function publishPhotoEvent(
+    albumId: string,
+    photoId: string,
+    type: PhotoEventType,
+    status: string | null,
+  ): Promise<void> {
+    const event: PhotoEvent = {
+      type,
+      album_id: albumId,
+      photo_id: photoId,
+      status,
+      at: new Date().toISOString(),
+    };
+    try {
+      await client.publish(photoEventsChannel(albumId), JSON.stringify(event));
+    } catch (err: any) {
+      console.warn(
+        `[PhotoEvents] Failed to publish ${type} for photo ${photoId}:`,
+        err?.message || err,
+      );
+    }
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest'
+import { attachToPairedPhoto, findPairedPhoto, withPairLock, type PairedPhoto } from './raw-pairing'
+
+/**
+ * 构造返回指定照片列表的数据库 mock
+ */
+function createDb(photos: PairedPhoto[]) {
+  const query = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    ilike: vi.fn().mockResolvedValue({ data: photos, error: null }),
+  }
+  const updateQuery = { eq: vi.fn().mockResolvedValue({ error: null }) }
+  const db = {
+    from: vi.fn(() => ({ ...query, update: vi.fn(() => updateQuery) })),
+  }
+  return { db, query, updateQuery }
+}
+
+const jpegPhoto: PairedPhoto = {
+  id: 'photo-1',
+  filename: 'DSC_0001.JPG',
+  original_key: 'raw/album-1/photo-1.jpg',
+  raw_key: null,
+}
+
+const rawOnlyPhoto: PairedPhoto = {
+  id: 'photo-2',
+  filename: 'DSC_0002.NEF',
+  original_key: 'raw/album-1/photo-2.nef',
+  raw_key: 'raw/album-1/photo-2.nef',
+}
+
+describe('raw-pairing', () => {
+  describe('findPairedPhoto', () => {
+    it('should pair incoming RAW with existing JPEG', async () => {
+      const { db, query } = createDb([jpegPhoto])
+
+      const paired = await findPairedPhoto(db, 'album-1', 'dsc_0001.nef')
+
+      expect(paired?.id).toBe('photo-1')
+      expect(query.ilike).toHaveBeenCalledWith('filename', 'dsc\\_0001.%')
+    })
+
+    it('should pair incoming JPEG with RAW-only photo', async () => {
+      const { db } = createDb([rawOnlyPhoto])
+      expect((await findPairedPhoto(db, 'album-1', 'DSC_0002.JPG'))?.id).toBe('photo-2')
+    })
+
+    it('should not pair files of the same kind', async () => {
+      const { db } = createDb([jpegPhoto])
+      expect(await findPairedPhoto(db, 'album-1', 'DSC_0001.jpeg')).toBeNull()
+    })
+
+    it('should skip videos without querying', async () => {
+      const { db } = createDb([])
+      expect(await findPairedPhoto(db, 'album-1', 'DSC_0001.MOV')).toBeNull()
+      expect(db.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('attachToPairedPhoto', () => {
+    it('should only record raw_key for incoming RAW', async () => {
+      const { db } = createDb([])
+      const result = await attachToPairedPhoto(db, jpegPhoto, {
+        filename: 'DSC_0001.NEF',
+        storageKey: 'raw/album-1/photo-1.nef',
+        fileSize: 100,
+        mimeType: 'image/x-nikon-nef',
+      })
+
+      expect(result.reprocess).toBe(false)
+      const update = db.from.mock.results[0].value.update
+      expect(update).toHaveBeenCalledWith({ raw_key: 'raw/album-1/photo-1.nef' })
+    })
+
+    it('should replace RAW preview with incoming JPEG', async () => {
+      const { db } = createDb([])
+      const result = await attachToPairedPhoto(db, rawOnlyPhoto, {
+        filename: 'DSC_0002.JPG',
+        storageKey: 'raw/album-1/photo-2.jpg',
+        fileSize: 100,
+        mimeType: 'image/jpeg',
+      })
+
+      expect(result.reprocess).toBe(true)
+      const update = db.from.mock.results[0].value.update
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({
+        filename: 'DSC_0002.JPG',
+        original_key: 'raw/album-1/photo-2.jpg',
+        raw_key: 'raw/album-1/photo-2.nef',
+        status: 'pending',
+      }))
+    })
+  })
+
+  describe('withPairLock', () => {
+    it('should run tasks with the same basename sequentially', async () => {
+      const order: string[] = []
+      const task = (name: string, delay: number) => async () => {
+        order.push(`${name}:start`)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        order.push(`${name}:end`)
+      }
+
+      await Promise.all([
+        withPairLock('album-1', 'DSC_0001.NEF', task('raw', 20)),
+        withPairLock('album-1', 'DSC_0001.JPG', task('jpeg', 0)),
+      ])
+
+      expect(order).toEqual(['raw:start', 'raw:end', 'jpeg:start', 'jpeg:end'])
+    })
+  })
+})
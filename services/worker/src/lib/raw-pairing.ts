@@ -0,0 +1,152 @@
+/**
+ * @fileoverview RAW+JPEG 配对
+ *
+ * @description
+ * 相机常以 RAW+JPEG 双格式拍摄（如 DSC_0001.NEF + DSC_0001.JPG）。
+ * 同一相册中基础文件名相同的 RAW 与 JPEG 合并为一张照片：
+ * - JPEG 作为 original_key 参与处理，RAW 记录在 raw_key 供客户下载
+ * - 只有 RAW 时，original_key 与 raw_key 都指向 RAW，由内嵌预览生成缩略图
+ * - RAW 先到、JPEG 后到时，JPEG 替换 original_key 并重新处理
+ *
+ * 扫描同步和 FTP 上传都会并发接入文件，配对过程需要通过 {@link withPairLock} 串行化。
+ *
+ * @module lib/raw-pairing
+ */
+import { getBasename, getMediaType, isRawFile } from "./media-types.js";
+
+/**
+ * 可配对的已有照片
+ */
+export interface PairedPhoto {
+  id: string;
+  filename: string;
+  original_key: string;
+  raw_key: string | null;
+}
+
+/**
+ * 新接入的文件
+ */
+export interface IncomingFile {
+  filename: string;
+  storageKey: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+/** 进行中的配对任务（相册 + 基础文件名 → Promise 链尾部） */
+const pairLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * 对同一相册中基础文件名相同的文件串行执行
+ *
+ * @param albumId - 相册 ID
+ * @param filename - 文件名
+ * @param fn - 需要串行执行的操作
+ */
+export async function withPairLock<T>(
+  albumId: string,
+  filename: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const key = `${albumId}/${getBasename(filename)}`;
+  const previous = pairLocks.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => {}).then(fn);
+  pairLocks.set(key, current);
+
+  try {
+    return await current;
+  } finally {
+    if (pairLocks.get(key) === current) {
+      pairLocks.delete(key);
+    }
+  }
+}
+
+/**
+ * 转义 LIKE 模式中的通配符
+ * @internal
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * 查找可与新文件配对的已有照片
+ *
+ * @description
+ * - 新文件为 RAW：匹配尚未关联 RAW 的普通图片
+ * - 新文件为 JPEG 等普通图片：匹配只有 RAW 的照片
+ * 视频不参与配对。
+ *
+ * @param db - 数据库客户端
+ * @param albumId - 相册 ID
+ * @param filename - 新文件的文件名
+ * @returns 可配对的照片；没有时返回 null
+ */
+export async function findPairedPhoto(
+  db: any,
+  albumId: string,
+  filename: string,
+): Promise<PairedPhoto | null> {
+  if (getMediaType(filename) !== "image") return null;
+
+  const basename = getBasename(filename);
+  const incomingIsRaw = isRawFile(filename);
+
+  const { data, error } = await db
+    .from("photos")
+    .select("id, filename, original_key, raw_key")
+    .eq("album_id", albumId)
+    .is("deleted_at", null)
+    .ilike("filename", `${escapeLike(basename)}.%`);
+
+  if (error) {
+    throw new Error(`Failed to query paired photo: ${error.message}`);
+  }
+
+  const candidates = ((data || []) as PairedPhoto[]).filter(
+    (photo) =>
+      getBasename(photo.filename) === basename &&
+      getMediaType(photo.filename) === "image",
+  );
+
+  return (
+    candidates.find((photo) => {
+      const existingIsRaw = isRawFile(photo.original_key);
+      return incomingIsRaw ? !existingIsRaw && !photo.raw_key : existingIsRaw;
+    }) ?? null
+  );
+}
+
+/**
+ * 将新文件合并到已配对的照片
+ *
+ * @param db - 数据库客户端
+ * @param photo - {@link findPairedPhoto} 返回的照片
+ * @param file - 已上传到存储的新文件
+ * @returns reprocess 为 true 时需要重新加入处理队列（JPEG 替换了 RAW 预览）
+ */
+export async function attachToPairedPhoto(
+  db: any,
+  photo: PairedPhoto,
+  file: IncomingFile,
+): Promise<{ reprocess: boolean }> {
+  const update = isRawFile(file.filename)
+    ? { raw_key: file.storageKey }
+    : {
+        filename: file.filename,
+        original_key: file.storageKey,
+        raw_key: photo.raw_key || photo.original_key,
+        file_size: file.fileSize,
+        mime_type: file.mimeType,
+        status: "pending",
+      };
+
+  const { error } = await db.from("photos").update(update).eq("id", photo.id);
+  if (error) {
+    throw new Error(`Failed to attach paired file: ${error.message}`);
+  }
+
+  return { reprocess: !isRawFile(file.filename) };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import sharp from 'sharp'
+import { extractRawPreview, findLargestEmbeddedJpeg, readRawExif } from './raw-preview'
+
+/**
+ * 生成带噪点的 JPEG（避免被压缩得过小）
+ */
+async function createJpeg(size: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(size * size * 3)
+  let seed = 1
+  for (let i = 0; i < pixels.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff
+    pixels[i] = seed & 0xff
+  }
+  return sharp(pixels, { raw: { width: size, height: size, channels: 3 } })
+    .jpeg({ quality: 95 })
+    .toBuffer()
+}
+
+describe('raw-preview', () => {
+  let thumbnail: Buffer
+  let preview: Buffer
+  let fakeRaw: Buffer
+
+  beforeAll(async () => {
+    thumbnail = await createJpeg(32)
+    preview = await createJpeg(400)
+    // 模拟 RAW：文件头 + 小缩略图 + 传感器数据 + 全尺寸预览
+    fakeRaw = Buffer.concat([
+      Buffer.from('FAKERAW\0'),
+      thumbnail,
+      Buffer.alloc(1024, 0xab),
+      preview,
+      Buffer.alloc(512, 0xcd),
+    ])
+  })
+
+  describe('findLargestEmbeddedJpeg', () => {
+    it('should return the largest embedded JPEG', () => {
+      const found = findLargestEmbeddedJpeg(fakeRaw)
+      expect(found).not.toBeNull()
+      expect(found!.equals(preview)).toBe(true)
+    })
+
+    it('should ignore previews that are too small', () => {
+      const onlyThumbnail = Buffer.concat([Buffer.from('FAKERAW\0'), thumbnail])
+      expect(findLargestEmbeddedJpeg(onlyThumbnail)).toBeNull()
+    })
+  })
+
+  describe('readRawExif', () => {
+    it('should return null for unknown containers', () => {
+      expect(readRawExif(fakeRaw)).toBeNull()
+    })
+  })
+
+  describe('extractRawPreview', () => {
+    it('should return a decodable preview', async () => {
+      const result = await extractRawPreview(fakeRaw)
+      const metadata = await sharp(result.previewBuffer).metadata()
+
+      expect(metadata.format).toBe('jpeg')
+      expect(metadata.width).toBe(400)
+      expect(result.exif).toBeNull()
+    })
+
+    it('should throw when no preview is embedded', async () => {
+      await expect(extractRawPreview(Buffer.alloc(2048))).rejects.toThrow('No embedded JPEG preview')
+    })
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview 相机 RAW 预览提取
+ *
+ * @description
+ * Sharp 无法直接解码 NEF / ARW / CR3，但这些文件都内嵌了相机生成的全尺寸 JPEG 预览。
+ * 本模块负责：
+ * - 在 RAW 文件中定位最大的内嵌 JPEG（即全尺寸预览）
+ * - 读取 RAW 自身的 EXIF（NEF/ARW 为 TIFF 结构，CR3 位于 CMT1/CMT2 box）
+ * - 内嵌预览缺少方向信息时，按 RAW 的 Orientation 写回，保证竖拍照片方向正确
+ *
+ * @module lib/raw-preview
+ */
+import sharp from "sharp";
+import exifReader from "exif-reader";
+
+/** JPEG SOI 标记（含下一个标记的 0xFF） */
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+/** 小于该尺寸的内嵌 JPEG 视为缩略图，不作为处理源 */
+const MIN_PREVIEW_BYTES = 64 * 1024;
+
+/**
+ * RAW 预览提取结果
+ */
+export interface RawPreview {
+  /** 用于后续处理的 JPEG 预览 */
+  previewBuffer: Buffer;
+  /** RAW 文件中解析出的 EXIF（exif-reader 格式），无法解析时为 null */
+  exif: Record<string, any> | null;
+}
+
+/**
+ * 从 SOI 开始遍历 JPEG 段，返回 EOI 之后的偏移
+ *
+ * @returns 结束偏移；不是可解码的 JPEG（如无损 JPEG 编码的 RAW 数据）时返回 -1
+ * @internal
+ */
+function findJpegEnd(buffer: Buffer, start: number): number {
+  let offset = start + 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return -1;
+    const marker = buffer[offset + 1];
+
+    if (marker === 0xff) {
+      offset++; // 填充字节
+      continue;
+    }
+    if (marker === 0xd9) return offset + 2; // EOI
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    // SOF3（无损 JPEG）常用于 RAW 数据本身，Sharp 无法解码
+    if (marker === 0xc3) return -1;
+
+    const length = buffer.readUInt16BE(offset + 2);
+    if (length < 2) return -1;
+    offset += 2 + length;
+
+    if (marker === 0xda) {
+      // 熵编码数据：跳过 0xFF00 和 RST 标记，直到遇到下一个真正的标记
+      while (offset + 1 < buffer.length) {
+        if (buffer[offset] === 0xff) {
+          const next = buffer[offset + 1];
+          if (next === 0xff) {
+            offset++;
+            continue;
+          }
+          if (next === 0x00 || (next >= 0xd0 && next <= 0xd7)) {
+            offset += 2;
+            continue;
+          }
+          break;
+        }
+        offset++;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * 查找 RAW 文件中最大的内嵌 JPEG
+ *
+ * @param buffer - RAW 文件
+ * @returns 内嵌 JPEG（与原 Buffer 共享内存）；没有足够大的预览时返回 null
+ */
+export function findLargestEmbeddedJpeg(buffer: Buffer): Buffer | null {
+  let bestStart = -1;
+  let bestEnd = -1;
+  let pos = buffer.indexOf(JPEG_SOI);
+
+  while (pos !== -1) {
+    const end = findJpegEnd(buffer, pos);
+    if (end !== -1) {
+      if (end - pos > bestEnd - bestStart) {
+        bestStart = pos;
+        bestEnd = end;
+      }
+      pos = buffer.indexOf(JPEG_SOI, end);
+    } else {
+      pos = buffer.indexOf(JPEG_SOI, pos + JPEG_SOI.length);
+    }
+  }
+
+  if (bestStart === -1 || bestEnd - bestStart < MIN_PREVIEW_BYTES) {
+    return null;
+  }
+  return buffer.subarray(bestStart, bestEnd);
+}
+
+/**
+ * 读取 ISOBMFF box 的内容（CR3 的 CMT1/CMT2 为 TIFF 结构）
+ * @internal
+ */
+function findBoxPayload(buffer: Buffer, type: string): Buffer | null {
+  const pos = buffer.indexOf(type, 4, "ascii");
+  if (pos === -1) return null;
+  const size = buffer.readUInt32BE(pos - 4);
+  if (size <= 8 || pos - 4 + size > buffer.length) return null;
+  return buffer.subarray(pos + 4, pos - 4 + size);
+}
+
+/**
+ * 读取 RAW 文件的 EXIF
+ *
+ * @param buffer - RAW 文件
+ * @returns exif-reader 格式的 EXIF；无法解析时返回 null
+ */
+export function readRawExif(buffer: Buffer): Record<string, any> | null {
+  try {
+    const header = buffer.toString("ascii", 0, 4);
+    // NEF / ARW：文件本身就是 TIFF
+    if (header === "II*\0" || header === "MM\0*") {
+      return exifReader(buffer) as Record<string, any>;
+    }
+
+    // CR3：CMT1 为 IFD0，CMT2 为 Exif IFD（作为独立 TIFF 存储）
+    if (buffer.toString("ascii", 4, 12) === "ftypcrx ") {
+      const cmt1 = findBoxPayload(buffer, "CMT1");
+      if (!cmt1) return null;
+      const exif = exifReader(cmt1) as Record<string, any>;
+      const cmt2 = findBoxPayload(buffer, "CMT2");
+      if (cmt2) {
+        exif.Photo = (exifReader(cmt2) as Record<string, any>).Image;
+      }
+      return exif;
+    }
+  } catch (err) {
+    console.warn("[RAW] Failed to parse EXIF:", err);
+  }
+  return null;
+}
+
+/**
+ * 从 RAW 文件提取用于处理的 JPEG 预览和 EXIF
+ *
+ * @param buffer - RAW 文件
+ * @throws 找不到内嵌预览时抛出错误
+ */
+export async function extractRawPreview(buffer: Buffer): Promise<RawPreview> {
+  const embedded = findLargestEmbeddedJpeg(buffer);
+  if (!embedded) {
+    throw new Error("No embedded JPEG preview found in RAW file");
+  }
+
+  // 复制一份，避免预览引用整个 RAW Buffer 导致内存无法释放
+  let previewBuffer: Buffer = Buffer.from(embedded);
+  const exif = readRawExif(buffer);
+
+  const orientation = Number(exif?.Image?.Orientation);
+  if (orientation > 1 && orientation <= 8) {
+    const metadata = await sharp(previewBuffer).metadata();
+    if (!metadata.orientation) {
+      previewBuffer = await sharp(previewBuffer)
+        .withMetadata({ orientation })
+        .jpeg({ quality: 95 })
+        .toBuffer();
+    }
+  }
+
+  return { previewBuffer, exif };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { classifyStorageKey, summarizeStorageObjects } from "./storage-usage";
+
+describe("classifyStorageKey", () => {
+  it("should map known prefixes to categories and albums", () => {
+    expect(classifyStorageKey("raw/a1/p1.jpg", "archive/")).toEqual({
+      category: "originals",
+      albumId: "a1",
+    });
+    expect(classifyStorageKey("retouched/a1/p1_1700000000000.jpg", "archive/")).toEqual({
+      category: "originals",
+      albumId: "a1",
+    });
+    expect(classifyStorageKey("processed/thumbs/a1/p1.jpg", "archive/")).toEqual({
+      category: "thumbs",
+      albumId: "a1",
+    });
+    expect(
+      classifyStorageKey("processed/derivatives/a1/p1/800.webp", "archive/"),
+    ).toEqual({ category: "previews", albumId: "a1" });
+    expect(classifyStorageKey("packages/a1/k1.zip", "archive/")).toEqual({
+      category: "packages",
+      albumId: "a1",
+    });
+  });
+
+  it("should resolve the album of archived files", () => {
+    expect(classifyStorageKey("archive/raw/a1/p1.jpg", "archive/")).toEqual({
+      category: "archive",
+      albumId: "a1",
+    });
+  });
+
+  it("should put unknown paths under other", () => {
+    expect(classifyStorageKey("branding/logo-1.png", "archive/")).toEqual({
+      category: "other",
+      albumId: null,
+    });
+    expect(classifyStorageKey("raw/stray.jpg", "archive/")).toEqual({
+      category: "originals",
+      albumId: null,
+    });
+  });
+});
+
+describe("summarizeStorageObjects", () => {
+  it("should total bytes by category and album", () => {
+    const summary = summarizeStorageObjects(
+      [
+        { key: "raw/a1/p1.jpg", size: 1000 },
+        { key: "processed/thumbs/a1/p1.jpg", size: 10 },
+        { key: "processed/previews/a1/p1.jpg", size: 100 },
+        { key: "archive/raw/a2/p2.jpg", size: 2000 },
+        { key: "branding/logo.png", size: 5 },
+      ],
+      "archive/",
+    );
+
+    expect(summary.totalBytes).toBe(3115);
+    expect(summary.totalObjects).toBe(5);
+    expect(summary.categories.originals).toEqual({ bytes: 1000, count: 1 });
+    expect(summary.categories.archive).toEqual({ bytes: 2000, count: 1 });
+    expect(summary.categories.other).toEqual({ bytes: 5, count: 1 });
+    expect(summary.categories.packages).toEqual({ bytes: 0, count: 0 });
+    expect(summary.albums).toEqual({
+      a1: { bytes: 1110, count: 3 },
+      a2: { bytes: 2000, count: 1 },
+    });
+  });
+});
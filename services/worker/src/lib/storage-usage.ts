@@ -0,0 +1,107 @@
+/**
+ * 实例存储用量统计
+ *
+ * 遍历存储桶中的全部对象（StorageAdapter.listObjects），按路径前缀归类并按相册汇总，
+ * 用于管理后台的磁盘用量页面，与数据库中记录的用量对照可以发现孤立文件。
+ */
+
+/**
+ * 存储分类：原图 / 缩略图 / 预览图（含视频预览和衍生图）/ 打包下载 / 归档 / 其他
+ */
+export const STORAGE_USAGE_CATEGORIES = [
+  "originals",
+  "thumbs",
+  "previews",
+  "packages",
+  "archive",
+  "other",
+] as const;
+
+export type StorageUsageCategory = (typeof STORAGE_USAGE_CATEGORIES)[number];
+
+/**
+ * 路径前缀与分类的对应关系，前缀后的第一级目录为相册 ID
+ */
+const CATEGORY_PREFIXES: Array<[string, StorageUsageCategory]> = [
+  ["raw/", "originals"],
+  ["retouched/", "originals"],
+  ["processed/thumbs/", "thumbs"],
+  ["processed/previews/", "previews"],
+  ["processed/videos/", "previews"],
+  ["processed/derivatives/", "previews"],
+  ["packages/", "packages"],
+];
+
+export interface StorageUsageBucket {
+  bytes: number;
+  count: number;
+}
+
+export interface StorageUsageSummary {
+  totalBytes: number;
+  totalObjects: number;
+  categories: Record<StorageUsageCategory, StorageUsageBucket>;
+  /** 相册 ID → 该相册下全部文件（含归档）的用量 */
+  albums: Record<string, StorageUsageBucket>;
+}
+
+/**
+ * 解析对象路径所属的分类和相册
+ *
+ * @param archivePrefix - 归档前缀（如 "archive/"），归档文件按原路径解析相册
+ */
+export function classifyStorageKey(
+  key: string,
+  archivePrefix: string,
+): { category: StorageUsageCategory; albumId: string | null } {
+  if (archivePrefix && key.startsWith(archivePrefix)) {
+    const { albumId } = classifyStorageKey(key.slice(archivePrefix.length), "");
+    return { category: "archive", albumId };
+  }
+
+  for (const [prefix, category] of CATEGORY_PREFIXES) {
+    if (key.startsWith(prefix)) {
+      const segments = key.slice(prefix.length).split("/");
+      // 至少包含相册目录和文件名
+      const albumId = segments.length > 1 && segments[0] ? segments[0] : null;
+      return { category, albumId };
+    }
+  }
+
+  return { category: "other", albumId: null };
+}
+
+/**
+ * 汇总对象列表的存储用量
+ */
+export function summarizeStorageObjects(
+  objects: Array<{ key: string; size: number }>,
+  archivePrefix: string,
+): StorageUsageSummary {
+  const summary: StorageUsageSummary = {
+    totalBytes: 0,
+    totalObjects: 0,
+    categories: Object.fromEntries(
+      STORAGE_USAGE_CATEGORIES.map((category) => [category, { bytes: 0, count: 0 }]),
+    ) as Record<StorageUsageCategory, StorageUsageBucket>,
+    albums: {},
+  };
+
+  for (const object of objects) {
+    const size = Number.isFinite(object.size) ? object.size : 0;
+    const { category, albumId } = classifyStorageKey(object.key, archivePrefix);
+
+    summary.totalBytes += size;
+    summary.totalObjects += 1;
+    summary.categories[category].bytes += size;
+    summary.categories[category].count += 1;
+
+    if (albumId) {
+      const album = (summary.albums[albumId] ??= { bytes: 0, count: 0 });
+      album.bytes += size;
+      album.count += 1;
+    }
+  }
+
+  return summary;
+}
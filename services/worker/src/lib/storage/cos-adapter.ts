@@ -85,13 +85,16 @@ export class COSAdapter implements StorageAdapter {
     return this.toPublicUrl(url);
   }
 
-  async initMultipartUpload(key: string): Promise<string> {
+  async initMultipartUpload(
+    key: string,
+    metadata: Record<string, string> = {}
+  ): Promise<string> {
     const client = this.client as any;
     return new Promise((resolve, reject) => {
       client.initiateNewMultipartUpload(
         this.bucket,
         key,
-        {},
+        metadata,
         (err: Error, uploadId: string) => {
           if (err) reject(err);
           else resolve(uploadId);
@@ -15,6 +15,7 @@ import {
   deleteFile,
   getMinioClient,
   bucketName,
+  LocalFsAdapter,
 } from './index.js'
 
 // Mock adapters
@@ -119,6 +120,17 @@ describe('storage/index', () => {
       expect(adapter).toBeDefined()
     })
 
+    it('should create local filesystem adapter', () => {
+      const adapter = createStorageAdapter({
+        type: 'local',
+        accessKey: '',
+        secretKey: '',
+        bucket: 'test-bucket',
+        customConfig: { rootDir: '/tmp/pis-storage', signingSecret: 'secret' },
+      })
+      expect(adapter).toBeInstanceOf(LocalFsAdapter)
+    })
+
     it('should throw error for unsupported type', () => {
       expect(() => {
         createStorageAdapter({
@@ -171,9 +183,11 @@ describe('storage/index', () => {
 
   describe('initMultipartUpload', () => {
     it('should init multipart upload', async () => {
-      const uploadId = await initMultipartUpload('test-key')
+      const uploadId = await initMultipartUpload('test-key', { 'Content-Type': 'application/zip' })
       expect(uploadId).toBe('upload-id')
-      expect(mockAdapterInstance.initMultipartUpload).toHaveBeenCalledWith('test-key')
+      expect(mockAdapterInstance.initMultipartUpload).toHaveBeenCalledWith('test-key', {
+        'Content-Type': 'application/zip',
+      })
     })
   })
 
@@ -2,7 +2,7 @@
  * @fileoverview 存储抽象层工厂
  *
  * 根据配置自动选择并创建存储适配器实例。
- * 支持 MinIO、阿里云 OSS、腾讯云 COS、AWS S3 等多种存储后端。
+ * 支持 MinIO、阿里云 OSS、腾讯云 COS、AWS S3 等多种存储后端，以及本地文件系统。
  *
  * @module lib/storage/index
  *
@@ -30,6 +30,7 @@ import type { StorageAdapter, StorageConfig } from './types.js'
 import { MinIOAdapter } from './minio-adapter.js'
 import { OSSAdapter } from './oss-adapter.js'
 import { COSAdapter } from './cos-adapter.js'
+import { LocalFsAdapter } from './local-adapter.js'
 
 let storageAdapter: StorageAdapter | null = null
 
@@ -46,6 +47,8 @@ let storageAdapter: StorageAdapter | null = null
  * - STORAGE_SECRET_KEY / MINIO_SECRET_KEY: 密钥
  * - STORAGE_BUCKET / MINIO_BUCKET: 存储桶名称
  * - STORAGE_PUBLIC_URL / MINIO_PUBLIC_URL: 公共访问 URL
+ * - STORAGE_LOCAL_ROOT: 本地存储根目录（STORAGE_TYPE=local，默认 ./data/storage）
+ * - STORAGE_LOCAL_SIGNING_SECRET / WORKER_API_KEY: 本地存储预签名 URL 的签名密钥
  *
  * @returns {StorageConfig} 存储配置对象
  *
@@ -86,6 +89,9 @@ function getStorageConfigFromEnv(): StorageConfig {
       // 如果没有配置，才使用 STORAGE_PUBLIC_URL（用于读取文件，通过代理）
       publicUrl:
         process.env.MINIO_PUBLIC_URL || process.env.STORAGE_PUBLIC_URL,
+      rootDir: process.env.STORAGE_LOCAL_ROOT,
+      signingSecret:
+        process.env.STORAGE_LOCAL_SIGNING_SECRET || process.env.WORKER_API_KEY,
     },
   }
 }
@@ -134,6 +140,8 @@ export function createStorageAdapter(config?: StorageConfig): StorageAdapter {
           finalConfig.endpoint ||
           `s3.${finalConfig.region || 'us-east-1'}.amazonaws.com`,
       })
+    case 'local':
+      return new LocalFsAdapter(finalConfig)
     default:
       throw new Error(`Unsupported storage type: ${finalConfig.type}`)
   }
@@ -256,10 +264,14 @@ export async function getPresignedGetUrl(
  * 初始化分片上传
  *
  * @param {string} key - 文件键值
+ * @param {Record<string, string>} [metadata] - 完成后对象的元数据
  * @returns {Promise<string>} 上传 ID
  */
-export async function initMultipartUpload(key: string): Promise<string> {
-  return getStorageAdapter().initMultipartUpload(key)
+export async function initMultipartUpload(
+  key: string,
+  metadata?: Record<string, string>
+): Promise<string> {
+  return getStorageAdapter().initMultipartUpload(key, metadata)
 }
 
 /**
@@ -375,6 +387,7 @@ export * from './types.js'
 export { MinIOAdapter } from './minio-adapter.js'
 export { OSSAdapter } from './oss-adapter.js'
 export { COSAdapter } from './cos-adapter.js'
+export { LocalFsAdapter } from './local-adapter.js'
 
 // ============================================
 // 兼容旧 API
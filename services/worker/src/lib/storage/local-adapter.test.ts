@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, readdir } from 'fs/promises'
+import { createHash } from 'crypto'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { LocalFsAdapter } from './local-adapter.js'
+
+const md5 = (data: string) => createHash('md5').update(data).digest('hex')
+
+describe('LocalFsAdapter', () => {
+  let rootDir: string
+  let adapter: LocalFsAdapter
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), 'pis-local-storage-'))
+    adapter = new LocalFsAdapter({
+      type: 'local',
+      accessKey: '',
+      secretKey: '',
+      bucket: 'pis-photos',
+      customConfig: { rootDir, signingSecret: 'test-secret', publicUrl: 'http://localhost:8088/media/' },
+    })
+    await adapter.ensureBucket()
+  })
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('should store objects under the bucket directory', async () => {
+    const result = await adapter.upload('raw/album-1/photo.jpg', Buffer.from('hello'))
+
+    expect(result.etag).toBe(md5('hello'))
+    expect(await adapter.exists('raw/album-1/photo.jpg')).toBe(true)
+    expect((await adapter.download('raw/album-1/photo.jpg')).toString()).toBe('hello')
+    expect(await readdir(path.join(rootDir, 'pis-photos', 'raw', 'album-1'))).toEqual(['photo.jpg'])
+  })
+
+  it('should report missing objects with the NoSuchKey code', async () => {
+    await expect(adapter.download('raw/missing.jpg')).rejects.toMatchObject({ code: 'NoSuchKey' })
+    expect(await adapter.exists('raw/missing.jpg')).toBe(false)
+  })
+
+  it('should reject keys that escape the storage directory', async () => {
+    for (const key of ['../secret.txt', 'raw/../../secret.txt', '/etc/passwd', 'raw//photo.jpg', '']) {
+      await expect(adapter.upload(key, Buffer.from('x'))).rejects.toThrow('Invalid object key')
+    }
+  })
+
+  it('should list, copy and delete objects by prefix', async () => {
+    await adapter.upload('raw/a1/1.jpg', Buffer.from('1'))
+    await adapter.upload('raw/a1/2.jpg', Buffer.from('22'))
+    await adapter.upload('raw/a2/3.jpg', Buffer.from('333'))
+    await adapter.copy('raw/a1/1.jpg', 'processed/thumbs/a1/1.jpg')
+
+    const listed = await adapter.listObjects('raw/a1')
+    expect(listed.map((object) => [object.key, object.size]).sort()).toEqual([
+      ['raw/a1/1.jpg', 1],
+      ['raw/a1/2.jpg', 2],
+    ])
+    expect((await adapter.listObjects('')).map((object) => object.key).sort()).toEqual([
+      'processed/thumbs/a1/1.jpg',
+      'raw/a1/1.jpg',
+      'raw/a1/2.jpg',
+      'raw/a2/3.jpg',
+    ])
+
+    await adapter.delete('raw/a2/3.jpg')
+    await adapter.delete('raw/a2/3.jpg')
+    // 删除最后一个文件后清理空目录
+    expect(await readdir(path.join(rootDir, 'pis-photos', 'raw'))).toEqual(['a1'])
+  })
+
+  it('should sign URLs that verify only for the same method, key and part', async () => {
+    const url = new URL(await adapter.getPresignedPutUrl('raw/a1/photo.jpg', 60))
+
+    expect(url.pathname).toBe('/media/raw/a1/photo.jpg')
+    expect(adapter.verifySignedUrl('PUT', 'raw/a1/photo.jpg', url.searchParams)).toEqual({
+      key: 'raw/a1/photo.jpg',
+      uploadId: undefined,
+      partNumber: undefined,
+    })
+    expect(adapter.verifySignedUrl('GET', 'raw/a1/photo.jpg', url.searchParams)).toBeNull()
+    expect(adapter.verifySignedUrl('PUT', 'raw/a1/other.jpg', url.searchParams)).toBeNull()
+
+    const expired = new URL(await adapter.getPresignedGetUrl('raw/a1/photo.jpg', -1))
+    expect(adapter.verifySignedUrl('GET', 'raw/a1/photo.jpg', expired.searchParams)).toBeNull()
+  })
+
+  it('should assemble multipart uploads in part order', async () => {
+    const uploadId = await adapter.initMultipartUpload('raw/a1/video.mp4')
+    const second = await adapter.uploadPart('raw/a1/video.mp4', uploadId, 2, Buffer.from('world'))
+    const partUrl = new URL(await adapter.getPresignedPartUrl('raw/a1/video.mp4', uploadId, 1))
+    const target = adapter.verifySignedUrl('PUT', 'raw/a1/video.mp4', partUrl.searchParams)
+    expect(target).toEqual({ key: 'raw/a1/video.mp4', uploadId, partNumber: 1 })
+    const first = await adapter.writePartStream('raw/a1/video.mp4', uploadId, 1, Readable.from([Buffer.from('hello ')]))
+
+    await adapter.completeMultipartUpload('raw/a1/video.mp4', uploadId, [
+      { partNumber: 2, etag: `"${second.etag}"` },
+      { partNumber: 1, etag: first.etag },
+    ])
+
+    expect((await adapter.download('raw/a1/video.mp4')).toString()).toBe('hello world')
+    expect(await readdir(path.join(rootDir, '.multipart'))).toEqual([])
+  })
+
+  it('should refuse to complete uploads with mismatched ETags', async () => {
+    const uploadId = await adapter.initMultipartUpload('raw/a1/video.mp4')
+    await adapter.uploadPart('raw/a1/video.mp4', uploadId, 1, Buffer.from('data'))
+
+    await expect(
+      adapter.completeMultipartUpload('raw/a1/video.mp4', uploadId, [{ partNumber: 1, etag: md5('other') }])
+    ).rejects.toThrow('ETag mismatch')
+    expect(await adapter.exists('raw/a1/video.mp4')).toBe(false)
+
+    await adapter.abortMultipartUpload('raw/a1/video.mp4', uploadId)
+    await expect(adapter.uploadPart('raw/a1/video.mp4', uploadId, 2, Buffer.from('x'))).rejects.toThrow(
+      'Multipart upload not found'
+    )
+  })
+
+  it('should stop streaming writes that exceed the size limit', async () => {
+    await expect(
+      adapter.writeObjectStream('raw/a1/big.jpg', Readable.from([Buffer.alloc(8), Buffer.alloc(8)]), 10)
+    ).rejects.toThrow('too large')
+    expect(await adapter.exists('raw/a1/big.jpg')).toBe(false)
+    expect(await readdir(path.join(rootDir, '.tmp'))).toEqual([])
+  })
+})
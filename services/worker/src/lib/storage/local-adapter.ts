@@ -0,0 +1,501 @@
+/**
+ * 本地文件系统存储适配器
+ *
+ * 对象保存为 {rootDir}/{bucket}/{key} 文件，适合 NAS 等单机部署，无需 MinIO。
+ * 预签名 URL 用 HMAC 签名模拟，由 Worker HTTP 服务的 /media/* 校验签名后读写文件（见 local-server.ts）。
+ * 分片上传的分片暂存在 {rootDir}/.multipart/{uploadId}/，完成时按顺序合并。
+ */
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs, type ReadStream } from 'fs';
+import path from 'path';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StorageAdapter, StorageConfig, UploadResult, StorageObject } from './types.js';
+
+/** 签名 URL 查询参数 */
+export const LOCAL_SIGNATURE_PARAMS = {
+  expires: 'X-Pis-Expires',
+  signature: 'X-Pis-Signature',
+  uploadId: 'uploadId',
+  partNumber: 'partNumber',
+} as const;
+
+/** 签名允许的操作：GET 同时用于 HEAD */
+export type LocalSignedMethod = 'GET' | 'PUT';
+
+/** 签名校验通过后的请求目标，uploadId 存在时表示上传分片 */
+export interface LocalSignedTarget {
+  key: string;
+  uploadId?: string;
+  partNumber?: number;
+}
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const MAX_PART_NUMBER = 10000;
+
+/**
+ * 构造与 MinIO 一致的 NoSuchKey 错误，照片处理流程据此识别文件不存在
+ */
+function noSuchKeyError(key: string): Error {
+  return Object.assign(new Error(`NoSuchKey: ${key}`), { code: 'NoSuchKey' });
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * 统计写入字节数并计算 MD5，超过上限时中断
+ */
+function createHashingLimiter(maxBytes: number | undefined) {
+  const hash = createHash('md5');
+  let size = 0;
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (maxBytes !== undefined && size > maxBytes) {
+        callback(new Error(`File too large (max: ${maxBytes} bytes)`));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  return {
+    transform,
+    digest: () => ({ etag: hash.digest('hex'), size }),
+  };
+}
+
+export class LocalFsAdapter implements StorageAdapter {
+  private rootDir: string;
+  private bucketDir: string;
+  private tmpDir: string;
+  private multipartDir: string;
+  private publicUrl: string;
+  private signingSecret: string;
+
+  constructor(config: StorageConfig) {
+    const rootDir = config.customConfig?.rootDir;
+    this.rootDir = path.resolve(typeof rootDir === 'string' && rootDir ? rootDir : './data/storage');
+    this.bucketDir = path.join(this.rootDir, config.bucket);
+    // 临时文件与对象在同一文件系统，写完后 rename 保证原子性
+    this.tmpDir = path.join(this.rootDir, '.tmp');
+    this.multipartDir = path.join(this.rootDir, '.multipart');
+    this.publicUrl = (config.customConfig?.publicUrl || '/media').replace(/\/+$/, '');
+
+    const signingSecret = config.customConfig?.signingSecret;
+    if (typeof signingSecret === 'string' && signingSecret) {
+      this.signingSecret = signingSecret;
+    } else {
+      // 未配置密钥时使用进程内随机密钥，Worker 重启后已签发的 URL 失效
+      console.warn('[LocalFs] No signing secret configured, presigned URLs will not survive a restart');
+      this.signingSecret = randomBytes(32).toString('hex');
+    }
+  }
+
+  async ensureBucket(): Promise<void> {
+    await fs.mkdir(this.bucketDir, { recursive: true });
+    await fs.mkdir(this.tmpDir, { recursive: true });
+    await fs.mkdir(this.multipartDir, { recursive: true });
+  }
+
+  async download(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (err) {
+      if (isNotFound(err)) throw noSuchKeyError(key);
+      throw err;
+    }
+  }
+
+  async upload(
+    key: string,
+    buffer: Buffer,
+    _metadata: Record<string, string> = {}
+  ): Promise<UploadResult> {
+    // 元数据不落盘，Content-Type 读取时按扩展名推断
+    const { etag } = await this.writeAtomic(this.resolveKey(key), buffer);
+    return { etag, versionId: null };
+  }
+
+  async getPresignedPutUrl(key: string, expirySeconds = 3600): Promise<string> {
+    return this.signUrl('PUT', key, expirySeconds);
+  }
+
+  async getPresignedGetUrl(key: string, expirySeconds = 3600): Promise<string> {
+    return this.signUrl('GET', key, expirySeconds);
+  }
+
+  async initMultipartUpload(
+    key: string,
+    _metadata: Record<string, string> = {}
+  ): Promise<string> {
+    this.resolveKey(key);
+    const uploadId = randomUUID();
+    const uploadDir = path.join(this.multipartDir, uploadId);
+    await fs.mkdir(uploadDir, { recursive: true });
+    await fs.writeFile(
+      path.join(uploadDir, 'upload.json'),
+      JSON.stringify({ key, createdAt: new Date().toISOString() })
+    );
+    return uploadId;
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    buffer: Buffer
+  ): Promise<{ etag: string }> {
+    const uploadDir = await this.getUploadDir(key, uploadId);
+    const { etag } = await this.writeAtomic(this.partPath(uploadDir, partNumber), buffer);
+    return { etag };
+  }
+
+  async getPresignedPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expirySeconds = 3600
+  ): Promise<string> {
+    await this.getUploadDir(key, uploadId);
+    this.partPath('', partNumber);
+    return this.signUrl('PUT', key, expirySeconds, { uploadId, partNumber });
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: Array<{ partNumber: number; etag: string }>
+  ): Promise<void> {
+    const uploadDir = await this.getUploadDir(key, uploadId);
+    if (parts.length === 0) {
+      throw new Error('Failed to complete multipart upload: no parts');
+    }
+
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const tmpPath = await this.createTmpPath();
+    const output = await fs.open(tmpPath, 'w');
+
+    try {
+      for (const part of sorted) {
+        const partFile = this.partPath(uploadDir, part.partNumber);
+        const hash = createHash('md5');
+        try {
+          for await (const chunk of createReadStream(partFile)) {
+            hash.update(chunk);
+            await output.write(chunk);
+          }
+        } catch (err) {
+          if (isNotFound(err)) {
+            throw new Error(`Failed to complete multipart upload: part ${part.partNumber} not found`);
+          }
+          throw err;
+        }
+        if (hash.digest('hex') !== part.etag.replace(/"/g, '')) {
+          throw new Error(`Failed to complete multipart upload: ETag mismatch for part ${part.partNumber}`);
+        }
+      }
+      await output.close();
+
+      const destination = this.resolveKey(key);
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.rename(tmpPath, destination);
+    } catch (err) {
+      await output.close().catch(() => undefined);
+      await fs.rm(tmpPath, { force: true });
+      throw err;
+    }
+
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  }
+
+  async abortMultipartUpload(_key: string, uploadId: string): Promise<void> {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      throw new Error('Failed to abort multipart upload: invalid upload ID');
+    }
+    await fs.rm(path.join(this.multipartDir, uploadId), { recursive: true, force: true });
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    try {
+      await fs.unlink(filePath);
+    } catch (err) {
+      if (isNotFound(err)) return;
+      throw err;
+    }
+    await this.pruneEmptyDirs(path.dirname(filePath));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async listObjects(prefix: string): Promise<StorageObject[]> {
+    // 从前缀所在目录开始遍历，避免每次扫描整个存储目录
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    const startDir = prefixDir ? path.dirname(this.resolveKey(`${prefixDir}/_`)) : this.bucketDir;
+    const objects: StorageObject[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (err) {
+        if (isNotFound(err)) return;
+        throw err;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+          continue;
+        }
+        if (!entry.isFile()) continue;
+
+        const key = path.relative(this.bucketDir, fullPath).split(path.sep).join('/');
+        if (!key.startsWith(prefix)) continue;
+
+        const stat = await fs.stat(fullPath);
+        objects.push({
+          key,
+          size: stat.size,
+          lastModified: stat.mtime,
+          // 不读取文件内容计算 MD5，用大小和修改时间标识版本
+          etag: `${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}`,
+        });
+      }
+    };
+
+    await walk(startDir);
+    return objects;
+  }
+
+  async copy(srcKey: string, destKey: string): Promise<void> {
+    const source = this.resolveKey(srcKey);
+    const destination = this.resolveKey(destKey);
+    const tmpPath = await this.createTmpPath();
+    try {
+      await fs.copyFile(source, tmpPath);
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.rename(tmpPath, destination);
+    } catch (err) {
+      await fs.rm(tmpPath, { force: true });
+      if (isNotFound(err)) throw noSuchKeyError(srcKey);
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      throw new Error(`Failed to copy object: ${errorMessage}`);
+    }
+  }
+
+  // ============================================
+  // Worker /media/* 使用的流式读写
+  // ============================================
+
+  /**
+   * 获取文件信息，不存在时返回 null
+   */
+  async stat(key: string): Promise<{ size: number; lastModified: Date } | null> {
+    try {
+      const stat = await fs.stat(this.resolveKey(key));
+      return stat.isFile() ? { size: stat.size, lastModified: stat.mtime } : null;
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  /**
+   * 读取文件（可指定字节范围，end 包含在内）
+   */
+  createObjectReadStream(key: string, range?: { start: number; end: number }): ReadStream {
+    return createReadStream(this.resolveKey(key), range);
+  }
+
+  /**
+   * 将请求体流式写入对象，避免大文件整体读入内存
+   */
+  async writeObjectStream(key: string, body: Readable, maxBytes?: number): Promise<{ etag: string }> {
+    const { etag } = await this.writeAtomic(this.resolveKey(key), body, maxBytes);
+    return { etag };
+  }
+
+  /**
+   * 将请求体流式写入分片
+   */
+  async writePartStream(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    maxBytes?: number
+  ): Promise<{ etag: string }> {
+    const uploadDir = await this.getUploadDir(key, uploadId);
+    const { etag } = await this.writeAtomic(this.partPath(uploadDir, partNumber), body, maxBytes);
+    return { etag };
+  }
+
+  /**
+   * 校验签名 URL
+   *
+   * @param method - 请求方法（HEAD 按 GET 校验）
+   * @param key - 从路径解析出的对象键
+   * @param params - URL 查询参数
+   * @returns 签名有效且未过期时返回请求目标，否则返回 null
+   */
+  verifySignedUrl(method: LocalSignedMethod, key: string, params: URLSearchParams): LocalSignedTarget | null {
+    const expires = Number(params.get(LOCAL_SIGNATURE_PARAMS.expires));
+    const signature = params.get(LOCAL_SIGNATURE_PARAMS.signature) || '';
+    if (!Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    const uploadId = params.get(LOCAL_SIGNATURE_PARAMS.uploadId) || undefined;
+    const partNumberParam = params.get(LOCAL_SIGNATURE_PARAMS.partNumber);
+    const partNumber = partNumberParam ? Number(partNumberParam) : undefined;
+
+    const expected = Buffer.from(this.sign(method, key, expires, uploadId, partNumber), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    return { key, uploadId, partNumber };
+  }
+
+  // ============================================
+  // 内部工具
+  // ============================================
+
+  private sign(
+    method: LocalSignedMethod,
+    key: string,
+    expires: number,
+    uploadId?: string,
+    partNumber?: number
+  ): string {
+    return createHmac('sha256', this.signingSecret)
+      .update([method, key, expires, uploadId ?? '', partNumber ?? ''].join('\n'))
+      .digest('hex');
+  }
+
+  private signUrl(
+    method: LocalSignedMethod,
+    key: string,
+    expirySeconds: number,
+    part?: { uploadId: string; partNumber: number }
+  ): string {
+    this.resolveKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expirySeconds;
+    const params = new URLSearchParams();
+    if (part) {
+      params.set(LOCAL_SIGNATURE_PARAMS.uploadId, part.uploadId);
+      params.set(LOCAL_SIGNATURE_PARAMS.partNumber, String(part.partNumber));
+    }
+    params.set(LOCAL_SIGNATURE_PARAMS.expires, String(expires));
+    params.set(
+      LOCAL_SIGNATURE_PARAMS.signature,
+      this.sign(method, key, expires, part?.uploadId, part?.partNumber)
+    );
+
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.publicUrl}/${encodedKey}?${params.toString()}`;
+  }
+
+  /**
+   * 将对象键转换为文件路径，拒绝绝对路径和 .. 等越出存储目录的键
+   */
+  private resolveKey(key: string): string {
+    const segments = key.split('/');
+    if (
+      !key ||
+      key.includes('\0') ||
+      key.includes('\\') ||
+      segments.some((segment) => segment === '' || segment === '.' || segment === '..')
+    ) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+
+    const filePath = path.join(this.bucketDir, ...segments);
+    if (!filePath.startsWith(this.bucketDir + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private async getUploadDir(key: string, uploadId: string): Promise<string> {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      throw new Error('Multipart upload not found');
+    }
+
+    const uploadDir = path.join(this.multipartDir, uploadId);
+    try {
+      const info = JSON.parse(await fs.readFile(path.join(uploadDir, 'upload.json'), 'utf8'));
+      if (info.key !== key) {
+        throw new Error('Multipart upload key mismatch');
+      }
+    } catch (err) {
+      if (isNotFound(err)) throw new Error('Multipart upload not found');
+      throw err;
+    }
+    return uploadDir;
+  }
+
+  private partPath(uploadDir: string, partNumber: number): string {
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+      throw new Error(`Invalid part number: ${partNumber}`);
+    }
+    return path.join(uploadDir, `part-${partNumber}`);
+  }
+
+  private async createTmpPath(): Promise<string> {
+    await fs.mkdir(this.tmpDir, { recursive: true });
+    return path.join(this.tmpDir, randomUUID());
+  }
+
+  /**
+   * 先写临时文件再 rename，读取方不会看到写了一半的文件
+   */
+  private async writeAtomic(
+    destination: string,
+    source: Buffer | Readable,
+    maxBytes?: number
+  ): Promise<{ etag: string; size: number }> {
+    const tmpPath = await this.createTmpPath();
+    try {
+      let result: { etag: string; size: number };
+      if (Buffer.isBuffer(source)) {
+        await fs.writeFile(tmpPath, source);
+        result = { etag: createHash('md5').update(source).digest('hex'), size: source.length };
+      } else {
+        const hasher = createHashingLimiter(maxBytes);
+        await pipeline(source, hasher.transform, createWriteStream(tmpPath));
+        result = hasher.digest();
+      }
+
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.rename(tmpPath, destination);
+      return result;
+    } catch (err) {
+      await fs.rm(tmpPath, { force: true });
+      throw err;
+    }
+  }
+
+  /**
+   * 删除文件后清理空目录，直到存储桶目录为止
+   */
+  private async pruneEmptyDirs(dir: string): Promise<void> {
+    let current = dir;
+    while (current.startsWith(this.bucketDir + path.sep)) {
+      try {
+        await fs.rmdir(current);
+      } catch {
+        return;
+      }
+      current = path.dirname(current);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import { LocalFsAdapter } from './local-adapter.js'
+import { handleLocalMediaRequest, parseRange } from './local-server.js'
+
+describe('local-server', () => {
+  describe('parseRange', () => {
+    it('should parse open, closed and suffix ranges', () => {
+      expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 })
+      expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 })
+      expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 })
+      expect(parseRange('bytes=1000-', 1000)).toBeNull()
+      expect(parseRange('bytes=0-1,5-6', 1000)).toBeNull()
+    })
+  })
+
+  describe('handleLocalMediaRequest', () => {
+    let rootDir: string
+    let adapter: LocalFsAdapter
+    let server: http.Server
+    let baseUrl: string
+
+    beforeAll(async () => {
+      rootDir = await mkdtemp(path.join(os.tmpdir(), 'pis-local-server-'))
+      adapter = new LocalFsAdapter({
+        type: 'local',
+        accessKey: '',
+        secretKey: '',
+        bucket: 'pis-photos',
+        customConfig: { rootDir, signingSecret: 'test-secret' },
+      })
+      server = http.createServer((req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost')
+        void handleLocalMediaRequest(adapter, req, res, url, { maxUploadSize: 1024, maxPartSize: 1024 })
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve))
+      await rm(rootDir, { recursive: true, force: true })
+    })
+
+    it('should accept signed uploads and serve signed downloads with ranges', async () => {
+      const putUrl = await adapter.getPresignedPutUrl('raw/a1/photo 1.jpg', 60)
+      const putRes = await fetch(`${baseUrl}${putUrl}`, { method: 'PUT', body: 'hello world' })
+      expect(putRes.status).toBe(200)
+      expect(putRes.headers.get('etag')).toMatch(/^"[0-9a-f]{32}"$/)
+
+      const getUrl = await adapter.getPresignedGetUrl('raw/a1/photo 1.jpg', 60)
+      const getRes = await fetch(`${baseUrl}${getUrl}`, { headers: { Range: 'bytes=6-' } })
+      expect(getRes.status).toBe(206)
+      expect(getRes.headers.get('content-type')).toBe('image/jpeg')
+      expect(getRes.headers.get('content-range')).toBe('bytes 6-10/11')
+      expect(await getRes.text()).toBe('world')
+    })
+
+    it('should reject unsigned, tampered and oversized requests', async () => {
+      expect((await fetch(`${baseUrl}/media/raw/a1/photo.jpg`)).status).toBe(403)
+
+      const putUrl = await adapter.getPresignedPutUrl('raw/a1/photo.jpg', 60)
+      const tampered = putUrl.replace('photo.jpg', 'other.jpg')
+      expect((await fetch(`${baseUrl}${tampered}`, { method: 'PUT', body: 'x' })).status).toBe(403)
+
+      const oversized = await fetch(`${baseUrl}${putUrl}`, { method: 'PUT', body: 'x'.repeat(2048) }).catch(
+        () => null
+      )
+      // 超限时服务端可能直接断开连接
+      if (oversized) {
+        expect(oversized.status).toBe(413)
+      }
+      expect(await adapter.exists('raw/a1/photo.jpg')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * 本地存储签名 URL 服务
+ *
+ * LocalFsAdapter 生成的预签名 URL 指向 /media/{key}?X-Pis-Expires=...&X-Pis-Signature=...，
+ * 由 Worker HTTP 服务在 API Key 认证之前交给此处处理：签名即认证，
+ * GET/HEAD 读取文件（支持 Range），PUT 写入对象或分片。
+ */
+import type http from 'http';
+import { getMimeType } from '../media-types.js';
+import type { LocalFsAdapter } from './local-adapter.js';
+
+/** 签名 URL 的路径前缀（与 MinIO 部署的 Nginx /media/ 路径一致） */
+export const LOCAL_MEDIA_PATH_PREFIX = '/media/';
+
+export interface LocalMediaRequestOptions {
+  /** 单个文件上传大小上限（字节） */
+  maxUploadSize: number;
+  /** 单个分片大小上限（字节） */
+  maxPartSize: number;
+}
+
+/**
+ * 解析 Range 请求头（仅支持单个范围）
+ *
+ * @returns 无效或不满足的范围返回 null
+ */
+export function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // bytes=-500：最后 500 字节
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) {
+    return null;
+  }
+  return { start, end };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * 处理 /media/* 签名请求
+ *
+ * @param adapter - 本地存储适配器
+ * @param req - HTTP 请求
+ * @param res - HTTP 响应
+ * @param url - 已解析的请求 URL
+ * @param options - 上传大小限制
+ */
+export async function handleLocalMediaRequest(
+  adapter: LocalFsAdapter,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  options: LocalMediaRequestOptions
+): Promise<void> {
+  let key: string;
+  try {
+    key = url.pathname
+      .slice(LOCAL_MEDIA_PATH_PREFIX.length)
+      .split('/')
+      .map((segment) => decodeURIComponent(segment))
+      .join('/');
+  } catch {
+    sendJson(res, 400, { error: 'Invalid object key' });
+    return;
+  }
+
+  const method = req.method === 'HEAD' ? 'GET' : req.method;
+  if (method !== 'GET' && method !== 'PUT') {
+    res.setHeader('Allow', 'GET, HEAD, PUT');
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  let target;
+  try {
+    target = adapter.verifySignedUrl(method, key, url.searchParams);
+  } catch {
+    target = null;
+  }
+  if (!target) {
+    sendJson(res, 403, { error: 'Invalid or expired signature' });
+    return;
+  }
+
+  res.setHeader('Access-Control-Expose-Headers', 'Content-Length, Content-Range, ETag');
+
+  try {
+    if (method === 'PUT') {
+      const { etag } = target.uploadId
+        ? await adapter.writePartStream(
+            key,
+            target.uploadId,
+            target.partNumber ?? 0,
+            req,
+            options.maxPartSize
+          )
+        : await adapter.writeObjectStream(key, req, options.maxUploadSize);
+      res.writeHead(200, { ETag: `"${etag}"`, 'Content-Length': '0' });
+      res.end();
+      return;
+    }
+
+    const stat = await adapter.stat(key);
+    if (!stat) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const rangeHeader = req.headers.range;
+    const range = rangeHeader ? parseRange(rangeHeader, stat.size) : null;
+    if (rangeHeader && !range) {
+      res.writeHead(416, { 'Content-Range': `bytes */${stat.size}` });
+      res.end();
+      return;
+    }
+
+    const headers: http.OutgoingHttpHeaders = {
+      'Content-Type': getMimeType(key),
+      'Content-Length': String(range ? range.end - range.start + 1 : stat.size),
+      'Last-Modified': stat.lastModified.toUTCString(),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=300',
+    };
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${stat.size}`;
+    }
+    // 与 S3 一致，支持通过 response-content-disposition 指定下载文件名
+    const disposition = url.searchParams.get('response-content-disposition');
+    if (disposition && !/[\r\n]/.test(disposition)) {
+      headers['Content-Disposition'] = disposition;
+    }
+
+    res.writeHead(range ? 206 : 200, headers);
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    const stream = adapter.createObjectReadStream(key, range ?? undefined);
+    stream.on('error', (err) => {
+      console.error(`[LocalFs] Error streaming ${key}:`, err.message);
+      res.destroy(err);
+    });
+    stream.pipe(res);
+  } catch (err: any) {
+    const message = err?.message || 'Unknown error';
+    console.error(`[LocalFs] ${req.method} ${key} failed:`, message);
+    const status = message.includes('too large')
+      ? 413
+      : message.includes('Invalid') || message.includes('Multipart upload')
+        ? 400
+        : 500;
+    if (!res.headersSent) {
+      sendJson(res, status, { error: message });
+    } else {
+      res.destroy();
+    }
+  }
+}
@@ -141,11 +141,16 @@ export class MinIOAdapter implements StorageAdapter {
     return this.toPublicUrl(url);
   }
 
-  async initMultipartUpload(key: string): Promise<string> {
+  async initMultipartUpload(
+    key: string,
+    metadata: Record<string, string> = {}
+  ): Promise<string> {
     try {
       const command = new CreateMultipartUploadCommand({
         Bucket: this.bucket,
         Key: key,
+        ContentType: metadata['Content-Type'],
+        ContentDisposition: metadata['Content-Disposition'],
       });
       
       const response = await this.s3Client.send(command);
@@ -2,7 +2,7 @@
  * @fileoverview 存储抽象层类型定义
  *
  * 定义了对象存储适配器的统一接口，支持多种对象存储后端：
- * MinIO、阿里云 OSS、腾讯云 COS、AWS S3 等。
+ * MinIO、阿里云 OSS、腾讯云 COS、AWS S3 等，以及本地文件系统。
  *
  * @module lib/storage/types
  *
@@ -31,7 +31,7 @@
  * 定义对象存储的连接配置。
  * 不同存储类型可能需要不同的配置项。
  *
- * @property {'minio' | 'oss' | 'cos' | 's3' | 'custom'} type - 存储类型
+ * @property {'minio' | 'oss' | 'cos' | 's3' | 'local' | 'custom'} type - 存储类型
  * @property {string} [endpoint] - 服务端点（域名或 IP）
  * @property {number} [port] - 服务端口
  * @property {boolean} [useSSL] - 是否使用 SSL (HTTPS)
@@ -41,6 +41,8 @@
  * @property {string} [region] - 区域（如 oss-cn-hangzhou）
  * @property {Object} [customConfig] - 自定义配置
  * @property {string} [customConfig.publicUrl] - 公共访问 URL
+ * @property {string} [customConfig.rootDir] - 本地存储根目录（type 为 local 时使用）
+ * @property {string} [customConfig.signingSecret] - 本地存储预签名 URL 的 HMAC 密钥
  *
  * @example
  * ```typescript
@@ -56,8 +58,8 @@
  * ```
  */
 export interface StorageConfig {
-  /** 存储类型 */
-  type: 'minio' | 'oss' | 'cos' | 's3' | 'custom'
+  /** 存储类型（local 为本地文件系统） */
+  type: 'minio' | 'oss' | 'cos' | 's3' | 'local' | 'custom'
   /** 服务端点（域名或IP） */
   endpoint?: string
   /** 服务端口 */
@@ -76,6 +78,10 @@ export interface StorageConfig {
   customConfig?: {
     /** 公共访问 URL */
     publicUrl?: string
+    /** 本地存储根目录，对象保存在 {rootDir}/{bucket}/ 下 */
+    rootDir?: string
+    /** 本地存储预签名 URL 的 HMAC 密钥 */
+    signingSecret?: string
     [key: string]: unknown
   }
 }
@@ -170,9 +176,10 @@ export interface StorageAdapter {
    * 初始化分片上传
    *
    * @param {string} key - 文件键值
+   * @param {Record<string, string>} [metadata] - 完成后对象的元数据（如 Content-Type、Content-Disposition）
    * @returns {Promise<string>} 上传 ID (UploadId)
    */
-  initMultipartUpload(key: string): Promise<string>
+  initMultipartUpload(key: string, metadata?: Record<string, string>): Promise<string>
 
   /**
    * 上传分片
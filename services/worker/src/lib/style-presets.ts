@@ -7,6 +7,22 @@
  * @author junyuzhan
  * @license MIT
  */
+import type { CubeLut } from "./cube-lut.js";
+
+/**
+ * 曲线控制点 [输入, 输出]，取值 0 - 255
+ */
+export type CurvePoint = [number, number];
+
+/**
+ * 色调曲线：rgb 为主曲线，r/g/b 为单通道曲线
+ */
+export interface ToneCurves {
+  rgb?: CurvePoint[];
+  r?: CurvePoint[];
+  g?: CurvePoint[];
+  b?: CurvePoint[];
+}
 
 /**
  * 风格预设配置（基于 Sharp 的参数）
@@ -17,7 +33,25 @@ export interface StylePresetConfig {
   saturation?: number; // 0.0 - 2.0, 默认 1.0
   gamma?: number; // 0.1 - 3.0, 默认 1.0
   hue?: number; // 0 - 360, 默认 0（色相旋转）
-  tint?: { r: number; g: number; b: number }; // 色调叠加（用于色温模拟）
+  tint?: { r: number; g: number; b: number }; // 色调叠加（按通道增益，用于色温模拟）
+  whiteBalance?: {
+    temperature?: number; // -100（冷）- 100（暖），默认 0
+    tint?: number; // -100（偏绿）- 100（偏品红），默认 0
+  };
+  vibrance?: number; // -100 - 100，默认 0（只调整低饱和区域）
+  vignette?: number; // -100（压暗四角）- 100（提亮四角），默认 0
+  grain?: number; // 0 - 100，默认 0（胶片颗粒）
+  curves?: ToneCurves;
+  lutStrength?: number; // 0 - 100，默认 100（LUT 与原图的混合比例）
+}
+
+/**
+ * 处理照片时使用的预设：内置预设或数据库中的自定义预设（可附带 3D LUT）
+ */
+export interface ResolvedStylePreset {
+  id: string;
+  config: StylePresetConfig;
+  lut?: CubeLut | null;
 }
 
 /**
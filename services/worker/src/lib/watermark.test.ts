@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  buildTextStyleDefs,
+  buildTiledWatermarkSvg,
+  configureWatermarkFonts,
+  getWatermarkFontFamily,
+  MAX_WATERMARK_TILES,
+  planWatermarkTiles,
+  renderWatermarkText,
+  resolveWatermarkVariables,
+  SAMPLE_WATERMARK_EXIF,
+} from './watermark'
+
+describe('watermark', () => {
+  describe('resolveWatermarkVariables', () => {
+    it('should format exif-reader v2 tags', () => {
+      expect(resolveWatermarkVariables(SAMPLE_WATERMARK_EXIF)).toEqual({
+        date: '2024-05-20',
+        time: '14:32',
+        datetime: '2024-05-20 14:32',
+        camera: 'SONY ILCE-7M4',
+        make: 'SONY',
+        model: 'ILCE-7M4',
+        lens: 'FE 24-70mm F2.8 GM II',
+        iso: 'ISO 200',
+        aperture: 'f/2.8',
+        shutter: '1/250s',
+        focal: '50mm',
+      })
+    })
+
+    it('should support legacy image/exif keys and Date values', () => {
+      const variables = resolveWatermarkVariables({
+        image: { Make: 'Canon', Model: 'Canon EOS R5' },
+        exif: { DateTimeOriginal: new Date(Date.UTC(2023, 11, 31, 23, 5)), ISO: 800, ExposureTime: 2 },
+      })
+
+      expect(variables.camera).toBe('Canon EOS R5')
+      expect(variables.datetime).toBe('2023-12-31 23:05')
+      expect(variables.iso).toBe('ISO 800')
+      expect(variables.shutter).toBe('2s')
+    })
+
+    it('should return empty strings without EXIF', () => {
+      const variables = resolveWatermarkVariables(null)
+      expect(Object.values(variables).every((value) => value === '')).toBe(true)
+    })
+  })
+
+  describe('renderWatermarkText', () => {
+    const variables = resolveWatermarkVariables(SAMPLE_WATERMARK_EXIF)
+
+    it('should replace known variables and keep unknown placeholders', () => {
+      expect(renderWatermarkText('© Studio {date} {foo}', variables)).toBe('© Studio 2024-05-20 {foo}')
+    })
+
+    it('should collapse spaces left by missing values', () => {
+      const empty = resolveWatermarkVariables(null)
+      expect(renderWatermarkText('{camera} {lens} © Studio', empty)).toBe('© Studio')
+      expect(renderWatermarkText('{date}', empty)).toBe('')
+    })
+  })
+
+  describe('fonts', () => {
+    const originalFontconfig = process.env.FONTCONFIG_FILE
+
+    afterEach(() => {
+      if (originalFontconfig === undefined) delete process.env.FONTCONFIG_FILE
+      else process.env.FONTCONFIG_FILE = originalFontconfig
+    })
+
+    it('should fall back to sans for unknown font IDs', () => {
+      expect(getWatermarkFontFamily('playfair')).toMatch(/^"Playfair Display", .*serif$/)
+      expect(getWatermarkFontFamily('comic-sans')).toBe(getWatermarkFontFamily('sans'))
+      expect(getWatermarkFontFamily(undefined)).toContain('Noto Sans CJK SC')
+    })
+
+    it('should write a fontconfig file including the bundled fonts directory', () => {
+      delete process.env.FONTCONFIG_FILE
+      const fontsDir = mkdtempSync(join(tmpdir(), 'watermark-fonts-'))
+      try {
+        expect(configureWatermarkFonts(fontsDir)).toBe(true)
+        const config = readFileSync(process.env.FONTCONFIG_FILE!, 'utf8')
+        expect(config).toContain('<include ignore_missing="yes">/etc/fonts/fonts.conf</include>')
+        expect(config).toContain(`<dir>${fontsDir}</dir>`)
+      } finally {
+        rmSync(fontsDir, { recursive: true, force: true })
+      }
+    })
+
+    it('should keep an existing FONTCONFIG_FILE and skip missing directories', () => {
+      process.env.FONTCONFIG_FILE = '/custom/fonts.conf'
+      expect(configureWatermarkFonts('/tmp')).toBe(false)
+      expect(process.env.FONTCONFIG_FILE).toBe('/custom/fonts.conf')
+
+      delete process.env.FONTCONFIG_FILE
+      expect(configureWatermarkFonts('/nonexistent/fonts')).toBe(false)
+      expect(process.env.FONTCONFIG_FILE).toBeUndefined()
+    })
+  })
+
+  describe('buildTextStyleDefs', () => {
+    it('should only add stroke and shadow when enabled', () => {
+      const plain = buildTextStyleDefs({}, 40)
+      expect(plain).toContain('fill: #ffffff')
+      expect(plain).not.toContain('stroke')
+      expect(plain).not.toContain('<filter')
+
+      const styled = buildTextStyleDefs({ color: '#ff0000', strokeWidth: 10, strokeColor: '#112233', shadow: true }, 40)
+      expect(styled).toContain('fill: #ff0000')
+      expect(styled).toContain('stroke: #112233; stroke-width: 4px')
+      expect(styled).toContain('paint-order: stroke')
+      expect(styled).toContain('<filter id="watermark-shadow"')
+    })
+
+    it('should ignore invalid colors', () => {
+      const defs = buildTextStyleDefs({ color: 'red;} .x{', strokeWidth: 5, strokeColor: 'url(#x)' }, 20)
+      expect(defs).toContain('fill: #ffffff')
+      expect(defs).toContain('stroke: #000000')
+    })
+  })
+
+  describe('planWatermarkTiles', () => {
+    it('should cover the image diagonal with staggered rows', () => {
+      const layout = planWatermarkTiles(1200, 800, 200, { angle: -45, density: 4, spacing: 50 })
+
+      expect(layout.angle).toBe(-45)
+      expect(layout.rowPitch).toBe(200)
+      expect(layout.columnPitch).toBe(300)
+
+      const radius = Math.sqrt(1200 ** 2 + 800 ** 2) / 2
+      const ys = layout.positions.map((p) => p.y)
+      expect(Math.min(...ys)).toBeLessThanOrEqual(-radius)
+      expect(Math.max(...ys)).toBeGreaterThanOrEqual(radius)
+
+      const row0 = layout.positions.filter((p) => p.y === 0).map((p) => p.x)
+      const row1 = layout.positions.filter((p) => p.y === 200).map((p) => p.x)
+      expect(row0).toContain(0)
+      expect(row1).toContain(150)
+    })
+
+    it('should clamp parameters and limit tile count', () => {
+      const layout = planWatermarkTiles(4000, 3000, 5, { angle: 180, density: 50, spacing: 0 })
+
+      expect(layout.angle).toBe(90)
+      expect(layout.rowPitch).toBe(250)
+      expect(layout.positions.length).toBeLessThanOrEqual(MAX_WATERMARK_TILES)
+    })
+  })
+
+  describe('buildTiledWatermarkSvg', () => {
+    it('should rotate the pattern around the image center', () => {
+      const layout = planWatermarkTiles(800, 600, 100)
+      const svg = buildTiledWatermarkSvg(800, 600, '<text id="watermark-item">A</text>', layout, 0.3, 'watermark-shadow')
+
+      expect(svg).toContain('width="800" height="600"')
+      expect(svg).toContain('<g opacity="0.3" filter="url(#watermark-shadow)">')
+      expect(svg).toContain('transform="translate(400 300) rotate(-30)"')
+      expect(svg.match(/<use href="#watermark-item"/g)).toHaveLength(layout.positions.length)
+    })
+  })
+})
@@ -0,0 +1,420 @@
+/**
+ * @fileoverview 水印字体、文字变量与平铺图案
+ *
+ * @description
+ * - 字体：可选字体与 Web 端 `src/app/fonts` 内置字体一致，Worker 启动时通过 fontconfig 注册该目录
+ *   （Docker 镜像中复制到相同的相对路径，也可用 WATERMARK_FONTS_DIR 指定），缺失时回退到系统 CJK 字体
+ * - 变量：水印文字中的 `{date}`、`{camera}` 等占位符按照片 EXIF 替换，缺少对应 EXIF 时替换为空
+ * - 平铺：水印沿倾斜角度交错铺满整张图片，裁剪无法去除
+ *
+ * 预览接口与照片处理使用同一套代码生成 SVG，管理后台看到的就是最终效果。
+ *
+ * @module lib/watermark
+ */
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { fileURLToPath } from "url";
+
+/** 可选字体 ID */
+export type WatermarkFontId = "sans" | "serif" | "inter" | "playfair";
+
+/** 系统 CJK 黑体回退链（Docker 镜像安装了 font-noto-cjk） */
+const SANS_FALLBACK = `"Noto Sans CJK SC", "Noto Sans CJK", "Noto Sans", Arial, Helvetica, "Microsoft YaHei", "SimHei", "Arial Unicode MS", sans-serif`;
+/** 系统 CJK 宋体回退链 */
+const SERIF_FALLBACK = `"Noto Serif CJK SC", "Noto Serif CJK", "Noto Serif", Georgia, "SimSun", serif`;
+
+/**
+ * 字体 ID 对应的 font-family
+ *
+ * 英文字体不含中文字形，中文字符由回退链中的 CJK 字体渲染
+ */
+export const WATERMARK_FONT_FAMILIES: Record<WatermarkFontId, string> = {
+  sans: SANS_FALLBACK,
+  serif: `"Noto Serif SC", ${SERIF_FALLBACK}`,
+  inter: `"Inter", ${SANS_FALLBACK}`,
+  playfair: `"Playfair Display", ${SERIF_FALLBACK}`,
+};
+
+/** 内置字体目录（相对于本文件，src 和 dist 下层级相同） */
+const DEFAULT_FONTS_DIR = resolve(
+  fileURLToPath(new URL(".", import.meta.url)),
+  "../../../../apps/web/src/app/fonts",
+);
+
+/**
+ * 获取字体 ID 对应的 font-family，未知 ID 使用默认黑体
+ */
+export function getWatermarkFontFamily(fontId?: string | null): string {
+  return WATERMARK_FONT_FAMILIES[fontId as WatermarkFontId] ?? SANS_FALLBACK;
+}
+
+/**
+ * 注册内置字体
+ *
+ * @description
+ * 生成一份包含系统配置和内置字体目录的 fontconfig 配置，并通过 FONTCONFIG_FILE 生效。
+ * fontconfig 在第一次渲染文字时才初始化，因此需要在处理任何 SVG 文字之前调用。
+ * 已设置 FONTCONFIG_FILE 时尊重现有配置，不做修改。
+ *
+ * @param fontsDir - 字体目录，默认 WATERMARK_FONTS_DIR 或 Web 端的 src/app/fonts
+ * @returns 是否已注册
+ */
+export function configureWatermarkFonts(
+  fontsDir = process.env.WATERMARK_FONTS_DIR || DEFAULT_FONTS_DIR,
+): boolean {
+  if (process.env.FONTCONFIG_FILE) {
+    return false;
+  }
+  if (!existsSync(fontsDir)) {
+    console.warn(`[Watermark] Fonts directory not found: ${fontsDir}, using system fonts`);
+    return false;
+  }
+
+  const configDir = join(tmpdir(), "pis-fontconfig");
+  mkdirSync(configDir, { recursive: true });
+  const configFile = join(configDir, "fonts.conf");
+  writeFileSync(
+    configFile,
+    `<?xml version="1.0"?>
+<!DOCTYPE fontconfig SYSTEM "fonts.dtd">
+<fontconfig>
+  <include ignore_missing="yes">/etc/fonts/fonts.conf</include>
+  <dir>${escapeXml(fontsDir)}</dir>
+  <cachedir>${escapeXml(join(configDir, "cache"))}</cachedir>
+</fontconfig>
+`,
+  );
+  process.env.FONTCONFIG_FILE = configFile;
+  console.log(`[Watermark] Registered bundled fonts: ${fontsDir}`);
+  return true;
+}
+
+/** 支持的文字变量 */
+export const WATERMARK_VARIABLES = [
+  "date",
+  "time",
+  "datetime",
+  "camera",
+  "make",
+  "model",
+  "lens",
+  "iso",
+  "aperture",
+  "shutter",
+  "focal",
+] as const;
+
+export type WatermarkVariable = (typeof WATERMARK_VARIABLES)[number];
+
+/**
+ * 预览示例 EXIF（示例底图没有 EXIF 时用于展示变量效果）
+ */
+export const SAMPLE_WATERMARK_EXIF = {
+  Image: { Make: "SONY", Model: "ILCE-7M4" },
+  Photo: {
+    DateTimeOriginal: "2024:05:20 14:32:08",
+    LensModel: "FE 24-70mm F2.8 GM II",
+    ISOSpeedRatings: 200,
+    FNumber: 2.8,
+    ExposureTime: 1 / 250,
+    FocalLength: 50,
+  },
+};
+
+/**
+ * 格式化 EXIF 拍摄时间
+ *
+ * @description exif-reader 返回的 Date 按 UTC 保存相机本地时间，因此用 UTC 取值；
+ * 字符串支持 "YYYY:MM:DD HH:MM:SS" 和 ISO 格式（JSON 序列化后的 Date）
+ * @internal
+ */
+function parseCaptureTime(value: unknown): { date: string; time: string } | null {
+  if (typeof value === "string") {
+    const match = value.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})/);
+    if (match) {
+      const [, year, month, day, hour, minute] = match;
+      return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` };
+    }
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    const iso = value.toISOString();
+    return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+  }
+  return null;
+}
+
+/**
+ * 格式化数值，去掉多余的小数位
+ * @internal
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * 从 EXIF 解析文字变量
+ *
+ * @param exif - exif-reader 格式（Image / Photo），兼容旧格式（image / exif）
+ * @returns 变量值，缺少的变量为空字符串
+ */
+export function resolveWatermarkVariables(
+  exif: Record<string, any> | null | undefined,
+): Record<WatermarkVariable, string> {
+  const image = exif?.Image ?? exif?.image ?? {};
+  const photo = exif?.Photo ?? exif?.exif ?? {};
+
+  const make = typeof image.Make === "string" ? image.Make.trim() : "";
+  const model = typeof image.Model === "string" ? image.Model.trim() : "";
+  // 很多机型的 Model 已包含品牌（如 "Canon EOS R5"）
+  const camera =
+    make && model && !model.toLowerCase().startsWith(make.toLowerCase())
+      ? `${make} ${model}`
+      : model || make;
+
+  const captured = parseCaptureTime(photo.DateTimeOriginal ?? image.DateTime);
+  const isoValue = photo.ISOSpeedRatings ?? photo.PhotographicSensitivity ?? photo.ISO;
+  const iso = Array.isArray(isoValue) ? isoValue[0] : isoValue;
+  const fNumber = Number(photo.FNumber);
+  const exposure = Number(photo.ExposureTime);
+  const focal = Number(photo.FocalLength);
+
+  return {
+    date: captured?.date ?? "",
+    time: captured?.time ?? "",
+    datetime: captured ? `${captured.date} ${captured.time}` : "",
+    camera,
+    make,
+    model,
+    lens: typeof photo.LensModel === "string" ? photo.LensModel.trim() : "",
+    iso: Number.isFinite(Number(iso)) && Number(iso) > 0 ? `ISO ${Number(iso)}` : "",
+    aperture: fNumber > 0 ? `f/${formatNumber(fNumber)}` : "",
+    shutter:
+      exposure > 0
+        ? exposure < 1
+          ? `1/${Math.round(1 / exposure)}s`
+          : `${formatNumber(exposure)}s`
+        : "",
+    focal: focal > 0 ? `${formatNumber(focal)}mm` : "",
+  };
+}
+
+/**
+ * 替换水印文字中的变量
+ *
+ * @description 未知占位符原样保留；变量为空时会合并多余的空格
+ */
+export function renderWatermarkText(
+  template: string,
+  variables: Record<WatermarkVariable, string>,
+): string {
+  if (!template.includes("{")) {
+    return template;
+  }
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in variables ? variables[name as WatermarkVariable] : match,
+    )
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * 文字样式
+ */
+export interface WatermarkTextStyle {
+  /** 字体 ID */
+  fontFamily?: string;
+  /** 文字颜色（#RRGGBB），默认白色 */
+  color?: string;
+  /** 描边颜色（#RRGGBB），默认黑色 */
+  strokeColor?: string;
+  /** 描边宽度（字号的百分比，0 表示不描边） */
+  strokeWidth?: number;
+  /** 是否添加投影 */
+  shadow?: boolean;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * 生成文字水印的 <style> 和投影滤镜
+ *
+ * @param style - 文字样式
+ * @param fontSize - 字号（px）
+ * @returns defs 中的内容（CSS 类名为 watermark，滤镜 ID 为 watermark-shadow）
+ */
+export function buildTextStyleDefs(style: WatermarkTextStyle, fontSize: number): string {
+  const color = style.color && HEX_COLOR.test(style.color) ? style.color : "#ffffff";
+  const strokeColor =
+    style.strokeColor && HEX_COLOR.test(style.strokeColor) ? style.strokeColor : "#000000";
+  const strokeWidth = Math.max(0, Math.min(20, style.strokeWidth ?? 0));
+
+  const rules = [
+    `fill: ${color}`,
+    `font-size: ${fontSize}px`,
+    `font-family: ${getWatermarkFontFamily(style.fontFamily)}`,
+    "font-weight: bold",
+  ];
+  if (strokeWidth > 0) {
+    rules.push(
+      `stroke: ${strokeColor}`,
+      `stroke-width: ${formatNumber((fontSize * strokeWidth) / 100)}px`,
+      "stroke-linejoin: round",
+      // 先描边后填充，描边不会吃掉字形
+      "paint-order: stroke",
+    );
+  }
+
+  let defs = `<style>.watermark { ${rules.join("; ")}; }</style>`;
+  if (style.shadow) {
+    const offset = formatNumber(Math.max(1, fontSize * 0.06));
+    const blur = formatNumber(Math.max(1, fontSize * 0.08));
+    defs += `<filter id="watermark-shadow" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="${offset}" dy="${offset}" stdDeviation="${blur}" flood-color="#000000" flood-opacity="0.6"/></filter>`;
+  }
+  return defs;
+}
+
+/**
+ * 估算文字宽度
+ *
+ * @description 用于计算平铺间距，按粗体字符类别估算（CJK 全角 1em，拉丁字母约 0.6-0.7em），不需要精确
+ */
+export function estimateTextWidth(text: string, fontSize: number): number {
+  let ems = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code >= 0x2e80) ems += 1;
+    else if (char === " ") ems += 0.3;
+    else if (/[A-Z0-9@©&%#]/.test(char)) ems += 0.72;
+    else ems += 0.6;
+  }
+  return ems * fontSize;
+}
+
+/**
+ * 平铺参数
+ */
+export interface WatermarkPattern {
+  /** 倾斜角度（-90 ~ 90，负数为左下到右上），默认 -30 */
+  angle?: number;
+  /** 密度：短边方向的行数（1-12），默认 4 */
+  density?: number;
+  /** 同一行水印之间的间距（水印宽度的百分比，10-300），默认 60 */
+  spacing?: number;
+}
+
+/** 平铺水印数量上限（防止字号很小时生成过大的 SVG） */
+export const MAX_WATERMARK_TILES = 400;
+
+/**
+ * 平铺行距（短边 / 行数），未指定尺寸时水印大小按行距计算
+ */
+export function getTileRowPitch(width: number, height: number, pattern: WatermarkPattern = {}): number {
+  const density = Math.max(1, Math.min(12, Math.round(pattern.density ?? 4)));
+  return Math.min(width, height) / density;
+}
+
+/**
+ * 平铺布局
+ */
+export interface WatermarkTileLayout {
+  /** 角度（度） */
+  angle: number;
+  /** 行距 */
+  rowPitch: number;
+  /** 同一行相邻水印中心的距离 */
+  columnPitch: number;
+  /** 各水印中心坐标（旋转坐标系，原点为图片中心） */
+  positions: Array<{ x: number; y: number }>;
+}
+
+/**
+ * 计算平铺布局
+ *
+ * @description
+ * 在以图片中心为原点、按 angle 旋转后的坐标系中逐行排列，覆盖图片外接圆，
+ * 奇数行错开半个间距，形成斜向交错的图案
+ *
+ * @param width - 图片宽度
+ * @param height - 图片高度
+ * @param itemWidth - 单个水印宽度
+ * @param pattern - 平铺参数
+ */
+export function planWatermarkTiles(
+  width: number,
+  height: number,
+  itemWidth: number,
+  pattern: WatermarkPattern = {},
+): WatermarkTileLayout {
+  const angle = Math.max(-90, Math.min(90, pattern.angle ?? -30));
+  const spacing = Math.max(10, Math.min(300, pattern.spacing ?? 60));
+
+  const radius = Math.sqrt(width * width + height * height) / 2;
+  const rowPitch = getTileRowPitch(width, height, pattern);
+  let columnPitch = Math.max(1, itemWidth * (1 + spacing / 100));
+
+  const rows = Math.ceil(radius / rowPitch);
+  let columns = Math.ceil(radius / columnPitch) + 1;
+  // 每行 2 * columns + 1 个，超过上限时加大列距
+  const maxColumns = Math.max(2, Math.floor((MAX_WATERMARK_TILES / (2 * rows + 1) - 1) / 2));
+  if (columns > maxColumns) {
+    columns = maxColumns;
+    columnPitch = radius / (maxColumns - 1);
+  }
+
+  const positions: Array<{ x: number; y: number }> = [];
+  for (let row = -rows; row <= rows; row++) {
+    const offset = Math.abs(row) % 2 === 1 ? columnPitch / 2 : 0;
+    for (let column = -columns; column <= columns; column++) {
+      positions.push({
+        x: Math.round(column * columnPitch + offset),
+        y: Math.round(row * rowPitch),
+      });
+    }
+  }
+
+  return { angle, rowPitch, columnPitch, positions };
+}
+
+/**
+ * 生成平铺水印 SVG
+ *
+ * @param width - 图片宽度
+ * @param height - 图片高度
+ * @param defs - 水印元素定义，必须包含 id="watermark-item" 的元素（以原点为中心）
+ * @param layout - 平铺布局
+ * @param opacity - 不透明度
+ * @param filter - 应用到整组水印的滤镜 ID（可选）
+ */
+export function buildTiledWatermarkSvg(
+  width: number,
+  height: number,
+  defs: string,
+  layout: WatermarkTileLayout,
+  opacity: number,
+  filter?: string,
+): string {
+  const uses = layout.positions
+    .map(({ x, y }) => `<use href="#watermark-item" x="${x}" y="${y}"/>`)
+    .join("");
+  // 滤镜放在未旋转的外层，投影方向不随角度变化
+  const filterAttr = filter ? ` filter="url(#${filter})"` : "";
+  return `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  <defs>${defs}</defs>
+  <g opacity="${opacity}"${filterAttr}><g transform="translate(${width / 2} ${height / 2}) rotate(${layout.angle})">${uses}</g></g>
+</svg>`;
+}
+
+/**
+ * 转义 XML 特殊字符
+ * @internal
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
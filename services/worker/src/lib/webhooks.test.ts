@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  WEBHOOK_HEADERS,
+  isWebhookEvent,
+  matchWebhookEndpoints,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookEndpointConfig,
+  type WebhookPayload,
+} from "./webhooks";
+
+/**
+ * 本地 HTTP 接收端，记录收到的请求并按路径返回状态码
+ */
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ path: req.url || "/", headers: req.headers, body });
+      if (req.url === "/slow") {
+        setTimeout(() => res.end("late"), 500);
+        return;
+      }
+      const status = req.url === "/error" ? 500 : 200;
+      res.writeHead(status, { "Content-Type": "text/plain" });
+      res.end(status === 200 ? "ok" : "boom");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+const payload: WebhookPayload = {
+  id: "delivery-1",
+  event: "photo.completed",
+  created_at: "2026-01-01T00:00:00.000Z",
+  album_id: "album-1",
+  data: { photo_id: "photo-1" },
+};
+
+describe("signWebhookPayload / verifyWebhookSignature", () => {
+  it("should verify its own signature and reject tampering", () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload("secret", timestamp, "{}");
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature("secret", timestamp, "{}", signature)).toBe(true);
+    expect(verifyWebhookSignature("other", timestamp, "{}", signature)).toBe(false);
+    expect(verifyWebhookSignature("secret", timestamp, "{ }", signature)).toBe(false);
+  });
+
+  it("should reject stale timestamps", () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 3600;
+    const signature = signWebhookPayload("secret", timestamp, "{}");
+
+    expect(verifyWebhookSignature("secret", timestamp, "{}", signature)).toBe(false);
+  });
+});
+
+describe("isWebhookEvent", () => {
+  it("should accept known events only", () => {
+    expect(isWebhookEvent("album.published")).toBe(true);
+    expect(isWebhookEvent("album.deleted")).toBe(false);
+    expect(isWebhookEvent(undefined)).toBe(false);
+  });
+});
+
+describe("matchWebhookEndpoints", () => {
+  const endpoint = (overrides: Partial<WebhookEndpointConfig>): WebhookEndpointConfig => ({
+    id: "endpoint",
+    album_id: null,
+    url: "http://example.com",
+    secret: "secret",
+    events: [],
+    is_active: true,
+    ...overrides,
+  });
+
+  it("should match global and album endpoints subscribed to the event", () => {
+    const endpoints = [
+      endpoint({ id: "global" }),
+      endpoint({ id: "album-1", album_id: "album-1", events: ["photo.completed"] }),
+      endpoint({ id: "album-2", album_id: "album-2" }),
+      endpoint({ id: "other-event", events: ["package.ready"] }),
+      endpoint({ id: "inactive", is_active: false }),
+    ];
+
+    const matched = matchWebhookEndpoints(endpoints, "photo.completed", "album-1");
+
+    expect(matched.map((e) => e.id)).toEqual(["global", "album-1"]);
+  });
+});
+
+describe("sendWebhook", () => {
+  it("should POST a signed payload", async () => {
+    const result = await sendWebhook({ url: `${baseUrl}/hook`, secret: "secret" }, payload);
+
+    expect(result).toMatchObject({ ok: true, status: 200, body: "ok", error: null });
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    const timestamp = Number(request.headers[WEBHOOK_HEADERS.timestamp.toLowerCase()]);
+    const signature = request.headers[WEBHOOK_HEADERS.signature.toLowerCase()] as string;
+
+    expect(JSON.parse(request.body)).toEqual(payload);
+    expect(request.headers[WEBHOOK_HEADERS.event.toLowerCase()]).toBe("photo.completed");
+    expect(request.headers[WEBHOOK_HEADERS.delivery.toLowerCase()]).toBe("delivery-1");
+    expect(verifyWebhookSignature("secret", timestamp, request.body, signature)).toBe(true);
+  });
+
+  it("should report non-2xx responses as failures", async () => {
+    const result = await sendWebhook({ url: `${baseUrl}/error`, secret: "secret" }, payload);
+
+    expect(result).toMatchObject({ ok: false, status: 500, body: "boom", error: "HTTP 500" });
+  });
+
+  it("should time out slow receivers", async () => {
+    const result = await sendWebhook({ url: `${baseUrl}/slow`, secret: "secret" }, payload, 100);
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBeNull();
+    expect(result.error).toBe("Timeout after 100ms");
+  });
+
+  it("should not throw when the receiver is unreachable", async () => {
+    const result = await sendWebhook({ url: "http://127.0.0.1:1/hook", secret: "secret" }, payload);
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * @fileoverview Webhook 事件推送
+ *
+ * @description
+ * 相册和照片生命周期事件（照片处理完成/失败、相册创建/发布、访客提交选片、打包完成）
+ * 推送到管理员配置的 Webhook 端点，供 CRM、企业微信机器人等外部系统订阅，无需轮询。
+ *
+ * - 端点分为全局端点（album_id 为空，接收所有相册的事件）和相册端点
+ * - 每个端点一次投递对应 webhook_deliveries 中的一条记录，由 webhook-deliveries 队列执行并按指数退避重试
+ * - 请求体使用端点密钥做 HMAC-SHA256 签名，接收方应校验签名和时间戳
+ *
+ * 签名算法：
+ * ```
+ * X-PIS-Signature: sha256=HEX(HMAC_SHA256(secret, `${X-PIS-Timestamp}.${rawBody}`))
+ * ```
+ *
+ * @module lib/webhooks
+ */
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+/** 支持的事件 */
+export const WEBHOOK_EVENTS = [
+  "photo.completed",
+  "photo.failed",
+  "album.created",
+  "album.published",
+  "selection.submitted",
+  "package.ready",
+  "webhook.test",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** 请求头 */
+export const WEBHOOK_HEADERS = {
+  event: "X-PIS-Event",
+  delivery: "X-PIS-Delivery",
+  timestamp: "X-PIS-Timestamp",
+  signature: "X-PIS-Signature",
+} as const;
+
+/** 投递记录中保存的响应内容最大长度 */
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * Webhook 端点（投递所需字段）
+ */
+export interface WebhookEndpointConfig {
+  id: string;
+  album_id: string | null;
+  url: string;
+  secret: string;
+  /** 订阅的事件，空数组表示全部事件 */
+  events: string[];
+  is_active: boolean;
+}
+
+/**
+ * 推送给接收方的请求体
+ */
+export interface WebhookPayload {
+  /** 投递 ID（重试时不变，可用于去重） */
+  id: string;
+  event: WebhookEvent;
+  created_at: string;
+  album_id: string | null;
+  data: Record<string, unknown>;
+}
+
+/**
+ * 单次发送结果
+ */
+export interface WebhookSendResult {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * 判断字符串是否为支持的事件
+ */
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return (
+    typeof value === "string" &&
+    (WEBHOOK_EVENTS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * 计算签名
+ *
+ * @param secret - 端点密钥
+ * @param timestamp - Unix 时间戳（秒）
+ * @param body - 原始请求体
+ * @returns `sha256=<hex>`
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * 校验签名（接收方可参考此实现）
+ *
+ * @param toleranceSeconds - 允许的时间偏差，超出视为重放
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds = 300,
+): boolean {
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * 筛选应接收事件的端点
+ *
+ * @description 测试事件只发送给指定端点，由调用方直接传入
+ */
+export function matchWebhookEndpoints<T extends WebhookEndpointConfig>(
+  endpoints: T[],
+  event: WebhookEvent,
+  albumId: string | null,
+): T[] {
+  return endpoints.filter(
+    (endpoint) =>
+      endpoint.is_active &&
+      (endpoint.album_id === null || endpoint.album_id === albumId) &&
+      (endpoint.events.length === 0 || endpoint.events.includes(event)),
+  );
+}
+
+/**
+ * 发送一次 Webhook 请求
+ *
+ * @description 2xx 视为成功；网络错误、超时和非 2xx 响应都返回失败结果，不抛出异常
+ *
+ * @param endpoint - 端点 URL 和密钥
+ * @param payload - 请求体
+ * @param timeoutMs - 超时时间
+ */
+export async function sendWebhook(
+  endpoint: Pick<WebhookEndpointConfig, "url" | "secret">,
+  payload: WebhookPayload,
+  timeoutMs = 10000,
+): Promise<WebhookSendResult> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "PIS-Webhook/1.0",
+        [WEBHOOK_HEADERS.event]: payload.event,
+        [WEBHOOK_HEADERS.delivery]: payload.id,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+          endpoint.secret,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    const responseBody = (await response.text().catch(() => "")).slice(
+      0,
+      MAX_RESPONSE_BODY_LENGTH,
+    );
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: responseBody || null,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (err: any) {
+    const isTimeout = err?.name === "TimeoutError" || err?.name === "AbortError";
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: isTimeout
+        ? `Timeout after ${timeoutMs}ms`
+        : err?.cause?.message || err?.message || "Request failed",
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * 为事件创建投递记录
+ *
+ * @param db - 数据库客户端
+ * @param event - 事件
+ * @param albumId - 相关相册（非相册事件传 null）
+ * @param data - 事件数据
+ * @param endpointId - 只投递给指定端点（用于发送测试事件，忽略订阅和启用状态）
+ * @returns 新建的投递记录 ID
+ */
+export async function createWebhookDeliveries(
+  db: any,
+  event: WebhookEvent,
+  albumId: string | null,
+  data: Record<string, unknown>,
+  endpointId?: string,
+): Promise<Array<{ id: string; endpointId: string }>> {
+  let query = db
+    .from("webhook_endpoints")
+    .select("id, album_id, url, secret, events, is_active");
+  query = endpointId
+    ? query.eq("id", endpointId)
+    : query.eq("is_active", true);
+
+  const { data: endpoints, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load webhook endpoints: ${error.message}`);
+  }
+
+  const targets: WebhookEndpointConfig[] = endpointId
+    ? endpoints || []
+    : matchWebhookEndpoints(endpoints || [], event, albumId);
+  if (targets.length === 0) {
+    return [];
+  }
+
+  const createdAt = new Date().toISOString();
+  const deliveries = targets.map((endpoint) => {
+    const id = randomUUID();
+    const payload: WebhookPayload = {
+      id,
+      event,
+      created_at: createdAt,
+      album_id: albumId,
+      data,
+    };
+    return { id, endpoint_id: endpoint.id, event, payload, status: "pending" };
+  });
+
+  const { error: insertError } = await db
+    .from("webhook_deliveries")
+    .insert(deliveries);
+  if (insertError) {
+    throw new Error(
+      `Failed to create webhook deliveries: ${insertError.message}`,
+    );
+  }
+
+  return deliveries.map((delivery) => ({
+    id: delivery.id,
+    endpointId: delivery.endpoint_id,
+  }));
+}
+
+/**
+ * 执行一次投递并更新投递记录
+ *
+ * @param db - 数据库客户端
+ * @param deliveryId - 投递记录 ID
+ * @param attempt - 当前是第几次尝试（从 1 开始）
+ * @param maxAttempts - 最大尝试次数（用于判断是否还会重试）
+ * @param timeoutMs - 请求超时时间
+ * @returns 发送结果；投递记录或端点不存在（已删除）时返回 null
+ */
+export async function deliverWebhook(
+  db: any,
+  deliveryId: string,
+  attempt: number,
+  maxAttempts: number,
+  timeoutMs?: number,
+): Promise<WebhookSendResult | null> {
+  const { data: delivery } = await db
+    .from("webhook_deliveries")
+    .select("id, endpoint_id, payload")
+    .eq("id", deliveryId)
+    .single();
+  if (!delivery) {
+    return null;
+  }
+
+  const { data: endpoint } = await db
+    .from("webhook_endpoints")
+    .select("id, url, secret")
+    .eq("id", delivery.endpoint_id)
+    .single();
+  if (!endpoint) {
+    return null;
+  }
+
+  const result = await sendWebhook(endpoint, delivery.payload, timeoutMs);
+
+  const status = result.ok
+    ? "success"
+    : attempt >= maxAttempts
+      ? "failed"
+      : "retrying";
+  const { error } = await db
+    .from("webhook_deliveries")
+    .update({
+      status,
+      attempts: attempt,
+      response_status: result.status,
+      response_body: result.body,
+      error: result.error,
+      duration_ms: result.durationMs,
+      delivered_at: new Date().toISOString(),
+    })
+    .eq("id", deliveryId);
+  if (error) {
+    console.warn(
+      `[Webhook] Failed to update delivery ${deliveryId}:`,
+      error.message,
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import zlib from 'zlib'
+import { ZipWriter, shouldStoreUncompressed } from './zip-writer.js'
+
+/**
+ * 按中央目录解析 ZIP，返回文件名、压缩方式和解压后的内容
+ */
+function readZip(zip: Buffer) {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  const count = zip.readUInt16LE(end + 10)
+  let pos = zip.readUInt32LE(end + 16)
+  const entries: Array<{ name: string; method: number; flags: number; data: Buffer }> = []
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(pos)).toBe(0x02014b50)
+    const flags = zip.readUInt16LE(pos + 8)
+    const method = zip.readUInt16LE(pos + 10)
+    const crc = zip.readUInt32LE(pos + 16)
+    const compressedSize = zip.readUInt32LE(pos + 20)
+    const nameLength = zip.readUInt16LE(pos + 28)
+    const extraLength = zip.readUInt16LE(pos + 30)
+    const offset = zip.readUInt32LE(pos + 42)
+    const name = zip.subarray(pos + 46, pos + 46 + nameLength).toString('utf8')
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50)
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26) + zip.readUInt16LE(offset + 28)
+    const raw = zip.subarray(dataStart, dataStart + compressedSize)
+    const data = method === 8 ? zlib.inflateRawSync(raw) : Buffer.from(raw)
+    expect(zlib.crc32(data)).toBe(crc)
+
+    entries.push({ name, method, flags, data })
+    pos += 46 + nameLength + extraLength
+  }
+  return entries
+}
+
+describe('zip-writer', () => {
+  describe('shouldStoreUncompressed', () => {
+    it('should store already-compressed formats', () => {
+      expect(shouldStoreUncompressed('IMG_0001.JPG')).toBe(true)
+      expect(shouldStoreUncompressed('clip.mov')).toBe(true)
+      expect(shouldStoreUncompressed('notes.txt')).toBe(false)
+      expect(shouldStoreUncompressed('README')).toBe(false)
+    })
+  })
+
+  describe('ZipWriter', () => {
+    it('should write a readable archive with UTF-8 names', async () => {
+      const writer = new ZipWriter()
+      const chunks = [
+        ...(await writer.addEntry('有水印/照片 1.jpg', Buffer.from('jpeg-data'))),
+        ...(await writer.addEntry('notes.txt', Buffer.from('hello '.repeat(100)))),
+        writer.finish(),
+      ]
+      const zip = Buffer.concat(chunks)
+
+      expect(writer.bytesWritten).toBe(zip.length)
+      expect(readZip(zip)).toEqual([
+        { name: '有水印/照片 1.jpg', method: 0, flags: 0x0800, data: Buffer.from('jpeg-data') },
+        { name: 'notes.txt', method: 8, flags: 0x0800, data: Buffer.from('hello '.repeat(100)) },
+      ])
+    })
+
+    it('should honour the store option over the extension', async () => {
+      const writer = new ZipWriter()
+      const zip = Buffer.concat([
+        ...(await writer.addEntry('clip.avi', Buffer.from('video'), { store: true })),
+        writer.finish(),
+      ])
+
+      expect(readZip(zip)[0].method).toBe(0)
+    })
+
+    it('should continue from a serialized state', async () => {
+      const first = new ZipWriter()
+      const head = await first.addEntry('a.jpg', Buffer.from('first'))
+      const state = JSON.parse(JSON.stringify(first.getState()))
+
+      const resumed = ZipWriter.fromState(state)
+      const rest = [...(await resumed.addEntry('b.txt', Buffer.from('second'))), resumed.finish()]
+      const zip = Buffer.concat([...head, ...rest])
+
+      expect(readZip(zip).map((entry) => [entry.name, entry.data.toString()])).toEqual([
+        ['a.jpg', 'first'],
+        ['b.txt', 'second'],
+      ])
+    })
+
+    it('should switch to ZIP64 records when offsets exceed 4GB', () => {
+      const writer = ZipWriter.fromState({
+        offset: 5_000_000_000,
+        entries: [
+          {
+            name: 'big.mp4',
+            method: 0,
+            crc: 0,
+            compressedSize: 10,
+            size: 10,
+            offset: 4_999_999_950,
+            dosTime: 0,
+            dosDate: 0,
+          },
+        ],
+      })
+      const tail = writer.finish()
+
+      // 中央目录项的偏移字段写入 0xFFFFFFFF，真实值在 ZIP64 扩展字段中
+      expect(tail.readUInt32LE(42)).toBe(0xffffffff)
+      expect(tail.readUInt16LE(46 + 'big.mp4'.length)).toBe(0x0001)
+      expect(tail.readBigUInt64LE(46 + 'big.mp4'.length + 4)).toBe(4_999_999_950n)
+      expect(tail.indexOf(Buffer.from([0x50, 0x4b, 0x06, 0x06]))).toBeGreaterThan(0)
+      expect(tail.indexOf(Buffer.from([0x50, 0x4b, 0x06, 0x07]))).toBeGreaterThan(0)
+      expect(tail.readUInt32LE(tail.length - 6)).toBe(0xffffffff)
+    })
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * @fileoverview 可断点续写的 ZIP 生成器
+ *
+ * @description
+ * 打包下载需要把 ZIP 边生成边上传（分片上传），并在 Worker 重启后从上次的位置继续。
+ * 通用 ZIP 库（如 archiver）的内部状态无法保存和恢复，因此这里按 ZIP 规范直接写入，不依赖第三方库：
+ * 每个文件在写入前已完整读入内存，CRC 和大小已知，本地文件头不需要数据描述符；
+ * 写入器只需记录当前偏移和已写入文件的目录项（getState），即可在任意文件边界恢复（fromState）。
+ * 文件名使用 UTF-8（通用标志位 11），大小或偏移超过 4GB、文件数超过 65535 时使用 ZIP64。
+ *
+ * @module lib/zip-writer
+ */
+
+import zlib from "zlib";
+import { promisify } from "util";
+
+const deflateRaw = promisify(zlib.deflateRaw);
+
+/** 4 字节字段的上限，超过时改用 ZIP64 扩展字段 */
+const ZIP32_MAX = 0xffffffff;
+/** 2 字节文件数字段的上限 */
+const ZIP32_MAX_ENTRIES = 0xffff;
+/** 通用标志位：文件名为 UTF-8 编码 */
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+/**
+ * 已写入文件的目录项（生成中央目录所需的全部信息，可 JSON 序列化）
+ */
+export interface ZipEntryRecord {
+  name: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  /** 本地文件头在 ZIP 中的偏移 */
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+/**
+ * 写入器状态（断点续写时保存）
+ */
+export interface ZipWriterState {
+  /** 已输出的字节数 */
+  offset: number;
+  entries: ZipEntryRecord[];
+}
+
+export interface ZipEntryOptions {
+  /** 不压缩（JPEG、视频等已压缩格式压缩收益很小，直接存储更快） */
+  store?: boolean;
+  /** 修改时间，默认当前时间 */
+  date?: Date;
+}
+
+/** 已压缩的格式，打包时直接存储 */
+const STORED_EXTENSIONS = new Set([
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".gif",
+  ".webp",
+  ".heic",
+  ".mp4",
+  ".mov",
+  ".zip",
+]);
+
+/**
+ * 判断文件是否应直接存储（不压缩）
+ *
+ * @param filename - 文件名
+ */
+export function shouldStoreUncompressed(filename: string): boolean {
+  const dotIndex = filename.lastIndexOf(".");
+  return dotIndex >= 0 && STORED_EXTENSIONS.has(filename.slice(dotIndex).toLowerCase());
+}
+
+// Node 20.15 起提供 zlib.crc32，更早的版本使用查表实现
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+  if (typeof zlib.crc32 === "function") {
+    return zlib.crc32(data);
+  }
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * 构造 ZIP64 扩展字段（只包含溢出的字段，顺序固定：原始大小、压缩大小、偏移）
+ */
+function zip64Extra(values: number[]): Buffer {
+  if (values.length === 0) {
+    return Buffer.alloc(0);
+  }
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, index) => extra.writeBigUInt64LE(BigInt(value), 4 + index * 8));
+  return extra;
+}
+
+/**
+ * 流式 ZIP 写入器
+ *
+ * @example
+ * ```typescript
+ * const writer = new ZipWriter();
+ * const chunks = await writer.addEntry("有水印/a.jpg", buffer, { store: true });
+ * // ...将 chunks 写入输出，保存 writer.getState() 作为断点
+ * const tail = writer.finish();
+ * ```
+ */
+export class ZipWriter {
+  private offset: number;
+  private entries: ZipEntryRecord[];
+
+  constructor(state?: ZipWriterState) {
+    this.offset = state?.offset ?? 0;
+    this.entries = state ? [...state.entries] : [];
+  }
+
+  /**
+   * 从断点状态恢复写入器
+   */
+  static fromState(state: ZipWriterState): ZipWriter {
+    return new ZipWriter(state);
+  }
+
+  /**
+   * 当前状态（每次调用返回新对象）
+   */
+  getState(): ZipWriterState {
+    return { offset: this.offset, entries: [...this.entries] };
+  }
+
+  /** 已输出的字节数 */
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  /**
+   * 添加文件
+   *
+   * @param name - ZIP 内路径（使用 / 分隔目录）
+   * @param data - 文件内容
+   * @param options - 压缩选项
+   * @returns 需要按顺序输出的数据块（本地文件头 + 文件数据）
+   */
+  async addEntry(name: string, data: Buffer, options: ZipEntryOptions = {}): Promise<Buffer[]> {
+    const store = options.store ?? shouldStoreUncompressed(name);
+    const compressed = store ? data : await deflateRaw(data);
+    const { dosTime, dosDate } = toDosDateTime(options.date ?? new Date());
+    const record: ZipEntryRecord = {
+      name,
+      method: store ? METHOD_STORE : METHOD_DEFLATE,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+      dosTime,
+      dosDate,
+    };
+
+    const nameBuffer = Buffer.from(name, "utf8");
+    const zip64 = record.size >= ZIP32_MAX || record.compressedSize >= ZIP32_MAX;
+    // 本地文件头的 ZIP64 扩展字段必须同时包含原始大小和压缩大小
+    const extra = zip64 ? zip64Extra([record.size, record.compressedSize]) : Buffer.alloc(0);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(record.method, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt32LE(record.crc, 14);
+    header.writeUInt32LE(zip64 ? ZIP32_MAX : record.compressedSize, 18);
+    header.writeUInt32LE(zip64 ? ZIP32_MAX : record.size, 22);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+
+    this.entries.push(record);
+    this.offset += header.length + nameBuffer.length + extra.length + compressed.length;
+    return [header, nameBuffer, extra, compressed];
+  }
+
+  /**
+   * 结束写入，生成中央目录和结束记录
+   *
+   * @returns 需要追加到 ZIP 末尾的数据
+   */
+  finish(): Buffer {
+    const centralStart = this.offset;
+    const chunks: Buffer[] = [];
+
+    for (const entry of this.entries) {
+      const nameBuffer = Buffer.from(entry.name, "utf8");
+      const overflow = [
+        entry.size >= ZIP32_MAX ? entry.size : null,
+        entry.compressedSize >= ZIP32_MAX ? entry.compressedSize : null,
+        entry.offset >= ZIP32_MAX ? entry.offset : null,
+      ].filter((value): value is number => value !== null);
+      const extra = zip64Extra(overflow);
+      const version = overflow.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(version, 4);
+      header.writeUInt16LE(version, 6);
+      header.writeUInt16LE(FLAG_UTF8, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.dosTime, 12);
+      header.writeUInt16LE(entry.dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(Math.min(entry.compressedSize, ZIP32_MAX), 20);
+      header.writeUInt32LE(Math.min(entry.size, ZIP32_MAX), 24);
+      header.writeUInt16LE(nameBuffer.length, 28);
+      header.writeUInt16LE(extra.length, 30);
+      // 注释长度、起始磁盘号、内部属性、外部属性均为 0
+      header.writeUInt32LE(Math.min(entry.offset, ZIP32_MAX), 42);
+      chunks.push(header, nameBuffer, extra);
+    }
+
+    const centralSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const centralEnd = centralStart + centralSize;
+    const needsZip64 =
+      this.entries.length >= ZIP32_MAX_ENTRIES || centralStart >= ZIP32_MAX || centralSize >= ZIP32_MAX;
+
+    if (needsZip64) {
+      const record = Buffer.alloc(56);
+      record.writeUInt32LE(0x06064b50, 0);
+      record.writeBigUInt64LE(BigInt(44), 4);
+      record.writeUInt16LE(VERSION_ZIP64, 12);
+      record.writeUInt16LE(VERSION_ZIP64, 14);
+      record.writeBigUInt64LE(BigInt(this.entries.length), 24);
+      record.writeBigUInt64LE(BigInt(this.entries.length), 32);
+      record.writeBigUInt64LE(BigInt(centralSize), 40);
+      record.writeBigUInt64LE(BigInt(centralStart), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeBigUInt64LE(BigInt(centralEnd), 8);
+      locator.writeUInt32LE(1, 16);
+      chunks.push(record, locator);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Math.min(this.entries.length, ZIP32_MAX_ENTRIES), 8);
+    end.writeUInt16LE(Math.min(this.entries.length, ZIP32_MAX_ENTRIES), 10);
+    end.writeUInt32LE(Math.min(centralSize, ZIP32_MAX), 12);
+    end.writeUInt32LE(Math.min(centralStart, ZIP32_MAX), 16);
+    chunks.push(end);
+
+    const tail = Buffer.concat(chunks);
+    this.offset += tail.length;
+    return tail;
+  }
+}
@@ -1,9 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { PackageCreator } from './package-creator.js'
+import { PackageCreator, type PackageResumeState } from './package-creator.js'
+
+const uploadedParts = new Map<number, Buffer>()
 
 // Mock dependencies
 vi.mock('./lib/storage/index.js', () => ({
   downloadFile: vi.fn().mockResolvedValue(Buffer.from('image-data')),
+  initMultipartUpload: vi.fn().mockResolvedValue('upload-1'),
+  uploadPart: vi.fn(async (_key: string, _uploadId: string, partNumber: number, buffer: Buffer) => {
+    uploadedParts.set(partNumber, Buffer.from(buffer))
+    return { etag: `"etag-${partNumber}"` }
+  }),
+  completeMultipartUpload: vi.fn().mockResolvedValue(undefined),
+  abortMultipartUpload: vi.fn().mockResolvedValue(undefined),
 }))
 
 vi.mock('./processor.js', () => ({
@@ -21,118 +30,308 @@ vi.mock('./processor.js', () => ({
   },
 }))
 
-// Mock archiver
-vi.mock('archiver', () => {
-  const mockArchive = {
-    on: vi.fn((event, callback) => {
-      if (event === 'end') {
-        setTimeout(() => callback(), 0)
-      }
-      return mockArchive
-    }),
-    append: vi.fn(),
-    finalize: vi.fn(),
-  }
-  
-  return {
-    default: vi.fn().mockReturnValue(mockArchive),
+vi.mock('./lib/fingerprint.js', () => ({
+  embedFingerprint: vi.fn(async (buffer: Buffer, code: string) => ({
+    buffer: Buffer.concat([buffer, Buffer.from(`:${code}`)]),
+    format: 'jpeg',
+    embedded: true,
+  })),
+}))
+
+/** 按分片编号拼接已上传的内容 */
+function assembleZip(): Buffer {
+  return Buffer.concat([...uploadedParts.entries()].sort(([a], [b]) => a - b).map(([, buffer]) => buffer))
+}
+
+/** 从中央目录读取文件名和压缩方式 */
+function listZipEntries(zip: Buffer): Array<{ name: string; method: number }> {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  let pos = zip.readUInt32LE(end + 16)
+  const entries: Array<{ name: string; method: number }> = []
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const nameLength = zip.readUInt16LE(pos + 28)
+    entries.push({
+      name: zip.subarray(pos + 46, pos + 46 + nameLength).toString('utf8'),
+      method: zip.readUInt16LE(pos + 10),
+    })
+    pos += 46 + nameLength + zip.readUInt16LE(pos + 30) + zip.readUInt16LE(pos + 32)
   }
-})
+  return entries
+}
+
+const upload = { zipKey: 'packages/album-1/pkg-1.zip' }
 
 describe('PackageCreator', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks()
+    uploadedParts.clear()
+    const { downloadFile } = await import('./lib/storage/index.js')
+    vi.mocked(downloadFile).mockResolvedValue(Buffer.from('image-data'))
   })
 
   describe('createPackage', () => {
     it('should throw error if no photos provided', async () => {
       await expect(
-        PackageCreator.createPackage({
-          photos: [],
-          albumId: 'album-1',
-          includeWatermarked: true,
-          includeOriginal: false,
-        })
+        PackageCreator.createPackage(
+          {
+            photos: [],
+            albumId: 'album-1',
+            includeWatermarked: true,
+            includeOriginal: false,
+          },
+          upload
+        )
       ).rejects.toThrow('No photos provided for packaging')
     })
 
     it('should throw error if neither includeWatermarked nor includeOriginal is true', async () => {
       await expect(
-        PackageCreator.createPackage({
-          photos: [{ id: '1', filename: 'test.jpg', originalKey: 'original/1.jpg' }],
+        PackageCreator.createPackage(
+          {
+            photos: [{ id: '1', filename: 'test.jpg', originalKey: 'original/1.jpg' }],
+            albumId: 'album-1',
+            includeWatermarked: false,
+            includeOriginal: false,
+          },
+          upload
+        )
+      ).rejects.toThrow('At least one of includeWatermarked or includeOriginal must be true')
+    })
+
+    it('should stream original photos into a multipart upload', async () => {
+      const storage = await import('./lib/storage/index.js')
+      const onProgress = vi.fn()
+
+      const result = await PackageCreator.createPackage(
+        {
+          photos: [
+            { id: '1', filename: 'test1.jpg', originalKey: 'original/1.jpg' },
+            { id: '2', filename: 'test2.jpg', originalKey: 'original/2.jpg' },
+          ],
           albumId: 'album-1',
           includeWatermarked: false,
-          includeOriginal: false,
-        })
-      ).rejects.toThrow('At least one of includeWatermarked or includeOriginal must be true')
+          includeOriginal: true,
+        },
+        {
+          ...upload,
+          metadata: { 'Content-Type': 'application/zip' },
+          onProgress,
+        }
+      )
+
+      expect(storage.initMultipartUpload).toHaveBeenCalledWith('packages/album-1/pkg-1.zip', {
+        'Content-Type': 'application/zip',
+      })
+      expect(storage.completeMultipartUpload).toHaveBeenCalledWith('packages/album-1/pkg-1.zip', 'upload-1', [
+        { partNumber: 1, etag: '"etag-1"' },
+      ])
+      const zip = assembleZip()
+      expect(result).toEqual({ fileSize: zip.length, processedCount: 2, failedCount: 0 })
+      // JPEG 直接存储，不再压缩
+      expect(listZipEntries(zip)).toEqual([
+        { name: '无水印/test1.jpg', method: 0 },
+        { name: '无水印/test2.jpg', method: 0 },
+      ])
+      expect(onProgress).toHaveBeenLastCalledWith({ completed: 2, total: 2, percent: 99 })
     })
 
-    it('should create package with original photos', async () => {
+    it('should use the preview key when creating watermarked package', async () => {
       const { downloadFile } = await import('./lib/storage/index.js')
-      const archiver = await import('archiver')
-      // archiver.default 是一个 mock 函数，调用它会返回 mockArchive
-      const mockArchiveInstance = archiver.default() as any
-      
-      const buffer = await PackageCreator.createPackage({
-        photos: [
-          { id: '1', filename: 'test1.jpg', originalKey: 'original/1.jpg' },
-          { id: '2', filename: 'test2.jpg', originalKey: 'original/2.jpg' },
-        ],
-        albumId: 'album-1',
-        includeWatermarked: false,
-        includeOriginal: true,
-      })
 
-      expect(buffer).toBeInstanceOf(Buffer)
-      expect(downloadFile).toHaveBeenCalled()
-      expect(mockArchiveInstance.append).toHaveBeenCalled()
+      await PackageCreator.createPackage(
+        {
+          photos: [
+            {
+              id: '1',
+              filename: 'test1.jpg',
+              originalKey: 'original/1.jpg',
+              previewKey: 'preview/1.jpg',
+            },
+          ],
+          albumId: 'album-1',
+          includeWatermarked: true,
+          includeOriginal: false,
+          watermarkConfig: {
+            enabled: true,
+          },
+        },
+        upload
+      )
+
+      // 应该下载 preview key 而不是处理原图
+      expect(downloadFile).toHaveBeenCalledWith('preview/1.jpg')
+      expect(listZipEntries(assembleZip())).toEqual([{ name: '有水印/test1.jpg', method: 0 }])
     })
 
-    it('should create package with watermarked photos', async () => {
-      const buffer = await PackageCreator.createPackage({
-        photos: [
-          {
-            id: '1',
-            filename: 'test1.jpg',
-            originalKey: 'original/1.jpg',
-            previewKey: 'preview/1.jpg',
+    it('should embed the download fingerprint into both versions of photos', async () => {
+      const { embedFingerprint } = await import('./lib/fingerprint.js')
+
+      await PackageCreator.createPackage(
+        {
+          photos: [
+            { id: '1', filename: 'test1.jpg', originalKey: 'original/1.jpg', previewKey: 'preview/1.jpg' },
+            { id: '2', filename: 'clip.mp4', originalKey: 'raw/album-1/2.mp4', mediaType: 'video' },
+          ],
+          albumId: 'album-1',
+          includeWatermarked: true,
+          includeOriginal: true,
+          watermarkConfig: { enabled: true },
+          fingerprint: 'abcdef012345',
+        },
+        upload
+      )
+
+      // 视频不嵌入指纹
+      expect(embedFingerprint).toHaveBeenCalledTimes(2)
+      expect(embedFingerprint).toHaveBeenCalledWith(Buffer.from('image-data'), 'abcdef012345')
+      expect(assembleZip().includes(Buffer.from('image-data:abcdef012345'))).toBe(true)
+    })
+
+    it('should store videos uncompressed and use transcoded preview for watermarked folder', async () => {
+      const { downloadFile } = await import('./lib/storage/index.js')
+
+      await PackageCreator.createPackage(
+        {
+          photos: [
+            {
+              id: '1',
+              filename: 'clip.avi',
+              originalKey: 'raw/album-1/1.avi',
+              previewKey: 'processed/previews/album-1/1.jpg',
+              mediaType: 'video',
+              videoKey: 'processed/videos/album-1/1.mp4',
+            },
+          ],
+          albumId: 'album-1',
+          includeWatermarked: true,
+          includeOriginal: true,
+          watermarkConfig: {
+            enabled: true,
           },
-        ],
-        albumId: 'album-1',
-        includeWatermarked: true,
-        includeOriginal: false,
-        watermarkConfig: {
-          enabled: true,
-          type: 'text',
-          text: 'Watermark',
         },
+        upload
+      )
+
+      expect(downloadFile).toHaveBeenCalledWith('processed/videos/album-1/1.mp4')
+      // 封面帧不应作为视频的水印版本
+      expect(downloadFile).not.toHaveBeenCalledWith('processed/previews/album-1/1.jpg')
+      expect(listZipEntries(assembleZip())).toEqual([
+        { name: '无水印/clip.avi', method: 0 },
+        { name: '有水印/clip.mp4', method: 0 },
+      ])
+    })
+
+    it('should place photos under group folders with their package names and add a manifest', async () => {
+      const manifest = vi.fn((ids: string[]) => `id\r\n${ids.join('\r\n')}\r\n`)
+      const storage = await import('./lib/storage/index.js')
+      vi.mocked(storage.downloadFile).mockImplementation(async (key: string) => {
+        if (key === 'original/2.jpg') throw new Error('NoSuchKey')
+        return Buffer.from('image-data')
       })
 
-      expect(buffer).toBeInstanceOf(Buffer)
+      const result = await PackageCreator.createPackage(
+        {
+          photos: [
+            { id: '1', filename: 'IMG_1.jpg', originalKey: 'original/1.jpg', folder: '仪式', packageName: '婚礼_仪式_001.jpg' },
+            { id: '2', filename: 'IMG_2.jpg', originalKey: 'original/2.jpg', folder: '仪式', packageName: '婚礼_仪式_002.jpg' },
+            { id: '3', filename: 'IMG_3.jpg', originalKey: 'original/3.jpg', folder: '晚宴', packageName: '婚礼_晚宴_001.jpg' },
+          ],
+          albumId: 'album-1',
+          includeWatermarked: false,
+          includeOriginal: true,
+          manifest,
+        },
+        upload
+      )
+
+      expect(result.failedCount).toBe(1)
+      // 失败的照片不写入清单
+      expect(manifest).toHaveBeenCalledWith(['1', '3'])
+      expect(listZipEntries(assembleZip()).map((entry) => entry.name)).toEqual([
+        '仪式/无水印/婚礼_仪式_001.jpg',
+        '晚宴/无水印/婚礼_晚宴_001.jpg',
+        'manifest.csv',
+      ])
     })
 
-    it('should handle preview key when creating watermarked package', async () => {
+    it('should upload parts and checkpoint once the buffer reaches the part size', async () => {
       const { downloadFile } = await import('./lib/storage/index.js')
-      
-      await PackageCreator.createPackage({
-        photos: [
-          {
-            id: '1',
-            filename: 'test1.jpg',
-            originalKey: 'original/1.jpg',
-            previewKey: 'preview/1.jpg',
-          },
-        ],
-        albumId: 'album-1',
-        includeWatermarked: true,
-        includeOriginal: false,
-        watermarkConfig: {
-          enabled: true,
+      vi.mocked(downloadFile).mockResolvedValue(Buffer.alloc(10 * 1024 * 1024))
+      const checkpoints: PackageResumeState[] = []
+
+      await PackageCreator.createPackage(
+        {
+          photos: [1, 2, 3].map((n) => ({ id: `${n}`, filename: `${n}.jpg`, originalKey: `original/${n}.jpg` })),
+          albumId: 'album-1',
+          includeWatermarked: false,
+          includeOriginal: true,
         },
+        { ...upload, onCheckpoint: (state) => void checkpoints.push(state) }
+      )
+
+      // 初始断点 + 第 2 张照片后缓冲区超过 16MB 上传第 1 个分片
+      expect(checkpoints.map((state) => [state.nextIndex, state.parts.length])).toEqual([
+        [0, 0],
+        [2, 1],
+      ])
+      expect(checkpoints[1].zip.offset).toBe(uploadedParts.get(1)!.length)
+      expect(uploadedParts.size).toBe(2)
+      expect(listZipEntries(assembleZip()).map((entry) => entry.name)).toEqual(['无水印/1.jpg', '无水印/2.jpg', '无水印/3.jpg'])
+    })
+
+    it('should resume from a checkpoint without re-downloading finished photos', async () => {
+      const storage = await import('./lib/storage/index.js')
+      const options = {
+        photos: [1, 2, 3].map((n) => ({ id: `${n}`, filename: `${n}.jpg`, originalKey: `original/${n}.jpg` })),
+        albumId: 'album-1',
+        includeWatermarked: false,
+        includeOriginal: true,
+      }
+      vi.mocked(storage.downloadFile).mockResolvedValue(Buffer.alloc(10 * 1024 * 1024))
+      let checkpoint: PackageResumeState | undefined
+      vi.mocked(storage.uploadPart).mockImplementationOnce(async (_key, _id, partNumber, buffer) => {
+        uploadedParts.set(partNumber, Buffer.from(buffer))
+        return { etag: `"etag-${partNumber}"` }
       })
+      // 模拟最后一个分片上传时 Worker 中断
+      vi.mocked(storage.uploadPart).mockRejectedValueOnce(new Error('connection reset'))
 
-      // 应该下载 preview key 而不是处理原图
-      expect(downloadFile).toHaveBeenCalledWith('preview/1.jpg')
+      await expect(
+        PackageCreator.createPackage(options, { ...upload, onCheckpoint: (state) => void (checkpoint = state) })
+      ).rejects.toThrow('connection reset')
+      expect(checkpoint?.nextIndex).toBe(2)
+
+      vi.mocked(storage.downloadFile).mockClear()
+      vi.mocked(storage.initMultipartUpload).mockClear()
+      const result = await PackageCreator.createPackage(options, {
+        ...upload,
+        resumeState: JSON.parse(JSON.stringify(checkpoint)),
+      })
+
+      expect(storage.initMultipartUpload).not.toHaveBeenCalled()
+      expect(storage.downloadFile).toHaveBeenCalledTimes(1)
+      expect(storage.downloadFile).toHaveBeenCalledWith('original/3.jpg')
+      expect(result.processedCount).toBe(3)
+      expect(listZipEntries(assembleZip()).map((entry) => entry.name)).toEqual(['无水印/1.jpg', '无水印/2.jpg', '无水印/3.jpg'])
+    })
+
+    it('should abort the upload when no photo could be processed', async () => {
+      const storage = await import('./lib/storage/index.js')
+      vi.mocked(storage.downloadFile).mockRejectedValue(new Error('NoSuchKey'))
+
+      await expect(
+        PackageCreator.createPackage(
+          {
+            photos: [{ id: '1', filename: 'test.jpg', originalKey: 'original/1.jpg' }],
+            albumId: 'album-1',
+            includeWatermarked: false,
+            includeOriginal: true,
+          },
+          upload
+        )
+      ).rejects.toThrow('No photos were successfully processed')
+      expect(storage.abortMultipartUpload).toHaveBeenCalledWith('packages/album-1/pkg-1.zip', 'upload-1')
+      expect(storage.completeMultipartUpload).not.toHaveBeenCalled()
     })
   })
 })
@@ -1,6 +1,14 @@
-import archiver from 'archiver';
-import { downloadFile } from './lib/storage/index.js';
+import {
+  downloadFile,
+  initMultipartUpload,
+  uploadPart,
+  completeMultipartUpload,
+  abortMultipartUpload,
+} from './lib/storage/index.js';
+import { UnrecoverableError } from 'bullmq';
+import { ZipWriter, type ZipWriterState } from './lib/zip-writer.js';
 import { PhotoProcessor, type SingleWatermark } from './processor.js';
+import { embedFingerprint } from './lib/fingerprint.js';
 
 export interface PackageOptions {
   photos: Array<{
@@ -8,6 +16,13 @@ export interface PackageOptions {
     filename: string;
     originalKey: string;
     previewKey?: string | null;
+    mediaType?: 'image' | 'video';
+    /** 视频的网页预览（转码后的 MP4） */
+    videoKey?: string | null;
+    /** 包内目录（如分组名），为空时放在根目录 */
+    folder?: string;
+    /** 包内文件名，默认使用原文件名 */
+    packageName?: string;
   }>;
   albumId: string;
   watermarkConfig?: {
@@ -18,129 +33,328 @@ export interface PackageOptions {
   };
   includeWatermarked: boolean;
   includeOriginal: boolean;
+  /** 生成清单 CSV，参数为成功打包的照片 ID（按包内顺序） */
+  manifest?: (includedPhotoIds: string[]) => string;
+  /** 下载指纹编号，有水印和无水印版本的照片都嵌入（视频不处理） */
+  fingerprint?: string | null;
 }
 
+/** 清单在包内的文件名 */
+export const MANIFEST_FILENAME = 'manifest.csv';
+/** 原图目录 */
+const ORIGINAL_FOLDER = '无水印';
+/** 水印版本目录 */
+const WATERMARKED_FOLDER = '有水印';
+
+/**
+ * 打包断点（保存在 package_downloads.resume_state）
+ * 只在分片全部上传、缓冲区为空的文件边界记录，恢复时从 nextIndex 继续
+ */
+export interface PackageResumeState {
+  uploadId: string;
+  zipKey: string;
+  /** 下一张待处理照片的下标 */
+  nextIndex: number;
+  total: number;
+  processedCount: number;
+  /** 处理失败的照片（不写入清单） */
+  failedPhotoIds: string[];
+  parts: Array<{ partNumber: number; etag: string }>;
+  zip: ZipWriterState;
+}
+
+export interface PackageProgress {
+  /** 已处理的照片数（含失败） */
+  completed: number;
+  total: number;
+  /** 0-100 */
+  percent: number;
+}
+
+export interface PackageUploadOptions {
+  /** ZIP 在存储中的键 */
+  zipKey: string;
+  /** ZIP 对象元数据（Content-Type、Content-Disposition） */
+  metadata?: Record<string, string>;
+  /** 上次中断时保存的断点 */
+  resumeState?: PackageResumeState | null;
+  onProgress?: (progress: PackageProgress) => void | Promise<void>;
+  onCheckpoint?: (state: PackageResumeState) => void | Promise<void>;
+}
+
+export interface PackageResult {
+  fileSize: number;
+  processedCount: number;
+  failedCount: number;
+}
+
+interface PackageEntry {
+  name: string;
+  data: Buffer;
+  /** 强制不压缩；未指定时按扩展名判断 */
+  store?: boolean;
+}
+
+/** 分片大小（除最后一个分片外不得小于存储服务的 5MB 下限） */
+const PART_SIZE = 16 * 1024 * 1024;
+/** 提前下载和处理的照片数，与上传重叠进行 */
+const PREFETCH_COUNT = 2;
+
 /**
  * 创建照片打包 ZIP 文件
  * 支持有水印和无水印两个版本
  */
 export class PackageCreator {
   /**
-   * 创建 ZIP 文件 Buffer
-   * 优化：使用流式处理，避免将所有照片加载到内存
+   * 创建 ZIP 并以分片上传的方式写入存储
+   *
+   * 照片逐张加入 ZIP，缓冲区超过分片大小即上传，内存中只保留正在处理的照片和一个分片；
+   * 每次上传后调用 onCheckpoint 保存断点，Worker 重启后传入 resumeState 从断点继续。
+   * JPEG、视频等已压缩格式直接存储，不再压缩。
    */
-  static async createPackage(options: PackageOptions): Promise<Buffer> {
-    const { photos, watermarkConfig, includeWatermarked, includeOriginal } = options;
-    
+  static async createPackage(
+    options: PackageOptions,
+    upload: PackageUploadOptions
+  ): Promise<PackageResult> {
+    const { photos, includeWatermarked, includeOriginal } = options;
+    const { zipKey, metadata, onProgress, onCheckpoint } = upload;
+
     // 输入验证
     if (!photos || photos.length === 0) {
       throw new Error('No photos provided for packaging');
     }
-    
+
     if (!includeWatermarked && !includeOriginal) {
       throw new Error('At least one of includeWatermarked or includeOriginal must be true');
     }
-    
-    return new Promise((resolve, reject) => {
-      const archive = archiver('zip', {
-        zlib: { level: 9 }, // 最高压缩级别
-      });
 
-      const chunks: Buffer[] = [];
+    // 断点与当前任务不一致（照片列表变化等）时重新开始
+    const resume =
+      upload.resumeState &&
+      upload.resumeState.zipKey === zipKey &&
+      upload.resumeState.total === photos.length
+        ? upload.resumeState
+        : null;
 
-      archive.on('data', (chunk: Buffer) => {
-        chunks.push(chunk);
-      });
+    const uploadId = resume?.uploadId ?? (await initMultipartUpload(zipKey, metadata));
+    const writer = resume ? ZipWriter.fromState(resume.zip) : new ZipWriter();
+    const parts = resume ? [...resume.parts] : [];
+    let processedCount = resume?.processedCount ?? 0;
+    const failedPhotoIds = [...(resume?.failedPhotoIds ?? [])];
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
 
-      archive.on('end', () => {
-        resolve(Buffer.concat(chunks));
+    const checkpoint = (nextIndex: number) =>
+      onCheckpoint?.({
+        uploadId,
+        zipKey,
+        nextIndex,
+        total: photos.length,
+        processedCount,
+        failedPhotoIds: [...failedPhotoIds],
+        parts: [...parts],
+        zip: writer.getState(),
       });
 
-      archive.on('error', (err) => {
-        reject(err);
+    if (resume) {
+      console.log(`[PackageCreator] Resuming ${zipKey} from photo ${resume.nextIndex + 1}/${photos.length}`);
+    } else {
+      // 立即记录上传 ID，中断后可以继续或清理
+      await checkpoint(0);
+    }
+
+    // 上传缓冲区：除最后一次外，每个分片不小于 PART_SIZE，不足的尾部并入最后一个分片
+    const flush = async (final: boolean) => {
+      const data = Buffer.concat(pending);
+      pending = [];
+      pendingSize = 0;
+      let start = 0;
+      while (start < data.length || (final && parts.length === 0)) {
+        const end = data.length - start < PART_SIZE * 2 ? data.length : start + PART_SIZE;
+        const partNumber = parts.length + 1;
+        const { etag } = await uploadPart(zipKey, uploadId, partNumber, data.subarray(start, end));
+        parts.push({ partNumber, etag });
+        start = end;
+      }
+    };
+
+    const prefetched = new Map<number, Promise<PackageEntry[] | null>>();
+    const prefetch = (index: number) => {
+      if (index < photos.length && !prefetched.has(index)) {
+        prefetched.set(index, PackageCreator.prepareEntries(photos[index], options));
+      }
+    };
+
+    for (let i = resume?.nextIndex ?? 0; i < photos.length; i++) {
+      for (let j = i; j <= i + PREFETCH_COUNT; j++) {
+        prefetch(j);
+      }
+      const entries = await prefetched.get(i)!;
+      prefetched.delete(i);
+
+      if (entries) {
+        for (const entry of entries) {
+          for (const chunk of await writer.addEntry(entry.name, entry.data, { store: entry.store })) {
+            pending.push(chunk);
+            pendingSize += chunk.length;
+          }
+        }
+        processedCount++;
+      } else {
+        failedPhotoIds.push(photos[i].id);
+      }
+
+      if (pendingSize >= PART_SIZE) {
+        await flush(false);
+        await checkpoint(i + 1);
+      }
+
+      await onProgress?.({
+        completed: i + 1,
+        total: photos.length,
+        // 上传完成前最多显示 99%
+        percent: Math.min(99, Math.floor(((i + 1) / photos.length) * 100)),
       });
+    }
+
+    if (processedCount === 0) {
+      await abortMultipartUpload(zipKey, uploadId).catch(() => {});
+      // 上传已终止，重试无法从断点继续
+      throw new UnrecoverableError('No photos were successfully processed');
+    }
+
+    if (options.manifest) {
+      const failed = new Set(failedPhotoIds);
+      const csv = options.manifest(photos.filter((photo) => !failed.has(photo.id)).map((photo) => photo.id));
+      pending.push(...(await writer.addEntry(MANIFEST_FILENAME, Buffer.from(csv, 'utf8'))));
+    }
 
-      // 处理每张照片（优化：批量并行处理，控制并发数）
-      (async () => {
-        try {
-          const BATCH_SIZE = 5; // 每批处理5张照片，避免内存溢出
-          let processedCount = 0;
-          let failedCount = 0;
-          
-          for (let i = 0; i < photos.length; i += BATCH_SIZE) {
-            const batch = photos.slice(i, i + BATCH_SIZE);
-            
-            // 并行处理一批照片
-            await Promise.all(
-              batch.map(async (photo) => {
-                try {
-                  // 下载原图
-                  const originalBuffer = await downloadFile(photo.originalKey);
-
-                  if (includeOriginal) {
-                    // 添加原图（无水印版本）
-                    archive.append(originalBuffer, {
-                      name: `无水印/${photo.filename}`,
-                    });
-                  }
-
-                  if (includeWatermarked) {
-                    let watermarkedBuffer: Buffer;
-                    
-                    if (watermarkConfig?.enabled) {
-                      // 如果有预览图且启用了水印，优先使用预览图（已处理过水印）
-                      if (photo.previewKey) {
-                        try {
-                          watermarkedBuffer = await downloadFile(photo.previewKey);
-                        } catch {
-                          // 如果预览图不存在，重新处理添加水印
-                          const processor = new PhotoProcessor(originalBuffer);
-                          const result = await processor.process(watermarkConfig as any);
-                          watermarkedBuffer = result.previewBuffer;
-                        }
-                      } else {
-                        // 重新处理添加水印
-                        const processor = new PhotoProcessor(originalBuffer);
-                        const result = await processor.process(watermarkConfig as any);
-                        watermarkedBuffer = result.previewBuffer;
-                      }
-                    } else {
-                      // 如果相册没有启用水印，使用原图
-                      watermarkedBuffer = originalBuffer;
-                    }
-
-                    // 添加水印版本
-                    archive.append(watermarkedBuffer, {
-                      name: `有水印/${photo.filename}`,
-                    });
-                  }
-                  
-                  processedCount++;
-                } catch (err) {
-                  failedCount++;
-                  console.error(`[PackageCreator] Failed to process photo ${photo.id}:`, err instanceof Error ? err.message : err);
-                  // 继续处理其他照片，不中断整个打包过程
-                }
-              })
-            );
-            
-            // 批次之间稍作延迟，避免内存压力过大
-            if (i + BATCH_SIZE < photos.length) {
-              await new Promise(resolve => setTimeout(resolve, 100));
+    const tail = writer.finish();
+    pending.push(tail);
+    await flush(true);
+    await completeMultipartUpload(zipKey, uploadId, parts);
+
+    if (failedPhotoIds.length > 0) {
+      console.warn(`[PackageCreator] ${failedPhotoIds.length}/${photos.length} photos failed in ${zipKey}`);
+    }
+
+    return { fileSize: writer.bytesWritten, processedCount, failedCount: failedPhotoIds.length };
+  }
+
+  /**
+   * 终止分片上传（打包最终失败时清理已上传的分片）
+   */
+  static async abortUpload(state: Pick<PackageResumeState, 'zipKey' | 'uploadId'>): Promise<void> {
+    await abortMultipartUpload(state.zipKey, state.uploadId);
+  }
+
+  /**
+   * 下载并准备一张照片的 ZIP 条目
+   *
+   * @returns 条目列表；处理失败时返回 null（不中断整个打包过程）
+   */
+  private static async prepareEntries(
+    photo: PackageOptions['photos'][number],
+    options: PackageOptions
+  ): Promise<PackageEntry[] | null> {
+    const { watermarkConfig, includeWatermarked, includeOriginal, fingerprint } = options;
+    try {
+      // 下载原图
+      const originalBuffer = await downloadFile(photo.originalKey);
+      const entries: PackageEntry[] = [];
+
+      // 视频本身已是压缩格式，不再压缩；也不叠加水印（水印仅作用于封面帧）
+      if (photo.mediaType === 'video') {
+        if (includeOriginal) {
+          entries.push({ name: PackageCreator.entryName(photo, ORIGINAL_FOLDER), data: originalBuffer, store: true });
+        }
+        if (includeWatermarked) {
+          entries.push(await PackageCreator.getVideoPreviewEntry(photo, originalBuffer));
+        }
+        return entries;
+      }
+
+      if (includeOriginal) {
+        // 添加原图（无水印版本）
+        const data = fingerprint ? (await embedFingerprint(originalBuffer, fingerprint)).buffer : originalBuffer;
+        entries.push({ name: PackageCreator.entryName(photo, ORIGINAL_FOLDER), data });
+      }
+
+      if (includeWatermarked) {
+        let watermarkedBuffer: Buffer;
+
+        if (watermarkConfig?.enabled) {
+          // 如果有预览图且启用了水印，优先使用预览图（已处理过水印）
+          if (photo.previewKey) {
+            try {
+              watermarkedBuffer = await downloadFile(photo.previewKey);
+            } catch {
+              // 如果预览图不存在，重新处理添加水印
+              const processor = new PhotoProcessor(originalBuffer);
+              const result = await processor.process(watermarkConfig as any);
+              watermarkedBuffer = result.previewBuffer;
             }
+          } else {
+            // 重新处理添加水印
+            const processor = new PhotoProcessor(originalBuffer);
+            const result = await processor.process(watermarkConfig as any);
+            watermarkedBuffer = result.previewBuffer;
           }
-          
-          if (processedCount === 0) {
-            throw new Error('No photos were successfully processed');
-          }
-          
-          // 所有照片处理完成后，完成归档
-          archive.finalize();
-        } catch (err) {
-          archive.abort();
-          reject(err);
+        } else {
+          // 如果相册没有启用水印，使用原图
+          watermarkedBuffer = originalBuffer;
+        }
+
+        if (fingerprint) {
+          watermarkedBuffer = (await embedFingerprint(watermarkedBuffer, fingerprint)).buffer;
         }
-      })();
-    });
+
+        // 添加水印版本
+        entries.push({ name: PackageCreator.entryName(photo, WATERMARKED_FOLDER), data: watermarkedBuffer });
+      }
+
+      return entries;
+    } catch (err) {
+      console.error(`[PackageCreator] Failed to process photo ${photo.id}:`, err instanceof Error ? err.message : err);
+      return null;
+    }
+  }
+
+  /**
+   * 照片在包内的路径：[分组目录/]版本目录/文件名
+   *
+   * @param extension - 替换扩展名（如视频预览为 .mp4）
+   */
+  private static entryName(
+    photo: PackageOptions['photos'][number],
+    versionFolder: string,
+    extension?: string
+  ): string {
+    const filename = photo.packageName || photo.filename;
+    const name = extension ? `${filename.replace(/\.[^.]+$/, '')}${extension}` : filename;
+    return [photo.folder, versionFolder, name].filter(Boolean).join('/');
+  }
+
+  /**
+   * 视频的网页预览版本（「有水印」目录）
+   * 优先使用转码后的 MP4（体积更小），不存在时回退到原始视频
+   */
+  private static async getVideoPreviewEntry(
+    photo: PackageOptions['photos'][number],
+    originalBuffer: Buffer
+  ): Promise<PackageEntry> {
+    if (photo.videoKey) {
+      try {
+        const previewBuffer = await downloadFile(photo.videoKey);
+        return {
+          name: PackageCreator.entryName(photo, WATERMARKED_FOLDER, '.mp4'),
+          data: previewBuffer,
+          store: true,
+        };
+      } catch {
+        // 预览视频不存在时使用原始视频
+      }
+    }
+    return { name: PackageCreator.entryName(photo, WATERMARKED_FOLDER), data: originalBuffer, store: true };
   }
 }
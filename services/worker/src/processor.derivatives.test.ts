@@ -0,0 +1,59 @@
+/**
+ * 响应式衍生图生成测试（使用真实 Sharp）
+ */
+
+import { describe, it, expect } from 'vitest'
+import sharp from 'sharp'
+import { PhotoProcessor } from './processor.js'
+
+/**
+ * 生成纯色测试图片
+ */
+function createImage(width: number, height: number): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 120, g: 160, b: 200 } },
+  })
+    .jpeg()
+    .toBuffer()
+}
+
+describe('PhotoProcessor derivatives', () => {
+  it('should not generate derivatives without config', async () => {
+    const processor = new PhotoProcessor(await createImage(300, 200))
+    const result = await processor.process()
+
+    expect(result.derivatives).toEqual([])
+  })
+
+  it('should generate each planned width in each format', async () => {
+    const processor = new PhotoProcessor(await createImage(300, 200))
+    const result = await processor.process(undefined, null, null, undefined, {
+      widths: [100, 200, 400],
+      formats: ['webp', 'jpeg'],
+    })
+
+    expect(result.derivatives.map((d) => `${d.width}x${d.height}.${d.format}`)).toEqual([
+      '100x67.webp',
+      '100x67.jpeg',
+      '200x133.webp',
+      '200x133.jpeg',
+      '300x200.webp',
+      '300x200.jpeg',
+    ])
+
+    const metadata = await sharp(result.derivatives[0].buffer).metadata()
+    expect(metadata.format).toBe('webp')
+  })
+
+  it('should encode AVIF derivatives', async () => {
+    const processor = new PhotoProcessor(await createImage(300, 200))
+    const result = await processor.process(undefined, null, null, undefined, {
+      widths: [100],
+      formats: ['avif', 'jpeg'],
+    })
+
+    expect(result.derivatives.map((d) => d.format)).toEqual(['avif', 'jpeg'])
+    const metadata = await sharp(result.derivatives[0].buffer).metadata()
+    expect(metadata.format).toBe('heif')
+  })
+})
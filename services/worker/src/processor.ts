@@ -5,7 +5,7 @@
  * 使用 Sharp 进行图片处理，包括：
  * - 自动/手动旋转
  * - 风格预设应用
- * - 水印添加（文本/Logo）
+ * - 水印添加（文本/Logo，单个位置或斜向平铺）
  * - BlurHash 生成
  * - 缩略图和预览图生成
  * - EXIF 数据提取和清理
@@ -27,8 +27,41 @@
 import sharp from 'sharp'
 import { encode } from 'blurhash'
 import exifReader from 'exif-reader'
-import { STYLE_PRESETS, getPresetById, type StylePresetConfig } from './lib/style-presets.js'
+import { getPresetById, type ResolvedStylePreset } from './lib/style-presets.js'
+import { applyPixelGrading, needsPixelGrading } from './lib/color-grading.js'
 import type { AIRetouchOptions } from './lib/ai-retouch.js'
+import { planDerivativeWidths, type DerivativeConfig, type DerivativeFormat } from './lib/derivatives.js'
+import {
+  buildTextStyleDefs,
+  buildTiledWatermarkSvg,
+  estimateTextWidth,
+  getTileRowPitch,
+  planWatermarkTiles,
+  renderWatermarkText,
+  resolveWatermarkVariables,
+  type WatermarkPattern,
+  type WatermarkTextStyle,
+  type WatermarkVariable,
+} from './lib/watermark.js'
+
+/** 衍生图编码参数（AVIF 使用较低 effort，避免单张照片处理时间过长） */
+const DERIVATIVE_ENCODE_OPTIONS: Record<DerivativeFormat, Record<string, unknown>> = {
+  avif: { quality: 50, effort: 2 },
+  webp: { quality: 80 },
+  jpeg: { quality: 82, progressive: true },
+}
+
+/**
+ * 生成的衍生图
+ */
+export interface GeneratedDerivative {
+  format: DerivativeFormat
+  /** 实际宽度 */
+  width: number
+  /** 实际高度 */
+  height: number
+  buffer: Buffer
+}
 
 /**
  * 处理结果
@@ -44,17 +77,23 @@ export interface ProcessedResult {
   thumbBuffer: Buffer
   /** 预览图 Buffer（带水印） */
   previewBuffer: Buffer
+  /** 响应式衍生图（带水印），未配置尺寸阶梯时为空数组 */
+  derivatives: GeneratedDerivative[]
 }
 
 /**
  * 单个水印配置
+ *
+ * 文字样式（字体、颜色、描边、投影）见 WatermarkTextStyle，平铺参数（角度、密度、间距）见 WatermarkPattern
  */
-export interface SingleWatermark {
+export interface SingleWatermark extends WatermarkTextStyle, WatermarkPattern {
   /** 水印 ID（用于 UI 管理） */
   id?: string
   /** 水印类型 */
   type: 'text' | 'logo'
-  /** 文本内容（type 为 text 时使用） */
+  /** 模式：single 为单个位置（默认），tiled 为斜向平铺整张图片（忽略 position 和 margin） */
+  mode?: 'single' | 'tiled'
+  /** 文本内容（type 为 text 时使用，支持 {date}、{camera} 等 EXIF 变量） */
   text?: string
   /** Logo URL（type 为 logo 时使用，需为 MinIO 或其他可访问的 URL） */
   logoUrl?: string
@@ -101,14 +140,18 @@ export interface WatermarkConfig {
 export class PhotoProcessor {
   /** Sharp 图像实例 */
   private image: sharp.Sharp
+  /** 外部提供的 EXIF（如从 RAW 文件读取），优先于图片自带的 EXIF */
+  private sourceExif: Record<string, any> | null
 
   /**
    * 创建照片处理器实例
    *
    * @param buffer - 图片 Buffer
+   * @param sourceExif - 已解析的 EXIF（可选，RAW 的内嵌预览通常不含完整 EXIF）
    */
-  constructor(buffer: Buffer) {
+  constructor(buffer: Buffer, sourceExif: Record<string, any> | null = null) {
     this.image = sharp(buffer)
+    this.sourceExif = sourceExif
   }
 
   /**
@@ -185,10 +228,10 @@ export class PhotoProcessor {
    * 1. modulate (brightness, saturation, hue) - 基础色彩调整
    * 2. linear (contrast) - 对比度调整
    * 3. gamma - 伽马校正
-   * 4. tint - 色调叠加
+   * 4. 逐像素调色（见 lib/color-grading）- 白平衡/tint、曲线、3D LUT、自然饱和度、暗角、颗粒
    *
    * **注意：** 顺序错误会导致画面色彩断层。必须先执行 modulate（基础色彩），
-   * 再执行 linear（对比度），最后执行 gamma。tint 在最后应用。
+   * 再执行 linear（对比度），最后执行 gamma。逐像素调色需要先解码，只在预设用到时执行。
    *
    * **参数映射说明：**
    * - brightness: 0.0 - 2.0，默认 1.0（无变化）
@@ -203,34 +246,35 @@ export class PhotoProcessor {
    *   - 这确保中间调（128 灰度）不动，只拉伸高光和阴影
    * - gamma: 0.1 - 3.0，默认 1.0（无变化）
    * - tint: RGB 色调叠加，用于色温模拟
-   *   - Sharp 的 .tint() 效果较强，如果发现偏色过重，可能需要调整
+   *   - 按通道增益处理（r/255, g/255, b/255），不使用 Sharp 的 .tint()（会替换色度变成单色调）
    *
    * **特殊预设处理：**
    * - high-key-bw: saturation 必须先清零（在 modulate 中处理），再应用高对比度和 gamma
    *
    * @param image - Sharp 图像对象
-   * @param presetId - 预设 ID（如 "japanese-fresh"）或 null 表示不应用风格
+   * @param stylePreset - 内置预设 ID（如 "japanese-fresh"）、已解析的预设（含自定义预设和 LUT）或 null 表示不应用风格
    * @returns 处理后的 Sharp 图像对象
    *
    * @internal
    */
-  private applyStylePreset(
+  private async applyStylePreset(
     image: sharp.Sharp,
-    presetId: string | null | undefined
-  ): sharp.Sharp {
+    stylePreset: string | ResolvedStylePreset | null | undefined
+  ): Promise<sharp.Sharp> {
     // Return original image if no preset selected or "none"
-    if (!presetId || presetId === 'none') {
+    if (!stylePreset || stylePreset === 'none') {
       return image;
     }
 
     // Get preset configuration
-    const preset = getPresetById(presetId);
+    const preset = typeof stylePreset === 'string' ? getPresetById(stylePreset) : stylePreset;
     if (!preset) {
-      console.warn(`[StylePreset] Unknown preset: ${presetId}, skipping`);
+      console.warn(`[StylePreset] Unknown preset: ${stylePreset}, skipping`);
       return image;
     }
 
     const config = preset.config;
+    const lut = 'lut' in preset ? preset.lut : null;
     let processedImage = image.clone();
 
     // ========== 步骤 1: Apply modulate (brightness, saturation, hue) ==========
@@ -291,15 +335,109 @@ export class PhotoProcessor {
       processedImage = processedImage.gamma(config.gamma);
     }
 
-    // ========== 步骤 4: Skip tint ==========
+    // ========== 步骤 4: 逐像素调色 ==========
     // 注意：Sharp 的 tint() 会强制替换图像的色度（chrominance），
     // 导致图像变成单色调（类似灰度着色），不适合用于色温调整。
-    // 色温效果已通过 hue 参数实现，tint 参数暂时忽略。
-    // 如需更精细的色温控制，可考虑使用 recomb() 颜色矩阵变换。
+    // tint、白平衡、曲线、LUT 等在解码后的 RGB 数据上处理，之后的缩放和编码基于处理结果
+    if (needsPixelGrading(config, lut)) {
+      const { data, info } = await processedImage
+        .toColourspace('srgb')
+        .raw({ depth: 'uchar' })
+        .toBuffer({ resolveWithObject: true });
+      applyPixelGrading(data, info, config, lut);
+      processedImage = sharp(data, { raw: info });
+    }
 
     return processedImage;
   }
 
+  /**
+   * 生成风格预览图（管理后台风格选择器使用，与正式处理使用同一套调色）
+   *
+   * @param stylePreset - 预设 ID 或已解析的预设，null 时返回未调色的缩略图
+   * @param maxSize - 长边尺寸
+   * @returns JPEG Buffer
+   */
+  async renderStylePreview(
+    stylePreset: string | ResolvedStylePreset | null,
+    maxSize = 480
+  ): Promise<Buffer> {
+    const resized = this.image
+      .clone()
+      .rotate()
+      .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true });
+    const graded = await this.applyStylePreset(resized, stylePreset);
+    return graded.jpeg({ quality: 82 }).toBuffer();
+  }
+
+  /**
+   * 读取 EXIF（已移除 GPS 信息）
+   *
+   * @param metadata - 已读取的图片元数据（可选，避免重复读取）
+   * @returns 构造时传入的 EXIF 优先；没有 EXIF 或解析失败时返回空对象
+   */
+  async readExif(metadata?: sharp.Metadata): Promise<Record<string, any>> {
+    if (this.sourceExif) {
+      return this.sanitizeExif(this.sourceExif);
+    }
+    const { exif } = metadata ?? await this.image.metadata();
+    if (exif) {
+      try {
+        const rawExif = exifReader(exif);
+        // Strip GPS location info to prevent privacy leakage
+        return this.sanitizeExif(rawExif);
+      } catch (e) {
+        console.warn('Failed to parse EXIF:', e);
+      }
+    }
+    return {};
+  }
+
+  /**
+   * 生成水印预览图（管理后台水印设置使用，与正式处理使用同一套水印代码）
+   *
+   * @description
+   * 底图缩放到预览图尺寸（PREVIEW_MAX_SIZE）后叠加水印，字号、边距、平铺密度与正式预览图一致，再缩小输出
+   *
+   * @param watermarkConfig - 水印配置
+   * @param exif - 用于替换文字变量的 EXIF
+   * @param outputSize - 输出长边尺寸
+   * @returns JPEG Buffer
+   */
+  async renderWatermarkPreview(
+    watermarkConfig: WatermarkConfig,
+    exif: Record<string, any> | null,
+    outputSize = 960
+  ): Promise<Buffer> {
+    const maxPreviewSize = parseInt(process.env.PREVIEW_MAX_SIZE || '1920', 10);
+    let base = await this.image
+      .clone()
+      .rotate()
+      .resize(maxPreviewSize, maxPreviewSize, { fit: 'inside' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    if (watermarkConfig.enabled) {
+      const composites = await this.buildWatermarkComposites(
+        watermarkConfig,
+        base.info.width,
+        base.info.height,
+        resolveWatermarkVariables(exif)
+      );
+      if (composites.length > 0) {
+        base = await sharp(base.data, { raw: base.info })
+          .composite(composites)
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+      }
+    }
+
+    return sharp(base.data, { raw: base.info })
+      .resize(outputSize, outputSize, { fit: 'inside' })
+      .jpeg({ quality: 82 })
+      .toBuffer();
+  }
+
   /**
    * 处理图片
    *
@@ -310,12 +448,14 @@ export class PhotoProcessor {
    * 3. 生成 BlurHash
    * 4. 生成缩略图（400px）
    * 5. 生成预览图（1920px，带水印）
-   * 6. 提取并清理 EXIF 数据
+   * 6. 按尺寸阶梯生成 AVIF/WebP/JPEG 衍生图（可选，带水印）
+   * 7. 提取并清理 EXIF 数据
    *
    * @param watermarkConfig - 水印配置
    * @param manualRotation - 手动旋转角度（可选，覆盖 EXIF）
-   * @param stylePresetId - 风格预设 ID（可选）
+   * @param stylePreset - 风格预设 ID 或已解析的预设（可选）
    * @param aiRetouchConfig - AI 修图配置（可选）
+   * @param derivativeConfig - 衍生图配置（可选，不传则不生成衍生图）
    * @returns 处理结果对象
    *
    * @example
@@ -331,23 +471,15 @@ export class PhotoProcessor {
   async process(
     watermarkConfig?: WatermarkConfig,
     manualRotation?: number | null,
-    stylePresetId?: string | null,
-    aiRetouchConfig?: { enabled: boolean; config?: AIRetouchOptions }
+    stylePreset?: string | ResolvedStylePreset | null,
+    aiRetouchConfig?: { enabled: boolean; config?: AIRetouchOptions },
+    derivativeConfig?: DerivativeConfig | null
   ): Promise<ProcessedResult> {
     // Get original metadata first (for EXIF extraction)
     const originalMetadata = await this.image.metadata();
 
     // 1. Extract EXIF (strip sensitive info)
-    let exif: unknown = {};
-    if (originalMetadata.exif) {
-      try {
-        const rawExif = exifReader(originalMetadata.exif);
-        // Strip GPS location info to prevent privacy leakage
-        exif = this.sanitizeExif(rawExif);
-      } catch (e) {
-        console.warn('Failed to parse EXIF:', e);
-      }
-    }
+    const exif: unknown = await this.readExif(originalMetadata);
 
     // Apply rotation: use manual rotation if provided; otherwise use EXIF orientation
     let rotatedImage: sharp.Sharp;
@@ -399,7 +531,7 @@ export class PhotoProcessor {
     }
 
     // Apply style preset (after rotation, before watermark)
-    rotatedImage = this.applyStylePreset(rotatedImage, stylePresetId);
+    rotatedImage = await this.applyStylePreset(rotatedImage, stylePreset);
 
     const metadata = await rotatedImage.metadata();
 
@@ -450,77 +582,16 @@ export class PhotoProcessor {
       .resize(maxPreviewSize, null, { withoutEnlargement: true });
 
     // Add Watermark
+    const watermarkVariables = resolveWatermarkVariables(exif as Record<string, any>);
     if (watermarkConfig?.enabled) {
-      console.log(`[Watermark] Config:`, JSON.stringify(watermarkConfig));
-      const watermarkStartTime = Date.now();
-      const width = previewWidth;
-      const height = previewHeight;
-
-      // Boundary check: ensure valid image dimensions
-      if (!width || !height || width <= 0 || height <= 0) {
-        console.warn(`[Watermark] Invalid image dimensions: ${width}x${height}, skipping watermark`);
-      } else {
-        const composites: Array<{ input: Buffer; gravity: string }> = [];
-
-        // Support multiple watermarks (new format)
-        if (watermarkConfig.watermarks && Array.isArray(watermarkConfig.watermarks)) {
-
-          // Parallel processing of multiple watermarks (performance optimization)
-          const enabledWatermarks = watermarkConfig.watermarks.filter(w => w.enabled !== false);
-          console.log(`[Watermark] Enabled watermarks: ${enabledWatermarks.length}`, JSON.stringify(enabledWatermarks));
-          const watermarkPromises = enabledWatermarks.map(watermark =>
-            this.createWatermarkBuffer(watermark, width, height)
-          );
-
-          // Create all watermark buffers in parallel
-          const watermarkBuffers = await Promise.all(watermarkPromises);
-          console.log(`[Watermark] Created buffers: ${watermarkBuffers.filter(b => b !== null).length}/${watermarkBuffers.length}`);
-
-          // Build composites array
-          for (let i = 0; i < enabledWatermarks.length; i++) {
-            const watermarkBuffer = watermarkBuffers[i];
-            if (watermarkBuffer) {
-              const gravity = this.positionToGravity(enabledWatermarks[i].position);
-              composites.push({
-                input: watermarkBuffer,
-                gravity,
-              });
-            }
-          }
-        } else {
-          // Legacy format compatibility: Single watermark
-          const singleWatermark: SingleWatermark = {
-            type: watermarkConfig.type || 'text',
-            text: watermarkConfig.text,
-            logoUrl: watermarkConfig.logoUrl,
-            opacity: watermarkConfig.opacity || 0.5,
-            position: (watermarkConfig.position as SingleWatermark['position']) || 'center',
-          };
-
-          const watermarkBuffer = await this.createWatermarkBuffer(
-            singleWatermark,
-            width,
-            height
-          );
-
-          if (watermarkBuffer) {
-            const gravity = this.positionToGravity(singleWatermark.position);
-            composites.push({
-              input: watermarkBuffer,
-              gravity,
-            });
-          }
-        }
-
-        // Apply all watermarks
-        if (composites.length > 0) {
-          previewPipeline = previewPipeline.composite(composites);
-        }
-
-        const watermarkDuration = Date.now() - watermarkStartTime;
-        if (watermarkDuration > 5000) {
-          console.warn(`[Watermark] Slow watermark processing: ${watermarkDuration}ms`);
-        }
+      const composites = await this.buildWatermarkComposites(
+        watermarkConfig,
+        previewWidth,
+        previewHeight,
+        watermarkVariables
+      );
+      if (composites.length > 0) {
+        previewPipeline = previewPipeline.composite(composites);
       }
     }
 
@@ -528,46 +599,223 @@ export class PhotoProcessor {
       .jpeg({ quality: 85 })
       .toBuffer();
 
+    const derivatives = derivativeConfig
+      ? await this.generateDerivatives(rotatedImage, derivativeConfig, watermarkConfig, watermarkVariables)
+      : [];
+
     return {
       metadata, // Already rotated metadata, contains correct dimensions
       exif,
       blurHash,
       thumbBuffer,
       previewBuffer,
+      derivatives,
     };
   }
 
+  /**
+   * 构建水印叠加层
+   *
+   * @description
+   * 水印尺寸按目标图片宽高计算，预览图和各尺寸衍生图分别调用，保证水印比例一致
+   *
+   * @param watermarkConfig - 水印配置
+   * @param width - 目标图片宽度
+   * @param height - 目标图片高度
+   * @param variables - 水印文字变量（由照片 EXIF 解析）
+   * @returns Sharp composite 参数；没有可用水印时为空数组
+   *
+   * @internal
+   */
+  private async buildWatermarkComposites(
+    watermarkConfig: WatermarkConfig,
+    width: number,
+    height: number,
+    variables: Record<WatermarkVariable, string> = resolveWatermarkVariables(null)
+  ): Promise<Array<{ input: Buffer; gravity: string }>> {
+    console.log(`[Watermark] Config:`, JSON.stringify(watermarkConfig));
+    const watermarkStartTime = Date.now();
+
+    // Boundary check: ensure valid image dimensions
+    if (!width || !height || width <= 0 || height <= 0) {
+      console.warn(`[Watermark] Invalid image dimensions: ${width}x${height}, skipping watermark`);
+      return [];
+    }
+
+    const composites: Array<{ input: Buffer; gravity: string }> = [];
+
+    // Support multiple watermarks (new format)
+    if (watermarkConfig.watermarks && Array.isArray(watermarkConfig.watermarks)) {
+
+      // Parallel processing of multiple watermarks (performance optimization)
+      const enabledWatermarks = watermarkConfig.watermarks.filter(w => w.enabled !== false);
+      console.log(`[Watermark] Enabled watermarks: ${enabledWatermarks.length}`, JSON.stringify(enabledWatermarks));
+      const watermarkPromises = enabledWatermarks.map(watermark =>
+        this.createWatermarkBuffer(watermark, width, height, variables)
+      );
+
+      // Create all watermark buffers in parallel
+      const watermarkBuffers = await Promise.all(watermarkPromises);
+      console.log(`[Watermark] Created buffers: ${watermarkBuffers.filter(b => b !== null).length}/${watermarkBuffers.length}`);
+
+      // Build composites array
+      for (let i = 0; i < enabledWatermarks.length; i++) {
+        const watermarkBuffer = watermarkBuffers[i];
+        if (watermarkBuffer) {
+          const gravity = this.positionToGravity(enabledWatermarks[i].position);
+          composites.push({
+            input: watermarkBuffer,
+            gravity,
+          });
+        }
+      }
+    } else {
+      // Legacy format compatibility: Single watermark
+      const singleWatermark: SingleWatermark = {
+        type: watermarkConfig.type || 'text',
+        text: watermarkConfig.text,
+        logoUrl: watermarkConfig.logoUrl,
+        opacity: watermarkConfig.opacity || 0.5,
+        position: (watermarkConfig.position as SingleWatermark['position']) || 'center',
+      };
+
+      const watermarkBuffer = await this.createWatermarkBuffer(
+        singleWatermark,
+        width,
+        height,
+        variables
+      );
+
+      if (watermarkBuffer) {
+        const gravity = this.positionToGravity(singleWatermark.position);
+        composites.push({
+          input: watermarkBuffer,
+          gravity,
+        });
+      }
+    }
+
+    const watermarkDuration = Date.now() - watermarkStartTime;
+    if (watermarkDuration > 5000) {
+      console.warn(`[Watermark] Slow watermark processing: ${watermarkDuration}ms`);
+    }
+
+    return composites;
+  }
+
+  /**
+   * 按尺寸阶梯生成多格式衍生图
+   *
+   * @description
+   * 先生成最大尺寸的母版（与预览图一样叠加水印），再依次缩放编码为各尺寸、各格式，
+   * 串行编码以控制内存和 CPU 峰值（AVIF 编码较慢）。
+   *
+   * @param rotatedImage - 已旋转、已应用风格的图片
+   * @param config - 衍生图配置
+   * @param watermarkConfig - 水印配置
+   * @param watermarkVariables - 水印文字变量
+   * @returns 衍生图列表；原图尺寸未知或配置为空时返回空数组
+   *
+   * @internal
+   */
+  private async generateDerivatives(
+    rotatedImage: sharp.Sharp,
+    config: DerivativeConfig,
+    watermarkConfig?: WatermarkConfig,
+    watermarkVariables?: Record<WatermarkVariable, string>
+  ): Promise<GeneratedDerivative[]> {
+    if (config.widths.length === 0 || config.formats.length === 0) {
+      return [];
+    }
+
+    const maxWidth = config.widths[config.widths.length - 1];
+    let master = await rotatedImage
+      .clone()
+      .resize(maxWidth, null, { withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    if (watermarkConfig?.enabled) {
+      const composites = await this.buildWatermarkComposites(
+        watermarkConfig,
+        master.info.width,
+        master.info.height,
+        watermarkVariables
+      );
+      if (composites.length > 0) {
+        master = await sharp(master.data, { raw: master.info })
+          .composite(composites)
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+      }
+    }
+
+    const derivatives: GeneratedDerivative[] = [];
+    for (const width of planDerivativeWidths(master.info.width, config.widths)) {
+      for (const format of config.formats) {
+        const { data, info } = await sharp(master.data, { raw: master.info })
+          .resize(width)
+          .toFormat(format, DERIVATIVE_ENCODE_OPTIONS[format])
+          .toBuffer({ resolveWithObject: true });
+        derivatives.push({ format, width: info.width, height: info.height, buffer: data });
+      }
+    }
+
+    return derivatives;
+  }
+
   /**
    * 创建单个水印的 Buffer
    *
    * @description
-   * - 文本水印：生成 SVG 文本
+   * - 文本水印：替换 EXIF 变量后生成 SVG 文本（字体、颜色、描边、投影）
    * - Logo 水印：从 URL 下载并缩放，然后嵌入 SVG
+   * - 平铺模式：单个水印按角度、密度、间距铺满整张图片
    *
    * @param watermark - 水印配置
    * @param imageWidth - 基础图片宽度
    * @param imageHeight - 基础图片高度
-   * @returns SVG Buffer，失败返回 null
+   * @param variables - 水印文字变量
+   * @returns 与图片同尺寸的 SVG Buffer，失败或替换变量后文字为空时返回 null
    *
    * @internal
    */
   private async createWatermarkBuffer(
     watermark: SingleWatermark,
     imageWidth: number,
-    imageHeight: number
+    imageHeight: number,
+    variables: Record<WatermarkVariable, string> = resolveWatermarkVariables(null)
   ): Promise<Buffer | null> {
+    const tiled = watermark.mode === 'tiled';
+
     if (watermark.type === 'text' && watermark.text) {
+      const text = renderWatermarkText(watermark.text, variables);
+      if (!text) {
+        return null;
+      }
+
       // Optimization: Calculate font size based on area rather than min dimension
+      // Tiled mode: font size follows row pitch so density changes keep the pattern balanced
       const baseSize = Math.sqrt(imageWidth * imageHeight);
-      const fontSize = watermark.size || Math.max(12, Math.min(72, Math.floor(baseSize * 0.01)));
+      const fontSize = watermark.size || (tiled
+        ? Math.max(12, Math.floor(getTileRowPitch(imageWidth, imageHeight, watermark) * 0.3))
+        : Math.max(12, Math.min(72, Math.floor(baseSize * 0.01))));
+      const defs = buildTextStyleDefs(watermark, fontSize);
+      const filter = watermark.shadow ? 'watermark-shadow' : undefined;
+
+      if (tiled) {
+        const layout = planWatermarkTiles(imageWidth, imageHeight, estimateTextWidth(text, fontSize), watermark);
+        const item = `<text id="watermark-item" x="0" y="0" text-anchor="middle" dominant-baseline="middle" class="watermark">${this.escapeXml(text)}</text>`;
+        return Buffer.from(buildTiledWatermarkSvg(imageWidth, imageHeight, defs + item, layout, watermark.opacity, filter));
+      }
+
       const { x, y, anchor, baseline } = this.getTextPosition(watermark.position, imageWidth, imageHeight, watermark.margin);
+      const filterAttr = filter ? ` filter="url(#${filter})"` : '';
 
       const svgText = `
         <svg width="${imageWidth}" height="${imageHeight}" xmlns="http://www.w3.org/2000/svg">
-          <style>
-            .watermark { fill: rgba(255, 255, 255, ${watermark.opacity}); font-size: ${fontSize}px; font-family: "Noto Sans CJK SC", "Noto Sans CJK", "Noto Sans", Arial, Helvetica, "Microsoft YaHei", "SimHei", "SimSun", "Arial Unicode MS", sans-serif; font-weight: bold; }
-          </style>
-          <text x="${x}" y="${y}" text-anchor="${anchor}" dominant-baseline="${baseline}" class="watermark">${this.escapeXml(watermark.text)}</text>
+          <defs>${defs}</defs>
+          <text x="${x}" y="${y}" text-anchor="${anchor}" dominant-baseline="${baseline}" class="watermark" opacity="${watermark.opacity}"${filterAttr}>${this.escapeXml(text)}</text>
         </svg>
       `;
       return Buffer.from(svgText);
@@ -612,7 +860,9 @@ export class PhotoProcessor {
             throw new Error(`Logo file too large: ${logoBuffer.byteLength} bytes (max: ${maxSize} bytes)`);
           }
 
-          const logoSize = watermark.size || Math.floor(Math.min(imageWidth, imageHeight) * 0.15);
+          const logoSize = watermark.size || (tiled
+            ? Math.max(16, Math.floor(getTileRowPitch(imageWidth, imageHeight, watermark) * 0.5))
+            : Math.floor(Math.min(imageWidth, imageHeight) * 0.15));
 
           // Optimization: Get buffer and metadata in one go, avoid repeated Sharp instances
           const resizedLogoResult = await sharp(Buffer.from(logoBuffer))
@@ -622,6 +872,12 @@ export class PhotoProcessor {
           const logoW = resizedLogoResult.info.width;
           const logoH = resizedLogoResult.info.height;
 
+          if (logoW && logoH && tiled) {
+            const layout = planWatermarkTiles(imageWidth, imageHeight, logoW, watermark);
+            const item = `<image id="watermark-item" href="data:image/png;base64,${resizedLogoResult.data.toString('base64')}" x="${-logoW / 2}" y="${-logoH / 2}" width="${logoW}" height="${logoH}"/>`;
+            return Buffer.from(buildTiledWatermarkSvg(imageWidth, imageHeight, item, layout, watermark.opacity));
+          }
+
           if (logoW && logoH) {
             const { x, y } = this.getImagePosition(watermark.position, imageWidth, imageHeight, logoW, logoH, watermark.margin);
             const logoBase64 = resizedLogoResult.data.toString('base64');
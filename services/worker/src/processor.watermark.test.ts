@@ -4,7 +4,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import sharp from 'sharp'
 import { PhotoProcessor, type WatermarkConfig, type SingleWatermark } from './processor.js'
+import { resolveWatermarkVariables } from './lib/watermark.js'
 
 // Mock fetch
 global.fetch = vi.fn()
@@ -1201,4 +1203,88 @@ describe('Watermark Security Tests', () => {
       expect(result).toBeDefined()
     })
   })
+
+  describe('Tiled Mode and Text Variables', () => {
+    const exif = {
+      Image: { Make: 'FUJIFILM', Model: 'X-T5' },
+      Photo: { DateTimeOriginal: '2024:03:08 09:15:00', FNumber: 1.4 },
+    }
+
+    beforeEach(() => {
+      // 前面的用例 mock 了 sharp.prototype.resize
+      vi.restoreAllMocks()
+    })
+
+    it('should replace EXIF variables in text watermark', async () => {
+      const processor = new PhotoProcessor(Buffer.from('fake-image-data'))
+      const svg: Buffer = await (processor as any).createWatermarkBuffer(
+        { type: 'text', text: '{camera} {aperture} · {date}', opacity: 0.5, position: 'bottom-right' },
+        1000,
+        800,
+        resolveWatermarkVariables(exif)
+      )
+
+      expect(svg.toString()).toContain('>FUJIFILM X-T5 f/1.4 · 2024-03-08</text>')
+    })
+
+    it('should skip text watermark that is empty after replacing variables', async () => {
+      const processor = new PhotoProcessor(Buffer.from('fake-image-data'))
+      const svg = await (processor as any).createWatermarkBuffer(
+        { type: 'text', text: '{lens}', opacity: 0.5, position: 'center' },
+        1000,
+        800,
+        resolveWatermarkVariables(exif)
+      )
+
+      expect(svg).toBeNull()
+    })
+
+    it('should tile text watermark with font, stroke and shadow', async () => {
+      const processor = new PhotoProcessor(Buffer.from('fake-image-data'))
+      const svg: Buffer = await (processor as any).createWatermarkBuffer(
+        {
+          type: 'text',
+          text: '© Studio',
+          opacity: 0.3,
+          position: 'center',
+          mode: 'tiled',
+          angle: -45,
+          density: 5,
+          fontFamily: 'playfair',
+          strokeWidth: 5,
+          shadow: true,
+        },
+        1000,
+        800
+      )
+      const svgText = svg.toString()
+
+      expect(svgText).toContain('<text id="watermark-item"')
+      expect(svgText).toContain('font-family: "Playfair Display"')
+      // 未指定尺寸时字号按行距（800 / 5）计算
+      expect(svgText).toContain('font-size: 48px')
+      expect(svgText).toContain('paint-order: stroke')
+      expect(svgText).toContain('filter="url(#watermark-shadow)"')
+      expect(svgText).toContain('rotate(-45)')
+      expect(svgText.match(/<use /g)!.length).toBeGreaterThan(10)
+    })
+
+    it('should render watermark preview at preview size and scale down', async () => {
+      const source = await sharp({
+        create: { width: 600, height: 400, channels: 3, background: { r: 40, g: 60, b: 90 } },
+      }).jpeg().toBuffer()
+      const processor = new PhotoProcessor(source)
+
+      const preview = await processor.renderWatermarkPreview(
+        { enabled: true, watermarks: [{ type: 'text', text: '{camera}', opacity: 0.5, position: 'center', mode: 'tiled' }] },
+        exif,
+        300
+      )
+      const metadata = await sharp(preview).metadata()
+
+      expect(metadata.format).toBe('jpeg')
+      expect(metadata.width).toBe(300)
+      expect(metadata.height).toBe(200)
+    })
+  })
 })
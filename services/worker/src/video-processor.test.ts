@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { parseProbeOutput, buildPosterArgs, buildTranscodeArgs } from './video-processor.js'
+
+describe('video-processor', () => {
+  describe('parseProbeOutput', () => {
+    it('should read dimensions and duration', () => {
+      const output = JSON.stringify({
+        streams: [
+          { codec_type: 'audio' },
+          { codec_type: 'video', width: 1920, height: 1080 },
+        ],
+        format: { duration: '12.345678' },
+      })
+
+      expect(parseProbeOutput(output)).toEqual({ width: 1920, height: 1080, duration: 12.346 })
+    })
+
+    it('should swap dimensions for rotated portrait videos', () => {
+      const output = JSON.stringify({
+        streams: [
+          {
+            codec_type: 'video',
+            width: 1920,
+            height: 1080,
+            side_data_list: [{ rotation: -90 }],
+          },
+        ],
+        format: { duration: '3.0' },
+      })
+
+      const metadata = parseProbeOutput(output)
+      expect(metadata.width).toBe(1080)
+      expect(metadata.height).toBe(1920)
+    })
+
+    it('should support legacy rotate tag', () => {
+      const output = JSON.stringify({
+        streams: [{ codec_type: 'video', width: 640, height: 480, tags: { rotate: '270' } }],
+      })
+
+      expect(parseProbeOutput(output)).toEqual({ width: 480, height: 640, duration: 0 })
+    })
+
+    it('should throw when there is no video stream', () => {
+      const output = JSON.stringify({ streams: [{ codec_type: 'audio' }] })
+      expect(() => parseProbeOutput(output)).toThrow('No video stream found')
+    })
+  })
+
+  describe('buildPosterArgs', () => {
+    it('should seek to 1 second for normal clips', () => {
+      const args = buildPosterArgs('/tmp/in.mp4', '/tmp/poster.jpg', 10)
+      expect(args[args.indexOf('-ss') + 1]).toBe('1.000')
+      expect(args[args.length - 1]).toBe('/tmp/poster.jpg')
+    })
+
+    it('should seek to the middle of very short clips', () => {
+      const args = buildPosterArgs('/tmp/in.mp4', '/tmp/poster.jpg', 1)
+      expect(args[args.indexOf('-ss') + 1]).toBe('0.500')
+    })
+  })
+
+  describe('buildTranscodeArgs', () => {
+    it('should produce streamable H.264 MP4', () => {
+      const args = buildTranscodeArgs('/tmp/in.mov', '/tmp/out.mp4')
+      expect(args).toContain('libx264')
+      expect(args).toContain('+faststart')
+      expect(args[args.indexOf('-pix_fmt') + 1]).toBe('yuv420p')
+      expect(args[args.length - 1]).toBe('/tmp/out.mp4')
+    })
+  })
+})
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview PIS Worker - 视频处理模块
+ *
+ * @description
+ * 使用 ffprobe / ffmpeg 处理视频短片，包括：
+ * - 读取时长与画面尺寸（考虑旋转元数据）
+ * - 提取封面帧（后续交给 PhotoProcessor 生成缩略图、预览图和 BlurHash）
+ * - 转码为适合网页播放的 H.264/AAC MP4 预览
+ *
+ * ffmpeg 与 ffprobe 的路径可通过 FFMPEG_PATH / FFPROBE_PATH 配置，默认从 PATH 查找。
+ *
+ * @module worker/video-processor
+ *
+ * @example
+ * ```typescript
+ * import { VideoProcessor } from './video-processor.js'
+ *
+ * const processor = new VideoProcessor(videoBuffer, '.mov')
+ * const result = await processor.process()
+ * ```
+ */
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+/** 预览视频的最长边（像素） */
+const PREVIEW_MAX_DIMENSION = 1280;
+/** ffprobe 超时（毫秒） */
+const PROBE_TIMEOUT_MS = 30 * 1000;
+/** 转码超时（毫秒） */
+const TRANSCODE_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * 视频元数据
+ */
+export interface VideoMetadata {
+  /** 显示宽度（已考虑旋转） */
+  width: number;
+  /** 显示高度（已考虑旋转） */
+  height: number;
+  /** 时长（秒） */
+  duration: number;
+}
+
+/**
+ * 视频处理结果
+ */
+export interface ProcessedVideo {
+  /** 视频元数据 */
+  metadata: VideoMetadata;
+  /** 封面帧（JPEG） */
+  posterBuffer: Buffer;
+  /** 网页预览视频（H.264/AAC MP4） */
+  previewBuffer: Buffer;
+}
+
+/**
+ * 解析 ffprobe 的 JSON 输出
+ *
+ * @param output - `ffprobe -print_format json -show_streams -show_format` 的输出
+ * @returns 视频元数据
+ * @throws 没有视频流时抛出错误
+ */
+export function parseProbeOutput(output: string): VideoMetadata {
+  const data = JSON.parse(output) as {
+    streams?: Array<{
+      codec_type?: string;
+      width?: number;
+      height?: number;
+      duration?: string;
+      tags?: { rotate?: string };
+      side_data_list?: Array<{ rotation?: number }>;
+    }>;
+    format?: { duration?: string };
+  };
+
+  const stream = data.streams?.find((s) => s.codec_type === "video");
+  if (!stream || !stream.width || !stream.height) {
+    throw new Error("No video stream found");
+  }
+
+  // 手机竖拍视频通常以横向编码并带旋转元数据
+  const rotation = Number(
+    stream.side_data_list?.find((d) => d.rotation !== undefined)?.rotation ??
+      stream.tags?.rotate ??
+      0,
+  );
+  const isRotated = Math.abs(rotation) % 180 === 90;
+
+  const duration = parseFloat(data.format?.duration ?? stream.duration ?? "0");
+
+  return {
+    width: isRotated ? stream.height : stream.width,
+    height: isRotated ? stream.width : stream.height,
+    duration: Number.isFinite(duration) ? Math.round(duration * 1000) / 1000 : 0,
+  };
+}
+
+/**
+ * 构建封面帧提取参数
+ *
+ * @param input - 输入文件路径
+ * @param output - 输出 JPEG 路径
+ * @param duration - 视频时长（秒）
+ * @returns ffmpeg 参数
+ */
+export function buildPosterArgs(
+  input: string,
+  output: string,
+  duration: number,
+): string[] {
+  // 避开片头黑场：取第 1 秒，短视频取中间帧
+  const seekTo = duration > 2 ? 1 : duration / 2;
+  return [
+    "-y",
+    "-ss",
+    seekTo.toFixed(3),
+    "-i",
+    input,
+    "-frames:v",
+    "1",
+    "-q:v",
+    "2",
+    output,
+  ];
+}
+
+/**
+ * 构建预览视频转码参数
+ *
+ * @param input - 输入文件路径
+ * @param output - 输出 MP4 路径
+ * @returns ffmpeg 参数
+ */
+export function buildTranscodeArgs(input: string, output: string): string[] {
+  const max = PREVIEW_MAX_DIMENSION;
+  return [
+    "-y",
+    "-i",
+    input,
+    "-map",
+    "0:v:0",
+    "-map",
+    "0:a:0?",
+    // 按最长边缩放，且保证宽高为偶数（H.264 要求）
+    "-vf",
+    `scale='if(gte(iw,ih),min(${max},iw),-2)':'if(gte(iw,ih),-2,min(${max},ih))'`,
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "26",
+    "-pix_fmt",
+    "yuv420p",
+    "-c:a",
+    "aac",
+    "-b:a",
+    "128k",
+    // moov 前置，浏览器无需下载完整文件即可开始播放
+    "-movflags",
+    "+faststart",
+    output,
+  ];
+}
+
+/**
+ * 视频处理器
+ *
+ * @class
+ */
+export class VideoProcessor {
+  private buffer: Buffer;
+  private extension: string;
+
+  /**
+   * @param buffer - 原始视频文件
+   * @param extension - 原始文件扩展名（如 .mov），ffmpeg 据此识别容器格式
+   */
+  constructor(buffer: Buffer, extension = ".mp4") {
+    this.buffer = buffer;
+    this.extension = extension;
+  }
+
+  /**
+   * 执行视频处理
+   *
+   * @returns 元数据、封面帧和预览视频
+   */
+  async process(): Promise<ProcessedVideo> {
+    const workDir = await fs.mkdtemp(join(tmpdir(), "pis-video-"));
+    const inputPath = join(workDir, `input${this.extension}`);
+    const posterPath = join(workDir, "poster.jpg");
+    const previewPath = join(workDir, "preview.mp4");
+
+    try {
+      await fs.writeFile(inputPath, this.buffer);
+
+      const metadata = await this.probe(inputPath);
+
+      await this.runFfmpeg(
+        buildPosterArgs(inputPath, posterPath, metadata.duration),
+        PROBE_TIMEOUT_MS,
+      );
+      await this.runFfmpeg(
+        buildTranscodeArgs(inputPath, previewPath),
+        TRANSCODE_TIMEOUT_MS,
+      );
+
+      const [posterBuffer, previewBuffer] = await Promise.all([
+        fs.readFile(posterPath),
+        fs.readFile(previewPath),
+      ]);
+
+      return { metadata, posterBuffer, previewBuffer };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * 读取视频元数据
+   * @internal
+   */
+  private async probe(inputPath: string): Promise<VideoMetadata> {
+    const { stdout } = await execFileAsync(
+      process.env.FFPROBE_PATH || "ffprobe",
+      [
+        "-v",
+        "error",
+        "-print_format",
+        "json",
+        "-show_streams",
+        "-show_format",
+        inputPath,
+      ],
+      { timeout: PROBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+    );
+    return parseProbeOutput(stdout);
+  }
+
+  /**
+   * 执行 ffmpeg 命令
+   * @internal
+   */
+  private async runFfmpeg(args: string[], timeout: number): Promise<void> {
+    await execFileAsync(
+      process.env.FFMPEG_PATH || "ffmpeg",
+      ["-hide_banner", "-loglevel", "error", ...args],
+      { timeout, maxBuffer: 10 * 1024 * 1024 },
+    );
+  }
+}